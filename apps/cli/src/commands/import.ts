@@ -1,13 +1,90 @@
+import { readFileSync } from 'node:fs';
 import type { Command } from 'commander';
 import ora from 'ora';
-import type { EventBoosterType } from '@opprs/rest-api-client';
+import type {
+  CsvImportColumn,
+  CsvImportRequest,
+  EventBoosterType,
+  TGPConfidenceReport,
+} from '@opprs/rest-api-client';
 import { createClient, getApiUrl, type GlobalOptions } from '../client.js';
-import { output, success, info } from '../utils/index.js';
+import { output, success, info, warn } from '../utils/index.js';
 import { wrapCommand } from '../utils/index.js';
 
 interface MatchplayOptions {
   eventBooster?: string;
   apiToken?: string;
+  finals?: string;
+  singleStage?: boolean;
+  tgpConfig?: string;
+}
+
+interface MatchplayBulkOptions {
+  organizer?: string;
+  series?: string;
+  ids?: string;
+  from?: string;
+  to?: string;
+  eventBooster?: string;
+  apiToken?: string;
+}
+
+interface CsvOptions {
+  name: string;
+  date: string;
+  tgpConfig: string;
+  externalId?: string;
+  eventBooster?: string;
+  delimiter?: string;
+  header?: boolean;
+  column: string[];
+  dryRun?: boolean;
+}
+
+const CSV_DELIMITERS: Record<string, CsvImportRequest['delimiter']> = {
+  comma: ',',
+  tab: '\t',
+  semicolon: ';',
+};
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseFinalsIds(options: MatchplayOptions): number[] | undefined {
+  if (options.singleStage) {
+    return [];
+  }
+  return options.finals?.split(',').map((id) => parseInt(id.trim()));
+}
+
+function parseTGPConfig(options: { tgpConfig?: string }): Record<string, unknown> | undefined {
+  if (!options.tgpConfig) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(options.tgpConfig) as Record<string, unknown>;
+  } catch {
+    console.error('Invalid TGP config JSON');
+    process.exit(1);
+  }
+}
+
+function parseColumns(mappings: string[]): CsvImportRequest['columns'] {
+  const columns: NonNullable<CsvImportRequest['columns']> = {};
+  for (const mapping of mappings) {
+    const [column, target] = mapping.split('=', 2);
+    if (!column || !target) {
+      console.error(`Invalid column mapping "${mapping}", expected column=header`);
+      process.exit(1);
+    }
+    columns[column as CsvImportColumn] = /^\d+$/.test(target) ? parseInt(target) : target;
+  }
+  return columns;
+}
+
+function formatConfidence(confidence: TGPConfidenceReport): string {
+  return `${confidence.level} TGP confidence, ${confidence.gamesMeasured} games measured, ${confidence.byes} byes`;
 }
 
 export function registerImportCommands(program: Command): void {
@@ -21,6 +98,12 @@ export function registerImportCommands(program: Command): void {
       'Event booster type (NONE, CERTIFIED, CERTIFIED_PLUS, CHAMPIONSHIP_SERIES, MAJOR)'
     )
     .option('--api-token <token>', 'Matchplay API token (for private tournaments)')
+    .option(
+      '--finals <ids>',
+      'Comma-separated Matchplay IDs of the finals stages, A division first (defaults to the linked tournament)'
+    )
+    .option('--single-stage', 'Import only this tournament, without linked finals')
+    .option('--tgp-config <json>', 'TGP configuration JSON overriding the derived one')
     .action(
       wrapCommand(async (tournamentId: string, options: MatchplayOptions, cmd: Command) => {
         const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
@@ -30,14 +113,222 @@ export function registerImportCommands(program: Command): void {
         const result = await client.import.matchplayTournament(parseInt(tournamentId), {
           eventBooster: options.eventBooster as EventBoosterType,
           apiToken: options.apiToken,
+          finalsIds: parseFinalsIds(options),
+          tgpConfig: parseTGPConfig(options),
         });
         spinner.stop();
 
         success(result.created ? 'Tournament imported' : 'Tournament updated');
         info(`Players created: ${result.playersCreated}`);
-        info(`Players updated: ${result.playersUpdated}`);
+        info(
+          `Players updated: ${result.playersUpdated} (${result.playersMatched} matched by identity)`
+        );
+        if (result.reviewsQueued > 0) {
+          warn(`Players queued for review: ${result.reviewsQueued} (see "players reviews")`);
+        }
         info(`Results: ${result.resultsCount}`);
+        for (const stage of result.stages) {
+          info(
+            `  ${stage.isFinals ? 'Finals' : 'Qualifying'} (Matchplay ${stage.matchplayId}): ${stage.resultsCount} (${formatConfidence(stage.tgpConfidence)})`
+          );
+        }
+        if (result.tgpOverridden) {
+          info('TGP: overridden');
+        }
+        info(`Ratings updated: ${result.ratingsUpdated} (from ${result.ratingMethod})`);
         output(result.tournament, { json: globalOpts.json });
       })
     );
+  importCmd
+    .command('matchplay-tgp <tournamentId>')
+    .description('Preview the TGP configuration derived from a Matchplay tournament')
+    .option('--api-token <token>', 'Matchplay API token (for private tournaments)')
+    .option(
+      '--finals <ids>',
+      'Comma-separated Matchplay IDs of the finals stages, A division first (defaults to the linked tournament)'
+    )
+    .option('--single-stage', 'Preview only this tournament, without linked finals')
+    .action(
+      wrapCommand(async (tournamentId: string, options: MatchplayOptions, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Deriving TGP from Matchplay...').start();
+        const preview = await client.import.previewMatchplayTGP(parseInt(tournamentId), {
+          apiToken: options.apiToken,
+          finalsIds: parseFinalsIds(options),
+        });
+        spinner.stop();
+
+        for (const stage of preview.stages) {
+          info(
+            `${stage.isFinals ? 'Finals' : 'Qualifying'} (Matchplay ${stage.matchplayId}): ${formatConfidence(stage.confidence)}`
+          );
+          for (const field of stage.confidence.fields) {
+            info(`  ${field.field} (${field.source}): ${field.detail}`);
+          }
+        }
+        output(preview.tgpConfig, { json: globalOpts.json });
+      })
+    );
+
+  importCmd
+    .command('matchplay-bulk')
+    .description('Import the tournaments of a Matchplay organizer, series or list of IDs (admin)')
+    .option('--organizer <id>', 'Matchplay organizer ID')
+    .option('--series <id>', 'Matchplay series ID')
+    .option('--ids <ids>', 'Comma-separated Matchplay tournament IDs')
+    .option(
+      '--from <date>',
+      'Only organizer or series tournaments on or after this date (YYYY-MM-DD)'
+    )
+    .option(
+      '--to <date>',
+      'Only organizer or series tournaments on or before this date (YYYY-MM-DD)'
+    )
+    .option(
+      '--event-booster <type>',
+      'Event booster type (NONE, CERTIFIED, CERTIFIED_PLUS, CHAMPIONSHIP_SERIES, MAJOR)'
+    )
+    .option('--api-token <token>', 'Matchplay API token (for private tournaments)')
+    .action(
+      wrapCommand(async (options: MatchplayBulkOptions, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Importing from Matchplay...').start();
+        const result = await client.import.matchplayBulk(
+          {
+            organizerId: options.organizer ? parseInt(options.organizer) : undefined,
+            seriesId: options.series ? parseInt(options.series) : undefined,
+            tournamentIds: options.ids?.split(',').map((id) => parseInt(id.trim())),
+            from: options.from,
+            to: options.to,
+            eventBooster: options.eventBooster as EventBoosterType,
+            apiToken: options.apiToken,
+          },
+          {
+            onProgress: (job) => {
+              if (job.progressTotal) {
+                spinner.text = `Importing from Matchplay... ${job.progress}/${job.progressTotal}`;
+              }
+            },
+          }
+        );
+        spinner.stop();
+
+        if (globalOpts.json) {
+          output(result, { json: true });
+          return;
+        }
+
+        success(`Found ${result.found} tournaments`);
+        info(`Imported: ${result.imported}`);
+        info(`Skipped: ${result.skipped}`);
+        if (result.failed > 0) {
+          warn(`Failed: ${result.failed}`);
+        }
+        output(
+          result.events.map((event) => ({
+            matchplayId: event.matchplayId,
+            status: event.status,
+            name: event.name,
+            tournamentId: event.tournamentId,
+            message: event.message,
+          })),
+          { json: false }
+        );
+      })
+    );
+
+  importCmd
+    .command('csv <file>')
+    .description('Import tournament results from a CSV or TSV file (admin)')
+    .requiredOption('--name <name>', 'Tournament name')
+    .requiredOption('--date <date>', 'Tournament date (YYYY-MM-DD)')
+    .requiredOption('--tgp-config <json>', 'TGP configuration JSON')
+    .option('--external-id <id>', 'External ID of the tournament')
+    .option(
+      '--event-booster <type>',
+      'Event booster type (NONE, CERTIFIED, CERTIFIED_PLUS, CHAMPIONSHIP_SERIES, MAJOR)'
+    )
+    .option(
+      '--delimiter <delimiter>',
+      'Field delimiter: comma, tab or semicolon (default: detected)'
+    )
+    .option('--header', 'The first line is a header (default: detected)')
+    .option('--no-header', 'The first line is data')
+    .option(
+      '--column <column=header>',
+      'Read a column (position, name, playerNumber, externalId, optedOut, isFinals, email) from a header name or zero-based index; repeatable',
+      collect,
+      []
+    )
+    .option('--dry-run', 'Match players and list unmatched names without importing')
+    .action(
+      wrapCommand(async (file: string, options: CsvOptions, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const delimiter = options.delimiter ? CSV_DELIMITERS[options.delimiter] : undefined;
+        if (options.delimiter && !delimiter) {
+          console.error('Delimiter must be comma, tab or semicolon');
+          process.exit(1);
+        }
+
+        const spinner = ora(
+          options.dryRun ? 'Matching players...' : 'Importing results...'
+        ).start();
+        const result = await client.import.csv({
+          csv: readFileSync(file, 'utf-8'),
+          dryRun: options.dryRun,
+          delimiter,
+          hasHeader: options.header,
+          columns: parseColumns(options.column),
+          tournament: {
+            name: options.name,
+            date: new Date(options.date).toISOString(),
+            externalId: options.externalId,
+            eventBooster: options.eventBooster as EventBoosterType,
+            tgpConfig: parseTGPConfig(options) ?? {},
+          },
+        });
+        spinner.stop();
+
+        if (globalOpts.json) {
+          output(result, { json: true });
+          return;
+        }
+
+        if (result.dryRun) {
+          success(
+            `Matched ${result.rows.length - result.unmatched.length - result.ambiguous.length} of ${result.rows.length} rows`
+          );
+        } else {
+          success('Results imported');
+          info(`Players created: ${result.playersCreated}`);
+          if (result.reviewsQueued > 0) {
+            warn(`Players queued for review: ${result.reviewsQueued} (see "players reviews")`);
+          }
+          info(`Results: ${result.resultsCount}`);
+          info(`Ratings updated: ${result.ratingsUpdated}`);
+        }
+        for (const row of result.unmatched) {
+          warn(
+            `Line ${row.line}: ${row.name ?? row.externalId} is unmatched${result.dryRun ? ' and will be created' : ', created'}`
+          );
+        }
+        for (const row of result.ambiguous) {
+          const candidates = row.candidates
+            .map((candidate) => `${candidate.name ?? candidate.playerNumber} (${candidate.score})`)
+            .join(', ');
+          warn(
+            `Line ${row.line}: ${row.name} may be ${candidates}; ${result.dryRun ? 'will be created' : 'created'} and queued for review`
+          );
+        }
+        if (result.tournament) {
+          output(result.tournament, { json: false });
+        }
+      })
+    );
 }
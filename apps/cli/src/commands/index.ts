@@ -6,6 +6,7 @@ import { registerResultCommands } from './results.js';
 import { registerStatsCommands } from './stats.js';
 import { registerImportCommands } from './import.js';
 import { registerUserCommands } from './users.js';
+import { registerJobCommands } from './jobs.js';
 
 export function registerCommands(program: Command): void {
   registerAuthCommands(program);
@@ -15,4 +16,5 @@ export function registerCommands(program: Command): void {
   registerStatsCommands(program);
   registerImportCommands(program);
   registerUserCommands(program);
+  registerJobCommands(program);
 }
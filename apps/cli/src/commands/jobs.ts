@@ -0,0 +1,131 @@
+import type { Command } from 'commander';
+import ora from 'ora';
+import type { JobStatus, JobType } from '@opprs/rest-api-client';
+import { createClient, getApiUrl, type GlobalOptions } from '../client.js';
+import { output, success, info } from '../utils/index.js';
+import { wrapCommand } from '../utils/index.js';
+
+interface ListOptions {
+  page?: string;
+  limit?: string;
+  status?: string;
+  type?: string;
+}
+
+interface WaitOptions {
+  wait?: boolean;
+}
+
+export function registerJobCommands(program: Command): void {
+  const jobs = program.command('jobs').description('Follow, cancel and retry background jobs');
+
+  jobs
+    .command('list')
+    .description('List background jobs (admin only)')
+    .option('--page <number>', 'Page number', '1')
+    .option('--limit <number>', 'Items per page', '20')
+    .option(
+      '--status <status>',
+      'Filter by status (PENDING, RUNNING, COMPLETED, FAILED, CANCELLED)'
+    )
+    .option(
+      '--type <type>',
+      'Filter by type (matchplay-import, matchplay-bulk-import, recalculate-decay)'
+    )
+    .action(
+      wrapCommand(async (options: ListOptions, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Fetching jobs...').start();
+        const result = await client.jobs.list({
+          page: parseInt(options.page ?? '1'),
+          limit: parseInt(options.limit ?? '20'),
+          status: options.status?.toUpperCase() as JobStatus,
+          type: options.type as JobType,
+        });
+        spinner.stop();
+
+        if (globalOpts.json) {
+          output(result, { json: true });
+        } else {
+          output(
+            result.data.map((job) => ({
+              id: job.id,
+              type: job.type,
+              status: job.status,
+              progress: job.progressTotal ? `${job.progress}/${job.progressTotal}` : '-',
+              attempts: job.attempts,
+              createdAt: job.createdAt,
+            })),
+            { json: false }
+          );
+          console.log(
+            `\nPage ${result.pagination.page} of ${result.pagination.totalPages} (${result.pagination.total} total)`
+          );
+        }
+      })
+    );
+
+  jobs
+    .command('get <id>')
+    .description('Get the status, progress and result of a job')
+    .option('--wait', 'Wait for the job to finish')
+    .action(
+      wrapCommand(async (id: string, options: WaitOptions, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        if (options.wait) {
+          const spinner = ora('Waiting for job...').start();
+          await client.jobs.waitForCompletion(id, {
+            onProgress: (job) => {
+              if (job.progressTotal) {
+                spinner.text = `Waiting for job... ${job.progress}/${job.progressTotal}`;
+              }
+            },
+          });
+          spinner.stop();
+        }
+
+        const job = await client.jobs.get(id);
+        output(job, { json: globalOpts.json });
+      })
+    );
+
+  jobs
+    .command('cancel <id>')
+    .description('Cancel a pending job, or stop a running one at its next step')
+    .action(
+      wrapCommand(async (id: string, _options: object, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Cancelling job...').start();
+        const job = await client.jobs.cancel(id);
+        spinner.stop();
+
+        if (job.status === 'CANCELLED') {
+          success(`Job ${id} cancelled`);
+        } else {
+          info(`Job ${id} will stop at its next step`);
+        }
+      })
+    );
+
+  jobs
+    .command('retry <id>')
+    .description('Run a failed or cancelled job again')
+    .action(
+      wrapCommand(async (id: string, _options: object, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Retrying job...').start();
+        await client.jobs.retry(id);
+        spinner.stop();
+
+        success(`Job ${id} queued`);
+      })
+    );
+}
@@ -1,5 +1,6 @@
 import type { Command } from 'commander';
 import ora from 'ora';
+import type { PlayerMatchReviewStatus } from '@opprs/rest-api-client';
 import { createClient, getApiUrl, type GlobalOptions } from '../client.js';
 import { output, success } from '../utils/index.js';
 import { wrapCommand } from '../utils/index.js';
@@ -32,6 +33,12 @@ interface TopOptions {
   limit?: string;
 }
 
+interface ReviewListOptions {
+  page?: string;
+  limit?: string;
+  status?: string;
+}
+
 export function registerPlayerCommands(program: Command): void {
   const players = program.command('players').description('Manage players');
 
@@ -174,6 +181,27 @@ export function registerPlayerCommands(program: Command): void {
       })
     );
 
+  players
+    .command('merge <id> <targetId>')
+    .description(
+      'Merge a duplicate player into another, moving their results and redirecting their ID (admin only)'
+    )
+    .action(
+      wrapCommand(async (id: string, targetId: string, _options: object, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Merging players...').start();
+        const result = await client.players.merge(id, targetId);
+        spinner.stop();
+
+        success(
+          `Player ${id} merged into ${targetId}: ${result.merge.summary.standingsMoved} results moved, ${result.tournamentsRecalculated} tournaments recalculated`
+        );
+        output(result, { json: globalOpts.json });
+      })
+    );
+
   players
     .command('results <id>')
     .description('Get tournament results for a player')
@@ -243,4 +271,82 @@ export function registerPlayerCommands(program: Command): void {
         output(playerList, { json: globalOpts.json });
       })
     );
+
+  players
+    .command('reviews')
+    .description('List imported players queued for review against existing players (admin only)')
+    .option('--page <number>', 'Page number', '1')
+    .option('--limit <number>', 'Items per page', '20')
+    .option('--status <status>', 'Filter by status (PENDING, MATCHED, DISMISSED)', 'PENDING')
+    .action(
+      wrapCommand(async (options: ReviewListOptions, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Fetching reviews...').start();
+        const result = await client.playerMatchReviews.list({
+          page: parseInt(options.page ?? '1'),
+          limit: parseInt(options.limit ?? '20'),
+          status: options.status?.toUpperCase() as PlayerMatchReviewStatus,
+        });
+        spinner.stop();
+
+        if (globalOpts.json) {
+          output(result, { json: true });
+        } else {
+          output(
+            result.data.map((review) => ({
+              id: review.id,
+              source: review.source,
+              player: review.player?.name ?? review.name,
+              playerId: review.playerId,
+              tournament: review.tournament?.name,
+              candidates: review.candidates
+                .map((candidate) => `${candidate.name} (${candidate.playerId}, ${candidate.score})`)
+                .join('; '),
+            })),
+            { json: false }
+          );
+          console.log(
+            `\nPage ${result.pagination.page} of ${result.pagination.totalPages} (${result.pagination.total} total)`
+          );
+        }
+      })
+    );
+
+  players
+    .command('review-match <reviewId> <playerId>')
+    .description(
+      "Resolve a review as the same player, moving the imported player's results to the existing player (admin only)"
+    )
+    .action(
+      wrapCommand(async (reviewId: string, playerId: string, _options: object, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Matching players...').start();
+        const review = await client.playerMatchReviews.match(reviewId, playerId);
+        spinner.stop();
+
+        success(`Imported results moved to player ${playerId}`);
+        output(review, { json: globalOpts.json });
+      })
+    );
+
+  players
+    .command('review-dismiss <reviewId>')
+    .description('Resolve a review as a different player, keeping the imported player (admin only)')
+    .action(
+      wrapCommand(async (reviewId: string, _options: object, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Dismissing review...').start();
+        const review = await client.playerMatchReviews.dismiss(reviewId);
+        spinner.stop();
+
+        success(`Review ${reviewId} dismissed`);
+        output(review, { json: globalOpts.json });
+      })
+    );
 }
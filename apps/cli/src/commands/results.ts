@@ -2,7 +2,7 @@ import type { Command } from 'commander';
 import ora from 'ora';
 import type { CreateStandingRequest } from '@opprs/rest-api-client';
 import { createClient, getApiUrl, type GlobalOptions } from '../client.js';
-import { output, success, info } from '../utils/index.js';
+import { output, success, info, warn } from '../utils/index.js';
 import { wrapCommand } from '../utils/index.js';
 
 interface ListOptions {
@@ -15,10 +15,16 @@ interface ListOptions {
   sortOrder?: string;
 }
 
+interface ReplayOptions {
+  dryRun?: boolean;
+  referenceDate?: string;
+}
+
 interface CreateOptions {
   playerId?: string;
   tournamentId?: string;
   position?: string;
+  positionEnd?: string;
   isFinals?: boolean;
   optedOut?: boolean;
 }
@@ -91,6 +97,7 @@ export function registerResultCommands(program: Command): void {
     .option('--player-id <id>', 'Player ID')
     .option('--tournament-id <id>', 'Tournament ID')
     .option('--position <number>', 'Position')
+    .option('--position-end <number>', 'Last position of a tie range (e.g. 6 when tied for 5th-6th)')
     .option('--is-finals', 'Finals standing')
     .option('--opted-out', 'Player opted out')
     .action(
@@ -108,6 +115,7 @@ export function registerResultCommands(program: Command): void {
           playerId: options.playerId,
           tournamentId: options.tournamentId,
           position: parseInt(options.position),
+          positionEnd: options.positionEnd ? parseInt(options.positionEnd) : undefined,
           isFinals: options.isFinals ?? false,
           optedOut: options.optedOut ?? false,
         });
@@ -203,11 +211,105 @@ export function registerResultCommands(program: Command): void {
         const client = createClient(getApiUrl(globalOpts));
 
         const spinner = ora('Recalculating decay...').start();
-        const response = await client.standings.recalculateDecay();
+        const response = await client.standings.recalculateDecay({
+          onProgress: (job) => {
+            if (job.progressTotal) {
+              spinner.text = `Recalculating decay... ${job.progress}/${job.progressTotal} tournaments`;
+            }
+          },
+        });
+        spinner.stop();
+
+        success(response.message);
+        info(`Updated ${response.count} standings with a changed decay multiplier`);
+      })
+    );
+
+  standings
+    .command('refresh-rankings')
+    .description('Recompute world rankings from top-15 decayed points')
+    .action(
+      wrapCommand(async (_options: object, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Refreshing rankings...').start();
+        const response = await client.standings.refreshRankings();
         spinner.stop();
 
         success(response.message);
-        info(`Updated ${response.count} standings`);
+        info(`Ranked ${response.rankedCount} rated players`);
+      })
+    );
+
+  standings
+    .command('replay')
+    .description('Rebuild ratings, points and rankings by replaying tournament history')
+    .option('--dry-run', 'Report changes without writing them')
+    .option('--reference-date <date>', 'Date to calculate time decay and rankings for')
+    .action(
+      wrapCommand(async (options: ReplayOptions, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Replaying tournament history...').start();
+        const result = await client.standings.replay(
+          {
+            dryRun: options.dryRun,
+            referenceDate: options.referenceDate
+              ? new Date(options.referenceDate).toISOString()
+              : undefined,
+          },
+          {
+            onProgress: (job) => {
+              if (job.progressTotal) {
+                spinner.text = `Replaying tournament history... ${job.progress}/${job.progressTotal} tournaments loaded`;
+              }
+            },
+          }
+        );
+        spinner.stop();
+
+        if (globalOpts.json) {
+          output(result, { json: true });
+          return;
+        }
+
+        if (result.dryRun) {
+          warn('Dry run: no changes were written');
+        } else {
+          success(`Replayed ${result.tournamentsReplayed} tournaments`);
+        }
+        info(
+          `${result.tournamentsReplayed} tournaments replayed, ${result.tournamentsSkipped} skipped without TGP configuration or standings`
+        );
+        info(
+          `${result.tournamentsChanged} tournament values and ${result.playersChanged} player ratings or rankings change`
+        );
+
+        if (result.tournaments.length > 0) {
+          console.log('\nTournament value changes:');
+          output(
+            result.tournaments.map((t) => ({
+              name: t.name,
+              date: t.date.slice(0, 10),
+              current: t.currentValue?.toFixed(2) ?? null,
+              replayed: t.replayedValue.toFixed(2),
+            }))
+          );
+        }
+        if (result.players.length > 0) {
+          console.log('\nPlayer changes:');
+          output(
+            result.players.map((p) => ({
+              name: p.name ?? p.playerId,
+              rating: p.currentRating?.toFixed(0) ?? null,
+              replayedRating: p.replayedRating.toFixed(0),
+              ranking: p.currentRanking,
+              replayedRanking: p.replayedRanking,
+            }))
+          );
+        }
       })
     );
 }
@@ -216,6 +216,29 @@ export function registerTournamentCommands(program: Command): void {
       })
     );
 
+  tournaments
+    .command('recalculate <id>')
+    .description('Recalculate tournament value and standing points')
+    .action(
+      wrapCommand(async (id: string, _options: object, cmd: Command) => {
+        const globalOpts = cmd.optsWithGlobals<GlobalOptions>();
+        const client = createClient(getApiUrl(globalOpts));
+
+        const spinner = ora('Recalculating tournament...').start();
+        const recalculation = await client.tournaments.recalculate(id);
+        spinner.stop();
+
+        if (globalOpts.json) {
+          output(recalculation, { json: true });
+          return;
+        }
+
+        success(
+          `Recalculated ${recalculation.standingsUpdated} standings (first place value ${recalculation.value.firstPlaceValue.toFixed(2)})`
+        );
+      })
+    );
+
   tournaments
     .command('recent')
     .description('Get recent tournaments')
@@ -8,6 +8,7 @@ import {
   OpprsNetworkError,
   OpprsTimeoutError,
   OpprsExternalServiceError,
+  OpprsJobError,
 } from '@opprs/rest-api-client';
 
 export function handleError(err: unknown): never {
@@ -57,6 +58,14 @@ export function handleError(err: unknown): never {
     process.exit(1);
   }
 
+  if (err instanceof OpprsJobError) {
+    console.error(chalk.red('Job Failed:'), err.message);
+    if (err.job.status === 'FAILED') {
+      console.error(chalk.yellow(`Hint: Run "opprs jobs retry ${err.job.id}" to run it again`));
+    }
+    process.exit(1);
+  }
+
   if (err instanceof OpprsApiError) {
     console.error(chalk.red(`API Error (${err.statusCode}):`), err.message);
     process.exit(1);
@@ -1,11 +1,7 @@
 import type { Player, TGPConfig, PointDistribution } from '@opprs/core';
 import {
-  calculateBaseValue,
-  calculateRatingTVA,
-  calculateRankingTVA,
-  calculateTGP,
+  calculateTournamentValue,
   distributePoints,
-  getEventBoosterMultiplier,
   updateRating,
   simulateTournamentMatches,
   type RatingUpdate,
@@ -40,34 +36,27 @@ export function calculateTournamentResults(
   tgpConfig: TGPConfig,
   eventBooster: 'none' | 'certified' | 'certified-plus' | 'major' = 'none'
 ): TournamentCalculation {
-  // Calculate base value
-  const baseValue = calculateBaseValue(players);
-
-  // Calculate TVA components
-  const ratingTVA = calculateRatingTVA(players);
-  const rankingTVA = calculateRankingTVA(players);
-  const totalTVA = ratingTVA + rankingTVA;
-
-  // Calculate TGP
-  const tgp = calculateTGP(tgpConfig);
-
-  // Get booster multiplier
-  const boosterMultiplier = getEventBoosterMultiplier(eventBooster);
-
-  // Calculate first place value
-  const firstPlaceValue = (baseValue + totalTVA) * tgp * boosterMultiplier;
+  // Calculate tournament value (base value, TVA, TGP and event booster)
+  const value = calculateTournamentValue({
+    id: 'demo',
+    name: 'Demo Tournament',
+    date: new Date(),
+    players,
+    tgpConfig,
+    eventBooster,
+  });
 
   // Distribute points
-  const distributions = distributePoints(results, firstPlaceValue);
+  const distributions = distributePoints(results, value.firstPlaceValue);
 
   return {
-    baseValue,
-    ratingTVA,
-    rankingTVA,
-    totalTVA,
-    tgp,
-    boosterMultiplier,
-    firstPlaceValue,
+    baseValue: value.baseValue,
+    ratingTVA: value.tvaRating,
+    rankingTVA: value.tvaRanking,
+    totalTVA: value.totalTVA,
+    tgp: value.tgp,
+    boosterMultiplier: value.eventBoosterMultiplier,
+    firstPlaceValue: value.firstPlaceValue,
     distributions,
   };
 }
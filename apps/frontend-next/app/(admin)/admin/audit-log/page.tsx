@@ -0,0 +1,293 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { DataTable } from '@/components/admin/DataTable';
+import { Pagination } from '@/components/admin/Pagination';
+import { Modal } from '@/components/admin/Modal';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import type {
+  AuditLog,
+  AuditLogListParams,
+  AuditMethod,
+  PaginatedResponse,
+} from '@opprs/rest-api-client';
+
+const ENTITY_TYPES = [
+  'players',
+  'tournaments',
+  'standings',
+  'locations',
+  'users',
+  'api-keys',
+  'blog-posts',
+  'blog-tags',
+  'ranking-configs',
+  'player-match-reviews',
+  'jobs',
+  'scheduled-tasks',
+  'import',
+];
+
+const METHODS: AuditMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const METHOD_STYLES: Record<AuditMethod, string> = {
+  POST: 'bg-green-100 text-green-800',
+  PUT: 'bg-blue-100 text-blue-800',
+  PATCH: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Filters {
+  entityType: string;
+  entityId: string;
+  userId: string;
+  method: string;
+  /** Dates (YYYY-MM-DD), both inclusive */
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = {
+  entityType: '',
+  entityId: '',
+  userId: '',
+  method: '',
+  from: '',
+  to: '',
+};
+
+function toListParams(filters: Filters): AuditLogListParams {
+  return {
+    entityType: filters.entityType || undefined,
+    entityId: filters.entityId.trim() || undefined,
+    userId: filters.userId.trim() || undefined,
+    method: (filters.method || undefined) as AuditMethod | undefined,
+    from: filters.from ? new Date(filters.from).toISOString() : undefined,
+    to: filters.to ? new Date(new Date(filters.to).getTime() + DAY_MS).toISOString() : undefined,
+  };
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function formatActor(entry: AuditLog) {
+  const user = entry.userEmail ?? entry.userId ?? 'Unknown';
+  return entry.apiKeyId ? `${user} (API key)` : user;
+}
+
+export default function AdminAuditLogPage() {
+  const [data, setData] = useState<PaginatedResponse<AuditLog> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLog | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setData(await apiClient.auditLogs.list({ ...toListParams(filters), page, limit: 20 }));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const showEntityHistory = (entry: AuditLog) => {
+    setFilters({ ...emptyFilters, entityType: entry.entityType, entityId: entry.entityId ?? '' });
+    setPage(1);
+    setSelectedEntry(null);
+  };
+
+  const columns = [
+    {
+      key: 'createdAt',
+      header: 'Time',
+      render: (e: AuditLog) => new Date(e.createdAt).toLocaleString(),
+    },
+    { key: 'actor', header: 'Actor', render: formatActor },
+    {
+      key: 'method',
+      header: 'Method',
+      render: (e: AuditLog) => (
+        <span className={`px-2 py-1 text-xs rounded ${METHOD_STYLES[e.method]}`}>{e.method}</span>
+      ),
+    },
+    {
+      key: 'entity',
+      header: 'Entity',
+      render: (e: AuditLog) => (
+        <span>
+          {e.entityType}
+          {e.entityId && <span className="text-gray-500"> {e.entityId}</span>}
+        </span>
+      ),
+    },
+    { key: 'route', header: 'Route' },
+    {
+      key: 'changes',
+      header: 'Changed Fields',
+      render: (e: AuditLog) => Object.keys(e.changes ?? {}).join(', ') || '-',
+    },
+  ];
+
+  const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-sm text-gray-500">
+          Writes made through the API, with who made them and what they changed.
+        </p>
+      </div>
+
+      <Card>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <select
+            aria-label="Entity type"
+            value={filters.entityType}
+            onChange={(e) => updateFilter('entityType', e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All entities</option>
+            {ENTITY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label="Entity ID"
+            placeholder="Entity ID"
+            value={filters.entityId}
+            onChange={(e) => updateFilter('entityId', e.target.value)}
+            className={inputClassName}
+          />
+          <input
+            aria-label="User ID"
+            placeholder="User ID"
+            value={filters.userId}
+            onChange={(e) => updateFilter('userId', e.target.value)}
+            className={inputClassName}
+          />
+          <select
+            aria-label="Method"
+            value={filters.method}
+            onChange={(e) => updateFilter('method', e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All methods</option>
+            {METHODS.map((method) => (
+              <option key={method} value={method}>
+                {method}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label="From"
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={inputClassName}
+          />
+          <input
+            aria-label="To"
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </Card>
+
+      <Card className="p-0">
+        <DataTable
+          columns={columns}
+          data={data?.data ?? []}
+          isLoading={isLoading}
+          onRowClick={setSelectedEntry}
+          emptyMessage="No changes recorded."
+        />
+        {data && (
+          <Pagination
+            currentPage={data.pagination.page}
+            totalPages={data.pagination.totalPages}
+            onPageChange={setPage}
+          />
+        )}
+      </Card>
+
+      <Modal
+        isOpen={selectedEntry !== null}
+        onClose={() => setSelectedEntry(null)}
+        title="Change Details"
+        footer={
+          selectedEntry?.entityId && (
+            <Button variant="outline" onClick={() => showEntityHistory(selectedEntry)}>
+              Show History of {selectedEntry.entityType}
+            </Button>
+          )
+        }
+      >
+        {selectedEntry && (
+          <div className="space-y-4 text-sm">
+            <dl className="grid grid-cols-3 gap-2">
+              <dt className="text-gray-500">Time</dt>
+              <dd className="col-span-2">{new Date(selectedEntry.createdAt).toLocaleString()}</dd>
+              <dt className="text-gray-500">Actor</dt>
+              <dd className="col-span-2">
+                {formatActor(selectedEntry)}
+                {selectedEntry.apiKeyId && (
+                  <span className="text-gray-500"> key {selectedEntry.apiKeyId}</span>
+                )}
+              </dd>
+              <dt className="text-gray-500">Request</dt>
+              <dd className="col-span-2 break-all">
+                {selectedEntry.method} {selectedEntry.url} ({selectedEntry.statusCode})
+              </dd>
+            </dl>
+
+            {Object.keys(selectedEntry.changes ?? {}).length === 0 ? (
+              <p className="text-gray-500">No field changes recorded.</p>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2">Field</th>
+                    <th className="py-2 pr-2">Before</th>
+                    <th className="py-2">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(selectedEntry.changes ?? {}).map(([field, change]) => (
+                    <tr key={field} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-2 font-medium">{field}</td>
+                      <td className="py-2 pr-2 break-all text-red-700">
+                        {formatValue(change.before)}
+                      </td>
+                      <td className="py-2 break-all text-green-700">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
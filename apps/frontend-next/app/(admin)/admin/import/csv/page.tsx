@@ -0,0 +1,307 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { apiClient } from '@/lib/api-client';
+import { Card } from '@/components/ui/Card';
+import { FormField } from '@/components/ui/FormField';
+import { Button } from '@/components/ui/Button';
+import {
+  TGPConfigForm,
+  defaultTGPConfig,
+  type ApiTournamentFormatType,
+  type EventBoosterType,
+} from '@/components/admin/TGPConfigForm';
+import type { TGPConfig } from '@opprs/core';
+import type { CsvImportRequest, CsvImportResponse, CsvImportRow } from '@opprs/rest-api-client';
+
+interface FormData {
+  name: string;
+  date: string;
+  externalId: string;
+  csv: string;
+}
+
+function describeMatch(row: CsvImportRow, response: CsvImportResponse) {
+  if (response.ambiguous.some((ambiguous) => ambiguous.line === row.line)) {
+    return { label: 'Needs review', style: 'bg-orange-100 text-orange-800' };
+  }
+  switch (row.matchedBy) {
+    case 'playerNumber':
+      return { label: 'Matched by player number', style: 'bg-green-100 text-green-800' };
+    case 'externalId':
+      return { label: 'Matched by external ID', style: 'bg-green-100 text-green-800' };
+    case 'identity':
+      return { label: 'Matched by identity', style: 'bg-green-100 text-green-800' };
+    default:
+      return { label: 'New player', style: 'bg-yellow-100 text-yellow-800' };
+  }
+}
+
+export default function ImportCsvPage() {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<CsvImportResponse | null>(null);
+  const [result, setResult] = useState<CsvImportResponse | null>(null);
+  const [tgpConfig, setTgpConfig] = useState<TGPConfig>(defaultTGPConfig);
+  const [eventBooster, setEventBooster] = useState<EventBoosterType>('NONE');
+  const [qualifyingFormat, setQualifyingFormat] = useState<ApiTournamentFormatType>('NONE');
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<FormData>({
+    defaultValues: { name: '', date: '', externalId: '', csv: '' },
+  });
+
+  const buildRequest = (data: FormData, dryRun: boolean): CsvImportRequest => ({
+    csv: data.csv,
+    dryRun,
+    tournament: {
+      name: data.name,
+      date: new Date(data.date).toISOString(),
+      externalId: data.externalId || undefined,
+      eventBooster,
+      qualifyingFormat,
+      tgpConfig: tgpConfig as unknown as Record<string, unknown>,
+    },
+  });
+
+  const submit = (dryRun: boolean) =>
+    handleSubmit(async (data: FormData) => {
+      setError(null);
+      try {
+        const response = await apiClient.import.csv(buildRequest(data, dryRun));
+        if (dryRun) {
+          setPreview(response);
+        } else {
+          setResult(response);
+        }
+      } catch (err) {
+        if (err instanceof Error) {
+          setError(err.message);
+        } else {
+          setError('An unexpected error occurred');
+        }
+      }
+    });
+
+  const startOver = () => {
+    setPreview(null);
+    setResult(null);
+  };
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      <h1 className="text-2xl font-bold">Import Results from CSV</h1>
+
+      {result?.tournament ? (
+        <Card>
+          <div className="space-y-6">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-md">
+              <h3 className="font-medium text-green-800">Results imported</h3>
+              <p className="text-sm text-green-700 mt-1">{result.tournament.name}</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="text-center p-3 bg-gray-50 rounded-md">
+                <p className="text-2xl font-bold text-blue-600">{result.resultsCount}</p>
+                <p className="text-sm text-gray-500">Results</p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-md">
+                <p className="text-2xl font-bold text-blue-600">{result.playersCreated}</p>
+                <p className="text-sm text-gray-500">Players Created</p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-md">
+                <p className="text-2xl font-bold text-blue-600">{result.ratingsUpdated}</p>
+                <p className="text-sm text-gray-500">Ratings Updated</p>
+              </div>
+            </div>
+
+            {result.reviewsQueued > 0 && (
+              <div className="p-3 bg-orange-50 border border-orange-200 rounded-md">
+                <p className="text-sm text-orange-800">
+                  {result.reviewsQueued} created {result.reviewsQueued === 1 ? 'player' : 'players'}{' '}
+                  may be existing players.{' '}
+                  <Link href="/admin/player-reviews" className="font-medium underline">
+                    Review them
+                  </Link>
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button variant="outline" onClick={startOver}>
+                Import More
+              </Button>
+              <Button onClick={() => router.push(`/admin/tournaments/${result.tournament?.id}`)}>
+                View Tournament
+              </Button>
+            </div>
+          </div>
+        </Card>
+      ) : (
+        <form onSubmit={submit(true)} className="space-y-6">
+          <Card>
+            <div className="space-y-4">
+              <FormField
+                label="Tournament Name"
+                id="name"
+                type="text"
+                {...register('name', { required: 'Tournament name is required' })}
+                error={errors.name?.message}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  label="Date"
+                  id="date"
+                  type="date"
+                  {...register('date', { required: 'Date is required' })}
+                  error={errors.date?.message}
+                />
+                <FormField
+                  label="External ID (optional)"
+                  id="externalId"
+                  type="text"
+                  {...register('externalId')}
+                  hint="Prevents importing the same event twice"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="csv" className="block text-sm font-medium text-gray-700 mb-1">
+                  Results
+                </label>
+                <textarea
+                  id="csv"
+                  rows={10}
+                  {...register('csv', {
+                    required: 'Results are required',
+                    onChange: () => setPreview(null),
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={
+                    'Position,Name,Player Number,Opted Out,Finals\n1,Alice Johnson,10001,no,yes'
+                  }
+                />
+                {errors.csv && <p className="mt-1 text-sm text-red-600">{errors.csv.message}</p>}
+                <p className="mt-1 text-xs text-gray-500">
+                  CSV, or rows copied from a spreadsheet. Columns are found by header name
+                  (Position, Name, Player Number, External ID, Opted Out, Finals, Email), or are in
+                  that order without a header. Players are matched by player number or external ID,
+                  and otherwise by name, email and the other players of the event.
+                </p>
+              </div>
+            </div>
+          </Card>
+
+          <TGPConfigForm
+            tgpConfig={tgpConfig}
+            eventBooster={eventBooster}
+            qualifyingFormat={qualifyingFormat}
+            onTGPConfigChange={setTgpConfig}
+            onEventBoosterChange={setEventBooster}
+            onQualifyingFormatChange={setQualifyingFormat}
+          />
+
+          {preview && (
+            <Card className="p-0">
+              <div className="px-4 py-3 border-b">
+                <h2 className="font-semibold text-gray-900">Preview</h2>
+                <p className="text-sm text-gray-500">
+                  {preview.rows.length - preview.unmatched.length - preview.ambiguous.length} of{' '}
+                  {preview.rows.length} rows match a player.
+                  {preview.unmatched.length > 0 &&
+                    ` New players will be created for: ${[
+                      ...new Set(preview.unmatched.map((row) => row.name ?? row.externalId)),
+                    ].join(', ')}.`}
+                </p>
+                {preview.ambiguous.length > 0 && (
+                  <p className="text-sm text-orange-700">
+                    Rows needing review resemble existing players without a confident match. New
+                    players will be created for them and queued for review; add a player number or
+                    external ID to match them now.
+                  </p>
+                )}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="px-4 py-2">Line</th>
+                    <th className="px-4 py-2">Position</th>
+                    <th className="px-4 py-2">Player</th>
+                    <th className="px-4 py-2">Stage</th>
+                    <th className="px-4 py-2">Match</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => {
+                    const match = describeMatch(row, preview);
+                    return (
+                      <tr key={row.line} className="border-b last:border-0">
+                        <td className="px-4 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-4 py-2">{row.position}</td>
+                        <td className="px-4 py-2">
+                          {row.playerId ? (
+                            <Link
+                              href={`/admin/players/${row.playerId}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              {row.name ?? row.playerNumber ?? row.externalId}
+                            </Link>
+                          ) : (
+                            (row.name ?? row.externalId)
+                          )}
+                          {row.candidates.length > 0 && !row.matchedBy && (
+                            <span className="block text-xs text-gray-500">
+                              May be{' '}
+                              {row.candidates
+                                .map((candidate) => `${candidate.name} (${candidate.score})`)
+                                .join(', ')}
+                            </span>
+                          )}
+                          {row.optedOut && (
+                            <span className="text-xs text-gray-500"> (opted out)</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">{row.isFinals ? 'Finals' : 'Qualifying'}</td>
+                        <td className="px-4 py-2">
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-medium ${match.style}`}
+                          >
+                            {match.label}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </Card>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="outline" onClick={() => router.back()}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="outline" isLoading={isSubmitting}>
+              Preview
+            </Button>
+            <Button type="button" disabled={!preview || isSubmitting} onClick={submit(false)}>
+              Import Results
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { apiClient } from '@/lib/api-client';
+import { Card } from '@/components/ui/Card';
+import { FormField } from '@/components/ui/FormField';
+import { Button } from '@/components/ui/Button';
+import type {
+  BulkImportMatchplayRequest,
+  BulkImportResponse,
+  BulkImportStatus,
+  EventBoosterType,
+} from '@opprs/rest-api-client';
+
+type Source = 'organizer' | 'series' | 'ids';
+
+const SOURCES: Array<{ value: Source; label: string }> = [
+  { value: 'organizer', label: 'Organizer' },
+  { value: 'series', label: 'Series' },
+  { value: 'ids', label: 'Tournament IDs' },
+];
+
+const EVENT_BOOSTERS: Array<{ value: EventBoosterType | ''; label: string }> = [
+  { value: '', label: 'Auto-detect (default)' },
+  { value: 'NONE', label: 'None' },
+  { value: 'CERTIFIED', label: 'Certified' },
+  { value: 'CERTIFIED_PLUS', label: 'Certified Plus' },
+  { value: 'CHAMPIONSHIP_SERIES', label: 'Championship Series' },
+  { value: 'MAJOR', label: 'Major' },
+];
+
+const STATUS_STYLES: Record<BulkImportStatus, string> = {
+  imported: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+interface FormData {
+  source: Source;
+  sourceId: string;
+  tournamentIds: string;
+  from: string;
+  to: string;
+  eventBooster: EventBoosterType | '';
+  apiToken: string;
+}
+
+function buildRequest(data: FormData): BulkImportMatchplayRequest | string {
+  const common = {
+    eventBooster: data.eventBooster || undefined,
+    apiToken: data.apiToken || undefined,
+  };
+
+  if (data.source === 'ids') {
+    const ids = data.tournamentIds
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    if (ids.length === 0 || ids.some((id) => !/^[0-9]+$/.test(id))) {
+      return 'Please enter valid Matchplay tournament IDs';
+    }
+    return { ...common, tournamentIds: ids.map((id) => parseInt(id, 10)) };
+  }
+
+  const sourceId = parseInt(data.sourceId, 10);
+  if (isNaN(sourceId) || sourceId <= 0) {
+    return `Please enter a valid Matchplay ${data.source} ID`;
+  }
+  if (data.from && data.to && data.from > data.to) {
+    return 'The start date must not be after the end date';
+  }
+  return {
+    ...common,
+    ...(data.source === 'organizer' ? { organizerId: sourceId } : { seriesId: sourceId }),
+    from: data.from || undefined,
+    to: data.to || undefined,
+  };
+}
+
+export default function BulkImportMatchplayPage() {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<BulkImportResponse | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { isSubmitting },
+  } = useForm<FormData>({
+    defaultValues: {
+      source: 'organizer',
+      sourceId: '',
+      tournamentIds: '',
+      from: '',
+      to: '',
+      eventBooster: '',
+      apiToken: '',
+    },
+  });
+
+  const source = watch('source');
+
+  const onSubmit = async (data: FormData) => {
+    setError(null);
+    setResult(null);
+    setProgress(null);
+
+    const request = buildRequest(data);
+    if (typeof request === 'string') {
+      setError(request);
+      return;
+    }
+
+    try {
+      setResult(
+        await apiClient.import.matchplayBulk(request, {
+          onProgress: (job) => {
+            if (job.progressTotal) {
+              setProgress({ done: job.progress, total: job.progressTotal });
+            }
+          },
+        })
+      );
+    } catch (err) {
+      if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unexpected error occurred');
+      }
+    }
+  };
+
+  return (
+    <div className="max-w-3xl">
+      <h1 className="text-2xl font-bold mb-6">Bulk Import from Matchplay</h1>
+
+      <Card>
+        {!result ? (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label htmlFor="source" className="block text-sm font-medium text-gray-700 mb-1">
+                Import By
+              </label>
+              <select
+                id="source"
+                {...register('source')}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SOURCES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {source === 'ids' ? (
+              <FormField
+                label="Matchplay Tournament IDs"
+                id="tournamentIds"
+                type="text"
+                placeholder="e.g., 12345, 12350, 12361"
+                {...register('tournamentIds')}
+                hint="Comma-separated. Finals stages are imported with their linked qualifying."
+              />
+            ) : (
+              <>
+                <FormField
+                  label={source === 'organizer' ? 'Matchplay Organizer ID' : 'Matchplay Series ID'}
+                  id="sourceId"
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  {...register('sourceId')}
+                  hint="Completed tournaments are imported, oldest first."
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField label="From (optional)" id="from" type="date" {...register('from')} />
+                  <FormField label="To (optional)" id="to" type="date" {...register('to')} />
+                </div>
+              </>
+            )}
+
+            <div>
+              <label
+                htmlFor="eventBooster"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Event Booster (optional)
+              </label>
+              <select
+                id="eventBooster"
+                {...register('eventBooster')}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {EVENT_BOOSTERS.map((booster) => (
+                  <option key={booster.value} value={booster.value}>
+                    {booster.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <FormField
+              label="API Token (optional)"
+              id="apiToken"
+              type="password"
+              {...register('apiToken')}
+              hint="Required for private tournaments. Get this from your Matchplay account settings."
+            />
+
+            {isSubmitting && progress && (
+              <p className="text-sm text-gray-500">
+                Imported {progress.done} of {progress.total} tournaments...
+              </p>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => router.back()}>
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={isSubmitting}>
+                Import Tournaments
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-6">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-md">
+              <h3 className="font-medium text-green-800">
+                Found {result.found} {result.found === 1 ? 'tournament' : 'tournaments'}
+              </h3>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="text-center p-3 bg-gray-50 rounded-md">
+                <p className="text-2xl font-bold text-blue-600">{result.imported}</p>
+                <p className="text-sm text-gray-500">Imported</p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-md">
+                <p className="text-2xl font-bold text-blue-600">{result.skipped}</p>
+                <p className="text-sm text-gray-500">Skipped</p>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-md">
+                <p className="text-2xl font-bold text-red-600">{result.failed}</p>
+                <p className="text-sm text-gray-500">Failed</p>
+              </div>
+            </div>
+
+            {result.events.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Matchplay ID</th>
+                    <th className="py-2">Tournament</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.events.map((event) => (
+                    <tr key={event.matchplayId} className="border-b last:border-0">
+                      <td className="py-2">{event.matchplayId}</td>
+                      <td className="py-2">
+                        {event.tournamentId ? (
+                          <Link
+                            href={`/admin/tournaments/${event.tournamentId}`}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {event.name ?? event.tournamentId}
+                          </Link>
+                        ) : (
+                          (event.name ?? '-')
+                        )}
+                        {event.message && <p className="text-xs text-gray-500">{event.message}</p>}
+                      </td>
+                      <td className="py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[event.status]}`}
+                        >
+                          {event.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button variant="outline" onClick={() => setResult(null)}>
+                Import More
+              </Button>
+              <Button onClick={() => router.push('/admin/tournaments')}>View Tournaments</Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { apiClient } from '@/lib/api-client';
 import { Card } from '@/components/ui/Card';
 import { FormField } from '@/components/ui/FormField';
 import { Button } from '@/components/ui/Button';
-import type { EventBoosterType, ImportTournamentResponse } from '@opprs/rest-api-client';
+import { TGPConfigForm } from '@/components/admin/TGPConfigForm';
+import type { TGPConfig } from '@opprs/core';
+import type {
+  EventBoosterType,
+  ImportTournamentResponse,
+  MatchplayTGPPreview,
+  TGPConfidenceReport,
+} from '@opprs/rest-api-client';
 
 const EVENT_BOOSTERS: Array<{ value: EventBoosterType | ''; label: string }> = [
   { value: '', label: 'Auto-detect (default)' },
@@ -18,16 +26,61 @@ const EVENT_BOOSTERS: Array<{ value: EventBoosterType | ''; label: string }> = [
   { value: 'MAJOR', label: 'Major' },
 ];
 
+const CONFIDENCE_STYLES: Record<TGPConfidenceReport['level'], string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800',
+};
+
 interface FormData {
   matchplayId: string;
   eventBooster: EventBoosterType | '';
   apiToken: string;
+  finalsIds: string;
+}
+
+interface ParsedIds {
+  matchplayId: number;
+  finalsIds: number[] | undefined;
+}
+
+function parseIds(data: FormData): ParsedIds | string {
+  const matchplayId = parseInt(data.matchplayId, 10);
+  if (isNaN(matchplayId) || matchplayId <= 0) {
+    return 'Please enter a valid Matchplay tournament ID';
+  }
+
+  const finalsIds = data.finalsIds
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (finalsIds.some((id) => !/^[0-9]+$/.test(id))) {
+    return 'Please enter valid finals tournament IDs';
+  }
+
+  return {
+    matchplayId,
+    finalsIds: finalsIds.length > 0 ? finalsIds.map((id) => parseInt(id, 10)) : undefined,
+  };
+}
+
+function ConfidenceBadge({ level }: { level: TGPConfidenceReport['level'] }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${CONFIDENCE_STYLES[level]}`}>
+      {level} confidence
+    </span>
+  );
 }
 
 export default function ImportMatchplayPage() {
   const router = useRouter();
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ImportTournamentResponse | null>(null);
+  const [preview, setPreview] = useState<MatchplayTGPPreview | null>(null);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [tgpConfig, setTgpConfig] = useState<TGPConfig | null>(null);
+  const [tgpEdited, setTgpEdited] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   const {
     register,
@@ -38,25 +91,71 @@ export default function ImportMatchplayPage() {
       matchplayId: '',
       eventBooster: '',
       apiToken: '',
+      finalsIds: '',
     },
   });
 
+  const resetPreview = () => {
+    setPreview(null);
+    setPreviewKey(null);
+    setTgpConfig(null);
+    setTgpEdited(false);
+  };
+
+  const onPreview = async (data: FormData) => {
+    setError(null);
+
+    const ids = parseIds(data);
+    if (typeof ids === 'string') {
+      setError(ids);
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      const response = await apiClient.import.previewMatchplayTGP(ids.matchplayId, {
+        apiToken: data.apiToken || undefined,
+        finalsIds: ids.finalsIds,
+      });
+      setPreview(response);
+      setPreviewKey(`${data.matchplayId}|${data.finalsIds}`);
+      setTgpConfig(response.tgpConfig as unknown as TGPConfig);
+      setTgpEdited(false);
+    } catch (err) {
+      resetPreview();
+      if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unexpected error occurred');
+      }
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const onSubmit = async (data: FormData) => {
     setError(null);
     setResult(null);
 
-    const matchplayId = parseInt(data.matchplayId, 10);
-    if (isNaN(matchplayId) || matchplayId <= 0) {
-      setError('Please enter a valid Matchplay tournament ID');
+    const ids = parseIds(data);
+    if (typeof ids === 'string') {
+      setError(ids);
       return;
     }
 
+    // An edited TGP configuration only applies to the event it was previewed for
+    const overrideTGP =
+      tgpConfig && tgpEdited && previewKey === `${data.matchplayId}|${data.finalsIds}`;
+
     try {
-      const response = await apiClient.import.matchplayTournament(matchplayId, {
+      const response = await apiClient.import.matchplayTournament(ids.matchplayId, {
         eventBooster: data.eventBooster || undefined,
         apiToken: data.apiToken || undefined,
+        finalsIds: ids.finalsIds,
+        tgpConfig: overrideTGP ? (tgpConfig as unknown as Record<string, unknown>) : undefined,
       });
       setResult(response);
+      resetPreview();
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
@@ -91,6 +190,15 @@ export default function ImportMatchplayPage() {
               hint="Find this in the Matchplay tournament URL: matchplay.events/tournaments/[ID]"
             />
 
+            <FormField
+              label="Finals Tournament IDs (optional)"
+              id="finalsIds"
+              type="text"
+              placeholder="e.g., 12346, 12347"
+              {...register('finalsIds')}
+              hint="Comma-separated, A division first. Leave empty to import the finals linked to the tournament in Matchplay."
+            />
+
             <div>
               <label
                 htmlFor="eventBooster"
@@ -122,6 +230,45 @@ export default function ImportMatchplayPage() {
               hint="Required for private tournaments. Get this from your Matchplay account settings."
             />
 
+            {preview && tgpConfig && (
+              <div className="space-y-4 pt-4 border-t">
+                <h3 className="text-lg font-semibold">TGP Preview</h3>
+                {preview.stages.map((stage) => (
+                  <div key={stage.matchplayId} className="p-3 bg-gray-50 rounded-md text-sm">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium">
+                        {stage.isFinals ? 'Finals' : 'Qualifying'} (Matchplay {stage.matchplayId})
+                      </span>
+                      <ConfidenceBadge level={stage.confidence.level} />
+                    </div>
+                    <p className="text-gray-600 mb-1">
+                      {stage.confidence.gamesMeasured} games measured, {stage.confidence.byes} byes
+                    </p>
+                    <ul className="text-gray-600">
+                      {stage.confidence.fields.map((field) => (
+                        <li key={field.field}>
+                          <span className="font-mono">{field.field}</span> ({field.source}):{' '}
+                          {field.detail}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                <p className="text-sm text-gray-500">
+                  {tgpEdited
+                    ? 'The edited TGP configuration will be used for the import.'
+                    : 'Edit the derived TGP configuration below to override it.'}
+                </p>
+                <TGPConfigForm
+                  tgpConfig={tgpConfig}
+                  onTGPConfigChange={(config) => {
+                    setTgpConfig(config);
+                    setTgpEdited(true);
+                  }}
+                />
+              </div>
+            )}
+
             {error && (
               <div className="p-3 bg-red-50 border border-red-200 rounded-md">
                 <p className="text-sm text-red-700">{error}</p>
@@ -132,6 +279,14 @@ export default function ImportMatchplayPage() {
               <Button type="button" variant="outline" onClick={() => router.back()}>
                 Cancel
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                isLoading={isPreviewing}
+                onClick={handleSubmit(onPreview)}
+              >
+                Preview TGP
+              </Button>
               <Button type="submit" isLoading={isSubmitting}>
                 Import Tournament
               </Button>
@@ -170,6 +325,32 @@ export default function ImportMatchplayPage() {
                 </div>
               </div>
 
+              {result.reviewsQueued > 0 && (
+                <div className="p-3 bg-orange-50 border border-orange-200 rounded-md">
+                  <p className="text-sm text-orange-800">
+                    {result.reviewsQueued} created{' '}
+                    {result.reviewsQueued === 1 ? 'player' : 'players'} may be existing players.{' '}
+                    <Link href="/admin/player-reviews" className="font-medium underline">
+                      Review them
+                    </Link>
+                  </p>
+                </div>
+              )}
+
+              {result.stages.length > 1 && (
+                <div className="pt-2">
+                  <h4 className="text-sm font-medium text-gray-500">Stages</h4>
+                  <ul className="text-sm text-gray-600">
+                    {result.stages.map((stage) => (
+                      <li key={stage.matchplayId}>
+                        {stage.isFinals ? 'Finals' : 'Qualifying'} (Matchplay {stage.matchplayId}):{' '}
+                        {stage.resultsCount} results, {stage.tgpConfidence.level} TGP confidence
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4 pt-2 text-sm">
                 <div>
                   <span className="text-gray-500">Event Booster:</span>{' '}
@@ -181,6 +362,14 @@ export default function ImportMatchplayPage() {
                     {result.tournament.firstPlaceValue?.toFixed(2) ?? '-'}
                   </span>
                 </div>
+                <div>
+                  <span className="text-gray-500">TGP:</span>{' '}
+                  <span className="font-medium">
+                    {result.tgpOverridden
+                      ? 'Overridden'
+                      : `Derived (${result.stages[0]?.tgpConfidence.level ?? '-'} confidence)`}
+                  </span>
+                </div>
               </div>
             </div>
 
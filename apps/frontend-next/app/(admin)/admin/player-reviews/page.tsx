@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { apiClient } from '@/lib/api-client';
+import { Pagination } from '@/components/admin/Pagination';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import type {
+  IdentityMatchReason,
+  PaginatedResponse,
+  PlayerMatchReview,
+  PlayerMatchReviewStatus,
+} from '@opprs/rest-api-client';
+
+const STATUSES: PlayerMatchReviewStatus[] = ['PENDING', 'MATCHED', 'DISMISSED'];
+
+const STATUS_STYLES: Record<PlayerMatchReviewStatus, string> = {
+  PENDING: 'bg-orange-100 text-orange-800',
+  MATCHED: 'bg-green-100 text-green-800',
+  DISMISSED: 'bg-gray-100 text-gray-800',
+};
+
+const REASON_LABELS: Record<IdentityMatchReason, string> = {
+  playerNumber: 'player number',
+  email: 'email',
+  name: 'same name',
+  similarName: 'similar name',
+  sharedHistory: 'shared events',
+};
+
+function formatDate(dateString: string | null | undefined) {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString();
+}
+
+export default function AdminPlayerReviewsPage() {
+  const [data, setData] = useState<PaginatedResponse<PlayerMatchReview> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<PlayerMatchReviewStatus>('PENDING');
+  const [page, setPage] = useState(1);
+
+  const fetchReviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setData(await apiClient.playerMatchReviews.list({ status, page, limit: 20 }));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const handleStatusChange = (value: PlayerMatchReviewStatus) => {
+    setStatus(value);
+    setPage(1);
+  };
+
+  const resolve = async (action: () => Promise<PlayerMatchReview>) => {
+    setError(null);
+    try {
+      await action();
+      await fetchReviews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    }
+  };
+
+  const handleMatch = (review: PlayerMatchReview, playerId: string) =>
+    resolve(() => apiClient.playerMatchReviews.match(review.id, playerId));
+
+  const handleDismiss = (review: PlayerMatchReview) =>
+    resolve(() => apiClient.playerMatchReviews.dismiss(review.id));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Player Reviews</h1>
+          <p className="text-sm text-gray-500">
+            Imported players resembling existing players without a confident match.
+          </p>
+        </div>
+        <select
+          aria-label="Status"
+          value={status}
+          onChange={(e) => handleStatusChange(e.target.value as PlayerMatchReviewStatus)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {STATUSES.map((value) => (
+            <option key={value} value={value}>
+              {value.charAt(0) + value.slice(1).toLowerCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {isLoading && !data ? (
+        <Card>
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        </Card>
+      ) : data?.data.length === 0 ? (
+        <Card>
+          <div className="p-8 text-center text-gray-500">No reviews.</div>
+        </Card>
+      ) : (
+        data?.data.map((review) => (
+          <Card key={review.id} className="p-0">
+            <div className="flex justify-between items-start px-4 py-3 border-b">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {review.player ? (
+                    <Link
+                      href={`/admin/players/${review.player.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {review.player.name ?? review.player.playerNumber}
+                    </Link>
+                  ) : (
+                    review.name
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Imported from {review.source}
+                  {review.externalId && ` as ${review.externalId}`}
+                  {review.tournament &&
+                    ` with ${review.tournament.name} (${formatDate(review.tournament.date)})`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[review.status]}`}
+                >
+                  {review.status}
+                </span>
+                {review.status === 'PENDING' && (
+                  <Button variant="outline" onClick={() => handleDismiss(review)}>
+                    Different Player
+                  </Button>
+                )}
+              </div>
+            </div>
+            {review.matchedPlayer && (
+              <p className="px-4 py-2 text-sm text-gray-700 border-b">
+                Matched to{' '}
+                <Link
+                  href={`/admin/players/${review.matchedPlayer.id}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {review.matchedPlayer.name ?? review.matchedPlayer.playerNumber}
+                </Link>{' '}
+                on {formatDate(review.resolvedAt)}
+              </p>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="px-4 py-2">Candidate</th>
+                  <th className="px-4 py-2">Player #</th>
+                  <th className="px-4 py-2">Score</th>
+                  <th className="px-4 py-2">Reasons</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {review.candidates.map((candidate) => (
+                  <tr key={candidate.playerId} className="border-b last:border-0">
+                    <td className="px-4 py-2">
+                      <Link
+                        href={`/admin/players/${candidate.playerId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {candidate.name ?? candidate.playerNumber}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2">{candidate.playerNumber}</td>
+                    <td className="px-4 py-2">{Math.round(candidate.score * 100)}%</td>
+                    <td className="px-4 py-2 text-gray-500">
+                      {candidate.reasons.map((reason) => REASON_LABELS[reason]).join(', ')}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {review.status === 'PENDING' && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleMatch(review, candidate.playerId)}
+                        >
+                          Same Player
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Card>
+        ))
+      )}
+
+      {data && (
+        <Pagination
+          currentPage={data.pagination.page}
+          totalPages={data.pagination.totalPages}
+          onPageChange={setPage}
+        />
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,18 @@ import { Card } from '@/components/ui/Card';
 import { FormField } from '@/components/ui/FormField';
 import { Button } from '@/components/ui/Button';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
-import type { UpdatePlayerRequest } from '@opprs/rest-api-client';
+import { PlayerSelector } from '@/components/admin/PlayerSelector';
+import { PlayerIdentitiesManager } from '@/components/admin/PlayerIdentitiesManager';
+import type {
+  Player,
+  PlayerIdentity,
+  PlayerMerge,
+  UpdatePlayerRequest,
+} from '@opprs/rest-api-client';
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString();
+}
 
 export default function AdminPlayerEditPage() {
   const router = useRouter();
@@ -19,6 +30,12 @@ export default function AdminPlayerEditPage() {
   const [isLoading, setIsLoading] = useState(!isNew);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState<Player | null>(null);
+  const [showMergeConfirm, setShowMergeConfirm] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const [merges, setMerges] = useState<PlayerMerge[]>([]);
+  const [identities, setIdentities] = useState<PlayerIdentity[]>([]);
 
   const {
     register,
@@ -45,8 +62,10 @@ export default function AdminPlayerEditPage() {
           ratingDeviation: p.ratingDeviation,
           ranking: p.ranking ?? undefined,
         });
+        setIdentities(p.identities ?? []);
         setIsLoading(false);
       });
+      apiClient.players.getMerges(id).then(setMerges);
     }
   }, [id, isNew, reset]);
 
@@ -69,6 +88,21 @@ export default function AdminPlayerEditPage() {
     }
   };
 
+  const handleMerge = async () => {
+    if (!mergeTarget) return;
+    setIsMerging(true);
+    setMergeError(null);
+    try {
+      await apiClient.players.merge(id, mergeTarget.id);
+      router.push(`/admin/players/${mergeTarget.id}`);
+    } catch (err) {
+      setMergeError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setShowMergeConfirm(false);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
   if (isLoading) return <div>Loading...</div>;
 
   return (
@@ -124,6 +158,72 @@ export default function AdminPlayerEditPage() {
         </form>
       </Card>
 
+      {!isNew && <PlayerIdentitiesManager playerId={id} identities={identities} />}
+
+      {!isNew && (
+        <Card className="mt-6">
+          <h2 className="text-lg font-semibold mb-2">Merge into Another Player</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            For a duplicate of another player. Results, organized tournaments, rating history and
+            the user account move to that player, and this player is deleted.
+          </p>
+          {mergeError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md">
+              {mergeError}
+            </div>
+          )}
+          <div className="flex items-start space-x-3">
+            <div className="flex-1">
+              <PlayerSelector
+                value={mergeTarget?.id ?? null}
+                onChange={(_playerId, player) => setMergeTarget(player)}
+                placeholder="Search for the player to keep..."
+                excludePlayerIds={[id]}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!mergeTarget}
+              onClick={() => setShowMergeConfirm(true)}
+            >
+              Merge
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {merges.length > 0 && (
+        <Card className="mt-6">
+          <h2 className="text-lg font-semibold mb-4">Merged Players</h2>
+          <ul className="divide-y text-sm">
+            {merges.map((merge) => (
+              <li key={merge.id} className="py-2 flex justify-between">
+                <span>
+                  {merge.sourceName ?? 'Unnamed'}{' '}
+                  <span className="text-gray-500">
+                    #{merge.sourcePlayerNumber}
+                    {merge.sourceExternalId && ` (${merge.sourceExternalId})`}
+                  </span>
+                </span>
+                <span className="text-gray-500">{formatDate(merge.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <ConfirmDialog
+        isOpen={showMergeConfirm}
+        onClose={() => setShowMergeConfirm(false)}
+        onConfirm={handleMerge}
+        title="Merge Player"
+        message={`Merge this player into ${mergeTarget?.name ?? mergeTarget?.id}? Their results move to that player and this player is deleted. This action cannot be undone.`}
+        confirmLabel="Merge Players"
+        isLoading={isMerging}
+        variant="warning"
+      />
+
       <ConfirmDialog
         isOpen={showDeleteConfirm}
         onClose={() => setShowDeleteConfirm(false)}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import type { PartialOPPRConfig } from '@opprs/core';
+import { apiClient } from '@/lib/api-client';
+import { Card } from '@/components/ui/Card';
+import { FormField } from '@/components/ui/FormField';
+import { Button } from '@/components/ui/Button';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import { RankingConfigPanel } from '@/components/admin/RankingConfigPanel';
+import { RankingConfigPreview } from '@/components/admin/RankingConfigPreview';
+import type { RankingConfig, RankingConfigPreview as Preview } from '@opprs/rest-api-client';
+
+interface RankingConfigFormData {
+  version: string;
+  name: string;
+  description: string;
+}
+
+export default function AdminRankingConfigEditPage() {
+  const router = useRouter();
+  const params = useParams();
+  const id = params.id as string;
+  const isNew = id === 'new';
+
+  const [rankingConfig, setRankingConfig] = useState<RankingConfig | null>(null);
+  const [overrides, setOverrides] = useState<PartialOPPRConfig>({});
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [isLoading, setIsLoading] = useState(!isNew);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isActivating, setIsActivating] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [showActivateConfirm, setShowActivateConfirm] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<RankingConfigFormData>({
+    defaultValues: { version: '', name: '', description: '' },
+  });
+
+  const loadConfig = useCallback(
+    (config: RankingConfig) => {
+      setRankingConfig(config);
+      setOverrides(config.config as PartialOPPRConfig);
+      setHasUnsavedChanges(false);
+      reset({
+        version: config.version,
+        name: config.name,
+        description: config.description ?? '',
+      });
+    },
+    [reset]
+  );
+
+  useEffect(() => {
+    if (!isNew) {
+      apiClient.rankingConfigs
+        .get(id)
+        .then(loadConfig)
+        .catch(() => setError('Failed to load ranking configuration'))
+        .finally(() => setIsLoading(false));
+    }
+  }, [id, isNew, loadConfig]);
+
+  const isReadOnly = rankingConfig?.isActive ?? false;
+
+  const handleOverridesChange = (next: PartialOPPRConfig) => {
+    setOverrides(next);
+    setHasUnsavedChanges(true);
+    setPreview(null);
+  };
+
+  const onSubmit = async (data: RankingConfigFormData) => {
+    setError(null);
+    const request = {
+      version: data.version,
+      name: data.name,
+      description: data.description || undefined,
+      config: overrides as Record<string, unknown>,
+    };
+    try {
+      if (isNew) {
+        const created = await apiClient.rankingConfigs.create(request);
+        router.push(`/admin/ranking-config/${created.id}`);
+      } else {
+        loadConfig(await apiClient.rankingConfigs.update(id, request));
+        setPreview(null);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save ranking configuration';
+      setError(message);
+    }
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    setIsPreviewing(true);
+    try {
+      setPreview(await apiClient.rankingConfigs.preview(id));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to preview changes';
+      setError(message);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    setIsActivating(true);
+    try {
+      loadConfig(await apiClient.rankingConfigs.activate(id));
+      setShowActivateConfirm(false);
+    } finally {
+      setIsActivating(false);
+    }
+  };
+
+  const handleDeactivate = async () => {
+    loadConfig(await apiClient.rankingConfigs.deactivate(id));
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await apiClient.rankingConfigs.delete(id);
+      router.push('/admin/ranking-config');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoading) return <div>Loading...</div>;
+  if (error && !isNew && !rankingConfig) return <div className="text-red-600">{error}</div>;
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">
+          {isNew ? 'New Ranking Configuration' : 'Edit Ranking Configuration'}
+        </h1>
+        {rankingConfig?.isActive && (
+          <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+            ACTIVE
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-md">{error}</div>
+      )}
+
+      {isReadOnly && (
+        <p className="text-sm text-gray-600">
+          The active configuration cannot be edited. Deactivate it, or create a new version.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <Card>
+          <div className="space-y-4">
+            <FormField
+              label="Version"
+              id="version"
+              disabled={isReadOnly}
+              {...register('version', { required: 'Version is required' })}
+              error={errors.version?.message}
+            />
+            <FormField
+              label="Name"
+              id="name"
+              disabled={isReadOnly}
+              {...register('name', { required: 'Name is required' })}
+              error={errors.name?.message}
+            />
+            <FormField
+              label="Description"
+              id="description"
+              disabled={isReadOnly}
+              {...register('description')}
+            />
+          </div>
+        </Card>
+
+        <RankingConfigPanel
+          overrides={overrides}
+          onChange={handleOverridesChange}
+          readOnly={isReadOnly}
+        />
+
+        <div className="flex justify-between">
+          <div>
+            {!isNew && !isReadOnly && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowDeleteConfirm(true)}
+                className="text-red-600 border-red-300 hover:bg-red-50"
+              >
+                Delete
+              </Button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={() => router.back()}>
+              Cancel
+            </Button>
+            {!isReadOnly && (
+              <Button type="submit" isLoading={isSubmitting}>
+                {isNew ? 'Create' : 'Save'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </form>
+
+      {rankingConfig && (
+        <Card>
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-semibold">Recalculation Preview</h2>
+              <p className="text-sm text-gray-500">
+                {hasUnsavedChanges
+                  ? 'Save your changes to preview them.'
+                  : 'Compare tournament values and the leaderboard against the rulesets in use.'}
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              {rankingConfig.isActive ? (
+                <Button type="button" variant="outline" onClick={handleDeactivate}>
+                  Deactivate
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handlePreview}
+                    isLoading={isPreviewing}
+                    disabled={hasUnsavedChanges}
+                  >
+                    Preview Changes
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={() => setShowActivateConfirm(true)}
+                    disabled={!preview || hasUnsavedChanges}
+                  >
+                    Activate
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+          {preview && <RankingConfigPreview preview={preview} />}
+        </Card>
+      )}
+
+      <ConfirmDialog
+        isOpen={showActivateConfirm}
+        onClose={() => setShowActivateConfirm(false)}
+        onConfirm={handleActivate}
+        title="Activate Configuration"
+        message="Imports and recalculations will use this configuration from now on. Existing tournament values change only when they are recalculated."
+        confirmLabel="Activate"
+        isLoading={isActivating}
+      />
+
+      <ConfirmDialog
+        isOpen={showDeleteConfirm}
+        onClose={() => setShowDeleteConfirm(false)}
+        onConfirm={handleDelete}
+        title="Delete Configuration"
+        message="Are you sure you want to delete this ranking configuration?"
+        confirmLabel="Delete"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { apiClient } from '@/lib/api-client';
+import { DataTable } from '@/components/admin/DataTable';
+import { Pagination } from '@/components/admin/Pagination';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import type { PaginatedResponse, RankingConfig } from '@opprs/rest-api-client';
+
+export default function AdminRankingConfigsPage() {
+  const router = useRouter();
+  const [data, setData] = useState<PaginatedResponse<RankingConfig> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(1);
+
+  const fetchConfigs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await apiClient.rankingConfigs.list({ page, limit: 20 });
+      setData(result);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchConfigs();
+  }, [fetchConfigs]);
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  const columns = [
+    { key: 'version', header: 'Version' },
+    { key: 'name', header: 'Name' },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (c: RankingConfig) => (
+        <span
+          className={`px-2 py-1 rounded-full text-xs font-medium ${
+            c.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+          }`}
+        >
+          {c.isActive ? 'ACTIVE' : 'INACTIVE'}
+        </span>
+      ),
+    },
+    {
+      key: 'activatedAt',
+      header: 'Activated',
+      render: (c: RankingConfig) => formatDate(c.activatedAt),
+    },
+    {
+      key: 'createdAt',
+      header: 'Created',
+      render: (c: RankingConfig) => formatDate(c.createdAt),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Ranking Config</h1>
+        <Button onClick={() => router.push('/admin/ranking-config/new')}>New Configuration</Button>
+      </div>
+
+      <Card className="p-0">
+        <DataTable
+          columns={columns}
+          data={data?.data ?? []}
+          isLoading={isLoading}
+          onRowClick={(c) => router.push(`/admin/ranking-config/${c.id}`)}
+          emptyMessage="No ranking configurations. The default rulesets are in use."
+        />
+        {data && (
+          <Pagination
+            currentPage={data.pagination.page}
+            totalPages={data.pagination.totalPages}
+            onPageChange={setPage}
+          />
+        )}
+      </Card>
+    </div>
+  );
+}
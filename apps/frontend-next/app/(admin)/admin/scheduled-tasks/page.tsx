@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Pagination } from '@/components/admin/Pagination';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import type {
+  PaginatedResponse,
+  ScheduledTask,
+  ScheduledTaskListResponse,
+  ScheduledTaskRun,
+  ScheduledTaskRunStatus,
+} from '@opprs/rest-api-client';
+
+const STATUS_STYLES: Record<ScheduledTaskRunStatus, string> = {
+  RUNNING: 'bg-blue-100 text-blue-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+function formatDateTime(dateString: string | null | undefined) {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleString();
+}
+
+function describeOutcome(run: ScheduledTaskRun) {
+  if (run.error) return run.error;
+  const message = run.result?.message;
+  return typeof message === 'string' ? message : '';
+}
+
+function RunStatus({ status }: { status: ScheduledTaskRunStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+export default function AdminScheduledTasksPage() {
+  const [data, setData] = useState<ScheduledTaskListResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [runs, setRuns] = useState<PaginatedResponse<ScheduledTaskRun> | null>(null);
+  const [page, setPage] = useState(1);
+
+  const fetchTasks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setData(await apiClient.scheduledTasks.list());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchRuns = useCallback(async () => {
+    if (!selected) return;
+    setRuns(await apiClient.scheduledTasks.runs(selected, { page, limit: 20 }));
+  }, [selected, page]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleSelect = (name: string) => {
+    setSelected(name);
+    setPage(1);
+  };
+
+  const handleRunNow = async (task: ScheduledTask) => {
+    setError(null);
+    try {
+      await apiClient.scheduledTasks.run(task.name);
+      await fetchTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Scheduled Tasks</h1>
+
+      {data && !data.schedulerEnabled && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-sm text-yellow-800">
+            The scheduler is disabled. Set SCHEDULER_ENABLED=true on the API to run these tasks.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <Card className="p-0">
+        {isLoading && !data ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-4 py-3">Task</th>
+                <th className="px-4 py-3">Schedule (UTC)</th>
+                <th className="px-4 py-3">Last Run</th>
+                <th className="px-4 py-3">Next Run</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {data?.tasks.map((task) => (
+                <tr
+                  key={task.name}
+                  onClick={() => handleSelect(task.name)}
+                  className={`border-b last:border-0 cursor-pointer hover:bg-gray-50 ${
+                    selected === task.name ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{task.name}</p>
+                    <p className="text-xs text-gray-500">{task.description}</p>
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{task.schedule ?? 'off'}</td>
+                  <td className="px-4 py-3">
+                    {task.lastRun ? (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <RunStatus status={task.lastRun.status} />
+                          <span>{formatDateTime(task.lastRun.startedAt)}</span>
+                        </div>
+                        <p className="text-xs text-gray-500">{describeOutcome(task.lastRun)}</p>
+                      </>
+                    ) : (
+                      'Never'
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {task.running ? 'Running now' : formatDateTime(task.nextRunAt)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="outline"
+                      disabled={!task.enabled || task.running}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRunNow(task);
+                      }}
+                    >
+                      Run Now
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+
+      {selected && runs && (
+        <Card className="p-0">
+          <h2 className="px-4 py-3 font-semibold text-gray-900 border-b">
+            Run History: {selected}
+          </h2>
+          {runs.data.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">This task has not run yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="px-4 py-3">Started</th>
+                  <th className="px-4 py-3">Completed</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Outcome</th>
+                  <th className="px-4 py-3">Instance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.data.map((run) => (
+                  <tr key={run.id} className="border-b last:border-0">
+                    <td className="px-4 py-3">{formatDateTime(run.startedAt)}</td>
+                    <td className="px-4 py-3">{formatDateTime(run.completedAt)}</td>
+                    <td className="px-4 py-3">
+                      <RunStatus status={run.status} />
+                    </td>
+                    <td className="px-4 py-3">{describeOutcome(run)}</td>
+                    <td className="px-4 py-3 text-xs text-gray-500">{run.runBy}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <Pagination
+            currentPage={runs.pagination.page}
+            totalPages={runs.pagination.totalPages}
+            onPageChange={setPage}
+          />
+        </Card>
+      )}
+    </div>
+  );
+}
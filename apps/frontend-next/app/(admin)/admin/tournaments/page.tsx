@@ -63,6 +63,12 @@ export default function AdminTournamentsPage() {
           <Button variant="outline" onClick={() => router.push('/admin/import/matchplay')}>
             Import from Matchplay
           </Button>
+          <Button variant="outline" onClick={() => router.push('/admin/import/matchplay/bulk')}>
+            Bulk Import
+          </Button>
+          <Button variant="outline" onClick={() => router.push('/admin/import/csv')}>
+            Import CSV
+          </Button>
           <Button onClick={() => router.push('/admin/tournaments/new')}>Add Tournament</Button>
         </div>
       </div>
@@ -174,7 +174,7 @@ export default function PlayerProfilePage() {
             <div>
               <div className="text-sm text-gray-500">Avg Efficiency</div>
               <div className="text-xl font-bold text-gray-900">
-                {stats.averageEfficiency ? `${(stats.averageEfficiency * 100).toFixed(1)}%` : '-'}
+                {stats.averageEfficiency ? `${stats.averageEfficiency.toFixed(1)}%` : '-'}
               </div>
             </div>
           </div>
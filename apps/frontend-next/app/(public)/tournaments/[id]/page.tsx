@@ -5,7 +5,8 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { apiClient } from '@/lib/api-client';
 import { Card } from '@/components/ui/Card';
-import type { Tournament, TournamentResult } from '@opprs/rest-api-client';
+import { TournamentValueTrace } from '@/components/public/TournamentValueTrace';
+import type { Tournament, TournamentResult, TournamentTrace } from '@opprs/rest-api-client';
 
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString('en-US', {
@@ -84,6 +85,7 @@ export default function TournamentDetailPage() {
 
   const [tournament, setTournament] = useState<Tournament | null>(null);
   const [results, setResults] = useState<TournamentResult[]>([]);
+  const [trace, setTrace] = useState<TournamentTrace | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -96,6 +98,11 @@ export default function TournamentDetailPage() {
         ]);
         setTournament(tournamentData);
         setResults(resultsData);
+        // The calculation trace is optional; tournaments without a TGP config cannot be explained
+        apiClient.tournaments
+          .getTrace(tournamentId)
+          .then(setTrace)
+          .catch(() => setTrace(null));
       } catch (err) {
         setError('Failed to load tournament');
         console.error(err);
@@ -251,6 +258,18 @@ export default function TournamentDetailPage() {
         })()}
       </Card>
 
+      {/* Calculation Trace */}
+      {trace && (
+        <Card className="mb-8">
+          <TournamentValueTrace
+            trace={trace}
+            playerNames={Object.fromEntries(
+              results.map((r) => [r.player.id, r.player.name ?? 'Unknown Player'])
+            )}
+          />
+        </Card>
+      )}
+
       {/* Results */}
       <Card>
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
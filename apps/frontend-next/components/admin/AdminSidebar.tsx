@@ -6,9 +6,13 @@ import { usePathname } from 'next/navigation';
 const navItems = [
   { href: '/admin/tournaments', label: 'Tournaments' },
   { href: '/admin/players', label: 'Players' },
+  { href: '/admin/player-reviews', label: 'Player Reviews' },
   { href: '/admin/locations', label: 'Locations' },
   { href: '/admin/blog', label: 'Blog' },
   { href: '/admin/users', label: 'Users' },
+  { href: '/admin/ranking-config', label: 'Ranking Config' },
+  { href: '/admin/scheduled-tasks', label: 'Scheduled Tasks' },
+  { href: '/admin/audit-log', label: 'Audit Log' },
 ];
 
 interface AdminSidebarProps {
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { FormField } from '@/components/ui/FormField';
+import type { PlayerIdentity, PlayerIdentityStatus } from '@opprs/rest-api-client';
+
+interface PlayerIdentitiesManagerProps {
+  playerId: string;
+  identities: PlayerIdentity[];
+}
+
+interface IdentityForm {
+  source: string;
+  externalId: string;
+  status: PlayerIdentityStatus;
+}
+
+const emptyForm: IdentityForm = { source: '', externalId: '', status: 'VERIFIED' };
+
+export function PlayerIdentitiesManager({
+  playerId,
+  identities: initialIdentities,
+}: PlayerIdentitiesManagerProps) {
+  const [identities, setIdentities] = useState<PlayerIdentity[]>(initialIdentities);
+  const [form, setForm] = useState<IdentityForm>(emptyForm);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+    await run(async () => {
+      const identity = await apiClient.players.addIdentity(playerId, {
+        source: form.source.trim(),
+        externalId: form.externalId.trim(),
+        status: form.status,
+      });
+      setIdentities((prev) => [...prev, identity]);
+      setForm(emptyForm);
+    });
+    setIsAdding(false);
+  };
+
+  const handleToggleStatus = async (identity: PlayerIdentity) => {
+    setBusyId(identity.id);
+    await run(async () => {
+      const updated = await apiClient.players.updateIdentity(playerId, identity.id, {
+        status: identity.status === 'VERIFIED' ? 'UNVERIFIED' : 'VERIFIED',
+      });
+      setIdentities((prev) => prev.map((i) => (i.id === updated.id ? updated : i)));
+    });
+    setBusyId(null);
+  };
+
+  const handleRemove = async (identity: PlayerIdentity) => {
+    setBusyId(identity.id);
+    await run(async () => {
+      await apiClient.players.removeIdentity(playerId, identity.id);
+      setIdentities((prev) => prev.filter((i) => i.id !== identity.id));
+    });
+    setBusyId(null);
+  };
+
+  return (
+    <Card className="mt-6">
+      <h2 className="text-lg font-semibold mb-2">External IDs</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        IDs of this player in other systems. Imports link the IDs of players they matched by name as
+        unverified.
+      </p>
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {identities.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No external IDs</p>
+      ) : (
+        <ul className="divide-y text-sm mb-4">
+          {identities.map((identity) => (
+            <li key={identity.id} className="py-2 flex items-center justify-between">
+              <span>
+                <span className="text-gray-500">{identity.source}</span> {identity.externalId}{' '}
+                <span
+                  className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${
+                    identity.status === 'VERIFIED'
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                  }`}
+                >
+                  {identity.status === 'VERIFIED' ? 'Verified' : 'Unverified'}
+                </span>
+              </span>
+              <span className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => handleToggleStatus(identity)}
+                  className="text-blue-600 hover:text-blue-800 text-xs"
+                  disabled={busyId === identity.id}
+                >
+                  {identity.status === 'VERIFIED' ? 'Unverify' : 'Verify'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(identity)}
+                  className="text-red-600 hover:text-red-800 text-xs"
+                  disabled={busyId === identity.id}
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex items-end space-x-3">
+        <div className="flex-1">
+          <FormField
+            label="Source"
+            id="identitySource"
+            placeholder="e.g. ifpa"
+            value={form.source}
+            onChange={(e) => setForm({ ...form, source: e.target.value })}
+          />
+        </div>
+        <div className="flex-1">
+          <FormField
+            label="ID"
+            id="identityExternalId"
+            value={form.externalId}
+            onChange={(e) => setForm({ ...form, externalId: e.target.value })}
+          />
+        </div>
+        <select
+          aria-label="Status"
+          value={form.status}
+          onChange={(e) => setForm({ ...form, status: e.target.value as PlayerIdentityStatus })}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="VERIFIED">Verified</option>
+          <option value="UNVERIFIED">Unverified</option>
+        </select>
+        <Button
+          type="submit"
+          variant="outline"
+          isLoading={isAdding}
+          disabled={!form.source.trim() || !form.externalId.trim()}
+        >
+          Add
+        </Button>
+      </form>
+    </Card>
+  );
+}
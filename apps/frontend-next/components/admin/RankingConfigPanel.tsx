@@ -0,0 +1,388 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import type { PartialOPPRConfig } from '@opprs/core';
+import {
+  getConfigValue,
+  isOverridden,
+  resolveRankingConfig,
+  setOverride,
+  withDerivedValues,
+} from '@/lib/ranking-config';
+
+interface FieldDefinition {
+  label: string;
+  path: string;
+  description: string;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+interface SectionDefinition {
+  title: string;
+  description: string;
+  fields: FieldDefinition[];
+  note?: string;
+}
+
+const sections: SectionDefinition[] = [
+  {
+    title: 'System Caps',
+    description: 'High-level tournament value limits',
+    fields: [
+      {
+        label: 'Max Base Value',
+        path: 'BASE_VALUE.MAX_BASE_VALUE',
+        description: 'Maximum base value cap (auto-calculates max player count)',
+        min: 1,
+        step: 1,
+      },
+      {
+        label: 'Max TVA from Ratings',
+        path: 'TVA.RATING.MAX_VALUE',
+        description: 'Maximum TVA points from player ratings (auto-calculates coefficients)',
+        min: 0,
+        step: 1,
+      },
+      {
+        label: 'Max TVA from Rankings',
+        path: 'TVA.RANKING.MAX_VALUE',
+        description: 'Maximum TVA points from player rankings (auto-calculates coefficients)',
+        min: 0,
+        step: 1,
+      },
+      {
+        label: 'Max Players for TVA',
+        path: 'TVA.MAX_PLAYERS_CONSIDERED',
+        description: 'Maximum players considered in TVA calculation',
+        min: 1,
+        step: 1,
+      },
+      {
+        label: 'Max TGP Without Finals',
+        path: 'TGP.MAX_WITHOUT_FINALS',
+        description: 'Max TGP for single-format events (typically 100%)',
+        min: 0.5,
+        step: 0.1,
+      },
+      {
+        label: 'Max TGP With Finals',
+        path: 'TGP.MAX_WITH_FINALS',
+        description: 'Max TGP with qualifying and finals (typically 200%)',
+        min: 1,
+        step: 0.1,
+      },
+    ],
+  },
+  {
+    title: 'TGP - Format Multipliers',
+    description: 'Difficulty multipliers for different tournament formats',
+    fields: [
+      {
+        label: '4-Player Groups',
+        path: 'TGP.MULTIPLIERS.FOUR_PLAYER_GROUPS',
+        description: 'PAPA-style 4-player group matches',
+        min: 1,
+        max: 5,
+        step: 0.1,
+      },
+      {
+        label: '3-Player Groups',
+        path: 'TGP.MULTIPLIERS.THREE_PLAYER_GROUPS',
+        description: '3-player group matches',
+        min: 1,
+        max: 5,
+        step: 0.1,
+      },
+      {
+        label: 'Unlimited Best Game',
+        path: 'TGP.MULTIPLIERS.UNLIMITED_BEST_GAME',
+        description: 'Unlimited qualifying with best game scoring (min 20 hours)',
+        min: 1,
+        max: 5,
+        step: 0.1,
+      },
+      {
+        label: 'Hybrid Best Game',
+        path: 'TGP.MULTIPLIERS.HYBRID_BEST_GAME',
+        description: 'Hybrid qualifying format',
+        min: 1,
+        max: 5,
+        step: 0.1,
+      },
+      {
+        label: 'Unlimited Card',
+        path: 'TGP.MULTIPLIERS.UNLIMITED_CARD',
+        description: 'Unlimited qualifying with scorecard format',
+        min: 1,
+        max: 5,
+        step: 0.1,
+      },
+      {
+        label: '1-Ball Adjustment',
+        path: 'TGP.BALL_ADJUSTMENTS.ONE_BALL',
+        description: 'Multiplier for 1-ball formats (less variance)',
+        min: 0.1,
+        max: 1,
+        step: 0.01,
+      },
+      {
+        label: '2-Ball Adjustment',
+        path: 'TGP.BALL_ADJUSTMENTS.TWO_BALL',
+        description: 'Multiplier for 2-ball formats (reduced variance)',
+        min: 0.1,
+        max: 1,
+        step: 0.01,
+      },
+    ],
+  },
+  {
+    title: 'Event Boosters',
+    description: 'Multipliers for different tournament certification levels',
+    fields: [
+      {
+        label: 'Certified Events',
+        path: 'EVENT_BOOSTERS.CERTIFIED',
+        description: 'Certified events (typically 125%)',
+        min: 1,
+        max: 3,
+        step: 0.05,
+      },
+      {
+        label: 'Certified+ Events',
+        path: 'EVENT_BOOSTERS.CERTIFIED_PLUS',
+        description: 'Certified+ events (typically 150%)',
+        min: 1,
+        max: 3,
+        step: 0.05,
+      },
+      {
+        label: 'Championship Series',
+        path: 'EVENT_BOOSTERS.CHAMPIONSHIP_SERIES',
+        description: 'Championship series events (typically 150%)',
+        min: 1,
+        max: 3,
+        step: 0.05,
+      },
+      {
+        label: 'Major Championships',
+        path: 'EVENT_BOOSTERS.MAJOR',
+        description: 'Major championships (typically 200%)',
+        min: 1,
+        max: 3,
+        step: 0.05,
+      },
+    ],
+  },
+  {
+    title: 'Time Decay',
+    description: 'How point values depreciate over time',
+    fields: [
+      {
+        label: 'Year 1-2 Decay',
+        path: 'TIME_DECAY.YEAR_1_TO_2',
+        description: 'Value multiplier for results 1-2 years old (0.0-1.0)',
+        min: 0,
+        max: 1,
+        step: 0.05,
+      },
+      {
+        label: 'Year 2-3 Decay',
+        path: 'TIME_DECAY.YEAR_2_TO_3',
+        description: 'Value multiplier for results 2-3 years old (0.0-1.0)',
+        min: 0,
+        max: 1,
+        step: 0.05,
+      },
+    ],
+    note: 'Events 0-1 years old are at 100%, events 3+ years are at 0% (expired)',
+  },
+  {
+    title: 'Point Distribution',
+    description: 'How points are allocated across player positions',
+    fields: [
+      {
+        label: 'Linear Percentage',
+        path: 'POINT_DISTRIBUTION.LINEAR_PERCENTAGE',
+        description: 'Portion distributed linearly (must sum with dynamic to 1.0)',
+        min: 0,
+        max: 1,
+        step: 0.05,
+      },
+      {
+        label: 'Dynamic Percentage',
+        path: 'POINT_DISTRIBUTION.DYNAMIC_PERCENTAGE',
+        description: 'Portion distributed dynamically (must sum with linear to 1.0)',
+        min: 0,
+        max: 1,
+        step: 0.05,
+      },
+      {
+        label: 'Position Exponent',
+        path: 'POINT_DISTRIBUTION.POSITION_EXPONENT',
+        description: 'Exponent for position decay in dynamic formula (lower = steeper)',
+        min: 0.1,
+        max: 2,
+        step: 0.05,
+      },
+      {
+        label: 'Value Exponent',
+        path: 'POINT_DISTRIBUTION.VALUE_EXPONENT',
+        description: 'Final value shaping exponent (higher = more to top finishers)',
+        min: 1,
+        max: 5,
+        step: 0.1,
+      },
+    ],
+  },
+  {
+    title: 'Ranking Rules',
+    description: 'How player rankings are calculated',
+    fields: [
+      {
+        label: 'Top Events Count',
+        path: 'RANKING.TOP_EVENTS_COUNT',
+        description: 'Number of best events counted toward player ranking',
+        min: 1,
+        max: 50,
+        step: 1,
+      },
+    ],
+  },
+];
+
+const derivedValues = [
+  { label: 'Max Player Count', path: 'BASE_VALUE.MAX_PLAYER_COUNT' },
+  { label: 'Max Games for 200% TGP', path: 'TGP.MAX_GAMES_FOR_200_PERCENT' },
+  { label: 'TVA Rating: Coefficient', path: 'TVA.RATING.COEFFICIENT' },
+  { label: 'TVA Rating: Offset', path: 'TVA.RATING.OFFSET' },
+  { label: 'TVA Rating: Min Effective Rating', path: 'TVA.RATING.MIN_EFFECTIVE_RATING' },
+  { label: 'TVA Ranking: Coefficient', path: 'TVA.RANKING.COEFFICIENT' },
+  { label: 'TVA Ranking: Offset', path: 'TVA.RANKING.OFFSET' },
+];
+
+function ConfigSection({
+  title,
+  description,
+  children,
+  defaultExpanded = false,
+}: {
+  title: string;
+  description: string;
+  children: ReactNode;
+  defaultExpanded?: boolean;
+}) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  return (
+    <div className="border-b border-gray-200 last:border-b-0">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex flex-col items-start">
+          <span className="font-medium text-gray-900">{title}</span>
+          <span className="text-sm text-gray-600">{description}</span>
+        </div>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {isExpanded && <div className="px-4 py-3 space-y-4 bg-gray-50">{children}</div>}
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'number' ? value.toFixed(6).replace(/\.?0+$/, '') : String(value);
+}
+
+interface RankingConfigPanelProps {
+  overrides: PartialOPPRConfig;
+  onChange: (overrides: PartialOPPRConfig) => void;
+  readOnly?: boolean;
+}
+
+export function RankingConfigPanel({
+  overrides,
+  onChange,
+  readOnly = false,
+}: RankingConfigPanelProps) {
+  const config = resolveRankingConfig(overrides);
+
+  const handleChange = (path: string, value: number) => {
+    if (Number.isNaN(value)) {
+      return;
+    }
+    onChange(withDerivedValues(setOverride(overrides, path, value)));
+  };
+
+  return (
+    <div className="rounded-md border border-gray-200 bg-white">
+      {sections.map((section, index) => (
+        <ConfigSection
+          key={section.title}
+          title={section.title}
+          description={section.description}
+          defaultExpanded={index === 0}
+        >
+          {section.fields.map((field) => (
+            <div key={field.path} className="flex flex-col space-y-1">
+              <div className="flex items-center justify-between">
+                <label
+                  htmlFor={field.path}
+                  className="text-sm font-medium text-gray-900 flex items-center gap-2"
+                >
+                  {field.label}
+                  {isOverridden(overrides, field.path) && (
+                    <span className="text-xs px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded">
+                      Modified
+                    </span>
+                  )}
+                </label>
+                <input
+                  id={field.path}
+                  type="number"
+                  value={getConfigValue(config, field.path) as number}
+                  min={field.min}
+                  max={field.max}
+                  step={field.step ?? 0.01}
+                  disabled={readOnly}
+                  onChange={(e) => handleChange(field.path, parseFloat(e.target.value))}
+                  className="px-3 py-1.5 bg-white border border-gray-300 rounded text-gray-900 w-32 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100"
+                />
+              </div>
+              <p className="text-xs text-gray-600">{field.description}</p>
+            </div>
+          ))}
+          {section.note && (
+            <div className="text-xs text-gray-600 italic px-4 py-2 bg-gray-100 rounded">
+              Note: {section.note}
+            </div>
+          )}
+        </ConfigSection>
+      ))}
+
+      <ConfigSection
+        title="Computed Values"
+        description="Derived from the editable parameters above (read-only)"
+      >
+        {derivedValues.map((derived) => (
+          <div key={derived.path} className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">{derived.label}</span>
+            <span className="px-3 py-1.5 bg-gray-100 border border-gray-200 rounded text-gray-700 w-32 text-right font-mono text-sm">
+              {formatValue(getConfigValue(config, derived.path))}
+            </span>
+          </div>
+        ))}
+      </ConfigSection>
+    </div>
+  );
+}
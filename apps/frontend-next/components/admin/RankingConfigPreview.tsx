@@ -0,0 +1,128 @@
+import Link from 'next/link';
+import type { LeaderboardChange, RankingConfigPreview as Preview } from '@opprs/rest-api-client';
+
+interface RankingConfigPreviewProps {
+  preview: Preview;
+}
+
+function formatChange(change: number): string {
+  return `${change > 0 ? '+' : ''}${change.toFixed(2)}`;
+}
+
+function RankingMovement({ entry }: { entry: LeaderboardChange }) {
+  if (entry.currentRanking === entry.proposedRanking) {
+    return <span className="text-gray-400">-</span>;
+  }
+  if (entry.currentRanking === null || entry.proposedRanking === null) {
+    return (
+      <span className="text-gray-700">{entry.proposedRanking === null ? 'Unranked' : 'New'}</span>
+    );
+  }
+
+  const movement = entry.currentRanking - entry.proposedRanking;
+  return (
+    <span className={movement > 0 ? 'text-green-600' : 'text-red-600'}>
+      {movement > 0 ? `▲ ${movement}` : `▼ ${-movement}`}
+    </span>
+  );
+}
+
+export function RankingConfigPreview({ preview }: RankingConfigPreviewProps) {
+  const movedPlayers = preview.leaderboard.filter(
+    (entry) => entry.currentRanking !== entry.proposedRanking
+  );
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500">
+        Full recalculation preview: every tournament is recalculated under this configuration. Once
+        activated, it only applies to tournaments from its activation date.
+      </p>
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Leaderboard (top 100)</h3>
+        <p className="text-sm text-gray-500 mb-2">
+          {movedPlayers.length} of {preview.leaderboard.length} players change position
+        </p>
+        <div className="max-h-96 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="py-1 text-left font-medium">Player</th>
+                <th className="py-1 text-right font-medium">Current</th>
+                <th className="py-1 text-right font-medium">Proposed</th>
+                <th className="py-1 text-right font-medium">Move</th>
+                <th className="py-1 text-right font-medium">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.leaderboard.map((entry) => (
+                <tr key={entry.playerId} className="border-t border-gray-100 text-gray-700">
+                  <td className="py-1">{entry.name ?? 'Unknown Player'}</td>
+                  <td className="py-1 text-right">{entry.currentRanking ?? '-'}</td>
+                  <td className="py-1 text-right">{entry.proposedRanking ?? '-'}</td>
+                  <td className="py-1 text-right">
+                    <RankingMovement entry={entry} />
+                  </td>
+                  <td className="py-1 text-right font-mono">
+                    {entry.currentPoints.toFixed(2)} → {entry.proposedPoints.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Tournament Values</h3>
+        <p className="text-sm text-gray-500 mb-2">
+          {preview.tournaments.length} of {preview.tournamentsEvaluated} tournaments change value
+        </p>
+        {preview.tournaments.length > 0 && (
+          <div className="max-h-96 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="py-1 text-left font-medium">Tournament</th>
+                  <th className="py-1 text-right font-medium">Current</th>
+                  <th className="py-1 text-right font-medium">Proposed</th>
+                  <th className="py-1 text-right font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.tournaments.map((tournament) => (
+                  <tr
+                    key={tournament.tournamentId}
+                    className="border-t border-gray-100 text-gray-700"
+                  >
+                    <td className="py-1">
+                      <Link
+                        href={`/admin/tournaments/${tournament.tournamentId}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {tournament.name}
+                      </Link>
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {tournament.currentValue.toFixed(2)}
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {tournament.proposedValue.toFixed(2)}
+                    </td>
+                    <td
+                      className={`py-1 text-right font-mono ${
+                        tournament.change > 0 ? 'text-green-600' : 'text-red-600'
+                      }`}
+                    >
+                      {formatChange(tournament.change)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -25,11 +25,13 @@ export type ApiTournamentFormatType =
 
 interface TGPConfigFormProps {
   tgpConfig: TGPConfig;
-  eventBooster: EventBoosterType;
-  qualifyingFormat: ApiTournamentFormatType;
   onTGPConfigChange: (config: TGPConfig) => void;
-  onEventBoosterChange: (booster: EventBoosterType) => void;
-  onQualifyingFormatChange: (format: ApiTournamentFormatType) => void;
+  /** The event booster section is shown when an event booster is given */
+  eventBooster?: EventBoosterType;
+  onEventBoosterChange?: (booster: EventBoosterType) => void;
+  /** The qualifying format select is shown when a qualifying format is given */
+  qualifyingFormat?: ApiTournamentFormatType;
+  onQualifyingFormatChange?: (format: ApiTournamentFormatType) => void;
 }
 
 const formatTypes: TournamentFormatType[] = [
@@ -126,23 +128,27 @@ export function TGPConfigForm({
         <div className="space-y-4">
           <h4 className="text-md font-semibold text-gray-800 border-b pb-2">Qualifying</h4>
 
-          <div>
-            <label htmlFor="qualifyingFormat" className={labelClasses}>
-              Format Type
-            </label>
-            <select
-              id="qualifyingFormat"
-              value={qualifyingFormat}
-              onChange={(e) => onQualifyingFormatChange(e.target.value as ApiTournamentFormatType)}
-              className={inputClasses}
-            >
-              {apiFormatTypes.map((format) => (
-                <option key={format.value} value={format.value}>
-                  {format.label}
-                </option>
-              ))}
-            </select>
-          </div>
+          {qualifyingFormat && (
+            <div>
+              <label htmlFor="qualifyingFormat" className={labelClasses}>
+                Format Type
+              </label>
+              <select
+                id="qualifyingFormat"
+                value={qualifyingFormat}
+                onChange={(e) =>
+                  onQualifyingFormatChange?.(e.target.value as ApiTournamentFormatType)
+                }
+                className={inputClasses}
+              >
+                {apiFormatTypes.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
 
           <div>
             <label htmlFor="qualifyingType" className={labelClasses}>
@@ -307,25 +313,27 @@ export function TGPConfigForm({
       </div>
 
       {/* Event Booster */}
-      <div className="mt-6 pt-6 border-t">
-        <h4 className="text-md font-semibold text-gray-800 mb-3">Event Booster</h4>
-        <div className="flex flex-wrap gap-2">
-          {eventBoosters.map((booster) => (
-            <button
-              key={booster.value}
-              type="button"
-              onClick={() => onEventBoosterChange(booster.value)}
-              className={`px-4 py-2 rounded-md transition-colors text-sm ${
-                eventBooster === booster.value
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              {booster.label} ({booster.multiplier})
-            </button>
-          ))}
+      {eventBooster && (
+        <div className="mt-6 pt-6 border-t">
+          <h4 className="text-md font-semibold text-gray-800 mb-3">Event Booster</h4>
+          <div className="flex flex-wrap gap-2">
+            {eventBoosters.map((booster) => (
+              <button
+                key={booster.value}
+                type="button"
+                onClick={() => onEventBoosterChange?.(booster.value)}
+                className={`px-4 py-2 rounded-md transition-colors text-sm ${
+                  eventBooster === booster.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {booster.label} ({booster.multiplier})
+              </button>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Ball Count Adjustment */}
       <div className="mt-6 pt-6 border-t">
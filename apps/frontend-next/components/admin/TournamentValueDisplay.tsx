@@ -2,8 +2,9 @@
 
 import { useMemo } from 'react';
 import {
-  calculateTGP,
-  getEventBoosterMultiplier,
+  calculateTournamentValue,
+  explainBaseValue,
+  type Player,
   type TGPConfig,
   type EventBoosterType as CoreEventBoosterType,
 } from '@opprs/core';
@@ -34,6 +35,19 @@ interface TournamentValueDisplayProps {
   totalPlayerCount?: number;
 }
 
+/**
+ * Stand-ins for the tournament's players: only whether they are rated is
+ * known, so they contribute to the base value but not to TVA.
+ */
+function createPreviewPlayers(ratedPlayerCount: number, totalPlayerCount: number): Player[] {
+  return Array.from({ length: Math.max(ratedPlayerCount, totalPlayerCount) }, (_, i) => ({
+    id: `preview-${i}`,
+    rating: 0,
+    ranking: 0,
+    isRated: i < ratedPlayerCount,
+  }));
+}
+
 function formatNumber(value: number, decimals: number = 2): string {
   return value.toFixed(decimals);
 }
@@ -45,38 +59,34 @@ export function TournamentValueDisplay({
   totalPlayerCount = 0,
 }: TournamentValueDisplayProps) {
   const calculation = useMemo(() => {
-    const tgp = calculateTGP(tgpConfig);
-    const coreBooster = mapEventBooster(eventBooster);
-    const boosterMultiplier = getEventBoosterMultiplier(coreBooster);
-
-    // Base Value: 0.5 per rated player, max 32
-    const baseValue = Math.min(ratedPlayerCount * 0.5, 32);
-
-    // For display purposes, we'll show placeholder TVA values
-    // In production, these would come from actual player data
-    const ratingTVA = 0;
-    const rankingTVA = 0;
-    const totalTVA = ratingTVA + rankingTVA;
-
-    const rawValue = baseValue + totalTVA;
-    const afterTGP = rawValue * tgp;
-    const firstPlaceValue = afterTGP * boosterMultiplier;
+    const players = createPreviewPlayers(ratedPlayerCount, totalPlayerCount);
+    const value = calculateTournamentValue({
+      id: 'preview',
+      name: 'Preview',
+      date: new Date(),
+      players,
+      tgpConfig,
+      eventBooster: mapEventBooster(eventBooster),
+    });
+    const rawValue = value.baseValue + value.totalTVA;
 
     return {
-      baseValue,
-      ratingTVA,
-      rankingTVA,
-      totalTVA,
-      tgp,
-      boosterMultiplier,
+      baseValue: value.baseValue,
+      baseValueCapped: explainBaseValue(players).capped,
+      ratingTVA: value.tvaRating,
+      rankingTVA: value.tvaRanking,
+      totalTVA: value.totalTVA,
+      tgp: value.tgp,
+      boosterMultiplier: value.eventBoosterMultiplier,
       rawValue,
-      afterTGP,
-      firstPlaceValue,
+      afterTGP: rawValue * value.tgp,
+      firstPlaceValue: value.firstPlaceValue,
     };
-  }, [tgpConfig, eventBooster, ratedPlayerCount]);
+  }, [tgpConfig, eventBooster, ratedPlayerCount, totalPlayerCount]);
 
   const {
     baseValue,
+    baseValueCapped,
     ratingTVA,
     rankingTVA,
     totalTVA,
@@ -117,7 +127,9 @@ export function TournamentValueDisplay({
             <div>
               <p className="text-sm text-blue-700">0.5 per rated player</p>
               <p className="text-2xl font-bold text-blue-900">{formatNumber(baseValue)}</p>
-              <p className="text-xs text-blue-600 mt-1">Max: 32.00 (64 rated players)</p>
+              <p className="text-xs text-blue-600 mt-1">
+                {baseValueCapped ? 'Capped at' : 'Max:'} 32.00 (64 rated players)
+              </p>
             </div>
             <div>
               <p className="text-sm text-blue-700">Player Count</p>
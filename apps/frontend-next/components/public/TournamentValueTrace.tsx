@@ -0,0 +1,151 @@
+import type { ReactNode } from 'react';
+import type {
+  CalculationTrace,
+  TournamentTrace,
+  TraceStep,
+  TVATrace,
+} from '@opprs/rest-api-client';
+
+interface TournamentValueTraceProps {
+  trace: TournamentTrace;
+  playerNames: Record<string, string>;
+}
+
+function formatValue(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+function StepList({ steps }: { steps: TraceStep[] }) {
+  return (
+    <ol className="mt-2 space-y-1">
+      {steps.map((step, index) => (
+        <li key={index} className="flex justify-between text-xs text-gray-600">
+          <span>{step.description}</span>
+          <span className="ml-4 font-mono">{formatValue(step.value)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function TraceSection({
+  title,
+  term,
+  children,
+}: {
+  title: string;
+  term: CalculationTrace;
+  children?: ReactNode;
+}) {
+  return (
+    <div className="border-b border-gray-100 py-4 last:border-b-0">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">
+          {title}
+          {term.capped && (
+            <span className="ml-2 rounded bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+              Capped
+            </span>
+          )}
+        </h3>
+        <span className="text-sm font-medium text-gray-900">{formatValue(term.value)}</span>
+      </div>
+      <StepList steps={term.steps} />
+      {children}
+    </div>
+  );
+}
+
+function ContributionList({
+  tva,
+  inputLabel,
+  playerNames,
+}: {
+  tva: TVATrace;
+  inputLabel: string;
+  playerNames: Record<string, string>;
+}) {
+  const counted = tva.contributions.filter((c) => c.contribution > 0);
+  if (counted.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-xs text-blue-600 hover:text-blue-800">
+        Players who counted ({counted.length})
+      </summary>
+      <table className="mt-2 min-w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="py-1 text-left font-medium">Player</th>
+            <th className="py-1 text-right font-medium">{inputLabel}</th>
+            <th className="py-1 text-right font-medium">Contribution</th>
+          </tr>
+        </thead>
+        <tbody>
+          {counted.map((c) => (
+            <tr key={c.playerId} className="text-gray-700">
+              <td className="py-1">{playerNames[c.playerId] ?? 'Unknown Player'}</td>
+              <td className="py-1 text-right">{formatValue(c.input)}</td>
+              <td className="py-1 text-right font-mono">{formatValue(c.contribution)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+export function TournamentValueTrace({ trace, playerNames }: TournamentValueTraceProps) {
+  const { trace: terms, stored } = trace;
+  const drifted =
+    stored.firstPlaceValue !== null &&
+    Math.abs(stored.firstPlaceValue - trace.value.firstPlaceValue) > 0.01;
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">How this value was calculated</h2>
+      <p className="text-sm text-gray-500 mb-2">
+        First place value = (base value + TVA) × TGP × event booster
+      </p>
+      <p className="text-xs text-gray-500 mb-2">Ruleset: {trace.rulesetVersion}</p>
+      {drifted && (
+        <p className="text-xs text-gray-500 mb-2">
+          Recalculated with current player ratings and rankings; the stored value of{' '}
+          {stored.firstPlaceValue?.toFixed(2)} pts was calculated at import.
+        </p>
+      )}
+
+      <TraceSection title="Base Value" term={terms.baseValue} />
+      <TraceSection title="Rating TVA" term={terms.tvaRating}>
+        <ContributionList tva={terms.tvaRating} inputLabel="Rating" playerNames={playerNames} />
+      </TraceSection>
+      <TraceSection title="Ranking TVA" term={terms.tvaRanking}>
+        <ContributionList tva={terms.tvaRanking} inputLabel="Ranking" playerNames={playerNames} />
+      </TraceSection>
+      <TraceSection title="TGP" term={terms.tgp}>
+        {[
+          { label: 'Qualifying', component: terms.tgp.qualifying },
+          { label: 'Finals', component: terms.tgp.finals },
+        ].map(({ label, component }) => (
+          <div key={label} className="mt-2 pl-4">
+            <div className="text-xs font-medium text-gray-700">
+              {label}
+              {component.multipliers.length > 0 &&
+                `: ${component.multipliers.map((m) => `${m.name} ×${m.factor}`).join(', ')}`}
+            </div>
+            <StepList steps={component.steps} />
+          </div>
+        ))}
+      </TraceSection>
+      <TraceSection title="Event Booster" term={terms.eventBooster} />
+      <TraceSection title="First Place Value" term={terms.firstPlaceValue} />
+
+      <div className="py-4">
+        <h3 className="text-sm font-semibold text-gray-900">Point Distribution</h3>
+        <StepList steps={terms.pointDistribution.steps} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { createOPPREngine, getDefaultConfig } from '@opprs/core';
+import type { OPPRConfig, PartialOPPRConfig } from '@opprs/core';
+
+type ConfigTree = Record<string, unknown>;
+
+/**
+ * Read a value from a configuration object by dotted path
+ */
+export function getConfigValue(config: object, path: string): unknown {
+  let current: unknown = config;
+  for (const key of path.split('.')) {
+    if (!current || typeof current !== 'object' || !(key in current)) {
+      return undefined;
+    }
+    current = (current as ConfigTree)[key];
+  }
+  return current;
+}
+
+/**
+ * Check whether a constant is overridden
+ */
+export function isOverridden(overrides: PartialOPPRConfig, path: string): boolean {
+  return getConfigValue(overrides, path) !== undefined;
+}
+
+/**
+ * Return a copy of the overrides with one constant set
+ */
+export function setOverride(
+  overrides: PartialOPPRConfig,
+  path: string,
+  value: number
+): PartialOPPRConfig {
+  const [key, ...rest] = path.split('.');
+  if (!key) {
+    return overrides;
+  }
+  const tree = overrides as ConfigTree;
+  const child = rest.length
+    ? setOverride((tree[key] as PartialOPPRConfig | undefined) ?? {}, rest.join('.'), value)
+    : value;
+  return { ...tree, [key]: child } as PartialOPPRConfig;
+}
+
+/**
+ * Recalculate constants derived from the editable ones, as the demo
+ * configuration panel does. Derived values are only written when their
+ * source constant is overridden, so unchanged groups stay at their defaults.
+ */
+export function withDerivedValues(overrides: PartialOPPRConfig): PartialOPPRConfig {
+  const defaults = getDefaultConfig();
+  let result = overrides;
+
+  const maxBaseValue = overrides.BASE_VALUE?.MAX_BASE_VALUE;
+  if (maxBaseValue !== undefined) {
+    result = setOverride(
+      result,
+      'BASE_VALUE.MAX_PLAYER_COUNT',
+      maxBaseValue / defaults.BASE_VALUE.POINTS_PER_PLAYER
+    );
+  }
+
+  const maxWithFinals = overrides.TGP?.MAX_WITH_FINALS;
+  if (maxWithFinals !== undefined) {
+    result = setOverride(
+      result,
+      'TGP.MAX_GAMES_FOR_200_PERCENT',
+      maxWithFinals / defaults.TGP.BASE_GAME_VALUE
+    );
+  }
+
+  const ratingMaxValue = overrides.TVA?.RATING?.MAX_VALUE;
+  const maxPlayersConsidered = overrides.TVA?.MAX_PLAYERS_CONSIDERED;
+  if (ratingMaxValue !== undefined || maxPlayersConsidered !== undefined) {
+    const perfectRating = defaults.TVA.RATING.PERFECT_RATING;
+    const zeroRating = perfectRating * (9 / 14);
+    const perPlayer =
+      (ratingMaxValue ?? defaults.TVA.RATING.MAX_VALUE) /
+      (maxPlayersConsidered ?? defaults.TVA.MAX_PLAYERS_CONSIDERED);
+    const coefficient = perPlayer / (perfectRating - zeroRating);
+
+    result = setOverride(result, 'TVA.RATING.COEFFICIENT', coefficient);
+    result = setOverride(result, 'TVA.RATING.OFFSET', zeroRating * coefficient);
+    result = setOverride(result, 'TVA.RATING.MIN_EFFECTIVE_RATING', zeroRating);
+  }
+
+  const rankingMaxValue = overrides.TVA?.RANKING?.MAX_VALUE;
+  if (rankingMaxValue !== undefined) {
+    const scale = rankingMaxValue / defaults.TVA.RANKING.MAX_VALUE;
+    result = setOverride(
+      result,
+      'TVA.RANKING.COEFFICIENT',
+      defaults.TVA.RANKING.COEFFICIENT * scale
+    );
+    result = setOverride(result, 'TVA.RANKING.OFFSET', defaults.TVA.RANKING.OFFSET * scale);
+  }
+
+  return result;
+}
+
+/**
+ * Merge overrides with the default constants
+ */
+export function resolveRankingConfig(overrides: PartialOPPRConfig): Readonly<OPPRConfig> {
+  return createOPPREngine(overrides).config;
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import AdminAuditLogPage from '@/app/(admin)/admin/audit-log/page';
+import type { AuditLog } from '@opprs/rest-api-client';
+
+const mockList = vi.fn();
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: {
+    auditLogs: {
+      list: (...args: unknown[]) => mockList(...args),
+    },
+  },
+}));
+
+const createEntry = (overrides: Partial<AuditLog> = {}): AuditLog => ({
+  id: 'audit-1',
+  userId: 'user-1',
+  userEmail: 'admin@example.com',
+  apiKeyId: null,
+  method: 'PATCH',
+  route: '/api/v1/players/:id',
+  url: '/api/v1/players/player-1',
+  statusCode: 200,
+  entityType: 'players',
+  entityId: 'player-1',
+  before: { name: 'Bob' },
+  after: { name: 'Robert' },
+  changes: { name: { before: 'Bob', after: 'Robert' } },
+  createdAt: '2026-03-15T12:00:00Z',
+  ...overrides,
+});
+
+const page = (entries: AuditLog[]) => ({
+  data: entries,
+  pagination: { page: 1, limit: 20, total: entries.length, totalPages: 1 },
+});
+
+describe('AdminAuditLogPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockList.mockResolvedValue(page([createEntry()]));
+  });
+
+  it('lists recorded writes with their actor and changed fields', async () => {
+    mockList.mockResolvedValue(
+      page([createEntry(), createEntry({ id: 'audit-2', apiKeyId: 'key-1', method: 'DELETE' })])
+    );
+
+    render(<AdminAuditLogPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('admin@example.com')).toBeInTheDocument();
+    });
+    expect(mockList).toHaveBeenCalledWith({ page: 1, limit: 20 });
+    expect(screen.getByText('admin@example.com (API key)')).toBeInTheDocument();
+    expect(screen.getByText('DELETE', { selector: 'span' })).toBeInTheDocument();
+    expect(screen.getAllByText('/api/v1/players/:id')).toHaveLength(2);
+  });
+
+  it('filters by entity, method and date', async () => {
+    render(<AdminAuditLogPage />);
+
+    await waitFor(() => {
+      expect(mockList).toHaveBeenCalledTimes(1);
+    });
+    fireEvent.change(screen.getByLabelText('Entity type'), { target: { value: 'players' } });
+    fireEvent.change(screen.getByLabelText('Entity ID'), { target: { value: 'player-1' } });
+    fireEvent.change(screen.getByLabelText('Method'), { target: { value: 'PATCH' } });
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2026-03-01' } });
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2026-03-15' } });
+
+    await waitFor(() => {
+      expect(mockList).toHaveBeenLastCalledWith({
+        entityType: 'players',
+        entityId: 'player-1',
+        method: 'PATCH',
+        from: '2026-03-01T00:00:00.000Z',
+        to: '2026-03-16T00:00:00.000Z',
+        page: 1,
+        limit: 20,
+      });
+    });
+  });
+
+  it('shows the changes of an entry and its entity history', async () => {
+    render(<AdminAuditLogPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('admin@example.com')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('admin@example.com'));
+
+    expect(screen.getByText('Change Details')).toBeInTheDocument();
+    expect(screen.getByText('PATCH /api/v1/players/player-1 (200)')).toBeInTheDocument();
+    expect(screen.getByText('Bob')).toBeInTheDocument();
+    expect(screen.getByText('Robert')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show History of players' }));
+
+    await waitFor(() => {
+      expect(mockList).toHaveBeenLastCalledWith({
+        entityType: 'players',
+        entityId: 'player-1',
+        page: 1,
+        limit: 20,
+      });
+    });
+    expect(screen.queryByText('Change Details')).not.toBeInTheDocument();
+  });
+
+  it('shows an empty state', async () => {
+    mockList.mockResolvedValue(page([]));
+
+    render(<AdminAuditLogPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No changes recorded.')).toBeInTheDocument();
+    });
+  });
+});
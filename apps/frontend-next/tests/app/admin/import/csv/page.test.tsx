@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import ImportCsvPage from '@/app/(admin)/admin/import/csv/page';
+import type { CsvImportResponse, CsvImportRow } from '@opprs/rest-api-client';
+
+const mockPush = vi.fn();
+const mockBack = vi.fn();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    back: mockBack,
+  }),
+}));
+
+const mockCsv = vi.fn();
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: {
+    import: {
+      csv: (...args: unknown[]) => mockCsv(...args),
+    },
+  },
+}));
+
+const matched: CsvImportRow = {
+  line: 2,
+  position: 1,
+  name: 'Alice Johnson',
+  playerNumber: 10001,
+  optedOut: false,
+  isFinals: false,
+  playerId: 'player-1',
+  matchedBy: 'playerNumber',
+  candidates: [],
+};
+
+const unmatched: CsvImportRow = {
+  line: 3,
+  position: 2,
+  name: 'Bob Smith',
+  optedOut: false,
+  isFinals: false,
+  playerId: null,
+  matchedBy: null,
+  candidates: [],
+};
+
+const mockPreview: CsvImportResponse = {
+  dryRun: true,
+  tournament: null,
+  rows: [matched, unmatched],
+  unmatched: [unmatched],
+  ambiguous: [],
+  playersCreated: 0,
+  reviewsQueued: 0,
+  resultsCount: 0,
+  ratingsUpdated: 0,
+};
+
+const csv = 'Position,Name,Player Number\n1,Alice Johnson,10001\n2,Bob Smith,';
+
+function fillForm() {
+  fireEvent.change(screen.getByLabelText(/Tournament Name/i), {
+    target: { value: 'League Night' },
+  });
+  fireEvent.change(screen.getByLabelText(/^Date/), { target: { value: '2024-07-01' } });
+  fireEvent.change(screen.getByLabelText(/^Results/), { target: { value: csv } });
+}
+
+describe('ImportCsvPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the import form', () => {
+    render(<ImportCsvPage />);
+
+    expect(screen.getByText('Import Results from CSV')).toBeInTheDocument();
+    expect(screen.getByLabelText(/Tournament Name/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/^Results/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Import Results/i })).toBeDisabled();
+  });
+
+  it('previews matches and lists unmatched names', async () => {
+    mockCsv.mockResolvedValue(mockPreview);
+
+    render(<ImportCsvPage />);
+
+    fillForm();
+    fireEvent.click(screen.getByRole('button', { name: /Preview/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Matched by player number')).toBeInTheDocument();
+    });
+
+    expect(mockCsv).toHaveBeenCalledWith(
+      expect.objectContaining({
+        csv,
+        dryRun: true,
+        tournament: expect.objectContaining({
+          name: 'League Night',
+          date: '2024-07-01T00:00:00.000Z',
+        }),
+      })
+    );
+    expect(screen.getByText(/New players will be created for: Bob Smith/)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Alice Johnson' })).toHaveAttribute(
+      'href',
+      '/admin/players/player-1'
+    );
+    expect(screen.getByRole('button', { name: /Import Results/i })).toBeEnabled();
+  });
+
+  it('imports the results after a preview', async () => {
+    mockCsv.mockResolvedValueOnce(mockPreview).mockResolvedValueOnce({
+      ...mockPreview,
+      dryRun: false,
+      tournament: { id: 'tour-1', name: 'League Night' },
+      playersCreated: 1,
+      resultsCount: 2,
+      ratingsUpdated: 2,
+    });
+
+    render(<ImportCsvPage />);
+
+    fillForm();
+    fireEvent.click(screen.getByRole('button', { name: /Preview/i }));
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /Import Results/i })).toBeEnabled();
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Results/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Results imported')).toBeInTheDocument();
+    });
+    expect(mockCsv).toHaveBeenLastCalledWith(expect.objectContaining({ dryRun: false }));
+
+    fireEvent.click(screen.getByRole('button', { name: /View Tournament/i }));
+    expect(mockPush).toHaveBeenCalledWith('/admin/tournaments/tour-1');
+  });
+
+  it('lists the candidates of rows needing review and links to the queued reviews', async () => {
+    const ambiguous: CsvImportRow = {
+      ...unmatched,
+      candidates: [
+        {
+          playerId: 'player-2',
+          name: 'Bob Smyth',
+          playerNumber: 10002,
+          score: 0.6,
+          reasons: ['similarName'],
+        },
+      ],
+    };
+    const preview = {
+      ...mockPreview,
+      rows: [matched, ambiguous],
+      unmatched: [],
+      ambiguous: [ambiguous],
+    };
+    mockCsv.mockResolvedValueOnce(preview).mockResolvedValueOnce({
+      ...preview,
+      dryRun: false,
+      tournament: { id: 'tour-1', name: 'League Night' },
+      playersCreated: 1,
+      reviewsQueued: 1,
+      resultsCount: 2,
+      ratingsUpdated: 2,
+    });
+
+    render(<ImportCsvPage />);
+
+    fillForm();
+    fireEvent.click(screen.getByRole('button', { name: /Preview/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Needs review')).toBeInTheDocument();
+    });
+    expect(screen.getByText(/May be Bob Smyth \(0.6\)/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Import Results/i })).toBeEnabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /Import Results/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Results imported')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('link', { name: 'Review them' })).toHaveAttribute(
+      'href',
+      '/admin/player-reviews'
+    );
+  });
+
+  it('displays error message on API failure', async () => {
+    mockCsv.mockRejectedValue(new Error('Line 3: Invalid position: first'));
+
+    render(<ImportCsvPage />);
+
+    fillForm();
+    fireEvent.click(screen.getByRole('button', { name: /Preview/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Line 3: Invalid position: first')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import BulkImportMatchplayPage from '@/app/(admin)/admin/import/matchplay/bulk/page';
+import type { BulkImportResponse } from '@opprs/rest-api-client';
+
+const mockPush = vi.fn();
+const mockBack = vi.fn();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    back: mockBack,
+  }),
+}));
+
+const mockMatchplayBulk = vi.fn();
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: {
+    import: {
+      matchplayBulk: (...args: unknown[]) => mockMatchplayBulk(...args),
+    },
+  },
+}));
+
+const mockResponse: BulkImportResponse = {
+  found: 3,
+  imported: 1,
+  skipped: 1,
+  failed: 1,
+  events: [
+    { matchplayId: 12345, status: 'imported', tournamentId: 'tour-1', name: 'Spring Open' },
+    {
+      matchplayId: 12350,
+      status: 'skipped',
+      tournamentId: 'tour-2',
+      name: 'Summer Open',
+      message: 'Already imported',
+    },
+    { matchplayId: 12361, status: 'failed', message: 'Matchplay Tournament not found: 12361' },
+  ],
+};
+
+describe('BulkImportMatchplayPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the bulk import form', () => {
+    render(<BulkImportMatchplayPage />);
+
+    expect(screen.getByText('Bulk Import from Matchplay')).toBeInTheDocument();
+    expect(screen.getByLabelText(/Import By/i)).toHaveValue('organizer');
+    expect(screen.getByLabelText(/Matchplay Organizer ID/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/^From/)).toBeInTheDocument();
+    expect(screen.getByLabelText(/^To/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Import Tournaments/i })).toBeInTheDocument();
+  });
+
+  it('imports the tournaments of an organizer in a date range', async () => {
+    mockMatchplayBulk.mockResolvedValue(mockResponse);
+
+    render(<BulkImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Organizer ID/i), {
+      target: { value: '4242' },
+    });
+    fireEvent.change(screen.getByLabelText(/^From/), { target: { value: '2024-01-01' } });
+    fireEvent.change(screen.getByLabelText(/^To/), { target: { value: '2024-03-31' } });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournaments/i }));
+
+    await waitFor(() => {
+      expect(mockMatchplayBulk).toHaveBeenCalledWith(
+        {
+          organizerId: 4242,
+          from: '2024-01-01',
+          to: '2024-03-31',
+        },
+        expect.anything()
+      );
+    });
+  });
+
+  it('imports a list of tournament IDs', async () => {
+    mockMatchplayBulk.mockResolvedValue(mockResponse);
+
+    render(<BulkImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Import By/i), { target: { value: 'ids' } });
+    fireEvent.change(screen.getByLabelText(/Matchplay Tournament IDs/i), {
+      target: { value: '12345, 12350,12361' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournaments/i }));
+
+    await waitFor(() => {
+      expect(mockMatchplayBulk).toHaveBeenCalledWith(
+        { tournamentIds: [12345, 12350, 12361] },
+        expect.anything()
+      );
+    });
+  });
+
+  it('shows a validation error for an invalid source ID', async () => {
+    render(<BulkImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Import By/i), { target: { value: 'series' } });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournaments/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Please enter a valid Matchplay series ID')).toBeInTheDocument();
+    });
+    expect(mockMatchplayBulk).not.toHaveBeenCalled();
+  });
+
+  it('reports the outcome of every tournament', async () => {
+    mockMatchplayBulk.mockResolvedValue(mockResponse);
+
+    render(<BulkImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Organizer ID/i), {
+      target: { value: '4242' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournaments/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Found 3 tournaments')).toBeInTheDocument();
+    });
+
+    expect(screen.getByRole('link', { name: 'Spring Open' })).toHaveAttribute(
+      'href',
+      '/admin/tournaments/tour-1'
+    );
+    expect(screen.getByText('Already imported')).toBeInTheDocument();
+    expect(screen.getByText('Matchplay Tournament not found: 12361')).toBeInTheDocument();
+    expect(screen.getByText('failed')).toBeInTheDocument();
+  });
+
+  it('displays error message on API failure', async () => {
+    mockMatchplayBulk.mockRejectedValue(new Error('Admin access required'));
+
+    render(<BulkImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Organizer ID/i), {
+      target: { value: '4242' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournaments/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Admin access required')).toBeInTheDocument();
+    });
+  });
+});
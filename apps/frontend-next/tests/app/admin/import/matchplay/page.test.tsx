@@ -1,7 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import ImportMatchplayPage from '@/app/(admin)/admin/import/matchplay/page';
-import type { ImportTournamentResponse } from '@opprs/rest-api-client';
+import type {
+  ImportTournamentResponse,
+  MatchplayTGPPreview,
+  TGPConfidenceReport,
+} from '@opprs/rest-api-client';
 import { createMockTournament } from '@tests/mocks/data-factories';
 
 const mockPush = vi.fn();
@@ -15,15 +19,27 @@ vi.mock('next/navigation', () => ({
 }));
 
 const mockMatchplayTournament = vi.fn();
+const mockPreviewMatchplayTGP = vi.fn();
 
 vi.mock('@/lib/api-client', () => ({
   apiClient: {
     import: {
       matchplayTournament: (...args: unknown[]) => mockMatchplayTournament(...args),
+      previewMatchplayTGP: (...args: unknown[]) => mockPreviewMatchplayTGP(...args),
     },
   },
 }));
 
+const tgpConfidence: TGPConfidenceReport = {
+  level: 'high',
+  fields: [
+    { field: 'finals.formatType', source: 'measured', detail: 'Matchplay format group_matchplay' },
+    { field: 'finals.meaningfulGames', source: 'measured', detail: '5 games per player' },
+  ],
+  gamesMeasured: 20,
+  byes: 0,
+};
+
 describe('ImportMatchplayPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -61,8 +77,14 @@ describe('ImportMatchplayPage', () => {
       }),
       playersCreated: 5,
       playersUpdated: 10,
+      playersMatched: 0,
+      reviewsQueued: 0,
       resultsCount: 15,
+      ratingsUpdated: 15,
+      ratingMethod: 'standings',
       created: true,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 15, tgpConfidence }],
     };
     mockMatchplayTournament.mockResolvedValue(mockResponse);
 
@@ -92,8 +114,14 @@ describe('ImportMatchplayPage', () => {
       }),
       playersCreated: 3,
       playersUpdated: 7,
+      playersMatched: 0,
+      reviewsQueued: 0,
       resultsCount: 10,
+      ratingsUpdated: 10,
+      ratingMethod: 'standings',
       created: true,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 15, tgpConfidence }],
     };
     mockMatchplayTournament.mockResolvedValue(mockResponse);
 
@@ -130,8 +158,14 @@ describe('ImportMatchplayPage', () => {
       }),
       playersCreated: 2,
       playersUpdated: 3,
+      playersMatched: 0,
+      reviewsQueued: 0,
       resultsCount: 5,
+      ratingsUpdated: 5,
+      ratingMethod: 'standings',
       created: true,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 15, tgpConfidence }],
     };
     mockMatchplayTournament.mockResolvedValue(mockResponse);
 
@@ -164,8 +198,14 @@ describe('ImportMatchplayPage', () => {
       }),
       playersCreated: 5,
       playersUpdated: 10,
+      playersMatched: 0,
+      reviewsQueued: 0,
       resultsCount: 15,
+      ratingsUpdated: 15,
+      ratingMethod: 'standings',
       created: true,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 15, tgpConfidence }],
     };
     mockMatchplayTournament.mockResolvedValue(mockResponse);
 
@@ -188,6 +228,38 @@ describe('ImportMatchplayPage', () => {
     expect(screen.getByText('100.50')).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /View Tournament/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /Import Another/i })).toBeInTheDocument();
+    expect(screen.queryByText(/may be existing players/)).not.toBeInTheDocument();
+  });
+
+  it('links to the reviews of players resembling existing ones', async () => {
+    mockMatchplayTournament.mockResolvedValue({
+      tournament: createMockTournament({ id: 'tour-123' }),
+      playersCreated: 2,
+      playersUpdated: 6,
+      playersMatched: 1,
+      reviewsQueued: 2,
+      resultsCount: 8,
+      ratingsUpdated: 8,
+      ratingMethod: 'standings',
+      created: true,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 8, tgpConfidence }],
+    } satisfies ImportTournamentResponse);
+
+    render(<ImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Tournament ID/i), {
+      target: { value: '12345' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournament/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/2 created players may be existing players/)).toBeInTheDocument();
+    });
+    expect(screen.getByRole('link', { name: 'Review them' })).toHaveAttribute(
+      'href',
+      '/admin/player-reviews'
+    );
   });
 
   it('shows "Tournament Updated" for non-created imports', async () => {
@@ -205,8 +277,14 @@ describe('ImportMatchplayPage', () => {
       }),
       playersCreated: 0,
       playersUpdated: 5,
+      playersMatched: 0,
+      reviewsQueued: 0,
       resultsCount: 5,
+      ratingsUpdated: 5,
+      ratingMethod: 'standings',
       created: false,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 15, tgpConfidence }],
     };
     mockMatchplayTournament.mockResolvedValue(mockResponse);
 
@@ -222,6 +300,176 @@ describe('ImportMatchplayPage', () => {
     });
   });
 
+  it('passes finals tournament IDs when provided', async () => {
+    const mockResponse: ImportTournamentResponse = {
+      tournament: createMockTournament({ id: 'tour-123', externalId: 'matchplay:12345' }),
+      playersCreated: 16,
+      playersUpdated: 0,
+      playersMatched: 0,
+      reviewsQueued: 0,
+      resultsCount: 24,
+      ratingsUpdated: 16,
+      ratingMethod: 'games',
+      created: true,
+      tgpOverridden: false,
+      stages: [
+        { matchplayId: 12345, isFinals: false, resultsCount: 16, tgpConfidence },
+        { matchplayId: 12346, isFinals: true, resultsCount: 8, tgpConfidence },
+      ],
+    };
+    mockMatchplayTournament.mockResolvedValue(mockResponse);
+
+    render(<ImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Tournament ID/i), {
+      target: { value: '12345' },
+    });
+    fireEvent.change(screen.getByLabelText(/Finals Tournament IDs/i), {
+      target: { value: '12346' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournament/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Tournament Imported')).toBeInTheDocument();
+    });
+
+    expect(mockMatchplayTournament).toHaveBeenCalledWith(12345, {
+      eventBooster: undefined,
+      apiToken: undefined,
+      finalsIds: [12346],
+    });
+    expect(screen.getByText(/Finals \(Matchplay 12346\)/)).toBeInTheDocument();
+  });
+
+  it('previews the derived TGP configuration', async () => {
+    const mockPreview: MatchplayTGPPreview = {
+      tgpConfig: {
+        qualifying: { type: 'none', meaningfulGames: 0 },
+        finals: { formatType: 'match-play', meaningfulGames: 5, fourPlayerGroups: true },
+      },
+      stages: [
+        {
+          matchplayId: 12345,
+          isFinals: false,
+          tgpConfig: {},
+          confidence: tgpConfidence,
+        },
+      ],
+    };
+    mockPreviewMatchplayTGP.mockResolvedValue(mockPreview);
+
+    render(<ImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Tournament ID/i), {
+      target: { value: '12345' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Preview TGP/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('TGP Preview')).toBeInTheDocument();
+    });
+
+    expect(mockPreviewMatchplayTGP).toHaveBeenCalledWith(12345, {
+      apiToken: undefined,
+      finalsIds: undefined,
+    });
+    expect(screen.getByText('high confidence')).toBeInTheDocument();
+    expect(screen.getByText(/20 games measured, 0 byes/)).toBeInTheDocument();
+    expect(screen.getByText(/5 games per player/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Meaningful Games', { selector: '#finalsGames' })).toHaveValue(5);
+    expect(mockMatchplayTournament).not.toHaveBeenCalled();
+  });
+
+  it('sends the edited TGP configuration with the import', async () => {
+    mockPreviewMatchplayTGP.mockResolvedValue({
+      tgpConfig: {
+        qualifying: { type: 'none', meaningfulGames: 0 },
+        finals: { formatType: 'match-play', meaningfulGames: 5, fourPlayerGroups: true },
+      },
+      stages: [{ matchplayId: 12345, isFinals: false, tgpConfig: {}, confidence: tgpConfidence }],
+    });
+    mockMatchplayTournament.mockResolvedValue({
+      tournament: createMockTournament({ id: 'tour-123', externalId: 'matchplay:12345' }),
+      playersCreated: 4,
+      playersUpdated: 0,
+      playersMatched: 0,
+      reviewsQueued: 0,
+      resultsCount: 4,
+      ratingsUpdated: 4,
+      ratingMethod: 'games',
+      created: true,
+      tgpOverridden: true,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 4, tgpConfidence }],
+    } satisfies ImportTournamentResponse);
+
+    render(<ImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Tournament ID/i), {
+      target: { value: '12345' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Preview TGP/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('TGP Preview')).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('Meaningful Games', { selector: '#finalsGames' }), {
+      target: { value: '8' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournament/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Tournament Imported')).toBeInTheDocument();
+    });
+
+    expect(mockMatchplayTournament).toHaveBeenCalledWith(12345, {
+      eventBooster: undefined,
+      apiToken: undefined,
+      tgpConfig: {
+        qualifying: { type: 'none', meaningfulGames: 0 },
+        finals: { formatType: 'match-play', meaningfulGames: 8, fourPlayerGroups: true },
+      },
+    });
+    expect(screen.getByText('Overridden')).toBeInTheDocument();
+  });
+
+  it('does not override the TGP configuration of another tournament', async () => {
+    mockPreviewMatchplayTGP.mockResolvedValue({
+      tgpConfig: {
+        qualifying: { type: 'none', meaningfulGames: 0 },
+        finals: { formatType: 'match-play', meaningfulGames: 5 },
+      },
+      stages: [{ matchplayId: 12345, isFinals: false, tgpConfig: {}, confidence: tgpConfidence }],
+    });
+    mockMatchplayTournament.mockRejectedValue(new Error('Tournament not found'));
+
+    render(<ImportMatchplayPage />);
+
+    fireEvent.change(screen.getByLabelText(/Matchplay Tournament ID/i), {
+      target: { value: '12345' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Preview TGP/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('TGP Preview')).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('Meaningful Games', { selector: '#finalsGames' }), {
+      target: { value: '8' },
+    });
+    fireEvent.change(screen.getByLabelText(/Matchplay Tournament ID/i), {
+      target: { value: '54321' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Import Tournament/i }));
+
+    await waitFor(() => {
+      expect(mockMatchplayTournament).toHaveBeenCalledWith(54321, {
+        eventBooster: undefined,
+        apiToken: undefined,
+      });
+    });
+  });
+
   it('displays error message on API failure', async () => {
     mockMatchplayTournament.mockRejectedValue(new Error('Tournament not found'));
 
@@ -251,8 +499,14 @@ describe('ImportMatchplayPage', () => {
       }),
       playersCreated: 1,
       playersUpdated: 2,
+      playersMatched: 0,
+      reviewsQueued: 0,
       resultsCount: 3,
+      ratingsUpdated: 3,
+      ratingMethod: 'standings',
       created: true,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 15, tgpConfidence }],
     };
     mockMatchplayTournament.mockResolvedValue(mockResponse);
 
@@ -286,8 +540,14 @@ describe('ImportMatchplayPage', () => {
       }),
       playersCreated: 1,
       playersUpdated: 2,
+      playersMatched: 0,
+      reviewsQueued: 0,
       resultsCount: 3,
+      ratingsUpdated: 3,
+      ratingMethod: 'standings',
       created: true,
+      tgpOverridden: false,
+      stages: [{ matchplayId: 12345, isFinals: false, resultsCount: 15, tgpConfidence }],
     };
     mockMatchplayTournament.mockResolvedValue(mockResponse);
 
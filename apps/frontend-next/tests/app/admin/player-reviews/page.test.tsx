@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import AdminPlayerReviewsPage from '@/app/(admin)/admin/player-reviews/page';
+import type { PlayerMatchReview } from '@opprs/rest-api-client';
+
+const mockList = vi.fn();
+const mockMatch = vi.fn();
+const mockDismiss = vi.fn();
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: {
+    playerMatchReviews: {
+      list: (...args: unknown[]) => mockList(...args),
+      match: (...args: unknown[]) => mockMatch(...args),
+      dismiss: (...args: unknown[]) => mockDismiss(...args),
+    },
+  },
+}));
+
+const createReview = (overrides: Partial<PlayerMatchReview> = {}): PlayerMatchReview => ({
+  id: 'review-1',
+  status: 'PENDING',
+  source: 'matchplay',
+  externalId: 'matchplay:123',
+  name: 'Alice Jonson',
+  candidates: [
+    {
+      playerId: 'player-1',
+      name: 'Alice Johnson',
+      playerNumber: 10001,
+      score: 0.6,
+      reasons: ['similarName', 'sharedHistory'],
+    },
+  ],
+  playerId: 'player-2',
+  player: {
+    id: 'player-2',
+    name: 'Alice Jonson',
+    playerNumber: 10002,
+  },
+  tournamentId: 'tour-1',
+  tournament: { id: 'tour-1', name: 'League Night', date: '2026-01-14T00:00:00Z' },
+  createdAt: '2026-01-14T03:00:00Z',
+  updatedAt: '2026-01-14T03:00:00Z',
+  ...overrides,
+});
+
+const page = (reviews: PlayerMatchReview[]) => ({
+  data: reviews,
+  pagination: { page: 1, limit: 20, total: reviews.length, totalPages: 1 },
+});
+
+describe('AdminPlayerReviewsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockList.mockResolvedValue(page([createReview()]));
+  });
+
+  it('shows pending reviews with their candidates', async () => {
+    render(<AdminPlayerReviewsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('link', { name: 'Alice Jonson' })).toBeInTheDocument();
+    });
+    expect(mockList).toHaveBeenCalledWith({ status: 'PENDING', page: 1, limit: 20 });
+    expect(
+      screen.getByText(/Imported from matchplay as matchplay:123 with League Night/)
+    ).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Alice Johnson' })).toHaveAttribute(
+      'href',
+      '/admin/players/player-1'
+    );
+    expect(screen.getByText('60%')).toBeInTheDocument();
+    expect(screen.getByText('similar name, shared events')).toBeInTheDocument();
+  });
+
+  it('matches the imported player to a candidate', async () => {
+    mockMatch.mockResolvedValue(createReview({ status: 'MATCHED' }));
+
+    render(<AdminPlayerReviewsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Same Player' })).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Same Player' }));
+
+    await waitFor(() => {
+      expect(mockMatch).toHaveBeenCalledWith('review-1', 'player-1');
+    });
+    expect(mockList).toHaveBeenCalledTimes(2);
+  });
+
+  it('dismisses a review', async () => {
+    mockDismiss.mockResolvedValue(createReview({ status: 'DISMISSED' }));
+
+    render(<AdminPlayerReviewsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Different Player' })).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Different Player' }));
+
+    await waitFor(() => {
+      expect(mockDismiss).toHaveBeenCalledWith('review-1');
+    });
+  });
+
+  it('shows the error when a match is refused', async () => {
+    mockMatch.mockRejectedValue(new Error('Both players have results in tournament tour-1'));
+
+    render(<AdminPlayerReviewsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Same Player' })).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Same Player' }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('Both players have results in tournament tour-1')
+      ).toBeInTheDocument();
+    });
+  });
+
+  it('lists resolved reviews by status without actions', async () => {
+    mockList.mockResolvedValue(
+      page([
+        createReview({
+          status: 'MATCHED',
+          playerId: null,
+          player: null,
+          matchedPlayer: {
+            id: 'player-1',
+            name: 'Alice Johnson',
+            playerNumber: 10001,
+          },
+          resolvedAt: '2026-01-15T10:00:00Z',
+        }),
+      ])
+    );
+
+    render(<AdminPlayerReviewsPage />);
+
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'MATCHED' } });
+
+    await waitFor(() => {
+      expect(mockList).toHaveBeenLastCalledWith({ status: 'MATCHED', page: 1, limit: 20 });
+    });
+    expect(screen.getByText(/Matched to/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Same Player' })).not.toBeInTheDocument();
+  });
+
+  it('shows an empty state', async () => {
+    mockList.mockResolvedValue(page([]));
+
+    render(<AdminPlayerReviewsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No reviews.')).toBeInTheDocument();
+    });
+  });
+});
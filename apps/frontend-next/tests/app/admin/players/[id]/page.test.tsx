@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import AdminPlayerEditPage from '@/app/(admin)/admin/players/[id]/page';
+import { createMockPlayer, createMockPaginatedResponse } from '@tests/mocks/data-factories';
+import type { PlayerMerge } from '@opprs/rest-api-client';
+
+const mockPush = vi.fn();
+const mockBack = vi.fn();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    back: mockBack,
+  }),
+  useParams: () => ({ id: 'player-1' }),
+}));
+
+const mockPlayersGet = vi.fn();
+const mockPlayersList = vi.fn();
+const mockPlayersSearch = vi.fn();
+const mockPlayersGetMerges = vi.fn();
+const mockPlayersMerge = vi.fn();
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: {
+    players: {
+      get: (...args: unknown[]) => mockPlayersGet(...args),
+      list: (...args: unknown[]) => mockPlayersList(...args),
+      search: (...args: unknown[]) => mockPlayersSearch(...args),
+      getMerges: (...args: unknown[]) => mockPlayersGetMerges(...args),
+      merge: (...args: unknown[]) => mockPlayersMerge(...args),
+      update: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+describe('AdminPlayerEditPage', () => {
+  const mockPlayer = createMockPlayer({ id: 'player-1', name: 'Bob Smith' });
+  const mockTarget = createMockPlayer({ id: 'player-2', name: 'Robert Smith' });
+
+  const mockMerge: PlayerMerge = {
+    id: 'merge-1',
+    sourcePlayerId: 'player-3',
+    sourcePlayerNumber: 10003,
+    sourceName: 'Bobby Smith',
+    sourceExternalId: 'matchplay:789',
+    mergedIntoId: 'player-1',
+    targetPlayerId: 'player-1',
+    mergedById: 'user-1',
+    summary: {
+      standingsMoved: 2,
+      standingsDropped: 0,
+      tournamentsReassigned: 0,
+      userMoved: false,
+      rankingHistoryMoved: 0,
+      ratingTaken: false,
+    },
+    createdAt: '2024-03-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPlayersGet.mockResolvedValue(mockPlayer);
+    mockPlayersList.mockResolvedValue(createMockPaginatedResponse([mockPlayer, mockTarget]));
+    mockPlayersSearch.mockResolvedValue([]);
+    mockPlayersGetMerges.mockResolvedValue([]);
+  });
+
+  const selectTarget = async () => {
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText(/player to keep/i)).toBeInTheDocument();
+    });
+    fireEvent.focus(screen.getByPlaceholderText(/player to keep/i));
+    await waitFor(() => {
+      expect(screen.getByText('Robert Smith')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('Robert Smith'));
+  };
+
+  it('lists the players merged into the player', async () => {
+    mockPlayersGetMerges.mockResolvedValue([mockMerge]);
+
+    render(<AdminPlayerEditPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Merged Players')).toBeInTheDocument();
+    });
+    expect(mockPlayersGetMerges).toHaveBeenCalledWith('player-1');
+    expect(screen.getByText('Bobby Smith')).toBeInTheDocument();
+    expect(screen.getByText(/#10003/)).toBeInTheDocument();
+  });
+
+  it('shows the external IDs of the player', async () => {
+    mockPlayersGet.mockResolvedValue({
+      ...mockPlayer,
+      identities: [
+        {
+          id: 'identity-1',
+          source: 'matchplay',
+          externalId: '123',
+          status: 'VERIFIED',
+          playerId: 'player-1',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+
+    render(<AdminPlayerEditPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('External IDs')).toBeInTheDocument();
+    });
+    expect(screen.getByText('matchplay')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Unverify' })).toBeInTheDocument();
+  });
+
+  it('does not offer the player itself as merge target', async () => {
+    render(<AdminPlayerEditPage />);
+
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText(/player to keep/i)).toBeInTheDocument();
+    });
+    fireEvent.focus(screen.getByPlaceholderText(/player to keep/i));
+
+    await waitFor(() => {
+      expect(screen.getByText('Robert Smith')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Bob Smith')).not.toBeInTheDocument();
+  });
+
+  it('merges the player into the selected player after confirmation', async () => {
+    mockPlayersMerge.mockResolvedValue({
+      merge: mockMerge,
+      player: mockTarget,
+      tournamentsRecalculated: 2,
+    });
+
+    render(<AdminPlayerEditPage />);
+    await selectTarget();
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+
+    expect(screen.getByText(/Merge this player into Robert Smith/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Merge Players' }));
+
+    await waitFor(() => {
+      expect(mockPlayersMerge).toHaveBeenCalledWith('player-1', 'player-2');
+    });
+    expect(mockPush).toHaveBeenCalledWith('/admin/players/player-2');
+  });
+
+  it('shows the error when the merge is refused', async () => {
+    mockPlayersMerge.mockRejectedValue(new Error('Both players are linked to a user account'));
+
+    render(<AdminPlayerEditPage />);
+    await selectTarget();
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Merge Players' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Both players are linked to a user account')).toBeInTheDocument();
+    });
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+});
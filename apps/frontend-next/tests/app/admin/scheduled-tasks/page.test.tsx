@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import AdminScheduledTasksPage from '@/app/(admin)/admin/scheduled-tasks/page';
+import type { ScheduledTask } from '@opprs/rest-api-client';
+
+const mockList = vi.fn();
+const mockRuns = vi.fn();
+const mockRun = vi.fn();
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: {
+    scheduledTasks: {
+      list: (...args: unknown[]) => mockList(...args),
+      runs: (...args: unknown[]) => mockRuns(...args),
+      run: (...args: unknown[]) => mockRun(...args),
+    },
+  },
+}));
+
+const createTask = (overrides: Partial<ScheduledTask> = {}): ScheduledTask => ({
+  name: 'time-decay',
+  description: 'Decays the points of every standing to today',
+  schedule: '0 3 * * *',
+  enabled: true,
+  running: false,
+  lastRunAt: '2026-01-14T03:00:00Z',
+  nextRunAt: '2026-01-15T03:00:00Z',
+  lastRun: {
+    id: 'run-1',
+    status: 'SUCCEEDED',
+    runBy: 'api-1',
+    result: { message: 'Successfully recalculated decay for 12 tournaments' },
+    error: null,
+    startedAt: '2026-01-14T03:00:00Z',
+    completedAt: '2026-01-14T03:00:05Z',
+  },
+  ...overrides,
+});
+
+describe('AdminScheduledTasksPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockList.mockResolvedValue({
+      schedulerEnabled: true,
+      tasks: [
+        createTask(),
+        createTask({
+          name: 'rd-decay',
+          schedule: null,
+          enabled: false,
+          lastRun: {
+            id: 'run-2',
+            status: 'FAILED',
+            runBy: 'api-1',
+            error: 'Database unavailable',
+            startedAt: '2026-01-12T04:00:00Z',
+          },
+        }),
+      ],
+    });
+  });
+
+  it('shows the tasks with their last run', async () => {
+    render(<AdminScheduledTasksPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('time-decay')).toBeInTheDocument();
+    });
+    expect(screen.getByText('0 3 * * *')).toBeInTheDocument();
+    expect(screen.getByText('off')).toBeInTheDocument();
+    expect(screen.getByText('SUCCEEDED')).toBeInTheDocument();
+    expect(
+      screen.getByText('Successfully recalculated decay for 12 tournaments')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Database unavailable')).toBeInTheDocument();
+  });
+
+  it('warns when the scheduler is disabled', async () => {
+    mockList.mockResolvedValue({
+      schedulerEnabled: false,
+      tasks: [createTask({ enabled: false })],
+    });
+
+    render(<AdminScheduledTasksPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/The scheduler is disabled/)).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: 'Run Now' })).toBeDisabled();
+  });
+
+  it('runs an enabled task now', async () => {
+    mockRun.mockResolvedValue(createTask());
+
+    render(<AdminScheduledTasksPage />);
+
+    await waitFor(() => {
+      expect(screen.getAllByRole('button', { name: 'Run Now' })).toHaveLength(2);
+    });
+    const [runTimeDecay, runRdDecay] = screen.getAllByRole('button', { name: 'Run Now' });
+    expect(runRdDecay).toBeDisabled();
+    fireEvent.click(runTimeDecay!);
+
+    await waitFor(() => {
+      expect(mockRun).toHaveBeenCalledWith('time-decay');
+    });
+    expect(mockRuns).not.toHaveBeenCalled();
+  });
+
+  it('shows the run history of a selected task', async () => {
+    mockRuns.mockResolvedValue({
+      data: [
+        {
+          id: 'run-1',
+          status: 'SUCCEEDED',
+          runBy: 'api-1',
+          result: { message: 'Done' },
+          startedAt: '2026-01-14T03:00:00Z',
+          completedAt: '2026-01-14T03:00:05Z',
+        },
+      ],
+      pagination: { page: 1, limit: 20, total: 1, totalPages: 1 },
+    });
+
+    render(<AdminScheduledTasksPage />);
+
+    await waitFor(() => {
+      expect(screen.getByText('time-decay')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('time-decay'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Run History: time-decay')).toBeInTheDocument();
+    });
+    expect(mockRuns).toHaveBeenCalledWith('time-decay', { page: 1, limit: 20 });
+    expect(screen.getByText('Done')).toBeInTheDocument();
+  });
+});
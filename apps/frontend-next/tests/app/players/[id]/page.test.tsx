@@ -30,13 +30,18 @@ vi.mock('@/lib/api-client', () => ({
 
 function createMockPlayerStats(overrides: Partial<PlayerStats> = {}): PlayerStats {
   return {
-    totalEvents: 10,
+    player: { id: 'player-1', rating: 1500, ranking: 1, isRated: true },
+    referenceDate: '2024-01-15T00:00:00.000Z',
+    events: [],
+    top15Events: [],
     totalPoints: 500,
+    efficiency: 75,
+    totalEvents: 10,
     totalDecayedPoints: 450,
     averagePoints: 50,
     averagePosition: 5,
     averageFinish: 5,
-    averageEfficiency: 0.75,
+    averageEfficiency: 75,
     firstPlaceFinishes: 2,
     topThreeFinishes: 5,
     bestFinish: 1,
@@ -49,6 +54,7 @@ function createMockPlayerResult(overrides: Partial<PlayerResult> = {}): PlayerRe
   return {
     id: 'result-1',
     position: 1,
+    positionEnd: null,
     optedOut: false,
     linearPoints: 10,
     dynamicPoints: 40,
@@ -245,7 +251,7 @@ describe('PlayerProfilePage', () => {
       firstPlaceFinishes: 7,
       topThreeFinishes: 15,
       bestFinish: 1,
-      averageEfficiency: 0.85,
+      averageEfficiency: 85,
     });
 
     mockPlayersGet.mockResolvedValue(player);
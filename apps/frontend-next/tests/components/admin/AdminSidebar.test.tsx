@@ -52,6 +52,42 @@ describe('AdminSidebar', () => {
     expect(screen.getByRole('link', { name: 'Users' })).toHaveAttribute('href', '/admin/users');
   });
 
+  it('has correct href for Ranking Config link', () => {
+    render(<AdminSidebar />);
+
+    expect(screen.getByRole('link', { name: 'Ranking Config' })).toHaveAttribute(
+      'href',
+      '/admin/ranking-config'
+    );
+  });
+
+  it('has correct href for Player Reviews link', () => {
+    render(<AdminSidebar />);
+
+    expect(screen.getByRole('link', { name: 'Player Reviews' })).toHaveAttribute(
+      'href',
+      '/admin/player-reviews'
+    );
+  });
+
+  it('has correct href for Scheduled Tasks link', () => {
+    render(<AdminSidebar />);
+
+    expect(screen.getByRole('link', { name: 'Scheduled Tasks' })).toHaveAttribute(
+      'href',
+      '/admin/scheduled-tasks'
+    );
+  });
+
+  it('has correct href for Audit Log link', () => {
+    render(<AdminSidebar />);
+
+    expect(screen.getByRole('link', { name: 'Audit Log' })).toHaveAttribute(
+      'href',
+      '/admin/audit-log'
+    );
+  });
+
   it('highlights Tournaments when on /admin/tournaments', () => {
     mockPathname = '/admin/tournaments';
     render(<AdminSidebar />);
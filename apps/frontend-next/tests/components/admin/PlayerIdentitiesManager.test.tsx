@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PlayerIdentitiesManager } from '@/components/admin/PlayerIdentitiesManager';
+import type { PlayerIdentity } from '@opprs/rest-api-client';
+
+const mockAddIdentity = vi.fn();
+const mockUpdateIdentity = vi.fn();
+const mockRemoveIdentity = vi.fn();
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: {
+    players: {
+      addIdentity: (...args: unknown[]) => mockAddIdentity(...args),
+      updateIdentity: (...args: unknown[]) => mockUpdateIdentity(...args),
+      removeIdentity: (...args: unknown[]) => mockRemoveIdentity(...args),
+    },
+  },
+}));
+
+const createIdentity = (overrides: Partial<PlayerIdentity> = {}): PlayerIdentity => ({
+  id: 'identity-1',
+  source: 'matchplay',
+  externalId: '123',
+  status: 'UNVERIFIED',
+  playerId: 'player-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('PlayerIdentitiesManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the external IDs with their status', () => {
+    render(
+      <PlayerIdentitiesManager
+        playerId="player-1"
+        identities={[
+          createIdentity(),
+          createIdentity({
+            id: 'identity-2',
+            source: 'ifpa',
+            externalId: '4567',
+            status: 'VERIFIED',
+          }),
+        ]}
+      />
+    );
+
+    expect(screen.getByText('matchplay')).toBeInTheDocument();
+    expect(screen.getByText('Unverified', { selector: 'span' })).toBeInTheDocument();
+    expect(screen.getByText('ifpa')).toBeInTheDocument();
+    expect(screen.getByText('Verified', { selector: 'span' })).toBeInTheDocument();
+  });
+
+  it('shows a message without external IDs', () => {
+    render(<PlayerIdentitiesManager playerId="player-1" identities={[]} />);
+
+    expect(screen.getByText('No external IDs')).toBeInTheDocument();
+  });
+
+  it('verifies an external ID', async () => {
+    mockUpdateIdentity.mockResolvedValue(createIdentity({ status: 'VERIFIED' }));
+
+    render(<PlayerIdentitiesManager playerId="player-1" identities={[createIdentity()]} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Unverify' })).toBeInTheDocument();
+    });
+    expect(mockUpdateIdentity).toHaveBeenCalledWith('player-1', 'identity-1', {
+      status: 'VERIFIED',
+    });
+  });
+
+  it('removes an external ID', async () => {
+    mockRemoveIdentity.mockResolvedValue(undefined);
+
+    render(<PlayerIdentitiesManager playerId="player-1" identities={[createIdentity()]} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('No external IDs')).toBeInTheDocument();
+    });
+    expect(mockRemoveIdentity).toHaveBeenCalledWith('player-1', 'identity-1');
+  });
+
+  it('adds an external ID', async () => {
+    mockAddIdentity.mockResolvedValue(
+      createIdentity({ id: 'identity-2', source: 'ifpa', externalId: '4567', status: 'VERIFIED' })
+    );
+
+    render(<PlayerIdentitiesManager playerId="player-1" identities={[]} />);
+    fireEvent.change(screen.getByLabelText('Source'), { target: { value: 'ifpa' } });
+    fireEvent.change(screen.getByLabelText('ID'), { target: { value: ' 4567 ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('ifpa')).toBeInTheDocument();
+    });
+    expect(mockAddIdentity).toHaveBeenCalledWith('player-1', {
+      source: 'ifpa',
+      externalId: '4567',
+      status: 'VERIFIED',
+    });
+  });
+
+  it('shows the error when an external ID is refused', async () => {
+    mockAddIdentity.mockRejectedValue(new Error('ifpa ID 4567 already belongs to player p2'));
+
+    render(<PlayerIdentitiesManager playerId="player-1" identities={[]} />);
+    fireEvent.change(screen.getByLabelText('Source'), { target: { value: 'ifpa' } });
+    fireEvent.change(screen.getByLabelText('ID'), { target: { value: '4567' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('ifpa ID 4567 already belongs to player p2')).toBeInTheDocument();
+    });
+  });
+});
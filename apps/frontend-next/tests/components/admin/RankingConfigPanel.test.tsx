@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RankingConfigPanel } from '@/components/admin/RankingConfigPanel';
+
+describe('RankingConfigPanel', () => {
+  it('shows default values when nothing is overridden', () => {
+    render(<RankingConfigPanel overrides={{}} onChange={vi.fn()} />);
+
+    expect(screen.getByLabelText('Max Base Value')).toHaveValue(32);
+    expect(screen.queryByText('Modified')).not.toBeInTheDocument();
+  });
+
+  it('shows overridden values with a Modified badge', () => {
+    render(
+      <RankingConfigPanel overrides={{ BASE_VALUE: { MAX_BASE_VALUE: 40 } }} onChange={vi.fn()} />
+    );
+
+    expect(screen.getByLabelText(/Max Base Value/)).toHaveValue(40);
+    expect(screen.getByText('Modified')).toBeInTheDocument();
+  });
+
+  it('reports changed overrides with derived values', () => {
+    const onChange = vi.fn();
+    render(<RankingConfigPanel overrides={{}} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Max Base Value'), { target: { value: '40' } });
+
+    expect(onChange).toHaveBeenCalledWith({
+      BASE_VALUE: { MAX_BASE_VALUE: 40, MAX_PLAYER_COUNT: 80 },
+    });
+  });
+
+  it('ignores empty input', () => {
+    const onChange = vi.fn();
+    render(<RankingConfigPanel overrides={{}} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Max Base Value'), { target: { value: '' } });
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('disables inputs when read only', () => {
+    render(<RankingConfigPanel overrides={{}} onChange={vi.fn()} readOnly />);
+
+    expect(screen.getByLabelText('Max Base Value')).toBeDisabled();
+  });
+
+  it('shows computed values', () => {
+    render(<RankingConfigPanel overrides={{}} onChange={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Computed Values'));
+
+    expect(screen.getByText('Max Player Count')).toBeInTheDocument();
+    expect(screen.getByText('64')).toBeInTheDocument();
+  });
+});
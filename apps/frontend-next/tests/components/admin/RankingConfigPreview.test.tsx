@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { RankingConfigPreview } from '@/components/admin/RankingConfigPreview';
+import type { RankingConfigPreview as Preview } from '@opprs/rest-api-client';
+
+function createPreview(overrides: Partial<Preview> = {}): Preview {
+  return {
+    configId: 'config-1',
+    version: '2026.1',
+    scope: 'full-recalculation',
+    tournamentsEvaluated: 3,
+    tournaments: [
+      {
+        tournamentId: 'tournament-1',
+        name: 'Spring Classic',
+        date: '2026-03-01T00:00:00.000Z',
+        currentValue: 20,
+        proposedValue: 25.5,
+        change: 5.5,
+      },
+    ],
+    leaderboard: [
+      {
+        playerId: 'player-1',
+        name: 'Alice',
+        currentRanking: 2,
+        proposedRanking: 1,
+        currentPoints: 40,
+        proposedPoints: 55,
+      },
+      {
+        playerId: 'player-2',
+        name: 'Bob',
+        currentRanking: 1,
+        proposedRanking: 2,
+        currentPoints: 50,
+        proposedPoints: 52,
+      },
+      {
+        playerId: 'player-3',
+        name: null,
+        currentRanking: 3,
+        proposedRanking: 3,
+        currentPoints: 10,
+        proposedPoints: 12,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('RankingConfigPreview', () => {
+  it('labels the preview as a full recalculation', () => {
+    render(<RankingConfigPreview preview={createPreview()} />);
+
+    expect(screen.getByText(/Full recalculation preview/)).toBeInTheDocument();
+  });
+
+  it('summarizes leaderboard movement', () => {
+    render(<RankingConfigPreview preview={createPreview()} />);
+
+    expect(screen.getByText('2 of 3 players change position')).toBeInTheDocument();
+    expect(screen.getByText('▲ 1')).toBeInTheDocument();
+    expect(screen.getByText('▼ 1')).toBeInTheDocument();
+  });
+
+  it('falls back for players without a name', () => {
+    render(<RankingConfigPreview preview={createPreview()} />);
+
+    expect(screen.getByText('Unknown Player')).toBeInTheDocument();
+  });
+
+  it('lists changed tournament values', () => {
+    render(<RankingConfigPreview preview={createPreview()} />);
+
+    expect(screen.getByText('1 of 3 tournaments change value')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Spring Classic' })).toHaveAttribute(
+      'href',
+      '/admin/tournaments/tournament-1'
+    );
+    expect(screen.getByText('+5.50')).toBeInTheDocument();
+  });
+
+  it('omits the tournament table when no values change', () => {
+    render(<RankingConfigPreview preview={createPreview({ tournaments: [] })} />);
+
+    expect(screen.getByText('0 of 3 tournaments change value')).toBeInTheDocument();
+    expect(screen.queryByText('Spring Classic')).not.toBeInTheDocument();
+  });
+});
@@ -196,4 +196,12 @@ describe('TGPConfigForm', () => {
     const checkboxes = screen.getAllByText('3-Player Groups (1.5x)');
     expect(checkboxes.length).toBeGreaterThanOrEqual(1);
   });
+
+  it('hides the qualifying format and event booster without them', () => {
+    render(<TGPConfigForm tgpConfig={defaultTGPConfig} onTGPConfigChange={vi.fn()} />);
+
+    expect(screen.queryByLabelText('Format Type', { selector: '#qualifyingFormat' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Event Booster')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Format Type', { selector: '#finalsFormatType' })).toBeInTheDocument();
+  });
 });
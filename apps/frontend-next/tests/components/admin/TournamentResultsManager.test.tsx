@@ -33,6 +33,7 @@ describe('TournamentResultsManager', () => {
     {
       id: 'result-1',
       position: 1,
+      positionEnd: null,
       optedOut: false,
       linearPoints: null,
       dynamicPoints: null,
@@ -46,6 +47,7 @@ describe('TournamentResultsManager', () => {
     {
       id: 'result-2',
       position: 2,
+      positionEnd: null,
       optedOut: true,
       linearPoints: null,
       dynamicPoints: null,
@@ -38,6 +38,7 @@ describe('TournamentValueDisplay', () => {
 
     // Should cap at 32.00, not 50.00
     expect(screen.getByText('32.00')).toBeInTheDocument();
+    expect(screen.getByText(/Capped at 32.00/)).toBeInTheDocument();
   });
 
   it('displays player count', () => {
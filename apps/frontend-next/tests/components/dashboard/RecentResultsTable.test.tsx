@@ -8,6 +8,7 @@ describe('RecentResultsTable', () => {
     {
       id: '1',
       position: 1,
+      positionEnd: null,
       optedOut: false,
       linearPoints: 10,
       dynamicPoints: 90,
@@ -28,6 +29,7 @@ describe('RecentResultsTable', () => {
     {
       id: '2',
       position: 3,
+      positionEnd: null,
       optedOut: false,
       linearPoints: 5,
       dynamicPoints: 45,
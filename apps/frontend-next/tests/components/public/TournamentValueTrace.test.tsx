@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { TournamentValueTrace } from '@/components/public/TournamentValueTrace';
+import type { TournamentTrace } from '@opprs/rest-api-client';
+
+const createTrace = (overrides: Partial<TournamentTrace> = {}): TournamentTrace => {
+  const value = {
+    baseValue: 1.5,
+    tvaRating: 0.39,
+    tvaRanking: 1.46,
+    totalTVA: 1.85,
+    tgp: 1.24,
+    eventBoosterMultiplier: 1,
+    firstPlaceValue: 4.154,
+  };
+
+  return {
+    tournamentId: 't1',
+    rulesetVersion: 'default',
+    value,
+    stored: value,
+    trace: {
+      baseValue: {
+        value: 1.5,
+        steps: [
+          { description: '3 of 4 players are rated × 0.5 points per rated player', value: 1.5 },
+        ],
+        capped: false,
+      },
+      tvaRating: {
+        value: 0.39,
+        steps: [{ description: '1 players rated above 1285.71 contributed', value: 0.39 }],
+        capped: false,
+        contributions: [
+          { playerId: 'p1', input: 2000, contribution: 0.39 },
+          { playerId: 'p2', input: 1200, contribution: 0 },
+        ],
+      },
+      tvaRanking: {
+        value: 1.46,
+        steps: [{ description: '1 ranked players contributed', value: 1.46 }],
+        capped: false,
+        contributions: [{ playerId: 'p1', input: 1, contribution: 1.46 }],
+      },
+      tgp: {
+        value: 1,
+        steps: [{ description: 'Total, capped at maximum TGP of 1', value: 1 }],
+        capped: true,
+        qualifying: {
+          value: 0,
+          steps: [{ description: 'No qualifying', value: 0 }],
+          capped: false,
+          meaningfulGames: 0,
+          gameValue: 0,
+          multipliers: [],
+        },
+        finals: {
+          value: 1.6,
+          steps: [{ description: '20 meaningful games × 0.08 per game', value: 1.6 }],
+          capped: false,
+          meaningfulGames: 20,
+          gameValue: 0.08,
+          multipliers: [{ name: '4-player groups', factor: 2 }],
+        },
+      },
+      eventBooster: {
+        value: 1,
+        steps: [{ description: 'Event booster: none', value: 1 }],
+        capped: false,
+      },
+      firstPlaceValue: {
+        value: 4.154,
+        steps: [{ description: '× event booster (1)', value: 4.154 }],
+        capped: false,
+      },
+      pointDistribution: {
+        activePlayerCount: 4,
+        ratedPlayerCount: 3,
+        optedOutCount: 0,
+        dynamicPositions: 2,
+        tiedPositionCount: 0,
+        steps: [{ description: '4 players receive points (0 opted out)', value: 4 }],
+      },
+    },
+    ...overrides,
+  };
+};
+
+const playerNames = { p1: 'Alice Wizard', p2: 'Bob Flipper' };
+
+describe('TournamentValueTrace', () => {
+  it('renders each calculation term with its steps', () => {
+    render(<TournamentValueTrace trace={createTrace()} playerNames={playerNames} />);
+
+    expect(screen.getByText('Base Value')).toBeInTheDocument();
+    expect(
+      screen.getByText('3 of 4 players are rated × 0.5 points per rated player')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Event booster: none')).toBeInTheDocument();
+    expect(screen.getByText('4 players receive points (0 opted out)')).toBeInTheDocument();
+  });
+
+  it('lists only players who contributed to TVA', () => {
+    render(<TournamentValueTrace trace={createTrace()} playerNames={playerNames} />);
+
+    expect(screen.getAllByText('Alice Wizard')).toHaveLength(2);
+    expect(screen.queryByText('Bob Flipper')).not.toBeInTheDocument();
+  });
+
+  it('shows applied TGP multipliers and caps', () => {
+    render(<TournamentValueTrace trace={createTrace()} playerNames={playerNames} />);
+
+    expect(screen.getByText(/4-player groups ×2/)).toBeInTheDocument();
+    expect(screen.getByText('Capped')).toBeInTheDocument();
+  });
+
+  it('shows the ruleset version used for the calculation', () => {
+    render(
+      <TournamentValueTrace
+        trace={createTrace({ rulesetVersion: '2026.1' })}
+        playerNames={playerNames}
+      />
+    );
+
+    expect(screen.getByText('Ruleset: 2026.1')).toBeInTheDocument();
+  });
+
+  it('notes when the stored value differs from the recalculated value', () => {
+    const trace = createTrace();
+    render(
+      <TournamentValueTrace
+        trace={{ ...trace, stored: { ...trace.stored, firstPlaceValue: 5 } }}
+        playerNames={playerNames}
+      />
+    );
+
+    expect(screen.getByText(/stored value of 5.00 pts/)).toBeInTheDocument();
+  });
+
+  it('does not show a drift note when values match', () => {
+    render(<TournamentValueTrace trace={createTrace()} playerNames={playerNames} />);
+
+    expect(screen.queryByText(/stored value of/)).not.toBeInTheDocument();
+  });
+});
@@ -25,6 +25,7 @@ export function createMockApiClient() {
       delete: vi.fn(),
       recent: vi.fn(),
       getResults: vi.fn(),
+      getTrace: vi.fn(),
     },
     results: {
       create: vi.fn(),
@@ -40,6 +40,7 @@ export function createMockTournament(overrides: Partial<Tournament> = {}): Tourn
     tvaRanking: 15,
     totalTVA: 25,
     eventBoosterMultiplier: 1.0,
+    rulesetVersion: 'default',
     createdAt: '2024-01-15T00:00:00.000Z',
     updatedAt: '2024-01-15T00:00:00.000Z',
     ...overrides,
@@ -52,6 +53,7 @@ export function createMockTournamentResult(
   return {
     id: 'result-1',
     position: 1,
+    positionEnd: null,
     optedOut: false,
     linearPoints: null,
     dynamicPoints: null,
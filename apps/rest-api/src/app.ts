@@ -5,6 +5,9 @@ import swaggerPlugin from './plugins/swagger.js';
 import databasePlugin from './plugins/database.js';
 import authPlugin from './plugins/auth.js';
 import adminPlugin from './plugins/admin.js';
+import jobsPlugin from './plugins/jobs.js';
+import schedulerPlugin from './plugins/scheduler.js';
+import auditPlugin from './plugins/audit.js';
 import errorHandlerPlugin from './middleware/error-handler.js';
 import { registerRoutes } from './routes/index.js';
 
@@ -39,10 +42,17 @@ export async function buildApp(options: AppOptions = {}): Promise<FastifyInstanc
   // 4. Admin authorization (depends on auth)
   await app.register(adminPlugin);
 
-  // 5. Error handling
+  // 5. Background jobs and scheduled tasks (both need the database)
+  await app.register(jobsPlugin, { startWorker: !skipDatabase });
+  await app.register(schedulerPlugin, { startScheduler: !skipDatabase });
+
+  // 6. Audit log of writes (depends on auth, needs the database)
+  await app.register(auditPlugin, { recordWrites: !skipDatabase });
+
+  // 7. Error handling
   await app.register(errorHandlerPlugin);
 
-  // 6. Routes
+  // 8. Routes
   await registerRoutes(app);
 
   return app;
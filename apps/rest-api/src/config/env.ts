@@ -9,10 +9,28 @@ export interface EnvConfig {
   nodeEnv: string;
   matchplayApiToken?: string;
   cookieSecret: string;
+  /** Key that secrets stored with queued jobs are encrypted with */
+  secretEncryptionKey: string;
   cookieDomain?: string;
   secureCookies: boolean;
   /** When true, allows any email/password for login (dev/test only) */
   authDevMode: boolean;
+  /** When false, queued jobs are left for another process to run */
+  jobWorkerEnabled: boolean;
+  /** How often the job worker checks for due jobs when idle */
+  jobPollIntervalMs: number;
+  /** When true, this process runs the scheduled maintenance tasks */
+  schedulerEnabled: boolean;
+  /** Cron expression (UTC) of each scheduled task, or `off` to disable it */
+  schedules: {
+    timeDecay: string;
+    rdDecay: string;
+    rankingRefresh: string;
+  };
+  /** Score from which an imported player is taken to be an existing player */
+  identityMatchThreshold: number;
+  /** Score from which a possible existing player is queued for admin review */
+  identityReviewThreshold: number;
 }
 
 function getEnvVar(name: string, defaultValue?: string): string {
@@ -23,6 +41,20 @@ function getEnvVar(name: string, defaultValue?: string): string {
   return value;
 }
 
+/**
+ * Reads a secret that has a development default but must be set in production
+ */
+function getProductionSecret(name: string, nodeEnv: string, developmentDefault: string): string {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+  if (nodeEnv === 'production') {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return developmentDefault;
+}
+
 export function loadEnvConfig(): EnvConfig {
   const nodeEnv = getEnvVar('NODE_ENV', 'development');
   return {
@@ -39,9 +71,24 @@ export function loadEnvConfig(): EnvConfig {
     nodeEnv,
     matchplayApiToken: process.env.MATCHPLAY_API_TOKEN,
     cookieSecret: getEnvVar('COOKIE_SECRET', 'development-cookie-secret-change-in-production'),
+    secretEncryptionKey: getProductionSecret(
+      'SECRET_ENCRYPTION_KEY',
+      nodeEnv,
+      'development-encryption-key-change-in-production'
+    ),
     cookieDomain: process.env.COOKIE_DOMAIN,
     secureCookies: nodeEnv === 'production',
     authDevMode: nodeEnv !== 'production' && process.env.AUTH_DEV_MODE !== 'false',
+    jobWorkerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+    jobPollIntervalMs: parseInt(getEnvVar('JOB_POLL_INTERVAL_MS', '5000'), 10),
+    schedulerEnabled: process.env.SCHEDULER_ENABLED === 'true',
+    schedules: {
+      timeDecay: getEnvVar('SCHEDULE_TIME_DECAY', '0 3 * * *'),
+      rdDecay: getEnvVar('SCHEDULE_RD_DECAY', '0 4 * * 1'),
+      rankingRefresh: getEnvVar('SCHEDULE_RANKING_REFRESH', '30 3 * * *'),
+    },
+    identityMatchThreshold: parseFloat(getEnvVar('IDENTITY_MATCH_THRESHOLD', '0.7')),
+    identityReviewThreshold: parseFloat(getEnvVar('IDENTITY_REVIEW_THRESHOLD', '0.4')),
   };
 }
 
@@ -0,0 +1,11 @@
+import { createRulesetRegistry, DEFAULT_RULESET } from '@opprs/core';
+
+/**
+ * Rulesets used to evaluate tournaments, selected by tournament date.
+ *
+ * When ranking rules change, close the current ruleset with `effectiveTo`
+ * and add the new one so older events keep their original rules.
+ * An active ranking configuration in the database takes precedence over
+ * these rulesets (see services/ranking-config.ts).
+ */
+export const rulesetRegistry = createRulesetRegistry([DEFAULT_RULESET]);
@@ -25,6 +25,14 @@ export const swaggerConfig: FastifyDynamicSwaggerOptions = {
       { name: 'Tournaments', description: 'Tournament management' },
       { name: 'Results', description: 'Tournament result management' },
       { name: 'Stats', description: 'Statistics and leaderboards' },
+      { name: 'Ranking Configs', description: 'Admin-editable ranking configuration' },
+      { name: 'Jobs', description: 'Background job progress, cancellation and retry' },
+      { name: 'Scheduled Tasks', description: 'Scheduled maintenance tasks and their run history' },
+      {
+        name: 'Player Match Reviews',
+        description: 'Imported players who may be existing players, awaiting an admin decision',
+      },
+      { name: 'Audit Logs', description: 'Record of writes made through the API' },
     ],
   },
 };
@@ -0,0 +1,88 @@
+import fp from 'fastify-plugin';
+import type { FastifyInstance } from 'fastify';
+import { createAuditLog } from '@opprs/db-prisma';
+import {
+  AUDITED_METHODS,
+  diffAuditSnapshots,
+  getAuditTarget,
+  getCreatedEntityId,
+  loadAuditSnapshot,
+} from '../services/audit-log.js';
+import type { AuditSnapshot, AuditTarget } from '../services/audit-log.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Write being audited, with the entity as it was before the handler ran */
+    audit: (AuditTarget & { before: AuditSnapshot | null }) | null;
+  }
+}
+
+export interface AuditPluginOptions {
+  /** Whether writes are recorded (needs a database connection) */
+  recordWrites: boolean;
+}
+
+/**
+ * Records every successful write under /api/v1 made by an authenticated user
+ * or API key, with the entity before and after the write.
+ */
+export default fp<AuditPluginOptions>(
+  async (fastify: FastifyInstance, options) => {
+    fastify.decorateRequest('audit', null);
+
+    if (!options.recordWrites) {
+      return;
+    }
+
+    fastify.addHook('preHandler', async (request) => {
+      if (!AUDITED_METHODS.has(request.method)) {
+        return;
+      }
+      const target = getAuditTarget(request.routeOptions.url ?? '', request.params);
+      if (!target) {
+        return;
+      }
+      const before = target.entityId
+        ? await loadAuditSnapshot(target.entityType, target.entityId)
+        : null;
+      request.audit = { ...target, before };
+    });
+
+    // Recorded before the response is sent, so a client seeing the response
+    // also sees the entry
+    fastify.addHook('onSend', async (request, reply, payload) => {
+      const { audit, user } = request;
+      // Failed and unauthenticated requests change nothing
+      if (!audit || !user || reply.statusCode >= 400) {
+        return payload;
+      }
+
+      try {
+        if (audit.createsEntity && reply.statusCode === 201 && typeof payload === 'string') {
+          audit.entityId = getCreatedEntityId(payload);
+        }
+        const after = audit.entityId
+          ? await loadAuditSnapshot(audit.entityType, audit.entityId)
+          : null;
+        await createAuditLog({
+          userId: user.sub,
+          userEmail: user.email,
+          apiKeyId: user.apiKeyId,
+          method: request.method,
+          route: request.routeOptions.url ?? request.url,
+          url: request.url,
+          statusCode: reply.statusCode,
+          entityType: audit.entityType,
+          entityId: audit.entityId,
+          before: audit.before ?? undefined,
+          after: after ?? undefined,
+          changes: audit.before || after ? diffAuditSnapshots(audit.before, after) : undefined,
+        });
+      } catch (err) {
+        request.log.error({ err }, 'Failed to record audit log');
+      }
+      return payload;
+    });
+  },
+  { name: 'audit', dependencies: ['auth'] }
+);
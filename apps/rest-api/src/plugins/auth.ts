@@ -22,6 +22,8 @@ declare module '@fastify/jwt' {
       sub: string;
       email: string;
       role: 'user' | 'admin';
+      /** API key the request was authenticated with */
+      apiKeyId?: string;
     };
   }
 }
@@ -128,6 +130,7 @@ export default fp(
             sub: keyRecord.user.id,
             email: keyRecord.user.email,
             role: keyRecord.user.role.toLowerCase() as 'user' | 'admin',
+            apiKeyId: keyRecord.id,
           };
           return true;
         }
@@ -0,0 +1,66 @@
+import fp from 'fastify-plugin';
+import type { FastifyInstance } from 'fastify';
+import { createJob } from '@opprs/db-prisma';
+import type { Job, Prisma } from '@opprs/db-prisma';
+import { env } from '../config/env.js';
+import { createJobWorker } from '../services/job-worker.js';
+import type { JobPayloads, JobType } from '../services/jobs.js';
+import { encryptSecret } from '../utils/secrets.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    jobs: {
+      /**
+       * Queues a job and wakes the worker of this process. A secret the job
+       * needs is stored encrypted, apart from its payload.
+       */
+      enqueue: <T extends JobType>(
+        type: T,
+        payload: JobPayloads[T],
+        createdById?: string,
+        secret?: string
+      ) => Promise<Job>;
+      /** Has the worker of this process check for due jobs now */
+      wake: () => void;
+    };
+  }
+}
+
+export interface JobsPluginOptions {
+  /** Whether this process runs queued jobs (needs a database connection) */
+  startWorker: boolean;
+}
+
+export default fp<JobsPluginOptions>(
+  async (fastify: FastifyInstance, options) => {
+    const worker =
+      options.startWorker && env.jobWorkerEnabled
+        ? createJobWorker({ pollIntervalMs: env.jobPollIntervalMs, logger: fastify.log })
+        : null;
+
+    fastify.decorate('jobs', {
+      enqueue: async (type, payload, createdById, secret) => {
+        const job = await createJob({
+          type,
+          payload: payload as unknown as Prisma.InputJsonValue,
+          secret: secret ? encryptSecret(secret) : undefined,
+          createdById,
+        });
+        worker?.wake();
+        return job;
+      },
+      wake: () => worker?.wake(),
+    });
+
+    if (worker) {
+      fastify.addHook('onReady', async () => {
+        worker.start();
+      });
+      // Before onClose, so the running job finishes before the database disconnects
+      fastify.addHook('preClose', async () => {
+        await worker.stop();
+      });
+    }
+  },
+  { name: 'jobs' }
+);
@@ -0,0 +1,51 @@
+import fp from 'fastify-plugin';
+import type { FastifyInstance } from 'fastify';
+import { env } from '../config/env.js';
+import { createScheduler } from '../services/scheduler.js';
+import { getScheduledTaskDefinitions } from '../services/scheduled-tasks.js';
+import type { ScheduledTaskDefinition } from '../services/scheduled-tasks.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    scheduler: {
+      /** Whether scheduled tasks are run (SCHEDULER_ENABLED) */
+      enabled: boolean;
+      tasks: ScheduledTaskDefinition[];
+      /** Has the scheduler of this process check for due tasks now */
+      wake: () => void;
+    };
+  }
+}
+
+export interface SchedulerPluginOptions {
+  /** Whether this process runs scheduled tasks (needs a database connection) */
+  startScheduler: boolean;
+}
+
+export default fp<SchedulerPluginOptions>(
+  async (fastify: FastifyInstance, options) => {
+    // Invalid schedules fail at startup rather than at the first run
+    const tasks = getScheduledTaskDefinitions();
+    const scheduler =
+      options.startScheduler && env.schedulerEnabled
+        ? createScheduler({ tasks, logger: fastify.log })
+        : null;
+
+    fastify.decorate('scheduler', {
+      enabled: env.schedulerEnabled,
+      tasks,
+      wake: () => scheduler?.wake(),
+    });
+
+    if (scheduler) {
+      fastify.addHook('onReady', async () => {
+        scheduler.start();
+      });
+      // Before onClose, so the running task finishes before the database disconnects
+      fastify.addHook('preClose', async () => {
+        await scheduler.stop();
+      });
+    }
+  },
+  { name: 'scheduler' }
+);
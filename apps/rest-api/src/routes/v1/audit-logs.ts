@@ -0,0 +1,99 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { findAuditLogById, findAuditLogs, countAuditLogs } from '@opprs/db-prisma';
+import type { Prisma } from '@opprs/db-prisma';
+import { auditLogSchema, auditLogListQuerySchema } from '../../schemas/audit-log.js';
+import {
+  idParamSchema,
+  errorResponseSchema,
+  paginatedResponseSchema,
+} from '../../schemas/common.js';
+import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+interface AuditLogListQuery {
+  page?: number;
+  limit?: number;
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  apiKeyId?: string;
+  method?: string;
+  from?: string;
+  to?: string;
+}
+
+interface IdParams {
+  id: string;
+}
+
+export const auditLogRoutes: FastifyPluginAsync = async (app) => {
+  // List audit logs (admin only)
+  app.get<{ Querystring: AuditLogListQuery }>(
+    '/',
+    {
+      schema: {
+        tags: ['Audit Logs'],
+        summary: 'List audit logs (admin only)',
+        description:
+          'Lists the writes made through the API, newest first, with who made them and what changed.',
+        security: [{ bearerAuth: [] }],
+        querystring: auditLogListQuerySchema,
+        response: {
+          200: paginatedResponseSchema(auditLogSchema),
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { entityType, entityId, userId, apiKeyId, method, from, to } = request.query;
+      const { skip, take, page, limit } = parsePaginationParams(request.query);
+      const where: Prisma.AuditLogWhereInput = {
+        entityType,
+        entityId,
+        userId,
+        apiKeyId,
+        method,
+        createdAt:
+          from || to
+            ? { gte: from ? new Date(from) : undefined, lt: to ? new Date(to) : undefined }
+            : undefined,
+      };
+
+      const [auditLogs, total] = await Promise.all([
+        findAuditLogs({ take, skip, where }),
+        countAuditLogs(where),
+      ]);
+
+      return reply.send(buildPaginatedResponse(auditLogs, page, limit, total));
+    }
+  );
+
+  // Get audit log by ID (admin only)
+  app.get<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Audit Logs'],
+        summary: 'Get an audit log (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: auditLogSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const auditLog = await findAuditLogById(request.params.id);
+      if (!auditLog) {
+        throw new NotFoundError('Audit log', request.params.id);
+      }
+      return reply.send(auditLog);
+    }
+  );
+};
@@ -1,13 +1,26 @@
 import type { FastifyPluginAsync } from 'fastify';
 import type { EventBoosterType } from '@opprs/db-prisma';
-import { importTournament } from '../../services/matchplay-import.js';
+import type { ResultsCSVColumnMapping, TGPConfig } from '@opprs/core';
 import {
+  previewTournamentTGP,
+  validateFinalsIds,
+  validateImportTGPConfig,
+} from '../../services/matchplay-import.js';
+import { validateBulkImportOptions } from '../../services/matchplay-bulk-import.js';
+import { importResultsCSV } from '../../services/csv-import.js';
+import type { CsvImportTournament } from '../../services/csv-import.js';
+import {
+  bulkImportMatchplayBodySchema,
+  csvImportBodySchema,
+  csvImportResponseSchema,
   importMatchplayTournamentBodySchema,
   importMatchplayTournamentParamsSchema,
-  importTournamentResponseSchema,
+  previewMatchplayTGPBodySchema,
+  tgpPreviewResponseSchema,
   externalServiceErrorSchema,
 } from '../../schemas/import.js';
 import { errorResponseSchema } from '../../schemas/common.js';
+import { jobSchema } from '../../schemas/job.js';
 import { BadRequestError } from '../../utils/errors.js';
 
 interface ImportMatchplayTournamentParams {
@@ -17,9 +30,74 @@ interface ImportMatchplayTournamentParams {
 interface ImportMatchplayTournamentBody {
   eventBooster?: EventBoosterType;
   apiToken?: string;
+  finalsIds?: number[];
+  tgpConfig?: TGPConfig;
+}
+
+type PreviewMatchplayTGPBody = Pick<ImportMatchplayTournamentBody, 'apiToken' | 'finalsIds'>;
+
+interface BulkImportMatchplayBody {
+  organizerId?: number;
+  seriesId?: number;
+  tournamentIds?: number[];
+  from?: string;
+  to?: string;
+  eventBooster?: EventBoosterType;
+  apiToken?: string;
+}
+
+interface CsvImportBody {
+  csv: string;
+  dryRun?: boolean;
+  delimiter?: ',' | '\t' | ';';
+  hasHeader?: boolean;
+  columns?: ResultsCSVColumnMapping;
+  tournament: Omit<CsvImportTournament, 'date'> & { date: string };
+}
+
+function parseMatchplayId(id: string): number {
+  const matchplayId = parseInt(id, 10);
+  if (isNaN(matchplayId) || matchplayId <= 0) {
+    throw new BadRequestError('Invalid Matchplay tournament ID');
+  }
+  return matchplayId;
 }
 
 export const importRoutes: FastifyPluginAsync = async (app) => {
+  // Preview the TGP configuration derived from Matchplay rounds and games
+  app.post<{
+    Params: ImportMatchplayTournamentParams;
+    Body: PreviewMatchplayTGPBody;
+  }>(
+    '/matchplay/tournament/:id/tgp',
+    {
+      schema: {
+        tags: ['Import'],
+        summary: 'Preview the TGP of a Matchplay tournament',
+        description:
+          'Derives the TGP configuration an import would use from the rounds and games of the tournament and its finals stages, with a report of which values were measured and which were inferred. Pass the (edited) configuration as tgpConfig when importing to override it.',
+        security: [{ bearerAuth: [] }],
+        params: importMatchplayTournamentParamsSchema,
+        body: previewMatchplayTGPBodySchema,
+        response: {
+          200: tgpPreviewResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          502: externalServiceErrorSchema,
+        },
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const preview = await previewTournamentTGP(parseMatchplayId(request.params.id), {
+        apiToken: request.body?.apiToken,
+        finalsIds: request.body?.finalsIds,
+      });
+      return reply.send(preview);
+    }
+  );
+
   // Import tournament from Matchplay
   app.post<{
     Params: ImportMatchplayTournamentParams;
@@ -31,34 +109,118 @@ export const importRoutes: FastifyPluginAsync = async (app) => {
         tags: ['Import'],
         summary: 'Import a tournament from Matchplay',
         description:
-          'Fetches tournament data from Matchplay API, creates/updates players and tournament in the database, calculates OPPRS values, and distributes points to results.',
+          'Queues a job that fetches tournament data from Matchplay API, creates/updates players and tournament in the database, calculates OPPRS values, and distributes points to results. The ID is the qualifying stage: finals stages are imported as finals standings of the same tournament, either from finalsIds or from the tournament linked in Matchplay, and the TGP is derived from the rounds and games of both stages unless tgpConfig is given. Poll GET /jobs/:id for the import result.',
         security: [{ bearerAuth: [] }],
         params: importMatchplayTournamentParamsSchema,
         body: importMatchplayTournamentBodySchema,
         response: {
-          200: importTournamentResponseSchema,
-          201: importTournamentResponseSchema,
+          202: jobSchema,
           400: errorResponseSchema,
           401: errorResponseSchema,
-          404: errorResponseSchema,
-          502: externalServiceErrorSchema,
         },
       },
       preHandler: [app.authenticate],
     },
     async (request, reply) => {
-      const matchplayId = parseInt(request.params.id, 10);
-      if (isNaN(matchplayId) || matchplayId <= 0) {
-        throw new BadRequestError('Invalid Matchplay tournament ID');
-      }
+      const matchplayId = parseMatchplayId(request.params.id);
+      validateFinalsIds(matchplayId, request.body?.finalsIds);
+      validateImportTGPConfig(request.body?.tgpConfig);
 
-      const result = await importTournament(matchplayId, {
-        eventBoosterOverride: request.body?.eventBooster,
-        apiToken: request.body?.apiToken,
+      const job = await app.jobs.enqueue(
+        'matchplay-import',
+        {
+          matchplayId,
+          eventBooster: request.body?.eventBooster,
+          finalsIds: request.body?.finalsIds,
+          tgpConfig: request.body?.tgpConfig,
+        },
+        request.user.sub,
+        request.body?.apiToken
+      );
+      return reply.status(202).send(job);
+    }
+  );
+
+  // Import many tournaments of an organizer, a series or a list of IDs
+  app.post<{ Body: BulkImportMatchplayBody }>(
+    '/matchplay/bulk',
+    {
+      schema: {
+        tags: ['Import'],
+        summary: 'Import many tournaments from Matchplay',
+        description:
+          'Queues a job that imports the completed tournaments of a Matchplay organizer or series, optionally between two dates, or a list of tournament IDs. Give exactly one of organizerId, seriesId or tournamentIds. Tournaments already imported are skipped, and the outcome of every tournament is reported in the job result without stopping at failures.',
+        security: [{ bearerAuth: [] }],
+        body: bulkImportMatchplayBodySchema,
+        response: {
+          202: jobSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { organizerId, seriesId, tournamentIds, from, to, eventBooster, apiToken } =
+        request.body ?? {};
+      const fromDate = from ? new Date(from) : undefined;
+      // Include tournaments on the last day
+      const toDate = to ? new Date(`${to}T23:59:59.999Z`) : undefined;
+      validateBulkImportOptions({
+        organizerId,
+        seriesId,
+        tournamentIds,
+        from: fromDate,
+        to: toDate,
       });
 
-      const statusCode = result.created ? 201 : 200;
-      return reply.status(statusCode).send(result);
+      const job = await app.jobs.enqueue(
+        'matchplay-bulk-import',
+        {
+          organizerId,
+          seriesId,
+          tournamentIds,
+          from: fromDate?.toISOString(),
+          to: toDate?.toISOString(),
+          eventBooster,
+        },
+        request.user.sub,
+        apiToken
+      );
+      return reply.status(202).send(job);
+    }
+  );
+
+  // Import results entered on paper or exported from other software
+  app.post<{ Body: CsvImportBody }>(
+    '/csv',
+    {
+      schema: {
+        tags: ['Import'],
+        summary: 'Import tournament results from CSV (admin only)',
+        description:
+          'Creates a tournament with standings from CSV or TSV results. Each row is matched to a player by player number or external ID, otherwise by identity resolution from its name and email; an unknown player number fails the import. Rows resembling no player get a new player, and rows that may be an existing player, without a confident match, get a new player queued for admin review. With dryRun the matches are returned, listing unmatched and ambiguous rows, without creating anything.',
+        security: [{ bearerAuth: [] }],
+        body: csvImportBodySchema,
+        response: {
+          200: csvImportResponseSchema,
+          201: csvImportResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { csv, tournament, ...options } = request.body;
+      const result = await importResultsCSV(csv, {
+        ...options,
+        tournament: { ...tournament, date: new Date(tournament.date) },
+      });
+      return reply.status(result.dryRun ? 200 : 201).send(result);
     }
   );
 };
@@ -10,6 +10,11 @@ import { locationRoutes } from './locations.js';
 import { blogPostRoutes } from './blog-posts.js';
 import { blogTagRoutes } from './blog-tags.js';
 import { apiKeyRoutes } from './api-keys.js';
+import { rankingConfigRoutes } from './ranking-configs.js';
+import { jobRoutes } from './jobs.js';
+import { scheduledTaskRoutes } from './scheduled-tasks.js';
+import { playerMatchReviewRoutes } from './player-match-reviews.js';
+import { auditLogRoutes } from './audit-logs.js';
 
 export const v1Routes: FastifyPluginAsync = async (app) => {
   await app.register(authRoutes, { prefix: '/auth' });
@@ -23,4 +28,9 @@ export const v1Routes: FastifyPluginAsync = async (app) => {
   await app.register(blogPostRoutes, { prefix: '/blog-posts' });
   await app.register(blogTagRoutes, { prefix: '/blog-tags' });
   await app.register(apiKeyRoutes, { prefix: '/api-keys' });
+  await app.register(rankingConfigRoutes, { prefix: '/ranking-configs' });
+  await app.register(jobRoutes, { prefix: '/jobs' });
+  await app.register(scheduledTaskRoutes, { prefix: '/scheduled-tasks' });
+  await app.register(playerMatchReviewRoutes, { prefix: '/player-match-reviews' });
+  await app.register(auditLogRoutes, { prefix: '/audit-logs' });
 };
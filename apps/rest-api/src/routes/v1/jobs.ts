@@ -0,0 +1,149 @@
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { findJobById, findJobs, countJobs, cancelJob, retryJob } from '@opprs/db-prisma';
+import type { Job, JobStatus } from '@opprs/db-prisma';
+import { jobSchema, jobListQuerySchema } from '../../schemas/job.js';
+import {
+  idParamSchema,
+  errorResponseSchema,
+  paginatedResponseSchema,
+} from '../../schemas/common.js';
+import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
+import { NotFoundError, ConflictError } from '../../utils/errors.js';
+
+interface JobListQuery {
+  page?: number;
+  limit?: number;
+  status?: JobStatus;
+  type?: string;
+}
+
+interface IdParams {
+  id: string;
+}
+
+/**
+ * Finds a job the user may see: their own jobs, or any job for admins
+ */
+async function findVisibleJob(request: FastifyRequest, id: string): Promise<Job> {
+  const job = await findJobById(id);
+  if (!job || (request.user.role !== 'admin' && job.createdById !== request.user.sub)) {
+    throw new NotFoundError('Job', id);
+  }
+  return job;
+}
+
+export const jobRoutes: FastifyPluginAsync = async (app) => {
+  // List jobs (admin only)
+  app.get<{ Querystring: JobListQuery }>(
+    '/',
+    {
+      schema: {
+        tags: ['Jobs'],
+        summary: 'List background jobs (admin only)',
+        security: [{ bearerAuth: [] }],
+        querystring: jobListQuerySchema,
+        response: {
+          200: paginatedResponseSchema(jobSchema),
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { status, type } = request.query;
+      const { skip, take, page, limit } = parsePaginationParams(request.query);
+      const where = { status, type };
+
+      const [jobs, total] = await Promise.all([findJobs({ take, skip, where }), countJobs(where)]);
+
+      return reply.send(buildPaginatedResponse(jobs, page, limit, total));
+    }
+  );
+
+  // Get job progress
+  app.get<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Jobs'],
+        summary: 'Get a background job',
+        description:
+          'Returns the status, progress and, once completed, the result of a job. Poll this endpoint until the status is COMPLETED, FAILED or CANCELLED. Users can see their own jobs, admins any job.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: jobSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      return reply.send(await findVisibleJob(request, request.params.id));
+    }
+  );
+
+  // Cancel a job
+  app.post<{ Params: IdParams }>(
+    '/:id/cancel',
+    {
+      schema: {
+        tags: ['Jobs'],
+        summary: 'Cancel a background job',
+        description:
+          'Pending jobs are cancelled at once. Running jobs are asked to stop and become CANCELLED when they reach their next step; work they finished is kept.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: jobSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const job = await findVisibleJob(request, request.params.id);
+      const cancelled = await cancelJob(job.id);
+      if (!cancelled) {
+        throw new ConflictError(`Job has already finished with status ${job.status}`);
+      }
+      return reply.send(cancelled);
+    }
+  );
+
+  // Retry a failed or cancelled job
+  app.post<{ Params: IdParams }>(
+    '/:id/retry',
+    {
+      schema: {
+        tags: ['Jobs'],
+        summary: 'Retry a failed or cancelled background job',
+        description: 'Queues the job to run again with the same payload.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: jobSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const job = await findVisibleJob(request, request.params.id);
+      const retried = await retryJob(job.id);
+      if (!retried) {
+        throw new ConflictError(
+          `Only failed or cancelled jobs can be retried, job is ${job.status}`
+        );
+      }
+      app.jobs.wake();
+      return reply.send(retried);
+    }
+  );
+};
@@ -0,0 +1,153 @@
+import type { FastifyPluginAsync } from 'fastify';
+import {
+  findPlayerMatchReviewById,
+  findPlayerMatchReviews,
+  countPlayerMatchReviews,
+} from '@opprs/db-prisma';
+import type { PlayerMatchReviewStatus } from '@opprs/db-prisma';
+import {
+  playerMatchReviewSchema,
+  playerMatchReviewListQuerySchema,
+  matchPlayerBodySchema,
+} from '../../schemas/player-match-review.js';
+import {
+  idParamSchema,
+  errorResponseSchema,
+  paginatedResponseSchema,
+} from '../../schemas/common.js';
+import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { dismissReview, matchReviewedPlayer } from '../../services/player-match-reviews.js';
+
+interface ReviewListQuery {
+  page?: number;
+  limit?: number;
+  status?: PlayerMatchReviewStatus;
+}
+
+interface IdParams {
+  id: string;
+}
+
+interface MatchPlayerBody {
+  playerId: string;
+}
+
+export const playerMatchReviewRoutes: FastifyPluginAsync = async (app) => {
+  // List reviews (admin only)
+  app.get<{ Querystring: ReviewListQuery }>(
+    '/',
+    {
+      schema: {
+        tags: ['Player Match Reviews'],
+        summary: 'List imported players queued for review (admin only)',
+        description:
+          'Imports create a player when identity resolution finds existing players resembling them but no confident match, and queue a review listing those candidates. Reviews are listed oldest first.',
+        security: [{ bearerAuth: [] }],
+        querystring: playerMatchReviewListQuerySchema,
+        response: {
+          200: paginatedResponseSchema(playerMatchReviewSchema),
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { skip, take, page, limit } = parsePaginationParams(request.query);
+      const where = { status: request.query.status };
+
+      const [reviews, total] = await Promise.all([
+        findPlayerMatchReviews({ take, skip, where }),
+        countPlayerMatchReviews(where),
+      ]);
+
+      return reply.send(buildPaginatedResponse(reviews, page, limit, total));
+    }
+  );
+
+  // Get a review
+  app.get<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Player Match Reviews'],
+        summary: 'Get a player match review (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: playerMatchReviewSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const review = await findPlayerMatchReviewById(request.params.id);
+      if (!review) {
+        throw new NotFoundError('Player match review', request.params.id);
+      }
+      return reply.send(review);
+    }
+  );
+
+  // Match the imported player to an existing player
+  app.post<{ Params: IdParams; Body: MatchPlayerBody }>(
+    '/:id/match',
+    {
+      schema: {
+        tags: ['Player Match Reviews'],
+        summary: 'Match a reviewed player to an existing player (admin only)',
+        description:
+          "Moves the imported player's results to the existing player, who takes over their external ID unless they have one, and deletes the imported player. The tournaments concerned are recalculated.",
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        body: matchPlayerBodySchema,
+        response: {
+          200: playerMatchReviewSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const review = await matchReviewedPlayer(
+        request.params.id,
+        request.body.playerId,
+        request.user.sub
+      );
+      return reply.send(review);
+    }
+  );
+
+  // Keep the imported player as a player of their own
+  app.post<{ Params: IdParams }>(
+    '/:id/dismiss',
+    {
+      schema: {
+        tags: ['Player Match Reviews'],
+        summary: 'Dismiss a player match review (admin only)',
+        description: 'The imported player is a different person from every candidate.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: playerMatchReviewSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      return reply.send(await dismissReview(request.params.id, request.user.sub));
+    }
+  );
+};
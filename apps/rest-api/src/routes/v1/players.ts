@@ -1,4 +1,4 @@
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
 import {
   createPlayer,
   findPlayerById,
@@ -9,11 +9,19 @@ import {
   getPlayerWithResults,
   getTopPlayersByOpprRating,
   getTopPlayersByOpprRanking,
-  getPlayerStats,
   createOpprPlayerRanking,
   findOpprPlayerRankingByPlayerId,
   updateOpprPlayerRanking,
+  findPlayerMergeBySourceId,
+  findPlayerMergesByTarget,
+  createPlayerIdentity,
+  findPlayerIdentityById,
+  findPlayerIdentity,
+  updatePlayerIdentity,
+  deletePlayerIdentity,
+  getPrimaryExternalId,
 } from '@opprs/db-prisma';
+import type { Player, PlayerIdentity, PlayerIdentityStatus } from '@opprs/db-prisma';
 import {
   playerSchema,
   createPlayerSchema,
@@ -23,6 +31,13 @@ import {
   topPlayersQuerySchema,
   playerStatsSchema,
   playerResultSchema,
+  mergePlayerBodySchema,
+  playerMergeSchema,
+  mergePlayerResponseSchema,
+  playerIdentitySchema,
+  identityParamsSchema,
+  createPlayerIdentitySchema,
+  updatePlayerIdentitySchema,
 } from '../../schemas/player.js';
 import {
   idParamSchema,
@@ -30,7 +45,9 @@ import {
   paginatedResponseSchema,
 } from '../../schemas/common.js';
 import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
-import { NotFoundError } from '../../utils/errors.js';
+import { ConflictError, NotFoundError } from '../../utils/errors.js';
+import { getPlayerProfileStats } from '../../services/player-profile.js';
+import { mergePlayer } from '../../services/player-merge.js';
 
 interface PlayerListQuery {
   page?: number;
@@ -53,6 +70,58 @@ interface IdParams {
   id: string;
 }
 
+interface MergePlayerBody {
+  targetPlayerId: string;
+}
+
+interface IdentityParams {
+  id: string;
+  identityId: string;
+}
+
+interface PlayerIdentityBody {
+  source: string;
+  externalId: string;
+  status?: PlayerIdentityStatus;
+}
+
+const mergedPlayerRedirectSchema = {
+  type: 'null',
+  description:
+    'The player was merged; Location is the same request for the player they were merged into',
+} as const;
+
+// Redirect a request for a merged player to the player holding their results
+async function redirectMergedPlayer(
+  request: FastifyRequest<{ Params: IdParams }>,
+  reply: FastifyReply
+) {
+  const merge = await findPlayerMergeBySourceId(request.params.id);
+  if (!merge) {
+    throw new NotFoundError('Player', request.params.id);
+  }
+  return reply.redirect(request.url.replace(request.params.id, merge.targetPlayerId), 301);
+}
+
+// Find an identity of a player, or throw 404
+async function findIdentityOfPlayer(params: IdentityParams): Promise<PlayerIdentity> {
+  const identity = await findPlayerIdentityById(params.identityId);
+  if (!identity || identity.playerId !== params.id) {
+    throw new NotFoundError('Player identity', params.identityId);
+  }
+  return identity;
+}
+
+// An ID in a source belongs to one player
+async function assertIdentityAvailable(source: string, externalId: string, identityId?: string) {
+  const existing = await findPlayerIdentity(source, externalId);
+  if (existing && existing.id !== identityId) {
+    throw new ConflictError(
+      `${source} ID ${externalId} already belongs to player ${existing.playerId}`
+    );
+  }
+}
+
 // Fields that belong to OpprPlayerRanking, not Player
 const RANKING_FIELDS = ['rating', 'ratingDeviation', 'ranking', 'isRated'] as const;
 
@@ -75,10 +144,27 @@ function splitPlayerAndRankingData(body: Record<string, unknown>) {
 // Helper to merge player with their OPPR ranking data for response
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function getPlayerWithRanking(playerId: string): Promise<any> {
-  const player = await findPlayerById(playerId, { opprRanking: true });
+  const player = await findPlayerById(playerId, {
+    opprRanking: true,
+    identities: { orderBy: [{ source: 'asc' }, { createdAt: 'asc' }] },
+  });
   if (!player) return null;
 
-  return mergePlayerWithRanking(player);
+  const playerWithRanking = mergePlayerWithRanking(player);
+  return {
+    ...playerWithRanking,
+    externalId: getPrimaryExternalId(playerWithRanking.identities),
+  };
+}
+
+type PlayerWithIdentities = Player & { identities: PlayerIdentity[] };
+
+// Helper to replace the identities of a player in a list by their primary external ID
+function withPrimaryExternalId<T extends PlayerWithIdentities>(
+  player: T
+): Omit<T, 'identities'> & { externalId: string | null } {
+  const { identities, ...playerData } = player;
+  return { ...playerData, externalId: getPrimaryExternalId(identities) };
 }
 
 // Helper to merge player object with ranking data (for player already fetched with opprRanking included)
@@ -132,12 +218,20 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
         isRated !== undefined ? { opprRanking: { isRated } } : undefined;
 
       const [players, total] = await Promise.all([
-        findPlayers({ take, skip, orderBy, where, include: { opprRanking: true } }),
+        findPlayers({
+          take,
+          skip,
+          orderBy,
+          where,
+          include: { opprRanking: true, identities: true },
+        }),
         countPlayers(where),
       ]);
 
-      // Merge ranking data into player responses
-      const playersWithRanking = players.map(mergePlayerWithRanking);
+      // Merge ranking data into player responses; findPlayers does not type its include
+      const playersWithRanking = (players as PlayerWithIdentities[])
+        .map(withPrimaryExternalId)
+        .map(mergePlayerWithRanking);
 
       return reply.send(buildPaginatedResponse(playersWithRanking, page, limit, total));
     }
@@ -161,9 +255,11 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
       const players = await findPlayers({
         take: limit,
         where: { name: { contains: q, mode: 'insensitive' } },
-        include: { opprRanking: true },
+        include: { opprRanking: true, identities: true },
       });
-      const playersWithRanking = players.map(mergePlayerWithRanking);
+      const playersWithRanking = (players as PlayerWithIdentities[])
+        .map(withPrimaryExternalId)
+        .map(mergePlayerWithRanking);
       return reply.send(playersWithRanking);
     }
   );
@@ -185,9 +281,8 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
       const { limit = 50 } = request.query;
       const rankings = await getTopPlayersByOpprRating(limit);
       // Return player data with ranking info embedded
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const players = rankings.map((r: any) => ({
-        ...r.player,
+      const players = rankings.map((r) => ({
+        ...withPrimaryExternalId(r.player),
         rating: r.rating,
         ratingDeviation: r.ratingDeviation,
         ranking: r.ranking,
@@ -214,9 +309,8 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
       const { limit = 50 } = request.query;
       const rankings = await getTopPlayersByOpprRanking(limit);
       // Return player data with ranking info embedded
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const players = rankings.map((r: any) => ({
-        ...r.player,
+      const players = rankings.map((r) => ({
+        ...withPrimaryExternalId(r.player),
         rating: r.rating,
         ratingDeviation: r.ratingDeviation,
         ranking: r.ranking,
@@ -236,6 +330,7 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
         params: idParamSchema,
         response: {
           200: playerSchema,
+          301: mergedPlayerRedirectSchema,
           404: errorResponseSchema,
         },
       },
@@ -243,7 +338,7 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
     async (request, reply) => {
       const playerWithRanking = await getPlayerWithRanking(request.params.id);
       if (!playerWithRanking) {
-        throw new NotFoundError('Player', request.params.id);
+        return redirectMergedPlayer(request, reply);
       }
       return reply.send(playerWithRanking);
     }
@@ -259,6 +354,7 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
         params: idParamSchema,
         response: {
           200: { type: 'array', items: playerResultSchema },
+          301: mergedPlayerRedirectSchema,
           404: errorResponseSchema,
         },
       },
@@ -266,7 +362,7 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
     async (request, reply) => {
       const playerWithResults = await getPlayerWithResults(request.params.id);
       if (!playerWithResults) {
-        throw new NotFoundError('Player', request.params.id);
+        return redirectMergedPlayer(request, reply);
       }
       return reply.send(playerWithResults.results);
     }
@@ -278,35 +374,19 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
     {
       schema: {
         tags: ['Players'],
-        summary: 'Get player statistics',
+        summary: 'Get player ranking profile and statistics',
         params: idParamSchema,
         response: {
           200: playerStatsSchema,
+          301: mergedPlayerRedirectSchema,
           404: errorResponseSchema,
         },
       },
     },
     async (request, reply) => {
-      const player = await findPlayerById(request.params.id);
-      if (!player) {
-        throw new NotFoundError('Player', request.params.id);
-      }
-
-      const stats = await getPlayerStats(request.params.id);
+      const stats = await getPlayerProfileStats(request.params.id);
       if (!stats) {
-        return reply.send({
-          totalEvents: 0,
-          totalPoints: 0,
-          totalDecayedPoints: 0,
-          averagePoints: 0,
-          averagePosition: 0,
-          averageFinish: 0,
-          averageEfficiency: 0,
-          firstPlaceFinishes: 0,
-          topThreeFinishes: 0,
-          bestFinish: 0,
-          highestPoints: 0,
-        });
+        return redirectMergedPlayer(request, reply);
       }
       return reply.send(stats);
     }
@@ -414,6 +494,165 @@ export const playerRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  // Add identity to player
+  app.post<{ Params: IdParams; Body: PlayerIdentityBody }>(
+    '/:id/identities',
+    {
+      schema: {
+        tags: ['Players'],
+        summary: 'Link an ID in another system to a player (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        body: createPlayerIdentitySchema,
+        response: {
+          201: playerIdentitySchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const existing = await findPlayerById(request.params.id);
+      if (!existing) {
+        throw new NotFoundError('Player', request.params.id);
+      }
+      const { source, externalId, status } = request.body;
+      await assertIdentityAvailable(source, externalId);
+
+      const identity = await createPlayerIdentity({
+        playerId: request.params.id,
+        source,
+        externalId,
+        status,
+      });
+      return reply.status(201).send(identity);
+    }
+  );
+
+  // Update player identity
+  app.patch<{ Params: IdentityParams; Body: Partial<PlayerIdentityBody> }>(
+    '/:id/identities/:identityId',
+    {
+      schema: {
+        tags: ['Players'],
+        summary: 'Update or verify an identity of a player (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: identityParamsSchema,
+        body: updatePlayerIdentitySchema,
+        response: {
+          200: playerIdentitySchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const identity = await findIdentityOfPlayer(request.params);
+      const source = request.body.source ?? identity.source;
+      const externalId = request.body.externalId ?? identity.externalId;
+      await assertIdentityAvailable(source, externalId, identity.id);
+
+      const updated = await updatePlayerIdentity(identity.id, request.body);
+      return reply.send(updated);
+    }
+  );
+
+  // Remove player identity
+  app.delete<{ Params: IdentityParams }>(
+    '/:id/identities/:identityId',
+    {
+      schema: {
+        tags: ['Players'],
+        summary: 'Unlink an ID in another system from a player (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: identityParamsSchema,
+        response: {
+          204: { type: 'null' },
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const identity = await findIdentityOfPlayer(request.params);
+      await deletePlayerIdentity(identity.id);
+      return reply.status(204).send();
+    }
+  );
+
+  // Merge player into another
+  app.post<{ Params: IdParams; Body: MergePlayerBody }>(
+    '/:id/merge',
+    {
+      schema: {
+        tags: ['Players'],
+        summary: 'Merge a duplicate player into another (admin only)',
+        description:
+          'Moves the results, organized tournaments, rating history and user account of the player to the target, deletes the player and redirects their ID to the target',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        body: mergePlayerBodySchema,
+        response: {
+          200: mergePlayerResponseSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { targetPlayerId } = request.body;
+      const { merge, tournamentIds } = await mergePlayer(
+        request.params.id,
+        targetPlayerId,
+        request.user.sub
+      );
+      return reply.send({
+        merge,
+        player: await getPlayerWithRanking(targetPlayerId),
+        tournamentsRecalculated: tournamentIds.length,
+      });
+    }
+  );
+
+  // Get players merged into player
+  app.get<{ Params: IdParams }>(
+    '/:id/merges',
+    {
+      schema: {
+        tags: ['Players'],
+        summary: 'Get the players merged into a player (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: { type: 'array', items: playerMergeSchema },
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const existing = await findPlayerById(request.params.id);
+      if (!existing) {
+        throw new NotFoundError('Player', request.params.id);
+      }
+      return reply.send(await findPlayerMergesByTarget(request.params.id));
+    }
+  );
+
   // Delete player
   app.delete<{ Params: IdParams }>(
     '/:id',
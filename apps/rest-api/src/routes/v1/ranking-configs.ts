@@ -0,0 +1,355 @@
+import type { FastifyPluginAsync } from 'fastify';
+import type { Prisma } from '@opprs/db-prisma';
+import {
+  createRankingConfig,
+  findRankingConfigById,
+  findRankingConfigByVersion,
+  findRankingConfigs,
+  getActiveRankingConfig,
+  updateRankingConfig,
+  activateRankingConfig,
+  deactivateRankingConfig,
+  deleteRankingConfig,
+  countRankingConfigs,
+} from '@opprs/db-prisma';
+import {
+  rankingConfigSchema,
+  createRankingConfigSchema,
+  updateRankingConfigSchema,
+  rankingConfigListQuerySchema,
+  rankingConfigPreviewSchema,
+} from '../../schemas/ranking-config.js';
+import {
+  idParamSchema,
+  errorResponseSchema,
+  paginatedResponseSchema,
+} from '../../schemas/common.js';
+import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors.js';
+import {
+  validateRankingConfig,
+  previewRankingConfig,
+  countRankingConfigTournaments,
+} from '../../services/ranking-config.js';
+
+interface RankingConfigListQuery {
+  page?: number;
+  limit?: number;
+}
+
+interface IdParams {
+  id: string;
+}
+
+interface CreateRankingConfigBody {
+  version: string;
+  name: string;
+  description?: string;
+  config: Record<string, unknown>;
+}
+
+interface UpdateRankingConfigBody {
+  version?: string;
+  name?: string;
+  description?: string | null;
+  config?: Record<string, unknown>;
+}
+
+export const rankingConfigRoutes: FastifyPluginAsync = async (app) => {
+  // List ranking configurations (admin only)
+  app.get<{ Querystring: RankingConfigListQuery }>(
+    '/',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'List ranking configurations (admin only)',
+        security: [{ bearerAuth: [] }],
+        querystring: rankingConfigListQuerySchema,
+        response: {
+          200: paginatedResponseSchema(rankingConfigSchema),
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { skip, take, page, limit } = parsePaginationParams(request.query);
+
+      const [configs, total] = await Promise.all([
+        findRankingConfigs({ take, skip }),
+        countRankingConfigs(),
+      ]);
+
+      return reply.send(buildPaginatedResponse(configs, page, limit, total));
+    }
+  );
+
+  // Get the active ranking configuration (admin only)
+  app.get(
+    '/active',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Get the active ranking configuration (admin only)',
+        description:
+          'Returns 404 when no configuration is active and the code-defined rulesets are in use.',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: rankingConfigSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (_request, reply) => {
+      const config = await getActiveRankingConfig();
+      if (!config) {
+        throw new NotFoundError('RankingConfig', 'active');
+      }
+      return reply.send(config);
+    }
+  );
+
+  // Get ranking configuration by ID (admin only)
+  app.get<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Get ranking configuration by ID (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: rankingConfigSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const config = await findRankingConfigById(request.params.id);
+      if (!config) {
+        throw new NotFoundError('RankingConfig', request.params.id);
+      }
+      return reply.send(config);
+    }
+  );
+
+  // Create ranking configuration (admin only)
+  app.post<{ Body: CreateRankingConfigBody }>(
+    '/',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Create a ranking configuration (admin only)',
+        description: 'New configurations are inactive until activated.',
+        security: [{ bearerAuth: [] }],
+        body: createRankingConfigSchema,
+        response: {
+          201: rankingConfigSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const config = validateRankingConfig(request.body.config);
+
+      if (await findRankingConfigByVersion(request.body.version)) {
+        throw new ConflictError('Ranking configuration with this version already exists');
+      }
+
+      const created = await createRankingConfig({
+        ...request.body,
+        config: config as Prisma.InputJsonValue,
+      });
+      return reply.status(201).send(created);
+    }
+  );
+
+  // Update ranking configuration (admin only)
+  app.patch<{ Params: IdParams; Body: UpdateRankingConfigBody }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Update an inactive ranking configuration (admin only)',
+        description:
+          'Configurations that tournaments were evaluated under cannot be edited (409); create a new version instead.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        body: updateRankingConfigSchema,
+        response: {
+          200: rankingConfigSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const existing = await findRankingConfigById(request.params.id);
+      if (!existing) {
+        throw new NotFoundError('RankingConfig', request.params.id);
+      }
+      if (existing.isActive) {
+        throw new BadRequestError(
+          'The active ranking configuration cannot be edited; create a new version instead'
+        );
+      }
+      if ((await countRankingConfigTournaments(existing)) > 0) {
+        throw new ConflictError(
+          'Tournaments were evaluated under this ranking configuration; create a new version instead'
+        );
+      }
+
+      const { config, ...data } = request.body;
+      if (data.version && data.version !== existing.version) {
+        if (await findRankingConfigByVersion(data.version)) {
+          throw new ConflictError('Ranking configuration with this version already exists');
+        }
+      }
+
+      const updated = await updateRankingConfig(request.params.id, {
+        ...data,
+        ...(config && { config: validateRankingConfig(config) as Prisma.InputJsonValue }),
+      });
+      return reply.send(updated);
+    }
+  );
+
+  // Delete ranking configuration (admin only)
+  app.delete<{ Params: IdParams }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Delete an inactive ranking configuration (admin only)',
+        description:
+          'Configurations that tournaments were evaluated under cannot be deleted (409).',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          204: { type: 'null' },
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const existing = await findRankingConfigById(request.params.id);
+      if (!existing) {
+        throw new NotFoundError('RankingConfig', request.params.id);
+      }
+      if (existing.isActive) {
+        throw new BadRequestError('The active ranking configuration cannot be deleted');
+      }
+      if ((await countRankingConfigTournaments(existing)) > 0) {
+        throw new ConflictError('Tournaments were evaluated under this ranking configuration');
+      }
+      await deleteRankingConfig(request.params.id);
+      return reply.status(204).send();
+    }
+  );
+
+  // Preview the effect of a ranking configuration (admin only)
+  app.get<{ Params: IdParams }>(
+    '/:id/preview',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Preview leaderboard and tournament value changes (admin only)',
+        description:
+          'Full-recalculation preview: recalculates every tournament with the rulesets in use and with this configuration, as a historical replay under it would, and returns the tournaments whose first place value changes and the top 100 leaderboard under both. Activating the configuration only governs tournaments from its activation date.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: rankingConfigPreviewSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const config = await findRankingConfigById(request.params.id);
+      if (!config) {
+        throw new NotFoundError('RankingConfig', request.params.id);
+      }
+      return reply.send(await previewRankingConfig(config));
+    }
+  );
+
+  // Activate ranking configuration (admin only)
+  app.post<{ Params: IdParams }>(
+    '/:id/activate',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Activate a ranking configuration (admin only)',
+        description:
+          'Deactivates the current configuration. Imports and recalculations of tournaments from now on use the activated configuration; earlier tournaments keep the rules of their dates. Activating the active configuration leaves it unchanged.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: rankingConfigSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const existing = await findRankingConfigById(request.params.id);
+      if (!existing) {
+        throw new NotFoundError('RankingConfig', request.params.id);
+      }
+      return reply.send(await activateRankingConfig(request.params.id));
+    }
+  );
+
+  // Deactivate ranking configuration (admin only)
+  app.post<{ Params: IdParams }>(
+    '/:id/deactivate',
+    {
+      schema: {
+        tags: ['Ranking Configs'],
+        summary: 'Deactivate a ranking configuration (admin only)',
+        description: 'Calculations fall back to the code-defined rulesets.',
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: rankingConfigSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const existing = await findRankingConfigById(request.params.id);
+      if (!existing) {
+        throw new NotFoundError('RankingConfig', request.params.id);
+      }
+      return reply.send(await deactivateRankingConfig(request.params.id));
+    }
+  );
+};
@@ -0,0 +1,158 @@
+import type { FastifyPluginAsync } from 'fastify';
+import {
+  findScheduledTaskByName,
+  findScheduledTasks,
+  findScheduledTaskRuns,
+  countScheduledTaskRuns,
+  requestScheduledTaskRun,
+} from '@opprs/db-prisma';
+import type { ScheduledTaskWithLastRun } from '@opprs/db-prisma';
+import {
+  scheduledTaskSchema,
+  scheduledTaskListResponseSchema,
+  scheduledTaskRunSchema,
+  scheduledTaskNameParamSchema,
+} from '../../schemas/scheduled-task.js';
+import {
+  errorResponseSchema,
+  paginatedResponseSchema,
+  paginationQuerySchema,
+} from '../../schemas/common.js';
+import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
+import { NotFoundError, ConflictError } from '../../utils/errors.js';
+import type { ScheduledTaskDefinition } from '../../services/scheduled-tasks.js';
+
+interface NameParams {
+  name: string;
+}
+
+interface PaginationQuery {
+  page?: number;
+  limit?: number;
+}
+
+export const scheduledTaskRoutes: FastifyPluginAsync = async (app) => {
+  const findDefinition = (name: string): ScheduledTaskDefinition => {
+    const definition = app.scheduler.tasks.find((task) => task.name === name);
+    if (!definition) {
+      throw new NotFoundError('Scheduled task', name);
+    }
+    return definition;
+  };
+
+  // Combines a task definition with its state in the database
+  const formatTask = (
+    definition: ScheduledTaskDefinition,
+    task: ScheduledTaskWithLastRun | null | undefined
+  ) => {
+    const enabled = app.scheduler.enabled && definition.schedule !== null;
+    return {
+      name: definition.name,
+      description: definition.description,
+      schedule: definition.schedule,
+      enabled,
+      running: !!task?.leaseExpiresAt && task.leaseExpiresAt > new Date(),
+      lastRunAt: task?.lastRunAt ?? null,
+      nextRunAt: enabled ? (task?.nextRunAt ?? null) : null,
+      lastRun: task?.runs[0] ?? null,
+    };
+  };
+
+  // List scheduled tasks
+  app.get(
+    '/',
+    {
+      schema: {
+        tags: ['Scheduled Tasks'],
+        summary: 'List scheduled maintenance tasks (admin only)',
+        description:
+          'Returns each task with its schedule, last and next run, and the outcome of its most recent run.',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: scheduledTaskListResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (_request, reply) => {
+      const tasks = new Map((await findScheduledTasks()).map((task) => [task.name, task]));
+      return reply.send({
+        schedulerEnabled: app.scheduler.enabled,
+        tasks: app.scheduler.tasks.map((definition) =>
+          formatTask(definition, tasks.get(definition.name))
+        ),
+      });
+    }
+  );
+
+  // Run history of a task
+  app.get<{ Params: NameParams; Querystring: PaginationQuery }>(
+    '/:name/runs',
+    {
+      schema: {
+        tags: ['Scheduled Tasks'],
+        summary: 'List the runs of a scheduled task (admin only)',
+        security: [{ bearerAuth: [] }],
+        params: scheduledTaskNameParamSchema,
+        querystring: paginationQuerySchema,
+        response: {
+          200: paginatedResponseSchema(scheduledTaskRunSchema),
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const definition = findDefinition(request.params.name);
+      const { skip, take, page, limit } = parsePaginationParams(request.query);
+      const where = { task: { name: definition.name } };
+
+      const [runs, total] = await Promise.all([
+        findScheduledTaskRuns({ take, skip, where }),
+        countScheduledTaskRuns(where),
+      ]);
+
+      return reply.send(buildPaginatedResponse(runs, page, limit, total));
+    }
+  );
+
+  // Run a task now
+  app.post<{ Params: NameParams }>(
+    '/:name/run',
+    {
+      schema: {
+        tags: ['Scheduled Tasks'],
+        summary: 'Run a scheduled task now (admin only)',
+        description:
+          'Makes the task due, so the next scheduler check runs it. Its regular schedule continues after the run.',
+        security: [{ bearerAuth: [] }],
+        params: scheduledTaskNameParamSchema,
+        response: {
+          202: scheduledTaskSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const definition = findDefinition(request.params.name);
+      if (!app.scheduler.enabled || definition.schedule === null) {
+        throw new ConflictError(`Scheduled task ${definition.name} is not enabled`);
+      }
+      if (!(await requestScheduledTaskRun(definition.name))) {
+        throw new ConflictError(`Scheduled task ${definition.name} has not been scheduled yet`);
+      }
+      app.scheduler.wake();
+
+      const task = await findScheduledTaskByName(definition.name);
+      return reply.status(202).send(formatTask(definition, task));
+    }
+  );
+};
@@ -7,7 +7,7 @@ import {
   updateStanding,
   deleteStanding,
   countStandings,
-  recalculateTimeDecay,
+  countJobs,
 } from '@opprs/db-prisma';
 import {
   standingSchema,
@@ -17,15 +17,19 @@ import {
   updateStandingSchema,
   standingListQuerySchema,
   batchStandingResponseSchema,
-  recalculateDecayResponseSchema,
+  refreshRankingsResponseSchema,
+  historicalReplayBodySchema,
 } from '../../schemas/standing.js';
 import {
   idParamSchema,
   errorResponseSchema,
   paginatedResponseSchema,
 } from '../../schemas/common.js';
+import { jobSchema } from '../../schemas/job.js';
 import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
-import { NotFoundError, BadRequestError } from '../../utils/errors.js';
+import { NotFoundError, BadRequestError, ConflictError } from '../../utils/errors.js';
+import { refreshWorldRankings } from '../../services/ranking-refresh.js';
+import { createTournamentPointsCalculator } from '../../services/tournament-recalculation.js';
 
 interface StandingListQuery {
   page?: number;
@@ -45,6 +49,7 @@ interface CreateStandingBody {
   playerId: string;
   tournamentId: string;
   position: number;
+  positionEnd?: number;
   isFinals?: boolean;
   optedOut?: boolean;
   linearPoints?: number;
@@ -56,8 +61,20 @@ interface CreateStandingBody {
   efficiency?: number;
 }
 
+interface HistoricalReplayBody {
+  dryRun?: boolean;
+  referenceDate?: string;
+}
+
+/** Every position covered by a standing (more than one when tied) */
+function positionRange(position: number, positionEnd?: number | null): number[] {
+  const end = Math.max(position, positionEnd ?? position);
+  return Array.from({ length: end - position + 1 }, (_, i) => position + i);
+}
+
 interface UpdateStandingBody {
   position?: number;
+  positionEnd?: number | null;
   optedOut?: boolean;
   linearPoints?: number;
   dynamicPoints?: number;
@@ -147,6 +164,8 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       schema: {
         tags: ['Standings'],
         summary: 'Create a new standing (admin only)',
+        description:
+          "Points of the tournament's standings are recalculated in the same transaction when the tournament has a TGP configuration.",
         security: [{ bearerAuth: [] }],
         body: createStandingSchema,
         response: {
@@ -158,7 +177,10 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       preHandler: [app.requireAdmin],
     },
     async (request, reply) => {
-      const standing = await createStanding(request.body);
+      const created = await createStanding(request.body, {
+        recalculate: await createTournamentPointsCalculator(),
+      });
+      const standing = await findStandingById(created.id);
       return reply.status(201).send(standing);
     }
   );
@@ -170,6 +192,8 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       schema: {
         tags: ['Standings'],
         summary: 'Create multiple standings at once (admin only)',
+        description:
+          'Points of each affected tournament are recalculated in the same transaction when the tournament has a TGP configuration.',
         security: [{ bearerAuth: [] }],
         body: createManyStandingsSchema,
         response: {
@@ -185,46 +209,67 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       const standings = request.body;
 
       // 1. Check for duplicate positions WITHIN the batch
-      const positionsByKey = new Map<string, Set<number>>();
+      // Tied players share a position and declare the range they span with positionEnd
+      const standingsByKey = new Map<string, CreateStandingBody[]>();
       for (const standing of standings) {
         const key = `${standing.tournamentId}-${standing.isFinals ?? false}`;
-        let positions = positionsByKey.get(key);
-        if (!positions) {
-          positions = new Set();
-          positionsByKey.set(key, positions);
-        }
-        if (positions.has(standing.position)) {
-          throw new BadRequestError(
-            `Duplicate position ${standing.position} in batch`
-          );
-        }
-        positions.add(standing.position);
+        standingsByKey.set(key, [...(standingsByKey.get(key) ?? []), standing]);
+      }
+      for (const group of standingsByKey.values()) {
+        const ranges = [...new Set(group.map((s) => s.position))]
+          .sort((a, b) => a - b)
+          .map((position) => {
+            const tied = group.filter((s) => s.position === position);
+            const positionEnd = position + tied.length - 1;
+            for (const standing of tied) {
+              if (tied.length > 1 && standing.positionEnd === undefined) {
+                throw new BadRequestError(`Duplicate position ${position} in batch`);
+              }
+              if ((standing.positionEnd ?? position) !== positionEnd) {
+                throw new BadRequestError(
+                  `Position range ${position}-${standing.positionEnd} must have one standing per position (found ${tied.length})`
+                );
+              }
+            }
+            return { position, positionEnd };
+          });
+        ranges.forEach((range, index) => {
+          const next = ranges[index + 1];
+          if (next && next.position <= range.positionEnd) {
+            throw new BadRequestError(
+              `Position ${next.position} overlaps the range ${range.position}-${range.positionEnd}`
+            );
+          }
+        });
       }
 
       // 2. Check for conflicts with EXISTING standings
       const tournamentIds = [...new Set(standings.map((s) => s.tournamentId))];
       for (const tournamentId of tournamentIds) {
-        const batchPositions = standings
-          .filter((s) => s.tournamentId === tournamentId)
-          .map((s) => s.position);
+        const batchPositions = new Set(
+          standings
+            .filter((s) => s.tournamentId === tournamentId)
+            .flatMap((s) => positionRange(s.position, s.positionEnd))
+        );
 
-        const existingConflicts = await findStandings({
-          where: {
-            tournamentId,
-            position: { in: batchPositions },
-          },
-        });
+        const existing = await findStandings({ where: { tournamentId } });
+        const conflicting = [
+          ...new Set(
+            existing.flatMap((s) =>
+              positionRange(s.position, s.positionEnd).filter((p) => batchPositions.has(p))
+            )
+          ),
+        ].sort((a, b) => a - b);
 
-        if (existingConflicts.length > 0) {
-          const conflicting = existingConflicts.map((s) => s.position).join(', ');
-          throw new BadRequestError(
-            `Positions already exist: ${conflicting}`
-          );
+        if (conflicting.length > 0) {
+          throw new BadRequestError(`Positions already exist: ${conflicting.join(', ')}`);
         }
       }
 
       // 3. Proceed with creation
-      const result = await createManyStandings(standings);
+      const result = await createManyStandings(standings, {
+        recalculate: await createTournamentPointsCalculator(),
+      });
       return reply.status(201).send({ count: result.count });
     }
   );
@@ -236,6 +281,8 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       schema: {
         tags: ['Standings'],
         summary: 'Update a standing (admin only)',
+        description:
+          "Points of the tournament's standings are recalculated in the same transaction when the tournament has a TGP configuration, replacing any points in the request.",
         security: [{ bearerAuth: [] }],
         params: idParamSchema,
         body: updateStandingSchema,
@@ -253,7 +300,10 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       if (!existing) {
         throw new NotFoundError('Standing', request.params.id);
       }
-      const standing = await updateStanding(request.params.id, request.body);
+      await updateStanding(request.params.id, request.body, {
+        recalculate: await createTournamentPointsCalculator(),
+      });
+      const standing = await findStandingById(request.params.id);
       return reply.send(standing);
     }
   );
@@ -265,6 +315,8 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       schema: {
         tags: ['Standings'],
         summary: 'Delete a standing (admin only)',
+        description:
+          "Points of the tournament's remaining standings are recalculated in the same transaction when the tournament has a TGP configuration.",
         security: [{ bearerAuth: [] }],
         params: idParamSchema,
         response: {
@@ -281,7 +333,9 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       if (!existing) {
         throw new NotFoundError('Standing', request.params.id);
       }
-      await deleteStanding(request.params.id);
+      await deleteStanding(request.params.id, {
+        recalculate: await createTournamentPointsCalculator(),
+      });
       return reply.status(204).send();
     }
   );
@@ -293,9 +347,35 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       schema: {
         tags: ['Standings'],
         summary: 'Recalculate time decay for all standings (admin only)',
+        description:
+          'Queues a job that decays every standing to today using the time decay curve of the ranking configuration in effect today. Only standings whose decay multiplier changed are written. Poll GET /jobs/:id for progress; the result has the count of standings updated and tournaments processed.',
+        security: [{ bearerAuth: [] }],
+        response: {
+          202: jobSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const job = await app.jobs.enqueue('recalculate-decay', {}, request.user.sub);
+      return reply.status(202).send(job);
+    }
+  );
+
+  // Recompute world rankings from top-15 decayed points
+  app.post(
+    '/refresh-rankings',
+    {
+      schema: {
+        tags: ['Standings'],
+        summary: 'Recompute world rankings from standings (admin only)',
+        description:
+          "Sums each player's best 15 decayed points, assigns world rankings to rated players, and records a ranking refresh in each player's history.",
         security: [{ bearerAuth: [] }],
         response: {
-          200: recalculateDecayResponseSchema,
+          200: refreshRankingsResponseSchema,
           401: errorResponseSchema,
           403: errorResponseSchema,
         },
@@ -303,11 +383,50 @@ export const standingRoutes: FastifyPluginAsync = async (app) => {
       preHandler: [app.requireAdmin],
     },
     async (_request, reply) => {
-      const updatedStandings = await recalculateTimeDecay();
+      const result = await refreshWorldRankings();
       return reply.send({
-        count: updatedStandings.length,
-        message: `Successfully recalculated decay for ${updatedStandings.length} standings`,
+        count: result.updatedCount,
+        rankedCount: result.rankedCount,
+        message: `Successfully refreshed rankings for ${result.updatedCount} players`,
       });
     }
   );
+
+  // Replay tournament history (admin only)
+  app.post<{ Body: HistoricalReplayBody }>(
+    '/replay',
+    {
+      schema: {
+        tags: ['Standings'],
+        summary: 'Replay tournament history (admin only)',
+        description:
+          'Queues a job that rebuilds every rating, tournament value, point distribution and world ranking by replaying tournaments in date order under the ruleset in effect on each date. A dry run reports the changes without writing them. Poll GET /jobs/:id for progress; the result is the replay summary. Only one replay can be queued or running at a time.',
+        security: [{ bearerAuth: [] }],
+        body: historicalReplayBodySchema,
+        response: {
+          202: jobSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const active = await countJobs({
+        type: 'historical-replay',
+        status: { in: ['PENDING', 'RUNNING'] },
+      });
+      if (active > 0) {
+        throw new ConflictError('A historical replay is already queued or running');
+      }
+      const { dryRun, referenceDate } = request.body ?? {};
+      const job = await app.jobs.enqueue(
+        'historical-replay',
+        { dryRun, referenceDate },
+        request.user.sub
+      );
+      return reply.status(202).send(job);
+    }
+  );
 };
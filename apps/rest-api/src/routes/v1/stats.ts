@@ -6,6 +6,7 @@ import {
   getTopPlayersByOpprRanking,
   getTopPlayersByOpprRating,
   countOpprPlayerRankings,
+  getPrimaryExternalId,
 } from '@opprs/db-prisma';
 import { playerSchema } from '../../schemas/player.js';
 
@@ -105,9 +106,9 @@ export const statsRoutes: FastifyPluginAsync = async (app) => {
           : await getTopPlayersByOpprRanking(limit);
 
       // Return player data with ranking info embedded
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const players = rankings.map((r: any) => ({
-        ...r.player,
+      const players = rankings.map(({ player: { identities, ...player }, ...r }) => ({
+        ...player,
+        externalId: getPrimaryExternalId(identities),
         rating: r.rating,
         ratingDeviation: r.ratingDeviation,
         ranking: r.ranking,
@@ -22,6 +22,8 @@ import {
   recentTournamentsQuerySchema,
   tournamentStatsSchema,
   tournamentResultSchema,
+  tournamentTraceSchema,
+  tournamentRecalculationSchema,
 } from '../../schemas/tournament.js';
 import {
   idParamSchema,
@@ -30,6 +32,8 @@ import {
 } from '../../schemas/common.js';
 import { parsePaginationParams, buildPaginatedResponse } from '../../utils/pagination.js';
 import { NotFoundError } from '../../utils/errors.js';
+import { getTournamentTrace } from '../../services/tournament-trace.js';
+import { recalculateTournament } from '../../services/tournament-recalculation.js';
 
 interface TournamentListQuery {
   page?: number;
@@ -259,6 +263,54 @@ export const tournamentRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  // Get tournament calculation trace (public)
+  app.get<{ Params: IdParams }>(
+    '/:id/trace',
+    {
+      schema: {
+        tags: ['Tournaments'],
+        summary: 'Explain how tournament value and points are calculated',
+        params: idParamSchema,
+        response: {
+          200: tournamentTraceSchema,
+          400: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const trace = await getTournamentTrace(request.params.id);
+      return reply.send(trace);
+    }
+  );
+
+  // Recalculate tournament value and standing points
+  app.post<{ Params: IdParams }>(
+    '/:id/recalculate',
+    {
+      schema: {
+        tags: ['Tournaments'],
+        summary: 'Recalculate tournament value and standing points (admin only)',
+        description:
+          "Re-evaluates the tournament from its merged standings and players' current ratings and rankings, redistributes points and updates the cached tournament values.",
+        security: [{ bearerAuth: [] }],
+        params: idParamSchema,
+        response: {
+          200: tournamentRecalculationSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+      preHandler: [app.requireAdmin],
+    },
+    async (request, reply) => {
+      const result = await recalculateTournament(request.params.id);
+      return reply.send(result);
+    }
+  );
+
   // Create tournament
   app.post<{ Body: CreateTournamentBody }>(
     '/',
@@ -0,0 +1,57 @@
+export const auditMethodSchema = {
+  type: 'string',
+  enum: ['POST', 'PUT', 'PATCH', 'DELETE'],
+} as const;
+
+const snapshotSchema = {
+  type: 'object',
+  nullable: true,
+  additionalProperties: true,
+} as const;
+
+export const auditLogSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: {
+      type: 'string',
+      nullable: true,
+      description: 'User who made the request, or owns the API key',
+    },
+    userEmail: { type: 'string', nullable: true },
+    apiKeyId: {
+      type: 'string',
+      nullable: true,
+      description: 'API key the request was authenticated with',
+    },
+    method: auditMethodSchema,
+    route: { type: 'string', description: 'Route pattern, e.g. /api/v1/players/:id' },
+    url: { type: 'string' },
+    statusCode: { type: 'integer' },
+    entityType: { type: 'string', description: 'Route group, e.g. players' },
+    entityId: { type: 'string', nullable: true },
+    before: { ...snapshotSchema, description: 'The entity before the change; null when created' },
+    after: { ...snapshotSchema, description: 'The entity after the change; null when deleted' },
+    changes: {
+      ...snapshotSchema,
+      description: 'Fields that differ, each as { before, after }',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'method', 'route', 'url', 'statusCode', 'entityType', 'createdAt'],
+} as const;
+
+export const auditLogListQuerySchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer', minimum: 1, default: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+    entityType: { type: 'string' },
+    entityId: { type: 'string' },
+    userId: { type: 'string' },
+    apiKeyId: { type: 'string' },
+    method: auditMethodSchema,
+    from: { type: 'string', format: 'date-time', description: 'Changes made at or after' },
+    to: { type: 'string', format: 'date-time', description: 'Changes made before' },
+  },
+} as const;
@@ -1,4 +1,10 @@
-import { eventBoosterTypes, tournamentSchema } from './tournament.js';
+import {
+  createTournamentSchema,
+  eventBoosterTypes,
+  tgpConfigSchema,
+  tournamentSchema,
+} from './tournament.js';
+import { identityCandidateSchema } from './player-match-review.js';
 
 export const importMatchplayTournamentBodySchema = {
   type: 'object',
@@ -12,27 +18,82 @@ export const importMatchplayTournamentBodySchema = {
       type: 'string',
       description: 'Matchplay API token (overrides server default)',
     },
+    finalsIds: {
+      type: 'array',
+      items: { type: 'integer', minimum: 1 },
+      maxItems: 8,
+      description:
+        'Matchplay IDs of the finals stages, A division first. Defaults to the linked Matchplay tournament; an empty list imports a single stage',
+    },
+    tgpConfig: {
+      ...tgpConfigSchema,
+      description: 'TGP configuration to use instead of the one derived from Matchplay games',
+    },
   },
 } as const;
 
-export const importMatchplayTournamentParamsSchema = {
+const tgpConfidenceSchema = {
   type: 'object',
-  required: ['id'],
+  description: 'Which TGP values were measured from Matchplay games or inferred',
   properties: {
-    id: { type: 'string', description: 'Matchplay tournament ID' },
+    level: { type: 'string', enum: ['high', 'medium', 'low'] },
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          source: { type: 'string', enum: ['measured', 'inferred'] },
+          detail: { type: 'string' },
+        },
+        required: ['field', 'source', 'detail'],
+      },
+    },
+    gamesMeasured: { type: 'integer' },
+    byes: { type: 'integer' },
+  },
+  required: ['level', 'fields', 'gamesMeasured', 'byes'],
+} as const;
+
+export const previewMatchplayTGPBodySchema = {
+  type: 'object',
+  properties: {
+    apiToken: importMatchplayTournamentBodySchema.properties.apiToken,
+    finalsIds: importMatchplayTournamentBodySchema.properties.finalsIds,
+  },
+} as const;
+
+export const tgpPreviewResponseSchema = {
+  type: 'object',
+  properties: {
+    tgpConfig: {
+      type: 'object',
+      additionalProperties: true,
+      description: 'TGP configuration of the whole event, as an import would use it',
+    },
+    stages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          matchplayId: { type: 'integer' },
+          isFinals: { type: 'boolean' },
+          tgpConfig: { type: 'object', additionalProperties: true },
+          confidence: tgpConfidenceSchema,
+        },
+        required: ['matchplayId', 'isFinals', 'tgpConfig', 'confidence'],
+      },
+    },
   },
+  required: ['tgpConfig', 'stages'],
 } as const;
 
-export const importTournamentResponseSchema = {
+export const importMatchplayTournamentParamsSchema = {
   type: 'object',
+  required: ['id'],
   properties: {
-    tournament: tournamentSchema,
-    playersCreated: { type: 'integer', description: 'Number of new players created' },
-    playersUpdated: { type: 'integer', description: 'Number of existing players updated' },
-    resultsCount: { type: 'integer', description: 'Number of results imported' },
-    created: { type: 'boolean', description: 'True if tournament was newly created, false if updated' },
+    id: { type: 'string', description: 'Matchplay tournament ID' },
   },
-  required: ['tournament', 'playersCreated', 'playersUpdated', 'resultsCount', 'created'],
 } as const;
 
 export const externalServiceErrorSchema = {
@@ -45,3 +106,167 @@ export const externalServiceErrorSchema = {
   },
   required: ['statusCode', 'error', 'message', 'service'],
 } as const;
+
+export const bulkImportMatchplayBodySchema = {
+  type: 'object',
+  properties: {
+    organizerId: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Import the completed tournaments of this Matchplay organizer',
+    },
+    seriesId: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Import the completed tournaments of this Matchplay series',
+    },
+    tournamentIds: {
+      type: 'array',
+      items: { type: 'integer', minimum: 1 },
+      minItems: 1,
+      maxItems: 100,
+      description: 'Import these Matchplay tournaments',
+    },
+    from: {
+      type: 'string',
+      format: 'date',
+      description: 'Only import organizer or series tournaments starting on or after this date',
+    },
+    to: {
+      type: 'string',
+      format: 'date',
+      description: 'Only import organizer or series tournaments starting on or before this date',
+    },
+    eventBooster: importMatchplayTournamentBodySchema.properties.eventBooster,
+    apiToken: importMatchplayTournamentBodySchema.properties.apiToken,
+  },
+} as const;
+
+const csvColumnSchema = {
+  anyOf: [
+    { type: 'string', minLength: 1 },
+    { type: 'integer', minimum: 0 },
+  ],
+  description: 'Header name of the column, or its zero-based index',
+} as const;
+
+const csvImportTournamentProperties = createTournamentSchema.properties;
+
+export const csvImportBodySchema = {
+  type: 'object',
+  required: ['csv', 'tournament'],
+  properties: {
+    csv: {
+      type: 'string',
+      minLength: 1,
+      description:
+        'Results as CSV or TSV. Columns are found by header name (Position, Name, Player Number, External ID, Opted Out, Finals, Email), or are in that order without a header',
+    },
+    dryRun: {
+      type: 'boolean',
+      default: false,
+      description: 'Match players and report unmatched names without creating anything',
+    },
+    delimiter: {
+      type: 'string',
+      enum: [',', '\t', ';'],
+      description: 'Field delimiter (defaults to tab when the first line has one, otherwise comma)',
+    },
+    hasHeader: {
+      type: 'boolean',
+      description: 'Whether the first line is a header (detected from its column names by default)',
+    },
+    columns: {
+      type: 'object',
+      additionalProperties: false,
+      description: 'Columns to read, overriding the ones detected from the header',
+      properties: {
+        position: csvColumnSchema,
+        name: csvColumnSchema,
+        playerNumber: csvColumnSchema,
+        externalId: csvColumnSchema,
+        optedOut: csvColumnSchema,
+        isFinals: csvColumnSchema,
+        email: csvColumnSchema,
+      },
+    },
+    tournament: {
+      type: 'object',
+      required: ['name', 'date', 'tgpConfig'],
+      description: 'The tournament to create with the results',
+      properties: {
+        name: csvImportTournamentProperties.name,
+        date: csvImportTournamentProperties.date,
+        externalId: csvImportTournamentProperties.externalId,
+        description: csvImportTournamentProperties.description,
+        locationId: csvImportTournamentProperties.locationId,
+        organizerId: csvImportTournamentProperties.organizerId,
+        tgpConfig: tgpConfigSchema,
+        eventBooster: csvImportTournamentProperties.eventBooster,
+        qualifyingFormat: csvImportTournamentProperties.qualifyingFormat,
+        allowsOptOut: csvImportTournamentProperties.allowsOptOut,
+      },
+    },
+  },
+} as const;
+
+const csvImportRowSchema = {
+  type: 'object',
+  properties: {
+    line: { type: 'integer' },
+    position: { type: 'integer' },
+    name: { type: 'string' },
+    playerNumber: { type: 'integer' },
+    externalId: { type: 'string' },
+    optedOut: { type: 'boolean' },
+    isFinals: { type: 'boolean' },
+    email: { type: 'string' },
+    playerId: { type: 'string', nullable: true },
+    matchedBy: {
+      type: 'string',
+      enum: ['playerNumber', 'externalId', 'identity'],
+      nullable: true,
+    },
+    candidates: {
+      type: 'array',
+      items: identityCandidateSchema,
+      description: 'Existing players the row resembles, best first',
+    },
+  },
+  required: ['line', 'position', 'optedOut', 'isFinals', 'playerId', 'matchedBy', 'candidates'],
+} as const;
+
+export const csvImportResponseSchema = {
+  type: 'object',
+  properties: {
+    dryRun: { type: 'boolean' },
+    tournament: { ...tournamentSchema, nullable: true },
+    rows: { type: 'array', items: csvImportRowSchema },
+    unmatched: {
+      type: 'array',
+      items: csvImportRowSchema,
+      description: 'Rows resembling no player; a player is created for each of them',
+    },
+    ambiguous: {
+      type: 'array',
+      items: csvImportRowSchema,
+      description:
+        'Rows that may be existing players without a confident match; a player is created for each of them and queued for review',
+    },
+    playersCreated: { type: 'integer' },
+    reviewsQueued: { type: 'integer' },
+    resultsCount: { type: 'integer' },
+    ratingsUpdated: { type: 'integer' },
+  },
+  required: [
+    'dryRun',
+    'tournament',
+    'rows',
+    'unmatched',
+    'ambiguous',
+    'playersCreated',
+    'reviewsQueued',
+    'resultsCount',
+    'ratingsUpdated',
+  ],
+} as const;
@@ -0,0 +1,73 @@
+export const jobStatusSchema = {
+  type: 'string',
+  enum: ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'],
+} as const;
+
+// Properties not listed here are left out of responses. API tokens are not
+// part of payloads: they are stored encrypted as the job's secret
+export const jobPayloadSchema = {
+  type: 'object',
+  properties: {
+    matchplayId: { type: 'integer' },
+    finalsIds: { type: 'array', items: { type: 'integer' } },
+    tgpConfig: { type: 'object', additionalProperties: true },
+    organizerId: { type: 'integer' },
+    seriesId: { type: 'integer' },
+    tournamentIds: { type: 'array', items: { type: 'integer' } },
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    eventBooster: { type: 'string' },
+    dryRun: { type: 'boolean' },
+    referenceDate: { type: 'string', format: 'date-time' },
+  },
+  additionalProperties: false,
+} as const;
+
+export const jobSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string' },
+    status: jobStatusSchema,
+    payload: jobPayloadSchema,
+    result: {
+      type: 'object',
+      nullable: true,
+      additionalProperties: true,
+      description: 'Result of a completed job, shaped like the response of the equivalent route',
+    },
+    error: { type: 'string', nullable: true },
+    progress: { type: 'integer' },
+    progressTotal: { type: 'integer', nullable: true },
+    attempts: { type: 'integer' },
+    cancelRequested: { type: 'boolean' },
+    createdById: { type: 'string', nullable: true },
+    runAt: { type: 'string', format: 'date-time' },
+    startedAt: { type: 'string', format: 'date-time', nullable: true },
+    completedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: [
+    'id',
+    'type',
+    'status',
+    'payload',
+    'progress',
+    'attempts',
+    'cancelRequested',
+    'runAt',
+    'createdAt',
+    'updatedAt',
+  ],
+} as const;
+
+export const jobListQuerySchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer', minimum: 1, default: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+    status: jobStatusSchema,
+    type: { type: 'string' },
+  },
+} as const;
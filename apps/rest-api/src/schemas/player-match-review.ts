@@ -0,0 +1,84 @@
+export const playerMatchReviewStatusSchema = {
+  type: 'string',
+  enum: ['PENDING', 'MATCHED', 'DISMISSED'],
+} as const;
+
+export const identityCandidateSchema = {
+  type: 'object',
+  properties: {
+    playerId: { type: 'string' },
+    name: { type: 'string', nullable: true },
+    playerNumber: { type: 'integer' },
+    score: { type: 'number', description: 'Confidence that the candidate is the player, 0 to 1' },
+    reasons: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['playerNumber', 'email', 'name', 'similarName', 'sharedHistory'],
+      },
+    },
+  },
+  required: ['playerId', 'name', 'playerNumber', 'score', 'reasons'],
+} as const;
+
+const reviewPlayerSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string', nullable: true },
+    playerNumber: { type: 'integer' },
+  },
+} as const;
+
+export const playerMatchReviewSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    status: playerMatchReviewStatusSchema,
+    source: { type: 'string', description: 'Import that queued the review, e.g. matchplay, csv' },
+    externalId: { type: 'string', nullable: true },
+    name: { type: 'string', nullable: true },
+    candidates: { type: 'array', items: identityCandidateSchema },
+    playerId: {
+      type: 'string',
+      nullable: true,
+      description: 'Player created by the import; null once matched',
+    },
+    player: reviewPlayerSchema,
+    tournamentId: { type: 'string', nullable: true },
+    tournament: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        date: { type: 'string', format: 'date-time' },
+      },
+    },
+    matchedPlayerId: { type: 'string', nullable: true },
+    matchedPlayer: reviewPlayerSchema,
+    resolvedById: { type: 'string', nullable: true },
+    resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'status', 'source', 'candidates', 'createdAt', 'updatedAt'],
+} as const;
+
+export const playerMatchReviewListQuerySchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer', minimum: 1, default: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+    status: playerMatchReviewStatusSchema,
+  },
+} as const;
+
+export const matchPlayerBodySchema = {
+  type: 'object',
+  required: ['playerId'],
+  properties: {
+    playerId: { type: 'string', description: 'The existing player the reviewed player is' },
+  },
+} as const;
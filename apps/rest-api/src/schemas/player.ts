@@ -1,8 +1,33 @@
+export const playerIdentityStatusSchema = {
+  type: 'string',
+  enum: ['UNVERIFIED', 'VERIFIED'],
+  description:
+    'UNVERIFIED when an import linked the ID by resolving the player; VERIFIED when created with the player or confirmed by an admin',
+} as const;
+
+export const playerIdentitySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    source: { type: 'string', description: 'System of the ID, e.g. matchplay, ifpa' },
+    externalId: { type: 'string', description: 'ID of the player in that system' },
+    status: playerIdentityStatusSchema,
+    playerId: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
 export const playerSchema = {
   type: 'object',
   properties: {
     id: { type: 'string' },
-    externalId: { type: 'string', nullable: true },
+    externalId: {
+      type: 'string',
+      nullable: true,
+      description:
+        'ID the player is best known by, such as matchplay:123: their first verified identity, or their first identity',
+    },
     name: { type: 'string', nullable: true },
     rating: { type: 'number' },
     ratingDeviation: { type: 'number' },
@@ -13,13 +38,21 @@ export const playerSchema = {
     lastEventDate: { type: 'string', format: 'date-time', nullable: true },
     createdAt: { type: 'string', format: 'date-time' },
     updatedAt: { type: 'string', format: 'date-time' },
+    identities: {
+      type: 'array',
+      items: playerIdentitySchema,
+      description: 'IDs of the player in other systems; included with a single player',
+    },
   },
 } as const;
 
 export const createPlayerSchema = {
   type: 'object',
   properties: {
-    externalId: { type: 'string' },
+    externalId: {
+      type: 'string',
+      description: 'ID in another system, such as matchplay:123, kept as a verified identity',
+    },
     name: { type: 'string' },
     rating: { type: 'number', default: 1500 },
     ratingDeviation: { type: 'number', default: 200 },
@@ -68,11 +101,55 @@ export const topPlayersQuerySchema = {
   },
 } as const;
 
+const playerEventSchema = {
+  type: 'object',
+  properties: {
+    tournament: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        date: { type: 'string', format: 'date-time' },
+      },
+    },
+    position: { type: 'integer' },
+    pointsEarned: { type: 'number' },
+    firstPlaceValue: { type: 'number' },
+    date: { type: 'string', format: 'date-time' },
+    ageInDays: { type: 'integer' },
+    decayMultiplier: { type: 'number' },
+    decayedPoints: { type: 'number' },
+  },
+} as const;
+
 export const playerStatsSchema = {
   type: 'object',
   properties: {
+    player: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        rating: { type: 'number' },
+        ranking: { type: 'integer' },
+        isRated: { type: 'boolean' },
+        ratingDeviation: { type: 'number' },
+        eventCount: { type: 'integer' },
+      },
+    },
+    referenceDate: { type: 'string', format: 'date-time' },
+    events: {
+      type: 'array',
+      items: playerEventSchema,
+      description: 'Active events, most recent first',
+    },
+    top15Events: {
+      type: 'array',
+      items: playerEventSchema,
+      description: 'Events counting toward ranking points, highest decayed points first',
+    },
+    totalPoints: { type: 'number', description: 'Ranking points (sum of top 15 decayed points)' },
+    efficiency: { type: 'number', description: 'Overall efficiency percentage of active events' },
     totalEvents: { type: 'integer' },
-    totalPoints: { type: 'number' },
     totalDecayedPoints: { type: 'number' },
     averagePoints: { type: 'number' },
     averagePosition: { type: 'number' },
@@ -90,6 +167,7 @@ export const playerResultSchema = {
   properties: {
     id: { type: 'string' },
     position: { type: 'integer' },
+    positionEnd: { type: 'integer', nullable: true },
     optedOut: { type: 'boolean' },
     linearPoints: { type: 'number', nullable: true },
     dynamicPoints: { type: 'number', nullable: true },
@@ -110,3 +188,87 @@ export const playerResultSchema = {
     },
   },
 } as const;
+
+export const mergePlayerBodySchema = {
+  type: 'object',
+  required: ['targetPlayerId'],
+  properties: {
+    targetPlayerId: {
+      type: 'string',
+      description: 'The player to keep, who takes over the results of the merged player',
+    },
+  },
+} as const;
+
+export const playerMergeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    sourcePlayerId: { type: 'string', description: 'ID of the merged player, now redirecting' },
+    sourcePlayerNumber: { type: 'integer' },
+    sourceName: { type: 'string', nullable: true },
+    sourceExternalId: { type: 'string', nullable: true },
+    mergedIntoId: { type: 'string', description: 'Player the merged player was merged into' },
+    targetPlayerId: {
+      type: 'string',
+      description: 'Player the merged player redirects to, following later merges',
+    },
+    mergedById: { type: 'string', nullable: true },
+    summary: {
+      type: 'object',
+      properties: {
+        standingsMoved: { type: 'integer' },
+        standingsDropped: {
+          type: 'integer',
+          description: 'Worse placed standings of tournament stages both players played',
+        },
+        tournamentsReassigned: { type: 'integer' },
+        userMoved: { type: 'boolean' },
+        identitiesMoved: { type: 'integer' },
+        rankingHistoryMoved: { type: 'integer' },
+        ratingTaken: {
+          type: 'boolean',
+          description: "Whether the merged player's rating was kept, having the lower deviation",
+        },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const mergePlayerResponseSchema = {
+  type: 'object',
+  properties: {
+    merge: playerMergeSchema,
+    player: playerSchema,
+    tournamentsRecalculated: { type: 'integer' },
+  },
+} as const;
+
+export const identityParamsSchema = {
+  type: 'object',
+  required: ['id', 'identityId'],
+  properties: {
+    id: { type: 'string' },
+    identityId: { type: 'string' },
+  },
+} as const;
+
+export const createPlayerIdentitySchema = {
+  type: 'object',
+  required: ['source', 'externalId'],
+  properties: {
+    source: { type: 'string', minLength: 1, pattern: '^[^:]+$' },
+    externalId: { type: 'string', minLength: 1 },
+    status: { ...playerIdentityStatusSchema, default: 'VERIFIED' },
+  },
+} as const;
+
+export const updatePlayerIdentitySchema = {
+  type: 'object',
+  properties: {
+    source: { type: 'string', minLength: 1, pattern: '^[^:]+$' },
+    externalId: { type: 'string', minLength: 1 },
+    status: playerIdentityStatusSchema,
+  },
+} as const;
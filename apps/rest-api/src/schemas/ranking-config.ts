@@ -0,0 +1,86 @@
+export const rankingConfigSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    version: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    config: { type: 'object', additionalProperties: true },
+    isActive: { type: 'boolean' },
+    activatedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const createRankingConfigSchema = {
+  type: 'object',
+  required: ['version', 'name', 'config'],
+  properties: {
+    version: { type: 'string', minLength: 1, maxLength: 50 },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    config: { type: 'object', additionalProperties: true },
+  },
+} as const;
+
+export const updateRankingConfigSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'string', minLength: 1, maxLength: 50 },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string', nullable: true },
+    config: { type: 'object', additionalProperties: true },
+  },
+} as const;
+
+export const rankingConfigListQuerySchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer', minimum: 1, default: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+  },
+} as const;
+
+export const rankingConfigPreviewSchema = {
+  type: 'object',
+  properties: {
+    configId: { type: 'string' },
+    version: { type: 'string' },
+    scope: {
+      type: 'string',
+      enum: ['full-recalculation'],
+      description:
+        'Every tournament is recalculated under the proposed configuration, not only those it would govern once activated',
+    },
+    tournamentsEvaluated: { type: 'integer' },
+    tournaments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          tournamentId: { type: 'string' },
+          name: { type: 'string' },
+          date: { type: 'string', format: 'date-time' },
+          currentValue: { type: 'number' },
+          proposedValue: { type: 'number' },
+          change: { type: 'number' },
+        },
+      },
+    },
+    leaderboard: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          playerId: { type: 'string' },
+          name: { type: 'string', nullable: true },
+          currentRanking: { type: 'integer', nullable: true },
+          proposedRanking: { type: 'integer', nullable: true },
+          currentPoints: { type: 'number' },
+          proposedPoints: { type: 'number' },
+        },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,54 @@
+export const scheduledTaskRunStatusSchema = {
+  type: 'string',
+  enum: ['RUNNING', 'SUCCEEDED', 'FAILED'],
+} as const;
+
+export const scheduledTaskRunSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    status: scheduledTaskRunStatusSchema,
+    runBy: { type: 'string', description: 'Instance that ran the task' },
+    result: { type: 'object', nullable: true, additionalProperties: true },
+    error: { type: 'string', nullable: true },
+    startedAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time', nullable: true },
+  },
+  required: ['id', 'status', 'runBy', 'startedAt'],
+} as const;
+
+export const scheduledTaskSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    schedule: {
+      type: 'string',
+      nullable: true,
+      description: 'Cron expression (UTC), or null when the task is disabled',
+    },
+    enabled: { type: 'boolean' },
+    running: { type: 'boolean', description: 'Whether an instance holds the lease of the task' },
+    lastRunAt: { type: 'string', format: 'date-time', nullable: true },
+    nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+    lastRun: { ...scheduledTaskRunSchema, nullable: true },
+  },
+  required: ['name', 'description', 'enabled', 'running'],
+} as const;
+
+export const scheduledTaskListResponseSchema = {
+  type: 'object',
+  properties: {
+    schedulerEnabled: { type: 'boolean' },
+    tasks: { type: 'array', items: scheduledTaskSchema },
+  },
+  required: ['schedulerEnabled', 'tasks'],
+} as const;
+
+export const scheduledTaskNameParamSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string' },
+  },
+} as const;
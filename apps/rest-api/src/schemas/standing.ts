@@ -5,6 +5,7 @@ export const standingSchema = {
     playerId: { type: 'string' },
     tournamentId: { type: 'string' },
     position: { type: 'integer' },
+    positionEnd: { type: 'integer', nullable: true },
     isFinals: { type: 'boolean' },
     optedOut: { type: 'boolean' },
     linearPoints: { type: 'number', nullable: true },
@@ -26,6 +27,7 @@ export const standingWithRelationsSchema = {
     playerId: { type: 'string' },
     tournamentId: { type: 'string' },
     position: { type: 'integer' },
+    positionEnd: { type: 'integer', nullable: true },
     isFinals: { type: 'boolean' },
     optedOut: { type: 'boolean' },
     linearPoints: { type: 'number', nullable: true },
@@ -66,6 +68,11 @@ export const createStandingSchema = {
     playerId: { type: 'string' },
     tournamentId: { type: 'string' },
     position: { type: 'integer', minimum: 1 },
+    positionEnd: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Last position of a tie range (e.g. 6 when tied for 5th-6th)',
+    },
     isFinals: { type: 'boolean', default: false },
     optedOut: { type: 'boolean', default: false },
     linearPoints: { type: 'number' },
@@ -88,6 +95,7 @@ export const updateStandingSchema = {
   type: 'object',
   properties: {
     position: { type: 'integer', minimum: 1 },
+    positionEnd: { type: 'integer', minimum: 1, nullable: true },
     optedOut: { type: 'boolean' },
     linearPoints: { type: 'number' },
     dynamicPoints: { type: 'number' },
@@ -120,11 +128,28 @@ export const batchStandingResponseSchema = {
   required: ['count'],
 } as const;
 
-export const recalculateDecayResponseSchema = {
+export const refreshRankingsResponseSchema = {
   type: 'object',
   properties: {
-    count: { type: 'integer' },
+    count: { type: 'integer', description: 'Number of player rankings updated' },
+    rankedCount: { type: 'integer', description: 'Number of rated players assigned a ranking' },
     message: { type: 'string' },
   },
-  required: ['count', 'message'],
+  required: ['count', 'rankedCount', 'message'],
+} as const;
+
+export const historicalReplayBodySchema = {
+  type: 'object',
+  properties: {
+    dryRun: {
+      type: 'boolean',
+      default: false,
+      description: 'Calculate the replay and report changes without writing them',
+    },
+    referenceDate: {
+      type: 'string',
+      format: 'date-time',
+      description: 'Date that time decay and rankings are calculated for (defaults to now)',
+    },
+  },
 } as const;
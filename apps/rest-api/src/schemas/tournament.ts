@@ -14,6 +14,60 @@ export const tournamentFormatTypes = [
   'NONE',
 ] as const;
 
+const gameGroupProperties = {
+  fourPlayerGroups: { type: 'boolean' },
+  threePlayerGroups: { type: 'boolean' },
+  multiMatchplay: { type: 'boolean' },
+} as const;
+
+/**
+ * TGP configuration of a tournament, as the core package evaluates it
+ */
+export const tgpConfigSchema = {
+  type: 'object',
+  required: ['qualifying', 'finals'],
+  properties: {
+    qualifying: {
+      type: 'object',
+      required: ['type', 'meaningfulGames'],
+      properties: {
+        type: { type: 'string', enum: ['unlimited', 'limited', 'hybrid', 'none'] },
+        meaningfulGames: { type: 'number', minimum: 0 },
+        hours: { type: 'number', minimum: 0 },
+        ...gameGroupProperties,
+        machineCount: { type: 'integer', minimum: 0 },
+        totalEntries: { type: 'integer', minimum: 0 },
+      },
+    },
+    finals: {
+      type: 'object',
+      required: ['formatType', 'meaningfulGames'],
+      properties: {
+        formatType: {
+          type: 'string',
+          enum: [
+            'single-elimination',
+            'double-elimination',
+            'match-play',
+            'best-game',
+            'card-qualifying',
+            'pin-golf',
+            'flip-frenzy',
+            'strike-format',
+            'target-match-play',
+            'hybrid',
+            'none',
+          ],
+        },
+        meaningfulGames: { type: 'number' },
+        ...gameGroupProperties,
+        finalistCount: { type: 'integer', minimum: 0 },
+      },
+    },
+    ballCountAdjustment: { type: 'number', minimum: 0, maximum: 1 },
+  },
+} as const;
+
 export const tournamentSchema = {
   type: 'object',
   properties: {
@@ -55,6 +109,7 @@ export const tournamentSchema = {
     tgp: { type: 'number', nullable: true },
     eventBoosterMultiplier: { type: 'number', nullable: true },
     firstPlaceValue: { type: 'number', nullable: true },
+    rulesetVersion: { type: 'string', nullable: true },
     createdAt: { type: 'string', format: 'date-time' },
     updatedAt: { type: 'string', format: 'date-time' },
   },
@@ -150,6 +205,7 @@ export const tournamentResultSchema = {
   properties: {
     id: { type: 'string' },
     position: { type: 'integer' },
+    positionEnd: { type: 'integer', nullable: true },
     optedOut: { type: 'boolean' },
     linearPoints: { type: 'number', nullable: true },
     dynamicPoints: { type: 'number', nullable: true },
@@ -169,3 +225,130 @@ export const tournamentResultSchema = {
     },
   },
 } as const;
+
+const traceStepSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    value: { type: 'number' },
+  },
+} as const;
+
+const calculationTraceProperties = {
+  value: { type: 'number' },
+  steps: { type: 'array', items: traceStepSchema },
+  capped: { type: 'boolean' },
+} as const;
+
+const calculationTraceSchema = {
+  type: 'object',
+  properties: calculationTraceProperties,
+} as const;
+
+const tvaTraceSchema = {
+  type: 'object',
+  properties: {
+    ...calculationTraceProperties,
+    contributions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          playerId: { type: 'string' },
+          input: { type: 'number' },
+          contribution: { type: 'number' },
+        },
+      },
+    },
+  },
+} as const;
+
+const tgpComponentTraceSchema = {
+  type: 'object',
+  properties: {
+    ...calculationTraceProperties,
+    meaningfulGames: { type: 'number' },
+    gameValue: { type: 'number' },
+    multipliers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          factor: { type: 'number' },
+        },
+      },
+    },
+  },
+} as const;
+
+const tournamentValueProperties = {
+  baseValue: { type: 'number' },
+  tvaRating: { type: 'number' },
+  tvaRanking: { type: 'number' },
+  totalTVA: { type: 'number' },
+  tgp: { type: 'number' },
+  eventBoosterMultiplier: { type: 'number' },
+  firstPlaceValue: { type: 'number' },
+} as const;
+
+export const tournamentTraceSchema = {
+  type: 'object',
+  properties: {
+    tournamentId: { type: 'string' },
+    rulesetVersion: { type: 'string' },
+    value: { type: 'object', properties: tournamentValueProperties },
+    stored: {
+      type: 'object',
+      properties: {
+        baseValue: { type: 'number', nullable: true },
+        tvaRating: { type: 'number', nullable: true },
+        tvaRanking: { type: 'number', nullable: true },
+        totalTVA: { type: 'number', nullable: true },
+        tgp: { type: 'number', nullable: true },
+        eventBoosterMultiplier: { type: 'number', nullable: true },
+        firstPlaceValue: { type: 'number', nullable: true },
+      },
+    },
+    trace: {
+      type: 'object',
+      properties: {
+        baseValue: calculationTraceSchema,
+        tvaRating: tvaTraceSchema,
+        tvaRanking: tvaTraceSchema,
+        tgp: {
+          type: 'object',
+          properties: {
+            ...calculationTraceProperties,
+            qualifying: tgpComponentTraceSchema,
+            finals: tgpComponentTraceSchema,
+          },
+        },
+        eventBooster: calculationTraceSchema,
+        firstPlaceValue: calculationTraceSchema,
+        pointDistribution: {
+          type: 'object',
+          properties: {
+            activePlayerCount: { type: 'integer' },
+            ratedPlayerCount: { type: 'integer' },
+            optedOutCount: { type: 'integer' },
+            dynamicPositions: { type: 'integer' },
+            tiedPositionCount: { type: 'integer' },
+            steps: { type: 'array', items: traceStepSchema },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+export const tournamentRecalculationSchema = {
+  type: 'object',
+  properties: {
+    tournamentId: { type: 'string' },
+    rulesetVersion: { type: 'string' },
+    value: { type: 'object', properties: tournamentValueProperties },
+    standingsUpdated: { type: 'integer' },
+  },
+  required: ['tournamentId', 'rulesetVersion', 'value', 'standingsUpdated'],
+} as const;
@@ -0,0 +1,158 @@
+import {
+  findApiKeyById,
+  findBlogPostById,
+  findBlogTagById,
+  findJobById,
+  findLocationById,
+  findPlayerById,
+  findPlayerMatchReviewById,
+  findRankingConfigById,
+  findScheduledTaskByName,
+  findStandingById,
+  findTournamentById,
+  findUserById,
+} from '@opprs/db-prisma';
+import type { Prisma } from '@opprs/db-prisma';
+
+const API_PREFIX = '/api/v1/';
+
+/** Requests with these methods are audited */
+export const AUDITED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/** Route groups that change no entities, only sessions */
+const UNAUDITED_ENTITY_TYPES = new Set(['auth']);
+
+/** Fields never recorded, such as password and API key hashes */
+const REDACTED_FIELDS = new Set(['passwordHash', 'refreshTokenHash', 'keyHash']);
+
+/**
+ * Fields never recorded for the entities of a route group: the encrypted
+ * Matchplay token of a job, and the token in payloads of jobs queued before
+ * it was kept apart
+ */
+const REDACTED_ENTITY_FIELDS: Record<string, Set<string>> = {
+  jobs: new Set(['secret', 'apiToken']),
+};
+
+/** Fields that change with every write, left out of the changes */
+const UNCOMPARED_FIELDS = new Set(['updatedAt']);
+
+/**
+ * Loads the entities of each route group by ID, so they can be recorded as
+ * they were before and after a write. Groups without a loader are recorded
+ * without snapshots.
+ */
+const entityLoaders: Record<string, (id: string) => Promise<object | null>> = {
+  players: (id) => findPlayerById(id, { identities: true }),
+  tournaments: (id) => findTournamentById(id),
+  standings: (id) => findStandingById(id),
+  locations: (id) => findLocationById(id),
+  users: (id) => findUserById(id),
+  'api-keys': findApiKeyById,
+  'blog-posts': findBlogPostById,
+  'blog-tags': findBlogTagById,
+  'ranking-configs': findRankingConfigById,
+  jobs: findJobById,
+  'player-match-reviews': findPlayerMatchReviewById,
+  'scheduled-tasks': findScheduledTaskByName,
+};
+
+/**
+ * The entity a write applies to
+ */
+export interface AuditTarget {
+  /** Route group, e.g. players */
+  entityType: string;
+  entityId?: string;
+  /** Whether the write creates the entity, whose ID is in the response */
+  createsEntity: boolean;
+}
+
+export type AuditSnapshot = Prisma.JsonObject;
+
+export type AuditChanges = Record<string, { before: Prisma.JsonValue; after: Prisma.JsonValue }>;
+
+/**
+ * Finds the entity a write to a route applies to: the route group after
+ * /api/v1 and the ID or name in the path. Returns null for routes that are
+ * not audited.
+ */
+export function getAuditTarget(route: string, params: unknown): AuditTarget | null {
+  if (!route.startsWith(API_PREFIX)) {
+    return null;
+  }
+  const path = route.slice(API_PREFIX.length).replace(/\/$/, '');
+  const [entityType = ''] = path.split('/');
+  if (!entityType || UNAUDITED_ENTITY_TYPES.has(entityType)) {
+    return null;
+  }
+
+  const { id, name } = (params ?? {}) as { id?: string; name?: string };
+  return { entityType, entityId: id ?? name, createsEntity: path === entityType };
+}
+
+/**
+ * Takes the ID of a created entity from the response
+ */
+export function getCreatedEntityId(payload: string): string | undefined {
+  try {
+    const body: unknown = JSON.parse(payload);
+    const id = (body as { id?: unknown } | null)?.id;
+    return typeof id === 'string' ? id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts an entity of a route group to JSON as it is recorded, without
+ * redacted fields
+ */
+export function toAuditSnapshot(entity: object | null, entityType?: string): AuditSnapshot | null {
+  if (!entity) {
+    return null;
+  }
+  const entityFields = entityType ? REDACTED_ENTITY_FIELDS[entityType] : undefined;
+  return JSON.parse(
+    JSON.stringify(entity, (key, value: unknown) =>
+      REDACTED_FIELDS.has(key) || entityFields?.has(key) ? undefined : value
+    )
+  ) as AuditSnapshot;
+}
+
+/**
+ * Loads the snapshot of an entity, or null when it does not exist or its
+ * route group has no loader
+ */
+export async function loadAuditSnapshot(
+  entityType: string,
+  entityId: string
+): Promise<AuditSnapshot | null> {
+  const load = entityLoaders[entityType];
+  return load ? toAuditSnapshot(await load(entityId), entityType) : null;
+}
+
+/**
+ * Lists the fields that differ between two snapshots with their values
+ * before and after. A missing snapshot counts as an entity without fields.
+ */
+export function diffAuditSnapshots(
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (UNCOMPARED_FIELDS.has(field)) {
+      continue;
+    }
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,360 @@
+import {
+  parseResultsCSV,
+  validatePlayerResults,
+  validateTGPConfig,
+  ValidationError,
+} from '@opprs/core';
+import type { ParseResultsCSVOptions, ParsedResultRow, PlayerResult, TGPConfig } from '@opprs/core';
+import {
+  findPlayerByExternalId,
+  findPlayerByPlayerNumber,
+  findTournamentByExternalId,
+  findTournamentById,
+  importTournamentResults,
+} from '@opprs/db-prisma';
+import type {
+  CreatePlayerInput,
+  CreateTournamentInput,
+  Prisma,
+  Tournament,
+} from '@opprs/db-prisma';
+import { BadRequestError, ConflictError } from '../utils/errors.js';
+import { createTournamentPointsCalculator } from './tournament-recalculation.js';
+import { applyTournamentRatingUpdates } from './rating-update.js';
+import { queuePlayerMatchReview, resolvePlayerIdentity } from './identity-resolution.js';
+import type {
+  IdentityCandidate,
+  IdentityInput,
+  IdentityResolution,
+} from './identity-resolution.js';
+
+export type CsvImportTournament = Omit<
+  CreateTournamentInput,
+  | 'externalUrl'
+  | 'tgpConfig'
+  | 'baseValue'
+  | 'tvaRating'
+  | 'tvaRanking'
+  | 'totalTVA'
+  | 'tgp'
+  | 'eventBoosterMultiplier'
+  | 'firstPlaceValue'
+  | 'rulesetVersion'
+> & {
+  tgpConfig: TGPConfig;
+};
+
+export interface CsvImportOptions extends ParseResultsCSVOptions {
+  /** The tournament to create with the results */
+  tournament: CsvImportTournament;
+  /** Match players without creating anything */
+  dryRun?: boolean;
+}
+
+export interface CsvImportRow extends ParsedResultRow {
+  /**
+   * Database ID of the matched player, or of the player created for an
+   * unmatched row. Null in a dry run when no player is matched.
+   */
+  playerId: string | null;
+  /**
+   * How the player was matched: by key, or by identity resolution from the
+   * name and email
+   */
+  matchedBy: 'playerNumber' | 'externalId' | 'identity' | null;
+  /** Existing players the row resembles, best first */
+  candidates: IdentityCandidate[];
+}
+
+export interface CsvImportResult {
+  dryRun: boolean;
+  /** The created tournament, or null for a dry run */
+  tournament: Tournament | null;
+  rows: CsvImportRow[];
+  /** Rows resembling no player; a player is created for each of them */
+  unmatched: CsvImportRow[];
+  /**
+   * Rows that may be existing players without a confident match; a player is
+   * created for each of them and queued for admin review
+   */
+  ambiguous: CsvImportRow[];
+  playersCreated: number;
+  reviewsQueued: number;
+  resultsCount: number;
+  ratingsUpdated: number;
+}
+
+/**
+ * Match a row to a player by player number or external ID
+ */
+async function matchRowByKey(row: ParsedResultRow): Promise<CsvImportRow> {
+  if (row.playerNumber !== undefined) {
+    const player = await findPlayerByPlayerNumber(row.playerNumber);
+    if (!player) {
+      throw new BadRequestError(`Line ${row.line}: No player with number ${row.playerNumber}`);
+    }
+    return { ...row, playerId: player.id, matchedBy: 'playerNumber', candidates: [] };
+  }
+
+  const player = row.externalId ? await findPlayerByExternalId(row.externalId) : null;
+  return {
+    ...row,
+    playerId: player?.id ?? null,
+    matchedBy: player ? 'externalId' : null,
+    candidates: [],
+  };
+}
+
+/**
+ * Key of the new player of an unmatched row: rows naming the same unmatched
+ * player share one new player
+ */
+function newPlayerKey(row: CsvImportRow): string {
+  if (row.externalId) {
+    return `external:${row.externalId}`;
+  }
+  return row.email ? `email:${row.email.toLowerCase()}` : `name:${row.name?.toLowerCase()}`;
+}
+
+/**
+ * Check that no player has two standings in the same stage
+ */
+function checkDuplicatePlayers(rows: CsvImportRow[]): void {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const player = row.playerId ?? newPlayerKey(row);
+    const key = `${row.isFinals}:${player}`;
+    if (seen.has(key)) {
+      throw new BadRequestError(
+        `Line ${row.line}: Player appears more than once in the ${row.isFinals ? 'finals' : 'qualifying'}`
+      );
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Check the positions of the rows merged into the one ranking points are
+ * distributed by: finalists first by finals position, then the other players
+ * by qualifying position, as getMergedStandings merges them.
+ */
+function validateMergedPositions(rows: CsvImportRow[]): void {
+  const playerKey = (row: CsvImportRow): string => row.playerId ?? newPlayerKey(row);
+  const result = (row: CsvImportRow, position: number): PlayerResult => ({
+    player: { id: playerKey(row), rating: 0, ranking: 0, isRated: false },
+    position,
+  });
+
+  const finals = rows.filter((row) => row.isFinals);
+  const finalistKeys = new Set(finals.map(playerKey));
+  const nonFinalists = rows.filter((row) => !row.isFinals && !finalistKeys.has(playerKey(row)));
+
+  try {
+    validatePlayerResults([
+      ...finals.map((row) => result(row, row.position)),
+      ...nonFinalists.map((row) =>
+        result(
+          row,
+          finals.length + nonFinalists.filter((other) => other.position < row.position).length + 1
+        )
+      ),
+    ]);
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      throw new BadRequestError(`Invalid results: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Count the players at each position of each stage, to find ties
+ */
+function countPlayersByPosition(rows: CsvImportRow[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const key = `${row.isFinals}:${row.position}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Import tournament results from CSV or TSV.
+ *
+ * Each row is matched to a player by player number or external ID (see
+ * parseResultsCSV for the columns); an unknown player number stops the
+ * import. Other rows are matched by identity resolution from their name and
+ * email, counting tournaments played with the players already matched. Rows
+ * resembling no player get a new player; rows that may be an existing player,
+ * without a confident match, also get a new player, queued for admin review.
+ * Positions are checked as merged into one ranking, so a dry run fails where
+ * the import would. A dry run reports the matches without writing anything.
+ *
+ * Otherwise the players, the tournament and its standings are created and
+ * its value and points calculated from the TGP configuration in one
+ * transaction, after which player ratings are updated from the standings.
+ */
+export async function importResultsCSV(
+  csv: string,
+  options: CsvImportOptions
+): Promise<CsvImportResult> {
+  const { tournament: tournamentInput, dryRun = false, ...parseOptions } = options;
+
+  let parsed: ParsedResultRow[];
+  try {
+    validateTGPConfig(tournamentInput.tgpConfig);
+    parsed = parseResultsCSV(csv, parseOptions);
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      throw new BadRequestError(error.message);
+    }
+    throw error;
+  }
+
+  if (
+    tournamentInput.externalId &&
+    (await findTournamentByExternalId(tournamentInput.externalId))
+  ) {
+    throw new ConflictError(
+      `Tournament with external ID ${tournamentInput.externalId} already exists`
+    );
+  }
+
+  const rows: CsvImportRow[] = [];
+  for (const parsedRow of parsed) {
+    rows.push(await matchRowByKey(parsedRow));
+  }
+  const coPlayerIds = [...new Set(rows.flatMap((row) => (row.playerId ? [row.playerId] : [])))];
+
+  // Resolve the other rows once per player they name
+  const unmatched: CsvImportRow[] = [];
+  const ambiguous: CsvImportRow[] = [];
+  const resolutions = new Map<string, { input: IdentityInput; resolution: IdentityResolution }>();
+  const claimedBy = new Map<string, string>(coPlayerIds.map((id) => [id, `player:${id}`]));
+  for (const row of rows) {
+    if (row.playerId) {
+      continue;
+    }
+    const key = newPlayerKey(row);
+    let resolved = resolutions.get(key);
+    if (!resolved) {
+      const input: IdentityInput = {
+        name: row.name,
+        email: row.email,
+        externalId: row.externalId,
+        coPlayerIds,
+        excludePlayerIds: [...claimedBy].filter(([, by]) => by !== key).map(([id]) => id),
+      };
+      resolved = { input, resolution: await resolvePlayerIdentity(input) };
+      resolutions.set(key, resolved);
+      if (resolved.resolution.match) {
+        claimedBy.set(resolved.resolution.match.playerId, key);
+      }
+    }
+
+    const { resolution } = resolved;
+    row.candidates = resolution.candidates;
+    if (resolution.match) {
+      row.playerId = resolution.match.playerId;
+      row.matchedBy = 'identity';
+    } else if (resolution.decision === 'review') {
+      ambiguous.push(row);
+    } else {
+      unmatched.push(row);
+    }
+  }
+
+  checkDuplicatePlayers(rows);
+  validateMergedPositions(rows);
+
+  if (dryRun) {
+    return {
+      dryRun,
+      tournament: null,
+      rows,
+      unmatched,
+      ambiguous,
+      playersCreated: 0,
+      reviewsQueued: 0,
+      resultsCount: 0,
+      ratingsUpdated: 0,
+    };
+  }
+
+  // Create a player for each distinct unmatched player
+  const newPlayers = new Map<string, CreatePlayerInput>();
+  for (const row of [...unmatched, ...ambiguous]) {
+    const key = newPlayerKey(row);
+    if (!newPlayers.has(key)) {
+      newPlayers.set(key, { externalId: row.externalId, name: row.name });
+    }
+  }
+
+  // Players matched by identity are linked to the row's external ID, unverified
+  const externalIds = new Map(
+    rows.flatMap((row) =>
+      row.matchedBy === 'identity' && row.playerId && row.externalId
+        ? [[row.playerId, row.externalId] as const]
+        : []
+    )
+  );
+
+  const playersByPosition = countPlayersByPosition(rows);
+  const { tournament, createdPlayers } = await importTournamentResults(
+    {
+      tournament: {
+        ...tournamentInput,
+        tgpConfig: tournamentInput.tgpConfig as unknown as Prisma.InputJsonValue,
+      },
+      newPlayers,
+      standings: rows.map((row) => {
+        const tied = playersByPosition.get(`${row.isFinals}:${row.position}`) ?? 1;
+        return {
+          playerId: row.playerId ?? undefined,
+          newPlayerKey: row.playerId ? undefined : newPlayerKey(row),
+          position: row.position,
+          positionEnd: tied > 1 ? row.position + tied - 1 : null,
+          isFinals: row.isFinals,
+          optedOut: row.optedOut,
+        };
+      }),
+      externalIds,
+    },
+    { recalculate: await createTournamentPointsCalculator() }
+  );
+  for (const row of rows) {
+    row.playerId ??= createdPlayers.get(newPlayerKey(row))?.id ?? null;
+  }
+
+  // Queue one review for each created player resembling existing ones
+  const reviewed = new Set<string>();
+  for (const row of ambiguous) {
+    const key = newPlayerKey(row);
+    const resolved = resolutions.get(key);
+    if (resolved && row.playerId && !reviewed.has(key)) {
+      await queuePlayerMatchReview(
+        'csv',
+        resolved.input,
+        resolved.resolution,
+        row.playerId,
+        tournament.id
+      );
+      reviewed.add(key);
+    }
+  }
+
+  const ratingUpdate = await applyTournamentRatingUpdates(tournament.id);
+
+  return {
+    dryRun,
+    tournament: (await findTournamentById(tournament.id)) ?? tournament,
+    rows,
+    unmatched,
+    ambiguous,
+    playersCreated: createdPlayers.size,
+    reviewsQueued: reviewed.size,
+    resultsCount: rows.length,
+    ratingsUpdated: ratingUpdate.changes.length,
+  };
+}
@@ -0,0 +1,252 @@
+import type { HistoricalReplayResult, ReplayTournament, TGPConfig } from '@opprs/core';
+import { replayHistory, ValidationError } from '@opprs/core';
+import type { HistoricalReplayWriteResult, ReplayRatingChange } from '@opprs/db-prisma';
+import {
+  applyHistoricalReplay,
+  findTournaments,
+  getMergedStandings,
+  getTournamentGames,
+  findOpprPlayerRankings,
+  findPlayers,
+} from '@opprs/db-prisma';
+import { BadRequestError } from '../utils/errors.js';
+import { getRulesetRegistry } from './ranking-config.js';
+import { mapEventBoosterToCore } from './matchplay-import.js';
+
+/** Maximum number of changed tournaments and players listed in a replay summary */
+export const REPLAY_CHANGE_LIMIT = 100;
+
+/** Smallest rating or first place value change reported in a replay summary */
+const CHANGE_THRESHOLD = 0.005;
+
+/** Report progress every this many loaded tournaments */
+const REPLAY_PROGRESS_INTERVAL = 100;
+
+export interface HistoricalReplayOptions {
+  /** Calculate the replay without writing it */
+  dryRun?: boolean;
+  /** Date that time decay and rankings are calculated for (defaults to now) */
+  referenceDate?: Date;
+  /** Called as tournaments are loaded, and once more before anything is written */
+  onProgress?: (processed: number, total: number) => void | Promise<void>;
+}
+
+export interface ReplayTournamentChange {
+  tournamentId: string;
+  name: string;
+  date: Date;
+  currentValue: number | null;
+  replayedValue: number;
+}
+
+export interface ReplayPlayerChange {
+  playerId: string;
+  name: string | null;
+  currentRating: number | null;
+  replayedRating: number;
+  currentRanking: number | null;
+  replayedRanking: number | null;
+}
+
+export interface HistoricalReplaySummary {
+  dryRun: boolean;
+  referenceDate: Date;
+  tournamentsReplayed: number;
+  tournamentsSkipped: number;
+  playersRanked: number;
+  tournamentsChanged: number;
+  playersChanged: number;
+  /** Tournaments with the largest first place value changes */
+  tournaments: ReplayTournamentChange[];
+  /** Players whose rating or ranking changes, in replayed ranking order */
+  players: ReplayPlayerChange[];
+  /** Rows written; null for a dry run */
+  written: HistoricalReplayWriteResult | null;
+}
+
+function hasChanged(current: number | null, replayed: number): boolean {
+  return current === null || Math.abs(replayed - current) >= CHANGE_THRESHOLD;
+}
+
+/**
+ * Rebuild every rating, point value and world ranking from tournament history.
+ *
+ * Tournaments with a TGP configuration and standings are replayed in date
+ * order under the ruleset in effect on their date (see replayHistory in
+ * @opprs/core), with ratings updated from their stored games when they have
+ * them, as on import, otherwise from their standings. Unless this is a dry run, the results replace the stored
+ * values in a single transaction, so readers see either the old or the new
+ * state (see applyHistoricalReplay in @opprs/db-prisma). Runs as the
+ * historical-replay job.
+ */
+export async function runHistoricalReplay(
+  options: HistoricalReplayOptions = {}
+): Promise<HistoricalReplaySummary> {
+  const dryRun = options.dryRun ?? false;
+  const referenceDate = options.referenceDate ?? new Date();
+  const registry = await getRulesetRegistry();
+
+  const tournaments = await findTournaments({ orderBy: { date: 'asc' } });
+  const replayTournaments: ReplayTournament[] = [];
+  for (const [index, tournament] of tournaments.entries()) {
+    if (index > 0 && index % REPLAY_PROGRESS_INTERVAL === 0) {
+      await options.onProgress?.(index, tournaments.length);
+    }
+    if (!tournament.tgpConfig) {
+      continue;
+    }
+    const standings = await getMergedStandings(tournament.id);
+    if (standings.length === 0) {
+      continue;
+    }
+    replayTournaments.push({
+      tournament: {
+        id: tournament.id,
+        name: tournament.name,
+        date: tournament.date,
+        tgpConfig: tournament.tgpConfig as unknown as TGPConfig,
+        eventBooster: mapEventBoosterToCore(tournament.eventBooster),
+        allowsOptOut: tournament.allowsOptOut,
+      },
+      standings: standings.map((s) => ({
+        playerId: s.playerId,
+        position: s.mergedPosition,
+        optedOut: s.optedOut,
+      })),
+      games: await getTournamentGames(tournament.id),
+    });
+  }
+
+  let replay: HistoricalReplayResult;
+  try {
+    replay = replayHistory(replayTournaments, {
+      referenceDate,
+      engineFor: (tournament) => registry.getEngineForDate(tournament.date),
+    });
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      throw new BadRequestError(`Invalid tournament data: ${error.message}`);
+    }
+    throw error;
+  }
+
+  // Tournament value changes
+  const tournamentsById = new Map(tournaments.map((t) => [t.id, t]));
+  const tournamentChanges: ReplayTournamentChange[] = [];
+  for (const { tournamentId, date, value } of replay.tournaments) {
+    const current = tournamentsById.get(tournamentId);
+    if (current && hasChanged(current.firstPlaceValue, value.firstPlaceValue)) {
+      tournamentChanges.push({
+        tournamentId,
+        name: current.name,
+        date,
+        currentValue: current.firstPlaceValue,
+        replayedValue: value.firstPlaceValue,
+      });
+    }
+  }
+  tournamentChanges.sort(
+    (a, b) =>
+      Math.abs(b.replayedValue - (b.currentValue ?? 0)) -
+      Math.abs(a.replayedValue - (a.currentValue ?? 0))
+  );
+
+  // Player rating and ranking changes
+  const rankings = await findOpprPlayerRankings();
+  const rankingsByPlayer = new Map(rankings.map((r) => [r.playerId, r]));
+  const playerChanges = replay.players
+    .map((player) => {
+      const current = rankingsByPlayer.get(player.playerId);
+      return {
+        playerId: player.playerId,
+        currentRating: current?.rating ?? null,
+        replayedRating: player.rating,
+        currentRanking: current?.ranking ?? null,
+        replayedRanking: player.ranking,
+      };
+    })
+    .filter(
+      (change) =>
+        change.currentRanking !== change.replayedRanking ||
+        hasChanged(change.currentRating, change.replayedRating)
+    );
+  const listedPlayers = playerChanges.slice(0, REPLAY_CHANGE_LIMIT);
+  const players = await findPlayers({
+    where: { id: { in: listedPlayers.map((p) => p.playerId) } },
+  });
+  const namesById = new Map(players.map((p) => [p.id, p.name]));
+
+  let written: HistoricalReplayWriteResult | null = null;
+  if (!dryRun) {
+    await options.onProgress?.(tournaments.length, tournaments.length);
+    const eventCounts = new Map<string, number>();
+    const ratingChanges: ReplayRatingChange[] = [];
+    for (const { tournamentId, date, standings } of replay.tournaments) {
+      for (const standing of standings) {
+        const eventCount = (eventCounts.get(standing.playerId) ?? 0) + 1;
+        eventCounts.set(standing.playerId, eventCount);
+        ratingChanges.push({
+          playerId: standing.playerId,
+          tournamentId,
+          date,
+          rating: standing.ratingAfter,
+          ratingDeviation: standing.rdAfter,
+          volatility: standing.volatilityAfter,
+          isRated: registry.getEngineForDate(date).isPlayerRated(eventCount),
+        });
+      }
+    }
+
+    written = await applyHistoricalReplay({
+      tournaments: replay.tournaments.map(({ tournamentId, date, value }) => ({
+        tournamentId,
+        ...value,
+        rulesetVersion: registry.getRulesetForDate(date).version,
+      })),
+      standings: replay.tournaments.flatMap(({ tournamentId, standings }) =>
+        standings.map((s) => ({
+          tournamentId,
+          playerId: s.playerId,
+          linearPoints: s.linearPoints,
+          dynamicPoints: s.dynamicPoints,
+          totalPoints: s.totalPoints,
+          ageInDays: s.ageInDays,
+          decayMultiplier: s.decayMultiplier,
+          decayedPoints: s.decayedPoints,
+          efficiency: s.efficiency,
+          ratingAtEvent: s.ratingBefore,
+          rankingAtEvent: s.rankingBefore || null,
+          ratedAtEvent: s.ratedBefore,
+        }))
+      ),
+      ratingChanges,
+      rankings: replay.players.map((p) => ({
+        playerId: p.playerId,
+        rating: p.rating,
+        ratingDeviation: p.ratingDeviation,
+        volatility: p.volatility,
+        ranking: p.ranking,
+        isRated: p.isRated,
+        lastRatingUpdate: p.lastEventDate,
+      })),
+    });
+  }
+
+  return {
+    dryRun,
+    referenceDate,
+    tournamentsReplayed: replay.tournaments.length,
+    tournamentsSkipped: tournaments.length - replay.tournaments.length,
+    playersRanked: replay.players.filter((p) => p.ranking !== null).length,
+    tournamentsChanged: tournamentChanges.length,
+    playersChanged: playerChanges.length,
+    tournaments: tournamentChanges.slice(0, REPLAY_CHANGE_LIMIT),
+    players: listedPlayers.map(
+      (change): ReplayPlayerChange => ({
+        ...change,
+        name: namesById.get(change.playerId) ?? null,
+      })
+    ),
+    written,
+  };
+}
@@ -0,0 +1,320 @@
+import {
+  DEFAULT_IDENTITY_SOURCE,
+  countSharedTournaments,
+  createPlayerMatchReview,
+  findPlayerByPlayerNumber,
+  findPlayerByUserEmail,
+  findPlayerIdentities,
+  findPlayers,
+  parseExternalId,
+} from '@opprs/db-prisma';
+import type { Player, PlayerMatchReview, Prisma } from '@opprs/db-prisma';
+import { env } from '../config/env.js';
+
+/** Score of a matching player number */
+const PLAYER_NUMBER_WEIGHT = 0.6;
+
+/** Score of a matching email of the player's user account */
+const EMAIL_WEIGHT = 0.6;
+
+/** Score of an identical name; similar names score their share of it */
+const NAME_WEIGHT = 0.7;
+
+/** Names less similar than this do not count */
+const MIN_NAME_SIMILARITY = 0.8;
+
+/** Score of each tournament played with other players of the event, up to a limit */
+const SHARED_TOURNAMENT_WEIGHT = 0.1;
+const MAX_SHARED_TOURNAMENTS = 3;
+
+/** How far the best candidate must be ahead of the next one to be matched */
+const MATCH_MARGIN = 0.15;
+
+/** Signals besides the name of which a matched candidate needs at least one */
+const CORROBORATING_REASONS: IdentityMatchReason[] = ['playerNumber', 'email', 'sharedHistory'];
+
+/** Most players looked up for each name search */
+const NAME_CANDIDATE_LIMIT = 50;
+
+export type IdentityMatchReason =
+  | 'playerNumber'
+  | 'email'
+  | 'name'
+  | 'similarName'
+  | 'sharedHistory';
+
+/**
+ * What an import knows about a player
+ */
+export interface IdentityInput {
+  name?: string;
+  playerNumber?: number;
+  email?: string;
+  /** ID of the player in the import source, e.g. matchplay:123 */
+  externalId?: string;
+  /** Players of the same event already identified; tournaments played with them count */
+  coPlayerIds?: string[];
+  /** Players already taken by other entries of the same import */
+  excludePlayerIds?: string[];
+}
+
+export interface IdentityCandidate {
+  playerId: string;
+  name: string | null;
+  playerNumber: number;
+  /** Confidence that the candidate is the imported player, from 0 to 1 */
+  score: number;
+  reasons: IdentityMatchReason[];
+}
+
+export interface IdentityThresholds {
+  /** Score from which the best candidate is taken to be the player */
+  match: number;
+  /** Score from which a candidate is worth an admin's review */
+  review: number;
+}
+
+export interface IdentityResolution {
+  /**
+   * matched: the best candidate is the player; review: candidates are too
+   * close to call and an admin decides; new: no candidate resembles the player
+   */
+  decision: 'matched' | 'review' | 'new';
+  /** The matched candidate */
+  match: IdentityCandidate | null;
+  /** Candidates scoring at least the review threshold, best first */
+  candidates: IdentityCandidate[];
+}
+
+/**
+ * Normalize a name for comparison: accents, case and punctuation are ignored
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Letter pairs of a normalized name, ignoring spaces
+ */
+function letterPairs(name: string): string[] {
+  const letters = name.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < letters.length - 1; i++) {
+    pairs.push(letters.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+/**
+ * Similarity of two names from 0 to 1. Names that are equal once normalized,
+ * in any word order, score 1; others score the share of letter pairs they
+ * have in common (Dice coefficient).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return 0;
+  }
+  const sortWords = (name: string) => name.split(' ').sort().join(' ');
+  if (left === right || sortWords(left) === sortWords(right)) {
+    return 1;
+  }
+
+  const leftPairs = letterPairs(left);
+  const rightPairs = letterPairs(right);
+  if (leftPairs.length === 0 || rightPairs.length === 0) {
+    return 0;
+  }
+  const remaining = [...rightPairs];
+  let shared = 0;
+  for (const pair of leftPairs) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (leftPairs.length + rightPairs.length);
+}
+
+/**
+ * Score how likely an existing player is the imported one
+ */
+export function scoreCandidate(
+  input: Pick<IdentityInput, 'name' | 'playerNumber'>,
+  player: Pick<Player, 'id' | 'name' | 'playerNumber'>,
+  evidence: { emailMatches?: boolean; sharedTournaments?: number } = {}
+): IdentityCandidate {
+  const reasons: IdentityMatchReason[] = [];
+  let score = 0;
+
+  if (input.playerNumber !== undefined && input.playerNumber === player.playerNumber) {
+    score += PLAYER_NUMBER_WEIGHT;
+    reasons.push('playerNumber');
+  }
+  if (evidence.emailMatches) {
+    score += EMAIL_WEIGHT;
+    reasons.push('email');
+  }
+  if (input.name && player.name) {
+    const similarity = nameSimilarity(input.name, player.name);
+    if (similarity === 1) {
+      score += NAME_WEIGHT;
+      reasons.push('name');
+    } else if (similarity >= MIN_NAME_SIMILARITY) {
+      score += NAME_WEIGHT * similarity;
+      reasons.push('similarName');
+    }
+  }
+  const sharedTournaments = Math.min(evidence.sharedTournaments ?? 0, MAX_SHARED_TOURNAMENTS);
+  if (sharedTournaments > 0) {
+    score += sharedTournaments * SHARED_TOURNAMENT_WEIGHT;
+    reasons.push('sharedHistory');
+  }
+
+  return {
+    playerId: player.id,
+    name: player.name,
+    playerNumber: player.playerNumber,
+    score: Math.min(Math.round(score * 100) / 100, 1),
+    reasons,
+  };
+}
+
+/**
+ * Decide from scored candidates whether the imported player is one of them.
+ *
+ * The best candidate is matched when it reaches the match threshold, is
+ * clearly ahead of the next one and has a signal besides its name: players
+ * may share a name. Otherwise candidates reaching the review threshold are
+ * left for an admin to decide, and without any the player is new.
+ */
+export function decideIdentity(
+  scored: IdentityCandidate[],
+  thresholds: IdentityThresholds = getIdentityThresholds()
+): IdentityResolution {
+  const candidates = scored
+    .filter((candidate) => candidate.score >= thresholds.review)
+    .sort((a, b) => b.score - a.score);
+  const [best, next] = candidates;
+
+  if (!best) {
+    return { decision: 'new', match: null, candidates };
+  }
+  if (
+    best.score >= thresholds.match &&
+    (!next || best.score - next.score >= MATCH_MARGIN) &&
+    best.reasons.some((reason) => CORROBORATING_REASONS.includes(reason))
+  ) {
+    return { decision: 'matched', match: best, candidates };
+  }
+  return { decision: 'review', match: null, candidates };
+}
+
+/**
+ * Thresholds configured with IDENTITY_MATCH_THRESHOLD and IDENTITY_REVIEW_THRESHOLD
+ */
+export function getIdentityThresholds(): IdentityThresholds {
+  return { match: env.identityMatchThreshold, review: env.identityReviewThreshold };
+}
+
+/**
+ * Players whose name shares words with the given name: those having all of
+ * its words, in any order, and those having its last word
+ */
+async function findPlayersByName(name: string): Promise<Player[]> {
+  const words = name.split(/[^\p{L}\p{N}'-]+/u).filter((word) => word.length >= 2);
+  const lastWord = words[words.length - 1];
+  if (!lastWord) {
+    return [];
+  }
+  const [withAllWords, withLastWord] = await Promise.all([
+    findPlayers({
+      where: { AND: words.map((word) => ({ name: { contains: word, mode: 'insensitive' } })) },
+      take: NAME_CANDIDATE_LIMIT,
+    }),
+    findPlayers({
+      where: { name: { contains: lastWord, mode: 'insensitive' } },
+      take: NAME_CANDIDATE_LIMIT,
+    }),
+  ]);
+  return [...withAllWords, ...withLastWord];
+}
+
+/**
+ * Find the existing player an imported player may be.
+ *
+ * Candidates are players with the same player number, the player of the
+ * user account with the same email, and players with a similar name. They
+ * are scored by those signals and by the tournaments they played with the
+ * event's other players. A candidate who already has another ID from the
+ * same source, such as another Matchplay account, is a different player.
+ */
+export async function resolvePlayerIdentity(
+  input: IdentityInput,
+  thresholds: IdentityThresholds = getIdentityThresholds()
+): Promise<IdentityResolution> {
+  const [byNumber, byEmail, byName] = await Promise.all([
+    input.playerNumber !== undefined ? findPlayerByPlayerNumber(input.playerNumber) : null,
+    input.email ? findPlayerByUserEmail(input.email) : null,
+    input.name ? findPlayersByName(input.name) : [],
+  ]);
+
+  const excluded = new Set(input.excludePlayerIds);
+  const players = new Map<string, Player>();
+  for (const player of [byNumber, byEmail, ...byName]) {
+    if (player && !excluded.has(player.id)) {
+      players.set(player.id, player);
+    }
+  }
+
+  const identity = input.externalId ? parseExternalId(input.externalId) : null;
+  if (identity && identity.source !== DEFAULT_IDENTITY_SOURCE && players.size > 0) {
+    const otherIds = await findPlayerIdentities({
+      where: {
+        playerId: { in: [...players.keys()] },
+        source: identity.source,
+        externalId: { not: identity.externalId },
+      },
+    });
+    for (const { playerId } of otherIds) {
+      players.delete(playerId);
+    }
+  }
+
+  const shared = await countSharedTournaments([...players.keys()], input.coPlayerIds ?? []);
+  const scored = [...players.values()].map((player) =>
+    scoreCandidate(input, player, {
+      emailMatches: player.id === byEmail?.id,
+      sharedTournaments: shared.get(player.id),
+    })
+  );
+  return decideIdentity(scored, thresholds);
+}
+
+/**
+ * Queue the review of a player an import created while other players
+ * resembled them
+ */
+export async function queuePlayerMatchReview(
+  source: string,
+  input: IdentityInput,
+  resolution: IdentityResolution,
+  playerId: string,
+  tournamentId?: string
+): Promise<PlayerMatchReview> {
+  return createPlayerMatchReview({
+    source,
+    externalId: input.externalId,
+    name: input.name,
+    candidates: resolution.candidates as unknown as Prisma.InputJsonValue,
+    playerId,
+    tournamentId,
+  });
+}
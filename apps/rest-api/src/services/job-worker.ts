@@ -0,0 +1,125 @@
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  markJobCancelled,
+  requeueStaleJobs,
+  rescheduleJob,
+  updateJobProgress,
+} from '@opprs/db-prisma';
+import type { Job } from '@opprs/db-prisma';
+import { ExternalServiceError } from '../utils/errors.js';
+import { createPollingLoop } from '../utils/polling-loop.js';
+import { decryptSecret } from '../utils/secrets.js';
+import { getJobHandler, getJobMaxAttempts, JobCancelledError, toJobResult } from './jobs.js';
+import type { JobPayloads, JobType } from './jobs.js';
+
+/** Running jobs that have not reported progress for this long are run again */
+const STALE_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Delay before the first retry of a failed attempt, doubled for each later one */
+const RETRY_DELAY_MS = 30 * 1000;
+
+export interface JobWorkerOptions {
+  pollIntervalMs: number;
+  logger: FastifyBaseLogger;
+}
+
+export interface JobWorker {
+  readonly id: string;
+  start: () => void;
+  /** Stops the worker after the job it is running */
+  stop: () => Promise<void>;
+  /** Checks for due jobs without waiting for the next poll */
+  wake: () => void;
+}
+
+/**
+ * Creates a worker that runs queued jobs one at a time.
+ *
+ * When idle, the worker checks for due jobs every `pollIntervalMs` and
+ * requeues jobs left running by workers that stopped reporting progress,
+ * failing them once their handler's attempts are used up. Jobs failing with
+ * an error from an external service are retried with a growing delay until
+ * their attempts are used up. A job's outcome is only stored while the worker
+ * still holds it, so a job requeued as stale is not finished twice.
+ */
+export function createJobWorker({ pollIntervalMs, logger }: JobWorkerOptions): JobWorker {
+  const loop = createPollingLoop({
+    intervalMs: pollIntervalMs,
+    poll: async () => {
+      const stale = await requeueStaleJobs(
+        new Date(Date.now() - STALE_JOB_TIMEOUT_MS),
+        getJobMaxAttempts()
+      );
+      if (stale.requeued > 0 || stale.failed > 0) {
+        logger.warn(stale, 'Requeued stale jobs');
+      }
+
+      const job = await claimNextJob(loop.id);
+      if (!job) {
+        return false;
+      }
+      await runJob(job);
+      return true;
+    },
+    onError: (error) => logger.error({ err: error }, 'Job worker error'),
+  });
+  const { id } = loop;
+
+  async function runJob(job: Job): Promise<void> {
+    const handler = getJobHandler(job.type);
+    if (!handler) {
+      await failJob(job.id, id, `Unknown job type: ${job.type}`);
+      return;
+    }
+
+    const reportProgress = async (progress: number, progressTotal?: number): Promise<void> => {
+      const updated = await updateJobProgress(job.id, progress, progressTotal);
+      if (updated.cancelRequested) {
+        throw new JobCancelledError();
+      }
+    };
+
+    try {
+      const result = await handler.run(job.payload as unknown as JobPayloads[JobType], {
+        job,
+        secret: job.secret ? decryptSecret(job.secret) : undefined,
+        reportProgress,
+      });
+      if (!(await completeJob(job.id, id, toJobResult(result)))) {
+        logger.warn({ jobId: job.id, type: job.type }, 'Job finished after it was requeued');
+        return;
+      }
+      logger.info({ jobId: job.id, type: job.type }, 'Job completed');
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        await markJobCancelled(job.id, id);
+        logger.info({ jobId: job.id, type: job.type }, 'Job cancelled');
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Job failed';
+      if (error instanceof ExternalServiceError && job.attempts < handler.maxAttempts) {
+        const runAt = new Date(Date.now() + RETRY_DELAY_MS * 2 ** (job.attempts - 1));
+        await rescheduleJob(job.id, id, message, runAt);
+        logger.warn({ jobId: job.id, type: job.type, runAt, err: error }, 'Job will be retried');
+        return;
+      }
+      await failJob(job.id, id, message);
+      logger.error({ jobId: job.id, type: job.type, err: error }, 'Job failed');
+    }
+  }
+
+  return {
+    id,
+    start: () => {
+      if (loop.start()) {
+        logger.info({ workerId: id }, 'Job worker started');
+      }
+    },
+    stop: loop.stop,
+    wake: loop.wake,
+  };
+}
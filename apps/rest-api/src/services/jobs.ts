@@ -0,0 +1,152 @@
+import type { TGPConfig } from '@opprs/core';
+import type { EventBoosterType, Job, Prisma } from '@opprs/db-prisma';
+import { importTournament } from './matchplay-import.js';
+import { bulkImportTournaments } from './matchplay-bulk-import.js';
+import { refreshTimeDecay } from './time-decay.js';
+import { runHistoricalReplay } from './historical-replay.js';
+
+export interface MatchplayImportJobPayload {
+  matchplayId: number;
+  eventBooster?: EventBoosterType;
+  finalsIds?: number[];
+  tgpConfig?: TGPConfig;
+}
+
+export interface MatchplayBulkImportJobPayload {
+  organizerId?: number;
+  seriesId?: number;
+  tournamentIds?: number[];
+  /** ISO date-time of the earliest tournament start */
+  from?: string;
+  /** ISO date-time of the latest tournament start */
+  to?: string;
+  eventBooster?: EventBoosterType;
+}
+
+export interface HistoricalReplayJobPayload {
+  dryRun?: boolean;
+  /** ISO date-time that time decay and rankings are calculated for */
+  referenceDate?: string;
+}
+
+/**
+ * Payload of each job type
+ */
+export interface JobPayloads {
+  'matchplay-import': MatchplayImportJobPayload;
+  'matchplay-bulk-import': MatchplayBulkImportJobPayload;
+  'recalculate-decay': Record<string, never>;
+  'historical-replay': HistoricalReplayJobPayload;
+}
+
+export type JobType = keyof JobPayloads;
+
+export const JOB_TYPES = [
+  'matchplay-import',
+  'matchplay-bulk-import',
+  'recalculate-decay',
+  'historical-replay',
+] as const satisfies readonly JobType[];
+
+/**
+ * Thrown from reportProgress when cancellation of the job was requested
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface JobContext {
+  job: Job;
+  /**
+   * Secret the job was queued with, such as a Matchplay API token. It is
+   * cleared when the job finishes, so a retried job runs without it.
+   */
+  secret?: string;
+  /**
+   * Records the progress of the job. Throws a JobCancelledError when
+   * cancellation was requested, so handlers stop at the next step.
+   */
+  reportProgress: (progress: number, progressTotal?: number) => Promise<void>;
+}
+
+export interface JobHandler<T extends JobType = JobType> {
+  /** Number of attempts before a job failing with a temporary error stays failed */
+  maxAttempts: number;
+  run: (payload: JobPayloads[T], context: JobContext) => Promise<unknown>;
+}
+
+const handlers: { [T in JobType]: JobHandler<T> } = {
+  'matchplay-import': {
+    maxAttempts: 3,
+    // Progress is reported, and cancellation checked, only before the import writes
+    run: async (payload, { secret, reportProgress }) =>
+      importTournament(payload.matchplayId, {
+        eventBoosterOverride: payload.eventBooster,
+        apiToken: secret,
+        finalsIds: payload.finalsIds,
+        tgpConfig: payload.tgpConfig,
+        onProgress: reportProgress,
+      }),
+  },
+
+  'matchplay-bulk-import': {
+    maxAttempts: 3,
+    run: async (payload, { secret, reportProgress }) =>
+      bulkImportTournaments({
+        organizerId: payload.organizerId,
+        seriesId: payload.seriesId,
+        tournamentIds: payload.tournamentIds,
+        from: payload.from ? new Date(payload.from) : undefined,
+        to: payload.to ? new Date(payload.to) : undefined,
+        eventBoosterOverride: payload.eventBooster,
+        apiToken: secret,
+        onProgress: reportProgress,
+      }),
+  },
+
+  'recalculate-decay': {
+    maxAttempts: 1,
+    run: async (_payload, { reportProgress }) => refreshTimeDecay(reportProgress),
+  },
+
+  'historical-replay': {
+    maxAttempts: 1,
+    // Progress is reported, and cancellation checked, only before the replay writes
+    run: async (payload, { reportProgress }) =>
+      runHistoricalReplay({
+        dryRun: payload.dryRun,
+        referenceDate: payload.referenceDate ? new Date(payload.referenceDate) : undefined,
+        onProgress: reportProgress,
+      }),
+  },
+};
+
+/**
+ * Returns the number of attempts of each job type
+ */
+export function getJobMaxAttempts(): Record<JobType, number> {
+  const maxAttempts = {} as Record<JobType, number>;
+  for (const type of JOB_TYPES) {
+    maxAttempts[type] = handlers[type].maxAttempts;
+  }
+  return maxAttempts;
+}
+
+/**
+ * Returns the handler of a job type, or undefined for unknown types
+ */
+export function getJobHandler(type: string): JobHandler | undefined {
+  return (JOB_TYPES as readonly string[]).includes(type)
+    ? (handlers[type as JobType] as JobHandler)
+    : undefined;
+}
+
+/**
+ * Converts a job result to JSON as it is stored, turning dates into strings
+ */
+export function toJobResult(result: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(result ?? {})) as Prisma.InputJsonValue;
+}
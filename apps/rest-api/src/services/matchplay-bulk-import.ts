@@ -0,0 +1,220 @@
+import { MatchplayClient, MatchplayApiError, MatchplayNetworkError } from '@opprs/matchplay-api';
+import type { TournamentListParams } from '@opprs/matchplay-api';
+import type { Tournament as MatchplayTournament } from '@opprs/core';
+import { findTournamentByExternalId, findTournaments } from '@opprs/db-prisma';
+import type { EventBoosterType, Tournament } from '@opprs/db-prisma';
+import { BadRequestError, ExternalServiceError } from '../utils/errors.js';
+import { env } from '../config/env.js';
+import { importTournament } from './matchplay-import.js';
+
+/** Number of tournaments requested per page when listing from Matchplay */
+const PAGE_SIZE = 50;
+
+export interface BulkImportOptions {
+  /** Import the completed tournaments of a Matchplay organizer */
+  organizerId?: number;
+  /** Import the completed tournaments of a Matchplay series */
+  seriesId?: number;
+  /** Import these Matchplay tournaments */
+  tournamentIds?: number[];
+  /** Only list tournaments starting on or after this date */
+  from?: Date;
+  /** Only list tournaments starting on or before this date */
+  to?: Date;
+  eventBoosterOverride?: EventBoosterType;
+  apiToken?: string;
+  /**
+   * Called after each tournament. An error thrown by it stops the import
+   * before the next tournament.
+   */
+  onProgress?: (processed: number, total: number) => void | Promise<void>;
+}
+
+export type BulkImportStatus = 'imported' | 'skipped' | 'failed';
+
+export interface BulkImportEventResult {
+  matchplayId: number;
+  status: BulkImportStatus;
+  /** ID of the imported tournament, or of the one it was already imported as */
+  tournamentId?: string;
+  name?: string;
+  /** Why the event was skipped or failed */
+  message?: string;
+}
+
+export interface BulkImportResult {
+  /** Number of Matchplay tournaments found */
+  found: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  events: BulkImportEventResult[];
+}
+
+interface BulkImportCandidate {
+  matchplayId: number;
+  name?: string;
+  date?: Date;
+}
+
+/**
+ * List the completed tournaments of an organizer or series, page by page,
+ * oldest first.
+ */
+async function listTournaments(
+  client: MatchplayClient,
+  params: TournamentListParams,
+  from?: Date,
+  to?: Date
+): Promise<BulkImportCandidate[]> {
+  const candidates: BulkImportCandidate[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let page: MatchplayTournament[];
+    try {
+      page = await client.getTournaments({
+        ...params,
+        status: 'completed',
+        limit: PAGE_SIZE,
+        offset,
+      });
+    } catch (error: unknown) {
+      if (error instanceof MatchplayApiError || error instanceof MatchplayNetworkError) {
+        throw new ExternalServiceError('Matchplay API', error.message);
+      }
+      throw error;
+    }
+    for (const tournament of page) {
+      if ((from && tournament.date < from) || (to && tournament.date > to)) {
+        continue;
+      }
+      candidates.push({
+        matchplayId: parseInt(tournament.id, 10),
+        name: tournament.name,
+        date: tournament.date,
+      });
+    }
+    if (page.length < PAGE_SIZE) {
+      break;
+    }
+  }
+  return candidates.sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0));
+}
+
+/**
+ * Import one listed tournament unless it, or the tournament it is a stage
+ * of, was already imported.
+ */
+async function importCandidate(
+  client: MatchplayClient,
+  { matchplayId, name }: BulkImportCandidate,
+  existingByExternalId: Map<string | null, Tournament>,
+  options: BulkImportOptions,
+  apiToken?: string
+): Promise<BulkImportEventResult> {
+  const already = existingByExternalId.get(`matchplay:${matchplayId}`);
+  if (already) {
+    return {
+      matchplayId,
+      status: 'skipped',
+      tournamentId: already.id,
+      name: already.name,
+      message: 'Already imported',
+    };
+  }
+
+  try {
+    const linkedId = await client.getLinkedTournamentId(matchplayId);
+    const stageOf = linkedId ? await findTournamentByExternalId(`matchplay:${linkedId}`) : null;
+    if (stageOf) {
+      return {
+        matchplayId,
+        status: 'skipped',
+        tournamentId: stageOf.id,
+        name,
+        message: 'Imported as a stage of another tournament',
+      };
+    }
+
+    const result = await importTournament(matchplayId, {
+      eventBoosterOverride: options.eventBoosterOverride,
+      apiToken,
+    });
+    return {
+      matchplayId,
+      status: 'imported',
+      tournamentId: result.tournament.id,
+      name: result.tournament.name,
+    };
+  } catch (error) {
+    return {
+      matchplayId,
+      status: 'failed',
+      name,
+      message: error instanceof Error ? error.message : 'Import failed',
+    };
+  }
+}
+
+/**
+ * Check that tournaments come from exactly one source and the date range is
+ * in order.
+ */
+export function validateBulkImportOptions(options: BulkImportOptions): void {
+  const sources = [options.organizerId, options.seriesId, options.tournamentIds].filter(
+    (source) => source !== undefined
+  );
+  if (sources.length !== 1) {
+    throw new BadRequestError('Provide exactly one of organizerId, seriesId or tournamentIds');
+  }
+  if (options.from && options.to && options.from > options.to) {
+    throw new BadRequestError('from must not be after to');
+  }
+}
+
+/**
+ * Import many Matchplay tournaments at once.
+ *
+ * Tournaments come from exactly one source: an organizer, a series (both
+ * listed with their completed tournaments, filtered by start date) or a list
+ * of IDs. Tournaments that were already imported are skipped, as are stages
+ * whose linked Matchplay tournament was imported with them.
+ * Every event is imported on its own, so one failing event is reported
+ * without stopping the others.
+ */
+export async function bulkImportTournaments(options: BulkImportOptions): Promise<BulkImportResult> {
+  validateBulkImportOptions(options);
+
+  const apiToken = options.apiToken ?? env.matchplayApiToken;
+  const client = new MatchplayClient({ apiToken });
+
+  const candidates: BulkImportCandidate[] = options.tournamentIds
+    ? [...new Set(options.tournamentIds)].map((matchplayId) => ({ matchplayId }))
+    : await listTournaments(
+        client,
+        options.organizerId !== undefined
+          ? { organizerId: options.organizerId }
+          : { seriesId: options.seriesId },
+        options.from,
+        options.to
+      );
+
+  const existing = await findTournaments({
+    where: { externalId: { in: candidates.map((c) => `matchplay:${c.matchplayId}`) } },
+  });
+  const existingByExternalId = new Map(existing.map((t) => [t.externalId, t]));
+
+  const events: BulkImportEventResult[] = [];
+
+  for (const candidate of candidates) {
+    events.push(await importCandidate(client, candidate, existingByExternalId, options, apiToken));
+    await options.onProgress?.(events.length, candidates.length);
+  }
+
+  return {
+    found: candidates.length,
+    imported: events.filter((e) => e.status === 'imported').length,
+    skipped: events.filter((e) => e.status === 'skipped').length,
+    failed: events.filter((e) => e.status === 'failed').length,
+    events,
+  };
+}
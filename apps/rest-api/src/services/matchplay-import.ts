@@ -3,21 +3,22 @@ import {
   MatchplayNotFoundError,
   MatchplayApiError,
   MatchplayNetworkError,
+  mergeStageTGPConfigs,
 } from '@opprs/matchplay-api';
-import type { MatchplayStanding } from '@opprs/matchplay-api';
+import type { TGPConfidenceReport, TournamentStage } from '@opprs/matchplay-api';
 import type {
-  Tournament as CoreTournament,
+  Player as CorePlayer,
   PlayerResult,
+  TGPConfig,
+  RulesetRegistry,
+  RulesetTournamentResult,
   EventBoosterType as CoreEventBoosterType,
 } from '@opprs/core';
 import {
-  calculateBaseValue,
-  calculateRatingTVA,
-  calculateRankingTVA,
-  calculateTGP,
-  getEventBoosterMultiplier,
-  distributePoints,
-  calculateDecayMultiplier,
+  createNewPlayerRating,
+  groupTiedResults,
+  validateTGPConfig,
+  ValidationError,
 } from '@opprs/core';
 import {
   createTournament,
@@ -26,26 +27,84 @@ import {
   createPlayer,
   updatePlayer,
   findPlayerByExternalId,
+  linkPlayerIdentity,
+  findPlayerById,
   createManyStandings,
   deleteStandingsByTournament,
+  replaceTournamentGames,
   getOrCreateOpprPlayerRanking,
-  updateOpprPlayerRanking,
+  findOpprPlayerRankings,
+  findStandings,
 } from '@opprs/db-prisma';
-import type { EventBoosterType, Tournament, Prisma } from '@opprs/db-prisma';
-import { NotFoundError, ExternalServiceError } from '../utils/errors.js';
+import type { EventBoosterType, Player, Tournament, Prisma } from '@opprs/db-prisma';
+import { NotFoundError, ExternalServiceError, BadRequestError } from '../utils/errors.js';
 import { env } from '../config/env.js';
+import { getRulesetRegistry } from './ranking-config.js';
+import { applyTournamentRatingUpdates } from './rating-update.js';
+import { queuePlayerMatchReview, resolvePlayerIdentity } from './identity-resolution.js';
+import type { IdentityInput, IdentityResolution } from './identity-resolution.js';
 
 export interface ImportOptions {
   eventBoosterOverride?: EventBoosterType;
   apiToken?: string;
+  /**
+   * Matchplay IDs of the finals stages, A division first. When omitted, the
+   * tournament linked to the imported one in Matchplay is imported as its
+   * other stage; an empty array imports a single stage.
+   */
+  finalsIds?: number[];
+  /** TGP configuration to use instead of the one derived from Matchplay games */
+  tgpConfig?: TGPConfig;
+  /**
+   * Called as each stage is fetched, before anything is written, with one
+   * more step to write the import. Throwing from it stops the import; once
+   * writing starts it is not called again.
+   */
+  onProgress?: (progress: number, progressTotal: number) => void | Promise<void>;
+}
+
+export interface ImportedStage {
+  matchplayId: number;
+  isFinals: boolean;
+  resultsCount: number;
+  /** Which TGP values of the stage were measured from its games or inferred */
+  tgpConfidence: TGPConfidenceReport;
+}
+
+export interface StageTGPPreview {
+  matchplayId: number;
+  isFinals: boolean;
+  tgpConfig: TGPConfig;
+  confidence: TGPConfidenceReport;
+}
+
+export interface TGPPreview {
+  /** TGP configuration of the whole event, as an import would use it */
+  tgpConfig: TGPConfig;
+  stages: StageTGPPreview[];
 }
 
 export interface ImportResult {
   tournament: Tournament;
   playersCreated: number;
   playersUpdated: number;
+  /** Players without a Matchplay ID matched to existing players; counted as updated */
+  playersMatched: number;
+  /** Created players resembling existing ones, queued for admin review */
+  reviewsQueued: number;
   resultsCount: number;
+  ratingsUpdated: number;
+  /** Whether ratings were updated from individual games or final standings */
+  ratingMethod: 'games' | 'standings';
   created: boolean;
+  /** Matchplay tournaments imported as the qualifying and finals stages */
+  stages: ImportedStage[];
+  /** Whether the TGP configuration was given instead of derived from Matchplay games */
+  tgpOverridden: boolean;
+}
+
+interface MatchplayStage extends TournamentStage {
+  matchplayId: number;
 }
 
 /**
@@ -65,7 +124,7 @@ function mapEventBoosterToDb(coreType: CoreEventBoosterType): EventBoosterType {
 /**
  * Map database EventBoosterType (UPPER_SNAKE_CASE) to core EventBoosterType (kebab-case)
  */
-function mapEventBoosterToCore(dbType: EventBoosterType): CoreEventBoosterType {
+export function mapEventBoosterToCore(dbType: EventBoosterType): CoreEventBoosterType {
   const mapping: Record<EventBoosterType, CoreEventBoosterType> = {
     NONE: 'none',
     CERTIFIED: 'certified',
@@ -77,25 +136,11 @@ function mapEventBoosterToCore(dbType: EventBoosterType): CoreEventBoosterType {
 }
 
 /**
- * Import a tournament from Matchplay API
+ * Run a Matchplay API call, mapping client errors to API errors
  */
-export async function importTournament(
-  matchplayId: number,
-  options: ImportOptions = {}
-): Promise<ImportResult> {
-  const apiToken = options.apiToken ?? env.matchplayApiToken;
-  const client = new MatchplayClient({ apiToken });
-
-  let matchplayTournament: CoreTournament;
-  let matchplayResults: PlayerResult[];
-  let standings: MatchplayStanding[];
-
+async function callMatchplay<T>(matchplayId: number, call: () => Promise<T>): Promise<T> {
   try {
-    [matchplayTournament, matchplayResults, standings] = await Promise.all([
-      client.getTournament(matchplayId),
-      client.getTournamentResults(matchplayId),
-      client.getStandings(matchplayId),
-    ]);
+    return await call();
   } catch (error: unknown) {
     if (error instanceof MatchplayNotFoundError) {
       throw new NotFoundError('Matchplay Tournament', String(matchplayId));
@@ -105,8 +150,207 @@ export async function importTournament(
     }
     throw error;
   }
+}
+
+/**
+ * Fetch a Matchplay tournament with its results, standings, games and the TGP
+ * configuration derived from its games, with the ball count adjustments of the
+ * ruleset in effect on the tournament's date.
+ *
+ * Games are only used for ratings, so when they cannot be fetched the stage
+ * has none and its players are rated from standings instead.
+ */
+async function fetchStage(
+  client: MatchplayClient,
+  matchplayId: number,
+  registry: RulesetRegistry
+): Promise<MatchplayStage> {
+  const stage = await callMatchplay(matchplayId, () =>
+    client.getTournamentStage(matchplayId, {
+      ballAdjustments: (date) => registry.getEngineForDate(date).config.TGP.BALL_ADJUSTMENTS,
+      optionalGames: true,
+    })
+  );
+  return { matchplayId, ...stage };
+}
+
+/**
+ * Check that finals stages are distinct from each other and the qualifying.
+ */
+export function validateFinalsIds(matchplayId: number, finalsIds?: number[]): void {
+  if (
+    finalsIds &&
+    (finalsIds.includes(matchplayId) || new Set(finalsIds).size !== finalsIds.length)
+  ) {
+    throw new BadRequestError('Finals stages must be distinct from each other and the qualifying');
+  }
+}
+
+/**
+ * Check a TGP configuration given to override the derived one.
+ */
+export function validateImportTGPConfig(tgpConfig?: TGPConfig): void {
+  if (!tgpConfig) {
+    return;
+  }
+  try {
+    validateTGPConfig(tgpConfig);
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      throw new BadRequestError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch the qualifying and finals stages of an event.
+ *
+ * Without explicit finals IDs, a tournament linked in Matchplay is the other
+ * stage of the event: whichever of the two starts first is the qualifying.
+ */
+async function fetchStages(
+  client: MatchplayClient,
+  matchplayId: number,
+  finalsIds?: number[],
+  onProgress?: ImportOptions['onProgress']
+): Promise<{ qualifying: MatchplayStage; finals: MatchplayStage[] }> {
+  const registry = await getRulesetRegistry();
+  let fetched = 0;
+  const report = async (stageCount: number): Promise<void> => {
+    await onProgress?.(++fetched, stageCount + 1);
+  };
+  const fetchCounted = async (id: number, stageCount: number): Promise<MatchplayStage> => {
+    const stage = await fetchStage(client, id, registry);
+    await report(stageCount);
+    return stage;
+  };
+
+  if (finalsIds) {
+    validateFinalsIds(matchplayId, finalsIds);
+    const stageCount = finalsIds.length + 1;
+    const [qualifying, finals] = await Promise.all([
+      fetchCounted(matchplayId, stageCount),
+      Promise.all(finalsIds.map((id) => fetchCounted(id, stageCount))),
+    ]);
+    return { qualifying, finals };
+  }
+
+  // The stage count is known once the first stage shows whether it is linked
+  const stage = await fetchStage(client, matchplayId, registry);
+  const { linkedTournamentId } = stage;
+  const hasLinked = linkedTournamentId !== null && linkedTournamentId !== matchplayId;
+  await report(hasLinked ? 2 : 1);
+  if (!hasLinked) {
+    return { qualifying: stage, finals: [] };
+  }
+
+  const linked = await fetchCounted(linkedTournamentId, 2);
+  return linked.tournament.date < stage.tournament.date
+    ? { qualifying: linked, finals: [stage] }
+    : { qualifying: stage, finals: [linked] };
+}
+
+/**
+ * Combine the TGP configurations derived for each stage into the event's
+ */
+function deriveEventTGPConfig(qualifying: MatchplayStage, finals: MatchplayStage[]): TGPConfig {
+  return mergeStageTGPConfigs(
+    qualifying.tgp.tgpConfig,
+    finals.map((stage) => stage.tgp.tgpConfig)
+  );
+}
+
+/**
+ * Preview the TGP configuration an import would derive from Matchplay rounds
+ * and games, with each stage's confidence report.
+ */
+export async function previewTournamentTGP(
+  matchplayId: number,
+  options: Pick<ImportOptions, 'apiToken' | 'finalsIds'> = {}
+): Promise<TGPPreview> {
+  const client = new MatchplayClient({ apiToken: options.apiToken ?? env.matchplayApiToken });
+  const { qualifying, finals } = await fetchStages(client, matchplayId, options.finalsIds);
+
+  return {
+    tgpConfig: deriveEventTGPConfig(qualifying, finals),
+    stages: [qualifying, ...finals].map((stage) => ({
+      matchplayId: stage.matchplayId,
+      isFinals: stage !== qualifying,
+      tgpConfig: stage.tgp.tgpConfig,
+      confidence: stage.tgp.confidence,
+    })),
+  };
+}
+
+/**
+ * Merge stage results into one final ranking.
+ *
+ * Finalists are ranked by finals division, A division first, then by their
+ * finals position; non-finalists follow in qualifying order. Tied players
+ * stay tied, as in getMergedStandings.
+ */
+function mergeStageResults(qualifying: PlayerResult[], finals: PlayerResult[][]): PlayerResult[] {
+  const finalists = finals.flat();
+  const finalistIds = new Set(finalists.map((r) => r.player.id));
+  const nonFinalists = qualifying.filter((r) => !finalistIds.has(r.player.id));
+
+  return [
+    ...finalists,
+    ...nonFinalists.map((r) => ({
+      ...r,
+      position:
+        finalists.length + nonFinalists.filter((other) => other.position < r.position).length + 1,
+    })),
+  ];
+}
+
+/** A Matchplay player resolved to an existing database player, or to none */
+interface ResolvedPlayer {
+  dbPlayer: Player | null;
+  input: IdentityInput;
+  resolution: IdentityResolution | null;
+}
 
-  const externalId = `matchplay:${matchplayId}`;
+/**
+ * Import a tournament from Matchplay API.
+ *
+ * Multi-stage events are stored as one tournament: the qualifying tournament's
+ * standings as qualifying standings and each finals tournament's standings as
+ * finals standings, with later finals divisions placed after earlier ones.
+ * The TGP is derived from the rounds and games of both stages, unless a TGP
+ * configuration is given, and points are distributed by merged position.
+ *
+ * Players are found by their Matchplay ID. A player without one is matched to
+ * an existing player when identity resolution is confident, and otherwise
+ * created; a created player resembling existing ones is queued for review.
+ * The tournament value uses the players' OPPR ratings, world rankings and
+ * rated status from before the tournament, not their Matchplay ratings.
+ */
+export async function importTournament(
+  matchplayId: number,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const apiToken = options.apiToken ?? env.matchplayApiToken;
+  const client = new MatchplayClient({ apiToken });
+
+  const { qualifying, finals } = await fetchStages(
+    client,
+    matchplayId,
+    options.finalsIds,
+    options.onProgress
+  );
+  const matchplayTournament = qualifying.tournament;
+
+  // Later finals divisions are placed after the finalists of earlier ones
+  let finalistsAhead = 0;
+  const finalsStageResults = finals.map((stage) => {
+    const results = stage.results.map((r) => ({ ...r, position: r.position + finalistsAhead }));
+    finalistsAhead += stage.results.length;
+    return results;
+  });
+
+  const externalId = `matchplay:${qualifying.matchplayId}`;
   const existingTournament = await findTournamentByExternalId(externalId);
   const isUpdate = !!existingTournament;
 
@@ -114,59 +358,159 @@ export async function importTournament(
   const eventBooster =
     options.eventBoosterOverride ?? mapEventBoosterToDb(matchplayTournament.eventBooster);
 
-  // Calculate OPPRS values
-  const players = matchplayTournament.players;
-  const baseValue = calculateBaseValue(players);
-  const tvaRating = calculateRatingTVA(players);
-  const tvaRanking = calculateRankingTVA(players);
-  const totalTVA = tvaRating + tvaRanking;
-  const tgp = calculateTGP(matchplayTournament.tgpConfig);
-  const eventBoosterMultiplier = getEventBoosterMultiplier(mapEventBoosterToCore(eventBooster));
-  const firstPlaceValue = (baseValue + totalTVA) * tgp * eventBoosterMultiplier;
-
-  // Create/update players in database
-  let playersCreated = 0;
-  let playersUpdated = 0;
-  const playerIdMap = new Map<string, string>(); // matchplay ID -> database ID
+  // Every player of the event, by Matchplay ID
+  const players = new Map<string, CorePlayer>();
+  for (const stage of [qualifying, ...finals]) {
+    for (const player of stage.tournament.players) {
+      if (!players.has(player.id)) {
+        players.set(player.id, player);
+      }
+    }
+  }
+  const tgpConfig = options.tgpConfig ?? deriveEventTGPConfig(qualifying, finals);
 
   // Create a map of matchplay user ID -> name for setting player names
   const playerNameMap = new Map<string, string>();
-  for (const standing of standings) {
+  for (const standing of [qualifying, ...finals].flatMap((stage) => stage.standings)) {
     const id = standing.userId ? String(standing.userId) : String(standing.playerId);
     playerNameMap.set(id, standing.name);
   }
 
-  for (const player of players) {
+  // Players imported before are found by their Matchplay ID; the others are
+  // resolved against existing players, such as ones entered by hand or from CSV
+  const knownPlayers = new Map<string, Player>(); // matchplay ID -> database player
+  for (const player of players.values()) {
+    const dbPlayer = await findPlayerByExternalId(`matchplay:${player.id}`);
+    if (dbPlayer) {
+      knownPlayers.set(player.id, dbPlayer);
+    }
+  }
+  const coPlayerIds = [...knownPlayers.values()].map((player) => player.id);
+
+  const resolvedPlayers = new Map<string, ResolvedPlayer>(); // matchplay ID -> resolved player
+  for (const player of players.values()) {
     const playerExternalId = `matchplay:${player.id}`;
-    let dbPlayer = await findPlayerByExternalId(playerExternalId);
-    const playerName = playerNameMap.get(player.id);
+    let dbPlayer = knownPlayers.get(player.id) ?? null;
+
+    const matchedPlayerIds = [...resolvedPlayers.values()].flatMap((r) =>
+      r.dbPlayer ? [r.dbPlayer.id] : []
+    );
+    const input: IdentityInput = {
+      name: playerNameMap.get(player.id),
+      externalId: playerExternalId,
+      coPlayerIds,
+      excludePlayerIds: [...coPlayerIds, ...matchedPlayerIds],
+    };
+    const resolution = dbPlayer ? null : await resolvePlayerIdentity(input);
+    if (resolution?.match) {
+      dbPlayer = await findPlayerById(resolution.match.playerId);
+    }
+
+    resolvedPlayers.set(player.id, { dbPlayer, input, resolution });
+  }
+
+  // The tournament is valued with the OPPR ratings and world rankings players
+  // had before it; players new to OPPR use new-player defaults
+  const existingPlayerIds = [...resolvedPlayers.values()].flatMap((r) =>
+    r.dbPlayer ? [r.dbPlayer.id] : []
+  );
+  const opprRankings = new Map(
+    (await findOpprPlayerRankings({ where: { playerId: { in: existingPlayerIds } } })).map(
+      (ranking) => [ranking.playerId, ranking]
+    )
+  );
+  const defaultRating = createNewPlayerRating();
+  const eventPlayers = new Map<string, CorePlayer>();
+  for (const [matchplayPlayerId, { dbPlayer }] of resolvedPlayers) {
+    const ranking = dbPlayer ? opprRankings.get(dbPlayer.id) : undefined;
+    eventPlayers.set(matchplayPlayerId, {
+      id: matchplayPlayerId,
+      rating: ranking?.rating ?? defaultRating.rating,
+      ranking: ranking?.ranking ?? 0,
+      isRated: ranking?.isRated ?? false,
+      ratingDeviation: ranking?.ratingDeviation ?? defaultRating.rd,
+      volatility: ranking?.volatility ?? defaultRating.volatility,
+    });
+  }
+  const withEventPlayers = (results: PlayerResult[]) =>
+    results.map((result) => ({
+      ...result,
+      player: eventPlayers.get(result.player.id) ?? result.player,
+    }));
+  const qualifyingResults = withEventPlayers(qualifying.results);
+  const finalsResults = finalsStageResults.map(withEventPlayers);
+
+  // Calculate OPPRS values and distribute points under the ruleset for the tournament date
+  const rulesetRegistry = await getRulesetRegistry();
+  let evaluation: RulesetTournamentResult;
+  try {
+    evaluation = rulesetRegistry.evaluateTournament(
+      {
+        ...matchplayTournament,
+        players: [...eventPlayers.values()],
+        tgpConfig,
+        eventBooster: mapEventBoosterToCore(eventBooster),
+      },
+      mergeStageResults(qualifyingResults, finalsResults)
+    );
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      throw new BadRequestError(`Invalid tournament data: ${error.message}`);
+    }
+    throw error;
+  }
+  const { firstPlaceValue } = evaluation.value;
+
+  // Players already in a re-imported tournament have it in their event count
+  const countedPlayerIds = new Set(
+    isUpdate
+      ? (await findStandings({ where: { tournamentId: existingTournament.id } })).map(
+          (standing) => standing.playerId
+        )
+      : []
+  );
+
+  // Create/update players in database
+  let playersCreated = 0;
+  let playersUpdated = 0;
+  let playersMatched = 0;
+  const playerIdMap = new Map<string, string>(); // matchplay ID -> database ID
+  const reviews: { input: IdentityInput; resolution: IdentityResolution; playerId: string }[] = [];
+
+  for (const [matchplayPlayerId, resolved] of resolvedPlayers) {
+    const { input, resolution } = resolved;
+    const playerExternalId = `matchplay:${matchplayPlayerId}`;
+    const playerName = playerNameMap.get(matchplayPlayerId);
+    let dbPlayer = resolved.dbPlayer;
 
     if (dbPlayer) {
       // Only update name if not already set
       dbPlayer = await updatePlayer(dbPlayer.id, {
-        eventCount: player.eventCount,
+        eventCount: dbPlayer.eventCount + (countedPlayerIds.has(dbPlayer.id) ? 0 : 1),
         ...(playerName && !dbPlayer.name ? { name: playerName } : {}),
       });
+      // A matched player is linked to the Matchplay ID, unverified until an admin confirms it
+      if (resolution?.match) {
+        await linkPlayerIdentity(dbPlayer.id, playerExternalId);
+        playersMatched++;
+      }
       playersUpdated++;
     } else {
       dbPlayer = await createPlayer({
         externalId: playerExternalId,
-        eventCount: player.eventCount,
+        eventCount: 1,
         name: playerName,
       });
       playersCreated++;
+      if (resolution?.decision === 'review') {
+        reviews.push({ input, resolution, playerId: dbPlayer.id });
+      }
     }
 
-    // Create or update OPPR ranking for the player
+    // Ensure the player has an OPPR ranking; ratings are updated from results below
     await getOrCreateOpprPlayerRanking(dbPlayer.id);
-    await updateOpprPlayerRanking(dbPlayer.id, {
-      rating: player.rating,
-      ratingDeviation: player.ratingDeviation,
-      ranking: player.ranking ?? undefined,
-      isRated: player.isRated,
-    });
 
-    playerIdMap.set(player.id, dbPlayer.id);
+    playerIdMap.set(matchplayPlayerId, dbPlayer.id);
   }
 
   // Tournament data object
@@ -174,16 +518,11 @@ export async function importTournament(
     externalId,
     name: matchplayTournament.name,
     date: matchplayTournament.date,
-    tgpConfig: matchplayTournament.tgpConfig as unknown as Prisma.InputJsonValue,
+    tgpConfig: tgpConfig as unknown as Prisma.InputJsonValue,
     eventBooster,
     allowsOptOut: matchplayTournament.allowsOptOut ?? false,
-    baseValue,
-    tvaRating,
-    tvaRanking,
-    totalTVA,
-    tgp,
-    eventBoosterMultiplier,
-    firstPlaceValue,
+    ...evaluation.value,
+    rulesetVersion: evaluation.ruleset.version,
   };
 
   let tournament: Tournament;
@@ -195,44 +534,99 @@ export async function importTournament(
     tournament = await createTournament(tournamentData);
   }
 
-  // Distribute points
-  const pointDistributions = distributePoints(matchplayResults, firstPlaceValue);
+  for (const review of reviews) {
+    await queuePlayerMatchReview(
+      'matchplay',
+      review.input,
+      review.resolution,
+      review.playerId,
+      tournament.id
+    );
+  }
 
-  // Calculate decay and create standings
-  // Note: For now we create qualifying standings (isFinals: false)
-  // Future: Import match data and create finals standings separately
-  const standingData = pointDistributions.map((dist) => {
-    const dbPlayerId = playerIdMap.get(dist.player.id);
-    if (!dbPlayerId) {
-      throw new Error(`Player mapping not found for ${dist.player.id}`);
-    }
+  // Calculate decay and create the standings of every stage; players earn
+  // their merged position's points on both their qualifying and finals standings,
+  // which keep the ratings and rankings the tournament value was evaluated with
+  const decayMultiplier = rulesetRegistry
+    .getEngineForDate(new Date())
+    .calculateDecayMultiplier(matchplayTournament.date);
+  const distributions = new Map(evaluation.pointsDistribution.map((d) => [d.player.id, d]));
+  const toStandingData = (results: PlayerResult[], isFinals: boolean) => {
+    const positionEnds = new Map(groupTiedResults(results).map((g) => [g.position, g.positionEnd]));
+    return results.map((result) => {
+      const dbPlayerId = playerIdMap.get(result.player.id);
+      const dist = distributions.get(result.player.id);
+      if (!dbPlayerId || !dist) {
+        throw new Error(`Player mapping not found for ${result.player.id}`);
+      }
 
-    const decayMultiplier = calculateDecayMultiplier(matchplayTournament.date);
-    const decayedPoints = dist.totalPoints * decayMultiplier;
-    const efficiency = firstPlaceValue > 0 ? (dist.totalPoints / firstPlaceValue) * 100 : 0;
-
-    return {
-      playerId: dbPlayerId,
-      tournamentId: tournament.id,
-      position: dist.position,
-      isFinals: false, // Currently importing as qualifying standings
-      optedOut: false,
-      linearPoints: dist.linearPoints,
-      dynamicPoints: dist.dynamicPoints,
-      totalPoints: dist.totalPoints,
-      decayMultiplier,
-      decayedPoints,
-      efficiency,
-    };
-  });
+      const decayedPoints = dist.totalPoints * decayMultiplier;
+      const efficiency = firstPlaceValue > 0 ? (dist.totalPoints / firstPlaceValue) * 100 : 0;
+      const positionEnd = positionEnds.get(result.position) ?? result.position;
+
+      return {
+        playerId: dbPlayerId,
+        tournamentId: tournament.id,
+        position: result.position,
+        positionEnd: positionEnd > result.position ? positionEnd : null,
+        isFinals,
+        optedOut: false,
+        linearPoints: dist.linearPoints,
+        dynamicPoints: dist.dynamicPoints,
+        totalPoints: dist.totalPoints,
+        decayMultiplier,
+        decayedPoints,
+        efficiency,
+        ratingAtEvent: result.player.rating,
+        rankingAtEvent: result.player.ranking || null,
+        ratedAtEvent: result.player.isRated,
+      };
+    });
+  };
+  const qualifyingData = toStandingData(qualifyingResults, false);
+  const finalsData = finalsResults.map((results) => toStandingData(results, true));
+  const standingData = [...qualifyingData, ...finalsData.flat()];
 
   await createManyStandings(standingData);
 
+  // Rate from individual games when Matchplay has them, otherwise from the saved standings;
+  // the games are stored so a historical replay rates the tournament the same way
+  const games = [qualifying, ...finals]
+    .flatMap((stage) => stage.games)
+    .map((game) => ({
+      placements: game.placements.flatMap((p) => {
+        const dbPlayerId = playerIdMap.get(p.playerId);
+        return dbPlayerId ? [{ playerId: dbPlayerId, placement: p.placement }] : [];
+      }),
+    }))
+    .filter((game) => game.placements.length >= 2);
+  await replaceTournamentGames(tournament.id, games);
+  const ratingUpdate = await applyTournamentRatingUpdates(tournament.id, { games });
+
   return {
     tournament,
     playersCreated,
     playersUpdated,
+    playersMatched,
+    reviewsQueued: reviews.length,
     resultsCount: standingData.length,
+    ratingsUpdated: ratingUpdate.changes.length,
+    ratingMethod: ratingUpdate.method,
     created: !isUpdate,
+    stages: [
+      {
+        matchplayId: qualifying.matchplayId,
+        isFinals: false,
+        resultsCount: qualifyingData.length,
+        tgpConfidence: qualifying.tgp.confidence,
+      },
+      ...finals.map((stage, i) => ({
+        matchplayId: stage.matchplayId,
+        isFinals: true,
+        resultsCount: finalsData[i]?.length ?? 0,
+        tgpConfidence: stage.tgp.confidence,
+      })),
+    ],
+    tgpOverridden: !!options.tgpConfig,
   };
 }
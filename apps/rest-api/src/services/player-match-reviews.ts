@@ -0,0 +1,89 @@
+import {
+  dismissPlayerMatchReview,
+  findPlayerById,
+  findPlayerMatchReviewById,
+  findStandings,
+  matchPlayerMatchReview,
+} from '@opprs/db-prisma';
+import type { PlayerMatchReviewWithPlayers } from '@opprs/db-prisma';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { recalculateTournamentAfterStandingsChange } from './tournament-recalculation.js';
+
+/**
+ * Find a pending review
+ */
+async function findPendingReview(id: string): Promise<PlayerMatchReviewWithPlayers> {
+  const review = await findPlayerMatchReviewById(id);
+  if (!review) {
+    throw new NotFoundError('Player match review', id);
+  }
+  if (review.status !== 'PENDING') {
+    throw new ConflictError(`Review has already been resolved as ${review.status}`);
+  }
+  return review;
+}
+
+/**
+ * Resolve a review by matching the imported player to an existing player.
+ *
+ * The imported player's results move to the existing player and the imported
+ * player is deleted. Tournaments whose standings moved are recalculated with
+ * the existing player's rating; ratings themselves are not replayed.
+ */
+export async function matchReviewedPlayer(
+  id: string,
+  playerId: string,
+  resolvedById?: string
+): Promise<PlayerMatchReviewWithPlayers> {
+  const review = await findPendingReview(id);
+  if (review.playerId === playerId) {
+    throw new BadRequestError('A player cannot be matched to themselves');
+  }
+  if (!(await findPlayerById(playerId))) {
+    throw new NotFoundError('Player', playerId);
+  }
+
+  // The two players may not have played the same stage of a tournament
+  if (review.playerId) {
+    const standings = await findStandings({ where: { playerId: review.playerId } });
+    const [overlap] =
+      standings.length > 0
+        ? await findStandings({
+            where: {
+              playerId,
+              OR: standings.map((s) => ({ tournamentId: s.tournamentId, isFinals: s.isFinals })),
+            },
+            take: 1,
+          })
+        : [];
+    if (overlap) {
+      throw new ConflictError(
+        `Both players have results in tournament ${overlap.tournamentId}; they are different players`
+      );
+    }
+  }
+
+  const result = await matchPlayerMatchReview(id, playerId, resolvedById);
+  if (!result) {
+    throw new ConflictError('Review has already been resolved');
+  }
+  for (const tournamentId of result.tournamentIds) {
+    await recalculateTournamentAfterStandingsChange(tournamentId);
+  }
+  return result.review;
+}
+
+/**
+ * Resolve a review by keeping the imported player as a player of their own
+ */
+export async function dismissReview(
+  id: string,
+  resolvedById?: string
+): Promise<PlayerMatchReviewWithPlayers> {
+  await findPendingReview(id);
+  const review = await dismissPlayerMatchReview(id, resolvedById);
+  if (!review) {
+    throw new ConflictError('Review has already been resolved');
+  }
+  return review;
+}
@@ -0,0 +1,37 @@
+import { countUsers, findPlayerById, mergePlayers } from '@opprs/db-prisma';
+import type { PlayerMergeResult } from '@opprs/db-prisma';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { recalculateTournamentAfterStandingsChange } from './tournament-recalculation.js';
+
+/**
+ * Merge a duplicate player into another and recalculate the tournaments whose
+ * standings moved. Ratings are not replayed.
+ *
+ * Players who are both linked to a user account are not merged, since one of
+ * the accounts would lose its player.
+ */
+export async function mergePlayer(
+  sourceId: string,
+  targetId: string,
+  mergedById?: string
+): Promise<PlayerMergeResult> {
+  if (sourceId === targetId) {
+    throw new BadRequestError('A player cannot be merged into themselves');
+  }
+  for (const id of [sourceId, targetId]) {
+    if (!(await findPlayerById(id))) {
+      throw new NotFoundError('Player', id);
+    }
+  }
+  if ((await countUsers({ playerId: { in: [sourceId, targetId] } })) > 1) {
+    throw new ConflictError(
+      'Both players are linked to a user account; unlink one of them before merging'
+    );
+  }
+
+  const result = await mergePlayers(sourceId, targetId, { mergedById });
+  for (const tournamentId of result.tournamentIds) {
+    await recalculateTournamentAfterStandingsChange(tournamentId);
+  }
+  return result;
+}
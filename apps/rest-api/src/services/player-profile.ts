@@ -0,0 +1,101 @@
+import type { PlayerEventInput, PlayerProfile } from '@opprs/core';
+import { getPlayerWithResults, findOpprPlayerRankingByPlayerId } from '@opprs/db-prisma';
+import { getRulesetRegistry } from './ranking-config.js';
+
+export interface PlayerProfileStats extends PlayerProfile {
+  referenceDate: Date;
+  totalEvents: number;
+  totalDecayedPoints: number;
+  averagePoints: number;
+  averagePosition: number;
+  averageFinish: number;
+  averageEfficiency: number;
+  firstPlaceFinishes: number;
+  topThreeFinishes: number;
+  bestFinish: number;
+  highestPoints: number;
+}
+
+/**
+ * Build a player's ranking profile with summary statistics of their active events.
+ *
+ * Decay, the top 15 counting events, ranking points and efficiency come from
+ * buildPlayerProfile of the engine in effect on the reference date, as world
+ * rankings are calculated. A tournament counts once, as in world rankings
+ * (see getPlayerEventPoints): when a player has both a qualifying and a
+ * finals standing, the one with more points is used, the finals standing on
+ * a tie. Returns null when the player does not exist.
+ */
+export async function getPlayerProfileStats(
+  playerId: string,
+  referenceDate: Date = new Date()
+): Promise<PlayerProfileStats | null> {
+  const [playerWithResults, ranking, registry] = await Promise.all([
+    getPlayerWithResults(playerId),
+    findOpprPlayerRankingByPlayerId(playerId),
+    getRulesetRegistry(),
+  ]);
+  if (!playerWithResults) {
+    return null;
+  }
+
+  const standingsByTournament = new Map<string, (typeof playerWithResults.standings)[number]>();
+  for (const standing of playerWithResults.standings) {
+    const existing = standingsByTournament.get(standing.tournamentId);
+    const points = standing.totalPoints ?? 0;
+    const existingPoints = existing?.totalPoints ?? 0;
+    if (
+      !existing ||
+      points > existingPoints ||
+      (points === existingPoints && standing.isFinals && !existing.isFinals)
+    ) {
+      standingsByTournament.set(standing.tournamentId, standing);
+    }
+  }
+
+  const events: PlayerEventInput[] = Array.from(standingsByTournament.values(), (standing) => ({
+    tournament: {
+      id: standing.tournament.id,
+      name: standing.tournament.name,
+      date: standing.tournament.date,
+    },
+    position: standing.position,
+    pointsEarned: standing.totalPoints ?? 0,
+    firstPlaceValue: standing.tournament.firstPlaceValue ?? 0,
+  }));
+
+  const engine = registry.getEngineForDate(referenceDate);
+  const defaultRating = engine.createNewPlayerRating();
+  const profile = engine.buildPlayerProfile(
+    {
+      id: playerId,
+      rating: ranking?.rating ?? defaultRating.rating,
+      ranking: ranking?.ranking ?? 0,
+      isRated: ranking?.isRated ?? false,
+      ratingDeviation: ranking?.ratingDeviation ?? defaultRating.rd,
+      eventCount: playerWithResults.eventCount,
+    },
+    events,
+    { referenceDate }
+  );
+
+  const active = profile.events;
+  const totalEvents = active.length;
+  const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+  const averagePosition = totalEvents > 0 ? sum(active.map((e) => e.position)) / totalEvents : 0;
+
+  return {
+    ...profile,
+    referenceDate,
+    totalEvents,
+    totalDecayedPoints: sum(active.map((e) => e.decayedPoints)),
+    averagePoints: totalEvents > 0 ? sum(active.map((e) => e.pointsEarned)) / totalEvents : 0,
+    averagePosition,
+    averageFinish: averagePosition,
+    averageEfficiency: engine.getEfficiencyStats(active).average,
+    firstPlaceFinishes: active.filter((e) => e.position === 1).length,
+    topThreeFinishes: active.filter((e) => e.position <= 3).length,
+    bestFinish: totalEvents > 0 ? Math.min(...active.map((e) => e.position)) : 0,
+    highestPoints: totalEvents > 0 ? Math.max(...active.map((e) => e.pointsEarned)) : 0,
+  };
+}
@@ -0,0 +1,449 @@
+import type {
+  OPPREngine,
+  PartialOPPRConfig,
+  RankingCandidate,
+  Ruleset,
+  RulesetRegistry,
+} from '@opprs/core';
+import {
+  createOPPREngine,
+  createRulesetRegistry,
+  getDefaultConfig,
+  RATING_STRATEGIES,
+  DECAY_CURVES,
+} from '@opprs/core';
+import type { RankingConfig } from '@opprs/db-prisma';
+import {
+  findRankingConfigActivations,
+  findTournaments,
+  getMergedStandings,
+  findOpprPlayerRankings,
+  findPlayers,
+  countTournaments,
+} from '@opprs/db-prisma';
+import { BadRequestError } from '../utils/errors.js';
+import { rulesetRegistry } from '../config/rulesets.js';
+import {
+  buildTournamentEvaluationInput,
+  type TournamentEvaluationInput,
+} from './tournament-input.js';
+
+/** Number of leaderboard positions compared in a preview */
+export const LEADERBOARD_PREVIEW_SIZE = 100;
+
+/** Smallest first place value change reported in a preview */
+const VALUE_CHANGE_THRESHOLD = 0.005;
+
+export interface TournamentValueChange {
+  tournamentId: string;
+  name: string;
+  date: Date;
+  currentValue: number;
+  proposedValue: number;
+  change: number;
+}
+
+export interface LeaderboardChange {
+  playerId: string;
+  name: string | null;
+  currentRanking: number | null;
+  proposedRanking: number | null;
+  currentPoints: number;
+  proposedPoints: number;
+}
+
+export interface RankingConfigPreview {
+  configId: string;
+  version: string;
+  /** Every tournament is recalculated under the proposed configuration */
+  scope: 'full-recalculation';
+  tournamentsEvaluated: number;
+  tournaments: TournamentValueChange[];
+  leaderboard: LeaderboardChange[];
+}
+
+/**
+ * Period a ranking configuration is in effect; open-ended while it is active
+ */
+export interface RankingConfigPeriod {
+  config: RankingConfig;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+}
+
+let cachedRegistry: { key: string; registry: RulesetRegistry } | null = null;
+
+/**
+ * Remove the configuration periods from a code-defined ruleset's date range,
+ * leaving one ruleset per remaining range.
+ */
+function subtractPeriods(ruleset: Ruleset, periods: Ruleset[]): Ruleset[] {
+  const end = ruleset.effectiveTo?.getTime() ?? Infinity;
+  const pieces: Ruleset[] = [];
+  let cursor = ruleset.effectiveFrom.getTime();
+
+  for (const period of periods) {
+    const periodEnd = period.effectiveTo?.getTime() ?? Infinity;
+    if (periodEnd <= cursor) {
+      continue;
+    }
+    if (period.effectiveFrom.getTime() >= end) {
+      break;
+    }
+    if (period.effectiveFrom.getTime() > cursor) {
+      pieces.push({
+        ...ruleset,
+        effectiveFrom: new Date(cursor),
+        effectiveTo: period.effectiveFrom,
+      });
+    }
+    cursor = periodEnd;
+  }
+  if (cursor < end) {
+    pieces.push({
+      ...ruleset,
+      effectiveFrom: new Date(cursor),
+      effectiveTo: ruleset.effectiveTo,
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Build a registry with ranking configurations in effect over periods.
+ *
+ * Each configuration is registered as a ruleset for every period it was
+ * active, so tournaments evaluated under it keep its rules after it is
+ * replaced. The code-defined rulesets cover the dates no configuration was
+ * active, split around the periods; those sharing a configuration's version
+ * are left out.
+ */
+export function createRegistryWithConfigs(periods: RankingConfigPeriod[]): RulesetRegistry {
+  // One config object per version, as the registry requires for repeated periods
+  const configs = new Map<string, PartialOPPRConfig>();
+  const configRulesets = periods
+    .filter((p) => !p.effectiveTo || p.effectiveTo.getTime() > p.effectiveFrom.getTime())
+    .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime())
+    .map(({ config, effectiveFrom, effectiveTo }): Ruleset => {
+      if (!configs.has(config.version)) {
+        configs.set(config.version, config.config as PartialOPPRConfig);
+      }
+      return {
+        version: config.version,
+        name: config.name,
+        effectiveFrom,
+        effectiveTo: effectiveTo ?? undefined,
+        config: configs.get(config.version) ?? {},
+      };
+    });
+
+  const codeRulesets = rulesetRegistry.rulesets
+    .filter((ruleset) => !configs.has(ruleset.version))
+    .flatMap((ruleset) => subtractPeriods(ruleset, configRulesets));
+  return createRulesetRegistry([...codeRulesets, ...configRulesets]);
+}
+
+/**
+ * Get the rulesets used for calculations.
+ *
+ * Every ranking configuration that was ever activated is registered alongside
+ * the code-defined rulesets for the periods it was active (see
+ * createRegistryWithConfigs). Registries are cached until a configuration is
+ * activated, deactivated or changed.
+ */
+export async function getRulesetRegistry(): Promise<RulesetRegistry> {
+  const activations = await findRankingConfigActivations();
+  if (activations.length === 0) {
+    return rulesetRegistry;
+  }
+
+  const key = activations
+    .map(
+      (a) => `${a.id}:${a.deactivatedAt?.getTime() ?? ''}:${a.rankingConfig.updatedAt.getTime()}`
+    )
+    .join(',');
+  if (cachedRegistry?.key !== key) {
+    cachedRegistry = {
+      key,
+      registry: createRegistryWithConfigs(
+        activations.map((a) => ({
+          config: a.rankingConfig,
+          effectiveFrom: a.activatedAt,
+          effectiveTo: a.deactivatedAt,
+        }))
+      ),
+    };
+  }
+  return cachedRegistry.registry;
+}
+
+/**
+ * Count the tournaments whose cached values were calculated under a ranking
+ * configuration. Such configurations can no longer be edited or deleted.
+ */
+export async function countRankingConfigTournaments(config: RankingConfig): Promise<number> {
+  return countTournaments({ rulesetVersion: config.version });
+}
+
+/**
+ * Find the ruleset for a stored tournament: the ruleset that produced its
+ * cached values when still registered, otherwise the one in effect on its date.
+ */
+export function resolveTournamentRuleset(
+  registry: RulesetRegistry,
+  rulesetVersion: string | null,
+  date: Date
+): Ruleset {
+  return (
+    (rulesetVersion && registry.getRuleset(rulesetVersion)) || registry.getRulesetForDate(date)
+  );
+}
+
+/**
+ * Check that every key is a known OPPR constant with a value of the default's type.
+ */
+function validateOverrides(
+  overrides: unknown,
+  defaults: Record<string, unknown>,
+  path: string
+): void {
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    throw new BadRequestError(`${path || 'config'} must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    const defaultValue = defaults[key];
+
+    if (defaultValue === undefined) {
+      throw new BadRequestError(`Unknown configuration key ${keyPath}`);
+    }
+    if (typeof defaultValue === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new BadRequestError(`${keyPath} must be a number`);
+      }
+    } else if (typeof defaultValue === 'string') {
+      if (typeof value !== 'string') {
+        throw new BadRequestError(`${keyPath} must be a string`);
+      }
+    } else if (Array.isArray(defaultValue)) {
+      if (!Array.isArray(value)) {
+        throw new BadRequestError(`${keyPath} must be an array`);
+      }
+      value.forEach((item: unknown, index) =>
+        validateOverrides(item, defaultValue[0] as Record<string, unknown>, `${keyPath}.${index}`)
+      );
+    } else {
+      validateOverrides(value, defaultValue as Record<string, unknown>, keyPath);
+    }
+  }
+}
+
+/**
+ * Validate ranking configuration overrides.
+ *
+ * Rejects unknown keys and values of the wrong type, and checks that the
+ * merged configuration is consistent (point distribution percentages sum to 1,
+ * finals raise the TGP cap, the rating deviation range is valid, the rating
+ * strategy and Glicko-2 constants are usable, and the time decay curve is
+ * known with usable parameters).
+ */
+export function validateRankingConfig(config: unknown): PartialOPPRConfig {
+  validateOverrides(config, getDefaultConfig() as unknown as Record<string, unknown>, '');
+
+  const merged = createOPPREngine(config as PartialOPPRConfig).config;
+
+  const distribution =
+    merged.POINT_DISTRIBUTION.LINEAR_PERCENTAGE + merged.POINT_DISTRIBUTION.DYNAMIC_PERCENTAGE;
+  if (Math.abs(distribution - 1) > 0.001) {
+    throw new BadRequestError('Linear and dynamic point distribution percentages must sum to 1');
+  }
+  if (merged.TGP.MAX_WITH_FINALS <= merged.TGP.MAX_WITHOUT_FINALS) {
+    throw new BadRequestError('Max TGP with finals must be greater than max TGP without finals');
+  }
+  if (merged.RATING.MIN_RD <= 0 || merged.RATING.MAX_RD <= merged.RATING.MIN_RD) {
+    throw new BadRequestError('Rating deviation range must be positive and MAX_RD above MIN_RD');
+  }
+  if (!Object.hasOwn(RATING_STRATEGIES, merged.RATING.STRATEGY)) {
+    throw new BadRequestError(
+      `Rating strategy must be one of: ${Object.keys(RATING_STRATEGIES).join(', ')}`
+    );
+  }
+  const { TAU, DEFAULT_VOLATILITY, CONVERGENCE_TOLERANCE } = merged.RATING.GLICKO2;
+  if (TAU <= 0 || DEFAULT_VOLATILITY <= 0 || CONVERGENCE_TOLERANCE <= 0) {
+    throw new BadRequestError('Glicko-2 tau, default volatility and tolerance must be positive');
+  }
+  const decay = merged.TIME_DECAY;
+  if (!Object.hasOwn(DECAY_CURVES, decay.CURVE)) {
+    throw new BadRequestError(
+      `Time decay curve must be one of: ${Object.keys(DECAY_CURVES).join(', ')}`
+    );
+  }
+  if (decay.MAX_AGE_YEARS <= 0 || decay.HALF_LIFE_YEARS <= 0) {
+    throw new BadRequestError('Time decay max age and half-life must be positive');
+  }
+  const breakpointsValid = decay.BREAKPOINTS.every(
+    (breakpoint, i, all) =>
+      breakpoint.MULTIPLIER >= 0 &&
+      breakpoint.MULTIPLIER <= 1 &&
+      (i === 0 || breakpoint.AGE_YEARS > (all[i - 1]?.AGE_YEARS ?? 0))
+  );
+  if (!breakpointsValid) {
+    throw new BadRequestError(
+      'Time decay breakpoints must have ascending ages and multipliers between 0 and 1'
+    );
+  }
+
+  return config as PartialOPPRConfig;
+}
+
+function addEventPoints(points: Map<string, number[]>, playerId: string, value: number): void {
+  const events = points.get(playerId) ?? [];
+  events.push(value);
+  points.set(playerId, events);
+}
+
+/**
+ * Preview how a ranking configuration would change tournament values and
+ * the top of the leaderboard if every tournament were recalculated under it.
+ *
+ * This is a full-recalculation preview: activating a configuration governs
+ * only tournaments from its activation date, so the preview shows what a
+ * historical replay under the configuration would change. Every tournament
+ * with a TGP configuration is evaluated from its merged standings (see
+ * buildTournamentEvaluationInput), once with the rulesets in use and once
+ * with the proposed configuration. Both sides are registries: the one in use,
+ * and one with the proposed configuration activated today. Points are
+ * decayed and summed into world rankings with each registry's engine for
+ * today, as the ranking refresh does, so the diff reflects only the
+ * configuration change.
+ */
+export async function previewRankingConfig(
+  config: RankingConfig,
+  limit: number = LEADERBOARD_PREVIEW_SIZE
+): Promise<RankingConfigPreview> {
+  const referenceDate = new Date();
+  const registry = await getRulesetRegistry();
+  const activations = await findRankingConfigActivations();
+  const proposedRegistry = createRegistryWithConfigs([
+    ...activations
+      .filter((a) => a.activatedAt.getTime() < referenceDate.getTime())
+      .map((a) => ({
+        config: a.rankingConfig,
+        effectiveFrom: a.activatedAt,
+        effectiveTo:
+          a.deactivatedAt && a.deactivatedAt.getTime() < referenceDate.getTime()
+            ? a.deactivatedAt
+            : referenceDate,
+      })),
+    { config, effectiveFrom: referenceDate, effectiveTo: null },
+  ]);
+  const proposed = proposedRegistry.getEngine(config.version);
+  const currentToday = registry.getEngineForDate(referenceDate);
+  const proposedToday = proposedRegistry.getEngineForDate(referenceDate);
+
+  const [tournaments, rankings] = await Promise.all([
+    findTournaments({ orderBy: { date: 'desc' } }),
+    findOpprPlayerRankings(),
+  ]);
+  const rankingsByPlayer = new Map(rankings.map((r) => [r.playerId, r]));
+
+  const currentPoints = new Map<string, number[]>();
+  const proposedPoints = new Map<string, number[]>();
+  const tournamentChanges: TournamentValueChange[] = [];
+  let tournamentsEvaluated = 0;
+
+  const accumulate = (
+    engine: OPPREngine,
+    today: OPPREngine,
+    points: Map<string, number[]>,
+    input: TournamentEvaluationInput,
+    firstPlaceValue: number
+  ): void => {
+    for (const distribution of engine.distributePoints(input.results, firstPlaceValue)) {
+      const decayed = today.applyTimeDecay(distribution.totalPoints, input.tournament.date, {
+        referenceDate,
+      });
+      addEventPoints(points, distribution.player.id, decayed);
+    }
+  };
+
+  for (const tournament of tournaments) {
+    if (!tournament.tgpConfig) {
+      continue;
+    }
+    const standings = await getMergedStandings(tournament.id);
+    if (standings.length === 0) {
+      continue;
+    }
+
+    const input = buildTournamentEvaluationInput(tournament, standings, rankingsByPlayer);
+    const ruleset = resolveTournamentRuleset(registry, tournament.rulesetVersion, tournament.date);
+    const current = registry.getEngine(ruleset.version);
+
+    const currentValue = current.calculateTournamentValue(input.tournament).firstPlaceValue;
+    const proposedValue = proposed.calculateTournamentValue(input.tournament).firstPlaceValue;
+    tournamentsEvaluated++;
+
+    accumulate(current, currentToday, currentPoints, input, currentValue);
+    accumulate(proposed, proposedToday, proposedPoints, input, proposedValue);
+
+    if (Math.abs(proposedValue - currentValue) >= VALUE_CHANGE_THRESHOLD) {
+      tournamentChanges.push({
+        tournamentId: tournament.id,
+        name: tournament.name,
+        date: tournament.date,
+        currentValue,
+        proposedValue,
+        change: proposedValue - currentValue,
+      });
+    }
+  }
+
+  const toCandidates = (points: Map<string, number[]>): RankingCandidate[] =>
+    Array.from(points, ([playerId, eventPoints]) => ({ playerId, eventPoints }));
+
+  const currentRankings = currentToday.calculateWorldRankings(toCandidates(currentPoints));
+  const proposedRankings = proposedToday.calculateWorldRankings(toCandidates(proposedPoints));
+  const currentByPlayer = new Map(currentRankings.map((r) => [r.playerId, r]));
+  const proposedByPlayer = new Map(proposedRankings.map((r) => [r.playerId, r]));
+
+  const inTop = (ranking: number | null | undefined): boolean =>
+    ranking !== null && ranking !== undefined && ranking <= limit;
+  const playerIds = Array.from(currentByPlayer.keys()).filter(
+    (id) => inTop(currentByPlayer.get(id)?.ranking) || inTop(proposedByPlayer.get(id)?.ranking)
+  );
+
+  const players = await findPlayers({ where: { id: { in: playerIds } } });
+  const namesById = new Map(players.map((p) => [p.id, p.name]));
+
+  const leaderboard: LeaderboardChange[] = playerIds
+    .map((playerId) => {
+      const current = currentByPlayer.get(playerId);
+      const next = proposedByPlayer.get(playerId);
+      return {
+        playerId,
+        name: namesById.get(playerId) ?? null,
+        currentRanking: current?.ranking ?? null,
+        proposedRanking: next?.ranking ?? null,
+        currentPoints: current?.totalPoints ?? 0,
+        proposedPoints: next?.totalPoints ?? 0,
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.proposedRanking ?? Infinity) - (b.proposedRanking ?? Infinity) ||
+        (a.currentRanking ?? Infinity) - (b.currentRanking ?? Infinity)
+    );
+
+  tournamentChanges.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  return {
+    configId: config.id,
+    version: config.version,
+    scope: 'full-recalculation',
+    tournamentsEvaluated,
+    tournaments: tournamentChanges,
+    leaderboard,
+  };
+}
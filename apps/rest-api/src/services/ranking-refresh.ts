@@ -0,0 +1,54 @@
+import type { RankingCandidate } from '@opprs/core';
+import {
+  getPlayerEventPoints,
+  findOpprPlayerRankings,
+  getOrCreateOpprPlayerRanking,
+  updateWorldRankings,
+} from '@opprs/db-prisma';
+import { getRulesetRegistry } from './ranking-config.js';
+
+export interface RankingRefreshResult {
+  playersEvaluated: number;
+  rankedCount: number;
+  updatedCount: number;
+}
+
+/**
+ * Recompute world rankings for every player from their standings.
+ *
+ * Each player's total is the sum of their best decayed event points, counted
+ * and rated under the ruleset in effect today (see calculateWorldRankings in
+ * @opprs/core). Players with an OPPR ranking
+ * but no standings are included so that stale rankings are cleared.
+ * Results are persisted with a RANKING_REFRESH history row per player.
+ */
+export async function refreshWorldRankings(): Promise<RankingRefreshResult> {
+  const [eventPoints, existingRankings] = await Promise.all([
+    getPlayerEventPoints(),
+    findOpprPlayerRankings(),
+  ]);
+
+  const candidates = new Map<string, RankingCandidate>(
+    existingRankings.map((r) => [r.playerId, { playerId: r.playerId, eventPoints: [] }])
+  );
+
+  for (const entry of eventPoints) {
+    if (!candidates.has(entry.playerId)) {
+      await getOrCreateOpprPlayerRanking(entry.playerId);
+    }
+    candidates.set(entry.playerId, entry);
+  }
+
+  const engine = (await getRulesetRegistry()).getEngineForDate(new Date());
+  const rankings = engine.calculateWorldRankings(Array.from(candidates.values()));
+
+  const updatedCount = await updateWorldRankings(
+    rankings.map(({ playerId, ranking, isRated }) => ({ playerId, ranking, isRated }))
+  );
+
+  return {
+    playersEvaluated: rankings.length,
+    rankedCount: rankings.filter((r) => r.ranking !== null).length,
+    updatedCount,
+  };
+}
@@ -0,0 +1,140 @@
+import type { GameResult, PlayerResult } from '@opprs/core';
+import {
+  findTournamentById,
+  getMergedStandings,
+  findPlayers,
+  getOrCreateOpprPlayerRanking,
+  applyOpprRatingUpdatesForTournament,
+  countOpprRankingHistory,
+  getTournamentGames,
+} from '@opprs/db-prisma';
+import type { TournamentRatingUpdate } from '@opprs/db-prisma';
+import { getRulesetRegistry, resolveTournamentRuleset } from './ranking-config.js';
+
+export interface PlayerRatingChange {
+  playerId: string;
+  position: number;
+  previousRating: number;
+  newRating: number;
+  previousRD: number;
+  newRD: number;
+}
+
+export interface RatingUpdateOptions {
+  /** Individual game results, keyed by database player IDs (defaults to the stored games) */
+  games?: GameResult[];
+}
+
+export interface RatingUpdateResult {
+  tournamentId: string;
+  applied: boolean;
+  /** Whether matches were simulated from individual games or final standings */
+  method: 'games' | 'standings';
+  changes: PlayerRatingChange[];
+}
+
+/**
+ * Apply rating updates for every participant of a tournament, using the
+ * rating system (RATING.STRATEGY) of the tournament's ruleset.
+ *
+ * When the tournament has individual game results, given or stored with it,
+ * every game is scored as head-to-head matches between the players in it,
+ * as a historical replay does. Otherwise merged standings
+ * (finalists first, then non-finalists) are simulated as head-to-head matches.
+ * All updates are computed from pre-tournament ratings so the order of
+ * processing does not affect the outcome.
+ *
+ * All updates are written in one transaction, so a failed update changes no
+ * ratings and can be retried. Ratings are applied once per tournament: if
+ * TOURNAMENT_RESULT history already exists for the tournament, nothing is
+ * changed and `applied` is false.
+ */
+export async function applyTournamentRatingUpdates(
+  tournamentId: string,
+  options: RatingUpdateOptions = {}
+): Promise<RatingUpdateResult> {
+  const games = options.games ?? (await getTournamentGames(tournamentId));
+  const method = games.length > 0 ? 'games' : 'standings';
+
+  const existingHistory = await countOpprRankingHistory({
+    tournamentId,
+    changeType: 'TOURNAMENT_RESULT',
+  });
+  if (existingHistory > 0) {
+    return { tournamentId, applied: false, method, changes: [] };
+  }
+
+  const tournament = await findTournamentById(tournamentId);
+  const standings = await getMergedStandings(tournamentId);
+  if (!tournament || standings.length === 0) {
+    return { tournamentId, applied: false, method, changes: [] };
+  }
+
+  const registry = await getRulesetRegistry();
+  const engine = registry.getEngine(
+    resolveTournamentRuleset(registry, tournament.rulesetVersion, tournament.date).version
+  );
+
+  const players = await findPlayers({
+    where: { id: { in: standings.map((s) => s.playerId) } },
+  });
+  const eventCounts = new Map(players.map((p) => [p.id, p.eventCount]));
+
+  // Pre-tournament snapshot used as opponents for every simulated match
+  const results: PlayerResult[] = await Promise.all(
+    standings.map(async (standing) => {
+      const ranking = await getOrCreateOpprPlayerRanking(standing.playerId);
+      return {
+        player: {
+          id: standing.playerId,
+          rating: ranking.rating,
+          ranking: ranking.ranking ?? 0,
+          isRated: ranking.isRated,
+          ratingDeviation: ranking.ratingDeviation,
+          volatility: ranking.volatility,
+        },
+        position: standing.mergedPosition,
+      };
+    })
+  );
+
+  const opponents = results.map((r) => r.player);
+  const changes: PlayerRatingChange[] = [];
+  const updates: TournamentRatingUpdate[] = [];
+
+  for (const { player, position } of results) {
+    const previousRD = player.ratingDeviation ?? engine.createNewPlayerRating().rd;
+    const { newRating, newRD, newVolatility } = engine.updateRating({
+      currentRating: player.rating,
+      currentRD: previousRD,
+      currentVolatility: player.volatility,
+      results:
+        method === 'games'
+          ? engine.simulateGameMatches(player.id, games, opponents)
+          : engine.simulateTournamentMatches(position, results, player.id),
+    });
+
+    updates.push({
+      playerId: player.id,
+      rating: newRating,
+      ratingDeviation: newRD,
+      volatility: newVolatility,
+      eventCount: eventCounts.get(player.id),
+    });
+
+    changes.push({
+      playerId: player.id,
+      position,
+      previousRating: player.rating,
+      newRating,
+      previousRD,
+      newRD,
+    });
+  }
+
+  if (!(await applyOpprRatingUpdatesForTournament(tournamentId, updates))) {
+    return { tournamentId, applied: false, method, changes: [] };
+  }
+
+  return { tournamentId, applied: true, method, changes };
+}
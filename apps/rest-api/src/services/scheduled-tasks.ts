@@ -0,0 +1,99 @@
+import { applyRDDecayForInactivePlayers } from '@opprs/db-prisma';
+import { env } from '../config/env.js';
+import { parseCronExpression } from '../utils/cron.js';
+import type { CronSchedule } from '../utils/cron.js';
+import { getRulesetRegistry } from './ranking-config.js';
+import { refreshWorldRankings } from './ranking-refresh.js';
+import { refreshTimeDecay } from './time-decay.js';
+
+/** Schedule value that disables a task */
+export const SCHEDULE_OFF = 'off';
+
+export interface ScheduledTaskContext {
+  /** Start of the last successful run, or null if the task never succeeded */
+  lastSuccessAt: Date | null;
+}
+
+export interface ScheduledTaskDefinition {
+  name: string;
+  description: string;
+  /** Cron expression, or null when the task is disabled */
+  schedule: string | null;
+  cron: CronSchedule | null;
+  run: (context: ScheduledTaskContext) => Promise<unknown>;
+}
+
+/**
+ * A task with a schedule
+ */
+export type EnabledScheduledTask = ScheduledTaskDefinition & {
+  schedule: string;
+  cron: CronSchedule;
+};
+
+export function isScheduledTaskEnabled(
+  task: ScheduledTaskDefinition
+): task is EnabledScheduledTask {
+  return task.schedule !== null && task.cron !== null;
+}
+
+function defineTask(
+  name: string,
+  description: string,
+  schedule: string,
+  run: ScheduledTaskDefinition['run']
+): ScheduledTaskDefinition {
+  const enabled = schedule.trim().toLowerCase() !== SCHEDULE_OFF;
+  return {
+    name,
+    description,
+    schedule: enabled ? schedule : null,
+    cron: enabled ? parseCronExpression(schedule) : null,
+    run,
+  };
+}
+
+/**
+ * Returns the maintenance tasks with their schedules from the environment
+ *
+ * @throws Error when a schedule is not a valid cron expression
+ */
+export function getScheduledTaskDefinitions(): ScheduledTaskDefinition[] {
+  return [
+    defineTask(
+      'time-decay',
+      'Decays the points of every standing to today',
+      env.schedules.timeDecay,
+      () => refreshTimeDecay()
+    ),
+    defineTask(
+      'rd-decay',
+      'Raises the rating deviation of players without a rating update for RD_DECAY_THRESHOLD_DAYS',
+      env.schedules.rdDecay,
+      async ({ lastSuccessAt }) => {
+        const { config } = (await getRulesetRegistry()).getEngineForDate(new Date());
+        // Only the days since the last run are added again
+        const count = await applyRDDecayForInactivePlayers(
+          config.RATING.RD_DECAY_THRESHOLD_DAYS,
+          config.RATING.RD_DECAY_PER_DAY,
+          config.RATING.MAX_RD,
+          lastSuccessAt ?? undefined
+        );
+        return { count, message: `Applied RD decay to ${count} players` };
+      }
+    ),
+    defineTask(
+      'ranking-refresh',
+      "Recomputes world rankings from each player's top 15 decayed results",
+      env.schedules.rankingRefresh,
+      async () => {
+        const result = await refreshWorldRankings();
+        return {
+          count: result.updatedCount,
+          rankedCount: result.rankedCount,
+          message: `Successfully refreshed rankings for ${result.updatedCount} players`,
+        };
+      }
+    ),
+  ];
+}
@@ -0,0 +1,129 @@
+import { setInterval, clearInterval } from 'node:timers';
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  acquireScheduledTaskLease,
+  findLastSuccessfulScheduledTaskRun,
+  finishScheduledTaskRun,
+  releaseScheduledTaskLease,
+  renewScheduledTaskLease,
+  startScheduledTaskRun,
+  syncScheduledTask,
+} from '@opprs/db-prisma';
+import type { ScheduledTask } from '@opprs/db-prisma';
+import { getNextCronRun } from '../utils/cron.js';
+import { createPollingLoop } from '../utils/polling-loop.js';
+import { toJobResult } from './jobs.js';
+import { isScheduledTaskEnabled } from './scheduled-tasks.js';
+import type { EnabledScheduledTask, ScheduledTaskDefinition } from './scheduled-tasks.js';
+
+/** How often the scheduler checks for due tasks */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/** How long a lease lasts without being renewed */
+const LEASE_DURATION_MS = 5 * 60 * 1000;
+
+/** How often the lease of a running task is renewed */
+const LEASE_RENEW_INTERVAL_MS = 60 * 1000;
+
+export interface SchedulerOptions {
+  tasks: ScheduledTaskDefinition[];
+  logger: FastifyBaseLogger;
+}
+
+export interface Scheduler {
+  readonly id: string;
+  start: () => void;
+  /** Stops the scheduler after the task it is running */
+  stop: () => Promise<void>;
+  /** Checks for due tasks without waiting for the next check */
+  wake: () => void;
+}
+
+/**
+ * Creates a scheduler that runs maintenance tasks on their cron schedules.
+ *
+ * Every instance may run a scheduler: a due task is run by the instance that
+ * takes its lease in the database, which it renews while the task runs. If
+ * that instance stops, the lease expires and another instance runs the task.
+ * Each run is recorded with its outcome, and the next run is scheduled from
+ * the time the run finished, so missed runs are caught up with a single run.
+ */
+export function createScheduler({ tasks, logger }: SchedulerOptions): Scheduler {
+  const enabledTasks = tasks.filter(isScheduledTaskEnabled);
+  let synced = false;
+
+  const loop = createPollingLoop({
+    intervalMs: CHECK_INTERVAL_MS,
+    poll: async () => {
+      if (!synced) {
+        const now = new Date();
+        for (const definition of enabledTasks) {
+          await syncScheduledTask(
+            definition.name,
+            definition.schedule,
+            getNextCronRun(definition.cron, now)
+          );
+        }
+        synced = true;
+      }
+
+      for (const definition of enabledTasks) {
+        if (!loop.running) {
+          break;
+        }
+        const task = await acquireScheduledTaskLease(definition.name, id, leaseExpiry());
+        if (task) {
+          await runTask(definition, task);
+        }
+      }
+    },
+    onError: (error) => logger.error({ err: error }, 'Scheduler error'),
+  });
+  const { id } = loop;
+
+  const leaseExpiry = (): Date => new Date(Date.now() + LEASE_DURATION_MS);
+
+  async function runTask(definition: EnabledScheduledTask, task: ScheduledTask): Promise<void> {
+    const lastSuccess = await findLastSuccessfulScheduledTaskRun(task.id);
+    const run = await startScheduledTaskRun(task.id, id);
+    logger.info({ task: task.name, runId: run.id }, 'Scheduled task started');
+
+    const renewal = setInterval(() => {
+      renewScheduledTaskLease(task.name, id, leaseExpiry()).catch((error: unknown) => {
+        logger.error({ task: task.name, err: error }, 'Could not renew scheduled task lease');
+      });
+    }, LEASE_RENEW_INTERVAL_MS);
+
+    try {
+      const result = await definition.run({ lastSuccessAt: lastSuccess?.startedAt ?? null });
+      await finishScheduledTaskRun(run.id, { status: 'SUCCEEDED', result: toJobResult(result) });
+      logger.info({ task: task.name, runId: run.id }, 'Scheduled task succeeded');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Task failed';
+      await finishScheduledTaskRun(run.id, { status: 'FAILED', error: message });
+      logger.error({ task: task.name, runId: run.id, err: error }, 'Scheduled task failed');
+    } finally {
+      clearInterval(renewal);
+      await releaseScheduledTaskLease(
+        task.name,
+        id,
+        run.startedAt,
+        getNextCronRun(definition.cron, new Date())
+      );
+    }
+  }
+
+  return {
+    id,
+    start: () => {
+      if (enabledTasks.length > 0 && loop.start()) {
+        logger.info(
+          { schedulerId: id, tasks: enabledTasks.map((task) => task.name) },
+          'Scheduler started'
+        );
+      }
+    },
+    stop: loop.stop,
+    wake: loop.wake,
+  };
+}
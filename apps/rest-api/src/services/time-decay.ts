@@ -0,0 +1,29 @@
+import { countTournaments, recalculateTimeDecay } from '@opprs/db-prisma';
+import { getRulesetRegistry } from './ranking-config.js';
+
+export interface TimeDecayRefreshResult {
+  count: number;
+  tournamentsProcessed: number;
+  message: string;
+}
+
+/**
+ * Decay every standing to today using the time decay curve of the ruleset in
+ * effect today. Only standings whose decay multiplier changed are written.
+ */
+export async function refreshTimeDecay(
+  onProgress?: (processed: number, total: number) => void | Promise<void>
+): Promise<TimeDecayRefreshResult> {
+  const referenceDate = new Date();
+  const engine = (await getRulesetRegistry()).getEngineForDate(referenceDate);
+  const total = await countTournaments();
+  const { tournamentsProcessed, standingsUpdated } = await recalculateTimeDecay(referenceDate, {
+    getDecayInfo: engine.getEventDecayInfo,
+    onProgress: onProgress && ((processed) => onProgress(processed, total)),
+  });
+  return {
+    count: standingsUpdated,
+    tournamentsProcessed,
+    message: `Successfully recalculated decay for ${tournamentsProcessed} tournaments`,
+  };
+}
@@ -0,0 +1,68 @@
+import type { PlayerResult, TGPConfig, Tournament } from '@opprs/core';
+import { createNewPlayerRating } from '@opprs/core';
+import type {
+  MergedStanding,
+  OpprPlayerRanking,
+  Tournament as DbTournament,
+} from '@opprs/db-prisma';
+import { mapEventBoosterToCore } from './matchplay-import.js';
+
+export interface TournamentEvaluationInput {
+  tournament: Tournament;
+  results: PlayerResult[];
+}
+
+/**
+ * Build the core tournament and results for a stored tournament.
+ *
+ * Players are taken from the merged standings with the rating, world ranking
+ * and rated status stored on their standing when its points were first
+ * calculated, so the tournament keeps the value it had then. Standings without
+ * these use the player's current OPPR rating and world ranking, and players
+ * without an OPPR ranking use new-player defaults. The tournament must have a
+ * TGP configuration.
+ */
+export function buildTournamentEvaluationInput(
+  tournament: DbTournament,
+  standings: MergedStanding[],
+  rankingsByPlayer: Map<string, OpprPlayerRanking>
+): TournamentEvaluationInput {
+  const defaultRating = createNewPlayerRating();
+
+  const results: PlayerResult[] = standings.map((standing) => {
+    const ranking = rankingsByPlayer.get(standing.playerId);
+    const atEvent =
+      standing.ratingAtEvent !== null
+        ? {
+            rating: standing.ratingAtEvent,
+            ranking: standing.rankingAtEvent,
+            isRated: standing.ratedAtEvent,
+          }
+        : ranking;
+    return {
+      player: {
+        id: standing.playerId,
+        rating: atEvent?.rating ?? defaultRating.rating,
+        ranking: atEvent?.ranking ?? 0,
+        isRated: atEvent?.isRated ?? false,
+        ratingDeviation: ranking?.ratingDeviation ?? defaultRating.rd,
+        volatility: ranking?.volatility ?? defaultRating.volatility,
+      },
+      position: standing.mergedPosition,
+      optedOut: standing.optedOut,
+    };
+  });
+
+  return {
+    tournament: {
+      id: tournament.id,
+      name: tournament.name,
+      date: tournament.date,
+      players: results.map((r) => r.player),
+      tgpConfig: tournament.tgpConfig as unknown as TGPConfig,
+      eventBooster: mapEventBoosterToCore(tournament.eventBooster),
+      allowsOptOut: tournament.allowsOptOut,
+    },
+    results,
+  };
+}
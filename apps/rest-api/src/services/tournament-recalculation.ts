@@ -0,0 +1,143 @@
+import type { TournamentValue } from '@opprs/core';
+import { findTournamentById, recalculateTournamentPoints } from '@opprs/db-prisma';
+import type {
+  StandingPointsUpdate,
+  TournamentPointsCalculator,
+  TournamentPointsUpdate,
+} from '@opprs/db-prisma';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { getRulesetRegistry, resolveTournamentRuleset } from './ranking-config.js';
+import { buildTournamentEvaluationInput } from './tournament-input.js';
+
+export interface TournamentRecalculationResult {
+  tournamentId: string;
+  rulesetVersion: string;
+  value: TournamentValue;
+  standingsUpdated: number;
+}
+
+interface TournamentPointsRecalculation extends TournamentPointsUpdate {
+  rulesetVersion: string;
+  value: TournamentValue;
+}
+
+/**
+ * Create the calculator that recalculates a tournament's value and the
+ * points of its standings, for use in the transaction that stores them.
+ *
+ * The tournament is re-evaluated from its merged standings with the rating
+ * and world ranking each player had when their standing's points were first
+ * calculated (see buildTournamentEvaluationInput), under the ruleset that
+ * produced its cached values when still registered (otherwise the one in
+ * effect on its date). These are stored on standings that have none yet, so
+ * later rating changes do not change the tournament's value. Points are
+ * redistributed by merged position, opted-out players get none, and decay is
+ * applied for today under today's ruleset. Results are not validated so
+ * standings can be recalculated while they are still being entered.
+ * Tournaments without a TGP configuration are left unchanged.
+ */
+export async function createTournamentPointsCalculator(): Promise<
+  TournamentPointsCalculator<TournamentPointsRecalculation>
+> {
+  const rulesetRegistry = await getRulesetRegistry();
+  const referenceDate = new Date();
+  const todaysEngine = rulesetRegistry.getEngineForDate(referenceDate);
+
+  return ({ tournament, standings, rankings }) => {
+    if (!tournament.tgpConfig) {
+      return null;
+    }
+
+    const rankingsByPlayer = new Map(rankings.map((r) => [r.playerId, r]));
+    const input = buildTournamentEvaluationInput(tournament, standings, rankingsByPlayer);
+    const ruleset = resolveTournamentRuleset(
+      rulesetRegistry,
+      tournament.rulesetVersion,
+      tournament.date
+    );
+    const engine = rulesetRegistry.getEngine(ruleset.version);
+    const { ageInDays, decayMultiplier } = todaysEngine.getEventDecayInfo(tournament.date, {
+      referenceDate,
+    });
+
+    const value = engine.calculateTournamentValue(input.tournament);
+    const distributions = new Map(
+      engine
+        .distributePoints(input.results, value.firstPlaceValue)
+        .map((distribution) => [distribution.player.id, distribution])
+    );
+
+    const points: StandingPointsUpdate[] = input.results.map(({ player }) => {
+      const distribution = distributions.get(player.id);
+      const totalPoints = distribution?.totalPoints ?? 0;
+      return {
+        playerId: player.id,
+        linearPoints: distribution?.linearPoints ?? 0,
+        dynamicPoints: distribution?.dynamicPoints ?? 0,
+        totalPoints,
+        ageInDays,
+        decayMultiplier,
+        decayedPoints: totalPoints * decayMultiplier,
+        efficiency: value.firstPlaceValue > 0 ? (totalPoints / value.firstPlaceValue) * 100 : 0,
+        ratingAtEvent: player.rating,
+        rankingAtEvent: player.ranking || null,
+        ratedAtEvent: player.isRated,
+      };
+    });
+
+    return {
+      values: { ...value, rulesetVersion: ruleset.version },
+      standings: points,
+      rulesetVersion: ruleset.version,
+      value,
+    };
+  };
+}
+
+/**
+ * Recalculate a tournament's value and the points of its standings (see
+ * createTournamentPointsCalculator), reading and writing them in one
+ * transaction.
+ */
+export async function recalculateTournament(
+  tournamentId: string
+): Promise<TournamentRecalculationResult> {
+  const tournament = await findTournamentById(tournamentId);
+  if (!tournament) {
+    throw new NotFoundError('Tournament', tournamentId);
+  }
+  if (!tournament.tgpConfig) {
+    throw new BadRequestError('Tournament has no TGP configuration');
+  }
+
+  const recalculation = await recalculateTournamentPoints(
+    tournament.id,
+    await createTournamentPointsCalculator()
+  );
+  if (!recalculation) {
+    throw new NotFoundError('Tournament', tournamentId);
+  }
+
+  return {
+    tournamentId: tournament.id,
+    rulesetVersion: recalculation.update.rulesetVersion,
+    value: recalculation.update.value,
+    standingsUpdated: recalculation.standingsUpdated,
+  };
+}
+
+/**
+ * Recalculate a tournament after its standings were created, edited or deleted.
+ *
+ * Tournaments without a TGP configuration are skipped: their values were
+ * entered by hand and cannot be recalculated.
+ */
+export async function recalculateTournamentAfterStandingsChange(
+  tournamentId: string
+): Promise<TournamentRecalculationResult | null> {
+  const tournament = await findTournamentById(tournamentId);
+  if (!tournament?.tgpConfig) {
+    return null;
+  }
+  return recalculateTournament(tournamentId);
+}
@@ -0,0 +1,77 @@
+import type { TournamentTrace, TournamentValue } from '@opprs/core';
+import { findTournamentById, getMergedStandings, findOpprPlayerRankings } from '@opprs/db-prisma';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { getRulesetRegistry, resolveTournamentRuleset } from './ranking-config.js';
+import { buildTournamentEvaluationInput } from './tournament-input.js';
+
+export interface StoredTournamentValue {
+  baseValue: number | null;
+  tvaRating: number | null;
+  tvaRanking: number | null;
+  totalTVA: number | null;
+  tgp: number | null;
+  eventBoosterMultiplier: number | null;
+  firstPlaceValue: number | null;
+}
+
+export interface TournamentTraceResult {
+  tournamentId: string;
+  rulesetVersion: string;
+  value: TournamentValue;
+  stored: StoredTournamentValue;
+  trace: TournamentTrace;
+}
+
+/**
+ * Explain how a tournament's value and points are calculated.
+ *
+ * The tournament is re-evaluated from its merged standings, stored TGP config
+ * and event booster, using the rating and world ranking recorded on each
+ * standing when its points were calculated (see
+ * buildTournamentEvaluationInput), so the trace explains the stored first
+ * place value rather than what the players' current ratings would give.
+ * The ruleset that produced the cached values is used when it is still
+ * registered, otherwise the ruleset in effect on the tournament date.
+ * The values cached on the tournament are returned alongside so any drift
+ * since import is visible.
+ */
+export async function getTournamentTrace(tournamentId: string): Promise<TournamentTraceResult> {
+  const tournament = await findTournamentById(tournamentId);
+  if (!tournament) {
+    throw new NotFoundError('Tournament', tournamentId);
+  }
+  if (!tournament.tgpConfig) {
+    throw new BadRequestError('Tournament has no TGP configuration');
+  }
+
+  const standings = await getMergedStandings(tournamentId);
+  const rankings = await findOpprPlayerRankings({
+    where: { playerId: { in: standings.map((s) => s.playerId) } },
+  });
+  const rankingsByPlayer = new Map(rankings.map((r) => [r.playerId, r]));
+  const input = buildTournamentEvaluationInput(tournament, standings, rankingsByPlayer);
+
+  const rulesetRegistry = await getRulesetRegistry();
+  const ruleset = resolveTournamentRuleset(
+    rulesetRegistry,
+    tournament.rulesetVersion,
+    tournament.date
+  );
+  const engine = rulesetRegistry.getEngine(ruleset.version);
+
+  return {
+    tournamentId: tournament.id,
+    rulesetVersion: ruleset.version,
+    value: engine.calculateTournamentValue(input.tournament),
+    stored: {
+      baseValue: tournament.baseValue,
+      tvaRating: tournament.tvaRating,
+      tvaRanking: tournament.tvaRanking,
+      totalTVA: tournament.totalTVA,
+      tgp: tournament.tgp,
+      eventBoosterMultiplier: tournament.eventBoosterMultiplier,
+      firstPlaceValue: tournament.firstPlaceValue,
+    },
+    trace: engine.explainTournament(input.tournament, input.results),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month and
+ * day of week. Times are matched in UTC.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day of month field is restricted (not `*`) */
+  daysOfMonthRestricted: boolean;
+  /** Whether the day of week field is restricted (not `*`) */
+  daysOfWeekRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/** Furthest a next run is searched for, enough for a 29 February schedule */
+const MAX_SEARCH_DAYS = 8 * 366;
+
+function parseField(
+  value: string,
+  { name, min, max }: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of value.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}" in cron expression "${expression}"`);
+    }
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step ? max : from;
+    const increment = step ? Number(step) : 1;
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid ${name} "${part}" in cron expression "${expression}"`);
+    }
+    for (let v = from; v <= to; v += increment) {
+      values.add(v);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a cron expression such as `0 3 * * *` (every day at 03:00 UTC).
+ *
+ * Fields accept `*`, numbers, ranges (`1-5`), steps (`0-30/10`, `5/15`) and
+ * lists of these. A day of week of 7 is Sunday. The macros `@hourly`,
+ * `@daily`, `@weekly` and `@monthly` are supported.
+ *
+ * @throws Error when the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed] ?? trimmed).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((field, i) =>
+    parseField(fields[i] ?? '', field, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2]?.startsWith('*'),
+    daysOfWeekRestricted: !fields[4]?.startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  // As in cron, a day matches either restricted field when both are restricted
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time after `after` matched by a cron schedule
+ *
+ * @throws Error when the schedule never matches, e.g. `0 0 31 2 *`
+ */
+export function getNextCronRun(schedule: CronSchedule | string, after: Date): Date {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  const next = new Date(after);
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  for (let day = 0; day <= MAX_SEARCH_DAYS; day++) {
+    if (matchesDay(cron, next)) {
+      for (; ; next.setUTCMinutes(next.getUTCMinutes() + 1)) {
+        if (cron.hours.has(next.getUTCHours()) && cron.minutes.has(next.getUTCMinutes())) {
+          return next;
+        }
+        if (next.getUTCHours() === 23 && next.getUTCMinutes() === 59) {
+          break;
+        }
+      }
+    }
+    next.setUTCDate(next.getUTCDate() + 1);
+    next.setUTCHours(0, 0, 0, 0);
+  }
+  throw new Error('Cron schedule never matches');
+}
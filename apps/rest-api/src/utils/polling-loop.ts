@@ -0,0 +1,86 @@
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { setTimeout, clearTimeout } from 'node:timers';
+
+export interface PollingLoopOptions {
+  /** How long to wait between iterations */
+  intervalMs: number;
+  /** Runs one iteration; resolving to true runs the next one without waiting */
+  poll: () => Promise<boolean | void>;
+  /** Called with errors thrown by an iteration, after which the loop goes on */
+  onError: (error: unknown) => void;
+}
+
+export interface PollingLoop {
+  /** Identifies this process and loop, e.g. to hold locks in the database */
+  readonly id: string;
+  /** Whether the loop runs, false as soon as it is asked to stop */
+  readonly running: boolean;
+  /** Starts the loop; returns false when it was already running */
+  start: () => boolean;
+  /** Stops the loop after the iteration it is running */
+  stop: () => Promise<void>;
+  /** Runs the next iteration without waiting for the interval */
+  wake: () => void;
+}
+
+/**
+ * Creates a loop that runs a task in the background of the process, one
+ * iteration at a time, waiting between iterations unless woken.
+ */
+export function createPollingLoop({ intervalMs, poll, onError }: PollingLoopOptions): PollingLoop {
+  const id = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  let running = false;
+  let loop: Promise<void> | null = null;
+  let wakeUp: (() => void) | null = null;
+
+  const sleep = (ms: number): Promise<void> =>
+    new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done(): void {
+        clearTimeout(timer);
+        wakeUp = null;
+        resolve();
+      }
+      wakeUp = done;
+    });
+
+  async function work(): Promise<void> {
+    while (running) {
+      try {
+        if (await poll()) {
+          continue;
+        }
+      } catch (error) {
+        onError(error);
+      }
+      if (running) {
+        await sleep(intervalMs);
+      }
+    }
+  }
+
+  return {
+    id,
+    get running() {
+      return running;
+    },
+    start: () => {
+      if (running) {
+        return false;
+      }
+      running = true;
+      loop = work();
+      return true;
+    },
+    stop: async () => {
+      running = false;
+      wakeUp?.();
+      await loop;
+      loop = null;
+    },
+    wake: () => {
+      wakeUp?.();
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { Buffer } from 'node:buffer';
+import { env } from '../config/env.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+function deriveKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Encrypts a secret to store it, such as an API token a queued job needs.
+ * The result is `iv.authTag.ciphertext` in base64url.
+ */
+export function encryptSecret(value: string, key: string = env.secretEncryptionKey): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(key), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypts a secret encrypted with encryptSecret. Throws when it was
+ * encrypted with another key or has been altered.
+ */
+export function decryptSecret(value: string, key: string = env.secretEncryptionKey): string {
+  const [iv, authTag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+  if (!iv || !authTag || !encrypted) {
+    throw new Error('Invalid encrypted secret');
+  }
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(key), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import bcrypt from 'bcrypt';
+import { prisma } from '@opprs/db-prisma';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+} from '../setup/test-helpers.js';
+
+const apiKey = 'opprs_audittst_0123456789abcdef';
+
+/**
+ * An admin with an API key
+ */
+async function createAdminApiKey() {
+  const user = await prisma.user.create({
+    data: { email: 'audit-admin@example.com', passwordHash: 'hash', role: 'ADMIN' },
+  });
+  return prisma.apiKey.create({
+    data: {
+      name: 'Audit Test Key',
+      keyPrefix: apiKey.substring(0, 14),
+      keyHash: await bcrypt.hash(apiKey, 4),
+      userId: user.id,
+    },
+  });
+}
+
+describe('Audit logs', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+
+  afterAll(async () => {
+    await closeTestApp();
+  });
+
+  describe('recording writes', () => {
+    it('should record an update with the actor and the changes', async () => {
+      const player = await prisma.player.create({ data: { playerNumber: 40001, name: 'Bob' } });
+
+      await authenticatedRequest('PATCH', `/api/v1/players/${player.id}`, { name: 'Robert' });
+
+      const [entry, ...others] = await prisma.auditLog.findMany();
+      expect(others).toHaveLength(0);
+      expect(entry).toMatchObject({
+        userId: 'test@example.com',
+        userEmail: 'test@example.com',
+        apiKeyId: null,
+        method: 'PATCH',
+        route: '/api/v1/players/:id',
+        url: `/api/v1/players/${player.id}`,
+        statusCode: 200,
+        entityType: 'players',
+        entityId: player.id,
+        before: expect.objectContaining({ name: 'Bob' }),
+        after: expect.objectContaining({ name: 'Robert' }),
+        changes: { name: { before: 'Bob', after: 'Robert' } },
+      });
+    });
+
+    it('should record a created entity by the ID in the response', async () => {
+      const response = await authenticatedRequest('POST', '/api/v1/players', { name: 'Carol' });
+
+      const entry = await prisma.auditLog.findFirstOrThrow();
+      expect(entry).toMatchObject({
+        method: 'POST',
+        entityType: 'players',
+        entityId: response.json().id,
+        before: null,
+        after: expect.objectContaining({ name: 'Carol' }),
+      });
+    });
+
+    it('should record a deleted entity as it was', async () => {
+      const location = await prisma.location.create({ data: { name: 'Arcade Bar' } });
+
+      const response = await authenticatedRequest('DELETE', `/api/v1/locations/${location.id}`);
+
+      expect(response.statusCode).toBe(204);
+      expect(await prisma.auditLog.findFirstOrThrow()).toMatchObject({
+        entityType: 'locations',
+        entityId: location.id,
+        before: expect.objectContaining({ name: 'Arcade Bar' }),
+        after: null,
+      });
+    });
+
+    it('should record the API key a write was made with', async () => {
+      const key = await createAdminApiKey();
+      const player = await prisma.player.create({ data: { playerNumber: 40001, name: 'Bob' } });
+      const app = await getTestApp();
+
+      await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/players/${player.id}`,
+        headers: { 'x-api-key': apiKey },
+        payload: { name: 'Robert' },
+      });
+
+      expect(await prisma.auditLog.findFirstOrThrow()).toMatchObject({
+        userId: key.userId,
+        userEmail: 'audit-admin@example.com',
+        apiKeyId: key.id,
+      });
+    });
+
+    it('should not record reads, failed writes or unauthenticated requests', async () => {
+      const player = await prisma.player.create({ data: { playerNumber: 40001, name: 'Bob' } });
+      const app = await getTestApp();
+
+      await authenticatedRequest('GET', `/api/v1/players/${player.id}`);
+      await authenticatedRequest('PATCH', '/api/v1/players/nonexistent', { name: 'Robert' });
+      await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/players/${player.id}`,
+        payload: { name: 'Robert' },
+      });
+
+      expect(await prisma.auditLog.count()).toBe(0);
+    });
+  });
+
+  describe('GET /api/v1/audit-logs', () => {
+    it('should return 401 without authentication', async () => {
+      const app = await getTestApp();
+
+      const response = await app.inject({ method: 'GET', url: '/api/v1/audit-logs' });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should list entries newest first with filters', async () => {
+      const player = await prisma.player.create({ data: { playerNumber: 40001, name: 'Bob' } });
+      await authenticatedRequest('PATCH', `/api/v1/players/${player.id}`, { name: 'Robert' });
+      await authenticatedRequest('POST', '/api/v1/locations', { name: 'Arcade Bar' });
+
+      const all = await authenticatedRequest('GET', '/api/v1/audit-logs');
+      const filtered = await authenticatedRequest(
+        'GET',
+        `/api/v1/audit-logs?entityType=players&entityId=${player.id}&method=PATCH`
+      );
+
+      expect(all.statusCode).toBe(200);
+      expect(all.json().data.map((e: { entityType: string }) => e.entityType)).toEqual([
+        'locations',
+        'players',
+      ]);
+      expect(filtered.json().pagination.total).toBe(1);
+      expect(filtered.json().data[0].changes).toEqual({
+        name: { before: 'Bob', after: 'Robert' },
+      });
+    });
+
+    it('should filter by time', async () => {
+      await authenticatedRequest('POST', '/api/v1/locations', { name: 'Arcade Bar' });
+
+      const response = await authenticatedRequest(
+        'GET',
+        `/api/v1/audit-logs?to=${encodeURIComponent(new Date(Date.now() - 60_000).toISOString())}`
+      );
+
+      expect(response.json().pagination.total).toBe(0);
+    });
+  });
+
+  describe('GET /api/v1/audit-logs/:id', () => {
+    it('should get an entry', async () => {
+      await authenticatedRequest('POST', '/api/v1/locations', { name: 'Arcade Bar' });
+      const entry = await prisma.auditLog.findFirstOrThrow();
+
+      const response = await authenticatedRequest('GET', `/api/v1/audit-logs/${entry.id}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ id: entry.id, entityType: 'locations' });
+    });
+
+    it('should return 404 for an unknown entry', async () => {
+      const response = await authenticatedRequest('GET', '/api/v1/audit-logs/nonexistent');
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -1,8 +1,22 @@
 import { describe, it, expect, afterAll, beforeEach, vi } from 'vitest';
-import { getTestApp, closeTestApp, authenticatedRequest, resetAuthCache } from '../setup/test-helpers.js';
+import { prisma } from '@opprs/db-prisma';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+  runJobRequest,
+} from '../setup/test-helpers.js';
+
+/**
+ * Filter of the player with a Matchplay ID
+ */
+const matchplayPlayer = (id: string) => ({
+  identities: { some: { source: 'matchplay', externalId: id } },
+});
 
 // Mock the MatchplayClient to avoid real API calls
-vi.mock('@opprs/matchplay-api', () => {
+vi.mock('@opprs/matchplay-api', async () => {
   const mockTournament = {
     id: '12345',
     name: 'Test Matchplay Tournament',
@@ -32,15 +46,96 @@ vi.mock('@opprs/matchplay-api', () => {
     { playerId: 3, position: 3, name: 'Player Three', points: 60, wins: 3, losses: 3, ties: 0, userId: Number(mockTournament.players[2].id) },
   ];
 
+  // Player Three wins the only game, against the standings order
+  const mockGames = [
+    {
+      placements: [
+        { playerId: 'p3', placement: 1 },
+        { playerId: 'p1', placement: 2 },
+        { playerId: 'p2', placement: 3 },
+      ],
+    },
+  ];
+
+  // Qualifying 22220 is linked to finals 22221, where Player Two beats Player One
+  const mockFinalsTournament = {
+    ...mockTournament,
+    id: '22221',
+    name: 'Test Matchplay Tournament Finals',
+    date: new Date('2024-06-16'),
+    players: mockTournament.players.slice(0, 2),
+    tgpConfig: {
+      qualifying: { type: 'none', meaningfulGames: 0 },
+      finals: { formatType: 'single-elimination', meaningfulGames: 2, finalistCount: 2 },
+    },
+  };
+
+  const mockFinalsResults = [
+    { player: mockTournament.players[1], position: 1 },
+    { player: mockTournament.players[0], position: 2 },
+  ];
+
+  const mockFinalsStandings = [
+    { ...mockStandings[1], position: 1 },
+    { ...mockStandings[0], position: 2 },
+  ];
+
+  const linkedTournaments: Record<number, number> = {
+    22220: 22221,
+    22221: 22220,
+    46001: 46002,
+    46002: 46001,
+  };
+  const isFinalsStage = (id: number) => id === 22221 || id === 46002;
+
+  // Organizer 4242 has run a completed tournament every day since the start of 2024
+  const organizerTournaments = Array.from({ length: 60 }, (_, i) => ({
+    ...mockTournament,
+    id: String(40001 + i),
+    name: `Organizer Tournament ${i + 1}`,
+    date: new Date(Date.UTC(2024, 0, 1 + i, 18)),
+    players: [],
+  }));
+
+  const mockConfidence = {
+    level: 'high',
+    fields: [
+      {
+        field: 'finals.meaningfulGames',
+        source: 'measured',
+        detail: 'Most games played by a player in 6 completed games',
+      },
+    ],
+    gamesMeasured: 6,
+    byes: 0,
+  };
+
   class MockMatchplayClient {
-    async getTournament() {
-      return mockTournament;
+    async getTournaments(params: { organizerId?: number; limit?: number; offset?: number }) {
+      const tournaments = params.organizerId === 4242 ? organizerTournaments : [];
+      const offset = params.offset ?? 0;
+      return tournaments.slice(offset, offset + (params.limit ?? tournaments.length));
     }
-    async getTournamentResults() {
-      return mockResults;
+    async getTournamentStage(id: number, options: { optionalGames?: boolean } = {}) {
+      if (id === 40404) {
+        throw new MatchplayNotFoundError('tournaments', String(id));
+      }
+      if (id === 33334 && !options.optionalGames) {
+        throw new MatchplayApiError('Games are unavailable');
+      }
+      const isFinals = isFinalsStage(id);
+      const tournament = isFinals ? mockFinalsTournament : mockTournament;
+      return {
+        tournament,
+        linkedTournamentId: linkedTournaments[id] ?? null,
+        results: isFinals ? mockFinalsResults : mockResults,
+        standings: isFinals ? mockFinalsStandings : mockStandings,
+        games: id === 33333 ? mockGames : [],
+        tgp: { tgpConfig: tournament.tgpConfig, confidence: mockConfidence },
+      };
     }
-    async getStandings() {
-      return mockStandings;
+    async getLinkedTournamentId(id: number) {
+      return linkedTournaments[id] ?? null;
     }
   }
 
@@ -65,8 +160,12 @@ vi.mock('@opprs/matchplay-api', () => {
     }
   }
 
+  const { mergeStageTGPConfigs } =
+    await vi.importActual<typeof import('@opprs/matchplay-api')>('@opprs/matchplay-api');
+
   return {
     MatchplayClient: MockMatchplayClient,
+    mergeStageTGPConfigs,
     MatchplayNotFoundError,
     MatchplayApiError,
     MatchplayNetworkError,
@@ -95,34 +194,48 @@ describe('Import endpoints', () => {
     });
 
     it('should accept eventBooster override', async () => {
-      const response = await authenticatedRequest(
-        'POST',
-        '/api/v1/import/matchplay/tournament/99999',
-        { eventBooster: 'MAJOR' }
-      );
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/99999', {
+        eventBooster: 'MAJOR',
+      });
 
-      expect(response.statusCode).toBe(201);
+      expect(job.status).toBe('COMPLETED');
 
-      const body = response.json();
+      const body = job.result;
       expect(body.tournament.eventBooster).toBe('MAJOR');
     });
 
+    it('should not keep the Matchplay API token of the request', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/99999', {
+        apiToken: 'request-token',
+      });
+
+      expect(job.status).toBe('COMPLETED');
+      const stored = await prisma.job.findUniqueOrThrow({ where: { id: job.id } });
+      expect(JSON.stringify(stored.payload)).not.toContain('request-token');
+      expect(stored.secret).toBeNull();
+    });
+
     it('should import a tournament and calculate OPPRS values', async () => {
-      const response = await authenticatedRequest(
-        'POST',
-        '/api/v1/import/matchplay/tournament/77777',
-        {}
-      );
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/77777', {});
 
-      expect(response.statusCode).toBe(201);
+      expect(job.status).toBe('COMPLETED');
 
-      const body = response.json();
+      const body = job.result;
       expect(body).toHaveProperty('tournament');
       expect(body.tournament.name).toBe('Test Matchplay Tournament');
       expect(body.tournament.externalId).toBe('matchplay:77777');
       expect(body.playersCreated).toBe(3);
       expect(body.resultsCount).toBe(3);
       expect(body.created).toBe(true);
+      expect(body.stages).toEqual([
+        {
+          matchplayId: 77777,
+          isFinals: false,
+          resultsCount: 3,
+          tgpConfidence: expect.objectContaining({ level: 'high', gamesMeasured: 6 }),
+        },
+      ]);
+      expect(body.tgpOverridden).toBe(false);
 
       // Check OPPRS values are calculated
       expect(body.tournament).toHaveProperty('baseValue');
@@ -130,6 +243,7 @@ describe('Import endpoints', () => {
       expect(body.tournament).toHaveProperty('tvaRanking');
       expect(body.tournament).toHaveProperty('tgp');
       expect(body.tournament).toHaveProperty('firstPlaceValue');
+      expect(body.tournament.rulesetVersion).toBe('default');
     });
 
     it('should update tournament on re-import with same ID', async () => {
@@ -137,40 +251,592 @@ describe('Import endpoints', () => {
       const tournamentId = '55555';
 
       // First import
-      const firstResponse = await authenticatedRequest(
-        'POST',
-        `/api/v1/import/matchplay/tournament/${tournamentId}`,
-        {}
-      );
-      expect(firstResponse.statusCode).toBe(201);
-      expect(firstResponse.json().created).toBe(true);
+      const first = await runJobRequest(`/api/v1/import/matchplay/tournament/${tournamentId}`, {});
+      expect(first.status).toBe('COMPLETED');
+      expect(first.result.created).toBe(true);
 
       // Second import (should update)
-      const secondResponse = await authenticatedRequest(
-        'POST',
-        `/api/v1/import/matchplay/tournament/${tournamentId}`,
-        {}
-      );
+      const second = await runJobRequest(`/api/v1/import/matchplay/tournament/${tournamentId}`, {});
 
-      expect(secondResponse.statusCode).toBe(200);
+      expect(second.status).toBe('COMPLETED');
 
-      const body = secondResponse.json();
+      const body = second.result;
       expect(body.created).toBe(false);
       expect(body.playersUpdated).toBe(3);
+      // Ratings are only applied once per tournament
+      expect(body.ratingsUpdated).toBe(0);
     });
 
     it('should create players from Matchplay data', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/66666', {});
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body.playersCreated).toBe(3);
+      expect(body.resultsCount).toBe(3);
+    });
+
+    it('should apply Glicko rating updates from the imported results', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/44444', {});
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body.ratingsUpdated).toBe(3);
+      expect(body.ratingMethod).toBe('standings');
+
+      const winner = await prisma.opprPlayerRanking.findFirst({
+        where: { player: matchplayPlayer('p1') },
+        include: { history: true },
+      });
+      const last = await prisma.opprPlayerRanking.findFirst({
+        where: { player: matchplayPlayer('p3') },
+      });
+
+      expect(winner?.rating).toBeGreaterThan(1500);
+      expect(last?.rating).toBeLessThan(1500);
+      expect(winner?.ratingDeviation).toBeLessThan(200);
+      expect(winner?.history).toHaveLength(1);
+      expect(winner?.history[0].changeType).toBe('TOURNAMENT_RESULT');
+      expect(winner?.history[0].tournamentId).toBe(body.tournament.id);
+    });
+
+    it('should rate players from individual games when available', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/33333', {});
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body.ratingsUpdated).toBe(3);
+      expect(body.ratingMethod).toBe('games');
+
+      const standingsWinner = await prisma.opprPlayerRanking.findFirst({
+        where: { player: matchplayPlayer('p1') },
+      });
+      const gameWinner = await prisma.opprPlayerRanking.findFirst({
+        where: { player: matchplayPlayer('p3') },
+      });
+
+      expect(gameWinner?.rating).toBeGreaterThan(standingsWinner?.rating ?? Infinity);
+    });
+
+    it('should value the tournament with the OPPR ratings players had before it', async () => {
+      const before = await prisma.opprPlayerRanking.findFirst({
+        where: { player: matchplayPlayer('p1') },
+      });
+
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/36001', {});
+
+      expect(job.status).toBe('COMPLETED');
+      const standing = await prisma.standing.findFirst({
+        where: { tournamentId: job.result.tournament.id, player: matchplayPlayer('p1') },
+      });
+      // Not the Matchplay rating (1600), ranking (10) or rated status of the player
+      expect(standing?.ratingAtEvent).toBe(before?.rating ?? 1300);
+      expect(standing?.rankingAtEvent).toBe(before?.ranking ?? null);
+      expect(standing?.ratedAtEvent).toBe(before?.isRated ?? false);
+    });
+
+    it('should rate players from standings when games cannot be fetched', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/33334', {});
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job.result.ratingsUpdated).toBe(3);
+      expect(job.result.ratingMethod).toBe('standings');
+    });
+
+    it('should import a linked finals tournament as finals standings', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/22220', {});
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body.tournament.externalId).toBe('matchplay:22220');
+      expect(body.stages).toMatchObject([
+        { matchplayId: 22220, isFinals: false, resultsCount: 3 },
+        { matchplayId: 22221, isFinals: true, resultsCount: 2 },
+      ]);
+      expect(body.resultsCount).toBe(5);
+      expect(body.playersCreated).toBe(3);
+      expect(body.tournament.tgpConfig.qualifying).toMatchObject({
+        type: 'limited',
+        meaningfulGames: 10,
+        fourPlayerGroups: true,
+      });
+      expect(body.tournament.tgpConfig.finals).toMatchObject({
+        formatType: 'single-elimination',
+        finalistCount: 2,
+      });
+
+      const standings = await prisma.standing.findMany({
+        where: { tournamentId: body.tournament.id },
+      });
+      const finals = standings.filter((s) => s.isFinals);
+      expect(finals).toHaveLength(2);
+
+      // The finals winner earns first place points on both of their standings
+      const winner = await prisma.standing.findMany({
+        where: { tournamentId: body.tournament.id, player: matchplayPlayer('p2') },
+      });
+      expect(winner.map((s) => s.isFinals).sort()).toEqual([false, true]);
+      for (const standing of winner) {
+        expect(standing.totalPoints).toBeCloseTo(body.tournament.firstPlaceValue, 6);
+      }
+    });
+
+    it('should import the qualifying first when given a linked finals ID', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/22221', {});
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body.tournament.externalId).toBe('matchplay:22220');
+      expect(body.stages.map((s: { matchplayId: number }) => s.matchplayId)).toEqual([
+        22220, 22221,
+      ]);
+    });
+
+    it('should import explicit finals IDs', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/88888', {
+        finalsIds: [22221],
+      });
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job.result.stages).toMatchObject([
+        { matchplayId: 88888, isFinals: false, resultsCount: 3 },
+        { matchplayId: 22221, isFinals: true, resultsCount: 2 },
+      ]);
+    });
+
+    it('should import a single stage with an empty finals list', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/22220', {
+        finalsIds: [],
+      });
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job.result.stages).toHaveLength(1);
+    });
+
+    it('should return 400 when a finals ID is the qualifying ID', async () => {
       const response = await authenticatedRequest(
         'POST',
-        '/api/v1/import/matchplay/tournament/66666',
+        '/api/v1/import/matchplay/tournament/88888',
+        { finalsIds: [88888] }
+      );
+
+      // Validated before a job is queued
+      expect(response.statusCode).toBe(400);
+      expect(await prisma.job.count()).toBe(0);
+    });
+
+    it('should use a given TGP configuration instead of the derived one', async () => {
+      const tgpConfig = {
+        qualifying: { type: 'limited', meaningfulGames: 8, threePlayerGroups: true },
+        finals: { formatType: 'double-elimination', meaningfulGames: 6 },
+        ballCountAdjustment: 0.66,
+      };
+
+      const job = await runJobRequest('/api/v1/import/matchplay/tournament/11111', { tgpConfig });
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body.tgpOverridden).toBe(true);
+      expect(body.tournament.tgpConfig).toEqual(tgpConfig);
+    });
+
+    it('should return 400 for an incomplete or invalid TGP configuration', async () => {
+      const url = '/api/v1/import/matchplay/tournament/11111';
+      const finals = { formatType: 'single-elimination', meaningfulGames: 4 };
+      const empty = await authenticatedRequest('POST', url, { tgpConfig: {} });
+      const noQualifyingType = await authenticatedRequest('POST', url, {
+        tgpConfig: { qualifying: {}, finals },
+      });
+      const tooManyGamesPerMachine = await authenticatedRequest('POST', url, {
+        tgpConfig: {
+          qualifying: { type: 'limited', meaningfulGames: 100, machineCount: 1 },
+          finals,
+        },
+      });
+
+      expect(empty.statusCode).toBe(400);
+      expect(noQualifyingType.statusCode).toBe(400);
+      expect(tooManyGamesPerMachine.statusCode).toBe(400);
+      expect(tooManyGamesPerMachine.json().message).toContain('games per machine');
+      expect(await prisma.job.count()).toBe(0);
+    });
+  });
+
+  describe('POST /api/v1/import/matchplay/tournament/:id/tgp', () => {
+    it('should return 401 without authentication', async () => {
+      const app = await getTestApp();
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/import/matchplay/tournament/22220/tgp',
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should preview the derived TGP of every stage', async () => {
+      const response = await authenticatedRequest(
+        'POST',
+        '/api/v1/import/matchplay/tournament/22220/tgp',
         {}
       );
 
-      expect(response.statusCode).toBe(201);
+      expect(response.statusCode).toBe(200);
 
       const body = response.json();
-      expect(body.playersCreated).toBe(3);
-      expect(body.resultsCount).toBe(3);
+      expect(body.tgpConfig.qualifying.type).toBe('limited');
+      expect(body.tgpConfig.finals.formatType).toBe('single-elimination');
+      expect(body.stages).toHaveLength(2);
+      expect(body.stages[0]).toMatchObject({ matchplayId: 22220, isFinals: false });
+      expect(body.stages[1]).toMatchObject({ matchplayId: 22221, isFinals: true });
+      expect(body.stages[1].confidence.level).toBe('high');
+
+      // Previews do not import anything
+      const tournament = await prisma.tournament.findUnique({
+        where: { externalId: 'matchplay:22220' },
+      });
+      expect(tournament).toBeNull();
+    });
+  });
+
+  describe('POST /api/v1/import/matchplay/bulk', () => {
+    it('should return 401 without authentication', async () => {
+      const app = await getTestApp();
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/import/matchplay/bulk',
+        payload: { organizerId: 4242 },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 400 without exactly one source', async () => {
+      const none = await authenticatedRequest('POST', '/api/v1/import/matchplay/bulk', {});
+      const both = await authenticatedRequest('POST', '/api/v1/import/matchplay/bulk', {
+        organizerId: 4242,
+        tournamentIds: [46101],
+      });
+
+      expect(none.statusCode).toBe(400);
+      expect(both.statusCode).toBe(400);
+    });
+
+    it('should import organizer tournaments in a date range across pages', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/bulk', {
+        organizerId: 4242,
+        from: '2024-02-25',
+        to: '2024-02-27',
+      });
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job).toMatchObject({ progress: 3, progressTotal: 3 });
+
+      const body = job.result;
+      expect(body).toMatchObject({ found: 3, imported: 3, skipped: 0, failed: 0 });
+      expect(body.events.map((e: { matchplayId: number }) => e.matchplayId)).toEqual([
+        40056, 40057, 40058,
+      ]);
+      expect(body.events[0]).toMatchObject({
+        status: 'imported',
+        name: 'Test Matchplay Tournament',
+      });
+
+      const tournament = await prisma.tournament.findUnique({
+        where: { externalId: 'matchplay:40057' },
+      });
+      expect(tournament?.id).toBe(body.events[1].tournamentId);
+    });
+
+    it('should skip tournaments that were already imported', async () => {
+      const payload = { organizerId: 4242, from: '2024-02-20', to: '2024-02-20' };
+      const first = await runJobRequest('/api/v1/import/matchplay/bulk', payload);
+      expect(first.result.imported).toBe(1);
+
+      const job = await runJobRequest('/api/v1/import/matchplay/bulk', payload);
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job.result).toMatchObject({ found: 1, imported: 0, skipped: 1 });
+      expect(job.result.events[0]).toMatchObject({
+        matchplayId: 40051,
+        status: 'skipped',
+        tournamentId: first.result.events[0].tournamentId,
+      });
+    });
+
+    it('should report failures and skip stages imported with their linked tournament', async () => {
+      const job = await runJobRequest('/api/v1/import/matchplay/bulk', {
+        tournamentIds: [46001, 40404, 46002],
+      });
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body).toMatchObject({ found: 3, imported: 1, skipped: 1, failed: 1 });
+      const [qualifying, failed, finals] = body.events;
+      expect(qualifying).toMatchObject({ matchplayId: 46001, status: 'imported' });
+      expect(failed).toMatchObject({ matchplayId: 40404, status: 'failed' });
+      expect(failed.message).toContain('40404');
+      expect(finals).toMatchObject({
+        matchplayId: 46002,
+        status: 'skipped',
+        tournamentId: qualifying.tournamentId,
+      });
+    });
+  });
+
+  describe('POST /api/v1/import/csv', () => {
+    const tournament = {
+      name: 'Paper League Night',
+      date: '2024-07-01T00:00:00.000Z',
+      tgpConfig: {
+        qualifying: { type: 'limited', meaningfulGames: 5 },
+        finals: { formatType: 'match-play', meaningfulGames: 10, fourPlayerGroups: true },
+      },
+    };
+
+    const csv = [
+      'Position,Name,Player Number,Finals',
+      '1,Known Player,10101,no',
+      '2,Someone New,,no',
+      '3,known name,,no',
+      '1,Someone New,,yes',
+    ].join('\n');
+
+    beforeEach(async () => {
+      await prisma.player.create({ data: { playerNumber: 10101, name: 'Known Player' } });
+      await prisma.player.create({ data: { playerNumber: 10102, name: 'Known Name' } });
+    });
+
+    it('should return 401 without authentication', async () => {
+      const app = await getTestApp();
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/import/csv',
+        payload: { csv, tournament },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should preview matches and list unmatched names in a dry run', async () => {
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv,
+        tournament,
+        dryRun: true,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.dryRun).toBe(true);
+      expect(body.tournament).toBeNull();
+      expect(body.rows.map((row: { matchedBy: string | null }) => row.matchedBy)).toEqual([
+        'playerNumber',
+        null,
+        null,
+        null,
+      ]);
+      expect(
+        body.unmatched.map((row: { line: number; name: string }) => [row.line, row.name])
+      ).toEqual([
+        [3, 'Someone New'],
+        [5, 'Someone New'],
+      ]);
+      // A name alone does not match a player
+      expect(
+        body.ambiguous.map((row: { line: number; name: string }) => [row.line, row.name])
+      ).toEqual([[4, 'known name']]);
+      expect(await prisma.tournament.count()).toBe(0);
+      expect(await prisma.player.count()).toBe(2);
+    });
+
+    it('should create the tournament, new players and standings', async () => {
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv,
+        tournament,
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = response.json();
+      expect(body.dryRun).toBe(false);
+      expect(body.playersCreated).toBe(2);
+      expect(body.reviewsQueued).toBe(1);
+      expect(body.resultsCount).toBe(4);
+      expect(body.tournament.name).toBe('Paper League Night');
+      expect(body.tournament.firstPlaceValue).toBeGreaterThan(0);
+
+      const standings = await prisma.standing.findMany({
+        where: { tournamentId: body.tournament.id },
+        include: { player: true },
+        orderBy: [{ isFinals: 'desc' }, { position: 'asc' }],
+      });
+      expect(standings.map((s) => [s.player.name, s.position, s.isFinals])).toEqual([
+        ['Someone New', 1, true],
+        ['Known Player', 1, false],
+        ['Someone New', 2, false],
+        ['known name', 3, false],
+      ]);
+      // The finals winner earns first place points on both standings
+      expect(standings[0]?.totalPoints).toBeCloseTo(body.tournament.firstPlaceValue);
+      expect(standings[2]?.totalPoints).toBe(standings[0]?.totalPoints);
+
+      const newPlayer = await prisma.player.findFirst({ where: { name: 'Someone New' } });
+      expect(newPlayer?.eventCount).toBe(1);
+    });
+
+    it('should read TSV with mapped columns and tied positions', async () => {
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv: 'Rk\tWho\tSkipped\n1\tSomeone New\tno\n2\tKnown Player\tyes\n2\tKnown Name\tno',
+        columns: { position: 'Rk', name: 'Who', optedOut: 'Skipped' },
+        tournament,
+      });
+
+      expect(response.statusCode).toBe(201);
+      const standings = await prisma.standing.findMany({
+        where: { tournamentId: response.json().tournament.id, position: 2 },
+        orderBy: { optedOut: 'asc' },
+      });
+      expect(standings.map((s) => [s.position, s.positionEnd, s.optedOut])).toEqual([
+        [2, 3, false],
+        [2, 3, true],
+      ]);
+    });
+
+    it('should create players for names resembling several players and queue them for review', async () => {
+      await prisma.player.create({ data: { playerNumber: 10103, name: 'known player' } });
+      const payload = { csv: 'Position,Name\n1,Known Player', tournament };
+
+      const preview = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        ...payload,
+        dryRun: true,
+      });
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', payload);
+
+      expect(preview.statusCode).toBe(200);
+      expect(preview.json().ambiguous).toEqual([
+        expect.objectContaining({ line: 2, name: 'Known Player', playerId: null }),
+      ]);
+      expect(preview.json().ambiguous[0].candidates).toHaveLength(2);
+      expect(response.statusCode).toBe(201);
+      expect(response.json().playersCreated).toBe(1);
+      expect(response.json().reviewsQueued).toBe(1);
+
+      const review = await prisma.playerMatchReview.findFirst();
+      expect(review).toMatchObject({
+        status: 'PENDING',
+        source: 'csv',
+        name: 'Known Player',
+        tournamentId: response.json().tournament.id,
+      });
+      expect(review?.playerId).toBe(response.json().rows[0].playerId);
+    });
+
+    it('should match a similar name and email through the linked user', async () => {
+      const player = await prisma.player.findUniqueOrThrow({ where: { playerNumber: 10101 } });
+      await prisma.user.create({
+        data: { email: 'known@example.com', passwordHash: 'hash', playerId: player.id },
+      });
+
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv: 'Position,Name,Email\n1,Known Playr,known@example.com',
+        tournament,
+        dryRun: true,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [row] = response.json().rows;
+      expect(row).toMatchObject({ playerId: player.id, matchedBy: 'identity' });
+      expect(row.candidates[0].reasons).toEqual(['email', 'similarName']);
+    });
+
+    it('should link the external ID of a row matched by identity to the player', async () => {
+      const player = await prisma.player.findUniqueOrThrow({ where: { playerNumber: 10102 } });
+      await prisma.playerIdentity.create({
+        data: { playerId: player.id, source: 'ifpa', externalId: '42', status: 'VERIFIED' },
+      });
+      await prisma.user.create({
+        data: { email: 'name@example.com', passwordHash: 'hash', playerId: player.id },
+      });
+
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv: 'Position,Name,Email,ExternalId\n1,Known Name,name@example.com,league:9',
+        tournament,
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().rows[0]).toMatchObject({ playerId: player.id, matchedBy: 'identity' });
+      const identities = await prisma.playerIdentity.findMany({
+        where: { playerId: player.id },
+        orderBy: { source: 'asc' },
+      });
+      expect(identities.map((i) => [i.source, i.externalId, i.status])).toEqual([
+        ['ifpa', '42', 'VERIFIED'],
+        ['league', '9', 'UNVERIFIED'],
+      ]);
+    });
+
+    it('should return 400 for invalid CSV or an unknown player number', async () => {
+      const invalid = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv: 'Position,Name\nfirst,Known Player',
+        tournament,
+      });
+      const unknown = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv: 'Position,Player Number\n1,99999',
+        tournament,
+      });
+
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json().message).toContain('Line 2: Invalid position');
+      expect(unknown.statusCode).toBe(400);
+      expect(unknown.json().message).toContain('No player with number 99999');
+    });
+
+    it('should return 400 for positions that cannot be ranked, also in a dry run', async () => {
+      const tiedWinners = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv: 'Position,Name\n1,Known Player\n1,Known Name',
+        tournament,
+        dryRun: true,
+      });
+      const overlappingTie = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv: 'Position,Name\n1,Known Player\n2,Known Name\n2,Someone New\n3,Someone Else',
+        tournament,
+      });
+
+      expect(tiedWinners.statusCode).toBe(400);
+      expect(tiedWinners.json().message).toContain('exactly one player in 1st place');
+      expect(overlappingTie.statusCode).toBe(400);
+      expect(overlappingTie.json().message).toContain('overlaps the tie');
+      expect(await prisma.tournament.count()).toBe(0);
+      expect(await prisma.player.count()).toBe(2);
+    });
+
+    it('should return 400 for an incomplete TGP configuration', async () => {
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv,
+        tournament: { ...tournament, tgpConfig: { qualifying: {} } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(await prisma.tournament.count()).toBe(0);
+    });
+
+    it('should return 409 when the external ID is already used', async () => {
+      await prisma.tournament.create({
+        data: { name: 'Existing', date: new Date('2024-07-01'), externalId: 'paper:1' },
+      });
+
+      const response = await authenticatedRequest('POST', '/api/v1/import/csv', {
+        csv,
+        tournament: { ...tournament, externalId: 'paper:1' },
+      });
+
+      expect(response.statusCode).toBe(409);
     });
   });
 });
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { createJob } from '@opprs/db-prisma';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+  waitForJob,
+} from '../setup/test-helpers.js';
+
+// Jobs due in an hour stay pending while the worker runs
+const createScheduledJob = () =>
+  createJob({
+    type: 'matchplay-import',
+    payload: { matchplayId: 12345 },
+    secret: 'encrypted-token',
+    runAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+
+describe('Job endpoints', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+
+  afterAll(async () => {
+    await closeTestApp();
+  });
+
+  describe('GET /api/v1/jobs/:id', () => {
+    it('should return 401 without authentication', async () => {
+      const job = await createScheduledJob();
+      const app = await getTestApp();
+      const response = await app.inject({ method: 'GET', url: `/api/v1/jobs/${job.id}` });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return a job without its secret', async () => {
+      const job = await createScheduledJob();
+
+      const response = await authenticatedRequest('GET', `/api/v1/jobs/${job.id}`);
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body).toMatchObject({
+        id: job.id,
+        type: 'matchplay-import',
+        status: 'PENDING',
+        progress: 0,
+        attempts: 0,
+        payload: { matchplayId: 12345 },
+      });
+      expect(body).not.toHaveProperty('secret');
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await authenticatedRequest('GET', '/api/v1/jobs/unknown');
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/jobs', () => {
+    it('should list jobs filtered by status', async () => {
+      const pending = await createScheduledJob();
+      await createJob({ type: 'recalculate-decay', payload: {}, runAt: pending.runAt });
+      await authenticatedRequest('POST', `/api/v1/jobs/${pending.id}/cancel`);
+
+      const response = await authenticatedRequest('GET', '/api/v1/jobs?status=CANCELLED');
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data.map((job: { id: string }) => job.id)).toEqual([pending.id]);
+      expect(body.pagination.total).toBe(1);
+    });
+  });
+
+  describe('POST /api/v1/jobs/:id/cancel', () => {
+    it('should cancel a pending job', async () => {
+      const job = await createScheduledJob();
+
+      const response = await authenticatedRequest('POST', `/api/v1/jobs/${job.id}/cancel`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().status).toBe('CANCELLED');
+    });
+
+    it('should return 409 for a finished job', async () => {
+      const job = await createScheduledJob();
+      await authenticatedRequest('POST', `/api/v1/jobs/${job.id}/cancel`);
+
+      const response = await authenticatedRequest('POST', `/api/v1/jobs/${job.id}/cancel`);
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('POST /api/v1/jobs/:id/retry', () => {
+    it('should run a failed job again', async () => {
+      const app = await getTestApp();
+      await app.ready();
+      const job = await createJob({ type: 'unknown-type', payload: {} });
+      app.jobs.wake();
+      const failed = await waitForJob(job.id);
+      expect(failed).toMatchObject({ status: 'FAILED', error: 'Unknown job type: unknown-type' });
+
+      const response = await authenticatedRequest('POST', `/api/v1/jobs/${job.id}/retry`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().status).toBe('PENDING');
+      const retried = await waitForJob(job.id);
+      expect(retried).toMatchObject({ status: 'FAILED', attempts: 2 });
+    });
+
+    it('should return 409 for a pending job', async () => {
+      const job = await createScheduledJob();
+
+      const response = await authenticatedRequest('POST', `/api/v1/jobs/${job.id}/retry`);
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { prisma } from '@opprs/db-prisma';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+} from '../setup/test-helpers.js';
+
+/**
+ * A player known to Matchplay
+ */
+async function createPlayerWithIdentity() {
+  const player = await prisma.player.create({
+    data: {
+      playerNumber: 30001,
+      name: 'Carol Tilt',
+      identities: { create: { source: 'matchplay', externalId: '789', status: 'VERIFIED' } },
+    },
+    include: { identities: true },
+  });
+  const [identity] = player.identities;
+  return { player, identity: identity ?? null };
+}
+
+describe('Player identity endpoints', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+
+  afterAll(async () => {
+    await closeTestApp();
+  });
+
+  describe('GET /api/v1/players/:id', () => {
+    it('should include the identities of the player', async () => {
+      const { player } = await createPlayerWithIdentity();
+      const app = await getTestApp();
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/players/${player.id}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().externalId).toBe('matchplay:789');
+      expect(response.json().identities).toEqual([
+        expect.objectContaining({
+          source: 'matchplay',
+          externalId: '789',
+          status: 'VERIFIED',
+          playerId: player.id,
+        }),
+      ]);
+    });
+  });
+
+  describe('GET /api/v1/players', () => {
+    it('should give listed players their primary external ID', async () => {
+      const { player } = await createPlayerWithIdentity();
+      await prisma.playerIdentity.create({
+        data: { playerId: player.id, source: 'league', externalId: '1', status: 'UNVERIFIED' },
+      });
+      const app = await getTestApp();
+
+      const response = await app.inject({ method: 'GET', url: '/api/v1/players' });
+
+      expect(response.statusCode).toBe(200);
+      const [listed] = response.json().data;
+      expect(listed.externalId).toBe('matchplay:789');
+      expect(listed.identities).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/v1/players', () => {
+    it('should keep the external ID of a new player as an identity', async () => {
+      const response = await authenticatedRequest('POST', '/api/v1/players', {
+        name: 'Dan Drain',
+        externalId: 'ifpa:1234',
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().identities).toEqual([
+        expect.objectContaining({ source: 'ifpa', externalId: '1234', status: 'VERIFIED' }),
+      ]);
+    });
+  });
+
+  describe('POST /api/v1/players/:id/identities', () => {
+    it('should return 401 without authentication', async () => {
+      const { player } = await createPlayerWithIdentity();
+      const app = await getTestApp();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/players/${player.id}/identities`,
+        payload: { source: 'ifpa', externalId: '55' },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should add an identity, verified by default', async () => {
+      const { player } = await createPlayerWithIdentity();
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/players/${player.id}/identities`,
+        { source: 'ifpa', externalId: '55' }
+      );
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toMatchObject({
+        source: 'ifpa',
+        externalId: '55',
+        status: 'VERIFIED',
+      });
+      expect(await prisma.playerIdentity.count({ where: { playerId: player.id } })).toBe(2);
+    });
+
+    it('should refuse an ID that belongs to another player', async () => {
+      await createPlayerWithIdentity();
+      const other = await prisma.player.create({ data: { playerNumber: 30002 } });
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/players/${other.id}/identities`,
+        { source: 'matchplay', externalId: '789' }
+      );
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should refuse a source with a colon', async () => {
+      const { player } = await createPlayerWithIdentity();
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/players/${player.id}/identities`,
+        { source: 'matchplay:789', externalId: '1' }
+      );
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/v1/players/:id/identities/:identityId', () => {
+    it('should update the status of an identity', async () => {
+      const { player, identity } = await createPlayerWithIdentity();
+
+      const response = await authenticatedRequest(
+        'PATCH',
+        `/api/v1/players/${player.id}/identities/${identity?.id}`,
+        { status: 'UNVERIFIED' }
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ externalId: '789', status: 'UNVERIFIED' });
+    });
+
+    it('should return 404 for an identity of another player', async () => {
+      const { identity } = await createPlayerWithIdentity();
+      const other = await prisma.player.create({ data: { playerNumber: 30002 } });
+
+      const response = await authenticatedRequest(
+        'PATCH',
+        `/api/v1/players/${other.id}/identities/${identity?.id}`,
+        { status: 'UNVERIFIED' }
+      );
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/v1/players/:id/identities/:identityId', () => {
+    it('should unlink the identity', async () => {
+      const { player, identity } = await createPlayerWithIdentity();
+
+      const response = await authenticatedRequest(
+        'DELETE',
+        `/api/v1/players/${player.id}/identities/${identity?.id}`
+      );
+
+      expect(response.statusCode).toBe(204);
+      expect(await prisma.playerIdentity.count()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { prisma, createPlayerMatchReview } from '@opprs/db-prisma';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+} from '../setup/test-helpers.js';
+
+const tgpConfig = { qualifying: { type: 'limited', meaningfulGames: 5 } };
+
+/**
+ * An imported player with a result, resembling an existing player
+ */
+async function createImportedPlayer() {
+  const existing = await prisma.player.create({
+    data: { playerNumber: 10001, name: 'Alice Johnson' },
+  });
+  const imported = await prisma.player.create({
+    data: {
+      playerNumber: 10002,
+      name: 'Alice Jonson',
+      identities: { create: { source: 'matchplay', externalId: '123' } },
+    },
+  });
+  const tournament = await prisma.tournament.create({
+    data: { name: 'League Night', date: new Date('2024-06-15'), tgpConfig },
+  });
+  await prisma.standing.create({
+    data: { playerId: imported.id, tournamentId: tournament.id, position: 1 },
+  });
+  const review = await createPlayerMatchReview({
+    source: 'matchplay',
+    externalId: 'matchplay:123',
+    name: 'Alice Jonson',
+    candidates: [
+      {
+        playerId: existing.id,
+        name: existing.name,
+        playerNumber: existing.playerNumber,
+        score: 0.6,
+        reasons: ['similarName'],
+      },
+    ],
+    playerId: imported.id,
+    tournamentId: tournament.id,
+  });
+  return { existing, imported, tournament, review };
+}
+
+describe('Player match review endpoints', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+
+  afterAll(async () => {
+    await closeTestApp();
+  });
+
+  describe('GET /api/v1/player-match-reviews', () => {
+    it('should return 401 without authentication', async () => {
+      const app = await getTestApp();
+      const response = await app.inject({ method: 'GET', url: '/api/v1/player-match-reviews' });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should list reviews with their players and candidates', async () => {
+      const { imported, tournament, review } = await createImportedPlayer();
+
+      const response = await authenticatedRequest(
+        'GET',
+        '/api/v1/player-match-reviews?status=PENDING'
+      );
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.pagination.total).toBe(1);
+      expect(body.data[0]).toMatchObject({
+        id: review.id,
+        status: 'PENDING',
+        source: 'matchplay',
+        player: { id: imported.id, name: 'Alice Jonson' },
+        tournament: { id: tournament.id, name: 'League Night' },
+        candidates: [expect.objectContaining({ name: 'Alice Johnson', score: 0.6 })],
+      });
+    });
+
+    it('should return 404 for an unknown review', async () => {
+      const response = await authenticatedRequest(
+        'GET',
+        '/api/v1/player-match-reviews/nonexistent'
+      );
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/player-match-reviews/:id/match', () => {
+    it('should move the results to the existing player', async () => {
+      const { existing, imported, tournament, review } = await createImportedPlayer();
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/player-match-reviews/${review.id}/match`,
+        { playerId: existing.id }
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        status: 'MATCHED',
+        playerId: null,
+        matchedPlayer: { id: existing.id },
+      });
+      expect(
+        await prisma.playerIdentity.findUnique({
+          where: { source_externalId: { source: 'matchplay', externalId: '123' } },
+        })
+      ).toMatchObject({ playerId: existing.id });
+      expect(await prisma.player.findUnique({ where: { id: imported.id } })).toBeNull();
+      const standing = await prisma.standing.findFirstOrThrow({
+        where: { tournamentId: tournament.id },
+      });
+      expect(standing.playerId).toBe(existing.id);
+      expect(standing.totalPoints).toBeGreaterThan(0);
+    });
+
+    it('should refuse players who played the same tournament', async () => {
+      const { existing, tournament, review } = await createImportedPlayer();
+      await prisma.standing.create({
+        data: { playerId: existing.id, tournamentId: tournament.id, position: 2 },
+      });
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/player-match-reviews/${review.id}/match`,
+        { playerId: existing.id }
+      );
+
+      expect(response.statusCode).toBe(409);
+      expect(await prisma.playerMatchReview.count({ where: { status: 'PENDING' } })).toBe(1);
+    });
+
+    it('should return 404 for an unknown player', async () => {
+      const { review } = await createImportedPlayer();
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/player-match-reviews/${review.id}/match`,
+        { playerId: 'nonexistent' }
+      );
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/player-match-reviews/:id/dismiss', () => {
+    it('should keep the imported player and resolve the review once', async () => {
+      const { imported, review } = await createImportedPlayer();
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/player-match-reviews/${review.id}/dismiss`
+      );
+      const again = await authenticatedRequest(
+        'POST',
+        `/api/v1/player-match-reviews/${review.id}/dismiss`
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'DISMISSED', playerId: imported.id });
+      expect(response.json().resolvedAt).not.toBeNull();
+      expect(again.statusCode).toBe(409);
+    });
+  });
+});
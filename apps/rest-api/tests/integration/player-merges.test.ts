@@ -0,0 +1,155 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { prisma } from '@opprs/db-prisma';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+} from '../setup/test-helpers.js';
+
+const tgpConfig = { qualifying: { type: 'limited', meaningfulGames: 5 } };
+
+/**
+ * Two players for the same person, the duplicate having a result
+ */
+async function createDuplicatePlayers() {
+  const player = await prisma.player.create({
+    data: { playerNumber: 20001, name: 'Bob Smith' },
+  });
+  const duplicate = await prisma.player.create({
+    data: {
+      playerNumber: 20002,
+      name: 'Bob Smith',
+      identities: { create: { source: 'matchplay', externalId: '456' } },
+    },
+  });
+  const tournament = await prisma.tournament.create({
+    data: { name: 'Monthly Open', date: new Date('2024-05-10'), tgpConfig },
+  });
+  await prisma.standing.create({
+    data: { playerId: duplicate.id, tournamentId: tournament.id, position: 1 },
+  });
+  return { player, duplicate, tournament };
+}
+
+describe('Player merge endpoints', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+
+  afterAll(async () => {
+    await closeTestApp();
+  });
+
+  describe('POST /api/v1/players/:id/merge', () => {
+    it('should return 401 without authentication', async () => {
+      const { player, duplicate } = await createDuplicatePlayers();
+      const app = await getTestApp();
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/players/${duplicate.id}/merge`,
+        payload: { targetPlayerId: player.id },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should move the results to the target and recalculate their tournaments', async () => {
+      const { player, duplicate, tournament } = await createDuplicatePlayers();
+
+      const response = await authenticatedRequest('POST', `/api/v1/players/${duplicate.id}/merge`, {
+        targetPlayerId: player.id,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        merge: {
+          sourcePlayerId: duplicate.id,
+          sourcePlayerNumber: 20002,
+          targetPlayerId: player.id,
+          summary: { standingsMoved: 1, standingsDropped: 0 },
+        },
+        player: {
+          id: player.id,
+          eventCount: 1,
+          identities: [expect.objectContaining({ source: 'matchplay', externalId: '456' })],
+        },
+        tournamentsRecalculated: 1,
+      });
+      expect(await prisma.player.findUnique({ where: { id: duplicate.id } })).toBeNull();
+      const standing = await prisma.standing.findFirstOrThrow({
+        where: { tournamentId: tournament.id },
+      });
+      expect(standing.playerId).toBe(player.id);
+      expect(standing.totalPoints).toBeGreaterThan(0);
+    });
+
+    it('should refuse to merge a player into themselves', async () => {
+      const { player } = await createDuplicatePlayers();
+
+      const response = await authenticatedRequest('POST', `/api/v1/players/${player.id}/merge`, {
+        targetPlayerId: player.id,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should refuse players who both have a user account', async () => {
+      const { player, duplicate } = await createDuplicatePlayers();
+      for (const [i, playerId] of [player.id, duplicate.id].entries()) {
+        await prisma.user.create({
+          data: { email: `merge-${i}@example.com`, passwordHash: 'hash', playerId },
+        });
+      }
+
+      const response = await authenticatedRequest('POST', `/api/v1/players/${duplicate.id}/merge`, {
+        targetPlayerId: player.id,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(await prisma.player.findUnique({ where: { id: duplicate.id } })).not.toBeNull();
+    });
+
+    it('should return 404 for an unknown target', async () => {
+      const { duplicate } = await createDuplicatePlayers();
+
+      const response = await authenticatedRequest('POST', `/api/v1/players/${duplicate.id}/merge`, {
+        targetPlayerId: 'nonexistent',
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('merged player IDs', () => {
+    it('should redirect requests for a merged player to the target', async () => {
+      const { player, duplicate } = await createDuplicatePlayers();
+      await authenticatedRequest('POST', `/api/v1/players/${duplicate.id}/merge`, {
+        targetPlayerId: player.id,
+      });
+      const app = await getTestApp();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/players/${duplicate.id}/results`,
+      });
+
+      expect(response.statusCode).toBe(301);
+      expect(response.headers.location).toBe(`/api/v1/players/${player.id}/results`);
+    });
+
+    it('should list the players merged into a player', async () => {
+      const { player, duplicate } = await createDuplicatePlayers();
+      await authenticatedRequest('POST', `/api/v1/players/${duplicate.id}/merge`, {
+        targetPlayerId: player.id,
+      });
+
+      const response = await authenticatedRequest('GET', `/api/v1/players/${player.id}/merges`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual([
+        expect.objectContaining({ sourcePlayerId: duplicate.id, sourceName: 'Bob Smith' }),
+      ]);
+    });
+  });
+});
@@ -5,7 +5,12 @@ import {
   authenticatedRequest,
   resetAuthCache,
 } from '../setup/test-helpers.js';
-import { createPlayerFixture, createRatedPlayerFixture } from '../fixtures/index.js';
+import {
+  createPlayerFixture,
+  createRatedPlayerFixture,
+  createTournamentFixture,
+  createStandingFixture,
+} from '../fixtures/index.js';
 
 describe('Players endpoints', () => {
   beforeEach(() => {
@@ -242,6 +247,72 @@ describe('Players endpoints', () => {
       expect(body).toHaveProperty('averagePosition');
     });
 
+    it('should return the ranking profile built from standings', async () => {
+      const { id } = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+      const tournament = (
+        await authenticatedRequest('POST', '/api/v1/tournaments', createTournamentFixture())
+      ).json();
+      await authenticatedRequest(
+        'POST',
+        '/api/v1/standings',
+        createStandingFixture(id, tournament.id, { position: 3 })
+      );
+      await authenticatedRequest(
+        'POST',
+        '/api/v1/standings',
+        createStandingFixture(id, tournament.id, { position: 1, isFinals: true })
+      );
+
+      const response = await authenticatedRequest('GET', `/api/v1/players/${id}/stats`);
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      // Qualifying and finals standings count as one event, using the finals position
+      expect(body.totalEvents).toBe(1);
+      expect(body.events).toHaveLength(1);
+      expect(body.events[0].tournament.id).toBe(tournament.id);
+      expect(body.events[0].position).toBe(1);
+      expect(body.events[0].decayMultiplier).toBe(1);
+      expect(body.top15Events).toHaveLength(1);
+      expect(body.totalPoints).toBe(100);
+      expect(body.efficiency).toBe(100);
+      expect(body.player.id).toBe(id);
+    });
+
+    it('should count the standing with more points, as world rankings do', async () => {
+      const { id } = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+      const tournament = (
+        await authenticatedRequest('POST', '/api/v1/tournaments', createTournamentFixture())
+      ).json();
+      await authenticatedRequest(
+        'POST',
+        '/api/v1/standings',
+        createStandingFixture(id, tournament.id, { position: 2 })
+      );
+      await authenticatedRequest(
+        'POST',
+        '/api/v1/standings',
+        createStandingFixture(id, tournament.id, {
+          position: 4,
+          isFinals: true,
+          totalPoints: 40,
+          decayedPoints: 40,
+        })
+      );
+
+      const response = await authenticatedRequest('GET', `/api/v1/players/${id}/stats`);
+
+      const body = response.json();
+      expect(body.events).toHaveLength(1);
+      expect(body.events[0].position).toBe(2);
+      expect(body.totalPoints).toBe(100);
+    });
+
     it('should return 404 for non-existent player stats', async () => {
       const response = await authenticatedRequest('GET', '/api/v1/players/non-existent-id/stats');
 
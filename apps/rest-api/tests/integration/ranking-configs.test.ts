@@ -0,0 +1,364 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+} from '../setup/test-helpers.js';
+import {
+  createPlayerFixture,
+  createRatedPlayerFixture,
+  createTournamentFixture,
+  createStandingFixture,
+} from '../fixtures/index.js';
+
+const createConfig = (overrides: Record<string, unknown> = {}) =>
+  authenticatedRequest('POST', '/api/v1/ranking-configs', {
+    version: '2026.1',
+    name: 'Bigger events',
+    config: { BASE_VALUE: { MAX_BASE_VALUE: 64, POINTS_PER_PLAYER: 1 } },
+    ...overrides,
+  });
+
+const createTournamentWithStandings = async () => {
+  const tournament = (
+    await authenticatedRequest(
+      'POST',
+      '/api/v1/tournaments',
+      createTournamentFixture({
+        tgpConfig: { qualifying: { type: 'limited', meaningfulGames: 10 } },
+      })
+    )
+  ).json();
+  for (let position = 1; position <= 3; position++) {
+    const player = (
+      await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+    ).json();
+    await authenticatedRequest(
+      'POST',
+      '/api/v1/standings',
+      createStandingFixture(player.id, tournament.id, { position })
+    );
+  }
+  return tournament;
+};
+
+describe('Ranking config endpoints', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+
+  afterAll(async () => {
+    await closeTestApp();
+  });
+
+  describe('POST /api/v1/ranking-configs', () => {
+    it('should create an inactive configuration', async () => {
+      const response = await createConfig();
+
+      expect(response.statusCode).toBe(201);
+
+      const body = response.json();
+      expect(body.version).toBe('2026.1');
+      expect(body.config).toEqual({ BASE_VALUE: { MAX_BASE_VALUE: 64, POINTS_PER_PLAYER: 1 } });
+      expect(body.isActive).toBe(false);
+    });
+
+    it('should reject unknown configuration keys', async () => {
+      const response = await createConfig({ config: { BASE_VALUE: { UNKNOWN: 1 } } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('BASE_VALUE.UNKNOWN');
+    });
+
+    it('should reject inconsistent point distribution percentages', async () => {
+      const response = await createConfig({
+        config: { POINT_DISTRIBUTION: { LINEAR_PERCENTAGE: 0.5 } },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should accept a Glicko-2 rating strategy', async () => {
+      const response = await createConfig({
+        config: { RATING: { STRATEGY: 'glicko2', GLICKO2: { TAU: 0.3 } } },
+      });
+
+      expect(response.statusCode).toBe(201);
+    });
+
+    it('should reject unknown rating strategies', async () => {
+      const response = await createConfig({ config: { RATING: { STRATEGY: 'elo' } } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('Rating strategy');
+    });
+
+    it('should accept a custom time decay curve', async () => {
+      const response = await createConfig({
+        config: {
+          TIME_DECAY: {
+            CURVE: 'custom',
+            BREAKPOINTS: [
+              { AGE_YEARS: 2, MULTIPLIER: 0.5 },
+              { AGE_YEARS: 4, MULTIPLIER: 0 },
+            ],
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().config.TIME_DECAY.BREAKPOINTS).toHaveLength(2);
+    });
+
+    it('should reject unknown time decay curves', async () => {
+      const response = await createConfig({ config: { TIME_DECAY: { CURVE: 'cliff' } } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('Time decay curve');
+    });
+
+    it('should reject time decay breakpoints out of order', async () => {
+      const response = await createConfig({
+        config: {
+          TIME_DECAY: {
+            BREAKPOINTS: [
+              { AGE_YEARS: 2, MULTIPLIER: 0.5 },
+              { AGE_YEARS: 1, MULTIPLIER: 0.75 },
+            ],
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('breakpoints');
+    });
+
+    it('should return 409 for a duplicate version', async () => {
+      await createConfig();
+
+      const response = await createConfig();
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should require authentication', async () => {
+      const app = await getTestApp();
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/ranking-configs',
+        payload: { version: '2026.1', name: 'Test', config: {} },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('GET /api/v1/ranking-configs', () => {
+    it('should list configurations', async () => {
+      await createConfig();
+
+      const response = await authenticatedRequest('GET', '/api/v1/ranking-configs');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toHaveLength(1);
+      expect(response.json().pagination.total).toBe(1);
+    });
+  });
+
+  describe('PATCH /api/v1/ranking-configs/:id', () => {
+    it('should update an inactive configuration', async () => {
+      const { id } = (await createConfig()).json();
+
+      const response = await authenticatedRequest('PATCH', `/api/v1/ranking-configs/${id}`, {
+        config: { TIME_DECAY: { YEAR_1_TO_2: 0.8 } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().config).toEqual({ TIME_DECAY: { YEAR_1_TO_2: 0.8 } });
+    });
+
+    it('should not edit the active configuration', async () => {
+      const { id } = (await createConfig()).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+
+      const response = await authenticatedRequest('PATCH', `/api/v1/ranking-configs/${id}`, {
+        name: 'Renamed',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should not edit a configuration that tournaments were evaluated under', async () => {
+      const { id } = (await createConfig()).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+      await createTournamentWithStandings();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/deactivate`);
+
+      const response = await authenticatedRequest('PATCH', `/api/v1/ranking-configs/${id}`, {
+        config: { TIME_DECAY: { YEAR_1_TO_2: 0.8 } },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('activation', () => {
+    it('should activate one configuration at a time', async () => {
+      const first = (await createConfig()).json();
+      const second = (await createConfig({ version: '2026.2' })).json();
+
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${first.id}/activate`);
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/ranking-configs/${second.id}/activate`
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().isActive).toBe(true);
+
+      const active = await authenticatedRequest('GET', '/api/v1/ranking-configs/active');
+      expect(active.json().id).toBe(second.id);
+    });
+
+    it('should keep the activation date when activating the active configuration', async () => {
+      const { id } = (await createConfig()).json();
+      const activated = (
+        await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`)
+      ).json();
+
+      const response = await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+
+      expect(response.json().activatedAt).toBe(activated.activatedAt);
+    });
+
+    it('should return 404 for the active configuration after deactivation', async () => {
+      const { id } = (await createConfig()).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/deactivate`);
+
+      const response = await authenticatedRequest('GET', '/api/v1/ranking-configs/active');
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should use the active configuration for tournaments from its activation', async () => {
+      const { id } = (await createConfig()).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+      const tournament = await createTournamentWithStandings();
+
+      const response = await authenticatedRequest(
+        'GET',
+        `/api/v1/tournaments/${tournament.id}/trace`
+      );
+
+      expect(response.json().rulesetVersion).toBe('2026.1');
+    });
+
+    it('should keep earlier tournaments on the rules they were calculated with', async () => {
+      const tournament = await createTournamentWithStandings();
+      const { id } = (await createConfig()).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/tournaments/${tournament.id}/recalculate`
+      );
+
+      expect(response.json().rulesetVersion).toBe('default');
+    });
+
+    it('should keep tournaments on a configuration after it is replaced', async () => {
+      const first = (await createConfig()).json();
+      const second = (await createConfig({ version: '2026.2' })).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${first.id}/activate`);
+      const tournament = await createTournamentWithStandings();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${second.id}/activate`);
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/tournaments/${tournament.id}/recalculate`
+      );
+
+      expect(response.json().rulesetVersion).toBe('2026.1');
+    });
+  });
+
+  describe('GET /api/v1/ranking-configs/:id/preview', () => {
+    it('should show tournament value and leaderboard changes', async () => {
+      const tournament = (
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/tournaments',
+          createTournamentFixture({
+            tgpConfig: { qualifying: { type: 'limited', meaningfulGames: 10 } },
+          })
+        )
+      ).json();
+      for (let position = 1; position <= 3; position++) {
+        const player = (
+          await authenticatedRequest('POST', '/api/v1/players', createRatedPlayerFixture())
+        ).json();
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/standings',
+          createStandingFixture(player.id, tournament.id, { position })
+        );
+      }
+
+      const { id } = (await createConfig()).json();
+
+      const response = await authenticatedRequest('GET', `/api/v1/ranking-configs/${id}/preview`);
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body.version).toBe('2026.1');
+      expect(body.scope).toBe('full-recalculation');
+      expect(body.tournamentsEvaluated).toBe(1);
+      expect(body.tournaments).toHaveLength(1);
+      expect(body.tournaments[0].tournamentId).toBe(tournament.id);
+      expect(body.tournaments[0].proposedValue).toBeGreaterThan(body.tournaments[0].currentValue);
+      expect(Array.isArray(body.leaderboard)).toBe(true);
+    });
+
+    it('should return 404 for a non-existent configuration', async () => {
+      const response = await authenticatedRequest(
+        'GET',
+        '/api/v1/ranking-configs/non-existent-id/preview'
+      );
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/v1/ranking-configs/:id', () => {
+    it('should delete an inactive configuration', async () => {
+      const { id } = (await createConfig()).json();
+
+      const response = await authenticatedRequest('DELETE', `/api/v1/ranking-configs/${id}`);
+
+      expect(response.statusCode).toBe(204);
+    });
+
+    it('should not delete the active configuration', async () => {
+      const { id } = (await createConfig()).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+
+      const response = await authenticatedRequest('DELETE', `/api/v1/ranking-configs/${id}`);
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should not delete a configuration that tournaments were evaluated under', async () => {
+      const { id } = (await createConfig()).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/activate`);
+      await createTournamentWithStandings();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${id}/deactivate`);
+
+      const response = await authenticatedRequest('DELETE', `/api/v1/ranking-configs/${id}`);
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { prisma, createJob } from '@opprs/db-prisma';
 import {
   getTestApp,
   closeTestApp,
   authenticatedRequest,
   resetAuthCache,
+  runJobRequest,
 } from '../setup/test-helpers.js';
 import {
   createPlayerFixture,
@@ -211,6 +213,59 @@ describe('Standings endpoints', () => {
       const body = response.json();
       expect(body.count).toBe(2);
     });
+
+    it('should accept tied standings with a position range', async () => {
+      const { player, tournament } = await createPlayerAndTournament();
+      const player2 = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+      const player3 = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+
+      const response = await authenticatedRequest('POST', '/api/v1/standings/batch', [
+        createResultFixture(player.id, tournament.id, { position: 1 }),
+        createResultFixture(player2.id, tournament.id, { position: 2, positionEnd: 3 }),
+        createResultFixture(player3.id, tournament.id, { position: 2, positionEnd: 3 }),
+      ]);
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().count).toBe(3);
+    });
+
+    it('should reject tied standings without a position range', async () => {
+      const { player, tournament } = await createPlayerAndTournament();
+      const player2 = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+
+      const response = await authenticatedRequest('POST', '/api/v1/standings/batch', [
+        createResultFixture(player.id, tournament.id, { position: 2 }),
+        createResultFixture(player2.id, tournament.id, { position: 2 }),
+      ]);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toBe('Duplicate position 2 in batch');
+    });
+
+    it('should reject a position inside a tie range', async () => {
+      const { player, tournament } = await createPlayerAndTournament();
+      const player2 = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+      const player3 = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+
+      const response = await authenticatedRequest('POST', '/api/v1/standings/batch', [
+        createResultFixture(player.id, tournament.id, { position: 2, positionEnd: 3 }),
+        createResultFixture(player2.id, tournament.id, { position: 2, positionEnd: 3 }),
+        createResultFixture(player3.id, tournament.id, { position: 3 }),
+      ]);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toBe('Position 3 overlaps the range 2-3');
+    });
   });
 
   describe('GET /api/v1/standings/:id', () => {
@@ -308,14 +363,221 @@ describe('Standings endpoints', () => {
         createResultFixture(player.id, tournament.id)
       );
 
-      const response = await authenticatedRequest('POST', '/api/v1/standings/recalculate-decay');
+      const job = await runJobRequest('/api/v1/standings/recalculate-decay');
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job.progress).toBe(job.progressTotal);
+
+      const body = job.result;
+      expect(body).toHaveProperty('count');
+      expect(body).toHaveProperty('message');
+      expect(body.tournamentsProcessed).toBeGreaterThanOrEqual(1);
+      // Today's standing already has a multiplier of 1
+      expect(body.count).toBe(0);
+    });
+
+    it('should decay with the curve of the active ranking configuration', async () => {
+      const { player } = await createPlayerAndTournament();
+      const date = new Date(Date.now() - 547.5 * 24 * 60 * 60 * 1000); // ~1.5 years
+      const tournament = (
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/tournaments',
+          createTournamentFixture({ date: date.toISOString() })
+        )
+      ).json();
+      const standing = (
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/standings',
+          createResultFixture(player.id, tournament.id)
+        )
+      ).json();
+      const config = (
+        await authenticatedRequest('POST', '/api/v1/ranking-configs', {
+          version: 'linear-decay',
+          name: 'Linear decay',
+          config: { TIME_DECAY: { CURVE: 'linear' } },
+        })
+      ).json();
+      await authenticatedRequest('POST', `/api/v1/ranking-configs/${config.id}/activate`);
+
+      const job = await runJobRequest('/api/v1/standings/recalculate-decay');
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job.result.count).toBe(1);
+      const updated = await prisma.standing.findUniqueOrThrow({ where: { id: standing.id } });
+      // Stepped decay would store 0.75
+      expect(updated.decayMultiplier).toBeCloseTo(0.5, 2);
+      expect(updated.decayedPoints).toBeCloseTo(50, 0);
+    });
+  });
+
+  describe('POST /api/v1/standings/refresh-rankings', () => {
+    async function createPlayerWithEvents(eventCount: number, decayedPoints: number) {
+      const player = (
+        await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+      ).json();
+
+      for (let i = 0; i < eventCount; i++) {
+        const tournament = (
+          await authenticatedRequest('POST', '/api/v1/tournaments', createTournamentFixture())
+        ).json();
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/standings',
+          createResultFixture(player.id, tournament.id, { decayedPoints })
+        );
+      }
+
+      return player;
+    }
+
+    it('should rank rated players by top-15 decayed points', async () => {
+      const second = await createPlayerWithEvents(5, 50);
+      const first = await createPlayerWithEvents(5, 100);
+      const unrated = await createPlayerWithEvents(1, 500);
+
+      const response = await authenticatedRequest('POST', '/api/v1/standings/refresh-rankings');
 
       expect(response.statusCode).toBe(200);
 
       const body = response.json();
-      expect(body).toHaveProperty('count');
+      expect(body.count).toBe(3);
+      expect(body.rankedCount).toBe(2);
       expect(body).toHaveProperty('message');
-      expect(body.count).toBeGreaterThanOrEqual(1);
+
+      const rankings = await prisma.opprPlayerRanking.findMany({
+        where: { playerId: { in: [first.id, second.id, unrated.id] } },
+        include: { history: true },
+      });
+      const byPlayer = new Map(rankings.map((r) => [r.playerId, r]));
+
+      expect(byPlayer.get(first.id)?.ranking).toBe(1);
+      expect(byPlayer.get(second.id)?.ranking).toBe(2);
+      expect(byPlayer.get(unrated.id)?.ranking).toBeNull();
+      expect(byPlayer.get(unrated.id)?.isRated).toBe(false);
+      expect(byPlayer.get(first.id)?.history[0].changeType).toBe('RANKING_REFRESH');
+    });
+  });
+
+  describe('POST /api/v1/standings/replay', () => {
+    const tgpConfig = {
+      qualifying: { type: 'limited', meaningfulGames: 7 },
+      finals: { formatType: 'match-play', meaningfulGames: 12 },
+    };
+
+    async function createReplayTournament(playerCount: number) {
+      const tournament = (
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/tournaments',
+          createTournamentFixture({ tgpConfig, date: '2024-06-01T00:00:00.000Z' })
+        )
+      ).json();
+
+      const players = [];
+      for (let position = 1; position <= playerCount; position++) {
+        const player = (
+          await authenticatedRequest('POST', '/api/v1/players', createPlayerFixture())
+        ).json();
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/standings',
+          createResultFixture(player.id, tournament.id, { position })
+        );
+        players.push(player);
+      }
+
+      return { tournament, players };
+    }
+
+    it('should report changes without writing them in a dry run', async () => {
+      const { tournament } = await createReplayTournament(4);
+      const before = await prisma.tournament.findUnique({ where: { id: tournament.id } });
+
+      const job = await runJobRequest('/api/v1/standings/replay', {
+        dryRun: true,
+        referenceDate: '2025-01-01T00:00:00.000Z',
+      });
+
+      expect(job.status).toBe('COMPLETED');
+
+      const body = job.result;
+      expect(body.dryRun).toBe(true);
+      expect(body.written).toBeNull();
+      expect(body.tournamentsReplayed).toBe(1);
+      expect(body.players).toHaveLength(4);
+      expect(body.tournaments[0].tournamentId).toBe(tournament.id);
+      expect(body.tournaments[0].currentValue).toBe(before?.firstPlaceValue);
+
+      const stored = await prisma.tournament.findUnique({ where: { id: tournament.id } });
+      expect(stored?.firstPlaceValue).toBe(before?.firstPlaceValue);
+    });
+
+    it('should rebuild ratings, points and rankings', async () => {
+      const { tournament, players } = await createReplayTournament(4);
+
+      const job = await runJobRequest('/api/v1/standings/replay', {
+        referenceDate: '2025-01-01T00:00:00.000Z',
+      });
+
+      expect(job.status).toBe('COMPLETED');
+      expect(job.progress).toBe(job.progressTotal);
+
+      const body = job.result;
+      expect(body.written.tournamentsUpdated).toBe(1);
+      expect(body.written.standingsUpdated).toBe(4);
+      expect(body.written.rankingsUpdated).toBe(4);
+
+      const stored = await prisma.tournament.findUnique({ where: { id: tournament.id } });
+      expect(stored?.firstPlaceValue).toBe(body.tournaments[0].replayedValue);
+      expect(stored?.rulesetVersion).toBe('default');
+
+      const winner = await prisma.opprPlayerRanking.findUnique({
+        where: { playerId: players[0].id },
+      });
+      expect(winner?.rating).toBeGreaterThan(1300);
+    });
+
+    it('should keep the ratings of players without replayed results', async () => {
+      await createReplayTournament(4);
+      const { player } = await createPlayerAndTournament();
+      await prisma.opprPlayerRanking.create({
+        data: { playerId: player.id, rating: 1650, ranking: 1 },
+      });
+
+      const job = await runJobRequest('/api/v1/standings/replay', {
+        referenceDate: '2025-01-01T00:00:00.000Z',
+      });
+
+      expect(job.result.written.rankingsKept).toBe(1);
+      const kept = await prisma.opprPlayerRanking.findUnique({ where: { playerId: player.id } });
+      expect(kept?.rating).toBe(1650);
+      expect(kept?.ranking).toBeNull();
+    });
+
+    it('should return 409 while another replay is queued', async () => {
+      await createJob({
+        type: 'historical-replay',
+        payload: {},
+        runAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      const response = await authenticatedRequest('POST', '/api/v1/standings/replay', {});
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should require authentication', async () => {
+      const app = await getTestApp();
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/standings/replay',
+        payload: { dryRun: true },
+      });
+
+      expect(response.statusCode).toBe(401);
     });
   });
 });
@@ -0,0 +1,132 @@
+import { describe, it, expect, afterAll, beforeEach, vi } from 'vitest';
+import { setTimeout as delay } from 'node:timers/promises';
+import {
+  syncScheduledTask,
+  startScheduledTaskRun,
+  finishScheduledTaskRun,
+  findScheduledTaskByName,
+} from '@opprs/db-prisma';
+import { createScheduler } from '../../src/services/scheduler.js';
+import { parseCronExpression } from '../../src/utils/cron.js';
+import {
+  getTestApp,
+  closeTestApp,
+  authenticatedRequest,
+  resetAuthCache,
+} from '../setup/test-helpers.js';
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+describe('Scheduled task endpoints', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+
+  afterAll(async () => {
+    await closeTestApp();
+  });
+
+  describe('GET /api/v1/scheduled-tasks', () => {
+    it('should return 401 without authentication', async () => {
+      const app = await getTestApp();
+      const response = await app.inject({ method: 'GET', url: '/api/v1/scheduled-tasks' });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should list the tasks with their last run', async () => {
+      const task = await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(60));
+      const run = await startScheduledTaskRun(task.id, 'test');
+      await finishScheduledTaskRun(run.id, { status: 'SUCCEEDED', result: { count: 2 } });
+
+      const response = await authenticatedRequest('GET', '/api/v1/scheduled-tasks');
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.schedulerEnabled).toBe(false);
+      expect(body.tasks.map((t: { name: string }) => t.name)).toEqual([
+        'time-decay',
+        'rd-decay',
+        'ranking-refresh',
+      ]);
+      expect(body.tasks[0]).toMatchObject({
+        schedule: '0 3 * * *',
+        enabled: false,
+        running: false,
+        nextRunAt: null,
+        lastRun: { id: run.id, status: 'SUCCEEDED', result: { count: 2 } },
+      });
+      expect(body.tasks[1]).toMatchObject({ lastRun: null, lastRunAt: null });
+    });
+  });
+
+  describe('GET /api/v1/scheduled-tasks/:name/runs', () => {
+    it('should list the runs of a task newest first', async () => {
+      const task = await syncScheduledTask('rd-decay', '0 4 * * 1', minutesFromNow(60));
+      const first = await startScheduledTaskRun(task.id, 'test');
+      await finishScheduledTaskRun(first.id, { status: 'FAILED', error: 'Boom' });
+      await delay(5);
+      const second = await startScheduledTaskRun(task.id, 'test');
+
+      const response = await authenticatedRequest('GET', '/api/v1/scheduled-tasks/rd-decay/runs');
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data.map((r: { id: string }) => r.id)).toEqual([second.id, first.id]);
+      expect(body.data[1]).toMatchObject({ status: 'FAILED', error: 'Boom' });
+      expect(body.pagination.total).toBe(2);
+    });
+
+    it('should return 404 for an unknown task', async () => {
+      const response = await authenticatedRequest('GET', '/api/v1/scheduled-tasks/unknown/runs');
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/scheduled-tasks/:name/run', () => {
+    it('should return 409 while the scheduler is disabled', async () => {
+      const response = await authenticatedRequest('POST', '/api/v1/scheduled-tasks/time-decay/run');
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+});
+
+describe('Scheduler', () => {
+  it('should run a due task once and schedule its next run', async () => {
+    const app = await getTestApp();
+    const run = vi.fn().mockResolvedValue({ count: 1 });
+    const definition = {
+      name: 'test-task',
+      description: 'Test task',
+      schedule: '0 3 * * *',
+      cron: parseCronExpression('0 3 * * *'),
+      run,
+    };
+    await syncScheduledTask('test-task', '0 3 * * *', minutesFromNow(-1));
+
+    const first = createScheduler({ tasks: [definition], logger: app.log });
+    const second = createScheduler({ tasks: [definition], logger: app.log });
+    first.start();
+    second.start();
+    try {
+      for (let i = 0; i < 100; i++) {
+        const task = await findScheduledTaskByName('test-task');
+        if (task?.lastRunAt && !task.leaseOwner) {
+          break;
+        }
+        await delay(50);
+      }
+    } finally {
+      await first.stop();
+      await second.stop();
+    }
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith({ lastSuccessAt: null });
+    const task = await findScheduledTaskByName('test-task');
+    expect(task?.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    expect(task?.runs[0]).toMatchObject({ status: 'SUCCEEDED', result: { count: 1 } });
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { prisma } from '@opprs/db-prisma';
 import {
   getTestApp,
   closeTestApp,
@@ -6,7 +7,12 @@ import {
   resetAuthCache,
   daysAgo,
 } from '../setup/test-helpers.js';
-import { createTournamentFixture } from '../fixtures/index.js';
+import {
+  createTournamentFixture,
+  createPlayerFixture,
+  createRatedPlayerFixture,
+  createStandingFixture,
+} from '../fixtures/index.js';
 
 describe('Tournaments endpoints', () => {
   beforeEach(() => {
@@ -253,4 +259,232 @@ describe('Tournaments endpoints', () => {
       expect(response.statusCode).toBe(404);
     });
   });
+
+  describe('GET /api/v1/tournaments/:id/trace', () => {
+    const tgpConfig = {
+      qualifying: { type: 'limited', meaningfulGames: 7 },
+      finals: { formatType: 'match-play', meaningfulGames: 12, fourPlayerGroups: true },
+    };
+
+    it('should explain tournament value and point distribution', async () => {
+      const tournamentResponse = await authenticatedRequest(
+        'POST',
+        '/api/v1/tournaments',
+        createTournamentFixture({ tgpConfig, eventBooster: 'MAJOR' })
+      );
+      const tournament = tournamentResponse.json();
+
+      for (let position = 1; position <= 3; position++) {
+        const playerResponse = await authenticatedRequest(
+          'POST',
+          '/api/v1/players',
+          createPlayerFixture()
+        );
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/standings',
+          createStandingFixture(playerResponse.json().id, tournament.id, { position })
+        );
+      }
+
+      const response = await authenticatedRequest(
+        'GET',
+        `/api/v1/tournaments/${tournament.id}/trace`
+      );
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body.tournamentId).toBe(tournament.id);
+      expect(body.rulesetVersion).toBe('default');
+      // Standings changes recalculate the stored values
+      expect(body.stored.firstPlaceValue).toBe(body.value.firstPlaceValue);
+      expect(body.value.eventBoosterMultiplier).toBe(2);
+      expect(body.trace.eventBooster.value).toBe(2);
+      expect(body.trace.tvaRating.contributions).toHaveLength(3);
+      expect(body.trace.tgp.finals.multipliers).toEqual([
+        { name: '4-player groups', factor: 2 },
+      ]);
+      expect(body.trace.firstPlaceValue.value).toBe(body.value.firstPlaceValue);
+      expect(body.trace.pointDistribution.activePlayerCount).toBe(3);
+    });
+
+    it('should explain the stored value after player ratings change', async () => {
+      const tournament = (
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/tournaments',
+          createTournamentFixture({ tgpConfig })
+        )
+      ).json();
+      const playerIds: string[] = [];
+      for (let position = 1; position <= 3; position++) {
+        const player = (
+          await authenticatedRequest('POST', '/api/v1/players', createRatedPlayerFixture())
+        ).json();
+        playerIds.push(player.id);
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/standings',
+          createStandingFixture(player.id, tournament.id, { position })
+        );
+      }
+      await prisma.opprPlayerRanking.updateMany({
+        where: { playerId: { in: playerIds } },
+        data: { rating: 2400 },
+      });
+
+      const response = await authenticatedRequest(
+        'GET',
+        `/api/v1/tournaments/${tournament.id}/trace`
+      );
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.value.firstPlaceValue).toBe(body.stored.firstPlaceValue);
+      expect(body.trace.firstPlaceValue.value).toBe(body.stored.firstPlaceValue);
+    });
+
+    it('should return 400 for a tournament without TGP configuration', async () => {
+      const createResponse = await authenticatedRequest(
+        'POST',
+        '/api/v1/tournaments',
+        createTournamentFixture()
+      );
+      const { id } = createResponse.json();
+
+      const response = await authenticatedRequest('GET', `/api/v1/tournaments/${id}/trace`);
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for non-existent tournament trace', async () => {
+      const response = await authenticatedRequest('GET', '/api/v1/tournaments/non-existent-id/trace');
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/tournaments/:id/recalculate', () => {
+    const tgpConfig = {
+      qualifying: { type: 'limited', meaningfulGames: 7 },
+      finals: { formatType: 'match-play', meaningfulGames: 12 },
+    };
+
+    async function createTournamentWithStandings(playerCount: number) {
+      const tournament = (
+        await authenticatedRequest(
+          'POST',
+          '/api/v1/tournaments',
+          createTournamentFixture({ tgpConfig })
+        )
+      ).json();
+
+      const standings = [];
+      for (let position = 1; position <= playerCount; position++) {
+        const player = (
+          await authenticatedRequest('POST', '/api/v1/players', createRatedPlayerFixture())
+        ).json();
+        const standing = (
+          await authenticatedRequest(
+            'POST',
+            '/api/v1/standings',
+            createStandingFixture(player.id, tournament.id, { position })
+          )
+        ).json();
+        standings.push(standing);
+      }
+
+      return { tournament, standings };
+    }
+
+    it('should recalculate tournament value and standing points', async () => {
+      const { tournament } = await createTournamentWithStandings(3);
+      await prisma.standing.updateMany({
+        where: { tournamentId: tournament.id },
+        data: { totalPoints: 999, decayedPoints: 999 },
+      });
+
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/tournaments/${tournament.id}/recalculate`
+      );
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body.tournamentId).toBe(tournament.id);
+      expect(body.rulesetVersion).toBe('default');
+      expect(body.standingsUpdated).toBe(3);
+      expect(body.value.firstPlaceValue).toBeGreaterThan(0);
+
+      const standings = await prisma.standing.findMany({
+        where: { tournamentId: tournament.id },
+        orderBy: { position: 'asc' },
+      });
+      expect(standings[0].totalPoints).toBeCloseTo(body.value.firstPlaceValue, 6);
+      expect(standings[0].decayedPoints).toBeCloseTo(body.value.firstPlaceValue, 6);
+      expect(standings[0].efficiency).toBeCloseTo(100, 6);
+      expect(standings[1].totalPoints).toBeLessThan(standings[0].totalPoints ?? 0);
+      expect(standings[2].totalPoints).toBeLessThan(standings[1].totalPoints ?? 0);
+
+      const stored = await prisma.tournament.findUnique({ where: { id: tournament.id } });
+      expect(stored?.firstPlaceValue).toBe(body.value.firstPlaceValue);
+      expect(stored?.rulesetVersion).toBe('default');
+    });
+
+    it('should recalculate points when standings are edited', async () => {
+      const { standings } = await createTournamentWithStandings(3);
+      const [first, , third] = standings;
+      expect(first.totalPoints).not.toBe(100);
+
+      const response = await authenticatedRequest('PATCH', `/api/v1/standings/${third.id}`, {
+        optedOut: true,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().totalPoints).toBe(0);
+      expect(response.json().efficiency).toBe(0);
+    });
+
+    it('should keep the tournament value when player ratings change later', async () => {
+      const { tournament, standings } = await createTournamentWithStandings(3);
+      const before = await prisma.tournament.findUnique({ where: { id: tournament.id } });
+
+      await prisma.opprPlayerRanking.updateMany({
+        where: { playerId: { in: standings.map((s: { playerId: string }) => s.playerId) } },
+        data: { rating: 2400, ranking: 1 },
+      });
+      const response = await authenticatedRequest(
+        'POST',
+        `/api/v1/tournaments/${tournament.id}/recalculate`
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().value.firstPlaceValue).toBe(before?.firstPlaceValue);
+      const snapshot = await prisma.standing.findFirst({
+        where: { tournamentId: tournament.id, position: 1 },
+      });
+      expect(snapshot?.ratingAtEvent).not.toBe(2400);
+    });
+
+    it('should return 400 for a tournament without TGP configuration', async () => {
+      const { id } = (
+        await authenticatedRequest('POST', '/api/v1/tournaments', createTournamentFixture())
+      ).json();
+
+      const response = await authenticatedRequest('POST', `/api/v1/tournaments/${id}/recalculate`);
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for non-existent tournament', async () => {
+      const response = await authenticatedRequest(
+        'POST',
+        '/api/v1/tournaments/non-existent-id/recalculate'
+      );
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
 });
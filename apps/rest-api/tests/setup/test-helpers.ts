@@ -1,3 +1,4 @@
+import { setTimeout as delay } from 'node:timers/promises';
 import type { FastifyInstance } from 'fastify';
 import { buildApp } from '../../src/app.js';
 
@@ -88,3 +89,32 @@ export function daysAgo(days: number): Date {
 export function resetAuthCache(): void {
   cachedToken = null;
 }
+
+/**
+ * Polls a background job until it has finished and returns it
+ */
+export async function waitForJob(id: string, timeoutMs = 10000) {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const response = await authenticatedRequest('GET', `/api/v1/jobs/${id}`);
+    const job = response.json();
+    if (['COMPLETED', 'FAILED', 'CANCELLED'].includes(job.status)) {
+      return job;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Job ${id} did not finish in time (status ${job.status})`);
+    }
+    await delay(50);
+  }
+}
+
+/**
+ * Makes an authenticated request that queues a job and waits for the job to finish
+ */
+export async function runJobRequest(url: string, payload?: Record<string, unknown>) {
+  const response = await authenticatedRequest('POST', url, payload);
+  if (response.statusCode !== 202) {
+    throw new Error(`Expected a queued job, got ${response.statusCode}: ${response.body}`);
+  }
+  return waitForJob(response.json().id);
+}
@@ -17,12 +17,18 @@ const { prisma } = await import('@opprs/db-prisma');
 
 beforeEach(async () => {
   // Clean all tables before each test (order matters due to foreign keys)
+  await prisma.playerMatchReview.deleteMany();
+  await prisma.gamePlacement.deleteMany();
   await prisma.standing.deleteMany();
   await prisma.tournament.deleteMany();
   await prisma.location.deleteMany();
   await prisma.apiKey.deleteMany();
   await prisma.user.deleteMany();
   await prisma.player.deleteMany();
+  await prisma.rankingConfig.deleteMany();
+  await prisma.job.deleteMany();
+  await prisma.scheduledTask.deleteMany();
+  await prisma.auditLog.deleteMany();
 });
 
 afterAll(async () => {
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAuditTarget,
+  getCreatedEntityId,
+  toAuditSnapshot,
+  diffAuditSnapshots,
+} from '../../src/services/audit-log.js';
+
+describe('Audit log', () => {
+  describe('getAuditTarget', () => {
+    it('should take the entity from the route group and path ID', () => {
+      expect(getAuditTarget('/api/v1/players/:id', { id: 'p1' })).toEqual({
+        entityType: 'players',
+        entityId: 'p1',
+        createsEntity: false,
+      });
+      expect(getAuditTarget('/api/v1/scheduled-tasks/:name/run', { name: 'time-decay' })).toEqual({
+        entityType: 'scheduled-tasks',
+        entityId: 'time-decay',
+        createsEntity: false,
+      });
+    });
+
+    it('should mark writes to a collection as creating an entity', () => {
+      expect(getAuditTarget('/api/v1/tournaments/', {})).toEqual({
+        entityType: 'tournaments',
+        entityId: undefined,
+        createsEntity: true,
+      });
+      expect(getAuditTarget('/api/v1/import/csv', {})?.createsEntity).toBe(false);
+    });
+
+    it('should not audit session routes or routes outside the API', () => {
+      expect(getAuditTarget('/api/v1/auth/login', {})).toBeNull();
+      expect(getAuditTarget('/health', {})).toBeNull();
+      expect(getAuditTarget('', undefined)).toBeNull();
+    });
+  });
+
+  describe('getCreatedEntityId', () => {
+    it('should read the ID of the response', () => {
+      expect(getCreatedEntityId('{"id":"t1","name":"Open"}')).toBe('t1');
+      expect(getCreatedEntityId('[{"id":"t1"}]')).toBeUndefined();
+      expect(getCreatedEntityId('null')).toBeUndefined();
+      expect(getCreatedEntityId('not json')).toBeUndefined();
+    });
+  });
+
+  describe('toAuditSnapshot', () => {
+    it('should convert to JSON without secrets', () => {
+      const snapshot = toAuditSnapshot({
+        id: 'u1',
+        passwordHash: 'hash',
+        refreshTokenHash: 'hash',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        apiKeys: [{ id: 'k1', keyHash: 'hash' }],
+      });
+
+      expect(snapshot).toEqual({
+        id: 'u1',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        apiKeys: [{ id: 'k1' }],
+      });
+      expect(toAuditSnapshot(null)).toBeNull();
+    });
+
+    it('should leave out the secrets of jobs', () => {
+      const job = {
+        id: 'j1',
+        secret: 'encrypted-token',
+        payload: { tournamentId: 1, apiToken: 'token' },
+      };
+
+      expect(toAuditSnapshot(job, 'jobs')).toEqual({ id: 'j1', payload: { tournamentId: 1 } });
+      expect(toAuditSnapshot(job, 'tournaments')).toEqual(job);
+    });
+  });
+
+  describe('diffAuditSnapshots', () => {
+    it('should list changed fields with their values before and after', () => {
+      const changes = diffAuditSnapshots(
+        { name: 'Bob', role: 'USER', tags: ['a'], updatedAt: '2024-01-01' },
+        { name: 'Bob', role: 'ADMIN', tags: ['a', 'b'], updatedAt: '2024-01-02' }
+      );
+
+      expect(changes).toEqual({
+        role: { before: 'USER', after: 'ADMIN' },
+        tags: { before: ['a'], after: ['a', 'b'] },
+      });
+    });
+
+    it('should compare created and deleted entities with nothing', () => {
+      expect(diffAuditSnapshots(null, { id: 't1', name: 'Open' })).toEqual({
+        id: { before: null, after: 't1' },
+        name: { before: null, after: 'Open' },
+      });
+      expect(diffAuditSnapshots({ id: 't1', location: null }, null)).toEqual({
+        id: { before: 't1', after: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseCronExpression, getNextCronRun } from '../../src/utils/cron.js';
+
+const next = (expression: string, after: string) =>
+  getNextCronRun(expression, new Date(after)).toISOString();
+
+describe('Cron utilities', () => {
+  describe('parseCronExpression', () => {
+    it('should parse lists, ranges and steps', () => {
+      const schedule = parseCronExpression('0,30 9-17 */10 1-12/6 1-5');
+
+      expect([...schedule.minutes]).toEqual([0, 30]);
+      expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+      expect([...schedule.months]).toEqual([1, 7]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat a day of week of 7 as Sunday', () => {
+      expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it('should expand macros', () => {
+      expect(next('@weekly', '2024-01-03T12:00:00Z')).toBe('2024-01-07T00:00:00.000Z');
+    });
+
+    it.each(['', '0 3 * *', '60 * * * *', '0 24 * * *', '0 0 0 * *', '5-1 * * * *', 'a * * * *'])(
+      'should reject "%s"',
+      (expression) => {
+        expect(() => parseCronExpression(expression)).toThrow();
+      }
+    );
+  });
+
+  describe('getNextCronRun', () => {
+    it('should return the next matching minute after the given time', () => {
+      expect(next('0 3 * * *', '2024-01-01T02:59:30Z')).toBe('2024-01-01T03:00:00.000Z');
+      expect(next('0 3 * * *', '2024-01-01T03:00:00Z')).toBe('2024-01-02T03:00:00.000Z');
+      expect(next('*/15 * * * *', '2024-01-01T10:07:00Z')).toBe('2024-01-01T10:15:00.000Z');
+    });
+
+    it('should roll over months and years', () => {
+      expect(next('0 4 * * 1', '2024-12-31T05:00:00Z')).toBe('2025-01-06T04:00:00.000Z');
+      expect(next('0 0 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 15th or any Monday
+      expect(next('0 0 15 * 1', '2024-01-09T00:00:00Z')).toBe('2024-01-15T00:00:00.000Z');
+      expect(next('0 0 15 * 1', '2024-01-15T00:00:00Z')).toBe('2024-01-22T00:00:00.000Z');
+    });
+
+    it('should throw when the schedule never matches', () => {
+      expect(() => next('0 0 31 2 *', '2024-01-01T00:00:00Z')).toThrow('never matches');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { loadEnvConfig } from '../../src/config/env.js';
+
+describe('Environment configuration', () => {
+  const { NODE_ENV, SECRET_ENCRYPTION_KEY } = process.env;
+
+  afterEach(() => {
+    process.env.NODE_ENV = NODE_ENV;
+    if (SECRET_ENCRYPTION_KEY === undefined) {
+      delete process.env.SECRET_ENCRYPTION_KEY;
+    } else {
+      process.env.SECRET_ENCRYPTION_KEY = SECRET_ENCRYPTION_KEY;
+    }
+  });
+
+  it('should require the secret encryption key in production', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.SECRET_ENCRYPTION_KEY = '';
+
+    expect(() => loadEnvConfig()).toThrow(
+      'Missing required environment variable: SECRET_ENCRYPTION_KEY'
+    );
+
+    process.env.SECRET_ENCRYPTION_KEY = 'production-key';
+    expect(loadEnvConfig().secretEncryptionKey).toBe('production-key');
+  });
+
+  it('should default the secret encryption key outside production', () => {
+    process.env.NODE_ENV = 'development';
+    delete process.env.SECRET_ENCRYPTION_KEY;
+
+    expect(loadEnvConfig().secretEncryptionKey).toBe(
+      'development-encryption-key-change-in-production'
+    );
+  });
+});
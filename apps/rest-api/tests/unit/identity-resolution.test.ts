@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeName,
+  nameSimilarity,
+  scoreCandidate,
+  decideIdentity,
+} from '../../src/services/identity-resolution.js';
+import type { IdentityCandidate } from '../../src/services/identity-resolution.js';
+
+const thresholds = { match: 0.7, review: 0.4 };
+
+const candidate = (
+  playerId: string,
+  score: number,
+  reasons: IdentityCandidate['reasons'] = ['name', 'playerNumber']
+): IdentityCandidate => ({
+  playerId,
+  name: null,
+  playerNumber: 10000,
+  score,
+  reasons,
+});
+
+describe('Identity resolution', () => {
+  describe('normalizeName', () => {
+    it('should ignore accents, case and punctuation', () => {
+      expect(normalizeName('  José  O’Brien-Smith ')).toBe('jose o brien smith');
+    });
+  });
+
+  describe('nameSimilarity', () => {
+    it('should score names equal once normalized as identical', () => {
+      expect(nameSimilarity('Zoë Keller', 'zoe keller')).toBe(1);
+    });
+
+    it('should score reordered names as identical', () => {
+      expect(nameSimilarity('Johnson, Alice', 'Alice Johnson')).toBe(1);
+    });
+
+    it('should score small spelling differences highly', () => {
+      const similarity = nameSimilarity('Jon Smith', 'John Smith');
+      expect(similarity).toBeGreaterThanOrEqual(0.8);
+      expect(similarity).toBeLessThan(1);
+    });
+
+    it('should score different names low', () => {
+      expect(nameSimilarity('Alice Johnson', 'Bob Smith')).toBeLessThan(0.3);
+      expect(nameSimilarity('', 'Bob Smith')).toBe(0);
+    });
+  });
+
+  describe('scoreCandidate', () => {
+    const player = { id: 'p1', name: 'Alice Johnson', playerNumber: 10001 };
+
+    it('should score an identical name', () => {
+      expect(scoreCandidate({ name: 'alice johnson' }, player)).toEqual({
+        playerId: 'p1',
+        name: 'Alice Johnson',
+        playerNumber: 10001,
+        score: 0.7,
+        reasons: ['name'],
+      });
+    });
+
+    it('should add player number, email and shared tournaments', () => {
+      const scored = scoreCandidate({ name: 'Alice Jonson', playerNumber: 10001 }, player, {
+        emailMatches: true,
+        sharedTournaments: 2,
+      });
+
+      expect(scored.reasons).toEqual(['playerNumber', 'email', 'similarName', 'sharedHistory']);
+      expect(scored.score).toBe(1);
+    });
+
+    it('should cap the score of shared tournaments', () => {
+      const scored = scoreCandidate({ name: 'Bob Smith' }, player, { sharedTournaments: 10 });
+
+      expect(scored.reasons).toEqual(['sharedHistory']);
+      expect(scored.score).toBe(0.3);
+    });
+  });
+
+  describe('decideIdentity', () => {
+    it('should match a confident candidate clearly ahead of the others', () => {
+      const resolution = decideIdentity(
+        [candidate('a', 0.45), candidate('b', 0.9), candidate('c', 0.1)],
+        thresholds
+      );
+
+      expect(resolution.decision).toBe('matched');
+      expect(resolution.match?.playerId).toBe('b');
+      expect(resolution.candidates.map((c) => c.playerId)).toEqual(['b', 'a']);
+    });
+
+    it('should leave close candidates for review', () => {
+      const resolution = decideIdentity([candidate('a', 0.7), candidate('b', 0.7)], thresholds);
+
+      expect(resolution.decision).toBe('review');
+      expect(resolution.match).toBeNull();
+      expect(resolution.candidates).toHaveLength(2);
+    });
+
+    it('should leave a candidate matching only by name for review', () => {
+      const player = { id: 'p1', name: 'Alice Johnson', playerNumber: 10001 };
+      const resolution = decideIdentity(
+        [scoreCandidate({ name: 'Alice Johnson' }, player)],
+        thresholds
+      );
+
+      expect(resolution.decision).toBe('review');
+      expect(resolution.candidates.map((c) => c.playerId)).toEqual(['p1']);
+    });
+
+    it('should match a candidate whose name is backed by shared tournaments', () => {
+      const player = { id: 'p1', name: 'Alice Johnson', playerNumber: 10001 };
+      const resolution = decideIdentity(
+        [scoreCandidate({ name: 'Alice Johnson' }, player, { sharedTournaments: 1 })],
+        thresholds
+      );
+
+      expect(resolution.decision).toBe('matched');
+      expect(resolution.match?.playerId).toBe('p1');
+    });
+
+    it('should leave a candidate below the match threshold for review', () => {
+      expect(decideIdentity([candidate('a', 0.55)], thresholds).decision).toBe('review');
+    });
+
+    it('should treat the player as new without a candidate worth reviewing', () => {
+      expect(decideIdentity([candidate('a', 0.3)], thresholds)).toEqual({
+        decision: 'new',
+        match: null,
+        candidates: [],
+      });
+    });
+  });
+});
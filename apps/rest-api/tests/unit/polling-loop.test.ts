@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { setTimeout as delay } from 'node:timers/promises';
+import { createPollingLoop } from '../../src/utils/polling-loop.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  while (!condition()) {
+    await delay(5);
+  }
+};
+
+describe('createPollingLoop', () => {
+  it('should run iterations without waiting while they resolve to true', async () => {
+    let remaining = 3;
+    const poll = vi.fn(async () => --remaining > 0);
+    const loop = createPollingLoop({ intervalMs: HOUR_MS, poll, onError: vi.fn() });
+
+    expect(loop.start()).toBe(true);
+    expect(loop.start()).toBe(false);
+    await waitFor(() => poll.mock.calls.length === 3);
+    await loop.stop();
+
+    expect(poll).toHaveBeenCalledTimes(3);
+    expect(loop.running).toBe(false);
+  });
+
+  it('should run the next iteration when woken', async () => {
+    const poll = vi.fn(async () => false);
+    const loop = createPollingLoop({ intervalMs: HOUR_MS, poll, onError: vi.fn() });
+
+    loop.start();
+    await waitFor(() => poll.mock.calls.length === 1);
+    loop.wake();
+    await waitFor(() => poll.mock.calls.length === 2);
+    await loop.stop();
+
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report errors and go on', async () => {
+    const error = new Error('Database unavailable');
+    const poll = vi.fn().mockRejectedValueOnce(error).mockResolvedValue(false);
+    const onError = vi.fn();
+    const loop = createPollingLoop({ intervalMs: 1, poll, onError });
+
+    loop.start();
+    await waitFor(() => poll.mock.calls.length >= 2);
+    await loop.stop();
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+});
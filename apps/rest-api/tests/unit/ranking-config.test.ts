@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { RankingConfig } from '@opprs/db-prisma';
+import { createRegistryWithConfigs } from '../../src/services/ranking-config.js';
+
+const rankingConfig = (version: string): RankingConfig => ({
+  id: `config-${version}`,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  version,
+  name: `Config ${version}`,
+  description: null,
+  config: { BASE_VALUE: { MAX_BASE_VALUE: 64 } },
+  isActive: false,
+  activatedAt: null,
+});
+
+const first = rankingConfig('2026.1');
+const second = rankingConfig('2026.2');
+
+describe('createRegistryWithConfigs', () => {
+  it('should keep a replaced configuration in effect for its period', () => {
+    const registry = createRegistryWithConfigs([
+      { config: first, effectiveFrom: new Date('2026-02-01'), effectiveTo: new Date('2026-03-01') },
+      { config: second, effectiveFrom: new Date('2026-03-01'), effectiveTo: null },
+    ]);
+
+    expect(registry.getRulesetForDate(new Date('2026-01-15')).version).toBe('default');
+    expect(registry.getRulesetForDate(new Date('2026-02-15')).version).toBe('2026.1');
+    expect(registry.getRulesetForDate(new Date('2026-04-01')).version).toBe('2026.2');
+  });
+
+  it('should use the code-defined rulesets after a deactivation', () => {
+    const registry = createRegistryWithConfigs([
+      { config: first, effectiveFrom: new Date('2026-02-01'), effectiveTo: new Date('2026-03-01') },
+    ]);
+
+    expect(registry.getRulesetForDate(new Date('2026-04-01')).version).toBe('default');
+    expect(registry.getRuleset('2026.1')).toBeDefined();
+  });
+
+  it('should register every period of a reactivated configuration', () => {
+    const registry = createRegistryWithConfigs([
+      { config: first, effectiveFrom: new Date('2026-02-01'), effectiveTo: new Date('2026-03-01') },
+      {
+        config: second,
+        effectiveFrom: new Date('2026-03-01'),
+        effectiveTo: new Date('2026-04-01'),
+      },
+      { config: first, effectiveFrom: new Date('2026-04-01'), effectiveTo: null },
+    ]);
+
+    expect(registry.getRulesetForDate(new Date('2026-02-15')).version).toBe('2026.1');
+    expect(registry.getRulesetForDate(new Date('2026-05-01')).version).toBe('2026.1');
+    expect(registry.getEngine('2026.1').config.BASE_VALUE.MAX_BASE_VALUE).toBe(64);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { encryptSecret, decryptSecret } from '../../src/utils/secrets.js';
+
+describe('Secret utilities', () => {
+  it('should decrypt what it encrypted', () => {
+    const encrypted = encryptSecret('matchplay-token', 'key');
+
+    expect(encrypted).not.toContain('matchplay-token');
+    expect(decryptSecret(encrypted, 'key')).toBe('matchplay-token');
+  });
+
+  it('should encrypt the same secret differently each time', () => {
+    expect(encryptSecret('matchplay-token', 'key')).not.toBe(
+      encryptSecret('matchplay-token', 'key')
+    );
+  });
+
+  it('should reject another key or an altered secret', () => {
+    const encrypted = encryptSecret('matchplay-token', 'key');
+    const [iv, authTag] = encrypted.split('.');
+
+    expect(() => decryptSecret(encrypted, 'other-key')).toThrow();
+    expect(() => decryptSecret(`${iv}.${authTag}.AAAA`, 'key')).toThrow();
+    expect(() => decryptSecret('not-encrypted', 'key')).toThrow('Invalid encrypted secret');
+  });
+});
@@ -1,5 +1,5 @@
 import { getConfig } from './config.js';
-import type { Player } from './types.js';
+import type { Player, CalculationTrace } from './types.js';
 
 /**
  * Calculates the base value for a tournament
@@ -21,15 +21,47 @@ import type { Player } from './types.js';
  * ```
  */
 export function calculateBaseValue(players: Player[]): number {
+  return explainBaseValue(players).value;
+}
+
+/**
+ * Explains how the base value for a tournament was calculated
+ *
+ * @param players - Array of players participating in the tournament
+ * @returns Base value with the rated player count and any cap applied
+ *
+ * @example
+ * ```typescript
+ * const trace = explainBaseValue(players);
+ * trace.steps.forEach((step) => console.log(step.description, step.value));
+ * ```
+ */
+export function explainBaseValue(players: Player[]): CalculationTrace {
   const config = getConfig();
   // Count only rated players
-  const ratedPlayerCount = players.filter((player) => player.isRated).length;
+  const ratedPlayerCount = countRatedPlayers(players);
 
   // Calculate base value: 0.5 per rated player
   const baseValue = ratedPlayerCount * config.BASE_VALUE.POINTS_PER_PLAYER;
 
   // Cap at maximum base value (32 points for 64+ players)
-  return Math.min(baseValue, config.BASE_VALUE.MAX_BASE_VALUE);
+  const value = Math.min(baseValue, config.BASE_VALUE.MAX_BASE_VALUE);
+  const capped = value < baseValue;
+
+  const steps = [
+    {
+      description: `${ratedPlayerCount} of ${players.length} players are rated × ${config.BASE_VALUE.POINTS_PER_PLAYER} points per rated player`,
+      value: baseValue,
+    },
+  ];
+  if (capped) {
+    steps.push({
+      description: `Capped at maximum base value of ${config.BASE_VALUE.MAX_BASE_VALUE}`,
+      value,
+    });
+  }
+
+  return { value, steps, capped };
 }
 
 /**
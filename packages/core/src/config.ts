@@ -53,6 +53,11 @@ let userConfig: PartialOPPRConfig = {};
  */
 let mergedConfig: OPPRConfig | null = null;
 
+/**
+ * Configuration of the engine currently executing a calculation, if any
+ */
+let scopedConfig: OPPRConfig | null = null;
+
 /**
  * Deep merge utility function
  * Merges source into target, creating new objects as needed
@@ -136,6 +141,11 @@ export function resetConfig(): void {
  * @internal
  */
 export function getConfig(): OPPRConfig {
+  // Calculations run by an engine use that engine's configuration
+  if (scopedConfig) {
+    return scopedConfig;
+  }
+
   // Return cached config if available
   if (mergedConfig) {
     return mergedConfig;
@@ -146,6 +156,52 @@ export function getConfig(): OPPRConfig {
   return mergedConfig;
 }
 
+/**
+ * Resolve a complete, immutable configuration from partial overrides
+ * Unlike configureOPPR(), this does not change the global configuration
+ *
+ * @param config - Partial configuration with values to override
+ * @returns Frozen configuration with defaults for all other values
+ * @internal
+ */
+export function resolveConfig(config: PartialOPPRConfig = {}): OPPRConfig {
+  return freezeDeep(deepMerge(DEFAULT_CONSTANTS, config));
+}
+
+/**
+ * Run a synchronous calculation with the given configuration in effect
+ * Every getConfig() call made while `fn` runs returns `config`
+ *
+ * @param config - Configuration to use for the calculation
+ * @param fn - Calculation to run
+ * @returns Result of the calculation
+ * @internal
+ */
+export function runWithConfig<T>(config: OPPRConfig, fn: () => T): T {
+  const previous = scopedConfig;
+  scopedConfig = config;
+  try {
+    return fn();
+  } finally {
+    scopedConfig = previous;
+  }
+}
+
+/**
+ * Deep copy and freeze a configuration object
+ */
+function freezeDeep<T>(value: T): T {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const copy = Array.isArray(value)
+    ? value.map((item: unknown) => freezeDeep(item))
+    : Object.fromEntries(Object.entries(value).map(([key, item]) => [key, freezeDeep(item)]));
+
+  return Object.freeze(copy) as T;
+}
+
 /**
  * Get the default configuration (without user overrides)
  * Useful for reference or resetting specific values
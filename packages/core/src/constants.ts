@@ -138,6 +138,8 @@ const POINT_DISTRIBUTION = {
  * Time Decay Constants
  */
 const TIME_DECAY = {
+  /** Decay curve used by getDecayMultiplier */
+  CURVE: 'stepped' as const,
   /** Points worth 100% of value (0-1 years) */
   YEAR_0_TO_1: 1.0,
   /** Points worth 75% of value (1-2 years) */
@@ -146,6 +148,16 @@ const TIME_DECAY = {
   YEAR_2_TO_3: 0.5,
   /** Points worth 0% of value (3+ years) */
   YEAR_3_PLUS: 0.0,
+  /** Age in years at which events are fully decayed (linear and exponential curves) */
+  MAX_AGE_YEARS: 3,
+  /** Years for points to lose half their value (exponential curve) */
+  HALF_LIFE_YEARS: 1,
+  /** Breakpoints of the custom curve in ascending age; younger events keep full value */
+  BREAKPOINTS: [
+    { AGE_YEARS: 1, MULTIPLIER: 0.75 },
+    { AGE_YEARS: 2, MULTIPLIER: 0.5 },
+    { AGE_YEARS: 3, MULTIPLIER: 0 },
+  ],
   /** Days in a year for calculations */
   DAYS_PER_YEAR: 365,
 };
@@ -172,10 +184,23 @@ const RATING = {
   MAX_RD: 200,
   /** RD decay rate per day */
   RD_DECAY_PER_DAY: 0.3,
+  /** Days without an event before RD decays for the whole inactive period */
+  RD_DECAY_THRESHOLD_DAYS: 30,
   /** Number of players above/below used for rating calculation */
   OPPONENTS_RANGE: 32,
   /** Glicko system constant (q value) */
   Q: Math.LN10 / 400,
+  /** Rating system used by updateRating */
+  STRATEGY: 'glicko' as const,
+  /** Glicko-2 system constants */
+  GLICKO2: {
+    /** System constant (tau) constraining volatility changes */
+    TAU: 0.5,
+    /** Volatility of new players */
+    DEFAULT_VOLATILITY: 0.06,
+    /** Convergence tolerance of the volatility iteration */
+    CONVERGENCE_TOLERANCE: 0.000001,
+  },
 };
 
 /**
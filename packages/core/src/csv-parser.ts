@@ -23,13 +23,92 @@ export interface ParsedPlayer {
   name: string;
 }
 
+/**
+ * Column of a results CSV
+ */
+export type ResultsCSVColumn =
+  | 'position'
+  | 'name'
+  | 'playerNumber'
+  | 'externalId'
+  | 'optedOut'
+  | 'isFinals'
+  | 'email';
+
+/**
+ * Where each column of a results CSV is found: a header name (matched ignoring
+ * case, spaces and punctuation) or a zero-based column index
+ */
+export type ResultsCSVColumnMapping = Partial<Record<ResultsCSVColumn, string | number>>;
+
+/**
+ * Options for parsing results CSV data
+ */
+export interface ParseResultsCSVOptions {
+  /** Field delimiter (default: tab when the first line contains one, otherwise comma) */
+  delimiter?: ',' | '\t' | ';';
+  /** Whether the first line is a header (default: detected from its column names) */
+  hasHeader?: boolean;
+  /** Columns to read, overriding the ones detected from the header */
+  columns?: ResultsCSVColumnMapping;
+}
+
+/**
+ * One row of tournament results parsed from CSV
+ */
+export interface ParsedResultRow {
+  /** Line of the row in the CSV text (1-based) */
+  line: number;
+  /** Finishing position; tied players share a position */
+  position: number;
+  name?: string;
+  playerNumber?: number;
+  externalId?: string;
+  /** Email address, used to find the player through their user account */
+  email?: string;
+  optedOut: boolean;
+  /** Whether the row is a finals standing rather than a qualifying one */
+  isFinals: boolean;
+}
+
+/**
+ * Header names recognized for each results column, normalized to lowercase
+ * letters and digits
+ */
+const RESULTS_CSV_HEADERS: Record<ResultsCSVColumn, string[]> = {
+  position: ['position', 'pos', 'place', 'rank', 'finish', 'standing'],
+  name: ['name', 'player', 'playername'],
+  playerNumber: ['playernumber', 'playerno', 'playernum', 'number', 'opprnumber'],
+  externalId: ['externalid', 'extid', 'playerid', 'id'],
+  optedOut: ['optedout', 'optout'],
+  isFinals: ['isfinals', 'finals', 'finalist'],
+  email: ['email', 'emailaddress', 'mail'],
+};
+
+/**
+ * Column order of a results CSV without a header
+ */
+const RESULTS_CSV_DEFAULT_ORDER: ResultsCSVColumn[] = [
+  'position',
+  'name',
+  'playerNumber',
+  'externalId',
+  'optedOut',
+  'isFinals',
+  'email',
+];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
 /**
  * Parses a CSV row handling quoted fields and escaped quotes
  *
  * @param row - CSV row string
+ * @param delimiter - Field delimiter
  * @returns Array of field values
  */
-function parseCSVRow(row: string): string[] {
+function parseCSVRow(row: string, delimiter: string = ','): string[] {
   const fields: string[] = [];
   let currentField = '';
   let inQuotes = false;
@@ -47,7 +126,7 @@ function parseCSVRow(row: string): string[] {
         // Toggle quote state
         inQuotes = !inQuotes;
       }
-    } else if (char === ',' && !inQuotes) {
+    } else if (char === delimiter && !inQuotes) {
       // End of field
       fields.push(currentField);
       currentField = '';
@@ -209,3 +288,205 @@ export function parsePlayerCSV(
 
   return parsedPlayers;
 }
+
+/**
+ * Normalizes a header name for matching: lowercase letters and digits only
+ */
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Finds the index of each results column from the header and the mapping
+ */
+function resolveResultsColumns(
+  header: string[] | null,
+  mapping: ResultsCSVColumnMapping
+): Partial<Record<ResultsCSVColumn, number>> {
+  const columns: Partial<Record<ResultsCSVColumn, number>> = {};
+  const headerNames = header?.map(normalizeHeader) ?? null;
+
+  if (headerNames) {
+    for (const column of RESULTS_CSV_DEFAULT_ORDER) {
+      const index = headerNames.findIndex((name) => RESULTS_CSV_HEADERS[column].includes(name));
+      if (index !== -1) {
+        columns[column] = index;
+      }
+    }
+  } else {
+    RESULTS_CSV_DEFAULT_ORDER.forEach((column, index) => {
+      columns[column] = index;
+    });
+  }
+
+  for (const column of RESULTS_CSV_DEFAULT_ORDER) {
+    const target = mapping[column];
+    if (target === undefined) {
+      continue;
+    }
+    if (typeof target === 'number') {
+      if (!Number.isInteger(target) || target < 0) {
+        throw new ValidationError(`Invalid column index for ${column}: ${target}`);
+      }
+      columns[column] = target;
+      continue;
+    }
+    if (!headerNames) {
+      throw new ValidationError(`Column "${target}" for ${column} requires a header row`);
+    }
+    const index = headerNames.indexOf(normalizeHeader(target));
+    if (index === -1) {
+      throw new ValidationError(`Column "${target}" for ${column} not found in header`);
+    }
+    columns[column] = index;
+  }
+
+  return columns;
+}
+
+/**
+ * Parses a yes/no cell such as an opted-out or finals flag
+ */
+function parseFlag(value: string, column: ResultsCSVColumn, lineNumber: number): boolean {
+  const normalized = value.toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) {
+    return true;
+  }
+  if (FALSE_VALUES.includes(normalized)) {
+    return false;
+  }
+  throw new ValidationError(`Line ${lineNumber}: Invalid ${column} value: ${value}`);
+}
+
+/**
+ * Parses tournament results from CSV or TSV format
+ *
+ * The first line is a header when it names any known column (Position, Name,
+ * Player Number, External ID, Opted Out, Finals, Email and common variants),
+ * and columns are then found by name. Without a header the columns are, in
+ * order: position, name, player number, external ID, opted out, finals and
+ * email. The `columns` option maps columns to other header names or to column
+ * indexes.
+ *
+ * Every row needs a name, player number or external ID. Tied players share a
+ * position; without a position column, players are placed in row order.
+ * Flags accept yes/no, true/false, y/n, 1/0 and x, and default to no.
+ *
+ * @param csvText - CSV or TSV text to parse
+ * @param options - Parsing options
+ * @returns Parsed result rows in file order
+ * @throws ValidationError if the CSV is invalid
+ */
+export function parseResultsCSV(
+  csvText: string,
+  options: ParseResultsCSVOptions = {}
+): ParsedResultRow[] {
+  // Keep line numbers while dropping empty lines
+  const lines = csvText
+    .split('\n')
+    .map((text, index) => ({ text: text.replace(/\r$/, ''), lineNumber: index + 1 }))
+    .filter((line) => line.text.trim().length > 0);
+
+  const firstLine = lines[0];
+  if (!firstLine) {
+    throw new ValidationError('CSV data is empty');
+  }
+
+  const delimiter = options.delimiter ?? (firstLine.text.includes('\t') ? '\t' : ',');
+  const mapping = options.columns ?? {};
+  const firstFields = parseCSVRow(firstLine.text, delimiter);
+
+  const knownHeaders = new Set([
+    ...Object.values(RESULTS_CSV_HEADERS).flat(),
+    ...Object.values(mapping)
+      .filter((target): target is string => typeof target === 'string')
+      .map(normalizeHeader),
+  ]);
+  const hasHeader =
+    options.hasHeader ?? firstFields.some((field) => knownHeaders.has(normalizeHeader(field)));
+
+  const columns = resolveResultsColumns(hasHeader ? firstFields : null, mapping);
+  if (
+    columns.name === undefined &&
+    columns.playerNumber === undefined &&
+    columns.externalId === undefined
+  ) {
+    throw new ValidationError('CSV needs a name, player number or external ID column');
+  }
+
+  const dataLines = hasHeader ? lines.slice(1) : lines;
+  if (dataLines.length === 0) {
+    throw new ValidationError('CSV contains no data rows');
+  }
+
+  const rows: ParsedResultRow[] = [];
+  const seenIds = new Set<string>();
+  const rowsPerStage = { qualifying: 0, finals: 0 };
+
+  for (const { text, lineNumber } of dataLines) {
+    const fields = parseCSVRow(text, delimiter);
+    const cell = (column: ResultsCSVColumn): string => {
+      const index = columns[column];
+      return index === undefined ? '' : (fields[index] ?? '').trim();
+    };
+
+    const optedOut = parseFlag(cell('optedOut'), 'optedOut', lineNumber);
+    const isFinals = parseFlag(cell('isFinals'), 'isFinals', lineNumber);
+    const stage = isFinals ? 'finals' : 'qualifying';
+
+    // Without a position column, players are placed in row order within their stage
+    let position = ++rowsPerStage[stage];
+    if (columns.position !== undefined) {
+      const positionStr = cell('position');
+      position = /^\d+$/.test(positionStr) ? parseInt(positionStr, 10) : NaN;
+      if (!(position >= 1)) {
+        throw new ValidationError(`Line ${lineNumber}: Invalid position: ${positionStr}`);
+      }
+    }
+
+    const name = cell('name') || undefined;
+    const externalId = cell('externalId') || undefined;
+    const email = cell('email') || undefined;
+    const playerNumberStr = cell('playerNumber');
+    let playerNumber: number | undefined;
+    if (playerNumberStr) {
+      if (!/^\d+$/.test(playerNumberStr)) {
+        throw new ValidationError(`Line ${lineNumber}: Invalid player number: ${playerNumberStr}`);
+      }
+      playerNumber = parseInt(playerNumberStr, 10);
+    }
+
+    if (!name && playerNumber === undefined && !externalId) {
+      throw new ValidationError(
+        `Line ${lineNumber}: Name, player number or external ID is required`
+      );
+    }
+
+    // The same player may appear once in qualifying and once in finals
+    const ids = [
+      playerNumber !== undefined ? `player number: ${playerNumber}` : null,
+      externalId ? `external ID: ${externalId}` : null,
+    ];
+    for (const id of ids) {
+      if (id && seenIds.has(`${stage}:${id}`)) {
+        throw new ValidationError(`Line ${lineNumber}: Duplicate ${id}`);
+      }
+      if (id) {
+        seenIds.add(`${stage}:${id}`);
+      }
+    }
+
+    rows.push({
+      line: lineNumber,
+      position,
+      name,
+      playerNumber,
+      externalId,
+      email,
+      optedOut,
+      isFinals,
+    });
+  }
+
+  return rows;
+}
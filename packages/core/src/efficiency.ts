@@ -25,7 +25,7 @@ export function calculateEventEfficiency(pointsEarned: number, firstPlaceValue:
  *
  * Overall Efficiency = (Total Points Earned / Total First Place Values) * 100
  *
- * Only active events (< 3 years old) are included in the calculation
+ * Only active events (decay multiplier above 0) are included in the calculation
  *
  * @param events - Array of player events with points and values
  * @returns Overall efficiency percentage (0 to 100)
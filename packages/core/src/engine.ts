@@ -0,0 +1,327 @@
+/**
+ * Instance-scoped OPPR engine
+ * Binds every calculator to an immutable configuration
+ */
+
+import { resolveConfig, runWithConfig, type OPPRConfig, type PartialOPPRConfig } from './config.js';
+import {
+  calculateBaseValue,
+  explainBaseValue,
+  countRatedPlayers,
+  isPlayerRated,
+} from './base-value.js';
+import {
+  calculatePlayerRatingContribution,
+  calculateRatingTVA,
+  explainRatingTVA,
+  ratingContributesToTVA,
+  getTopRatedPlayers,
+} from './tva-rating.js';
+import {
+  calculatePlayerRankingContribution,
+  calculateRankingTVA,
+  explainRankingTVA,
+  getTopRankedPlayers,
+  calculateTotalTVA,
+} from './tva-ranking.js';
+import {
+  calculateQualifyingTGP,
+  calculateFinalsTGP,
+  calculateTGP,
+  explainQualifyingTGP,
+  explainFinalsTGP,
+  explainTGP,
+  calculateUnlimitedCardTGP,
+  calculateFlipFrenzyTGP,
+  validateFinalsEligibility,
+} from './tgp.js';
+import {
+  getEventBoosterMultiplier,
+  explainEventBooster,
+  qualifiesForCertified,
+  qualifiesForCertifiedPlus,
+  determineEventBooster,
+  applyEventBooster,
+} from './event-boosters.js';
+import {
+  calculateLinearPoints,
+  calculateDynamicPoints,
+  calculatePlayerPoints,
+  groupTiedResults,
+  distributePoints,
+  explainPointDistribution,
+  getPointsForPosition,
+  calculatePositionPercentage,
+} from './point-distribution.js';
+import {
+  calculateDaysBetween,
+  calculateEventAge,
+  getDecayMultiplier,
+  calculateDecayMultiplier,
+  applyTimeDecay,
+  isEventActive,
+  filterActiveEvents,
+  getEventDecayInfo,
+} from './time-decay.js';
+import {
+  updateRating,
+  updateGlickoRating,
+  applyRDDecay,
+  applyInactivityRDDecay,
+  simulateTournamentMatches,
+  simulateGameMatches,
+  createNewPlayerRating,
+  isProvisionalRating,
+} from './rating.js';
+import { updateGlicko2Rating } from './glicko2.js';
+import {
+  calculateTournamentValue,
+  evaluateTournament,
+  explainTournament,
+} from './tournament-evaluation.js';
+import {
+  calculateRankingPoints,
+  getTopEventPoints,
+  calculateWorldRankings,
+} from './world-ranking.js';
+import { buildPlayerProfile } from './player-profile.js';
+import {
+  calculateEventEfficiency,
+  calculateOverallEfficiency,
+  calculateTopNEfficiency,
+  calculateDecayedEfficiency,
+  analyzeEfficiencyTrend,
+  getEfficiencyStats,
+} from './efficiency.js';
+import {
+  validateMinimumPlayers,
+  validatePrivateTournament,
+  validatePlayer,
+  validatePlayers,
+  validateTGPConfig,
+  validateTournament,
+  validatePlayerResults,
+  validateFinalsRequirements,
+  validateDateNotFuture,
+  validatePercentage,
+} from './validators.js';
+import { parsePlayerCSV } from './csv-parser.js';
+import { replayHistory } from './replay.js';
+
+/**
+ * Every configurable calculator, as exported by the package
+ */
+const calculators = {
+  calculateBaseValue,
+  explainBaseValue,
+  countRatedPlayers,
+  isPlayerRated,
+  calculatePlayerRatingContribution,
+  calculateRatingTVA,
+  explainRatingTVA,
+  ratingContributesToTVA,
+  getTopRatedPlayers,
+  calculatePlayerRankingContribution,
+  calculateRankingTVA,
+  explainRankingTVA,
+  getTopRankedPlayers,
+  calculateTotalTVA,
+  calculateQualifyingTGP,
+  calculateFinalsTGP,
+  calculateTGP,
+  explainQualifyingTGP,
+  explainFinalsTGP,
+  explainTGP,
+  calculateUnlimitedCardTGP,
+  calculateFlipFrenzyTGP,
+  validateFinalsEligibility,
+  getEventBoosterMultiplier,
+  explainEventBooster,
+  qualifiesForCertified,
+  qualifiesForCertifiedPlus,
+  determineEventBooster,
+  applyEventBooster,
+  calculateLinearPoints,
+  calculateDynamicPoints,
+  calculatePlayerPoints,
+  groupTiedResults,
+  distributePoints,
+  explainPointDistribution,
+  getPointsForPosition,
+  calculatePositionPercentage,
+  calculateDaysBetween,
+  calculateEventAge,
+  getDecayMultiplier,
+  calculateDecayMultiplier,
+  applyTimeDecay,
+  isEventActive,
+  filterActiveEvents,
+  getEventDecayInfo,
+  updateRating,
+  updateGlickoRating,
+  updateGlicko2Rating,
+  applyRDDecay,
+  applyInactivityRDDecay,
+  simulateTournamentMatches,
+  simulateGameMatches,
+  createNewPlayerRating,
+  isProvisionalRating,
+  calculateTournamentValue,
+  evaluateTournament,
+  explainTournament,
+  calculateRankingPoints,
+  getTopEventPoints,
+  calculateWorldRankings,
+  buildPlayerProfile,
+  calculateEventEfficiency,
+  calculateOverallEfficiency,
+  calculateTopNEfficiency,
+  calculateDecayedEfficiency,
+  analyzeEfficiencyTrend,
+  getEfficiencyStats,
+  validateMinimumPlayers,
+  validatePrivateTournament,
+  validatePlayer,
+  validatePlayers,
+  validateTGPConfig,
+  validateTournament,
+  validatePlayerResults,
+  validateFinalsRequirements,
+  validateDateNotFuture,
+  validatePercentage,
+  parsePlayerCSV,
+  replayHistory,
+};
+
+/**
+ * Calculators available on an OPPR engine. They are all synchronous: an
+ * engine makes its configuration current for the duration of each call.
+ */
+export type OPPRCalculators = typeof calculators;
+
+/**
+ * An OPPR engine: all calculators bound to one immutable configuration
+ */
+export interface OPPREngine extends OPPRCalculators {
+  /** Frozen configuration used by every calculator of this engine */
+  readonly config: Readonly<OPPRConfig>;
+}
+
+/**
+ * Creates an OPPR engine with its own configuration
+ *
+ * The engine's calculators always use the configuration given here. They are
+ * unaffected by configureOPPR() and resetConfig(), and engines with different
+ * configurations can be used side by side (e.g. one per ruleset).
+ *
+ * The package-level functions behave like a default engine whose
+ * configuration is set with configureOPPR().
+ *
+ * @param config - Partial configuration; unspecified values use defaults
+ * @returns Engine exposing every calculator bound to the configuration
+ *
+ * @example
+ * ```typescript
+ * import { createOPPREngine } from '@opprs/core';
+ *
+ * const standard = createOPPREngine();
+ * const generous = createOPPREngine({ BASE_VALUE: { POINTS_PER_PLAYER: 1.0 } });
+ *
+ * standard.calculateBaseValue(players); // 0.5 per rated player
+ * generous.calculateBaseValue(players); // 1.0 per rated player
+ * ```
+ */
+export function createOPPREngine(config: PartialOPPRConfig = {}): OPPREngine {
+  const resolved = resolveConfig(config);
+
+  // Calculators are synchronous, so the configuration is in effect for the
+  // whole of each call and restored before any other code runs
+  const bind =
+    <Args extends unknown[], Result>(calculator: (...args: Args) => Result) =>
+    (...args: Args): Result =>
+      runWithConfig(resolved, () => calculator(...args));
+
+  const bound: OPPRCalculators = {
+    calculateBaseValue: bind(calculators.calculateBaseValue),
+    explainBaseValue: bind(calculators.explainBaseValue),
+    countRatedPlayers: bind(calculators.countRatedPlayers),
+    isPlayerRated: bind(calculators.isPlayerRated),
+    calculatePlayerRatingContribution: bind(calculators.calculatePlayerRatingContribution),
+    calculateRatingTVA: bind(calculators.calculateRatingTVA),
+    explainRatingTVA: bind(calculators.explainRatingTVA),
+    ratingContributesToTVA: bind(calculators.ratingContributesToTVA),
+    getTopRatedPlayers: bind(calculators.getTopRatedPlayers),
+    calculatePlayerRankingContribution: bind(calculators.calculatePlayerRankingContribution),
+    calculateRankingTVA: bind(calculators.calculateRankingTVA),
+    explainRankingTVA: bind(calculators.explainRankingTVA),
+    getTopRankedPlayers: bind(calculators.getTopRankedPlayers),
+    calculateTotalTVA: bind(calculators.calculateTotalTVA),
+    calculateQualifyingTGP: bind(calculators.calculateQualifyingTGP),
+    calculateFinalsTGP: bind(calculators.calculateFinalsTGP),
+    calculateTGP: bind(calculators.calculateTGP),
+    explainQualifyingTGP: bind(calculators.explainQualifyingTGP),
+    explainFinalsTGP: bind(calculators.explainFinalsTGP),
+    explainTGP: bind(calculators.explainTGP),
+    calculateUnlimitedCardTGP: bind(calculators.calculateUnlimitedCardTGP),
+    calculateFlipFrenzyTGP: bind(calculators.calculateFlipFrenzyTGP),
+    validateFinalsEligibility: bind(calculators.validateFinalsEligibility),
+    getEventBoosterMultiplier: bind(calculators.getEventBoosterMultiplier),
+    explainEventBooster: bind(calculators.explainEventBooster),
+    qualifiesForCertified: bind(calculators.qualifiesForCertified),
+    qualifiesForCertifiedPlus: bind(calculators.qualifiesForCertifiedPlus),
+    determineEventBooster: bind(calculators.determineEventBooster),
+    applyEventBooster: bind(calculators.applyEventBooster),
+    calculateLinearPoints: bind(calculators.calculateLinearPoints),
+    calculateDynamicPoints: bind(calculators.calculateDynamicPoints),
+    calculatePlayerPoints: bind(calculators.calculatePlayerPoints),
+    groupTiedResults: bind(calculators.groupTiedResults),
+    distributePoints: bind(calculators.distributePoints),
+    explainPointDistribution: bind(calculators.explainPointDistribution),
+    getPointsForPosition: bind(calculators.getPointsForPosition),
+    calculatePositionPercentage: bind(calculators.calculatePositionPercentage),
+    calculateDaysBetween: bind(calculators.calculateDaysBetween),
+    calculateEventAge: bind(calculators.calculateEventAge),
+    getDecayMultiplier: bind(calculators.getDecayMultiplier),
+    calculateDecayMultiplier: bind(calculators.calculateDecayMultiplier),
+    applyTimeDecay: bind(calculators.applyTimeDecay),
+    isEventActive: bind(calculators.isEventActive),
+    filterActiveEvents: bind(calculators.filterActiveEvents),
+    getEventDecayInfo: bind(calculators.getEventDecayInfo),
+    updateRating: bind(calculators.updateRating),
+    updateGlickoRating: bind(calculators.updateGlickoRating),
+    updateGlicko2Rating: bind(calculators.updateGlicko2Rating),
+    applyRDDecay: bind(calculators.applyRDDecay),
+    applyInactivityRDDecay: bind(calculators.applyInactivityRDDecay),
+    simulateTournamentMatches: bind(calculators.simulateTournamentMatches),
+    simulateGameMatches: bind(calculators.simulateGameMatches),
+    createNewPlayerRating: bind(calculators.createNewPlayerRating),
+    isProvisionalRating: bind(calculators.isProvisionalRating),
+    calculateTournamentValue: bind(calculators.calculateTournamentValue),
+    evaluateTournament: bind(calculators.evaluateTournament),
+    explainTournament: bind(calculators.explainTournament),
+    calculateRankingPoints: bind(calculators.calculateRankingPoints),
+    getTopEventPoints: bind(calculators.getTopEventPoints),
+    calculateWorldRankings: bind(calculators.calculateWorldRankings),
+    buildPlayerProfile: bind(calculators.buildPlayerProfile),
+    calculateEventEfficiency: bind(calculators.calculateEventEfficiency),
+    calculateOverallEfficiency: bind(calculators.calculateOverallEfficiency),
+    calculateTopNEfficiency: bind(calculators.calculateTopNEfficiency),
+    calculateDecayedEfficiency: bind(calculators.calculateDecayedEfficiency),
+    analyzeEfficiencyTrend: bind(calculators.analyzeEfficiencyTrend),
+    getEfficiencyStats: bind(calculators.getEfficiencyStats),
+    validateMinimumPlayers: bind(calculators.validateMinimumPlayers),
+    validatePrivateTournament: bind(calculators.validatePrivateTournament),
+    validatePlayer: bind(calculators.validatePlayer),
+    validatePlayers: bind(calculators.validatePlayers),
+    validateTGPConfig: bind(calculators.validateTGPConfig),
+    validateTournament: bind(calculators.validateTournament),
+    validatePlayerResults: bind(calculators.validatePlayerResults),
+    validateFinalsRequirements: bind(calculators.validateFinalsRequirements),
+    validateDateNotFuture: bind(calculators.validateDateNotFuture),
+    validatePercentage: bind(calculators.validatePercentage),
+    parsePlayerCSV: bind(calculators.parsePlayerCSV),
+    replayHistory: bind(calculators.replayHistory),
+  };
+
+  return Object.freeze({ ...bound, config: resolved });
+}
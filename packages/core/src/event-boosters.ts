@@ -1,5 +1,5 @@
 import { getConfig } from './config.js';
-import type { EventBoosterType } from './types.js';
+import type { EventBoosterType, CalculationTrace } from './types.js';
 
 /**
  * Gets the event booster multiplier for a given event type
@@ -39,6 +39,21 @@ export function getEventBoosterMultiplier(boosterType: EventBoosterType): number
   }
 }
 
+/**
+ * Explains which event booster multiplier was applied
+ *
+ * @param boosterType - Type of event booster
+ * @returns Booster multiplier with a description of the booster type
+ */
+export function explainEventBooster(boosterType: EventBoosterType): CalculationTrace {
+  const value = getEventBoosterMultiplier(boosterType);
+  return {
+    value,
+    steps: [{ description: `Event booster: ${boosterType}`, value }],
+    capped: false,
+  };
+}
+
 /**
  * Validates if an event qualifies for Certified status (125% booster)
  *
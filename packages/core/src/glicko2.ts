@@ -0,0 +1,174 @@
+/**
+ * Glicko-2 rating system
+ * Extends Glicko with a per-player volatility measuring how erratic results are
+ * See http://www.glicko.net/glicko/glicko2.pdf
+ */
+
+import { getConfig } from './config.js';
+import type { RatingUpdate, RatingResult } from './types.js';
+
+/**
+ * Calculates the g(φ) function on the Glicko-2 scale
+ *
+ * g(φ) = 1 / sqrt(1 + 3φ² / π²)
+ *
+ * @param phi - Opponent's rating deviation on the Glicko-2 scale
+ * @returns g(φ) value
+ */
+function calculateG(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+/**
+ * Calculates the expected score E(μ, μj, φj)
+ *
+ * E = 1 / (1 + exp(-g(φj) * (μ - μj)))
+ *
+ * @param mu - Player's rating on the Glicko-2 scale
+ * @param opponentMu - Opponent's rating on the Glicko-2 scale
+ * @param opponentPhi - Opponent's rating deviation on the Glicko-2 scale
+ * @returns Expected score (0 to 1)
+ */
+function calculateExpectedScore(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-calculateG(opponentPhi) * (mu - opponentMu)));
+}
+
+/**
+ * Calculates the new volatility σ' with the Illinois algorithm (step 5 of the paper)
+ *
+ * @param phi - Player's rating deviation on the Glicko-2 scale
+ * @param volatility - Player's current volatility
+ * @param variance - Estimated variance v of the player's rating from game outcomes
+ * @param delta - Estimated improvement Δ in rating
+ * @returns New volatility
+ */
+function calculateNewVolatility(
+  phi: number,
+  volatility: number,
+  variance: number,
+  delta: number
+): number {
+  const { TAU, CONVERGENCE_TOLERANCE } = getConfig().RATING.GLICKO2;
+  const tauSquared = TAU * TAU;
+  const phiSquared = phi * phi;
+  const deltaSquared = delta * delta;
+  const a = Math.log(volatility * volatility);
+
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denominator = phiSquared + variance + ex;
+    return (
+      (ex * (deltaSquared - phiSquared - variance - ex)) / (2 * denominator * denominator) -
+      (x - a) / tauSquared
+    );
+  };
+
+  let lower = a;
+  let upper: number;
+  if (deltaSquared > phiSquared + variance) {
+    upper = Math.log(deltaSquared - phiSquared - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) {
+      k++;
+    }
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower = fLower / 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+
+  return Math.exp(lower / 2);
+}
+
+/**
+ * Updates a player's rating using the Glicko-2 system
+ *
+ * Like Glicko, each simulated match counts as a game in a single rating
+ * period. Glicko-2 also tracks a volatility per player: players whose results
+ * are more surprising than their rating deviation suggests get a higher
+ * volatility, so their ratings move faster in later events. RATING.GLICKO2.TAU
+ * constrains how quickly volatility can change.
+ *
+ * Ratings and deviations are converted to the Glicko-2 scale using the Glicko
+ * system constant (1/q ≈ 173.7178), so they are interchangeable with Glicko-1
+ * values and respect the same RD limits.
+ *
+ * @param update - Rating update parameters, including the player's current volatility
+ * @returns New rating, RD and volatility values
+ *
+ * @example
+ * ```typescript
+ * const result = updateGlicko2Rating({
+ *   currentRating: 1500,
+ *   currentRD: 200,
+ *   currentVolatility: 0.06,
+ *   results: [
+ *     { opponentRating: 1400, opponentRD: 30, score: 1 },
+ *     { opponentRating: 1550, opponentRD: 100, score: 0 },
+ *     { opponentRating: 1700, opponentRD: 300, score: 0 },
+ *   ],
+ * });
+ * // result ≈ { newRating: 1464.05, newRD: 151.52, newVolatility: 0.06 }
+ * ```
+ */
+export function updateGlicko2Rating(update: RatingUpdate): RatingResult {
+  const config = getConfig();
+  const { currentRating, currentRD, results } = update;
+  const volatility = update.currentVolatility ?? config.RATING.GLICKO2.DEFAULT_VOLATILITY;
+
+  // If no results, return current values (no change)
+  if (results.length === 0) {
+    return {
+      newRating: currentRating,
+      newRD: currentRD,
+      newVolatility: volatility,
+    };
+  }
+
+  // Convert to the Glicko-2 scale
+  const scale = 1 / config.RATING.Q;
+  const mu = (currentRating - config.RATING.DEFAULT_RATING) / scale;
+  const phi = currentRD / scale;
+
+  let varianceSum = 0;
+  let improvementSum = 0;
+  for (const result of results) {
+    const opponentMu = (result.opponentRating - config.RATING.DEFAULT_RATING) / scale;
+    const opponentPhi = result.opponentRD / scale;
+    const g = calculateG(opponentPhi);
+    const e = calculateExpectedScore(mu, opponentMu, opponentPhi);
+    varianceSum += g * g * e * (1 - e);
+    improvementSum += g * (result.score - e);
+  }
+
+  const variance = 1 / varianceSum;
+  const delta = variance * improvementSum;
+  const newVolatility = calculateNewVolatility(phi, volatility, variance, delta);
+
+  // Pre-rating period deviation, then the updated rating and deviation
+  const phiStar = Math.sqrt(phi * phi + newVolatility * newVolatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvementSum;
+
+  const newRating = newMu * scale + config.RATING.DEFAULT_RATING;
+  const newRD = newPhi * scale;
+
+  return {
+    newRating: Math.round(newRating * 100) / 100, // Round to 2 decimal places
+    newRD: Math.max(config.RATING.MIN_RD, Math.min(newRD, config.RATING.MAX_RD)),
+    newVolatility,
+  };
+}
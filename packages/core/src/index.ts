@@ -15,18 +15,43 @@ export type {
   EventBoosterType,
   TGPConfig,
   PlayerResult,
+  TieGroup,
+  GameResult,
   TournamentValue,
   PointDistribution,
   TournamentResult,
+  TraceStep,
+  CalculationTrace,
+  TVAContribution,
+  TVATrace,
+  TGPMultiplier,
+  TGPComponentTrace,
+  TGPTrace,
+  PointDistributionTrace,
+  TournamentTrace,
   PlayerEvent,
   PlayerProfile,
+  RankingCandidate,
+  WorldRankingEntry,
   RatingUpdate,
   RatingResult,
+  RatingStrategy,
+  RatingStrategyName,
   DecayConfig,
+  DecayCurve,
+  DecayCurveName,
+  DecayBreakpoint,
 } from './types.js';
 
 // Export CSV parser types
-export type { ParsePlayerCSVOptions, ParsedPlayer } from './csv-parser.js';
+export type {
+  ParsePlayerCSVOptions,
+  ParsedPlayer,
+  ParseResultsCSVOptions,
+  ParsedResultRow,
+  ResultsCSVColumn,
+  ResultsCSVColumnMapping,
+} from './csv-parser.js';
 
 // Export default constants for reference
 export { DEFAULT_CONSTANTS } from './constants.js';
@@ -40,13 +65,31 @@ export {
   type PartialOPPRConfig,
 } from './config.js';
 
+// Export engine factory and types
+export { createOPPREngine, type OPPREngine, type OPPRCalculators } from './engine.js';
+
+// Export ruleset registry
+export {
+  createRulesetRegistry,
+  DEFAULT_RULESET,
+  type Ruleset,
+  type RulesetRegistry,
+  type RulesetTournamentResult,
+} from './rulesets.js';
+
 // Export base value functions
-export { calculateBaseValue, countRatedPlayers, isPlayerRated } from './base-value.js';
+export {
+  calculateBaseValue,
+  explainBaseValue,
+  countRatedPlayers,
+  isPlayerRated,
+} from './base-value.js';
 
 // Export TVA rating functions
 export {
   calculatePlayerRatingContribution,
   calculateRatingTVA,
+  explainRatingTVA,
   ratingContributesToTVA,
   getTopRatedPlayers,
 } from './tva-rating.js';
@@ -55,6 +98,7 @@ export {
 export {
   calculatePlayerRankingContribution,
   calculateRankingTVA,
+  explainRankingTVA,
   getTopRankedPlayers,
   calculateTotalTVA,
 } from './tva-ranking.js';
@@ -64,6 +108,9 @@ export {
   calculateQualifyingTGP,
   calculateFinalsTGP,
   calculateTGP,
+  explainQualifyingTGP,
+  explainFinalsTGP,
+  explainTGP,
   calculateUnlimitedCardTGP,
   calculateFlipFrenzyTGP,
   validateFinalsEligibility,
@@ -72,6 +119,7 @@ export {
 // Export event booster functions
 export {
   getEventBoosterMultiplier,
+  explainEventBooster,
   qualifiesForCertified,
   qualifiesForCertifiedPlus,
   determineEventBooster,
@@ -83,7 +131,9 @@ export {
   calculateLinearPoints,
   calculateDynamicPoints,
   calculatePlayerPoints,
+  groupTiedResults,
   distributePoints,
+  explainPointDistribution,
   getPointsForPosition,
   calculatePositionPercentage,
 } from './point-distribution.js';
@@ -93,6 +143,8 @@ export {
   calculateDaysBetween,
   calculateEventAge,
   getDecayMultiplier,
+  getDecayCurve,
+  DECAY_CURVES,
   calculateDecayMultiplier,
   applyTimeDecay,
   isEventActive,
@@ -103,11 +155,53 @@ export {
 // Export rating functions
 export {
   updateRating,
+  updateGlickoRating,
+  getRatingStrategy,
+  RATING_STRATEGIES,
   applyRDDecay,
+  applyInactivityRDDecay,
   simulateTournamentMatches,
+  simulateGameMatches,
   createNewPlayerRating,
   isProvisionalRating,
 } from './rating.js';
+export { updateGlicko2Rating } from './glicko2.js';
+
+// Export tournament evaluation functions
+export {
+  calculateTournamentValue,
+  evaluateTournament,
+  explainTournament,
+  type EvaluateTournamentOptions,
+} from './tournament-evaluation.js';
+
+// Export world ranking functions
+export {
+  calculateRankingPoints,
+  getTopEventPoints,
+  calculateWorldRankings,
+} from './world-ranking.js';
+
+// Export player profile builder
+export {
+  buildPlayerProfile,
+  type PlayerEventInput,
+  type PlayerProfileOptions,
+} from './player-profile.js';
+
+// Export historical replay
+export {
+  replayHistory,
+  type ReplayCalculators,
+  type ReplayStanding,
+  type ReplayTournament,
+  type ReplayedStanding,
+  type ReplayedTournament,
+  type ReplayedPlayer,
+  type ReplayProgress,
+  type HistoricalReplayOptions,
+  type HistoricalReplayResult,
+} from './replay.js';
 
 // Export efficiency functions
 export {
@@ -135,4 +229,4 @@ export {
 } from './validators.js';
 
 // Export CSV parser functions
-export { parsePlayerCSV } from './csv-parser.js';
+export { parsePlayerCSV, parseResultsCSV } from './csv-parser.js';
@@ -0,0 +1,85 @@
+import { getConfig } from './config.js';
+import { calculateDaysBetween, calculateDecayMultiplier } from './time-decay.js';
+import { calculateRankingPoints } from './world-ranking.js';
+import { calculateOverallEfficiency } from './efficiency.js';
+import type { Player, PlayerEvent, PlayerProfile } from './types.js';
+
+/**
+ * A player's result in one tournament, before time decay is applied
+ */
+export interface PlayerEventInput {
+  /** Tournament the result was earned in */
+  tournament: PlayerEvent['tournament'];
+  /** Finishing position */
+  position: number;
+  /** Points earned (before decay) */
+  pointsEarned: number;
+  /** First place value of the tournament */
+  firstPlaceValue: number;
+}
+
+/**
+ * Options for building a player profile
+ */
+export interface PlayerProfileOptions {
+  /** Date that events are decayed to (defaults to now) */
+  referenceDate?: Date;
+}
+
+/**
+ * Builds a player's ranking profile from their tournament results
+ *
+ * Every event is decayed to the reference date; fully decayed events (3+
+ * years old) are dropped. The top 15 events by decayed points count toward
+ * the player's ranking points, the same selection calculateWorldRankings
+ * uses. Efficiency is the overall efficiency of the active events.
+ *
+ * @param player - The player the events belong to
+ * @param events - One result per tournament the player played
+ * @param options - Optional reference date
+ * @returns Player profile with active events (most recent first) and top 15 events (highest decayed points first)
+ *
+ * @example
+ * ```typescript
+ * const profile = buildPlayerProfile(player, [
+ *   { tournament: { id: 't1', name: 'Spring Open', date: new Date('2024-04-01') }, position: 1, pointsEarned: 40, firstPlaceValue: 40 },
+ *   { tournament: { id: 't2', name: 'League Night', date: new Date('2022-03-01') }, position: 4, pointsEarned: 8, firstPlaceValue: 20 },
+ * ], { referenceDate: new Date('2024-06-01') });
+ * // profile.totalPoints === 40 + 8 * 0.5
+ * ```
+ */
+export function buildPlayerProfile(
+  player: Player,
+  events: PlayerEventInput[],
+  options: PlayerProfileOptions = {}
+): PlayerProfile {
+  const config = getConfig();
+  const referenceDate = options.referenceDate ?? new Date();
+
+  const activeEvents: PlayerEvent[] = events
+    .map((event) => {
+      const date = event.tournament.date;
+      const decayMultiplier = calculateDecayMultiplier(date, { referenceDate });
+      return {
+        ...event,
+        date,
+        ageInDays: calculateDaysBetween(date, referenceDate),
+        decayMultiplier,
+        decayedPoints: event.pointsEarned * decayMultiplier,
+      };
+    })
+    .filter((event) => event.decayMultiplier > 0)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const top15Events = [...activeEvents]
+    .sort((a, b) => b.decayedPoints - a.decayedPoints)
+    .slice(0, config.RANKING.TOP_EVENTS_COUNT);
+
+  return {
+    player,
+    events: activeEvents,
+    top15Events,
+    totalPoints: calculateRankingPoints(activeEvents.map((event) => event.decayedPoints)),
+    efficiency: calculateOverallEfficiency(activeEvents),
+  };
+}
@@ -1,5 +1,10 @@
 import { getConfig } from './config.js';
-import type { PointDistribution, PlayerResult } from './types.js';
+import type {
+  PointDistribution,
+  PlayerResult,
+  PointDistributionTrace,
+  TieGroup,
+} from './types.js';
 
 /**
  * Calculates linear distribution points for a single player
@@ -83,9 +88,52 @@ export function calculatePlayerPoints(
   return linear + dynamic;
 }
 
+/**
+ * Groups results into ties by finishing position
+ *
+ * Players sharing a position tie for that position and the positions after it,
+ * one per tied player: two players at position 5 span positions 5-6.
+ *
+ * @param results - Array of player results with finishing positions
+ * @returns Tie groups in position order (groups of one for untied players)
+ *
+ * @example
+ * ```typescript
+ * const groups = groupTiedResults([
+ *   { player: alice, position: 1 },
+ *   { player: bob, position: 2 },
+ *   { player: carol, position: 2 },
+ * ]);
+ * // [{ position: 1, positionEnd: 1, ... }, { position: 2, positionEnd: 3, ... }]
+ * ```
+ */
+export function groupTiedResults(results: PlayerResult[]): TieGroup[] {
+  const byPosition = new Map<number, PlayerResult[]>();
+  for (const result of results) {
+    const group = byPosition.get(result.position);
+    if (group) {
+      group.push(result);
+    } else {
+      byPosition.set(result.position, [result]);
+    }
+  }
+
+  return [...byPosition.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([position, group]) => ({
+      position,
+      positionEnd: position + group.length - 1,
+      results: group,
+    }));
+}
+
 /**
  * Distributes points to all players in a tournament
  *
+ * Tied players share the average of the linear and dynamic points for the
+ * positions their tie spans, so two players tied for 5th each receive the
+ * mean of the 5th and 6th place values.
+ *
  * @param results - Array of player results with finishing positions
  * @param firstPlaceValue - Total value for first place
  * @returns Array of point distributions for each player
@@ -110,14 +158,27 @@ export function distributePoints(
   const totalPlayers = activeResults.length;
   const ratedPlayerCount = activeResults.filter((result) => result.player.isRated).length;
 
-  return activeResults.map((result) => {
-    const linearPoints = calculateLinearPoints(result.position, totalPlayers, firstPlaceValue);
+  // Average points across the positions spanned by each tie
+  const pointsByPosition = new Map<number, { linearPoints: number; dynamicPoints: number }>();
+  for (const { position, positionEnd } of groupTiedResults(activeResults)) {
+    let linearPoints = 0;
+    let dynamicPoints = 0;
+    for (let spanned = position; spanned <= positionEnd; spanned++) {
+      linearPoints += calculateLinearPoints(spanned, totalPlayers, firstPlaceValue);
+      dynamicPoints += calculateDynamicPoints(spanned, ratedPlayerCount, firstPlaceValue);
+    }
+    const span = positionEnd - position + 1;
+    pointsByPosition.set(position, {
+      linearPoints: linearPoints / span,
+      dynamicPoints: dynamicPoints / span,
+    });
+  }
 
-    const dynamicPoints = calculateDynamicPoints(
-      result.position,
-      ratedPlayerCount,
-      firstPlaceValue
-    );
+  return activeResults.map((result) => {
+    const { linearPoints, dynamicPoints } = pointsByPosition.get(result.position) ?? {
+      linearPoints: 0,
+      dynamicPoints: 0,
+    };
 
     return {
       player: result.player,
@@ -129,6 +190,73 @@ export function distributePoints(
   });
 }
 
+/**
+ * Explains how points were distributed across finishing positions
+ *
+ * Describes the linear and dynamic pools, how many positions receive
+ * dynamic points, whether the dynamic range was capped at 64 players and
+ * how many positions were shared by tied players.
+ * Per-player points are returned by distributePoints().
+ *
+ * @param results - Array of player results with finishing positions
+ * @param firstPlaceValue - Total value for first place
+ * @returns Point distribution explanation
+ */
+export function explainPointDistribution(
+  results: PlayerResult[],
+  firstPlaceValue: number
+): PointDistributionTrace {
+  const config = getConfig();
+  const activeResults = results.filter((result) => !result.optedOut);
+
+  const activePlayerCount = activeResults.length;
+  const ratedPlayerCount = activeResults.filter((result) => result.player.isRated).length;
+  const optedOutCount = results.length - activePlayerCount;
+
+  const halfRated = ratedPlayerCount / 2;
+  const dynamicCap = Math.min(halfRated, config.POINT_DISTRIBUTION.MAX_DYNAMIC_PLAYERS);
+  const dynamicPositions = Math.min(Math.ceil(dynamicCap), activePlayerCount);
+  const tiedPositionCount = groupTiedResults(activeResults).filter(
+    (group) => group.results.length > 1
+  ).length;
+
+  const linearPercent = config.POINT_DISTRIBUTION.LINEAR_PERCENTAGE * 100;
+  const dynamicPercent = config.POINT_DISTRIBUTION.DYNAMIC_PERCENTAGE * 100;
+
+  return {
+    activePlayerCount,
+    ratedPlayerCount,
+    optedOutCount,
+    dynamicPositions,
+    tiedPositionCount,
+    steps: [
+      {
+        description: `${activePlayerCount} players receive points (${optedOutCount} opted out)`,
+        value: activePlayerCount,
+      },
+      {
+        description: `Linear pool: ${linearPercent}% of first place value, spread evenly by position`,
+        value: firstPlaceValue * config.POINT_DISTRIBUTION.LINEAR_PERCENTAGE,
+      },
+      {
+        description:
+          halfRated > config.POINT_DISTRIBUTION.MAX_DYNAMIC_PLAYERS
+            ? `Dynamic pool: ${dynamicPercent}% of first place value to the top ${dynamicPositions} positions (capped at ${config.POINT_DISTRIBUTION.MAX_DYNAMIC_PLAYERS})`
+            : `Dynamic pool: ${dynamicPercent}% of first place value to the top ${dynamicPositions} positions (half of ${ratedPlayerCount} rated players)`,
+        value: firstPlaceValue * config.POINT_DISTRIBUTION.DYNAMIC_PERCENTAGE,
+      },
+      ...(tiedPositionCount > 0
+        ? [
+            {
+              description: `${tiedPositionCount} tied positions: tied players share the average points of the positions they span`,
+              value: tiedPositionCount,
+            },
+          ]
+        : []),
+    ],
+  };
+}
+
 /**
  * Gets points awarded to a specific finishing position
  *
@@ -1,5 +1,15 @@
 import { getConfig } from './config.js';
-import type { RatingUpdate, RatingResult, PlayerResult } from './types.js';
+import { updateGlicko2Rating } from './glicko2.js';
+import { ValidationError } from './validators.js';
+import type {
+  RatingUpdate,
+  RatingResult,
+  RatingStrategy,
+  RatingStrategyName,
+  PlayerResult,
+  GameResult,
+  Player,
+} from './types.js';
 
 /**
  * Calculates the g(RD) function used in Glicko rating calculations
@@ -62,7 +72,7 @@ function calculateDSquared(
 }
 
 /**
- * Updates a player's rating using the Glicko system
+ * Updates a player's rating using the Glicko (Glicko-1) system
  *
  * Glicko is a rating system that accounts for rating reliability (RD).
  * Tournament results are simulated as head-to-head matches:
@@ -70,6 +80,8 @@ function calculateDSquared(
  * - Players you tie with = draws (0.5)
  * - Players who finish ahead of you = losses
  *
+ * Volatility is not used by Glicko-1 and is returned unchanged.
+ *
  * @param update - Rating update parameters
  * @returns New rating and RD values
  *
@@ -83,18 +95,20 @@ function calculateDSquared(
  *     { opponentRating: 1550, opponentRD: 90, score: 0 },  // Loss
  *   ]
  * };
- * const newRating = updateRating(update);
+ * const newRating = updateGlickoRating(update);
  * ```
  */
-export function updateRating(update: RatingUpdate): RatingResult {
+export function updateGlickoRating(update: RatingUpdate): RatingResult {
   const config = getConfig();
   const { currentRating, currentRD, results } = update;
+  const newVolatility = update.currentVolatility ?? config.RATING.GLICKO2.DEFAULT_VOLATILITY;
 
   // If no results, return current values (no change)
   if (results.length === 0) {
     return {
       newRating: currentRating,
       newRD: currentRD,
+      newVolatility,
     };
   }
 
@@ -118,9 +132,66 @@ export function updateRating(update: RatingUpdate): RatingResult {
   return {
     newRating: Math.round(newRating * 100) / 100, // Round to 2 decimal places
     newRD: Math.max(config.RATING.MIN_RD, Math.min(newRD, config.RATING.MAX_RD)),
+    newVolatility,
   };
 }
 
+/**
+ * Available rating systems by name
+ */
+export const RATING_STRATEGIES: Readonly<Record<RatingStrategyName, RatingStrategy>> = {
+  glicko: { name: 'glicko', updateRating: updateGlickoRating },
+  glicko2: { name: 'glicko2', updateRating: updateGlicko2Rating },
+};
+
+/**
+ * Gets a rating system by name
+ *
+ * @param name - Rating system name (defaults to the configured RATING.STRATEGY)
+ * @returns The rating strategy
+ * @throws ValidationError if the name is not a known rating system
+ *
+ * @example
+ * ```typescript
+ * const glicko2 = getRatingStrategy('glicko2');
+ * const result = glicko2.updateRating(update);
+ * ```
+ */
+export function getRatingStrategy(
+  name: RatingStrategyName = getConfig().RATING.STRATEGY
+): RatingStrategy {
+  const strategy = Object.hasOwn(RATING_STRATEGIES, name) ? RATING_STRATEGIES[name] : undefined;
+  if (!strategy) {
+    throw new ValidationError(`Unknown rating strategy: ${name}`);
+  }
+  return strategy;
+}
+
+/**
+ * Updates a player's rating using the configured rating system
+ *
+ * Uses Glicko-1 by default; set RATING.STRATEGY to 'glicko2' to use Glicko-2,
+ * which also updates the player's volatility. Tournament results are
+ * simulated as head-to-head matches (see simulateTournamentMatches).
+ *
+ * @param update - Rating update parameters
+ * @returns New rating, RD and volatility values
+ *
+ * @example
+ * ```typescript
+ * configureOPPR({ RATING: { STRATEGY: 'glicko2' } });
+ * const { newRating, newRD, newVolatility } = updateRating({
+ *   currentRating: 1500,
+ *   currentRD: 100,
+ *   currentVolatility: 0.06,
+ *   results: [{ opponentRating: 1600, opponentRD: 80, score: 1 }],
+ * });
+ * ```
+ */
+export function updateRating(update: RatingUpdate): RatingResult {
+  return getRatingStrategy().updateRating(update);
+}
+
 /**
  * Applies RD decay for inactive players
  *
@@ -136,6 +207,24 @@ export function applyRDDecay(currentRD: number, daysSinceLastEvent: number): num
   return Math.min(newRD, config.RATING.MAX_RD);
 }
 
+/**
+ * Applies RD decay once a player has been inactive for more than
+ * RD_DECAY_THRESHOLD_DAYS, as the scheduled decay of inactive players does
+ *
+ * Shorter gaps leave RD unchanged; longer ones decay it for every day since
+ * the last event (see applyRDDecay).
+ *
+ * @param currentRD - Current rating deviation
+ * @param daysSinceLastEvent - Number of days since last event
+ * @returns New RD value after decay
+ */
+export function applyInactivityRDDecay(currentRD: number, daysSinceLastEvent: number): number {
+  const config = getConfig();
+  return daysSinceLastEvent > config.RATING.RD_DECAY_THRESHOLD_DAYS
+    ? applyRDDecay(currentRD, daysSinceLastEvent)
+    : currentRD;
+}
+
 /**
  * Simulates tournament results as head-to-head matches for rating calculation
  *
@@ -146,8 +235,13 @@ export function applyRDDecay(currentRD: number, daysSinceLastEvent: number): num
  *
  * Only the 32 players above and 32 players below are used (per rules)
  *
+ * Tied players share a position, so pass `playerId` when the results contain
+ * ties; otherwise the first player at the position is treated as the player
+ * and the others at that position as tied opponents.
+ *
  * @param playerPosition - The player's finishing position
  * @param allResults - All tournament results sorted by position
+ * @param playerId - The player's ID, to tell the player apart from tied opponents
  * @returns Array of simulated match results
  *
  * @example
@@ -163,7 +257,8 @@ export function applyRDDecay(currentRD: number, daysSinceLastEvent: number): num
  */
 export function simulateTournamentMatches(
   playerPosition: number,
-  allResults: PlayerResult[]
+  allResults: PlayerResult[],
+  playerId?: string
 ): Array<{ opponentRating: number; opponentRD: number; score: number }> {
   const config = getConfig();
   const matches: Array<{ opponentRating: number; opponentRD: number; score: number }> = [];
@@ -172,7 +267,10 @@ export function simulateTournamentMatches(
   const sortedResults = [...allResults].sort((a, b) => a.position - b.position);
 
   // Find the index of the current player
-  const playerIndex = sortedResults.findIndex((r) => r.position === playerPosition);
+  const playerIndex = sortedResults.findIndex(
+    (r) =>
+      r.position === playerPosition && (playerId === undefined || r.player.id === playerId)
+  );
 
   if (playerIndex === -1) return matches;
 
@@ -206,16 +304,88 @@ export function simulateTournamentMatches(
   return matches;
 }
 
+/**
+ * Converts the games a player played into head-to-head matches for rating calculation
+ *
+ * Every other player in each game counts as one match, scored by placement
+ * within that game:
+ * - Opponents who placed above you = losses (score = 0)
+ * - Opponents with the same placement = draws (score = 0.5)
+ * - Opponents who placed below you = wins (score = 1)
+ *
+ * A 4-player group therefore gives each player three matches. All games of a
+ * tournament form one rating period, so opponents use their ratings from
+ * before the tournament. Opponents missing from `players` are ignored.
+ *
+ * @param playerId - The player to build matches for
+ * @param games - Games played in the tournament
+ * @param players - Pre-tournament ratings of the tournament's players
+ * @returns Array of match results from the player's games
+ *
+ * @example
+ * ```typescript
+ * const games: GameResult[] = [
+ *   {
+ *     placements: [
+ *       { playerId: '1', placement: 1 },
+ *       { playerId: '2', placement: 2 },
+ *       { playerId: '3', placement: 3 },
+ *       { playerId: '4', placement: 4 },
+ *     ],
+ *   },
+ * ];
+ * const matches = simulateGameMatches('2', games, players);
+ * // Loss to player 1, wins against players 3 and 4
+ * ```
+ */
+export function simulateGameMatches(
+  playerId: string,
+  games: GameResult[],
+  players: Player[]
+): Array<{ opponentRating: number; opponentRD: number; score: number }> {
+  const config = getConfig();
+  const playersById = new Map(players.map((p) => [p.id, p]));
+  const matches: Array<{ opponentRating: number; opponentRD: number; score: number }> = [];
+
+  for (const game of games) {
+    const own = game.placements.find((p) => p.playerId === playerId);
+    if (!own) continue;
+
+    for (const { playerId: opponentId, placement } of game.placements) {
+      const opponent = playersById.get(opponentId);
+      if (opponentId === playerId || !opponent) continue;
+
+      let score: number;
+      if (placement < own.placement) {
+        score = 0; // Loss (opponent placed higher)
+      } else if (placement === own.placement) {
+        score = 0.5; // Tie
+      } else {
+        score = 1; // Win (opponent placed lower)
+      }
+
+      matches.push({
+        opponentRating: opponent.rating,
+        opponentRD: opponent.ratingDeviation ?? config.RATING.MAX_RD,
+        score,
+      });
+    }
+  }
+
+  return matches;
+}
+
 /**
  * Creates a new player with default/provisional rating
  *
  * @returns Player rating object with default values
  */
-export function createNewPlayerRating(): { rating: number; rd: number } {
+export function createNewPlayerRating(): { rating: number; rd: number; volatility: number } {
   const config = getConfig();
   return {
     rating: config.RATING.DEFAULT_RATING,
     rd: config.RATING.MAX_RD,
+    volatility: config.RATING.GLICKO2.DEFAULT_VOLATILITY,
   };
 }
 
@@ -0,0 +1,418 @@
+/**
+ * Historical replay
+ * Rebuilds ratings, points and rankings by replaying every tournament in date order
+ */
+
+import { evaluateTournament } from './tournament-evaluation.js';
+import {
+  updateRating,
+  applyInactivityRDDecay,
+  simulateTournamentMatches,
+  simulateGameMatches,
+  createNewPlayerRating,
+} from './rating.js';
+import { calculateDaysBetween, calculateDecayMultiplier } from './time-decay.js';
+import { calculateWorldRankings } from './world-ranking.js';
+import { ValidationError } from './validators.js';
+import type { OPPRCalculators } from './engine.js';
+import type {
+  Tournament,
+  PlayerResult,
+  GameResult,
+  TournamentResult,
+  TournamentValue,
+  WorldRankingEntry,
+} from './types.js';
+
+/**
+ * Calculators used by a replay; every OPPREngine provides them
+ */
+export type ReplayCalculators = Pick<
+  OPPRCalculators,
+  | 'evaluateTournament'
+  | 'updateRating'
+  | 'applyInactivityRDDecay'
+  | 'simulateTournamentMatches'
+  | 'simulateGameMatches'
+  | 'createNewPlayerRating'
+  | 'calculateDaysBetween'
+  | 'calculateDecayMultiplier'
+>;
+
+/**
+ * A finishing position in a replayed tournament
+ */
+export interface ReplayStanding {
+  /** Player identifier */
+  playerId: string;
+  /** Finishing position (1 = first place) */
+  position: number;
+  /** Whether the player opted out of points */
+  optedOut?: boolean;
+}
+
+/**
+ * A tournament to replay; players are built from the replay state
+ */
+export interface ReplayTournament {
+  /** Tournament details without players */
+  tournament: Omit<Tournament, 'players'>;
+  /** Finishing positions of every participant */
+  standings: ReplayStanding[];
+  /** Individual game results; when given, ratings are updated from these instead of standings */
+  games?: GameResult[];
+}
+
+/**
+ * A player's replayed result in one tournament
+ */
+export interface ReplayedStanding {
+  /** Player identifier */
+  playerId: string;
+  /** Finishing position */
+  position: number;
+  /** Linear distribution points */
+  linearPoints: number;
+  /** Dynamic distribution points */
+  dynamicPoints: number;
+  /** Total points awarded */
+  totalPoints: number;
+  /** Days between the tournament and the reference date */
+  ageInDays: number;
+  /** Time decay multiplier at the reference date */
+  decayMultiplier: number;
+  /** Total points after time decay */
+  decayedPoints: number;
+  /** Points as a percentage of the first place value */
+  efficiency: number;
+  /** Rating entering the tournament */
+  ratingBefore: number;
+  /** World ranking entering the tournament (0 when unranked) */
+  rankingBefore: number;
+  /** Whether the player was rated entering the tournament */
+  ratedBefore: boolean;
+  /** Rating deviation entering the tournament, after inactivity decay */
+  rdBefore: number;
+  /** Rating after the tournament */
+  ratingAfter: number;
+  /** Rating deviation after the tournament */
+  rdAfter: number;
+  /** Volatility entering the tournament */
+  volatilityBefore: number;
+  /** Volatility after the tournament (unchanged by Glicko-1) */
+  volatilityAfter: number;
+}
+
+/**
+ * A replayed tournament with its recalculated value and results
+ */
+export interface ReplayedTournament {
+  /** Tournament identifier */
+  tournamentId: string;
+  /** Tournament date */
+  date: Date;
+  /** Tournament value from ratings and rankings on the tournament date */
+  value: TournamentValue;
+  /** Whether ratings were updated from individual games or final standings */
+  ratingMethod: 'games' | 'standings';
+  /** Results ordered by position */
+  standings: ReplayedStanding[];
+}
+
+/**
+ * A player's state at the end of a replay
+ */
+export interface ReplayedPlayer {
+  /** Player identifier */
+  playerId: string;
+  /** Glicko rating */
+  rating: number;
+  /** Rating deviation */
+  ratingDeviation: number;
+  /** Rating volatility */
+  volatility: number;
+  /** Date of the player's last replayed tournament */
+  lastEventDate: Date;
+  /** Number of replayed tournaments played */
+  eventCount: number;
+  /** Ranking points at the reference date (sum of top decayed points) */
+  totalPoints: number;
+  /** World ranking at the reference date (null for unrated players) */
+  ranking: number | null;
+  /** Whether the player meets the rated player threshold */
+  isRated: boolean;
+}
+
+/**
+ * Progress of a replay, reported after each tournament
+ */
+export interface ReplayProgress {
+  /** Tournaments replayed so far */
+  processed: number;
+  /** Tournaments to replay */
+  total: number;
+  /** Tournament that was just replayed */
+  tournamentId: string;
+}
+
+/**
+ * Options for replayHistory()
+ */
+export interface HistoricalReplayOptions {
+  /** Date that time decay and final rankings are calculated for (defaults to now) */
+  referenceDate?: Date;
+  /** Calculators for a tournament, e.g. the engine of its ruleset (defaults to the package functions) */
+  engineFor?: (tournament: Omit<Tournament, 'players'>) => ReplayCalculators;
+  /** Called after each tournament is replayed */
+  onProgress?: (progress: ReplayProgress) => void;
+}
+
+/**
+ * Result of a historical replay
+ */
+export interface HistoricalReplayResult {
+  /** Date that time decay and final rankings were calculated for */
+  referenceDate: Date;
+  /** Replayed tournaments in chronological order */
+  tournaments: ReplayedTournament[];
+  /** Every player who played a replayed tournament, ordered by ranking */
+  players: ReplayedPlayer[];
+}
+
+interface PlayerState {
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  lastEventDate: Date;
+  eventCount: number;
+}
+
+interface PlayedEvent {
+  date: Date;
+  totalPoints: number;
+  calculators: ReplayCalculators;
+}
+
+const packageCalculators: ReplayCalculators = {
+  evaluateTournament,
+  updateRating,
+  applyInactivityRDDecay,
+  simulateTournamentMatches,
+  simulateGameMatches,
+  createNewPlayerRating,
+  calculateDaysBetween,
+  calculateDecayMultiplier,
+};
+
+/**
+ * Calculates world rankings from events played so far, decayed to a date
+ */
+function rankPlayers(events: Map<string, PlayedEvent[]>, referenceDate: Date): WorldRankingEntry[] {
+  return calculateWorldRankings(
+    Array.from(events, ([playerId, playerEvents]) => ({
+      playerId,
+      eventPoints: playerEvents.map(
+        (event) =>
+          event.totalPoints *
+          event.calculators.calculateDecayMultiplier(event.date, { referenceDate })
+      ),
+    }))
+  );
+}
+
+/**
+ * Replays tournament history from scratch
+ *
+ * Tournaments are processed in date order. Before each tournament, the rating
+ * deviations of players inactive for more than RD_DECAY_THRESHOLD_DAYS grow for
+ * the days since their previous event, as the scheduled RD decay does, and world
+ * rankings are calculated from the points earned so far decayed to the
+ * tournament date. The tournament is then valued from those ratings and
+ * rankings, points are distributed, and Glicko updates are applied from the
+ * pre-tournament ratings: from its individual games when it has them, as a
+ * tournament import does, otherwise from its standings. Finally, points are decayed to the reference date
+ * and world rankings are recalculated.
+ *
+ * Every player starts with a new-player rating, so the result does not
+ * depend on stored ratings or rankings.
+ *
+ * @param tournaments - Tournaments with their standings, in any order
+ * @param options - Reference date, calculators per tournament and progress callback
+ * @returns Replayed tournaments and final player states
+ * @throws ValidationError if a tournament or its standings are invalid
+ *
+ * @example
+ * ```typescript
+ * const registry = createRulesetRegistry([DEFAULT_RULESET]);
+ * const replay = replayHistory(tournaments, {
+ *   engineFor: (tournament) => registry.getEngineForDate(tournament.date),
+ *   onProgress: ({ processed, total }) => console.log(`${processed}/${total}`),
+ * });
+ * console.log(replay.players[0]); // World ranking #1
+ * ```
+ */
+export function replayHistory(
+  tournaments: ReplayTournament[],
+  options: HistoricalReplayOptions = {}
+): HistoricalReplayResult {
+  const referenceDate = options.referenceDate ?? new Date();
+  const engineFor = options.engineFor ?? ((): ReplayCalculators => packageCalculators);
+
+  const ordered = [...tournaments].sort(
+    (a, b) =>
+      a.tournament.date.getTime() - b.tournament.date.getTime() ||
+      a.tournament.id.localeCompare(b.tournament.id)
+  );
+
+  const states = new Map<string, PlayerState>();
+  const events = new Map<string, PlayedEvent[]>();
+  const replayed: ReplayedTournament[] = [];
+  let rankingsDate: number | null = null;
+  let rankings = new Map<string, WorldRankingEntry>();
+
+  for (const { tournament, standings, games = [] } of ordered) {
+    const calculators = engineFor(tournament);
+    const newPlayer = calculators.createNewPlayerRating();
+
+    // Rankings only change between dates, so tournaments on the same day share them
+    if (rankingsDate !== tournament.date.getTime()) {
+      rankingsDate = tournament.date.getTime();
+      rankings = new Map(
+        rankPlayers(events, tournament.date).map((entry) => [entry.playerId, entry])
+      );
+    }
+
+    const results: PlayerResult[] = standings.map((standing) => {
+      const state = states.get(standing.playerId);
+      const ratingDeviation = state
+        ? calculators.applyInactivityRDDecay(
+            state.ratingDeviation,
+            Math.max(0, calculators.calculateDaysBetween(state.lastEventDate, tournament.date))
+          )
+        : newPlayer.rd;
+      const ranking = rankings.get(standing.playerId);
+
+      return {
+        player: {
+          id: standing.playerId,
+          rating: state?.rating ?? newPlayer.rating,
+          ranking: ranking?.ranking ?? 0,
+          isRated: ranking?.isRated ?? false,
+          ratingDeviation,
+          volatility: state?.volatility ?? newPlayer.volatility,
+          eventCount: state?.eventCount ?? 0,
+        },
+        position: standing.position,
+        optedOut: standing.optedOut,
+      };
+    });
+
+    let evaluation: TournamentResult;
+    try {
+      evaluation = calculators.evaluateTournament(
+        { ...tournament, players: results.map((r) => r.player) },
+        results
+      );
+    } catch (error: unknown) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(`Tournament ${tournament.id}: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const { firstPlaceValue } = evaluation.value;
+    const pointsByPlayer = new Map(evaluation.pointsDistribution.map((d) => [d.player.id, d]));
+    const decayMultiplier = calculators.calculateDecayMultiplier(tournament.date, {
+      referenceDate,
+    });
+    const ageInDays = calculators.calculateDaysBetween(tournament.date, referenceDate);
+
+    // Every update uses pre-tournament ratings, so processing order does not matter
+    const ratingMethod = games.length > 0 ? 'games' : 'standings';
+    const opponents = results.map((r) => r.player);
+    const replayedStandings: ReplayedStanding[] = results
+      .map(({ player, position }) => {
+        const ratingDeviation = player.ratingDeviation ?? newPlayer.rd;
+        const volatility = player.volatility ?? newPlayer.volatility;
+        const { newRating, newRD, newVolatility } = calculators.updateRating({
+          currentRating: player.rating,
+          currentRD: ratingDeviation,
+          currentVolatility: volatility,
+          results:
+            ratingMethod === 'games'
+              ? calculators.simulateGameMatches(player.id, games, opponents)
+              : calculators.simulateTournamentMatches(position, results, player.id),
+        });
+        const points = pointsByPlayer.get(player.id);
+        const totalPoints = points?.totalPoints ?? 0;
+
+        return {
+          playerId: player.id,
+          position,
+          linearPoints: points?.linearPoints ?? 0,
+          dynamicPoints: points?.dynamicPoints ?? 0,
+          totalPoints,
+          ageInDays,
+          decayMultiplier,
+          decayedPoints: totalPoints * decayMultiplier,
+          efficiency: firstPlaceValue > 0 ? (totalPoints / firstPlaceValue) * 100 : 0,
+          ratingBefore: player.rating,
+          rankingBefore: player.ranking,
+          ratedBefore: player.isRated,
+          rdBefore: ratingDeviation,
+          ratingAfter: newRating,
+          rdAfter: newRD,
+          volatilityBefore: volatility,
+          volatilityAfter: newVolatility,
+        };
+      })
+      .sort((a, b) => a.position - b.position);
+
+    for (const standing of replayedStandings) {
+      states.set(standing.playerId, {
+        rating: standing.ratingAfter,
+        ratingDeviation: standing.rdAfter,
+        volatility: standing.volatilityAfter,
+        lastEventDate: tournament.date,
+        eventCount: (states.get(standing.playerId)?.eventCount ?? 0) + 1,
+      });
+      const playerEvents = events.get(standing.playerId) ?? [];
+      playerEvents.push({ date: tournament.date, totalPoints: standing.totalPoints, calculators });
+      events.set(standing.playerId, playerEvents);
+    }
+
+    replayed.push({
+      tournamentId: tournament.id,
+      date: tournament.date,
+      value: evaluation.value,
+      ratingMethod,
+      standings: replayedStandings,
+    });
+
+    options.onProgress?.({
+      processed: replayed.length,
+      total: ordered.length,
+      tournamentId: tournament.id,
+    });
+  }
+
+  const players: ReplayedPlayer[] = [];
+  for (const entry of rankPlayers(events, referenceDate)) {
+    const state = states.get(entry.playerId);
+    if (state) {
+      players.push({
+        playerId: entry.playerId,
+        rating: state.rating,
+        ratingDeviation: state.ratingDeviation,
+        volatility: state.volatility,
+        lastEventDate: state.lastEventDate,
+        eventCount: state.eventCount,
+        totalPoints: entry.totalPoints,
+        ranking: entry.ranking,
+        isRated: entry.isRated,
+      });
+    }
+  }
+
+  return { referenceDate, tournaments: replayed, players };
+}
@@ -0,0 +1,201 @@
+/**
+ * Versioned, effective-dated rulesets
+ * Selects the configuration that was in force on a tournament's date
+ */
+
+import { createOPPREngine, type OPPREngine } from './engine.js';
+import type { PartialOPPRConfig } from './config.js';
+import { ValidationError } from './validators.js';
+import type { Tournament, PlayerResult, TournamentResult } from './types.js';
+import type { EvaluateTournamentOptions } from './tournament-evaluation.js';
+
+/**
+ * A named, versioned set of OPPR constants with an effective date range
+ */
+export interface Ruleset {
+  /** Unique version identifier (stored with tournament values) */
+  version: string;
+  /** Human-readable name */
+  name: string;
+  /** First date the ruleset applies to (inclusive) */
+  effectiveFrom: Date;
+  /** Date the ruleset stops applying (exclusive); open-ended if omitted */
+  effectiveTo?: Date;
+  /** Overrides of the default constants */
+  config: PartialOPPRConfig;
+}
+
+/**
+ * Tournament evaluation along with the ruleset that produced it
+ */
+export interface RulesetTournamentResult extends TournamentResult {
+  /** Ruleset used for the calculation */
+  ruleset: Ruleset;
+}
+
+/**
+ * A set of non-overlapping rulesets with an engine per ruleset
+ */
+export interface RulesetRegistry {
+  /** Registered rulesets, ordered by effective date */
+  readonly rulesets: readonly Ruleset[];
+  /** Find a ruleset by version */
+  getRuleset(version: string): Ruleset | undefined;
+  /** Find the ruleset in effect on a date; throws ValidationError if none applies */
+  getRulesetForDate(date: Date): Ruleset;
+  /** Get the engine for a ruleset version; throws ValidationError if unknown */
+  getEngine(version: string): OPPREngine;
+  /** Get the engine for the ruleset in effect on a date */
+  getEngineForDate(date: Date): OPPREngine;
+  /** Evaluate a tournament under the ruleset in effect on its date */
+  evaluateTournament(
+    tournament: Tournament,
+    results: PlayerResult[],
+    options?: EvaluateTournamentOptions
+  ): RulesetTournamentResult;
+}
+
+/**
+ * The default ruleset: DEFAULT_CONSTANTS for all dates
+ */
+export const DEFAULT_RULESET: Ruleset = {
+  version: 'default',
+  name: 'OPPR Default',
+  effectiveFrom: new Date(0),
+  config: {},
+};
+
+/**
+ * Checks whether a ruleset applies on a date
+ */
+function isEffectiveOn(ruleset: Ruleset, date: Date): boolean {
+  return (
+    ruleset.effectiveFrom.getTime() <= date.getTime() &&
+    (!ruleset.effectiveTo || date.getTime() < ruleset.effectiveTo.getTime())
+  );
+}
+
+/**
+ * Validates that ruleset versions are unique and date ranges do not overlap
+ * A version may repeat for several date ranges of one ruleset, given with the
+ * same config object (e.g. a ruleset reinstated after another one)
+ *
+ * @param rulesets - Rulesets sorted by effectiveFrom
+ * @throws ValidationError if the rulesets are inconsistent
+ */
+function validateRulesets(rulesets: Ruleset[]): void {
+  if (rulesets.length === 0) {
+    throw new ValidationError('At least one ruleset is required');
+  }
+
+  const configs = new Map<string, PartialOPPRConfig>();
+  let previous: Ruleset | undefined;
+
+  for (const ruleset of rulesets) {
+    if (!ruleset.version) {
+      throw new ValidationError('Ruleset must have a version');
+    }
+    const config = configs.get(ruleset.version);
+    if (config && config !== ruleset.config) {
+      throw new ValidationError(`Duplicate ruleset version ${ruleset.version}`);
+    }
+    configs.set(ruleset.version, ruleset.config);
+
+    if (ruleset.effectiveTo && ruleset.effectiveTo.getTime() <= ruleset.effectiveFrom.getTime()) {
+      throw new ValidationError(`Ruleset ${ruleset.version} must end after it starts`);
+    }
+
+    if (
+      previous &&
+      (!previous.effectiveTo || previous.effectiveTo.getTime() > ruleset.effectiveFrom.getTime())
+    ) {
+      throw new ValidationError(`Ruleset ${ruleset.version} overlaps ruleset ${previous.version}`);
+    }
+    previous = ruleset;
+  }
+}
+
+/**
+ * Creates a registry of effective-dated rulesets
+ *
+ * Each ruleset gets its own engine (see createOPPREngine), so tournaments
+ * from different periods can be evaluated side by side under the rules
+ * that applied on their dates.
+ *
+ * @param rulesets - Rulesets with non-overlapping effective date ranges
+ * (a ruleset in effect over several ranges is listed once per range)
+ * @returns Registry for looking up rulesets and evaluating tournaments
+ * @throws ValidationError if versions repeat or date ranges overlap
+ *
+ * @example
+ * ```typescript
+ * const registry = createRulesetRegistry([
+ *   {
+ *     version: '2024.1',
+ *     name: 'OPPR 2024',
+ *     effectiveFrom: new Date('2024-01-01'),
+ *     effectiveTo: new Date('2026-01-01'),
+ *     config: { BASE_VALUE: { MAX_BASE_VALUE: 24 } },
+ *   },
+ *   { version: '2026.1', name: 'OPPR 2026', effectiveFrom: new Date('2026-01-01'), config: {} },
+ * ]);
+ *
+ * const { value, ruleset } = registry.evaluateTournament(tournament, results);
+ * console.log(`Evaluated under ${ruleset.version}`);
+ * ```
+ */
+export function createRulesetRegistry(rulesets: Ruleset[]): RulesetRegistry {
+  const sorted = [...rulesets].sort(
+    (a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime()
+  );
+  validateRulesets(sorted);
+
+  const engines = new Map<string, OPPREngine>();
+
+  const getRuleset = (version: string): Ruleset | undefined =>
+    sorted.find((ruleset) => ruleset.version === version);
+
+  const getRulesetForDate = (date: Date): Ruleset => {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+      throw new ValidationError('Ruleset lookup requires a valid date');
+    }
+    const ruleset = sorted.find((r) => isEffectiveOn(r, date));
+    if (!ruleset) {
+      throw new ValidationError(`No ruleset is in effect on ${date.toISOString()}`);
+    }
+    return ruleset;
+  };
+
+  const getEngine = (version: string): OPPREngine => {
+    const ruleset = getRuleset(version);
+    if (!ruleset) {
+      throw new ValidationError(`Unknown ruleset version ${version}`);
+    }
+
+    let engine = engines.get(version);
+    if (!engine) {
+      engine = createOPPREngine(ruleset.config);
+      engines.set(version, engine);
+    }
+    return engine;
+  };
+
+  return Object.freeze({
+    rulesets: Object.freeze(sorted),
+    getRuleset,
+    getRulesetForDate,
+    getEngine,
+    getEngineForDate: (date: Date): OPPREngine => getEngine(getRulesetForDate(date).version),
+    evaluateTournament: (
+      tournament: Tournament,
+      results: PlayerResult[],
+      options?: EvaluateTournamentOptions
+    ): RulesetTournamentResult => {
+      const ruleset = getRulesetForDate(tournament.date);
+      return {
+        ...getEngine(ruleset.version).evaluateTournament(tournament, results, options),
+        ruleset,
+      };
+    },
+  });
+}
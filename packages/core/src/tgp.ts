@@ -1,5 +1,5 @@
 import { getConfig } from './config.js';
-import type { TGPConfig } from './types.js';
+import type { TGPConfig, TGPTrace, TGPComponentTrace, TGPMultiplier, TraceStep } from './types.js';
 
 /**
  * Calculates the qualifying component of the TGP
@@ -8,15 +8,34 @@ import type { TGPConfig } from './types.js';
  * @returns TGP percentage contribution from qualifying (0.0 - 2.0)
  */
 export function calculateQualifyingTGP(config: TGPConfig): number {
+  return explainQualifyingTGP(config).value;
+}
+
+/**
+ * Explains how the qualifying component of the TGP was calculated
+ *
+ * @param config - TGP configuration with qualifying details
+ * @returns Qualifying TGP with the multipliers applied and any time bonus cap
+ */
+export function explainQualifyingTGP(config: TGPConfig): TGPComponentTrace {
   const constants = getConfig();
   const { qualifying } = config;
   let tgp = 0;
 
   // No TGP from qualifying if type is 'none'
   if (qualifying.type === 'none') {
-    return 0;
+    return {
+      value: 0,
+      steps: [{ description: 'No qualifying', value: 0 }],
+      capped: false,
+      meaningfulGames: 0,
+      gameValue: 0,
+      multipliers: [],
+    };
   }
 
+  const multipliers: TGPMultiplier[] = [];
+
   // Base meaningful games value
   let gameValue = constants.TGP.BASE_GAME_VALUE;
 
@@ -29,18 +48,22 @@ export function calculateQualifyingTGP(config: TGPConfig): number {
     // Unlimited Best Game: 2X (8% per game)
     // Note: Card qualifying uses different multiplier
     gameValue = constants.TGP.BASE_GAME_VALUE * constants.TGP.MULTIPLIERS.UNLIMITED_BEST_GAME;
+    multipliers.push({
+      name: 'Unlimited best game',
+      factor: constants.TGP.MULTIPLIERS.UNLIMITED_BEST_GAME,
+    });
   } else if (qualifying.type === 'hybrid') {
     // Hybrid Best Game: 3X (12% per game)
     gameValue = constants.TGP.BASE_GAME_VALUE * constants.TGP.MULTIPLIERS.HYBRID_BEST_GAME;
+    multipliers.push({
+      name: 'Hybrid best game',
+      factor: constants.TGP.MULTIPLIERS.HYBRID_BEST_GAME,
+    });
   }
 
   // Apply group size multipliers (if applicable and not multi-matchplay)
   if (!qualifying.multiMatchplay) {
-    if (qualifying.fourPlayerGroups) {
-      gameValue *= constants.TGP.MULTIPLIERS.FOUR_PLAYER_GROUPS;
-    } else if (qualifying.threePlayerGroups) {
-      gameValue *= constants.TGP.MULTIPLIERS.THREE_PLAYER_GROUPS;
-    }
+    gameValue = applyGroupMultiplier(gameValue, qualifying, multipliers);
   }
 
   // Apply ball count adjustment if specified
@@ -49,16 +72,35 @@ export function calculateQualifyingTGP(config: TGPConfig): number {
   // Calculate TGP from meaningful games
   tgp += qualifying.meaningfulGames * gameValue * ballAdjustment;
 
+  const steps = [
+    ...describeGameValue(constants.TGP.BASE_GAME_VALUE, multipliers),
+    describeMeaningfulGames(qualifying.meaningfulGames, gameValue, ballAdjustment, tgp),
+  ];
+  let capped = false;
+
   // Add time component for unlimited qualifying (1% per hour, max 20%)
   if (qualifying.type === 'unlimited' && qualifying.hours) {
-    const timeBonus = Math.min(
-      qualifying.hours * constants.TGP.UNLIMITED_QUALIFYING.PERCENT_PER_HOUR,
-      constants.TGP.UNLIMITED_QUALIFYING.MAX_BONUS
-    );
+    const uncappedBonus = qualifying.hours * constants.TGP.UNLIMITED_QUALIFYING.PERCENT_PER_HOUR;
+    const timeBonus = Math.min(uncappedBonus, constants.TGP.UNLIMITED_QUALIFYING.MAX_BONUS);
     tgp += timeBonus;
+
+    capped = timeBonus < uncappedBonus;
+    steps.push({
+      description: capped
+        ? `Time bonus for ${qualifying.hours} hours, capped at ${constants.TGP.UNLIMITED_QUALIFYING.MAX_BONUS}`
+        : `Time bonus for ${qualifying.hours} hours`,
+      value: tgp,
+    });
   }
 
-  return tgp;
+  return {
+    value: tgp,
+    steps,
+    capped,
+    meaningfulGames: qualifying.meaningfulGames,
+    gameValue,
+    multipliers,
+  };
 }
 
 /**
@@ -68,30 +110,117 @@ export function calculateQualifyingTGP(config: TGPConfig): number {
  * @returns TGP percentage contribution from finals (0.0 - 2.0)
  */
 export function calculateFinalsTGP(config: TGPConfig): number {
+  return explainFinalsTGP(config).value;
+}
+
+/**
+ * Explains how the finals component of the TGP was calculated
+ *
+ * @param config - TGP configuration with finals details
+ * @returns Finals TGP with the multipliers applied
+ */
+export function explainFinalsTGP(config: TGPConfig): TGPComponentTrace {
   const constants = getConfig();
   const { finals } = config;
 
   // No TGP from finals if format type is 'none'
   if (finals.formatType === 'none') {
-    return 0;
+    return {
+      value: 0,
+      steps: [{ description: 'No finals', value: 0 }],
+      capped: false,
+      meaningfulGames: 0,
+      gameValue: 0,
+      multipliers: [],
+    };
   }
 
+  const multipliers: TGPMultiplier[] = [];
   let gameValue = constants.TGP.BASE_GAME_VALUE;
 
   // Apply group size multipliers for PAPA-style formats (not multi-matchplay)
   if (!finals.multiMatchplay) {
-    if (finals.fourPlayerGroups) {
-      gameValue *= constants.TGP.MULTIPLIERS.FOUR_PLAYER_GROUPS;
-    } else if (finals.threePlayerGroups) {
-      gameValue *= constants.TGP.MULTIPLIERS.THREE_PLAYER_GROUPS;
-    }
+    gameValue = applyGroupMultiplier(gameValue, finals, multipliers);
   }
 
   // Apply ball count adjustment if specified
   const ballAdjustment = config.ballCountAdjustment ?? 1.0;
 
   // Calculate TGP from meaningful games in finals
-  return finals.meaningfulGames * gameValue * ballAdjustment;
+  const tgp = finals.meaningfulGames * gameValue * ballAdjustment;
+
+  return {
+    value: tgp,
+    steps: [
+      ...describeGameValue(constants.TGP.BASE_GAME_VALUE, multipliers),
+      describeMeaningfulGames(finals.meaningfulGames, gameValue, ballAdjustment, tgp),
+    ],
+    capped: false,
+    meaningfulGames: finals.meaningfulGames,
+    gameValue,
+    multipliers,
+  };
+}
+
+/**
+ * Applies the 4-player or 3-player group multiplier to a game value
+ *
+ * @param gameValue - Game value before group multipliers
+ * @param groups - Group size flags for the stage
+ * @param multipliers - List the applied multiplier is recorded in
+ * @returns Game value after the group multiplier
+ */
+function applyGroupMultiplier(
+  gameValue: number,
+  groups: { fourPlayerGroups?: boolean; threePlayerGroups?: boolean },
+  multipliers: TGPMultiplier[]
+): number {
+  const constants = getConfig();
+  if (groups.fourPlayerGroups) {
+    multipliers.push({
+      name: '4-player groups',
+      factor: constants.TGP.MULTIPLIERS.FOUR_PLAYER_GROUPS,
+    });
+    return gameValue * constants.TGP.MULTIPLIERS.FOUR_PLAYER_GROUPS;
+  }
+  if (groups.threePlayerGroups) {
+    multipliers.push({
+      name: '3-player groups',
+      factor: constants.TGP.MULTIPLIERS.THREE_PLAYER_GROUPS,
+    });
+    return gameValue * constants.TGP.MULTIPLIERS.THREE_PLAYER_GROUPS;
+  }
+  return gameValue;
+}
+
+/**
+ * Builds trace steps for the per-game value and each multiplier applied to it
+ */
+function describeGameValue(baseGameValue: number, multipliers: TGPMultiplier[]): TraceStep[] {
+  let value = baseGameValue;
+  return [
+    { description: 'Base value per meaningful game', value },
+    ...multipliers.map((multiplier) => {
+      value *= multiplier.factor;
+      return { description: `${multiplier.name} (×${multiplier.factor})`, value };
+    }),
+  ];
+}
+
+/**
+ * Builds the trace step for meaningful games × game value (× ball count adjustment)
+ */
+function describeMeaningfulGames(
+  meaningfulGames: number,
+  gameValue: number,
+  ballAdjustment: number,
+  value: number
+): TraceStep {
+  const adjustment = ballAdjustment !== 1 ? ` × ${ballAdjustment} ball count adjustment` : '';
+  return {
+    description: `${meaningfulGames} meaningful games × ${gameValue} per game${adjustment}`,
+    value,
+  };
 }
 
 /**
@@ -124,9 +253,30 @@ export function calculateFinalsTGP(config: TGPConfig): number {
  * ```
  */
 export function calculateTGP(config: TGPConfig): number {
+  return explainTGP(config).value;
+}
+
+/**
+ * Explains how the total TGP was calculated
+ *
+ * Includes the qualifying and finals breakdowns (with the multipliers applied
+ * to each) and whether the 100%/200% maximum was reached.
+ *
+ * @param config - Complete TGP configuration
+ * @returns Total TGP with qualifying and finals traces
+ *
+ * @example
+ * ```typescript
+ * const trace = explainTGP(config);
+ * console.log(trace.qualifying.multipliers, trace.finals.multipliers, trace.capped);
+ * ```
+ */
+export function explainTGP(config: TGPConfig): TGPTrace {
   const constants = getConfig();
-  const qualifyingTGP = calculateQualifyingTGP(config);
-  const finalsTGP = calculateFinalsTGP(config);
+  const qualifying = explainQualifyingTGP(config);
+  const finals = explainFinalsTGP(config);
+  const qualifyingTGP = qualifying.value;
+  const finalsTGP = finals.value;
 
   let totalTGP = qualifyingTGP + finalsTGP;
 
@@ -140,10 +290,24 @@ export function calculateTGP(config: TGPConfig): number {
       ? constants.TGP.MAX_WITH_FINALS
       : constants.TGP.MAX_WITHOUT_FINALS;
 
+  const steps: TraceStep[] = [
+    { description: 'Qualifying TGP', value: qualifyingTGP },
+    { description: 'Finals TGP', value: finalsTGP },
+  ];
+  const uncappedTGP = totalTGP;
+
   // Cap at maximum
   totalTGP = Math.min(totalTGP, maxTGP);
 
-  return totalTGP;
+  const capped = totalTGP < uncappedTGP;
+  steps.push({
+    description: capped
+      ? `Total, capped at maximum TGP of ${maxTGP}`
+      : `Total (maximum ${maxTGP} ${hasSeparateQualifying && hasSeparateFinals ? 'with' : 'without'} separate finals)`,
+    value: totalTGP,
+  });
+
+  return { value: totalTGP, steps, capped, qualifying, finals };
 }
 
 /**
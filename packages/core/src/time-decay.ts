@@ -1,5 +1,6 @@
 import { getConfig } from './config.js';
-import type { DecayConfig } from './types.js';
+import { ValidationError } from './validators.js';
+import type { DecayConfig, DecayCurve, DecayCurveName, TimeDecayConstants } from './types.js';
 
 /**
  * Calculates the number of days between two dates
@@ -27,10 +28,93 @@ export function calculateEventAge(eventDate: Date, referenceDate: Date = new Dat
   return days / config.TIME_DECAY.DAYS_PER_YEAR;
 }
 
+/**
+ * Stepped decay: a fixed multiplier for each year of age
+ *
+ * - 0-1 years: YEAR_0_TO_1 (100%)
+ * - 1-2 years: YEAR_1_TO_2 (75%)
+ * - 2-3 years: YEAR_2_TO_3 (50%)
+ * - 3+ years: YEAR_3_PLUS (0%)
+ */
+function steppedDecay(ageInYears: number, constants: TimeDecayConstants): number {
+  if (ageInYears < 1) {
+    return constants.YEAR_0_TO_1;
+  } else if (ageInYears < 2) {
+    return constants.YEAR_1_TO_2;
+  } else if (ageInYears < 3) {
+    return constants.YEAR_2_TO_3;
+  } else {
+    return constants.YEAR_3_PLUS;
+  }
+}
+
+/**
+ * Linear decay: falls evenly from 1 to 0 at MAX_AGE_YEARS
+ */
+function linearDecay(ageInYears: number, constants: TimeDecayConstants): number {
+  return Math.min(1, Math.max(0, 1 - ageInYears / constants.MAX_AGE_YEARS));
+}
+
+/**
+ * Exponential decay: halves every HALF_LIFE_YEARS, fully decayed at MAX_AGE_YEARS
+ */
+function exponentialDecay(ageInYears: number, constants: TimeDecayConstants): number {
+  if (ageInYears >= constants.MAX_AGE_YEARS) {
+    return 0;
+  }
+  return Math.pow(0.5, Math.max(0, ageInYears) / constants.HALF_LIFE_YEARS);
+}
+
+/**
+ * Custom decay: the multiplier of the last breakpoint the event has reached
+ */
+function customDecay(ageInYears: number, constants: TimeDecayConstants): number {
+  let multiplier = 1;
+  for (const breakpoint of constants.BREAKPOINTS) {
+    if (ageInYears < breakpoint.AGE_YEARS) {
+      break;
+    }
+    multiplier = breakpoint.MULTIPLIER;
+  }
+  return multiplier;
+}
+
+/**
+ * Available time decay curves
+ */
+export const DECAY_CURVES: Readonly<Record<DecayCurveName, DecayCurve>> = {
+  stepped: steppedDecay,
+  linear: linearDecay,
+  exponential: exponentialDecay,
+  custom: customDecay,
+};
+
+/**
+ * Gets a time decay curve by name
+ *
+ * @param name - Decay curve name (defaults to the configured TIME_DECAY.CURVE)
+ * @returns The decay curve
+ * @throws ValidationError if the name is not a known decay curve
+ *
+ * @example
+ * ```typescript
+ * const linear = getDecayCurve('linear');
+ * const multiplier = linear(1.5, getConfig().TIME_DECAY);
+ * // Returns 0.5 with the default 3 year maximum age
+ * ```
+ */
+export function getDecayCurve(name: DecayCurveName = getConfig().TIME_DECAY.CURVE): DecayCurve {
+  const curve = Object.hasOwn(DECAY_CURVES, name) ? DECAY_CURVES[name] : undefined;
+  if (!curve) {
+    throw new ValidationError(`Unknown decay curve: ${name}`);
+  }
+  return curve;
+}
+
 /**
  * Gets the time decay multiplier for an event based on its age
  *
- * Decay schedule:
+ * Uses the configured TIME_DECAY.CURVE. The default stepped curve:
  * - 0-1 years: 100% (1.0)
  * - 1-2 years: 75% (0.75)
  * - 2-3 years: 50% (0.5)
@@ -40,16 +124,8 @@ export function calculateEventAge(eventDate: Date, referenceDate: Date = new Dat
  * @returns Decay multiplier (0.0 to 1.0)
  */
 export function getDecayMultiplier(ageInYears: number): number {
-  const config = getConfig();
-  if (ageInYears < 1) {
-    return config.TIME_DECAY.YEAR_0_TO_1;
-  } else if (ageInYears < 2) {
-    return config.TIME_DECAY.YEAR_1_TO_2;
-  } else if (ageInYears < 3) {
-    return config.TIME_DECAY.YEAR_2_TO_3;
-  } else {
-    return config.TIME_DECAY.YEAR_3_PLUS;
-  }
+  const constants = getConfig().TIME_DECAY;
+  return getDecayCurve(constants.CURVE)(ageInYears, constants);
 }
 
 /**
@@ -98,20 +174,18 @@ export function applyTimeDecay(points: number, eventDate: Date, config?: DecayCo
 /**
  * Determines if an event is still active (has points value)
  *
- * Events older than 3 years are fully decayed and considered inactive
+ * Fully decayed events (3+ years old with the default curve) are inactive
  *
  * @param eventDate - Date of the event
  * @param config - Optional configuration with reference date
- * @returns True if event still contributes points (< 3 years old)
+ * @returns True if event still contributes points (decay multiplier above 0)
  */
 export function isEventActive(eventDate: Date, config?: DecayConfig): boolean {
-  const referenceDate = config?.referenceDate ?? new Date();
-  const ageInYears = calculateEventAge(eventDate, referenceDate);
-  return ageInYears < 3;
+  return calculateDecayMultiplier(eventDate, config) > 0;
 }
 
 /**
- * Filters events to only those that are active (< 3 years old)
+ * Filters events to only those that are active (not fully decayed)
  *
  * @param events - Array of event dates
  * @param config - Optional configuration with reference date
@@ -142,7 +216,7 @@ export function getEventDecayInfo(
   const ageInDays = calculateDaysBetween(eventDate, referenceDate);
   const ageInYears = ageInDays / constants.TIME_DECAY.DAYS_PER_YEAR;
   const decayMultiplier = getDecayMultiplier(ageInYears);
-  const isActive = ageInYears < 3;
+  const isActive = decayMultiplier > 0;
 
   return {
     ageInDays,
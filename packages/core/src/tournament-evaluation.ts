@@ -0,0 +1,177 @@
+import { calculateBaseValue, explainBaseValue } from './base-value.js';
+import { explainRatingTVA } from './tva-rating.js';
+import { calculateTotalTVA, explainRankingTVA } from './tva-ranking.js';
+import { calculateTGP, explainTGP } from './tgp.js';
+import { getEventBoosterMultiplier, explainEventBooster } from './event-boosters.js';
+import { distributePoints, explainPointDistribution } from './point-distribution.js';
+import { ValidationError, validateTournament, validatePlayerResults } from './validators.js';
+import type {
+  Tournament,
+  PlayerResult,
+  TournamentValue,
+  TournamentResult,
+  TournamentTrace,
+} from './types.js';
+
+/**
+ * Options for evaluateTournament()
+ */
+export interface EvaluateTournamentOptions {
+  /** Include a step-by-step calculation trace in the result */
+  trace?: boolean;
+}
+
+/**
+ * Calculates the complete value breakdown for a tournament
+ *
+ * First Place Value = (Base Value + Total TVA) × TGP × Event Booster
+ *
+ * This function does not validate the tournament. Use evaluateTournament()
+ * for a validated calculation that also distributes points.
+ *
+ * @param tournament - Tournament with participating players, TGP config and event booster
+ * @returns Tournament value breakdown
+ *
+ * @example
+ * ```typescript
+ * const value = calculateTournamentValue(tournament);
+ * console.log(value.firstPlaceValue);
+ * ```
+ */
+export function calculateTournamentValue(tournament: Tournament): TournamentValue {
+  const baseValue = calculateBaseValue(tournament.players);
+  const { ratingTVA, rankingTVA, totalTVA } = calculateTotalTVA(tournament.players);
+  const tgp = calculateTGP(tournament.tgpConfig);
+  const eventBoosterMultiplier = getEventBoosterMultiplier(tournament.eventBooster);
+
+  return {
+    baseValue,
+    tvaRating: ratingTVA,
+    tvaRanking: rankingTVA,
+    totalTVA,
+    tgp,
+    eventBoosterMultiplier,
+    firstPlaceValue: (baseValue + totalTVA) * tgp * eventBoosterMultiplier,
+  };
+}
+
+/**
+ * Explains how a tournament's value and point distribution were calculated
+ *
+ * Every term of the first place value is traced: base value, rating and
+ * ranking TVA (with each player's contribution), TGP (with the qualifying and
+ * finals multipliers), the event booster and the point distribution. Each
+ * term reports whether a cap limited its value.
+ *
+ * This function does not validate the tournament or results.
+ *
+ * @param tournament - Tournament with participating players, TGP config and event booster
+ * @param results - Finishing positions for the tournament's players
+ * @returns Step-by-step calculation trace
+ *
+ * @example
+ * ```typescript
+ * const trace = explainTournament(tournament, results);
+ * trace.tvaRating.contributions.forEach((c) => console.log(c.playerId, c.contribution));
+ * ```
+ */
+export function explainTournament(
+  tournament: Tournament,
+  results: PlayerResult[]
+): TournamentTrace {
+  const baseValue = explainBaseValue(tournament.players);
+  const tvaRating = explainRatingTVA(tournament.players);
+  const tvaRanking = explainRankingTVA(tournament.players);
+  const tgp = explainTGP(tournament.tgpConfig);
+  const eventBooster = explainEventBooster(tournament.eventBooster);
+
+  const totalTVA = tvaRating.value + tvaRanking.value;
+  const tournamentValue = baseValue.value + totalTVA;
+  const gradedValue = tournamentValue * tgp.value;
+  const firstPlaceValue = gradedValue * eventBooster.value;
+
+  return {
+    baseValue,
+    tvaRating,
+    tvaRanking,
+    tgp,
+    eventBooster,
+    firstPlaceValue: {
+      value: firstPlaceValue,
+      steps: [
+        { description: 'Base value + rating TVA + ranking TVA', value: tournamentValue },
+        { description: `× TGP (${tgp.value})`, value: gradedValue },
+        { description: `× event booster (${eventBooster.value})`, value: firstPlaceValue },
+      ],
+      capped: false,
+    },
+    pointDistribution: explainPointDistribution(results, firstPlaceValue),
+  };
+}
+
+/**
+ * Validates that every result belongs to a tournament participant
+ *
+ * @param tournament - Tournament the results belong to
+ * @param results - Player results to check
+ * @throws ValidationError if a result is for an unknown or duplicated player
+ */
+function validateResultsMatchTournament(tournament: Tournament, results: PlayerResult[]): void {
+  const participantIds = new Set(tournament.players.map((p) => p.id));
+  const seen = new Set<string>();
+
+  for (const result of results) {
+    if (!participantIds.has(result.player.id)) {
+      throw new ValidationError(
+        `Result for player ${result.player.id} who is not a tournament participant`
+      );
+    }
+    if (seen.has(result.player.id)) {
+      throw new ValidationError(`Duplicate result for player ${result.player.id}`);
+    }
+    seen.add(result.player.id);
+  }
+}
+
+/**
+ * Evaluates a tournament: validates inputs, calculates its value and distributes points
+ *
+ * This is the single entry point for turning a tournament and its results into
+ * a complete TournamentResult, so every consumer computes values identically.
+ *
+ * @param tournament - Tournament with participating players, TGP config and event booster
+ * @param results - Finishing positions for the tournament's players
+ * @param options - Set `trace: true` to include a step-by-step calculation trace
+ * @returns Tournament value breakdown and points awarded to each player
+ * @throws ValidationError if the tournament or results are invalid
+ *
+ * @example
+ * ```typescript
+ * const { value, pointsDistribution } = evaluateTournament(tournament, results);
+ * console.log(`First place is worth ${value.firstPlaceValue} points`);
+ *
+ * const { trace } = evaluateTournament(tournament, results, { trace: true });
+ * ```
+ */
+export function evaluateTournament(
+  tournament: Tournament,
+  results: PlayerResult[],
+  options: EvaluateTournamentOptions = {}
+): TournamentResult {
+  validateTournament(tournament);
+  validatePlayerResults(results);
+  validateResultsMatchTournament(tournament, results);
+
+  const value = calculateTournamentValue(tournament);
+  const result: TournamentResult = {
+    tournament,
+    value,
+    pointsDistribution: distributePoints(results, value.firstPlaceValue),
+  };
+
+  if (options.trace) {
+    result.trace = explainTournament(tournament, results);
+  }
+
+  return result;
+}
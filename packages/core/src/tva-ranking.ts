@@ -1,5 +1,5 @@
 import { getConfig } from './config.js';
-import type { Player } from './types.js';
+import type { Player, TVATrace } from './types.js';
 import { calculateRatingTVA } from './tva-rating.js';
 
 /**
@@ -45,22 +45,55 @@ export function calculatePlayerRankingContribution(ranking: number): number {
  * ```
  */
 export function calculateRankingTVA(players: Player[]): number {
+  return explainRankingTVA(players).value;
+}
+
+/**
+ * Explains how the ranking-based TVA was calculated
+ *
+ * Lists every player considered (top 64 ranked players) with their individual
+ * contribution. Unranked players (ranking 0) are never considered.
+ *
+ * @param players - Array of players participating in the tournament
+ * @returns Ranking TVA with per-player contributions and any cap applied
+ */
+export function explainRankingTVA(players: Player[]): TVATrace {
   const config = getConfig();
-  // Filter players with valid rankings (ranking > 0)
-  const rankedPlayers = players.filter((player) => player.ranking > 0);
+  // Filter players with valid rankings (ranking > 0), sort best first and take top 64
+  const topRankedPlayers = getTopRankedPlayers(players, config.TVA.MAX_PLAYERS_CONSIDERED);
 
-  // Sort by ranking (lowest/best first) and take top 64
-  const topRankedPlayers = [...rankedPlayers]
-    .sort((a, b) => a.ranking - b.ranking)
-    .slice(0, config.TVA.MAX_PLAYERS_CONSIDERED);
+  const contributions = topRankedPlayers.map((player) => ({
+    playerId: player.id,
+    input: player.ranking,
+    contribution: calculatePlayerRankingContribution(player.ranking),
+  }));
 
   // Sum contributions from all top-ranked players
-  const totalTVA = topRankedPlayers.reduce((sum, player) => {
-    return sum + calculatePlayerRankingContribution(player.ranking);
-  }, 0);
+  const totalTVA = contributions.reduce((sum, entry) => sum + entry.contribution, 0);
 
   // Cap at maximum ranking TVA value
-  return Math.min(totalTVA, config.TVA.RANKING.MAX_VALUE);
+  const value = Math.min(totalTVA, config.TVA.RANKING.MAX_VALUE);
+  const capped = value < totalTVA;
+  const contributing = contributions.filter((entry) => entry.contribution > 0).length;
+
+  const steps = [
+    {
+      description: `Top ${topRankedPlayers.length} of ${players.length} players by world ranking considered`,
+      value: topRankedPlayers.length,
+    },
+    {
+      description: `${contributing} ranked players contributed`,
+      value: totalTVA,
+    },
+  ];
+  if (capped) {
+    steps.push({
+      description: `Capped at maximum ranking TVA of ${config.TVA.RANKING.MAX_VALUE}`,
+      value,
+    });
+  }
+
+  return { value, steps, capped, contributions };
 }
 
 /**
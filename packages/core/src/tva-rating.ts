@@ -1,5 +1,5 @@
 import { getConfig } from './config.js';
-import type { Player } from './types.js';
+import type { Player, TVATrace } from './types.js';
 
 /**
  * Calculates a single player's contribution to the rating-based TVA
@@ -40,19 +40,55 @@ export function calculatePlayerRatingContribution(rating: number): number {
  * ```
  */
 export function calculateRatingTVA(players: Player[]): number {
+  return explainRatingTVA(players).value;
+}
+
+/**
+ * Explains how the rating-based TVA was calculated
+ *
+ * Lists every player considered (top 64 by rating) with their individual
+ * contribution, so it is clear which players counted toward TVA.
+ *
+ * @param players - Array of players participating in the tournament
+ * @returns Rating TVA with per-player contributions and any cap applied
+ */
+export function explainRatingTVA(players: Player[]): TVATrace {
   const config = getConfig();
   // Sort players by rating (highest first) and take top 64
-  const topRatedPlayers = [...players]
-    .sort((a, b) => b.rating - a.rating)
-    .slice(0, config.TVA.MAX_PLAYERS_CONSIDERED);
+  const topRatedPlayers = getTopRatedPlayers(players, config.TVA.MAX_PLAYERS_CONSIDERED);
+
+  const contributions = topRatedPlayers.map((player) => ({
+    playerId: player.id,
+    input: player.rating,
+    contribution: calculatePlayerRatingContribution(player.rating),
+  }));
 
   // Sum contributions from all top-rated players
-  const totalTVA = topRatedPlayers.reduce((sum, player) => {
-    return sum + calculatePlayerRatingContribution(player.rating);
-  }, 0);
+  const totalTVA = contributions.reduce((sum, entry) => sum + entry.contribution, 0);
 
   // Cap at maximum rating TVA value
-  return Math.min(totalTVA, config.TVA.RATING.MAX_VALUE);
+  const value = Math.min(totalTVA, config.TVA.RATING.MAX_VALUE);
+  const capped = value < totalTVA;
+  const contributing = contributions.filter((entry) => entry.contribution > 0).length;
+
+  const steps = [
+    {
+      description: `Top ${topRatedPlayers.length} of ${players.length} players by rating considered`,
+      value: topRatedPlayers.length,
+    },
+    {
+      description: `${contributing} players rated above ${config.TVA.RATING.MIN_EFFECTIVE_RATING} contributed`,
+      value: totalTVA,
+    },
+  ];
+  if (capped) {
+    steps.push({
+      description: `Capped at maximum rating TVA of ${config.TVA.RATING.MAX_VALUE}`,
+      value,
+    });
+  }
+
+  return { value, steps, capped, contributions };
 }
 
 /**
@@ -12,6 +12,8 @@ export interface Player {
   isRated: boolean;
   /** Player's rating deviation (RD) for Glicko calculations */
   ratingDeviation?: number;
+  /** Player's rating volatility (Glicko-2 only) */
+  volatility?: number;
   /** Number of events player has participated in */
   eventCount?: number;
 }
@@ -114,12 +116,40 @@ export interface Tournament {
 export interface PlayerResult {
   /** Player information */
   player: Player;
-  /** Finishing position (1 = first place) */
+  /** Finishing position (1 = first place); tied players share the same position */
   position: number;
   /** Whether player opted out (not counted in calculations) */
   optedOut?: boolean;
 }
 
+/**
+ * Players who tied for a finishing position
+ *
+ * Ties use standard competition ranking: two players tied for 5th both have
+ * position 5, span positions 5-6, and the next player finishes 7th.
+ */
+export interface TieGroup {
+  /** Shared finishing position */
+  position: number;
+  /** Last position covered by the tie (equal to position when not tied) */
+  positionEnd: number;
+  /** Results of the tied players */
+  results: PlayerResult[];
+}
+
+/**
+ * A single game played by two or more players, such as a 4-player group
+ */
+export interface GameResult {
+  /** Each player's placement within the game (1 = best; equal placements are ties) */
+  placements: Array<{
+    /** Player identifier */
+    playerId: string;
+    /** Placement within the game */
+    placement: number;
+  }>;
+}
+
 /**
  * Tournament value calculation breakdown
  */
@@ -166,6 +196,120 @@ export interface TournamentResult {
   value: TournamentValue;
   /** Points awarded to each player */
   pointsDistribution: PointDistribution[];
+  /** Step-by-step calculation explanation (only present in trace mode) */
+  trace?: TournamentTrace;
+}
+
+/**
+ * A single step in a calculation explanation
+ */
+export interface TraceStep {
+  /** Human-readable description of the step */
+  description: string;
+  /** Value produced by this step */
+  value: number;
+}
+
+/**
+ * Step-by-step explanation of a single calculated term
+ */
+export interface CalculationTrace {
+  /** Final value of the term */
+  value: number;
+  /** Ordered explanation steps */
+  steps: TraceStep[];
+  /** True if a maximum cap reduced the value */
+  capped: boolean;
+}
+
+/**
+ * A single player's contribution to rating or ranking TVA
+ */
+export interface TVAContribution {
+  /** Player identifier */
+  playerId: string;
+  /** Player rating (rating TVA) or world ranking (ranking TVA) */
+  input: number;
+  /** Points contributed to TVA (0 if below the effective threshold) */
+  contribution: number;
+}
+
+/**
+ * Explanation of a TVA term, including which players counted
+ */
+export interface TVATrace extends CalculationTrace {
+  /** Players considered (top 64), in the order they were considered */
+  contributions: TVAContribution[];
+}
+
+/**
+ * A multiplier applied to the TGP value of each meaningful game
+ */
+export interface TGPMultiplier {
+  /** Name of the multiplier (e.g., "4-player groups") */
+  name: string;
+  /** Multiplier factor */
+  factor: number;
+}
+
+/**
+ * Explanation of the qualifying or finals portion of TGP
+ */
+export interface TGPComponentTrace extends CalculationTrace {
+  /** Number of meaningful games */
+  meaningfulGames: number;
+  /** TGP value of a single meaningful game after format and group multipliers */
+  gameValue: number;
+  /** Multipliers applied to the base game value */
+  multipliers: TGPMultiplier[];
+}
+
+/**
+ * Explanation of the total TGP
+ */
+export interface TGPTrace extends CalculationTrace {
+  /** Qualifying portion */
+  qualifying: TGPComponentTrace;
+  /** Finals portion */
+  finals: TGPComponentTrace;
+}
+
+/**
+ * Explanation of how points were distributed across finishing positions
+ */
+export interface PointDistributionTrace {
+  /** Players receiving points (excludes opted-out players) */
+  activePlayerCount: number;
+  /** Rated players among active players */
+  ratedPlayerCount: number;
+  /** Players who opted out of points */
+  optedOutCount: number;
+  /** Number of positions that receive dynamic points */
+  dynamicPositions: number;
+  /** Number of positions shared by two or more tied players */
+  tiedPositionCount: number;
+  /** Ordered explanation steps */
+  steps: TraceStep[];
+}
+
+/**
+ * Complete step-by-step explanation of a tournament's value and points
+ */
+export interface TournamentTrace {
+  /** Base value from rated player count */
+  baseValue: CalculationTrace;
+  /** Rating-based TVA with per-player contributions */
+  tvaRating: TVATrace;
+  /** Ranking-based TVA with per-player contributions */
+  tvaRanking: TVATrace;
+  /** Tournament grading percentage */
+  tgp: TGPTrace;
+  /** Event booster multiplier */
+  eventBooster: CalculationTrace;
+  /** (Base value + TVA) × TGP × event booster */
+  firstPlaceValue: CalculationTrace;
+  /** How points were spread across finishing positions */
+  pointDistribution: PointDistributionTrace;
 }
 
 /**
@@ -173,7 +317,7 @@ export interface TournamentResult {
  */
 export interface PlayerEvent {
   /** Tournament information */
-  tournament: Tournament;
+  tournament: Pick<Tournament, 'id' | 'name' | 'date'>;
   /** Finishing position */
   position: number;
   /** Points earned */
@@ -184,7 +328,7 @@ export interface PlayerEvent {
   date: Date;
   /** Age of event in days */
   ageInDays: number;
-  /** Time decay multiplier (1.0, 0.75, 0.5, or 0.0) */
+  /** Time decay multiplier (0.0 to 1.0) */
   decayMultiplier: number;
   /** Points after applying decay */
   decayedPoints: number;
@@ -206,6 +350,34 @@ export interface PlayerProfile {
   efficiency: number;
 }
 
+/**
+ * Input for world ranking calculation: a player and their decayed event points
+ */
+export interface RankingCandidate {
+  /** Player identifier */
+  playerId: string;
+  /** Decayed points earned in each event (one entry per event) */
+  eventPoints: number[];
+}
+
+/**
+ * A player's computed world ranking
+ */
+export interface WorldRankingEntry {
+  /** Player identifier */
+  playerId: string;
+  /** Total ranking points (sum of top 15 decayed points) */
+  totalPoints: number;
+  /** Number of events counted toward total points */
+  countedEvents: number;
+  /** Total number of events played */
+  eventCount: number;
+  /** Whether the player meets the rated player threshold */
+  isRated: boolean;
+  /** World ranking position (null for unrated players) */
+  ranking: number | null;
+}
+
 /**
  * Glicko rating calculation input
  */
@@ -214,6 +386,8 @@ export interface RatingUpdate {
   currentRating: number;
   /** Player's current rating deviation */
   currentRD: number;
+  /** Player's current volatility (Glicko-2 only; defaults to RATING.GLICKO2.DEFAULT_VOLATILITY) */
+  currentVolatility?: number;
   /** Opponents faced (as wins/losses based on finishing order) */
   results: Array<{
     /** Opponent rating */
@@ -233,6 +407,49 @@ export interface RatingResult {
   newRating: number;
   /** New rating deviation after update */
   newRD: number;
+  /** New volatility after update (unchanged by Glicko-1) */
+  newVolatility: number;
+}
+
+/**
+ * Name of a rating system
+ * - glicko: Glicko-1 with a fixed system constant (the default)
+ * - glicko2: Glicko-2, which also tracks each player's rating volatility
+ */
+export type RatingStrategyName = 'glicko' | 'glicko2';
+
+/**
+ * A rating system that updates a player's rating from simulated matches
+ */
+export interface RatingStrategy {
+  /** Rating system name */
+  name: RatingStrategyName;
+  /** Calculate a player's new rating from a rating period's results */
+  updateRating(update: RatingUpdate): RatingResult;
+}
+
+/**
+ * Name of a time decay curve
+ * - stepped: a fixed multiplier for each year of age (the default)
+ * - linear: falls evenly from 1 to 0 at MAX_AGE_YEARS
+ * - exponential: halves every HALF_LIFE_YEARS until MAX_AGE_YEARS
+ * - custom: the multiplier of the last breakpoint reached
+ */
+export type DecayCurveName = 'stepped' | 'linear' | 'exponential' | 'custom';
+
+/**
+ * A time decay curve mapping event age to a decay multiplier
+ */
+export type DecayCurve = (ageInYears: number, constants: TimeDecayConstants) => number;
+
+/**
+ * Point on a custom decay curve
+ */
+export interface DecayBreakpoint {
+  /** Age in years from which the multiplier applies */
+  AGE_YEARS: number;
+  /** Decay multiplier (0.0 to 1.0) */
+  MULTIPLIER: number;
 }
 
 /**
@@ -377,6 +594,8 @@ export interface PointDistributionConstants {
  * Time Decay Constants Type
  */
 export interface TimeDecayConstants {
+  /** Decay curve used by getDecayMultiplier */
+  CURVE: DecayCurveName;
   /** Points worth 100% of value (0-1 years) */
   YEAR_0_TO_1: number;
   /** Points worth 75% of value (1-2 years) */
@@ -385,6 +604,12 @@ export interface TimeDecayConstants {
   YEAR_2_TO_3: number;
   /** Points worth 0% of value (3+ years) */
   YEAR_3_PLUS: number;
+  /** Age in years at which events are fully decayed (linear and exponential curves) */
+  MAX_AGE_YEARS: number;
+  /** Years for points to lose half their value (exponential curve) */
+  HALF_LIFE_YEARS: number;
+  /** Breakpoints of the custom curve in ascending age; younger events keep full value */
+  BREAKPOINTS: DecayBreakpoint[];
   /** Days in a year for calculations */
   DAYS_PER_YEAR: number;
 }
@@ -411,10 +636,23 @@ export interface RatingConstants {
   MAX_RD: number;
   /** RD decay rate per day */
   RD_DECAY_PER_DAY: number;
+  /** Days without an event before RD decays for the whole inactive period */
+  RD_DECAY_THRESHOLD_DAYS: number;
   /** Number of players above/below used for rating calculation */
   OPPONENTS_RANGE: number;
   /** Glicko system constant (q value) */
   Q: number;
+  /** Rating system used by updateRating */
+  STRATEGY: RatingStrategyName;
+  /** Glicko-2 system constants */
+  GLICKO2: {
+    /** System constant (tau) constraining volatility changes */
+    TAU: number;
+    /** Volatility of new players */
+    DEFAULT_VOLATILITY: number;
+    /** Convergence tolerance of the volatility iteration */
+    CONVERGENCE_TOLERANCE: number;
+  };
 }
 
 /**
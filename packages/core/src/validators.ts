@@ -1,5 +1,6 @@
 import { getConfig } from './config.js';
 import type { Tournament, Player, TGPConfig, PlayerResult } from './types.js';
+import { groupTiedResults } from './point-distribution.js';
 
 /**
  * Validation error class for OPPR calculations
@@ -160,6 +161,10 @@ export function validateTournament(tournament: Tournament): void {
 /**
  * Validates player results
  *
+ * Ties are allowed below 1st place. Tied players share a position and the
+ * positions after it stay empty (standard competition ranking), so a tie for
+ * 2nd between two players must be followed by 4th, not 3rd.
+ *
  * @param results - Array of player results to validate
  * @throws ValidationError if results are invalid
  */
@@ -194,6 +199,17 @@ export function validatePlayerResults(results: PlayerResult[]): void {
       `Must have exactly one player in 1st place (found ${firstPlaceCount})`
     );
   }
+
+  // Ensure no position falls inside the span of an earlier tie
+  const groups = groupTiedResults(results);
+  groups.forEach((group, index) => {
+    const next = groups[index + 1];
+    if (next && next.position <= group.positionEnd) {
+      throw new ValidationError(
+        `Position ${next.position} overlaps the tie for positions ${group.position}-${group.positionEnd}`
+      );
+    }
+  });
 }
 
 /**
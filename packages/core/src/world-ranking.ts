@@ -0,0 +1,101 @@
+import { getConfig } from './config.js';
+import { isPlayerRated } from './base-value.js';
+import type { RankingCandidate, WorldRankingEntry } from './types.js';
+
+/**
+ * Calculates total ranking points from a player's decayed event points
+ *
+ * Only the top 15 events (by decayed points) count toward the total
+ *
+ * @param eventPoints - Decayed points earned in each event
+ * @returns Sum of the best TOP_EVENTS_COUNT decayed point values
+ *
+ * @example
+ * ```typescript
+ * const total = calculateRankingPoints([10, 25, 5]);
+ * // Returns 40
+ * ```
+ */
+export function calculateRankingPoints(eventPoints: number[]): number {
+  return getTopEventPoints(eventPoints).reduce((sum, points) => sum + points, 0);
+}
+
+/**
+ * Gets the decayed point values that count toward a player's ranking
+ *
+ * @param eventPoints - Decayed points earned in each event
+ * @returns Top TOP_EVENTS_COUNT values, highest first
+ */
+export function getTopEventPoints(eventPoints: number[]): number[] {
+  const config = getConfig();
+  return [...eventPoints].sort((a, b) => b - a).slice(0, config.RANKING.TOP_EVENTS_COUNT);
+}
+
+/**
+ * Compares two ranking entries for ordering
+ *
+ * Tie-breaks are applied in order so rankings are always deterministic:
+ * 1. Total ranking points (higher first)
+ * 2. Best single event (higher first)
+ * 3. Events played (more first)
+ * 4. Player ID (lexicographic)
+ */
+function compareRankingEntries(
+  a: WorldRankingEntry & { bestEvent: number },
+  b: WorldRankingEntry & { bestEvent: number }
+): number {
+  if (a.totalPoints !== b.totalPoints) return b.totalPoints - a.totalPoints;
+  if (a.bestEvent !== b.bestEvent) return b.bestEvent - a.bestEvent;
+  if (a.eventCount !== b.eventCount) return b.eventCount - a.eventCount;
+  if (a.playerId < b.playerId) return -1;
+  if (a.playerId > b.playerId) return 1;
+  return 0;
+}
+
+/**
+ * Calculates world rankings for a set of players
+ *
+ * Each player's total is the sum of their top 15 decayed event points.
+ * Only rated players (at least RATED_PLAYER_THRESHOLD events) receive a
+ * ranking; unrated players are returned with a null ranking.
+ *
+ * @param candidates - Players with their decayed event points
+ * @returns Ranking entries sorted by ranking (rated players first)
+ *
+ * @example
+ * ```typescript
+ * const rankings = calculateWorldRankings([
+ *   { playerId: 'a', eventPoints: [30, 20, 10, 5, 5] },
+ *   { playerId: 'b', eventPoints: [50, 10, 10, 5, 1] },
+ *   { playerId: 'c', eventPoints: [90] },
+ * ]);
+ * // b is ranked 1, a is ranked 2, c is unrated (ranking: null)
+ * ```
+ */
+export function calculateWorldRankings(candidates: RankingCandidate[]): WorldRankingEntry[] {
+  const entries = candidates.map((candidate) => {
+    const topPoints = getTopEventPoints(candidate.eventPoints);
+    const eventCount = candidate.eventPoints.length;
+
+    return {
+      playerId: candidate.playerId,
+      totalPoints: topPoints.reduce((sum, points) => sum + points, 0),
+      countedEvents: topPoints.length,
+      eventCount,
+      isRated: isPlayerRated(eventCount),
+      ranking: null as number | null,
+      bestEvent: topPoints[0] ?? 0,
+    };
+  });
+
+  entries.sort((a, b) => {
+    if (a.isRated !== b.isRated) return a.isRated ? -1 : 1;
+    return compareRankingEntries(a, b);
+  });
+
+  let nextRanking = 1;
+  return entries.map(({ bestEvent: _bestEvent, ...entry }) => ({
+    ...entry,
+    ranking: entry.isRated ? nextRanking++ : null,
+  }));
+}
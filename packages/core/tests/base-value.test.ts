@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { calculateBaseValue, countRatedPlayers, isPlayerRated } from '../src/base-value.js';
+import {
+  calculateBaseValue,
+  explainBaseValue,
+  countRatedPlayers,
+  isPlayerRated,
+} from '../src/base-value.js';
 import { resetConfig, configureOPPR } from '../src/config.js';
 import type { Player } from '../src/types.js';
 
@@ -69,6 +74,39 @@ describe('calculateBaseValue', () => {
   });
 });
 
+describe('explainBaseValue', () => {
+  const makePlayers = (count: number): Player[] =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `${i}`,
+      rating: 1500,
+      ranking: i + 1,
+      isRated: i % 2 === 0,
+    }));
+
+  it('should match calculateBaseValue', () => {
+    const players = makePlayers(20);
+    expect(explainBaseValue(players).value).toBe(calculateBaseValue(players));
+  });
+
+  it('should describe the rated player count', () => {
+    const trace = explainBaseValue(makePlayers(20));
+
+    expect(trace.capped).toBe(false);
+    expect(trace.steps).toHaveLength(1);
+    expect(trace.steps[0].description).toContain('10 of 20 players are rated');
+    expect(trace.steps[0].value).toBe(5);
+  });
+
+  it('should report when the maximum base value is reached', () => {
+    const trace = explainBaseValue(makePlayers(200));
+
+    expect(trace.capped).toBe(true);
+    expect(trace.value).toBe(32);
+    expect(trace.steps[0].value).toBe(50);
+    expect(trace.steps[1].description).toContain('Capped');
+  });
+});
+
 describe('countRatedPlayers', () => {
   it('should count only rated players', () => {
     const players: Player[] = [
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { parsePlayerCSV, ValidationError } from '../src/index.js';
+import { parsePlayerCSV, parseResultsCSV, ValidationError } from '../src/index.js';
 import { resetConfig } from '../src/config.js';
 import type { ParsePlayerCSVOptions } from '../src/index.js';
 
@@ -383,3 +383,255 @@ describe('parsePlayerCSV', () => {
     });
   });
 });
+
+describe('parseResultsCSV', () => {
+  describe('header detection', () => {
+    it('should find columns by header name in any order', () => {
+      const csv = `Name,Finals,Position,Player Number,Opted Out
+Alice Johnson,yes,1,10001,no
+Bob Smith,no,2,,yes`;
+
+      const result = parseResultsCSV(csv);
+
+      expect(result).toEqual([
+        {
+          line: 2,
+          position: 1,
+          name: 'Alice Johnson',
+          playerNumber: 10001,
+          externalId: undefined,
+          optedOut: false,
+          isFinals: true,
+        },
+        {
+          line: 3,
+          position: 2,
+          name: 'Bob Smith',
+          playerNumber: undefined,
+          externalId: undefined,
+          optedOut: true,
+          isFinals: false,
+        },
+      ]);
+    });
+
+    it('should read an email column', () => {
+      const csv = `Position,Name,E-mail
+1,Alice Johnson,alice@example.com
+2,Bob Smith,`;
+
+      const result = parseResultsCSV(csv);
+
+      expect(result[0].email).toBe('alice@example.com');
+      expect(result[1].email).toBeUndefined();
+    });
+
+    it('should match header names ignoring case, spaces and punctuation', () => {
+      const csv = `"PLACE","Player Name","External-ID"
+1,Alice Johnson,ifpa:123`;
+
+      const [row] = parseResultsCSV(csv);
+
+      expect(row.position).toBe(1);
+      expect(row.name).toBe('Alice Johnson');
+      expect(row.externalId).toBe('ifpa:123');
+    });
+
+    it('should read rows without a header in the default column order', () => {
+      const csv = `1,Alice Johnson,10001,ifpa:1,no,yes
+2,Bob Smith`;
+
+      const result = parseResultsCSV(csv);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        line: 1,
+        position: 1,
+        name: 'Alice Johnson',
+        playerNumber: 10001,
+        externalId: 'ifpa:1',
+        optedOut: false,
+        isFinals: true,
+      });
+      expect(result[1]).toMatchObject({ line: 2, position: 2, name: 'Bob Smith', isFinals: false });
+    });
+
+    it('should treat the first line as data when hasHeader is false', () => {
+      const csv = `1,Name`;
+
+      const result = parseResultsCSV(csv, { hasHeader: false });
+
+      expect(result).toEqual([expect.objectContaining({ position: 1, name: 'Name' })]);
+    });
+  });
+
+  describe('delimiters', () => {
+    it('should detect tab-separated values', () => {
+      const tsv = 'Position\tName\n1\tSmith, Alice\n2\tBob';
+
+      const result = parseResultsCSV(tsv);
+
+      expect(result.map((r) => r.name)).toEqual(['Smith, Alice', 'Bob']);
+    });
+
+    it('should use a given delimiter', () => {
+      const csv = 'Position;Name\n1;Alice';
+
+      const result = parseResultsCSV(csv, { delimiter: ';' });
+
+      expect(result[0]).toMatchObject({ position: 1, name: 'Alice' });
+    });
+
+    it('should handle Windows line endings and blank lines', () => {
+      const csv = 'Position,Name\r\n1,Alice\r\n\r\n2,Bob\r\n';
+
+      const result = parseResultsCSV(csv);
+
+      expect(result.map((r) => [r.line, r.name])).toEqual([
+        [2, 'Alice'],
+        [4, 'Bob'],
+      ]);
+    });
+  });
+
+  describe('column mapping', () => {
+    it('should map columns to other header names', () => {
+      const csv = `Finish,Who,Member #
+1,Alice,10001`;
+
+      const [row] = parseResultsCSV(csv, {
+        columns: { name: 'Who', playerNumber: 'Member #' },
+      });
+
+      expect(row).toMatchObject({ position: 1, name: 'Alice', playerNumber: 10001 });
+    });
+
+    it('should map columns to indexes', () => {
+      const csv = `Alice,3
+Bob,1`;
+
+      const result = parseResultsCSV(csv, { columns: { name: 0, position: 1 } });
+
+      expect(result.map((r) => [r.name, r.position])).toEqual([
+        ['Alice', 3],
+        ['Bob', 1],
+      ]);
+    });
+
+    it('should throw when a mapped header is missing', () => {
+      const csv = `Position,Name
+1,Alice`;
+
+      expect(() => parseResultsCSV(csv, { columns: { playerNumber: 'Member' } })).toThrow(
+        'Column "Member" for playerNumber not found in header'
+      );
+    });
+
+    it('should throw when mapping a header name without a header row', () => {
+      const csv = `1,Alice`;
+
+      expect(() => parseResultsCSV(csv, { hasHeader: false, columns: { name: 'Name' } })).toThrow(
+        'requires a header row'
+      );
+    });
+  });
+
+  describe('positions', () => {
+    it('should keep tied positions', () => {
+      const csv = `Position,Name
+1,Alice
+2,Bob
+2,Charlie
+4,Dana`;
+
+      const result = parseResultsCSV(csv);
+
+      expect(result.map((r) => r.position)).toEqual([1, 2, 2, 4]);
+    });
+
+    it('should place players in row order per stage without a position column', () => {
+      const csv = `Name,Finals
+Alice,yes
+Bob,no
+Charlie,yes`;
+
+      const result = parseResultsCSV(csv);
+
+      expect(result.map((r) => [r.name, r.position])).toEqual([
+        ['Alice', 1],
+        ['Bob', 1],
+        ['Charlie', 2],
+      ]);
+    });
+
+    it('should throw on an invalid position', () => {
+      const csv = `Position,Name
+1,Alice
+0,Bob`;
+
+      expect(() => parseResultsCSV(csv)).toThrow('Line 3: Invalid position: 0');
+    });
+  });
+
+  describe('validation', () => {
+    it('should throw on empty CSV', () => {
+      expect(() => parseResultsCSV('')).toThrow('CSV data is empty');
+    });
+
+    it('should throw when there are only headers', () => {
+      expect(() => parseResultsCSV('Position,Name')).toThrow('CSV contains no data rows');
+    });
+
+    it('should throw without a column identifying players', () => {
+      const csv = `Position,Opted Out
+1,no`;
+
+      expect(() => parseResultsCSV(csv)).toThrow(
+        'CSV needs a name, player number or external ID column'
+      );
+    });
+
+    it('should throw when a row does not identify its player', () => {
+      const csv = `Position,Name,Player Number
+1,Alice,
+2,,`;
+
+      expect(() => parseResultsCSV(csv)).toThrow(
+        'Line 3: Name, player number or external ID is required'
+      );
+    });
+
+    it('should throw on an invalid player number', () => {
+      const csv = `Position,Player Number
+1,12a45`;
+
+      expect(() => parseResultsCSV(csv)).toThrow('Line 2: Invalid player number: 12a45');
+    });
+
+    it('should throw on an invalid flag', () => {
+      const csv = `Position,Name,Opted Out
+1,Alice,maybe`;
+
+      expect(() => parseResultsCSV(csv)).toThrow(ValidationError);
+      expect(() => parseResultsCSV(csv)).toThrow('Line 2: Invalid optedOut value: maybe');
+    });
+
+    it('should throw on a duplicate player within a stage', () => {
+      const csv = `Position,Player Number
+1,10001
+2,10001`;
+
+      expect(() => parseResultsCSV(csv)).toThrow('Line 3: Duplicate player number: 10001');
+    });
+
+    it('should allow a player in both qualifying and finals', () => {
+      const csv = `Position,External ID,Finals
+1,ifpa:1,no
+1,ifpa:1,yes`;
+
+      const result = parseResultsCSV(csv);
+
+      expect(result).toHaveLength(2);
+    });
+  });
+});
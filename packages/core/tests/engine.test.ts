@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createOPPREngine } from '../src/engine.js';
+import { configureOPPR, resetConfig, getConfig } from '../src/config.js';
+import { calculateBaseValue } from '../src/base-value.js';
+import { evaluateTournament } from '../src/tournament-evaluation.js';
+import { ValidationError } from '../src/validators.js';
+import { DEFAULT_CONSTANTS } from '../src/constants.js';
+import type { Player, PlayerResult, Tournament } from '../src/types.js';
+
+beforeEach(() => {
+  resetConfig();
+});
+
+const players: Player[] = Array.from({ length: 10 }, (_, i) => ({
+  id: `${i + 1}`,
+  rating: 1800 - i * 20,
+  ranking: i + 1,
+  isRated: true,
+}));
+
+const tournament: Tournament = {
+  id: 't1',
+  name: 'Engine Test',
+  date: new Date('2024-06-01'),
+  players,
+  tgpConfig: {
+    qualifying: { type: 'limited', meaningfulGames: 7 },
+    finals: { formatType: 'match-play', meaningfulGames: 12, fourPlayerGroups: true },
+  },
+  eventBooster: 'none',
+};
+
+const results: PlayerResult[] = players.map((player, i) => ({ player, position: i + 1 }));
+
+describe('createOPPREngine', () => {
+  it('should use default constants when no config is given', () => {
+    const engine = createOPPREngine();
+
+    expect(engine.config).toEqual(DEFAULT_CONSTANTS);
+    expect(engine.calculateBaseValue(players)).toBe(calculateBaseValue(players));
+    expect(engine.evaluateTournament(tournament, results)).toEqual(
+      evaluateTournament(tournament, results)
+    );
+  });
+
+  it('should apply its own config overrides', () => {
+    const engine = createOPPREngine({ BASE_VALUE: { POINTS_PER_PLAYER: 1.0 } });
+
+    expect(engine.calculateBaseValue(players)).toBe(10);
+    expect(engine.config.BASE_VALUE.MAX_BASE_VALUE).toBe(
+      DEFAULT_CONSTANTS.BASE_VALUE.MAX_BASE_VALUE
+    );
+  });
+
+  it('should use its config in nested calculations', () => {
+    const standard = createOPPREngine();
+    const major = createOPPREngine({ EVENT_BOOSTERS: { NONE: 2.0 } });
+
+    const standardValue = standard.evaluateTournament(tournament, results).value;
+    const majorValue = major.evaluateTournament(tournament, results).value;
+
+    expect(majorValue.firstPlaceValue).toBeCloseTo(standardValue.firstPlaceValue * 2, 10);
+  });
+
+  it('should not change the global configuration', () => {
+    const engine = createOPPREngine({ BASE_VALUE: { POINTS_PER_PLAYER: 1.0 } });
+
+    engine.calculateBaseValue(players);
+
+    expect(getConfig().BASE_VALUE.POINTS_PER_PLAYER).toBe(0.5);
+    expect(calculateBaseValue(players)).toBe(5);
+  });
+
+  it('should not be affected by configureOPPR', () => {
+    const engine = createOPPREngine();
+
+    configureOPPR({ BASE_VALUE: { POINTS_PER_PLAYER: 2.0 } });
+
+    expect(engine.calculateBaseValue(players)).toBe(5);
+    expect(calculateBaseValue(players)).toBe(20);
+  });
+
+  it('should allow engines with different configs side by side', () => {
+    const a = createOPPREngine({ BASE_VALUE: { POINTS_PER_PLAYER: 1.0 } });
+    const b = createOPPREngine({ BASE_VALUE: { POINTS_PER_PLAYER: 0.25 } });
+
+    expect(a.calculateBaseValue(players)).toBe(10);
+    expect(b.calculateBaseValue(players)).toBe(2.5);
+    expect(a.calculateBaseValue(players)).toBe(10);
+  });
+
+  it('should restore the global config when a calculation throws', () => {
+    const engine = createOPPREngine({ VALIDATION: { MIN_PLAYERS: 20 } });
+
+    expect(() => engine.evaluateTournament(tournament, results)).toThrow(ValidationError);
+    expect(getConfig().VALIDATION.MIN_PLAYERS).toBe(DEFAULT_CONSTANTS.VALIDATION.MIN_PLAYERS);
+    expect(() => evaluateTournament(tournament, results)).not.toThrow();
+  });
+
+  it('should have an immutable config', () => {
+    const engine = createOPPREngine();
+
+    expect(Object.isFrozen(engine.config)).toBe(true);
+    expect(Object.isFrozen(engine.config.BASE_VALUE)).toBe(true);
+    expect(Object.isFrozen(engine)).toBe(true);
+    expect(Object.isFrozen(DEFAULT_CONSTANTS.BASE_VALUE)).toBe(false);
+  });
+});
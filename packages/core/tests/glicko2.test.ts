@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { updateGlicko2Rating } from '../src/glicko2.js';
+import { resetConfig, configureOPPR } from '../src/config.js';
+import type { RatingUpdate } from '../src/types.js';
+import { DEFAULT_CONSTANTS } from '../src/constants.js';
+const RATING = DEFAULT_CONSTANTS.RATING;
+
+beforeEach(() => {
+  resetConfig();
+});
+
+// Worked example from Glickman's "Example of the Glicko-2 system"
+const paperExample: RatingUpdate = {
+  currentRating: 1500,
+  currentRD: 200,
+  currentVolatility: 0.06,
+  results: [
+    { opponentRating: 1400, opponentRD: 30, score: 1 },
+    { opponentRating: 1550, opponentRD: 100, score: 0 },
+    { opponentRating: 1700, opponentRD: 300, score: 0 },
+  ],
+};
+
+describe('updateGlicko2Rating', () => {
+  it('should match the worked example from the Glicko-2 paper', () => {
+    const result = updateGlicko2Rating(paperExample);
+
+    expect(result.newRating).toBeCloseTo(1464.06, 1);
+    expect(result.newRD).toBeCloseTo(151.52, 1);
+    expect(result.newVolatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('should return current values when there are no results', () => {
+    const result = updateGlicko2Rating({
+      currentRating: 1500,
+      currentRD: 100,
+      currentVolatility: 0.07,
+      results: [],
+    });
+
+    expect(result).toEqual({ newRating: 1500, newRD: 100, newVolatility: 0.07 });
+  });
+
+  it('should use the default volatility when none is given', () => {
+    const result = updateGlicko2Rating({ ...paperExample, currentVolatility: undefined });
+
+    expect(result.newVolatility).toBeCloseTo(RATING.GLICKO2.DEFAULT_VOLATILITY, 3);
+  });
+
+  it('should increase volatility after surprising results', () => {
+    const result = updateGlicko2Rating({
+      currentRating: 1500,
+      currentRD: 50,
+      currentVolatility: 0.06,
+      results: Array.from({ length: 10 }, () => ({
+        opponentRating: 1900,
+        opponentRD: 50,
+        score: 1,
+      })),
+    });
+
+    expect(result.newVolatility).toBeGreaterThan(0.06);
+    expect(result.newRating).toBeGreaterThan(1500);
+  });
+
+  it('should decrease volatility after expected results', () => {
+    const result = updateGlicko2Rating({
+      currentRating: 1500,
+      currentRD: 50,
+      currentVolatility: 0.06,
+      results: Array.from({ length: 10 }, () => ({
+        opponentRating: 1500,
+        opponentRD: 50,
+        score: 0.5,
+      })),
+    });
+
+    expect(result.newVolatility).toBeLessThan(0.06);
+  });
+
+  it('should limit volatility changes with a smaller tau', () => {
+    const surprising: RatingUpdate = {
+      currentRating: 1500,
+      currentRD: 50,
+      currentVolatility: 0.06,
+      results: [{ opponentRating: 2000, opponentRD: 50, score: 1 }],
+    };
+    const loose = updateGlicko2Rating(surprising);
+    configureOPPR({ RATING: { GLICKO2: { TAU: 0.2 } } });
+    const constrained = updateGlicko2Rating(surprising);
+
+    expect(constrained.newVolatility - 0.06).toBeLessThan(loose.newVolatility - 0.06);
+  });
+
+  it('should not depend on the default rating', () => {
+    const before = updateGlicko2Rating(paperExample);
+    configureOPPR({ RATING: { DEFAULT_RATING: 1300 } });
+
+    expect(updateGlicko2Rating(paperExample)).toEqual(before);
+  });
+
+  it('should clamp RD to the configured range', () => {
+    const result = updateGlicko2Rating({
+      currentRating: 1500,
+      currentRD: 15,
+      results: Array.from({ length: 50 }, () => ({
+        opponentRating: 1500,
+        opponentRD: 10,
+        score: 0.5,
+      })),
+    });
+
+    expect(result.newRD).toBeGreaterThanOrEqual(RATING.MIN_RD);
+    expect(result.newRD).toBeLessThanOrEqual(RATING.MAX_RD);
+  });
+
+  it('should round rating to 2 decimal places', () => {
+    const result = updateGlicko2Rating(paperExample);
+    const decimalPlaces = (result.newRating.toString().split('.')[1] || '').length;
+
+    expect(decimalPlaces).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildPlayerProfile, type PlayerEventInput } from '../src/player-profile.js';
+import { calculateWorldRankings } from '../src/world-ranking.js';
+import { createOPPREngine } from '../src/engine.js';
+import { resetConfig, configureOPPR } from '../src/config.js';
+import type { Player } from '../src/types.js';
+
+beforeEach(() => {
+  resetConfig();
+});
+
+const player: Player = { id: 'p1', rating: 1500, ranking: 10, isRated: true };
+const referenceDate = new Date('2024-06-01');
+
+const createEvent = (
+  id: string,
+  date: string,
+  pointsEarned: number,
+  firstPlaceValue = 50,
+  position = 1
+): PlayerEventInput => ({
+  tournament: { id, name: `Tournament ${id}`, date: new Date(date) },
+  position,
+  pointsEarned,
+  firstPlaceValue,
+});
+
+describe('buildPlayerProfile', () => {
+  it('should decay events to the reference date', () => {
+    const profile = buildPlayerProfile(
+      player,
+      [createEvent('recent', '2024-04-01', 40), createEvent('older', '2022-03-01', 20)],
+      { referenceDate }
+    );
+
+    const [recent, older] = profile.events;
+    expect(recent).toMatchObject({ decayMultiplier: 1, decayedPoints: 40, ageInDays: 61 });
+    expect(older).toMatchObject({ decayMultiplier: 0.5, decayedPoints: 10 });
+    expect(older?.date).toEqual(new Date('2022-03-01'));
+  });
+
+  it('should drop fully decayed events', () => {
+    const profile = buildPlayerProfile(
+      player,
+      [createEvent('active', '2024-01-01', 30), createEvent('expired', '2020-01-01', 50)],
+      { referenceDate }
+    );
+
+    expect(profile.events.map((e) => e.tournament.id)).toEqual(['active']);
+  });
+
+  it('should list events most recent first', () => {
+    const profile = buildPlayerProfile(
+      player,
+      [
+        createEvent('a', '2023-01-01', 10),
+        createEvent('b', '2024-01-01', 10),
+        createEvent('c', '2023-06-01', 10),
+      ],
+      { referenceDate }
+    );
+
+    expect(profile.events.map((e) => e.tournament.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should count the top 15 events by decayed points', () => {
+    const events = Array.from({ length: 20 }, (_, i) =>
+      createEvent(`t${i + 1}`, '2024-01-01', i + 1)
+    );
+
+    const profile = buildPlayerProfile(player, events, { referenceDate });
+
+    expect(profile.events).toHaveLength(20);
+    expect(profile.top15Events).toHaveLength(15);
+    expect(profile.top15Events[0]?.tournament.id).toBe('t20');
+    // 6 + 7 + ... + 20
+    expect(profile.totalPoints).toBe(195);
+  });
+
+  it('should match world ranking points', () => {
+    const events = [
+      createEvent('a', '2024-01-01', 30),
+      createEvent('b', '2023-01-01', 40),
+      createEvent('c', '2022-01-01', 20),
+      createEvent('d', '2023-09-01', 5),
+      createEvent('e', '2024-05-01', 12),
+    ];
+
+    const profile = buildPlayerProfile(player, events, { referenceDate });
+    const [ranking] = calculateWorldRankings([
+      { playerId: player.id, eventPoints: profile.events.map((e) => e.decayedPoints) },
+    ]);
+
+    expect(profile.totalPoints).toBe(ranking?.totalPoints);
+  });
+
+  it('should calculate overall efficiency of active events', () => {
+    const profile = buildPlayerProfile(
+      player,
+      [createEvent('a', '2024-01-01', 30, 50), createEvent('b', '2024-02-01', 10, 50)],
+      { referenceDate }
+    );
+
+    expect(profile.efficiency).toBeCloseTo(40, 10);
+  });
+
+  it('should return an empty profile for a player without events', () => {
+    expect(buildPlayerProfile(player, [], { referenceDate })).toEqual({
+      player,
+      events: [],
+      top15Events: [],
+      totalPoints: 0,
+      efficiency: 0,
+    });
+  });
+
+  it('should use the configured number of counting events', () => {
+    configureOPPR({ RANKING: { TOP_EVENTS_COUNT: 2 } });
+    const events = [10, 20, 30].map((points, i) => createEvent(`t${i}`, '2024-01-01', points));
+
+    const profile = buildPlayerProfile(player, events, { referenceDate });
+
+    expect(profile.top15Events.map((e) => e.decayedPoints)).toEqual([30, 20]);
+    expect(profile.totalPoints).toBe(50);
+  });
+
+  it('should be available on engines', () => {
+    const engine = createOPPREngine({ RANKING: { TOP_EVENTS_COUNT: 1 } });
+    const events = [createEvent('a', '2024-01-01', 10), createEvent('b', '2024-01-01', 20)];
+
+    expect(engine.buildPlayerProfile(player, events, { referenceDate }).totalPoints).toBe(20);
+  });
+});
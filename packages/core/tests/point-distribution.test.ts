@@ -3,7 +3,9 @@ import {
   calculateLinearPoints,
   calculateDynamicPoints,
   calculatePlayerPoints,
+  groupTiedResults,
   distributePoints,
+  explainPointDistribution,
   getPointsForPosition,
   calculatePositionPercentage,
 } from '../src/point-distribution.js';
@@ -116,6 +118,69 @@ describe('distributePoints', () => {
   });
 });
 
+describe('groupTiedResults', () => {
+  const createResult = (id: string, position: number): PlayerResult => ({
+    player: { id, rating: 1500, ranking: 1, isRated: true },
+    position,
+  });
+
+  it('should group players sharing a position in position order', () => {
+    const groups = groupTiedResults([
+      createResult('d', 4),
+      createResult('b', 2),
+      createResult('a', 1),
+      createResult('c', 2),
+    ]);
+
+    expect(groups.map((g) => [g.position, g.positionEnd])).toEqual([
+      [1, 1],
+      [2, 3],
+      [4, 4],
+    ]);
+    expect(groups[1].results.map((r) => r.player.id)).toEqual(['b', 'c']);
+  });
+
+  it('should return no groups for no results', () => {
+    expect(groupTiedResults([])).toEqual([]);
+  });
+});
+
+describe('distributePoints with ties', () => {
+  const createResults = (positions: number[]): PlayerResult[] =>
+    positions.map((position, i) => ({
+      player: { id: `${i}`, rating: 1500, ranking: i + 1, isRated: true },
+      position,
+    }));
+
+  it('should give tied players the average points of the positions they span', () => {
+    const distributions = distributePoints(createResults([1, 2, 3, 4, 5, 5, 7, 8, 9, 10]), 100);
+    const untied = distributePoints(createResults([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]), 100);
+
+    const expectedLinear = (untied[4].linearPoints + untied[5].linearPoints) / 2;
+    const expectedDynamic = (untied[4].dynamicPoints + untied[5].dynamicPoints) / 2;
+    expect(distributions[4].linearPoints).toBeCloseTo(expectedLinear, 10);
+    expect(distributions[4].dynamicPoints).toBeCloseTo(expectedDynamic, 10);
+    expect(distributions[5].totalPoints).toBe(distributions[4].totalPoints);
+    expect(distributions[6].totalPoints).toBeCloseTo(untied[6].totalPoints, 10);
+  });
+
+  it('should award the same total points as untied results', () => {
+    const sum = (results: PlayerResult[]): number =>
+      distributePoints(results, 100).reduce((total, d) => total + d.totalPoints, 0);
+
+    expect(sum(createResults([1, 2, 2, 4, 4, 4, 7, 8]))).toBeCloseTo(
+      sum(createResults([1, 2, 3, 4, 5, 6, 7, 8])),
+      10
+    );
+  });
+
+  it('should keep the position of tied players', () => {
+    const distributions = distributePoints(createResults([1, 2, 2]), 100);
+
+    expect(distributions.map((d) => d.position)).toEqual([1, 2, 2]);
+  });
+});
+
 describe('getPointsForPosition', () => {
   it('should return total points for a position', () => {
     const points = getPointsForPosition(1, 10, 10, 100);
@@ -336,3 +401,58 @@ describe('Configuration Tests', () => {
     });
   });
 });
+
+describe('explainPointDistribution', () => {
+  const createResults = (count: number, ratedCount: number): PlayerResult[] =>
+    Array.from({ length: count }, (_, i) => ({
+      player: { id: `${i}`, rating: 1500, ranking: i + 1, isRated: i < ratedCount },
+      position: i + 1,
+    }));
+
+  it('should count active, rated and opted-out players', () => {
+    const results = createResults(10, 8).map((r) =>
+      r.position === 10 ? { ...r, optedOut: true } : r
+    );
+
+    const trace = explainPointDistribution(results, 100);
+
+    expect(trace.activePlayerCount).toBe(9);
+    expect(trace.ratedPlayerCount).toBe(8);
+    expect(trace.optedOutCount).toBe(1);
+    expect(trace.dynamicPositions).toBe(4);
+  });
+
+  it('should match the positions that receive dynamic points', () => {
+    const results = createResults(15, 9);
+
+    const trace = explainPointDistribution(results, 100);
+    const withDynamic = distributePoints(results, 100).filter((d) => d.dynamicPoints > 0);
+
+    expect(trace.dynamicPositions).toBe(withDynamic.length);
+  });
+
+  it('should describe the dynamic range cap', () => {
+    const trace = explainPointDistribution(createResults(200, 200), 100);
+
+    expect(trace.dynamicPositions).toBe(64);
+    expect(trace.steps[2].description).toContain('capped at 64');
+  });
+
+  it('should count positions shared by tied players', () => {
+    const results = createResults(8, 8).map((r) =>
+      r.position === 3 || r.position === 6 ? { ...r, position: r.position - 1 } : r
+    );
+
+    const trace = explainPointDistribution(results, 100);
+
+    expect(trace.tiedPositionCount).toBe(2);
+    expect(trace.steps[3].description).toContain('2 tied positions');
+  });
+
+  it('should not describe ties when there are none', () => {
+    const trace = explainPointDistribution(createResults(8, 8), 100);
+
+    expect(trace.tiedPositionCount).toBe(0);
+    expect(trace.steps).toHaveLength(3);
+  });
+});
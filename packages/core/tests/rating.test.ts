@@ -1,13 +1,26 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
   updateRating,
+  updateGlickoRating,
+  getRatingStrategy,
+  RATING_STRATEGIES,
   applyRDDecay,
+  applyInactivityRDDecay,
   simulateTournamentMatches,
+  simulateGameMatches,
   createNewPlayerRating,
   isProvisionalRating,
 } from '../src/rating.js';
-import { resetConfig } from '../src/config.js';
-import type { RatingUpdate, PlayerResult, Player } from '../src/types.js';
+import { updateGlicko2Rating } from '../src/glicko2.js';
+import { resetConfig, configureOPPR } from '../src/config.js';
+import { ValidationError } from '../src/validators.js';
+import type {
+  RatingUpdate,
+  RatingStrategyName,
+  PlayerResult,
+  Player,
+  GameResult,
+} from '../src/types.js';
 import { DEFAULT_CONSTANTS } from '../src/constants.js';
 const RATING = DEFAULT_CONSTANTS.RATING;
 
@@ -285,6 +298,18 @@ describe('applyRDDecay', () => {
   });
 });
 
+describe('applyInactivityRDDecay', () => {
+  it('should keep RD within RD_DECAY_THRESHOLD_DAYS of the last event', () => {
+    expect(applyInactivityRDDecay(50, RATING.RD_DECAY_THRESHOLD_DAYS)).toBe(50);
+  });
+
+  it('should decay RD for every day once past the threshold', () => {
+    const days = RATING.RD_DECAY_THRESHOLD_DAYS + 1;
+
+    expect(applyInactivityRDDecay(50, days)).toBe(applyRDDecay(50, days));
+  });
+});
+
 describe('simulateTournamentMatches', () => {
   const createPlayer = (id: string, rating: number, rd = 100): Player => ({
     id,
@@ -322,6 +347,23 @@ describe('simulateTournamentMatches', () => {
     expect(matches.some((m) => m.score === 0.5)).toBe(true);
   });
 
+  it('should draw against the other tied players when given a player ID', () => {
+    const results: PlayerResult[] = [
+      { player: createPlayer('1', 1800), position: 1 },
+      { player: createPlayer('2', 1700), position: 2 },
+      { player: createPlayer('3', 1600), position: 2 },
+      { player: createPlayer('4', 1500), position: 4 },
+    ];
+
+    const matches = simulateTournamentMatches(2, results, '3');
+
+    expect(matches).toEqual([
+      { opponentRating: 1800, opponentRD: expect.any(Number), score: 0 },
+      { opponentRating: 1700, opponentRD: expect.any(Number), score: 0.5 },
+      { opponentRating: 1500, opponentRD: expect.any(Number), score: 1 },
+    ]);
+  });
+
   it('should limit to OPPONENTS_RANGE above and below', () => {
     const results: PlayerResult[] = [];
     // Create 100 players
@@ -435,6 +477,68 @@ describe('simulateTournamentMatches', () => {
   });
 });
 
+describe('simulateGameMatches', () => {
+  const players: Player[] = [
+    { id: '1', rating: 1800, ranking: 1, isRated: true, ratingDeviation: 50 },
+    { id: '2', rating: 1700, ranking: 2, isRated: true, ratingDeviation: 60 },
+    { id: '3', rating: 1600, ranking: 3, isRated: true, ratingDeviation: 70 },
+    { id: '4', rating: 1500, ranking: 4, isRated: true },
+  ];
+
+  const group = (...order: string[]): GameResult => ({
+    placements: order.map((playerId, i) => ({ playerId, placement: i + 1 })),
+  });
+
+  it('should turn a 4-player group into pairwise outcomes by placement', () => {
+    const matches = simulateGameMatches('2', [group('1', '2', '3', '4')], players);
+
+    expect(matches).toEqual([
+      { opponentRating: 1800, opponentRD: 50, score: 0 },
+      { opponentRating: 1600, opponentRD: 70, score: 1 },
+      { opponentRating: 1500, opponentRD: RATING.MAX_RD, score: 1 },
+    ]);
+  });
+
+  it('should combine outcomes from every game the player played', () => {
+    const games = [group('1', '2', '3', '4'), group('4', '3', '2', '1'), group('1', '3')];
+
+    const matches = simulateGameMatches('2', games, players);
+
+    expect(matches).toHaveLength(6);
+    expect(matches.filter((m) => m.score === 1)).toHaveLength(3);
+  });
+
+  it('should score equal placements as draws', () => {
+    const game: GameResult = {
+      placements: [
+        { playerId: '1', placement: 1 },
+        { playerId: '2', placement: 1 },
+      ],
+    };
+
+    expect(simulateGameMatches('1', [game], players)).toEqual([
+      { opponentRating: 1700, opponentRD: 60, score: 0.5 },
+    ]);
+  });
+
+  it('should ignore games without the player and unknown opponents', () => {
+    const matches = simulateGameMatches('1', [group('2', '3'), group('unknown', '1')], players);
+
+    expect(matches).toEqual([]);
+  });
+
+  it('should rate a player who beats stronger opponents higher', () => {
+    const games = [group('4', '1', '2', '3'), group('4', '2', '3', '1')];
+    const { newRating } = updateRating({
+      currentRating: 1500,
+      currentRD: 100,
+      results: simulateGameMatches('4', games, players),
+    });
+
+    expect(newRating).toBeGreaterThan(1500);
+  });
+});
+
 describe('createNewPlayerRating', () => {
   it('should return default rating and max RD', () => {
     const newPlayer = createNewPlayerRating();
@@ -487,3 +591,46 @@ describe('isProvisionalRating', () => {
     expect(isProvisionalRating(1000)).toBe(false);
   });
 });
+
+describe('rating strategies', () => {
+  const update: RatingUpdate = {
+    currentRating: 1500,
+    currentRD: 100,
+    currentVolatility: 0.06,
+    results: [
+      { opponentRating: 1600, opponentRD: 80, score: 1 },
+      { opponentRating: 1450, opponentRD: 90, score: 0 },
+    ],
+  };
+
+  it('should use Glicko-1 by default', () => {
+    expect(getRatingStrategy().name).toBe('glicko');
+    expect(updateRating(update)).toEqual(updateGlickoRating(update));
+  });
+
+  it('should use the configured strategy', () => {
+    configureOPPR({ RATING: { STRATEGY: 'glicko2' } });
+
+    expect(getRatingStrategy().name).toBe('glicko2');
+    expect(updateRating(update)).toEqual(updateGlicko2Rating(update));
+  });
+
+  it('should look up strategies by name', () => {
+    expect(getRatingStrategy('glicko2')).toBe(RATING_STRATEGIES.glicko2);
+  });
+
+  it('should reject unknown strategies', () => {
+    expect(() => getRatingStrategy('elo' as RatingStrategyName)).toThrow(ValidationError);
+  });
+
+  it('should leave volatility unchanged with Glicko-1', () => {
+    expect(updateGlickoRating(update).newVolatility).toBe(0.06);
+    expect(updateGlickoRating({ ...update, currentVolatility: undefined }).newVolatility).toBe(
+      RATING.GLICKO2.DEFAULT_VOLATILITY
+    );
+  });
+
+  it('should give new players the default volatility', () => {
+    expect(createNewPlayerRating().volatility).toBe(RATING.GLICKO2.DEFAULT_VOLATILITY);
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { replayHistory, type ReplayTournament } from '../src/replay.js';
+import { createOPPREngine } from '../src/engine.js';
+import { createRulesetRegistry, DEFAULT_RULESET } from '../src/rulesets.js';
+import { ValidationError } from '../src/validators.js';
+import { resetConfig, configureOPPR } from '../src/config.js';
+
+beforeEach(() => {
+  resetConfig();
+});
+
+const playerIds = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+// Tournament where players finish in the given order
+const createReplayTournament = (
+  id: string,
+  date: string,
+  order: string[] = playerIds
+): ReplayTournament => ({
+  tournament: {
+    id,
+    name: `Tournament ${id}`,
+    date: new Date(date),
+    tgpConfig: {
+      qualifying: { type: 'limited', meaningfulGames: 7 },
+      finals: { formatType: 'match-play', meaningfulGames: 12 },
+    },
+    eventBooster: 'none',
+  },
+  standings: order.map((playerId, i) => ({ playerId, position: i + 1 })),
+});
+
+const referenceDate = new Date('2025-01-01');
+
+describe('replayHistory', () => {
+  it('should replay tournaments in date order', () => {
+    const replay = replayHistory(
+      [
+        createReplayTournament('t2', '2024-06-01'),
+        createReplayTournament('t1', '2024-03-01'),
+        createReplayTournament('t3', '2024-06-01'),
+      ],
+      { referenceDate }
+    );
+
+    expect(replay.tournaments.map((t) => t.tournamentId)).toEqual(['t1', 't2', 't3']);
+    expect(replay.referenceDate).toBe(referenceDate);
+  });
+
+  it('should start every player with a new-player rating', () => {
+    const replay = replayHistory([createReplayTournament('t1', '2024-03-01')], { referenceDate });
+    const [first] = replay.tournaments;
+
+    for (const standing of first?.standings ?? []) {
+      expect(standing.ratingBefore).toBe(1300);
+      expect(standing.rdBefore).toBe(200);
+      expect(standing.rankingBefore).toBe(0);
+      expect(standing.ratedBefore).toBe(false);
+    }
+  });
+
+  it('should carry ratings from one tournament to the next', () => {
+    const replay = replayHistory(
+      [createReplayTournament('t1', '2024-03-01'), createReplayTournament('t2', '2024-03-01')],
+      { referenceDate }
+    );
+    const [first, second] = replay.tournaments;
+
+    expect(second?.standings[0]?.ratingBefore).toBe(first?.standings[0]?.ratingAfter);
+    expect(first?.standings[0]?.ratingAfter).toBeGreaterThan(1300);
+    expect(first?.standings[5]?.ratingAfter).toBeLessThan(1300);
+  });
+
+  it('should rate from individual games when a tournament has them', () => {
+    // Player f finished last but won the only game against a
+    const tournament: ReplayTournament = {
+      ...createReplayTournament('t1', '2024-03-01'),
+      games: [
+        {
+          placements: [
+            { playerId: 'f', placement: 1 },
+            { playerId: 'a', placement: 2 },
+          ],
+        },
+      ],
+    };
+
+    const [replayed] = replayHistory([tournament], { referenceDate }).tournaments;
+    const ratingAfter = (id: string): number | undefined =>
+      replayed?.standings.find((s) => s.playerId === id)?.ratingAfter;
+
+    expect(replayed?.ratingMethod).toBe('games');
+    expect(ratingAfter('f')).toBeGreaterThan(1300);
+    expect(ratingAfter('a')).toBeLessThan(1300);
+    expect(ratingAfter('c')).toBe(1300);
+  });
+
+  it('should rate from standings when a tournament has no games', () => {
+    const [replayed] = replayHistory([createReplayTournament('t1', '2024-03-01')], {
+      referenceDate,
+    }).tournaments;
+
+    expect(replayed?.ratingMethod).toBe('standings');
+  });
+
+  it('should decay rating deviation after more than 30 days without events', () => {
+    const replay = replayHistory(
+      [createReplayTournament('t1', '2024-01-01'), createReplayTournament('t2', '2024-02-01')],
+      { referenceDate }
+    );
+    const [first, second] = replay.tournaments;
+    const rdAfterFirst = first?.standings[0]?.rdAfter ?? 0;
+
+    // 31 days at 0.3 per day
+    expect(second?.standings[0]?.rdBefore).toBeCloseTo(rdAfterFirst + 9.3, 6);
+  });
+
+  it('should not decay rating deviation within 30 days of the last event', () => {
+    const replay = replayHistory(
+      [createReplayTournament('t1', '2024-01-01'), createReplayTournament('t2', '2024-01-31')],
+      { referenceDate }
+    );
+    const [first, second] = replay.tournaments;
+
+    expect(second?.standings[0]?.rdBefore).toBe(first?.standings[0]?.rdAfter);
+  });
+
+  it('should value tournaments from ratings and rankings on the tournament date', () => {
+    const tournaments = Array.from({ length: 6 }, (_, i) =>
+      createReplayTournament(`t${i + 1}`, `2024-0${i + 1}-01`)
+    );
+    const replay = replayHistory(tournaments, { referenceDate });
+    const values = replay.tournaments.map((t) => t.value);
+
+    // Nobody is rated or ranked before the sixth tournament
+    expect(values[0]?.baseValue).toBe(0);
+    expect(values[4]?.tvaRanking).toBe(0);
+    expect(values[5]?.baseValue).toBe(3);
+    expect(values[5]?.tvaRanking).toBeGreaterThan(0);
+  });
+
+  it('should decay points to the reference date', () => {
+    const replay = replayHistory(
+      [createReplayTournament('t1', '2023-06-01'), createReplayTournament('t2', '2024-06-01')],
+      { referenceDate }
+    );
+    const [older, recent] = replay.tournaments;
+
+    expect(older?.standings[0]?.decayMultiplier).toBe(0.75);
+    expect(older?.standings[0]?.ageInDays).toBe(580);
+    expect(older?.standings[0]?.decayedPoints).toBeCloseTo(
+      (older?.standings[0]?.totalPoints ?? 0) * 0.75,
+      10
+    );
+    expect(recent?.standings[0]?.decayMultiplier).toBe(1);
+  });
+
+  it('should rank players at the reference date', () => {
+    const tournaments = Array.from({ length: 5 }, (_, i) =>
+      createReplayTournament(`t${i + 1}`, `2024-0${i + 1}-01`, ['b', 'a', 'c', 'd', 'e', 'f'])
+    );
+    const replay = replayHistory(tournaments, { referenceDate });
+
+    expect(replay.players.map((p) => p.playerId)).toEqual(['b', 'a', 'c', 'd', 'e', 'f']);
+    expect(replay.players[0]).toMatchObject({
+      ranking: 1,
+      isRated: true,
+      eventCount: 5,
+      lastEventDate: new Date('2024-05-01'),
+    });
+  });
+
+  it('should leave players with fewer than 5 events unranked', () => {
+    const replay = replayHistory([createReplayTournament('t1', '2024-03-01')], { referenceDate });
+
+    expect(replay.players).toHaveLength(6);
+    expect(replay.players.every((p) => p.ranking === null && !p.isRated)).toBe(true);
+  });
+
+  it('should report progress after each tournament', () => {
+    const onProgress = vi.fn();
+    replayHistory(
+      [createReplayTournament('t2', '2024-06-01'), createReplayTournament('t1', '2024-03-01')],
+      { referenceDate, onProgress }
+    );
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ processed: 1, total: 2, tournamentId: 't1' }],
+      [{ processed: 2, total: 2, tournamentId: 't2' }],
+    ]);
+  });
+
+  it('should use the calculators returned for each tournament', () => {
+    const generous = createOPPREngine({ BASE_VALUE: { POINTS_PER_PLAYER: 1.0 } });
+    const tournaments = Array.from({ length: 6 }, (_, i) =>
+      createReplayTournament(`t${i + 1}`, `2024-0${i + 1}-01`)
+    );
+
+    const replay = replayHistory(tournaments, { referenceDate, engineFor: () => generous });
+
+    expect(replay.tournaments[5]?.value.baseValue).toBe(6);
+  });
+
+  it('should match a ruleset registry engine with default rulesets', () => {
+    const registry = createRulesetRegistry([DEFAULT_RULESET]);
+    const tournaments = [
+      createReplayTournament('t1', '2024-03-01'),
+      createReplayTournament('t2', '2024-04-01', ['f', 'e', 'd', 'c', 'b', 'a']),
+    ];
+
+    const withRegistry = replayHistory(tournaments, {
+      referenceDate,
+      engineFor: (tournament) => registry.getEngineForDate(tournament.date),
+    });
+
+    expect(withRegistry).toEqual(replayHistory(tournaments, { referenceDate }));
+  });
+
+  it('should use configured constants by default', () => {
+    configureOPPR({ RATING: { DEFAULT_RATING: 1500 } });
+    const replay = replayHistory([createReplayTournament('t1', '2024-03-01')], { referenceDate });
+
+    expect(replay.tournaments[0]?.standings[0]?.ratingBefore).toBe(1500);
+  });
+
+  it('should be available on engines', () => {
+    const engine = createOPPREngine({ RATING: { DEFAULT_RATING: 1500 } });
+    const replay = engine.replayHistory([createReplayTournament('t1', '2024-03-01')], {
+      referenceDate,
+    });
+
+    expect(replay.tournaments[0]?.standings[0]?.ratingBefore).toBe(1500);
+  });
+
+  it('should track volatility with Glicko-2', () => {
+    const glicko2 = createOPPREngine({ RATING: { STRATEGY: 'glicko2' } });
+    const replay = replayHistory(
+      [createReplayTournament('t1', '2024-03-01'), createReplayTournament('t2', '2024-04-01')],
+      { referenceDate, engineFor: () => glicko2 }
+    );
+    const [first, second] = replay.tournaments;
+
+    expect(first?.standings[0]?.volatilityBefore).toBe(0.06);
+    expect(first?.standings[0]?.volatilityAfter).not.toBe(0.06);
+    expect(second?.standings[0]?.volatilityBefore).toBe(first?.standings[0]?.volatilityAfter);
+    expect(replay.players.find((p) => p.playerId === 'a')?.volatility).toBe(
+      second?.standings[0]?.volatilityAfter
+    );
+  });
+
+  it('should identify the tournament in validation errors', () => {
+    const invalid = createReplayTournament('bad', '2024-03-01', ['a', 'b']);
+
+    expect(() => replayHistory([invalid], { referenceDate })).toThrow(ValidationError);
+    expect(() => replayHistory([invalid], { referenceDate })).toThrow(/^Tournament bad: /);
+  });
+
+  it('should return an empty replay when there are no tournaments', () => {
+    expect(replayHistory([], { referenceDate })).toEqual({
+      referenceDate,
+      tournaments: [],
+      players: [],
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRulesetRegistry, DEFAULT_RULESET, type Ruleset } from '../src/rulesets.js';
+import { evaluateTournament } from '../src/tournament-evaluation.js';
+import { ValidationError } from '../src/validators.js';
+import { resetConfig } from '../src/config.js';
+import type { Player, PlayerResult, Tournament } from '../src/types.js';
+
+beforeEach(() => {
+  resetConfig();
+});
+
+const ruleset2024: Ruleset = {
+  version: '2024.1',
+  name: 'OPPR 2024',
+  effectiveFrom: new Date('2024-01-01'),
+  effectiveTo: new Date('2026-01-01'),
+  config: { BASE_VALUE: { POINTS_PER_PLAYER: 1.0 } },
+};
+
+const ruleset2026: Ruleset = {
+  version: '2026.1',
+  name: 'OPPR 2026',
+  effectiveFrom: new Date('2026-01-01'),
+  config: {},
+};
+
+const players: Player[] = Array.from({ length: 8 }, (_, i) => ({
+  id: `${i + 1}`,
+  rating: 1700 - i * 25,
+  ranking: i + 1,
+  isRated: true,
+}));
+
+const results: PlayerResult[] = players.map((player, i) => ({ player, position: i + 1 }));
+
+const createTournament = (date: Date): Tournament => ({
+  id: 't1',
+  name: 'Ruleset Test',
+  date,
+  players,
+  tgpConfig: {
+    qualifying: { type: 'limited', meaningfulGames: 7 },
+    finals: { formatType: 'match-play', meaningfulGames: 12 },
+  },
+  eventBooster: 'none',
+});
+
+describe('createRulesetRegistry', () => {
+  it('should order rulesets by effective date', () => {
+    const registry = createRulesetRegistry([ruleset2026, ruleset2024]);
+
+    expect(registry.rulesets.map((r) => r.version)).toEqual(['2024.1', '2026.1']);
+  });
+
+  it('should find rulesets by version', () => {
+    const registry = createRulesetRegistry([ruleset2024, ruleset2026]);
+
+    expect(registry.getRuleset('2024.1')).toBe(ruleset2024);
+    expect(registry.getRuleset('missing')).toBeUndefined();
+  });
+
+  it('should reject duplicate versions', () => {
+    expect(() =>
+      createRulesetRegistry([ruleset2024, { ...ruleset2026, version: '2024.1' }])
+    ).toThrow(/Duplicate ruleset version/);
+  });
+
+  it('should allow a version in effect over several date ranges', () => {
+    const reinstated = {
+      ...ruleset2024,
+      effectiveFrom: new Date('2027-01-01'),
+      effectiveTo: undefined,
+    };
+    const registry = createRulesetRegistry([
+      ruleset2024,
+      { ...ruleset2026, effectiveTo: new Date('2027-01-01') },
+      reinstated,
+    ]);
+
+    expect(registry.getRulesetForDate(new Date('2028-01-01'))).toBe(reinstated);
+    expect(registry.getRuleset('2024.1')).toBe(ruleset2024);
+  });
+
+  it('should reject overlapping date ranges', () => {
+    const overlapping = { ...ruleset2026, effectiveFrom: new Date('2025-06-01') };
+
+    expect(() => createRulesetRegistry([ruleset2024, overlapping])).toThrow(/overlaps/);
+  });
+
+  it('should reject a ruleset that ends before it starts', () => {
+    const backwards = { ...ruleset2024, effectiveTo: new Date('2023-01-01') };
+
+    expect(() => createRulesetRegistry([backwards])).toThrow(ValidationError);
+  });
+
+  it('should require at least one ruleset', () => {
+    expect(() => createRulesetRegistry([])).toThrow(ValidationError);
+  });
+});
+
+describe('getRulesetForDate', () => {
+  const registry = createRulesetRegistry([ruleset2024, ruleset2026]);
+
+  it('should select the ruleset in effect on the date', () => {
+    expect(registry.getRulesetForDate(new Date('2024-06-01')).version).toBe('2024.1');
+    expect(registry.getRulesetForDate(new Date('2026-03-01')).version).toBe('2026.1');
+  });
+
+  it('should treat effectiveTo as exclusive', () => {
+    expect(registry.getRulesetForDate(new Date('2026-01-01')).version).toBe('2026.1');
+  });
+
+  it('should throw when no ruleset applies', () => {
+    expect(() => registry.getRulesetForDate(new Date('2023-06-01'))).toThrow(
+      /No ruleset is in effect/
+    );
+  });
+
+  it('should throw for an invalid date', () => {
+    expect(() => registry.getRulesetForDate(new Date('invalid'))).toThrow(ValidationError);
+  });
+});
+
+describe('getEngine', () => {
+  it('should return one engine per ruleset version', () => {
+    const registry = createRulesetRegistry([ruleset2024, ruleset2026]);
+
+    expect(registry.getEngine('2024.1')).toBe(registry.getEngine('2024.1'));
+    expect(registry.getEngine('2024.1').config.BASE_VALUE.POINTS_PER_PLAYER).toBe(1.0);
+    expect(
+      registry.getEngineForDate(new Date('2026-02-01')).config.BASE_VALUE.POINTS_PER_PLAYER
+    ).toBe(0.5);
+  });
+
+  it('should throw for an unknown version', () => {
+    const registry = createRulesetRegistry([ruleset2026]);
+
+    expect(() => registry.getEngine('1999.1')).toThrow(/Unknown ruleset version/);
+  });
+});
+
+describe('evaluateTournament', () => {
+  const registry = createRulesetRegistry([ruleset2024, ruleset2026]);
+
+  it('should evaluate tournaments under the ruleset for their date', () => {
+    const old = registry.evaluateTournament(createTournament(new Date('2024-06-01')), results);
+    const current = registry.evaluateTournament(createTournament(new Date('2026-06-01')), results);
+
+    expect(old.ruleset.version).toBe('2024.1');
+    expect(old.value.baseValue).toBe(8);
+    expect(current.ruleset.version).toBe('2026.1');
+    expect(current.value.baseValue).toBe(4);
+  });
+
+  it('should match the global calculation for the default ruleset', () => {
+    const defaults = createRulesetRegistry([DEFAULT_RULESET]);
+    const tournament = createTournament(new Date('2025-01-01'));
+
+    const { ruleset, ...result } = defaults.evaluateTournament(tournament, results);
+
+    expect(ruleset).toBe(DEFAULT_RULESET);
+    expect(result).toEqual(evaluateTournament(tournament, results));
+  });
+
+  it('should pass evaluation options through', () => {
+    const result = registry.evaluateTournament(createTournament(new Date('2024-06-01')), results, {
+      trace: true,
+    });
+
+    expect(result.trace?.baseValue.value).toBe(8);
+  });
+});
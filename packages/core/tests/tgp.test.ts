@@ -3,6 +3,9 @@ import {
   calculateQualifyingTGP,
   calculateFinalsTGP,
   calculateTGP,
+  explainQualifyingTGP,
+  explainFinalsTGP,
+  explainTGP,
   calculateUnlimitedCardTGP,
   calculateFlipFrenzyTGP,
   validateFinalsEligibility,
@@ -339,3 +342,106 @@ describe('validateFinalsEligibility', () => {
     expect(validateFinalsEligibility(50, 10)).toBe(true);
   });
 });
+
+describe('explainQualifyingTGP', () => {
+  it('should list the format and group multipliers applied', () => {
+    const config: TGPConfig = {
+      qualifying: { type: 'hybrid', meaningfulGames: 5, fourPlayerGroups: true },
+      finals: { formatType: 'none', meaningfulGames: 0 },
+    };
+
+    const trace = explainQualifyingTGP(config);
+
+    expect(trace.multipliers).toEqual([
+      { name: 'Hybrid best game', factor: TGP.MULTIPLIERS.HYBRID_BEST_GAME },
+      { name: '4-player groups', factor: TGP.MULTIPLIERS.FOUR_PLAYER_GROUPS },
+    ]);
+    expect(trace.meaningfulGames).toBe(5);
+    expect(trace.value).toBe(calculateQualifyingTGP(config));
+  });
+
+  it('should not apply group multipliers for multi-matchplay', () => {
+    const trace = explainQualifyingTGP({
+      qualifying: {
+        type: 'limited',
+        meaningfulGames: 5,
+        fourPlayerGroups: true,
+        multiMatchplay: true,
+      },
+      finals: { formatType: 'none', meaningfulGames: 0 },
+    });
+
+    expect(trace.multipliers).toEqual([]);
+    expect(trace.gameValue).toBe(TGP.BASE_GAME_VALUE);
+  });
+
+  it('should report when the unlimited time bonus is capped', () => {
+    const config: TGPConfig = {
+      qualifying: { type: 'unlimited', meaningfulGames: 5, hours: 30 },
+      finals: { formatType: 'none', meaningfulGames: 0 },
+    };
+
+    const trace = explainQualifyingTGP(config);
+
+    expect(trace.capped).toBe(true);
+    expect(trace.steps[trace.steps.length - 1].description).toContain('Time bonus');
+    expect(trace.value).toBe(calculateQualifyingTGP(config));
+  });
+
+  it('should explain no qualifying', () => {
+    const trace = explainQualifyingTGP({
+      qualifying: { type: 'none', meaningfulGames: 0 },
+      finals: { formatType: 'match-play', meaningfulGames: 10 },
+    });
+
+    expect(trace.value).toBe(0);
+    expect(trace.steps[0].description).toBe('No qualifying');
+  });
+});
+
+describe('explainFinalsTGP', () => {
+  it('should match calculateFinalsTGP including ball count adjustment', () => {
+    const config: TGPConfig = {
+      qualifying: { type: 'none', meaningfulGames: 0 },
+      finals: { formatType: 'match-play', meaningfulGames: 10, threePlayerGroups: true },
+      ballCountAdjustment: 0.66,
+    };
+
+    const trace = explainFinalsTGP(config);
+
+    expect(trace.value).toBe(calculateFinalsTGP(config));
+    expect(trace.multipliers).toEqual([
+      { name: '3-player groups', factor: TGP.MULTIPLIERS.THREE_PLAYER_GROUPS },
+    ]);
+    expect(trace.steps[trace.steps.length - 1].description).toContain('ball count adjustment');
+  });
+});
+
+describe('explainTGP', () => {
+  it('should combine qualifying and finals traces', () => {
+    const config: TGPConfig = {
+      qualifying: { type: 'limited', meaningfulGames: 7 },
+      finals: { formatType: 'single-elimination', meaningfulGames: 15, fourPlayerGroups: true },
+    };
+
+    const trace = explainTGP(config);
+
+    expect(trace.value).toBe(calculateTGP(config));
+    expect(trace.qualifying.value).toBe(calculateQualifyingTGP(config));
+    expect(trace.finals.value).toBe(calculateFinalsTGP(config));
+    expect(trace.capped).toBe(false);
+  });
+
+  it('should report when the maximum TGP is reached', () => {
+    const config: TGPConfig = {
+      qualifying: { type: 'none', meaningfulGames: 0 },
+      finals: { formatType: 'match-play', meaningfulGames: 40 },
+    };
+
+    const trace = explainTGP(config);
+
+    expect(trace.capped).toBe(true);
+    expect(trace.value).toBe(TGP.MAX_WITHOUT_FINALS);
+    expect(trace.steps[trace.steps.length - 1].description).toContain('capped');
+  });
+});
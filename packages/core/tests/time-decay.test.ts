@@ -3,13 +3,16 @@ import {
   calculateDaysBetween,
   calculateEventAge,
   getDecayMultiplier,
+  getDecayCurve,
+  DECAY_CURVES,
   calculateDecayMultiplier,
   applyTimeDecay,
   isEventActive,
   filterActiveEvents,
   getEventDecayInfo,
 } from '../src/time-decay.js';
-import { resetConfig, configureOPPR } from '../src/config.js';
+import { resetConfig, configureOPPR, getConfig } from '../src/config.js';
+import { ValidationError } from '../src/validators.js';
 
 beforeEach(() => {
   resetConfig();
@@ -489,3 +492,107 @@ describe('Configuration Tests', () => {
     });
   });
 });
+
+describe('Decay curves', () => {
+  it('should use the stepped curve by default', () => {
+    expect(getConfig().TIME_DECAY.CURVE).toBe('stepped');
+    expect(getDecayCurve()).toBe(DECAY_CURVES.stepped);
+  });
+
+  it('should throw for an unknown curve', () => {
+    expect(() => getDecayCurve('unknown' as never)).toThrow(ValidationError);
+  });
+
+  it('should match the stepped curve with the default custom breakpoints', () => {
+    const constants = getConfig().TIME_DECAY;
+    for (const age of [0, 0.5, 1, 1.5, 2, 2.99, 3, 10]) {
+      expect(DECAY_CURVES.custom(age, constants)).toBe(DECAY_CURVES.stepped(age, constants));
+    }
+  });
+
+  describe('linear', () => {
+    beforeEach(() => {
+      configureOPPR({ TIME_DECAY: { CURVE: 'linear' } });
+    });
+
+    it('should fall evenly to 0 at the maximum age', () => {
+      expect(getDecayMultiplier(0)).toBe(1);
+      expect(getDecayMultiplier(0.75)).toBe(0.75);
+      expect(getDecayMultiplier(1.5)).toBe(0.5);
+      expect(getDecayMultiplier(3)).toBe(0);
+      expect(getDecayMultiplier(5)).toBe(0);
+    });
+
+    it('should use the configured maximum age', () => {
+      configureOPPR({ TIME_DECAY: { MAX_AGE_YEARS: 4 } });
+      expect(getDecayMultiplier(1)).toBe(0.75);
+      expect(getDecayMultiplier(3.5)).toBe(0.125);
+    });
+
+    it('should not decay future events', () => {
+      expect(getDecayMultiplier(-1)).toBe(1);
+    });
+  });
+
+  describe('exponential', () => {
+    beforeEach(() => {
+      configureOPPR({ TIME_DECAY: { CURVE: 'exponential', HALF_LIFE_YEARS: 1.5 } });
+    });
+
+    it('should halve every half-life', () => {
+      expect(getDecayMultiplier(0)).toBe(1);
+      expect(getDecayMultiplier(1.5)).toBeCloseTo(0.5, 10);
+      expect(getDecayMultiplier(0.75)).toBeCloseTo(Math.SQRT1_2, 10);
+    });
+
+    it('should fully decay events at the maximum age', () => {
+      expect(getDecayMultiplier(2.99)).toBeGreaterThan(0);
+      expect(getDecayMultiplier(3)).toBe(0);
+      configureOPPR({ TIME_DECAY: { MAX_AGE_YEARS: 6 } });
+      expect(getDecayMultiplier(4.5)).toBeCloseTo(0.125, 10);
+    });
+  });
+
+  describe('custom', () => {
+    beforeEach(() => {
+      configureOPPR({
+        TIME_DECAY: {
+          CURVE: 'custom',
+          BREAKPOINTS: [
+            { AGE_YEARS: 0.5, MULTIPLIER: 0.9 },
+            { AGE_YEARS: 2, MULTIPLIER: 0.4 },
+            { AGE_YEARS: 4, MULTIPLIER: 0 },
+          ],
+        },
+      });
+    });
+
+    it('should use the multiplier of the last breakpoint reached', () => {
+      expect(getDecayMultiplier(0.25)).toBe(1);
+      expect(getDecayMultiplier(0.5)).toBe(0.9);
+      expect(getDecayMultiplier(1.99)).toBe(0.9);
+      expect(getDecayMultiplier(3)).toBe(0.4);
+      expect(getDecayMultiplier(4)).toBe(0);
+    });
+
+    it('should keep events active until fully decayed', () => {
+      const referenceDate = new Date('2024-01-01');
+      const eventDate = new Date('2020-06-01'); // ~3.6 years
+
+      expect(isEventActive(eventDate, { referenceDate })).toBe(true);
+      expect(getEventDecayInfo(eventDate, { referenceDate })).toMatchObject({
+        decayMultiplier: 0.4,
+        isActive: true,
+      });
+    });
+  });
+
+  it('should mark events inactive when the curve reaches 0', () => {
+    configureOPPR({ TIME_DECAY: { CURVE: 'linear', MAX_AGE_YEARS: 1 } });
+    const referenceDate = new Date('2024-01-01');
+
+    expect(isEventActive(new Date('2023-06-01'), { referenceDate })).toBe(true);
+    expect(isEventActive(new Date('2022-12-01'), { referenceDate })).toBe(false);
+    expect(filterActiveEvents([new Date('2022-12-01')], { referenceDate })).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  calculateTournamentValue,
+  evaluateTournament,
+  explainTournament,
+} from '../src/tournament-evaluation.js';
+import { calculateBaseValue } from '../src/base-value.js';
+import { calculateRatingTVA } from '../src/tva-rating.js';
+import { calculateRankingTVA } from '../src/tva-ranking.js';
+import { calculateTGP } from '../src/tgp.js';
+import { distributePoints } from '../src/point-distribution.js';
+import { ValidationError } from '../src/validators.js';
+import { resetConfig } from '../src/config.js';
+import type { Player, PlayerResult, Tournament } from '../src/types.js';
+
+beforeEach(() => {
+  resetConfig();
+});
+
+const players: Player[] = [
+  { id: '1', rating: 1900, ranking: 1, isRated: true },
+  { id: '2', rating: 1800, ranking: 5, isRated: true },
+  { id: '3', rating: 1700, ranking: 20, isRated: true },
+  { id: '4', rating: 1500, ranking: 100, isRated: false },
+];
+
+const createTournament = (overrides: Partial<Tournament> = {}): Tournament => ({
+  id: 't1',
+  name: 'Test Tournament',
+  date: new Date('2024-06-01'),
+  players,
+  tgpConfig: {
+    qualifying: { type: 'limited', meaningfulGames: 7 },
+    finals: { formatType: 'match-play', meaningfulGames: 12, fourPlayerGroups: true },
+  },
+  eventBooster: 'none',
+  ...overrides,
+});
+
+const results: PlayerResult[] = players.map((player, i) => ({ player, position: i + 1 }));
+
+describe('calculateTournamentValue', () => {
+  it('should combine base value, TVA, TGP and event booster', () => {
+    const tournament = createTournament();
+    const value = calculateTournamentValue(tournament);
+
+    const baseValue = calculateBaseValue(players);
+    const tvaRating = calculateRatingTVA(players);
+    const tvaRanking = calculateRankingTVA(players);
+    const tgp = calculateTGP(tournament.tgpConfig);
+
+    expect(value).toEqual({
+      baseValue,
+      tvaRating,
+      tvaRanking,
+      totalTVA: tvaRating + tvaRanking,
+      tgp,
+      eventBoosterMultiplier: 1.0,
+      firstPlaceValue: (baseValue + tvaRating + tvaRanking) * tgp,
+    });
+  });
+
+  it('should apply the event booster multiplier', () => {
+    const normal = calculateTournamentValue(createTournament());
+    const major = calculateTournamentValue(createTournament({ eventBooster: 'major' }));
+
+    expect(major.eventBoosterMultiplier).toBe(2.0);
+    expect(major.firstPlaceValue).toBeCloseTo(normal.firstPlaceValue * 2, 10);
+  });
+});
+
+describe('evaluateTournament', () => {
+  it('should return a complete tournament result', () => {
+    const tournament = createTournament();
+    const result = evaluateTournament(tournament, results);
+
+    expect(result.tournament).toBe(tournament);
+    expect(result.value).toEqual(calculateTournamentValue(tournament));
+    expect(result.pointsDistribution).toEqual(
+      distributePoints(results, result.value.firstPlaceValue)
+    );
+  });
+
+  it('should award first place the full first place value', () => {
+    const result = evaluateTournament(createTournament(), results);
+
+    expect(result.pointsDistribution[0].totalPoints).toBeCloseTo(result.value.firstPlaceValue, 10);
+  });
+
+  it('should exclude opted-out players from point distribution', () => {
+    const withOptOut = results.map((r) => (r.player.id === '4' ? { ...r, optedOut: true } : r));
+
+    const result = evaluateTournament(createTournament({ allowsOptOut: true }), withOptOut);
+
+    expect(result.pointsDistribution).toHaveLength(3);
+  });
+
+  it('should not include a trace by default', () => {
+    expect(evaluateTournament(createTournament(), results).trace).toBeUndefined();
+  });
+
+  it('should include a trace matching the calculated values in trace mode', () => {
+    const result = evaluateTournament(createTournament({ eventBooster: 'major' }), results, {
+      trace: true,
+    });
+
+    expect(result.trace).toBeDefined();
+    expect(result.trace?.baseValue.value).toBe(result.value.baseValue);
+    expect(result.trace?.tvaRating.value).toBe(result.value.tvaRating);
+    expect(result.trace?.tvaRanking.value).toBe(result.value.tvaRanking);
+    expect(result.trace?.tgp.value).toBe(result.value.tgp);
+    expect(result.trace?.eventBooster.value).toBe(2.0);
+    expect(result.trace?.firstPlaceValue.value).toBe(result.value.firstPlaceValue);
+  });
+
+  it('should throw ValidationError for an invalid tournament', () => {
+    expect(() => evaluateTournament(createTournament({ name: '' }), results)).toThrow(
+      ValidationError
+    );
+  });
+
+  it('should throw ValidationError for too few players', () => {
+    const tournament = createTournament({ players: players.slice(0, 2) });
+
+    expect(() => evaluateTournament(tournament, results.slice(0, 2))).toThrow(ValidationError);
+  });
+
+  it('should throw ValidationError when there is no single first place', () => {
+    const noWinner = results.map((r) => ({ ...r, position: r.position + 1 }));
+
+    expect(() => evaluateTournament(createTournament(), noWinner)).toThrow(ValidationError);
+  });
+
+  it('should throw ValidationError for results from non-participants', () => {
+    const outsider: PlayerResult = {
+      player: { id: 'outsider', rating: 1500, ranking: 50, isRated: true },
+      position: 5,
+    };
+
+    expect(() => evaluateTournament(createTournament(), [...results, outsider])).toThrow(
+      /not a tournament participant/
+    );
+  });
+
+  it('should throw ValidationError for duplicate player results', () => {
+    const duplicate = [...results, { player: players[1], position: 5 }];
+
+    expect(() => evaluateTournament(createTournament(), duplicate)).toThrow(
+      /Duplicate result for player 2/
+    );
+  });
+});
+
+describe('explainTournament', () => {
+  it('should trace which players counted toward TVA', () => {
+    const trace = explainTournament(createTournament(), results);
+
+    expect(trace.tvaRating.contributions.map((c) => c.playerId)).toEqual(['1', '2', '3', '4']);
+    expect(trace.tvaRanking.contributions.map((c) => c.input)).toEqual([1, 5, 20, 100]);
+  });
+
+  it('should trace the TGP multipliers applied', () => {
+    const trace = explainTournament(createTournament(), results);
+
+    expect(trace.tgp.qualifying.multipliers).toEqual([]);
+    expect(trace.tgp.finals.multipliers.map((m) => m.name)).toEqual(['4-player groups']);
+  });
+
+  it('should trace the point distribution', () => {
+    const trace = explainTournament(createTournament(), results);
+
+    expect(trace.pointDistribution.activePlayerCount).toBe(4);
+    expect(trace.pointDistribution.ratedPlayerCount).toBe(3);
+  });
+});
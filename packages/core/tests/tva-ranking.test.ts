@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import {
   calculatePlayerRankingContribution,
   calculateRankingTVA,
+  explainRankingTVA,
   getTopRankedPlayers,
 } from '../src/tva-ranking.js';
 import { resetConfig } from '../src/config.js';
@@ -282,3 +283,31 @@ describe('getTopRankedPlayers', () => {
 
 // Note: calculateTotalTVA tests are skipped due to module resolution issues with CommonJS require()
 // The function is tested indirectly through integration tests
+
+describe('explainRankingTVA', () => {
+  it('should match calculateRankingTVA', () => {
+    const players: Player[] = Array.from({ length: 100 }, (_, i) => ({
+      id: `${i}`,
+      rating: 1500,
+      ranking: i + 1,
+      isRated: true,
+    }));
+
+    expect(explainRankingTVA(players).value).toBe(calculateRankingTVA(players));
+  });
+
+  it('should exclude unranked players from contributions', () => {
+    const players: Player[] = [
+      { id: 'unranked', rating: 1500, ranking: 0, isRated: false },
+      { id: 'second', rating: 1500, ranking: 2, isRated: true },
+      { id: 'first', rating: 1500, ranking: 1, isRated: true },
+    ];
+
+    const trace = explainRankingTVA(players);
+
+    expect(trace.contributions.map((c) => c.playerId)).toEqual(['first', 'second']);
+    expect(trace.contributions[0]).toMatchObject({ input: 1 });
+    expect(trace.contributions[0].contribution).toBeCloseTo(TVA.RANKING.OFFSET, 6);
+    expect(trace.capped).toBe(false);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import {
   calculatePlayerRatingContribution,
   calculateRatingTVA,
+  explainRatingTVA,
   ratingContributesToTVA,
   getTopRatedPlayers,
 } from '../src/tva-rating.js';
@@ -264,3 +265,58 @@ describe('Configuration Tests', () => {
     });
   });
 });
+
+describe('explainRatingTVA', () => {
+  it('should match calculateRatingTVA', () => {
+    const players: Player[] = [
+      { id: '1', rating: 2000, ranking: 1, isRated: true },
+      { id: '2', rating: 1800, ranking: 5, isRated: true },
+      { id: '3', rating: 1200, ranking: 100, isRated: true },
+    ];
+
+    expect(explainRatingTVA(players).value).toBe(calculateRatingTVA(players));
+  });
+
+  it('should list each considered player with their contribution', () => {
+    const players: Player[] = [
+      { id: 'low', rating: 1200, ranking: 100, isRated: true },
+      { id: 'high', rating: 2000, ranking: 1, isRated: true },
+    ];
+
+    const trace = explainRatingTVA(players);
+
+    expect(trace.contributions.map((c) => c.playerId)).toEqual(['high', 'low']);
+    expect(trace.contributions[0]).toMatchObject({ input: 2000 });
+    expect(trace.contributions[0].contribution).toBeCloseTo(0.39, 2);
+    expect(trace.contributions[1].contribution).toBe(0);
+    expect(trace.steps[1].description).toContain('1 players rated above');
+  });
+
+  it('should only consider the top 64 players', () => {
+    const players: Player[] = Array.from({ length: 80 }, (_, i) => ({
+      id: `${i}`,
+      rating: 2000 - i,
+      ranking: i + 1,
+      isRated: true,
+    }));
+
+    const trace = explainRatingTVA(players);
+
+    expect(trace.contributions).toHaveLength(64);
+    expect(trace.contributions.some((c) => c.playerId === '79')).toBe(false);
+  });
+
+  it('should report when the maximum rating TVA is reached', () => {
+    configureOPPR({ TVA: { RATING: { MAX_VALUE: 0.5 } } });
+    const players: Player[] = [
+      { id: '1', rating: 2000, ranking: 1, isRated: true },
+      { id: '2', rating: 2000, ranking: 2, isRated: true },
+    ];
+
+    const trace = explainRatingTVA(players);
+
+    expect(trace.capped).toBe(true);
+    expect(trace.value).toBe(0.5);
+    expect(trace.steps[trace.steps.length - 1].description).toContain('Capped');
+  });
+});
@@ -515,6 +515,24 @@ describe('validatePlayerResults', () => {
     const result3 = { player: { ...validPlayer, id: 'player3' }, position: 2 };
     expect(() => validatePlayerResults([result1, result2, result3])).not.toThrow();
   });
+
+  it('should allow positions to skip the span of a tie', () => {
+    const result1 = { ...validResult1, position: 1 };
+    const result2 = { ...validResult2, position: 2 };
+    const result3 = { player: { ...validPlayer, id: 'player3' }, position: 2 };
+    const result4 = { player: { ...validPlayer, id: 'player4' }, position: 4 };
+    expect(() => validatePlayerResults([result1, result2, result3, result4])).not.toThrow();
+  });
+
+  it('should throw when a position falls inside the span of a tie', () => {
+    const result1 = { ...validResult1, position: 1 };
+    const result2 = { ...validResult2, position: 2 };
+    const result3 = { player: { ...validPlayer, id: 'player3' }, position: 2 };
+    const result4 = { player: { ...validPlayer, id: 'player4' }, position: 3 };
+    expect(() => validatePlayerResults([result1, result2, result3, result4])).toThrow(
+      'Position 3 overlaps the tie for positions 2-3'
+    );
+  });
 });
 
 describe('validateFinalsRequirements', () => {
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  calculateRankingPoints,
+  getTopEventPoints,
+  calculateWorldRankings,
+} from '../src/world-ranking.js';
+import { resetConfig, configureOPPR } from '../src/config.js';
+import type { RankingCandidate } from '../src/types.js';
+
+beforeEach(() => {
+  resetConfig();
+});
+
+// Pads event points with zero-point events so the player meets the rated threshold (5 events)
+const ratedPoints = (...points: number[]): number[] => [
+  ...points,
+  ...Array<number>(Math.max(0, 5 - points.length)).fill(0),
+];
+
+describe('getTopEventPoints', () => {
+  it('should return points sorted highest first', () => {
+    expect(getTopEventPoints([5, 20, 10])).toEqual([20, 10, 5]);
+  });
+
+  it('should only keep the top 15 events', () => {
+    const points = Array.from({ length: 20 }, (_, i) => i + 1);
+    const top = getTopEventPoints(points);
+
+    expect(top).toHaveLength(15);
+    expect(top[0]).toBe(20);
+    expect(top[14]).toBe(6);
+  });
+
+  it('should not mutate the input array', () => {
+    const points = [1, 3, 2];
+    getTopEventPoints(points);
+    expect(points).toEqual([1, 3, 2]);
+  });
+
+  it('should respect configured TOP_EVENTS_COUNT', () => {
+    configureOPPR({ RANKING: { TOP_EVENTS_COUNT: 2 } });
+    expect(getTopEventPoints([1, 2, 3, 4])).toEqual([4, 3]);
+  });
+});
+
+describe('calculateRankingPoints', () => {
+  it('should sum all points when fewer than 15 events', () => {
+    expect(calculateRankingPoints([10, 25, 5])).toBe(40);
+  });
+
+  it('should sum only the best 15 events', () => {
+    const points = Array.from({ length: 20 }, () => 10);
+    points.push(1);
+    expect(calculateRankingPoints(points)).toBe(150);
+  });
+
+  it('should return 0 for no events', () => {
+    expect(calculateRankingPoints([])).toBe(0);
+  });
+});
+
+describe('calculateWorldRankings', () => {
+  it('should rank rated players by total points', () => {
+    const candidates: RankingCandidate[] = [
+      { playerId: 'a', eventPoints: ratedPoints(30, 20, 10) },
+      { playerId: 'b', eventPoints: ratedPoints(50, 20, 10) },
+      { playerId: 'c', eventPoints: ratedPoints(10) },
+    ];
+
+    const rankings = calculateWorldRankings(candidates);
+
+    expect(rankings.map((r) => r.playerId)).toEqual(['b', 'a', 'c']);
+    expect(rankings.map((r) => r.ranking)).toEqual([1, 2, 3]);
+    expect(rankings[0].totalPoints).toBe(80);
+  });
+
+  it('should not rank players below the rated threshold', () => {
+    const candidates: RankingCandidate[] = [
+      { playerId: 'rated', eventPoints: ratedPoints(5) },
+      { playerId: 'unrated', eventPoints: [100, 100] },
+    ];
+
+    const rankings = calculateWorldRankings(candidates);
+
+    expect(rankings[0]).toMatchObject({ playerId: 'rated', isRated: true, ranking: 1 });
+    expect(rankings[1]).toMatchObject({ playerId: 'unrated', isRated: false, ranking: null });
+    expect(rankings[1].totalPoints).toBe(200);
+  });
+
+  it('should respect configured RATED_PLAYER_THRESHOLD', () => {
+    configureOPPR({ BASE_VALUE: { RATED_PLAYER_THRESHOLD: 2 } });
+
+    const rankings = calculateWorldRankings([{ playerId: 'a', eventPoints: [100, 100] }]);
+
+    expect(rankings[0].isRated).toBe(true);
+    expect(rankings[0].ranking).toBe(1);
+  });
+
+  it('should break ties by best single event', () => {
+    const candidates: RankingCandidate[] = [
+      { playerId: 'a', eventPoints: ratedPoints(20, 20) },
+      { playerId: 'b', eventPoints: ratedPoints(30, 10) },
+    ];
+
+    const rankings = calculateWorldRankings(candidates);
+
+    expect(rankings.map((r) => r.playerId)).toEqual(['b', 'a']);
+  });
+
+  it('should break ties by events played, then player ID', () => {
+    const candidates: RankingCandidate[] = [
+      { playerId: 'd', eventPoints: ratedPoints(10) },
+      { playerId: 'c', eventPoints: [...ratedPoints(10), 0] },
+      { playerId: 'b', eventPoints: ratedPoints(10) },
+    ];
+
+    const rankings = calculateWorldRankings(candidates);
+
+    expect(rankings.map((r) => r.playerId)).toEqual(['c', 'b', 'd']);
+  });
+
+  it('should produce the same result regardless of input order', () => {
+    const candidates: RankingCandidate[] = [
+      { playerId: 'x', eventPoints: ratedPoints(10) },
+      { playerId: 'y', eventPoints: ratedPoints(10) },
+      { playerId: 'z', eventPoints: ratedPoints(10) },
+    ];
+
+    const forward = calculateWorldRankings(candidates);
+    const reversed = calculateWorldRankings([...candidates].reverse());
+
+    expect(reversed).toEqual(forward);
+  });
+
+  it('should report counted events and total event count', () => {
+    const points = Array.from({ length: 18 }, () => 1);
+
+    const [entry] = calculateWorldRankings([{ playerId: 'a', eventPoints: points }]);
+
+    expect(entry.countedEvents).toBe(15);
+    expect(entry.eventCount).toBe(18);
+    expect(entry.totalPoints).toBe(15);
+  });
+
+  it('should return an empty array for no candidates', () => {
+    expect(calculateWorldRankings([])).toEqual([]);
+  });
+});
@@ -0,0 +1,2 @@
+-- AlterTable: Add rulesetVersion column to Tournament
+ALTER TABLE "Tournament" ADD COLUMN "rulesetVersion" TEXT;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "RankingConfig" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "config" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "activatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RankingConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankingConfig_version_key" ON "RankingConfig"("version");
+
+-- CreateIndex
+CREATE INDEX "RankingConfig_isActive_idx" ON "RankingConfig"("isActive");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "OpprPlayerRanking" ADD COLUMN "volatility" DOUBLE PRECISION NOT NULL DEFAULT 0.06;
+
+-- AlterTable
+ALTER TABLE "OpprRankingHistory" ADD COLUMN "volatility" DOUBLE PRECISION NOT NULL DEFAULT 0.06;
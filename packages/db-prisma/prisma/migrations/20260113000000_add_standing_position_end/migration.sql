@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Standing" ADD COLUMN "positionEnd" INTEGER;
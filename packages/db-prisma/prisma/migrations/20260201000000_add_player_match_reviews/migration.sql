@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PlayerMatchReviewStatus" AS ENUM ('PENDING', 'MATCHED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "PlayerMatchReview" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "status" "PlayerMatchReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "source" TEXT NOT NULL,
+    "externalId" TEXT,
+    "name" TEXT,
+    "candidates" JSONB NOT NULL,
+    "playerId" TEXT,
+    "tournamentId" TEXT,
+    "matchedPlayerId" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PlayerMatchReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlayerMatchReview_status_createdAt_idx" ON "PlayerMatchReview"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PlayerMatchReview_playerId_idx" ON "PlayerMatchReview"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "PlayerMatchReview" ADD CONSTRAINT "PlayerMatchReview_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlayerMatchReview" ADD CONSTRAINT "PlayerMatchReview_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlayerMatchReview" ADD CONSTRAINT "PlayerMatchReview_matchedPlayerId_fkey" FOREIGN KEY ("matchedPlayerId") REFERENCES "Player"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "PlayerMerge" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sourcePlayerId" TEXT NOT NULL,
+    "sourcePlayerNumber" INTEGER NOT NULL,
+    "sourceName" TEXT,
+    "sourceExternalId" TEXT,
+    "mergedIntoId" TEXT NOT NULL,
+    "targetPlayerId" TEXT NOT NULL,
+    "mergedById" TEXT,
+    "summary" JSONB NOT NULL,
+
+    CONSTRAINT "PlayerMerge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlayerMerge_sourcePlayerId_key" ON "PlayerMerge"("sourcePlayerId");
+
+-- CreateIndex
+CREATE INDEX "PlayerMerge_targetPlayerId_idx" ON "PlayerMerge"("targetPlayerId");
+
+-- CreateIndex
+CREATE INDEX "PlayerMerge_createdAt_idx" ON "PlayerMerge"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PlayerMerge" ADD CONSTRAINT "PlayerMerge_targetPlayerId_fkey" FOREIGN KEY ("targetPlayerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
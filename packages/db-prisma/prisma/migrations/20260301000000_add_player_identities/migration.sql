@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "PlayerIdentityStatus" AS ENUM ('UNVERIFIED', 'VERIFIED');
+
+-- CreateTable
+CREATE TABLE "PlayerIdentity" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "status" "PlayerIdentityStatus" NOT NULL DEFAULT 'UNVERIFIED',
+    "playerId" TEXT NOT NULL,
+
+    CONSTRAINT "PlayerIdentity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlayerIdentity_source_externalId_key" ON "PlayerIdentity"("source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "PlayerIdentity_playerId_idx" ON "PlayerIdentity"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "PlayerIdentity" ADD CONSTRAINT "PlayerIdentity_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate existing Player external IDs: "matchplay:123" becomes source
+-- matchplay with ID 123, and IDs without a source prefix get source external
+INSERT INTO "PlayerIdentity" ("id", "createdAt", "updatedAt", "source", "externalId", "status", "playerId")
+SELECT
+    gen_random_uuid()::text,
+    NOW(),
+    NOW(),
+    CASE WHEN position(':' in "externalId") > 1
+        THEN split_part("externalId", ':', 1)
+        ELSE 'external'
+    END,
+    CASE WHEN position(':' in "externalId") > 1
+        THEN substring("externalId" from position(':' in "externalId") + 1)
+        ELSE "externalId"
+    END,
+    'VERIFIED',
+    "id"
+FROM "Player"
+WHERE "externalId" IS NOT NULL;
+
+-- Drop old indexes from Player table
+DROP INDEX IF EXISTS "Player_externalId_key";
+DROP INDEX IF EXISTS "Player_externalId_idx";
+
+-- Remove old column from Player table
+ALTER TABLE "Player" DROP COLUMN "externalId";
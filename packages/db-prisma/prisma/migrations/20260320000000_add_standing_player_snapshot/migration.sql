@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Standing" ADD COLUMN "ratingAtEvent" DOUBLE PRECISION,
+ADD COLUMN "rankingAtEvent" INTEGER,
+ADD COLUMN "ratedAtEvent" BOOLEAN;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "GamePlacement" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tournamentId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "game" INTEGER NOT NULL,
+    "placement" INTEGER NOT NULL,
+
+    CONSTRAINT "GamePlacement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GamePlacement_tournamentId_game_idx" ON "GamePlacement"("tournamentId", "game");
+
+-- CreateIndex
+CREATE INDEX "GamePlacement_playerId_idx" ON "GamePlacement"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "GamePlacement" ADD CONSTRAINT "GamePlacement_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GamePlacement" ADD CONSTRAINT "GamePlacement_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player"("id") ON DELETE CASCADE ON UPDATE CASCADE;
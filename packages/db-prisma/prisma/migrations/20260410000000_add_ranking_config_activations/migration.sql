@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "RankingConfigActivation" (
+    "id" TEXT NOT NULL,
+    "rankingConfigId" TEXT NOT NULL,
+    "activatedAt" TIMESTAMP(3) NOT NULL,
+    "deactivatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RankingConfigActivation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RankingConfigActivation_rankingConfigId_idx" ON "RankingConfigActivation"("rankingConfigId");
+
+-- CreateIndex
+CREATE INDEX "RankingConfigActivation_activatedAt_idx" ON "RankingConfigActivation"("activatedAt");
+
+-- AddForeignKey
+ALTER TABLE "RankingConfigActivation" ADD CONSTRAINT "RankingConfigActivation_rankingConfigId_fkey" FOREIGN KEY ("rankingConfigId") REFERENCES "RankingConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the latest activation of each configuration. An earlier
+-- configuration ends where the next one was activated; an inactive last one
+-- ends at its last update.
+INSERT INTO "RankingConfigActivation" ("id", "rankingConfigId", "activatedAt", "deactivatedAt")
+SELECT
+    'backfill-' || "id",
+    "id",
+    "activatedAt",
+    CASE
+        WHEN "isActive" THEN NULL
+        ELSE COALESCE(
+            LEAD("activatedAt") OVER (ORDER BY "activatedAt"),
+            GREATEST("updatedAt", "activatedAt" + INTERVAL '1 millisecond')
+        )
+    END
+FROM "RankingConfig"
+WHERE "activatedAt" IS NOT NULL;
@@ -12,31 +12,26 @@ async function main() {
   console.log('Creating players...');
   const playerData = [
     {
-      externalId: 'player-1',
       playerNumber: 10001,
       name: 'Alice Champion',
       eventCount: 25,
     },
     {
-      externalId: 'player-2',
       playerNumber: 10002,
       name: 'Bob Wizard',
       eventCount: 18,
     },
     {
-      externalId: 'player-3',
       playerNumber: 10003,
       name: 'Charlie Flipper',
       eventCount: 12,
     },
     {
-      externalId: 'player-4',
       playerNumber: 10004,
       name: 'Diana Tilt',
       eventCount: 8,
     },
     {
-      externalId: 'player-5',
       playerNumber: 10005,
       name: 'Eve Plunger',
       eventCount: 3,
@@ -53,31 +48,31 @@ async function main() {
   ];
 
   const player1 = await prisma.player.upsert({
-    where: { externalId: 'player-1' },
+    where: { playerNumber: 10001 },
     update: playerData[0],
     create: playerData[0],
   });
 
   const player2 = await prisma.player.upsert({
-    where: { externalId: 'player-2' },
+    where: { playerNumber: 10002 },
     update: playerData[1],
     create: playerData[1],
   });
 
   const player3 = await prisma.player.upsert({
-    where: { externalId: 'player-3' },
+    where: { playerNumber: 10003 },
     update: playerData[2],
     create: playerData[2],
   });
 
   const player4 = await prisma.player.upsert({
-    where: { externalId: 'player-4' },
+    where: { playerNumber: 10004 },
     update: playerData[3],
     create: playerData[3],
   });
 
   const player5 = await prisma.player.upsert({
-    where: { externalId: 'player-5' },
+    where: { playerNumber: 10005 },
     update: playerData[4],
     create: playerData[4],
   });
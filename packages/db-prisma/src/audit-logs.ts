@@ -0,0 +1,68 @@
+import { prisma } from './client.js';
+import { Prisma } from '@prisma/client';
+import type { AuditLog } from '@prisma/client';
+
+/**
+ * Input for recording a write
+ */
+export interface CreateAuditLogInput {
+  userId?: string;
+  userEmail?: string;
+  apiKeyId?: string;
+  method: string;
+  route: string;
+  url: string;
+  statusCode: number;
+  entityType: string;
+  entityId?: string;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+  changes?: Prisma.InputJsonValue;
+}
+
+/**
+ * Options for querying audit logs
+ */
+export interface FindAuditLogsOptions {
+  take?: number;
+  skip?: number;
+  orderBy?: Prisma.AuditLogOrderByWithRelationInput;
+  where?: Prisma.AuditLogWhereInput;
+}
+
+/**
+ * Records a write
+ */
+export async function createAuditLog(data: CreateAuditLogInput): Promise<AuditLog> {
+  return prisma.auditLog.create({
+    data,
+  });
+}
+
+/**
+ * Finds an audit log by ID
+ */
+export async function findAuditLogById(id: string): Promise<AuditLog | null> {
+  return prisma.auditLog.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Finds multiple audit logs with optional filters, newest first
+ */
+export async function findAuditLogs(options: FindAuditLogsOptions = {}): Promise<AuditLog[]> {
+  return prisma.auditLog.findMany({
+    take: options.take,
+    skip: options.skip,
+    where: options.where,
+    orderBy: options.orderBy ?? { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Counts audit logs
+ */
+export async function countAuditLogs(where?: Prisma.AuditLogWhereInput): Promise<number> {
+  return prisma.auditLog.count({ where });
+}
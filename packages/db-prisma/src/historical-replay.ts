@@ -0,0 +1,272 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './client.js';
+
+/**
+ * Recalculated cached values for a tournament
+ */
+export interface ReplayTournamentValues {
+  tournamentId: string;
+  baseValue: number;
+  tvaRating: number;
+  tvaRanking: number;
+  totalTVA: number;
+  tgp: number;
+  eventBoosterMultiplier: number;
+  firstPlaceValue: number;
+  rulesetVersion: string;
+}
+
+/**
+ * Recalculated points for a player's standings in a tournament
+ * Applied to both the qualifying and finals standing when a player has both.
+ */
+export interface ReplayStandingPoints {
+  tournamentId: string;
+  playerId: string;
+  linearPoints: number;
+  dynamicPoints: number;
+  totalPoints: number;
+  ageInDays: number;
+  decayMultiplier: number;
+  decayedPoints: number;
+  efficiency: number;
+  /** Player as rated and ranked entering the tournament (see Standing) */
+  ratingAtEvent?: number;
+  rankingAtEvent?: number | null;
+  ratedAtEvent?: boolean;
+}
+
+/**
+ * A player's rating after a replayed tournament, recorded as ranking history
+ */
+export interface ReplayRatingChange {
+  playerId: string;
+  tournamentId: string;
+  date: Date;
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  isRated: boolean;
+}
+
+/**
+ * A player's final rating and world ranking from a replay
+ */
+export interface ReplayPlayerRanking {
+  playerId: string;
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  ranking: number | null;
+  isRated: boolean;
+  lastRatingUpdate: Date;
+}
+
+/**
+ * Complete output of a historical replay to store
+ */
+export interface HistoricalReplayData {
+  tournaments: ReplayTournamentValues[];
+  standings: ReplayStandingPoints[];
+  ratingChanges: ReplayRatingChange[];
+  rankings: ReplayPlayerRanking[];
+}
+
+/**
+ * Counts of rows written by applyHistoricalReplay
+ */
+export interface HistoricalReplayWriteResult {
+  tournamentsUpdated: number;
+  standingsUpdated: number;
+  rankingsUpdated: number;
+  /** OPPR rankings of players without replayed results, kept without a world ranking */
+  rankingsKept: number;
+  historyCreated: number;
+}
+
+/** Default time limit for the replay transaction */
+const REPLAY_TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Rows written per statement */
+const REPLAY_CHUNK_SIZE = 500;
+
+/**
+ * Splits rows into chunks of REPLAY_CHUNK_SIZE
+ */
+function chunked<T>(rows: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += REPLAY_CHUNK_SIZE) {
+    chunks.push(rows.slice(i, i + REPLAY_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/**
+ * Replaces all tournament values, standing points, ratings and rankings with
+ * the output of a historical replay in a single transaction.
+ *
+ * Rows are written in chunks with one set-based statement each. Ranking
+ * history of the replayed players is rebuilt from the replay (manual
+ * adjustments are kept). Players without replayed results, such as players
+ * of tournaments without a TGP configuration, keep their OPPR rating and
+ * history but lose their world ranking, which the replay does not give them.
+ * A transaction-scoped advisory lock makes replays from any process write
+ * one after the other.
+ *
+ * @throws Error when a replayed tournament does not exist; nothing is written
+ */
+export async function applyHistoricalReplay(
+  data: HistoricalReplayData,
+  timeout: number = REPLAY_TRANSACTION_TIMEOUT_MS,
+): Promise<HistoricalReplayWriteResult> {
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('historical-replay'))`;
+
+      for (const chunk of chunked(data.tournaments)) {
+        const values = chunk.map(
+          (t) =>
+            Prisma.sql`(${t.tournamentId}, ${t.baseValue}::double precision, ${t.tvaRating}::double precision, ${t.tvaRanking}::double precision, ${t.totalTVA}::double precision, ${t.tgp}::double precision, ${t.eventBoosterMultiplier}::double precision, ${t.firstPlaceValue}::double precision, ${t.rulesetVersion})`,
+        );
+        const count = await tx.$executeRaw`
+          UPDATE "Tournament" AS t
+          SET "baseValue" = v."baseValue",
+              "tvaRating" = v."tvaRating",
+              "tvaRanking" = v."tvaRanking",
+              "totalTVA" = v."totalTVA",
+              "tgp" = v."tgp",
+              "eventBoosterMultiplier" = v."eventBoosterMultiplier",
+              "firstPlaceValue" = v."firstPlaceValue",
+              "rulesetVersion" = v."rulesetVersion",
+              "updatedAt" = NOW()
+          FROM (VALUES ${Prisma.join(values)}) AS v("id", "baseValue", "tvaRating", "tvaRanking", "totalTVA", "tgp", "eventBoosterMultiplier", "firstPlaceValue", "rulesetVersion")
+          WHERE t."id" = v."id"
+        `;
+        if (count !== chunk.length) {
+          throw new Error('A replayed tournament does not exist');
+        }
+      }
+
+      // The player at the event is only written when ratingAtEvent is given
+      let standingsUpdated = 0;
+      for (const chunk of chunked(data.standings)) {
+        const values = chunk.map(
+          (s) =>
+            Prisma.sql`(${s.tournamentId}, ${s.playerId}, ${s.linearPoints}::double precision, ${s.dynamicPoints}::double precision, ${s.totalPoints}::double precision, ${s.ageInDays}::integer, ${s.decayMultiplier}::double precision, ${s.decayedPoints}::double precision, ${s.efficiency}::double precision, ${s.ratingAtEvent ?? null}::double precision, ${s.rankingAtEvent ?? null}::integer, ${s.ratedAtEvent ?? null}::boolean)`,
+        );
+        standingsUpdated += await tx.$executeRaw`
+          UPDATE "Standing" AS s
+          SET "linearPoints" = v."linearPoints",
+              "dynamicPoints" = v."dynamicPoints",
+              "totalPoints" = v."totalPoints",
+              "ageInDays" = v."ageInDays",
+              "decayMultiplier" = v."decayMultiplier",
+              "decayedPoints" = v."decayedPoints",
+              "efficiency" = v."efficiency",
+              "ratingAtEvent" = COALESCE(v."ratingAtEvent", s."ratingAtEvent"),
+              "rankingAtEvent" = CASE WHEN v."ratingAtEvent" IS NULL THEN s."rankingAtEvent" ELSE v."rankingAtEvent" END,
+              "ratedAtEvent" = COALESCE(v."ratedAtEvent", s."ratedAtEvent"),
+              "updatedAt" = NOW()
+          FROM (VALUES ${Prisma.join(values)}) AS v("tournamentId", "playerId", "linearPoints", "dynamicPoints", "totalPoints", "ageInDays", "decayMultiplier", "decayedPoints", "efficiency", "ratingAtEvent", "rankingAtEvent", "ratedAtEvent")
+          WHERE s."tournamentId" = v."tournamentId" AND s."playerId" = v."playerId"
+        `;
+      }
+
+      // Only replayed players are ranked
+      await tx.opprPlayerRanking.updateMany({
+        where: { ranking: { not: null } },
+        data: { ranking: null },
+      });
+
+      const rankingIds = new Map<string, string>();
+      for (const chunk of chunked(data.rankings)) {
+        const playerIds = chunk.map((r) => r.playerId);
+        await tx.opprRankingHistory.deleteMany({
+          where: {
+            changeType: { not: 'MANUAL_ADJUSTMENT' },
+            opprPlayerRanking: { playerId: { in: playerIds } },
+          },
+        });
+        await tx.opprPlayerRanking.createMany({
+          data: playerIds.map((playerId) => ({ playerId })),
+          skipDuplicates: true,
+        });
+
+        const values = chunk.map(
+          (r) =>
+            Prisma.sql`(${r.playerId}, ${r.rating}::double precision, ${r.ratingDeviation}::double precision, ${r.volatility}::double precision, ${r.ranking}::integer, ${r.isRated}::boolean, ${r.lastRatingUpdate}::timestamp)`,
+        );
+        await tx.$executeRaw`
+          UPDATE "OpprPlayerRanking" AS r
+          SET "rating" = v."rating",
+              "ratingDeviation" = v."ratingDeviation",
+              "volatility" = v."volatility",
+              "ranking" = v."ranking",
+              "isRated" = v."isRated",
+              "lastRatingUpdate" = v."lastRatingUpdate",
+              "updatedAt" = NOW()
+          FROM (VALUES ${Prisma.join(values)}) AS v("playerId", "rating", "ratingDeviation", "volatility", "ranking", "isRated", "lastRatingUpdate")
+          WHERE r."playerId" = v."playerId"
+        `;
+
+        const saved = await tx.opprPlayerRanking.findMany({
+          where: { playerId: { in: playerIds } },
+          select: { id: true, playerId: true },
+        });
+        for (const { id, playerId } of saved) {
+          rankingIds.set(playerId, id);
+        }
+      }
+
+      const tournamentHistory = data.ratingChanges.flatMap((change) => {
+        const opprPlayerRankingId = rankingIds.get(change.playerId);
+        return opprPlayerRankingId
+          ? [
+              {
+                opprPlayerRankingId,
+                createdAt: change.date,
+                rating: change.rating,
+                ratingDeviation: change.ratingDeviation,
+                volatility: change.volatility,
+                isRated: change.isRated,
+                changeType: 'TOURNAMENT_RESULT' as const,
+                tournamentId: change.tournamentId,
+              },
+            ]
+          : [];
+      });
+      const refreshHistory = data.rankings.flatMap((ranking) => {
+        const opprPlayerRankingId = rankingIds.get(ranking.playerId);
+        return opprPlayerRankingId
+          ? [
+              {
+                opprPlayerRankingId,
+                rating: ranking.rating,
+                ratingDeviation: ranking.ratingDeviation,
+                volatility: ranking.volatility,
+                ranking: ranking.ranking,
+                isRated: ranking.isRated,
+                changeType: 'RANKING_REFRESH' as const,
+                notes: 'Historical replay',
+              },
+            ]
+          : [];
+      });
+
+      let historyCreated = 0;
+      for (const chunk of chunked([...tournamentHistory, ...refreshHistory])) {
+        const { count } = await tx.opprRankingHistory.createMany({ data: chunk });
+        historyCreated += count;
+      }
+
+      return {
+        tournamentsUpdated: data.tournaments.length,
+        standingsUpdated,
+        rankingsUpdated: data.rankings.length,
+        rankingsKept: (await tx.opprPlayerRanking.count()) - rankingIds.size,
+        historyCreated,
+      };
+    },
+    { timeout },
+  );
+}
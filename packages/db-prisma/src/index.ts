@@ -24,6 +24,38 @@ export {
   searchPlayers,
 } from './players.js';
 
+// Export player identity functions
+export {
+  DEFAULT_IDENTITY_SOURCE,
+  parseExternalId,
+  formatExternalId,
+  getPrimaryExternalId,
+  createPlayerIdentity,
+  linkPlayerIdentity,
+  findPlayerIdentityById,
+  findPlayerIdentity,
+  findPlayerIdentities,
+  updatePlayerIdentity,
+  deletePlayerIdentity,
+} from './player-identities.js';
+
+// Export player match review functions
+export {
+  createPlayerMatchReview,
+  findPlayerMatchReviewById,
+  findPlayerMatchReviews,
+  countPlayerMatchReviews,
+  dismissPlayerMatchReview,
+  matchPlayerMatchReview,
+} from './player-match-reviews.js';
+
+// Export player merge functions
+export {
+  mergePlayers,
+  findPlayerMergeBySourceId,
+  findPlayerMergesByTarget,
+} from './player-merges.js';
+
 // Export OPPR ranking functions
 export {
   getOrCreateOpprPlayerRanking,
@@ -36,6 +68,7 @@ export {
   getRatedOpprPlayers,
   updateOpprPlayerRanking,
   updateOpprRatingAfterTournament,
+  applyOpprRatingUpdatesForTournament,
   updateWorldRankings,
   applyRDDecayForInactivePlayers,
   deleteOpprPlayerRanking,
@@ -47,6 +80,60 @@ export {
   countOpprRankingHistory,
 } from './oppr-rankings.js';
 
+// Export historical replay functions
+export { applyHistoricalReplay } from './historical-replay.js';
+
+// Export ranking configuration functions
+export {
+  createRankingConfig,
+  findRankingConfigById,
+  findRankingConfigByVersion,
+  findRankingConfigs,
+  getActiveRankingConfig,
+  updateRankingConfig,
+  findRankingConfigActivations,
+  activateRankingConfig,
+  deactivateRankingConfig,
+  deleteRankingConfig,
+  countRankingConfigs,
+} from './ranking-configs.js';
+
+// Export job functions
+export {
+  createJob,
+  findJobById,
+  findJobs,
+  countJobs,
+  claimNextJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+  rescheduleJob,
+  markJobCancelled,
+  cancelJob,
+  retryJob,
+  requeueStaleJobs,
+} from './jobs.js';
+
+// Export scheduled task functions
+export {
+  syncScheduledTask,
+  findScheduledTaskByName,
+  findScheduledTasks,
+  acquireScheduledTaskLease,
+  renewScheduledTaskLease,
+  releaseScheduledTaskLease,
+  requestScheduledTaskRun,
+  startScheduledTaskRun,
+  finishScheduledTaskRun,
+  findLastSuccessfulScheduledTaskRun,
+  findScheduledTaskRuns,
+  countScheduledTaskRuns,
+} from './scheduled-tasks.js';
+
+// Export audit log functions
+export { createAuditLog, findAuditLogById, findAuditLogs, countAuditLogs } from './audit-logs.js';
+
 // Export player number utilities
 export { generateUniquePlayerNumber, isValidPlayerNumber } from './player-number.js';
 
@@ -81,15 +168,25 @@ export {
   getFinalsStandings,
   getMergedStandings,
   getPlayerTopFinishes,
+  countSharedTournaments,
   updateStanding,
   updateStandingPoints,
   deleteStanding,
   deleteStandingsByTournament,
   countStandings,
   getPlayerStats,
+  getPlayerEventPoints,
   recalculateTimeDecay,
+  applyTournamentPoints,
+  recalculateTournamentPoints,
 } from './standings.js';
 
+// Export tournament game functions
+export { replaceTournamentGames, getTournamentGames } from './tournament-games.js';
+
+// Export tournament import functions
+export { importTournamentResults } from './tournament-imports.js';
+
 // Export user functions
 export {
   createUser,
@@ -0,0 +1,283 @@
+import { prisma } from './client.js';
+import { Prisma } from '@prisma/client';
+import type { Job } from '@prisma/client';
+
+/**
+ * Input for queueing a new job
+ */
+export interface CreateJobInput {
+  type: string;
+  payload: Prisma.InputJsonValue;
+  /** Encrypted secret the job needs, such as an API token, cleared when it finishes */
+  secret?: string;
+  createdById?: string;
+  /** Earliest time the job may run (defaults to now) */
+  runAt?: Date;
+}
+
+/**
+ * Options for querying jobs
+ */
+export interface FindJobsOptions {
+  take?: number;
+  skip?: number;
+  orderBy?: Prisma.JobOrderByWithRelationInput;
+  where?: Prisma.JobWhereInput;
+}
+
+/**
+ * Result of requeueing stale jobs
+ */
+export interface StaleJobsResult {
+  /** Jobs queued to run again */
+  requeued: number;
+  /** Jobs failed because they had used up their attempts */
+  failed: number;
+}
+
+/**
+ * Queues a new job
+ */
+export async function createJob(data: CreateJobInput): Promise<Job> {
+  return prisma.job.create({
+    data,
+  });
+}
+
+/**
+ * Finds a job by ID
+ */
+export async function findJobById(id: string): Promise<Job | null> {
+  return prisma.job.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Finds multiple jobs with optional filters, newest first
+ */
+export async function findJobs(options: FindJobsOptions = {}): Promise<Job[]> {
+  return prisma.job.findMany({
+    take: options.take,
+    skip: options.skip,
+    where: options.where,
+    orderBy: options.orderBy ?? { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Counts jobs
+ */
+export async function countJobs(where?: Prisma.JobWhereInput): Promise<number> {
+  return prisma.job.count({ where });
+}
+
+/**
+ * Claims the oldest pending job that is due for a worker
+ *
+ * The job is only claimed if it is still pending when it is marked as
+ * running, so two workers never run the same job. Returns null when no job
+ * is due.
+ */
+export async function claimNextJob(workerId: string, now: Date = new Date()): Promise<Job | null> {
+  for (;;) {
+    const next = await prisma.job.findFirst({
+      where: { status: 'PENDING', runAt: { lte: now } },
+      orderBy: [{ runAt: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true },
+    });
+    if (!next) {
+      return null;
+    }
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: next.id, status: 'PENDING' },
+      data: {
+        status: 'RUNNING',
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+        startedAt: now,
+        heartbeatAt: now,
+      },
+    });
+    if (count === 1) {
+      return prisma.job.findUnique({ where: { id: next.id } });
+    }
+    // Another worker claimed it first
+  }
+}
+
+/**
+ * Records the progress of a running job and returns it, so the worker can
+ * see whether cancellation was requested
+ */
+export async function updateJobProgress(
+  id: string,
+  progress: number,
+  progressTotal?: number,
+): Promise<Job> {
+  return prisma.job.update({
+    where: { id },
+    data: { progress, progressTotal, heartbeatAt: new Date() },
+  });
+}
+
+/**
+ * Updates a running job while the worker still holds it, so a worker whose
+ * job was requeued as stale cannot overwrite the outcome of a later attempt.
+ * Returns null when the job is no longer run by the worker.
+ */
+async function updateRunningJob(
+  id: string,
+  workerId: string,
+  data: Prisma.JobUpdateManyMutationInput,
+): Promise<Job | null> {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: 'RUNNING', lockedBy: workerId },
+    data,
+  });
+  if (count === 0) {
+    return null;
+  }
+  return findJobById(id);
+}
+
+/**
+ * Marks a running job as completed with its result
+ */
+export async function completeJob(
+  id: string,
+  workerId: string,
+  result: Prisma.InputJsonValue,
+): Promise<Job | null> {
+  return updateRunningJob(id, workerId, {
+    status: 'COMPLETED',
+    result,
+    error: null,
+    secret: null,
+    lockedBy: null,
+    completedAt: new Date(),
+  });
+}
+
+/**
+ * Marks a running job as failed
+ */
+export async function failJob(id: string, workerId: string, error: string): Promise<Job | null> {
+  return updateRunningJob(id, workerId, {
+    status: 'FAILED',
+    error,
+    secret: null,
+    lockedBy: null,
+    completedAt: new Date(),
+  });
+}
+
+/**
+ * Queues a running job that failed to run again later, keeping its error
+ */
+export async function rescheduleJob(
+  id: string,
+  workerId: string,
+  error: string,
+  runAt: Date,
+): Promise<Job | null> {
+  return updateRunningJob(id, workerId, { status: 'PENDING', error, runAt, lockedBy: null });
+}
+
+/**
+ * Marks a running job as cancelled after it stopped on request
+ */
+export async function markJobCancelled(id: string, workerId: string): Promise<Job | null> {
+  return updateRunningJob(id, workerId, {
+    status: 'CANCELLED',
+    secret: null,
+    lockedBy: null,
+    completedAt: new Date(),
+  });
+}
+
+/**
+ * Cancels a job
+ *
+ * Pending jobs are cancelled at once. Running jobs are asked to stop and are
+ * marked as cancelled by their worker when they do. Returns null when the job
+ * has already finished.
+ */
+export async function cancelJob(id: string): Promise<Job | null> {
+  const [pending, running] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'CANCELLED', secret: null, completedAt: new Date() },
+    }),
+    prisma.job.updateMany({
+      where: { id, status: 'RUNNING' },
+      data: { cancelRequested: true },
+    }),
+  ]);
+  if (pending.count === 0 && running.count === 0) {
+    return null;
+  }
+  return findJobById(id);
+}
+
+/**
+ * Queues a failed or cancelled job to run again with the same payload. Its
+ * secret was cleared when it finished, so it runs without it. Returns null
+ * when the job has not finished unsuccessfully.
+ */
+export async function retryJob(id: string): Promise<Job | null> {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: { in: ['FAILED', 'CANCELLED'] } },
+    data: {
+      status: 'PENDING',
+      result: Prisma.DbNull,
+      error: null,
+      progress: 0,
+      progressTotal: null,
+      runAt: new Date(),
+      cancelRequested: false,
+      startedAt: null,
+      completedAt: null,
+    },
+  });
+  if (count === 0) {
+    return null;
+  }
+  return findJobById(id);
+}
+
+/**
+ * Queues running jobs whose worker stopped reporting progress to run again,
+ * for example after the process running them was restarted. Jobs that have
+ * used up the attempts of their type (by type in `maxAttempts`) are failed
+ * instead.
+ */
+export async function requeueStaleJobs(
+  staleBefore: Date,
+  maxAttempts: Record<string, number> = {},
+): Promise<StaleJobsResult> {
+  const stale: Prisma.JobWhereInput = { status: 'RUNNING', heartbeatAt: { lt: staleBefore } };
+  const now = new Date();
+
+  const [failed, requeued] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: {
+        ...stale,
+        OR: Object.entries(maxAttempts).map(([type, max]) => ({ type, attempts: { gte: max } })),
+      },
+      data: {
+        status: 'FAILED',
+        error: 'Job stopped reporting progress on its last attempt',
+        secret: null,
+        lockedBy: null,
+        completedAt: now,
+      },
+    }),
+    prisma.job.updateMany({
+      where: stale,
+      data: { status: 'PENDING', lockedBy: null, runAt: now },
+    }),
+  ]);
+  return { requeued: requeued.count, failed: failed.count };
+}
@@ -1,10 +1,7 @@
+import { isPlayerRated } from '@opprs/core';
 import { prisma } from './client.js';
-import type {
-  OpprPlayerRanking,
-  OpprRankingHistory,
-  OpprRankingChangeType,
-  Prisma,
-} from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { OpprPlayerRanking, OpprRankingHistory, OpprRankingChangeType } from '@prisma/client';
 
 /**
  * Input for creating a new OPPR player ranking
@@ -13,6 +10,7 @@ export interface CreateOpprPlayerRankingInput {
   playerId: string;
   rating?: number;
   ratingDeviation?: number;
+  volatility?: number;
   ranking?: number;
   isRated?: boolean;
 }
@@ -23,6 +21,7 @@ export interface CreateOpprPlayerRankingInput {
 export interface UpdateOpprPlayerRankingInput {
   rating?: number;
   ratingDeviation?: number;
+  volatility?: number;
   ranking?: number;
   isRated?: boolean;
   lastRatingUpdate?: Date;
@@ -46,6 +45,7 @@ export interface CreateOpprRankingHistoryInput {
   opprPlayerRankingId: string;
   rating: number;
   ratingDeviation: number;
+  volatility?: number;
   ranking?: number;
   isRated: boolean;
   changeType: OpprRankingChangeType;
@@ -53,6 +53,28 @@ export interface CreateOpprRankingHistoryInput {
   notes?: string;
 }
 
+/**
+ * A single player's new rating after a tournament
+ */
+export interface TournamentRatingUpdate {
+  playerId: string;
+  rating: number;
+  ratingDeviation: number;
+  /** Only changed when given (Glicko-2) */
+  volatility?: number;
+  /** Events played, deciding whether the player is rated */
+  eventCount?: number;
+}
+
+/**
+ * A single player's result from a world ranking refresh
+ */
+export interface WorldRankingUpdate {
+  playerId: string;
+  ranking: number | null;
+  isRated?: boolean;
+}
+
 // === OPPR Player Ranking Functions ===
 
 /**
@@ -123,21 +145,34 @@ export async function findOpprPlayerRankings(
 }
 
 /**
- * Gets all rated players ordered by rating (highest first)
+ * Ranking of a player with the player and their identities
+ */
+export type OpprPlayerRankingWithPlayer = Prisma.OpprPlayerRankingGetPayload<{
+  include: { player: { include: { identities: true } } };
+}>;
+
+/**
+ * Gets all rated players ordered by rating (highest first), with their
+ * player and its identities
  */
-export async function getTopPlayersByOpprRating(limit: number = 50): Promise<OpprPlayerRanking[]> {
+export async function getTopPlayersByOpprRating(
+  limit: number = 50,
+): Promise<OpprPlayerRankingWithPlayer[]> {
   return prisma.opprPlayerRanking.findMany({
     take: limit,
     where: { isRated: true },
     orderBy: { rating: 'desc' },
-    include: { player: true },
+    include: { player: { include: { identities: true } } },
   });
 }
 
 /**
- * Gets all ranked players ordered by world ranking (best first)
+ * Gets all ranked players ordered by world ranking (best first), with their
+ * player and its identities
  */
-export async function getTopPlayersByOpprRanking(limit: number = 50): Promise<OpprPlayerRanking[]> {
+export async function getTopPlayersByOpprRanking(
+  limit: number = 50,
+): Promise<OpprPlayerRankingWithPlayer[]> {
   return prisma.opprPlayerRanking.findMany({
     take: limit,
     where: {
@@ -145,7 +180,7 @@ export async function getTopPlayersByOpprRanking(limit: number = 50): Promise<Op
       ranking: { not: null },
     },
     orderBy: { ranking: 'asc' },
-    include: { player: true },
+    include: { player: { include: { identities: true } } },
   });
 }
 
@@ -180,6 +215,7 @@ export async function updateOpprPlayerRanking(
 
 /**
  * Updates rating after a tournament and creates history record
+ * Volatility is only changed when given (Glicko-2).
  */
 export async function updateOpprRatingAfterTournament(
   playerId: string,
@@ -187,10 +223,11 @@ export async function updateOpprRatingAfterTournament(
   newRD: number,
   tournamentId: string,
   eventCount?: number,
+  newVolatility?: number,
 ): Promise<OpprPlayerRanking> {
   const ranking = await getOrCreateOpprPlayerRanking(playerId);
 
-  const isRated = eventCount !== undefined ? eventCount >= 5 : ranking.isRated;
+  const isRated = eventCount !== undefined ? isPlayerRated(eventCount) : ranking.isRated;
 
   // Update the ranking
   const updated = await prisma.opprPlayerRanking.update({
@@ -198,6 +235,7 @@ export async function updateOpprRatingAfterTournament(
     data: {
       rating: newRating,
       ratingDeviation: newRD,
+      volatility: newVolatility,
       lastRatingUpdate: new Date(),
       isRated,
     },
@@ -208,6 +246,7 @@ export async function updateOpprRatingAfterTournament(
     opprPlayerRankingId: ranking.id,
     rating: newRating,
     ratingDeviation: newRD,
+    volatility: updated.volatility,
     ranking: updated.ranking ?? undefined,
     isRated,
     changeType: 'TOURNAMENT_RESULT',
@@ -217,46 +256,142 @@ export async function updateOpprRatingAfterTournament(
   return updated;
 }
 
+/** Time limit for applying the rating updates of a tournament */
+const TOURNAMENT_RATING_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
 /**
- * Updates world rankings for all players (batch operation)
+ * Applies the rating updates of a tournament in a single transaction, with a
+ * TOURNAMENT_RESULT history record per player. Ratings are applied once per
+ * tournament: when the tournament already has TOURNAMENT_RESULT history,
+ * nothing is changed. Returns whether the updates were applied.
+ *
+ * A transaction-scoped advisory lock on the tournament serializes concurrent
+ * calls, so the history check cannot race with another call's writes.
  */
-export async function updateWorldRankings(
-  rankings: Array<{ playerId: string; ranking: number }>,
-): Promise<void> {
-  await prisma.$transaction(async (tx) => {
-    for (const { playerId, ranking } of rankings) {
-      const opprRanking = await tx.opprPlayerRanking.findUnique({
-        where: { playerId },
+export async function applyOpprRatingUpdatesForTournament(
+  tournamentId: string,
+  updates: TournamentRatingUpdate[],
+): Promise<boolean> {
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$executeRaw`
+        SELECT pg_advisory_xact_lock(hashtext('tournament-rating'), hashtext(${tournamentId}))
+      `;
+
+      const existingHistory = await tx.opprRankingHistory.count({
+        where: { tournamentId, changeType: 'TOURNAMENT_RESULT' },
       });
+      if (existingHistory > 0) {
+        return false;
+      }
 
-      if (opprRanking) {
-        await tx.opprPlayerRanking.update({
+      for (const { playerId, rating, ratingDeviation, volatility, eventCount } of updates) {
+        const ranking = await tx.opprPlayerRanking.upsert({
           where: { playerId },
-          data: { ranking },
+          create: { playerId },
+          update: {},
+        });
+        const isRated = eventCount !== undefined ? isPlayerRated(eventCount) : ranking.isRated;
+
+        const updated = await tx.opprPlayerRanking.update({
+          where: { id: ranking.id },
+          data: { rating, ratingDeviation, volatility, lastRatingUpdate: new Date(), isRated },
         });
 
         await tx.opprRankingHistory.create({
           data: {
-            opprPlayerRankingId: opprRanking.id,
-            rating: opprRanking.rating,
-            ratingDeviation: opprRanking.ratingDeviation,
-            ranking,
-            isRated: opprRanking.isRated,
-            changeType: 'RANKING_REFRESH',
+            opprPlayerRankingId: ranking.id,
+            rating,
+            ratingDeviation,
+            volatility: updated.volatility,
+            ranking: updated.ranking,
+            isRated,
+            changeType: 'TOURNAMENT_RESULT',
+            tournamentId,
           },
         });
       }
-    }
-  });
+
+      return true;
+    },
+    { timeout: TOURNAMENT_RATING_TRANSACTION_TIMEOUT_MS },
+  );
+}
+
+/** Rankings written per statement by updateWorldRankings */
+const WORLD_RANKING_CHUNK_SIZE = 500;
+
+/** Default time limit for writing a world ranking refresh */
+const WORLD_RANKING_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Updates world rankings for all players (batch operation)
+ * Players without an OPPR ranking record are skipped. Returns the number of rankings updated.
+ *
+ * Rankings are written in chunks, each with one UPDATE statement and one
+ * insert of RANKING_REFRESH history, all in a single transaction.
+ */
+export async function updateWorldRankings(
+  rankings: WorldRankingUpdate[],
+  timeout: number = WORLD_RANKING_TRANSACTION_TIMEOUT_MS,
+): Promise<number> {
+  return prisma.$transaction(
+    async (tx) => {
+      let updatedCount = 0;
+
+      for (let i = 0; i < rankings.length; i += WORLD_RANKING_CHUNK_SIZE) {
+        const chunk = rankings.slice(i, i + WORLD_RANKING_CHUNK_SIZE);
+        const values = chunk.map(
+          ({ playerId, ranking, isRated }) =>
+            Prisma.sql`(${playerId}, ${ranking}::integer, ${isRated ?? null}::boolean)`,
+        );
+
+        await tx.$executeRaw`
+          UPDATE "OpprPlayerRanking" AS r
+          SET "ranking" = v."ranking",
+              "isRated" = COALESCE(v."isRated", r."isRated"),
+              "updatedAt" = NOW()
+          FROM (VALUES ${Prisma.join(values)}) AS v("playerId", "ranking", "isRated")
+          WHERE r."playerId" = v."playerId"
+        `;
+
+        const updated = await tx.opprPlayerRanking.findMany({
+          where: { playerId: { in: chunk.map((r) => r.playerId) } },
+        });
+        await tx.opprRankingHistory.createMany({
+          data: updated.map((r) => ({
+            opprPlayerRankingId: r.id,
+            rating: r.rating,
+            ratingDeviation: r.ratingDeviation,
+            volatility: r.volatility,
+            ranking: r.ranking,
+            isRated: r.isRated,
+            changeType: 'RANKING_REFRESH' as const,
+          })),
+        });
+
+        updatedCount += updated.length;
+      }
+
+      return updatedCount;
+    },
+    { timeout },
+  );
 }
 
 /**
  * Applies RD decay for inactive players
+ *
+ * RD grows with the days since a player's last rating update, counting
+ * partial days. When the decay is applied repeatedly, pass the time of the
+ * previous application as `decayedSince` so only the time after it is
+ * counted again.
  */
 export async function applyRDDecayForInactivePlayers(
   thresholdDays: number = 30,
   decayPerDay: number = 0.3,
   maxRD: number = 200,
+  decayedSince?: Date,
 ): Promise<number> {
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - thresholdDays);
@@ -272,9 +407,14 @@ export async function applyRDDecayForInactivePlayers(
 
   await prisma.$transaction(async (tx) => {
     for (const ranking of inactivePlayers) {
-      const daysSinceUpdate = Math.floor(
-        (Date.now() - ranking.lastRatingUpdate.getTime()) / (1000 * 60 * 60 * 24),
-      );
+      const decayFrom =
+        decayedSince && decayedSince > ranking.lastRatingUpdate
+          ? decayedSince
+          : ranking.lastRatingUpdate;
+      const daysSinceUpdate = (Date.now() - decayFrom.getTime()) / (1000 * 60 * 60 * 24);
+      if (daysSinceUpdate <= 0) {
+        continue;
+      }
       const newRD = Math.min(ranking.ratingDeviation + daysSinceUpdate * decayPerDay, maxRD);
 
       await tx.opprPlayerRanking.update({
@@ -287,10 +427,11 @@ export async function applyRDDecayForInactivePlayers(
           opprPlayerRankingId: ranking.id,
           rating: ranking.rating,
           ratingDeviation: newRD,
+          volatility: ranking.volatility,
           ranking: ranking.ranking,
           isRated: ranking.isRated,
           changeType: 'RD_DECAY',
-          notes: `RD increased from ${ranking.ratingDeviation.toFixed(1)} to ${newRD.toFixed(1)} due to ${daysSinceUpdate} days of inactivity`,
+          notes: `RD increased from ${ranking.ratingDeviation.toFixed(1)} to ${newRD.toFixed(1)} due to ${daysSinceUpdate.toFixed(1)} days of inactivity`,
         },
       });
 
@@ -0,0 +1,156 @@
+import { prisma } from './client.js';
+import type { PlayerIdentity, PlayerIdentityStatus, Prisma } from '@prisma/client';
+
+/** Source of external IDs given without a source prefix */
+export const DEFAULT_IDENTITY_SOURCE = 'external';
+
+/**
+ * An external ID split into its source and the ID within it
+ */
+export interface ExternalIdParts {
+  source: string;
+  externalId: string;
+}
+
+/**
+ * Input for creating a player identity
+ */
+export interface CreatePlayerIdentityInput {
+  playerId: string;
+  source: string;
+  externalId: string;
+  status?: PlayerIdentityStatus;
+}
+
+/**
+ * Input for updating a player identity
+ */
+export interface UpdatePlayerIdentityInput {
+  source?: string;
+  externalId?: string;
+  status?: PlayerIdentityStatus;
+}
+
+/**
+ * Options for querying player identities
+ */
+export interface FindPlayerIdentitiesOptions {
+  where?: Prisma.PlayerIdentityWhereInput;
+  orderBy?: Prisma.PlayerIdentityOrderByWithRelationInput;
+}
+
+/**
+ * Splits an external ID such as matchplay:123 into its source and ID. IDs
+ * without a source prefix get the default source.
+ */
+export function parseExternalId(value: string): ExternalIdParts {
+  const colon = value.indexOf(':');
+  return colon > 0
+    ? { source: value.slice(0, colon), externalId: value.slice(colon + 1) }
+    : { source: DEFAULT_IDENTITY_SOURCE, externalId: value };
+}
+
+/**
+ * Formats an identity as an external ID, the reverse of parseExternalId
+ */
+export function formatExternalId(identity: ExternalIdParts): string {
+  return identity.source === DEFAULT_IDENTITY_SOURCE
+    ? identity.externalId
+    : `${identity.source}:${identity.externalId}`;
+}
+
+/**
+ * The external ID a player is best known by, such as matchplay:123: their
+ * first verified identity, or their first identity when none is verified
+ */
+export function getPrimaryExternalId(
+  identities: Pick<PlayerIdentity, 'source' | 'externalId' | 'status' | 'createdAt'>[],
+): string | null {
+  const [primary] = [...identities].sort(
+    (a, b) =>
+      Number(b.status === 'VERIFIED') - Number(a.status === 'VERIFIED') ||
+      a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  return primary ? formatExternalId(primary) : null;
+}
+
+/**
+ * Creates a player identity
+ */
+export async function createPlayerIdentity(
+  data: CreatePlayerIdentityInput,
+): Promise<PlayerIdentity> {
+  return prisma.playerIdentity.create({ data });
+}
+
+/**
+ * Links an external ID such as matchplay:123 to a player, unless it already
+ * belongs to a player. Returns the identity, whoever it belongs to.
+ */
+export async function linkPlayerIdentity(
+  playerId: string,
+  externalId: string,
+  status: PlayerIdentityStatus = 'UNVERIFIED',
+): Promise<PlayerIdentity> {
+  const parts = parseExternalId(externalId);
+  return prisma.playerIdentity.upsert({
+    where: { source_externalId: parts },
+    update: {},
+    create: { ...parts, playerId, status },
+  });
+}
+
+/**
+ * Finds a player identity by ID
+ */
+export async function findPlayerIdentityById(id: string): Promise<PlayerIdentity | null> {
+  return prisma.playerIdentity.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Finds the identity with an ID in a source
+ */
+export async function findPlayerIdentity(
+  source: string,
+  externalId: string,
+): Promise<PlayerIdentity | null> {
+  return prisma.playerIdentity.findUnique({
+    where: { source_externalId: { source, externalId } },
+  });
+}
+
+/**
+ * Finds player identities, by default ordered by source
+ */
+export async function findPlayerIdentities(
+  options: FindPlayerIdentitiesOptions = {},
+): Promise<PlayerIdentity[]> {
+  return prisma.playerIdentity.findMany({
+    where: options.where,
+    orderBy: options.orderBy ?? [{ source: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Updates a player identity
+ */
+export async function updatePlayerIdentity(
+  id: string,
+  data: UpdatePlayerIdentityInput,
+): Promise<PlayerIdentity> {
+  return prisma.playerIdentity.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Deletes a player identity
+ */
+export async function deletePlayerIdentity(id: string): Promise<PlayerIdentity> {
+  return prisma.playerIdentity.delete({
+    where: { id },
+  });
+}
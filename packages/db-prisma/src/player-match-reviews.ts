@@ -0,0 +1,161 @@
+import { prisma } from './client.js';
+import type { Prisma, PlayerMatchReview } from '@prisma/client';
+import { mergePlayersInTransaction } from './player-merges.js';
+
+const reviewInclude = {
+  player: true,
+  matchedPlayer: true,
+  tournament: true,
+} satisfies Prisma.PlayerMatchReviewInclude;
+
+/**
+ * Review with the player it is about, the player they were matched to and the
+ * tournament whose import queued it
+ */
+export type PlayerMatchReviewWithPlayers = Prisma.PlayerMatchReviewGetPayload<{
+  include: typeof reviewInclude;
+}>;
+
+/**
+ * Input for queueing a review of an imported player
+ */
+export interface CreatePlayerMatchReviewInput {
+  source: string;
+  externalId?: string;
+  name?: string;
+  candidates: Prisma.InputJsonValue;
+  playerId: string;
+  tournamentId?: string;
+}
+
+/**
+ * Options for querying reviews
+ */
+export interface FindPlayerMatchReviewsOptions {
+  take?: number;
+  skip?: number;
+  orderBy?: Prisma.PlayerMatchReviewOrderByWithRelationInput;
+  where?: Prisma.PlayerMatchReviewWhereInput;
+}
+
+/**
+ * Outcome of matching a reviewed player to a candidate
+ */
+export interface PlayerMatchResult {
+  review: PlayerMatchReviewWithPlayers;
+  /** Tournaments whose standings moved to the matched player */
+  tournamentIds: string[];
+}
+
+/**
+ * Queues a review of an imported player
+ */
+export async function createPlayerMatchReview(
+  data: CreatePlayerMatchReviewInput,
+): Promise<PlayerMatchReview> {
+  return prisma.playerMatchReview.create({
+    data,
+  });
+}
+
+/**
+ * Finds a review by ID
+ */
+export async function findPlayerMatchReviewById(
+  id: string,
+): Promise<PlayerMatchReviewWithPlayers | null> {
+  return prisma.playerMatchReview.findUnique({
+    where: { id },
+    include: reviewInclude,
+  });
+}
+
+/**
+ * Finds multiple reviews with optional filters, oldest first
+ */
+export async function findPlayerMatchReviews(
+  options: FindPlayerMatchReviewsOptions = {},
+): Promise<PlayerMatchReviewWithPlayers[]> {
+  return prisma.playerMatchReview.findMany({
+    take: options.take,
+    skip: options.skip,
+    where: options.where,
+    orderBy: options.orderBy ?? { createdAt: 'asc' },
+    include: reviewInclude,
+  });
+}
+
+/**
+ * Counts reviews
+ */
+export async function countPlayerMatchReviews(
+  where?: Prisma.PlayerMatchReviewWhereInput,
+): Promise<number> {
+  return prisma.playerMatchReview.count({ where });
+}
+
+/**
+ * Dismisses a pending review: the imported player is kept as a player of
+ * their own. Returns null when the review is not pending.
+ */
+export async function dismissPlayerMatchReview(
+  id: string,
+  resolvedById?: string,
+): Promise<PlayerMatchReviewWithPlayers | null> {
+  const { count } = await prisma.playerMatchReview.updateMany({
+    where: { id, status: 'PENDING' },
+    data: { status: 'DISMISSED', resolvedById, resolvedAt: new Date() },
+  });
+  if (count === 0) {
+    return null;
+  }
+  return findPlayerMatchReviewById(id);
+}
+
+/**
+ * Matches the player of a pending review to an existing player in one
+ * transaction, merging the reviewed player into them with `mergePlayers`.
+ *
+ * Returns null when the review is not pending.
+ */
+export async function matchPlayerMatchReview(
+  id: string,
+  matchedPlayerId: string,
+  resolvedById?: string,
+): Promise<PlayerMatchResult | null> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.playerMatchReview.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'MATCHED', matchedPlayerId, resolvedById, resolvedAt: new Date() },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const review = await tx.playerMatchReview.findUniqueOrThrow({ where: { id } });
+    let tournamentIds: string[] = [];
+
+    if (review.playerId) {
+      // The reviewed player's other pending reviews are resolved by the merge
+      await tx.playerMatchReview.updateMany({
+        where: { playerId: review.playerId, OR: [{ status: 'PENDING' }, { id }] },
+        data: {
+          status: 'MATCHED',
+          playerId: null,
+          matchedPlayerId,
+          resolvedById,
+          resolvedAt: new Date(),
+        },
+      });
+      ({ tournamentIds } = await mergePlayersInTransaction(tx, review.playerId, matchedPlayerId, {
+        mergedById: resolvedById,
+      }));
+    }
+
+    const matched = await tx.playerMatchReview.findUniqueOrThrow({
+      where: { id },
+      include: reviewInclude,
+    });
+    return { review: matched, tournamentIds };
+  });
+}
@@ -0,0 +1,244 @@
+import { prisma } from './client.js';
+import type { Player, PlayerMerge, Prisma } from '@prisma/client';
+import { formatExternalId } from './player-identities.js';
+
+/**
+ * Counts of the records moved by a merge, stored with its audit record
+ */
+export interface PlayerMergeSummary {
+  /** Standings moved to the target */
+  standingsMoved: number;
+  /** Standings deleted because both players had one in the same tournament stage */
+  standingsDropped: number;
+  /** Tournaments organized by the source, now organized by the target */
+  tournamentsReassigned: number;
+  /** Whether the source's user account was linked to the target */
+  userMoved: boolean;
+  /** External IDs moved to the target */
+  identitiesMoved: number;
+  /** Rating history records moved to the target's ranking */
+  rankingHistoryMoved: number;
+  /** Whether the target took the source's rating, being the more certain one */
+  ratingTaken: boolean;
+}
+
+/**
+ * Options for merging players
+ */
+export interface MergePlayersOptions {
+  /** User who merged the players */
+  mergedById?: string;
+}
+
+/**
+ * Outcome of merging two players
+ */
+export interface PlayerMergeResult {
+  merge: PlayerMerge;
+  /** The target player after the merge */
+  player: Player;
+  /** Tournaments whose standings changed and need recalculating */
+  tournamentIds: string[];
+}
+
+/**
+ * Merges the source player into the target within a transaction. Shared with
+ * the player match reviews, whose matching is a merge.
+ */
+export async function mergePlayersInTransaction(
+  tx: Prisma.TransactionClient,
+  sourceId: string,
+  targetId: string,
+  options: MergePlayersOptions = {},
+): Promise<PlayerMergeResult> {
+  const source = await tx.player.findUniqueOrThrow({
+    where: { id: sourceId },
+    include: { user: true, opprRanking: true, identities: { orderBy: { createdAt: 'asc' } } },
+  });
+  const target = await tx.player.findUniqueOrThrow({
+    where: { id: targetId },
+    include: { user: true, opprRanking: true },
+  });
+
+  // Standings: where both players have one in the same tournament stage, the
+  // better placed one is kept
+  const sourceStandings = await tx.standing.findMany({ where: { playerId: source.id } });
+  const targetStandings = await tx.standing.findMany({ where: { playerId: target.id } });
+  const targetByStage = new Map(
+    targetStandings.map((standing) => [`${standing.tournamentId}:${standing.isFinals}`, standing]),
+  );
+  const droppedIds: string[] = [];
+  for (const standing of sourceStandings) {
+    const conflict = targetByStage.get(`${standing.tournamentId}:${standing.isFinals}`);
+    if (conflict) {
+      droppedIds.push(conflict.position <= standing.position ? standing.id : conflict.id);
+    }
+  }
+  await tx.standing.deleteMany({ where: { id: { in: droppedIds } } });
+  const { count: standingsMoved } = await tx.standing.updateMany({
+    where: { playerId: source.id },
+    data: { playerId: target.id },
+  });
+  const tournamentIds = [...new Set(sourceStandings.map((standing) => standing.tournamentId))];
+  await tx.gamePlacement.updateMany({
+    where: { playerId: source.id },
+    data: { playerId: target.id },
+  });
+
+  const { count: tournamentsReassigned } = await tx.tournament.updateMany({
+    where: { organizerId: source.id },
+    data: { organizerId: target.id },
+  });
+
+  // A user account moves only to a target without one
+  const userMoved = Boolean(source.user && !target.user);
+  if (source.user && !target.user) {
+    await tx.user.update({ where: { id: source.user.id }, data: { playerId: target.id } });
+  }
+
+  const { count: identitiesMoved } = await tx.playerIdentity.updateMany({
+    where: { playerId: source.id },
+    data: { playerId: target.id },
+  });
+
+  // Rating: the target keeps the more certain rating, with the history of both
+  let rankingHistoryMoved = 0;
+  let ratingTaken = false;
+  if (source.opprRanking && !target.opprRanking) {
+    await tx.opprPlayerRanking.update({
+      where: { id: source.opprRanking.id },
+      data: { playerId: target.id },
+    });
+    ratingTaken = true;
+  } else if (source.opprRanking && target.opprRanking) {
+    ({ count: rankingHistoryMoved } = await tx.opprRankingHistory.updateMany({
+      where: { opprPlayerRankingId: source.opprRanking.id },
+      data: { opprPlayerRankingId: target.opprRanking.id },
+    }));
+    ratingTaken = source.opprRanking.ratingDeviation < target.opprRanking.ratingDeviation;
+    const kept = ratingTaken ? source.opprRanking : target.opprRanking;
+    await tx.opprPlayerRanking.delete({ where: { id: source.opprRanking.id } });
+    await tx.opprPlayerRanking.update({
+      where: { id: target.opprRanking.id },
+      data: {
+        rating: kept.rating,
+        ratingDeviation: kept.ratingDeviation,
+        volatility: kept.volatility,
+        lastRatingUpdate: kept.lastRatingUpdate,
+        history: {
+          create: {
+            rating: kept.rating,
+            ratingDeviation: kept.ratingDeviation,
+            volatility: kept.volatility,
+            ranking: target.opprRanking.ranking,
+            isRated: target.opprRanking.isRated,
+            changeType: 'MANUAL_ADJUSTMENT',
+            notes: `Merged player ${source.playerNumber}`,
+          },
+        },
+      },
+    });
+  }
+
+  await tx.playerMatchReview.updateMany({
+    where: { playerId: source.id },
+    data: { playerId: target.id },
+  });
+  await tx.playerMatchReview.updateMany({
+    where: { matchedPlayerId: source.id },
+    data: { matchedPlayerId: target.id },
+  });
+
+  // Players merged into the source now redirect to the target
+  await tx.playerMerge.updateMany({
+    where: { targetPlayerId: source.id },
+    data: { targetPlayerId: target.id },
+  });
+
+  await tx.player.delete({ where: { id: source.id } });
+
+  const events = await tx.standing.findMany({
+    where: { playerId: target.id },
+    distinct: ['tournamentId'],
+    select: { tournament: { select: { date: true } } },
+  });
+  const player = await tx.player.update({
+    where: { id: target.id },
+    data: {
+      eventCount: events.length,
+      lastEventDate: events.reduce<Date | null>(
+        (latest, { tournament }) =>
+          !latest || tournament.date > latest ? tournament.date : latest,
+        null,
+      ),
+      ...(!target.name && source.name ? { name: source.name } : {}),
+    },
+  });
+
+  const summary: PlayerMergeSummary = {
+    standingsMoved,
+    standingsDropped: droppedIds.length,
+    tournamentsReassigned,
+    userMoved,
+    identitiesMoved,
+    rankingHistoryMoved,
+    ratingTaken,
+  };
+  const merge = await tx.playerMerge.create({
+    data: {
+      sourcePlayerId: source.id,
+      sourcePlayerNumber: source.playerNumber,
+      sourceName: source.name,
+      sourceExternalId: source.identities[0] ? formatExternalId(source.identities[0]) : null,
+      mergedIntoId: target.id,
+      targetPlayerId: target.id,
+      mergedById: options.mergedById,
+      summary: { ...summary },
+    },
+  });
+
+  return { merge, player, tournamentIds };
+}
+
+/**
+ * Merges a duplicate player into another in one transaction, and deletes it.
+ *
+ * The source's standings move to the target; where both have one in the same
+ * tournament stage, the better placed one is kept. Organized tournaments,
+ * import reviews, game placements, external IDs and the user account move
+ * too, the latter only when the target has none. The target keeps the rating
+ * with the lower deviation and the history of both, and its event count and
+ * last event date are recomputed from its standings. It takes the source's
+ * name when it has none.
+ *
+ * An audit record keeps the source's identity and redirects their ID to the
+ * target. Points and ratings are not recalculated.
+ */
+export async function mergePlayers(
+  sourceId: string,
+  targetId: string,
+  options: MergePlayersOptions = {},
+): Promise<PlayerMergeResult> {
+  return prisma.$transaction((tx) => mergePlayersInTransaction(tx, sourceId, targetId, options));
+}
+
+/**
+ * Finds the merge of a player by their former ID
+ */
+export async function findPlayerMergeBySourceId(
+  sourcePlayerId: string,
+): Promise<PlayerMerge | null> {
+  return prisma.playerMerge.findUnique({
+    where: { sourcePlayerId },
+  });
+}
+
+/**
+ * Finds the players merged into a player, newest first
+ */
+export async function findPlayerMergesByTarget(targetPlayerId: string): Promise<PlayerMerge[]> {
+  return prisma.playerMerge.findMany({
+    where: { targetPlayerId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
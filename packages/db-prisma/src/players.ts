@@ -1,11 +1,13 @@
 import { prisma } from './client.js';
 import type { Player, Prisma } from '@prisma/client';
 import { generateUniquePlayerNumber } from './player-number.js';
+import { parseExternalId } from './player-identities.js';
 
 /**
  * Input for creating a new player
  */
 export interface CreatePlayerInput {
+  /** External ID such as matchplay:123, kept as a verified identity */
   externalId?: string;
   playerNumber?: number;
   name?: string;
@@ -37,12 +39,16 @@ export interface FindPlayersOptions {
  * Creates a new player with auto-generated playerNumber
  */
 export async function createPlayer(data: CreatePlayerInput): Promise<Player> {
+  const { externalId, ...playerData } = data;
   const playerNumber = data.playerNumber ?? (await generateUniquePlayerNumber());
 
   return prisma.player.create({
     data: {
-      ...data,
+      ...playerData,
       playerNumber,
+      ...(externalId
+        ? { identities: { create: { ...parseExternalId(externalId), status: 'VERIFIED' } } }
+        : {}),
     },
   });
 }
@@ -61,16 +67,17 @@ export async function findPlayerById(
 }
 
 /**
- * Finds a player by external ID
+ * Finds a player by external ID, such as matchplay:123, through their identities
  */
 export async function findPlayerByExternalId(
   externalId: string,
   include?: Prisma.PlayerInclude,
 ): Promise<Player | null> {
-  return prisma.player.findUnique({
-    where: { externalId },
-    include,
+  const identity = await prisma.playerIdentity.findUnique({
+    where: { source_externalId: parseExternalId(externalId) },
+    include: { player: include ? { include } : true },
   });
+  return identity?.player ?? null;
 }
 
 /**
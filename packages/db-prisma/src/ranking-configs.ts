@@ -0,0 +1,183 @@
+import { prisma } from './client.js';
+import type { RankingConfig, Prisma } from '@prisma/client';
+
+/**
+ * Input for creating a new ranking configuration
+ */
+export interface CreateRankingConfigInput {
+  version: string;
+  name: string;
+  description?: string;
+  config: Prisma.InputJsonValue; // PartialOPPRConfig from OPPR
+}
+
+/**
+ * Input for updating a ranking configuration
+ */
+export interface UpdateRankingConfigInput {
+  version?: string;
+  name?: string;
+  description?: string | null;
+  config?: Prisma.InputJsonValue;
+}
+
+/**
+ * Activation of a ranking configuration along with the configuration
+ */
+export type RankingConfigActivationWithConfig = Prisma.RankingConfigActivationGetPayload<{
+  include: { rankingConfig: true };
+}>;
+
+/**
+ * Options for querying ranking configurations
+ */
+export interface FindRankingConfigsOptions {
+  take?: number;
+  skip?: number;
+  orderBy?: Prisma.RankingConfigOrderByWithRelationInput;
+  where?: Prisma.RankingConfigWhereInput;
+}
+
+/**
+ * Creates a new (inactive) ranking configuration
+ */
+export async function createRankingConfig(data: CreateRankingConfigInput): Promise<RankingConfig> {
+  return prisma.rankingConfig.create({
+    data,
+  });
+}
+
+/**
+ * Finds a ranking configuration by ID
+ */
+export async function findRankingConfigById(id: string): Promise<RankingConfig | null> {
+  return prisma.rankingConfig.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Finds a ranking configuration by version
+ */
+export async function findRankingConfigByVersion(version: string): Promise<RankingConfig | null> {
+  return prisma.rankingConfig.findUnique({
+    where: { version },
+  });
+}
+
+/**
+ * Finds multiple ranking configurations with optional filters
+ */
+export async function findRankingConfigs(
+  options: FindRankingConfigsOptions = {},
+): Promise<RankingConfig[]> {
+  return prisma.rankingConfig.findMany({
+    take: options.take,
+    skip: options.skip,
+    where: options.where,
+    orderBy: options.orderBy ?? { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Gets the active ranking configuration, if any
+ */
+export async function getActiveRankingConfig(): Promise<RankingConfig | null> {
+  return prisma.rankingConfig.findFirst({
+    where: { isActive: true },
+  });
+}
+
+/**
+ * Updates a ranking configuration
+ */
+export async function updateRankingConfig(
+  id: string,
+  data: UpdateRankingConfigInput,
+): Promise<RankingConfig> {
+  return prisma.rankingConfig.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Finds every activation of a ranking configuration, oldest first
+ */
+export async function findRankingConfigActivations(): Promise<RankingConfigActivationWithConfig[]> {
+  return prisma.rankingConfigActivation.findMany({
+    include: { rankingConfig: true },
+    orderBy: { activatedAt: 'asc' },
+  });
+}
+
+/**
+ * Activates a ranking configuration
+ * Any previously active configuration is deactivated in the same transaction,
+ * ending its activation where the new one starts. Activating the active
+ * configuration leaves it unchanged. A transaction-scoped advisory lock keeps
+ * concurrent activations from both staying open.
+ */
+export async function activateRankingConfig(id: string): Promise<RankingConfig> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('ranking-config-activation'))`;
+
+    const config = await tx.rankingConfig.findUniqueOrThrow({ where: { id } });
+    if (config.isActive) {
+      return config;
+    }
+
+    const activatedAt = new Date();
+    await tx.rankingConfigActivation.updateMany({
+      where: { deactivatedAt: null },
+      data: { deactivatedAt: activatedAt },
+    });
+    await tx.rankingConfig.updateMany({
+      where: { isActive: true },
+      data: { isActive: false },
+    });
+    await tx.rankingConfigActivation.create({
+      data: { rankingConfigId: id, activatedAt },
+    });
+
+    return tx.rankingConfig.update({
+      where: { id },
+      data: { isActive: true, activatedAt },
+    });
+  });
+}
+
+/**
+ * Deactivates a ranking configuration, ending its open activation
+ */
+export async function deactivateRankingConfig(id: string): Promise<RankingConfig> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('ranking-config-activation'))`;
+
+    await tx.rankingConfigActivation.updateMany({
+      where: { rankingConfigId: id, deactivatedAt: null },
+      data: { deactivatedAt: new Date() },
+    });
+
+    return tx.rankingConfig.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  });
+}
+
+/**
+ * Deletes a ranking configuration
+ */
+export async function deleteRankingConfig(id: string): Promise<RankingConfig> {
+  return prisma.rankingConfig.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Counts total ranking configurations
+ */
+export async function countRankingConfigs(where?: Prisma.RankingConfigWhereInput): Promise<number> {
+  return prisma.rankingConfig.count({ where });
+}
@@ -0,0 +1,212 @@
+import { prisma } from './client.js';
+import type { Prisma, ScheduledTask, ScheduledTaskRun } from '@prisma/client';
+
+/**
+ * Scheduled task with its most recent run
+ */
+export type ScheduledTaskWithLastRun = ScheduledTask & { runs: ScheduledTaskRun[] };
+
+/**
+ * Options for querying the run history of a task
+ */
+export interface FindScheduledTaskRunsOptions {
+  take?: number;
+  skip?: number;
+  where?: Prisma.ScheduledTaskRunWhereInput;
+}
+
+/**
+ * Outcome of a finished scheduled task run
+ */
+export interface FinishScheduledTaskRunInput {
+  status: 'SUCCEEDED' | 'FAILED';
+  result?: Prisma.InputJsonValue;
+  error?: string;
+}
+
+/**
+ * Creates a scheduled task, or updates its schedule and next run when the
+ * schedule changed. A task keeps its next run while its schedule stays the same.
+ */
+export async function syncScheduledTask(
+  name: string,
+  schedule: string,
+  nextRunAt: Date,
+): Promise<ScheduledTask> {
+  const existing = await prisma.scheduledTask.findUnique({ where: { name } });
+  if (!existing) {
+    return prisma.scheduledTask.create({ data: { name, schedule, nextRunAt } });
+  }
+  if (existing.schedule === schedule) {
+    return existing;
+  }
+  return prisma.scheduledTask.update({
+    where: { name },
+    data: { schedule, nextRunAt },
+  });
+}
+
+/**
+ * Finds a scheduled task by name with its most recent run
+ */
+export async function findScheduledTaskByName(
+  name: string,
+): Promise<ScheduledTaskWithLastRun | null> {
+  return prisma.scheduledTask.findUnique({
+    where: { name },
+    include: { runs: { orderBy: { startedAt: 'desc' }, take: 1 } },
+  });
+}
+
+/**
+ * Finds all scheduled tasks with their most recent run
+ */
+export async function findScheduledTasks(): Promise<ScheduledTaskWithLastRun[]> {
+  return prisma.scheduledTask.findMany({
+    orderBy: { name: 'asc' },
+    include: { runs: { orderBy: { startedAt: 'desc' }, take: 1 } },
+  });
+}
+
+/**
+ * Takes the lease of a task that is due, so no other instance runs it
+ *
+ * The lease is only taken when the task is due and no other instance holds an
+ * unexpired lease. Returns the task when the lease was taken, otherwise null.
+ */
+export async function acquireScheduledTaskLease(
+  name: string,
+  owner: string,
+  leaseExpiresAt: Date,
+  now: Date = new Date(),
+): Promise<ScheduledTask | null> {
+  const { count } = await prisma.scheduledTask.updateMany({
+    where: {
+      name,
+      nextRunAt: { lte: now },
+      OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: now } }],
+    },
+    data: { leaseOwner: owner, leaseExpiresAt },
+  });
+  if (count === 0) {
+    return null;
+  }
+  return prisma.scheduledTask.findUnique({ where: { name } });
+}
+
+/**
+ * Extends a lease while its owner is still running the task. Returns false
+ * when the owner no longer holds the lease.
+ */
+export async function renewScheduledTaskLease(
+  name: string,
+  owner: string,
+  leaseExpiresAt: Date,
+): Promise<boolean> {
+  const { count } = await prisma.scheduledTask.updateMany({
+    where: { name, leaseOwner: owner },
+    data: { leaseExpiresAt },
+  });
+  return count === 1;
+}
+
+/**
+ * Releases the lease of a task after a run and schedules its next run
+ */
+export async function releaseScheduledTaskLease(
+  name: string,
+  owner: string,
+  lastRunAt: Date,
+  nextRunAt: Date,
+): Promise<void> {
+  await prisma.scheduledTask.updateMany({
+    where: { name, leaseOwner: owner },
+    data: { leaseOwner: null, leaseExpiresAt: null, lastRunAt, nextRunAt },
+  });
+}
+
+/**
+ * Has a task run at the next check of the scheduler. Returns null when the
+ * task does not exist.
+ */
+export async function requestScheduledTaskRun(
+  name: string,
+  now: Date = new Date(),
+): Promise<ScheduledTask | null> {
+  const { count } = await prisma.scheduledTask.updateMany({
+    where: { name },
+    data: { nextRunAt: now },
+  });
+  if (count === 0) {
+    return null;
+  }
+  return prisma.scheduledTask.findUnique({ where: { name } });
+}
+
+/**
+ * Records the start of a run
+ *
+ * Earlier runs of the task still marked as running were interrupted, as the
+ * lease of their instance expired, and are marked as failed.
+ */
+export async function startScheduledTaskRun(
+  taskId: string,
+  runBy: string,
+): Promise<ScheduledTaskRun> {
+  const [, run] = await prisma.$transaction([
+    prisma.scheduledTaskRun.updateMany({
+      where: { taskId, status: 'RUNNING' },
+      data: { status: 'FAILED', error: 'Interrupted before completion', completedAt: new Date() },
+    }),
+    prisma.scheduledTaskRun.create({ data: { taskId, runBy } }),
+  ]);
+  return run;
+}
+
+/**
+ * Records the outcome of a run
+ */
+export async function finishScheduledTaskRun(
+  id: string,
+  data: FinishScheduledTaskRunInput,
+): Promise<ScheduledTaskRun> {
+  return prisma.scheduledTaskRun.update({
+    where: { id },
+    data: { ...data, completedAt: new Date() },
+  });
+}
+
+/**
+ * Finds the most recent successful run of a task
+ */
+export async function findLastSuccessfulScheduledTaskRun(
+  taskId: string,
+): Promise<ScheduledTaskRun | null> {
+  return prisma.scheduledTaskRun.findFirst({
+    where: { taskId, status: 'SUCCEEDED' },
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+/**
+ * Finds runs, newest first
+ */
+export async function findScheduledTaskRuns(
+  options: FindScheduledTaskRunsOptions = {},
+): Promise<ScheduledTaskRun[]> {
+  return prisma.scheduledTaskRun.findMany({
+    take: options.take,
+    skip: options.skip,
+    where: options.where,
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+/**
+ * Counts runs
+ */
+export async function countScheduledTaskRuns(
+  where?: Prisma.ScheduledTaskRunWhereInput,
+): Promise<number> {
+  return prisma.scheduledTaskRun.count({ where });
+}
@@ -1,5 +1,16 @@
+import { getEventDecayInfo } from '@opprs/core';
 import { prisma } from './client.js';
-import type { Standing, Tournament, Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { OpprPlayerRanking, Standing, Tournament } from '@prisma/client';
+import type { UpdateTournamentInput } from './tournaments.js';
+
+/**
+ * Calculates an event's age and decay multiplier for a reference date.
+ * Defaults to getEventDecayInfo from @opprs/core, which follows the global
+ * OPPR configuration; pass an engine's getEventDecayInfo to decay under that
+ * engine's configuration instead.
+ */
+export type DecayInfoCalculator = typeof getEventDecayInfo;
 
 /**
  * Standing with the tournament relation included
@@ -16,6 +27,14 @@ export interface MergedStanding extends Standing {
   isFinalist: boolean;
 }
 
+/**
+ * A player's decayed points per tournament, used for world ranking calculation
+ */
+export interface PlayerEventPoints {
+  playerId: string;
+  eventPoints: number[];
+}
+
 /**
  * Input for creating a new standing
  */
@@ -23,6 +42,7 @@ export interface CreateStandingInput {
   tournamentId: string;
   playerId: string;
   position: number;
+  positionEnd?: number | null;
   isFinals?: boolean;
   optedOut?: boolean;
   linearPoints?: number;
@@ -32,6 +52,12 @@ export interface CreateStandingInput {
   decayMultiplier?: number;
   decayedPoints?: number;
   efficiency?: number;
+  /** Player's rating when the points were first calculated */
+  ratingAtEvent?: number;
+  /** Player's world ranking when the points were first calculated */
+  rankingAtEvent?: number | null;
+  /** Whether the player was rated when the points were first calculated */
+  ratedAtEvent?: boolean;
 }
 
 /**
@@ -39,6 +65,7 @@ export interface CreateStandingInput {
  */
 export interface UpdateStandingInput {
   position?: number;
+  positionEnd?: number | null;
   optedOut?: boolean;
   linearPoints?: number;
   dynamicPoints?: number;
@@ -49,6 +76,17 @@ export interface UpdateStandingInput {
   efficiency?: number;
 }
 
+/**
+ * Options for writing standings
+ */
+export interface StandingWriteOptions {
+  /**
+   * Recalculates the points of the changed tournament in the same
+   * transaction as the write
+   */
+  recalculate?: TournamentPointsCalculator;
+}
+
 /**
  * Options for querying standings
  */
@@ -63,16 +101,21 @@ export interface FindStandingsOptions {
 /**
  * Creates a new standing
  */
-export async function createStanding(data: CreateStandingInput): Promise<Standing> {
+export async function createStanding(
+  data: CreateStandingInput,
+  options: StandingWriteOptions = {},
+): Promise<Standing> {
   const standingData = {
     ...data,
     isFinals: data.isFinals ?? false,
     decayedPoints: data.decayedPoints ?? data.totalPoints ?? 0,
   };
 
-  return prisma.standing.create({
-    data: standingData,
-  });
+  return writeStandings([data.tournamentId], options, (client) =>
+    client.standing.create({
+      data: standingData,
+    }),
+  );
 }
 
 /**
@@ -80,6 +123,7 @@ export async function createStanding(data: CreateStandingInput): Promise<Standin
  */
 export async function createManyStandings(
   data: CreateStandingInput[],
+  options: StandingWriteOptions = {},
 ): Promise<Prisma.BatchPayload> {
   const standingsData = data.map((item) => ({
     ...item,
@@ -87,9 +131,11 @@ export async function createManyStandings(
     decayedPoints: item.decayedPoints ?? item.totalPoints ?? 0,
   }));
 
-  return prisma.standing.createMany({
-    data: standingsData,
-  });
+  return writeStandings([...new Set(data.map((item) => item.tournamentId))], options, (client) =>
+    client.standing.createMany({
+      data: standingsData,
+    }),
+  );
 }
 
 /**
@@ -201,16 +247,27 @@ export async function getFinalsStandings(
 
 /**
  * Gets merged standings for point calculation.
- * Finalists get their finals position, non-finalists get qualifying position + finalist count
+ * Finalists get their finals position, non-finalists get qualifying position + finalist count.
+ * Players tied in qualifying or finals share their merged position.
  */
 export async function getMergedStandings(tournamentId: string): Promise<MergedStanding[]> {
+  return findMergedStandings(prisma, tournamentId);
+}
+
+/**
+ * Merges a tournament's standings as read with the given client
+ */
+async function findMergedStandings(
+  client: Prisma.TransactionClient,
+  tournamentId: string,
+): Promise<MergedStanding[]> {
   const [finals, qualifying] = await Promise.all([
-    findStandings({
+    client.standing.findMany({
       where: { tournamentId, isFinals: true },
       orderBy: { position: 'asc' },
       include: { player: true },
     }),
-    findStandings({
+    client.standing.findMany({
       where: { tournamentId, isFinals: false },
       orderBy: { position: 'asc' },
       include: { player: true },
@@ -221,12 +278,14 @@ export async function getMergedStandings(tournamentId: string): Promise<MergedSt
   const nonFinalists = qualifying.filter((s) => !finalistIds.has(s.playerId));
 
   // Finalists: position from finals
-  // Non-finalists: finalistCount + their relative position among non-finalists
+  // Non-finalists: finalistCount + their relative position among non-finalists,
+  // counting only players who finished strictly ahead so ties stay tied
   return [
     ...finals.map((s) => ({ ...s, mergedPosition: s.position, isFinalist: true })),
-    ...nonFinalists.map((s, i) => ({
+    ...nonFinalists.map((s) => ({
       ...s,
-      mergedPosition: finals.length + i + 1,
+      mergedPosition:
+        finals.length + nonFinalists.filter((other) => other.position < s.position).length + 1,
       isFinalist: false,
     })),
   ];
@@ -248,13 +307,62 @@ export async function getPlayerTopFinishes(
 }
 
 /**
- * Updates a standing
+ * Counts, for each of the given players, the tournaments they played together
+ * with any of the other players
+ *
+ * @returns Number of shared tournaments by player ID; players sharing none are left out
  */
-export async function updateStanding(id: string, data: UpdateStandingInput): Promise<Standing> {
-  return prisma.standing.update({
-    where: { id },
-    data,
+export async function countSharedTournaments(
+  playerIds: string[],
+  otherPlayerIds: string[],
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (playerIds.length === 0 || otherPlayerIds.length === 0) {
+    return counts;
+  }
+
+  const others = await prisma.standing.findMany({
+    where: { playerId: { in: otherPlayerIds } },
+    select: { tournamentId: true },
+    distinct: ['tournamentId'],
+  });
+  const shared = await prisma.standing.findMany({
+    where: {
+      playerId: { in: playerIds },
+      tournamentId: { in: others.map((standing) => standing.tournamentId) },
+    },
+    select: { playerId: true, tournamentId: true },
+    distinct: ['playerId', 'tournamentId'],
   });
+
+  for (const { playerId } of shared) {
+    counts.set(playerId, (counts.get(playerId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Updates a standing
+ */
+export async function updateStanding(
+  id: string,
+  data: UpdateStandingInput,
+  options: StandingWriteOptions = {},
+): Promise<Standing> {
+  if (!options.recalculate) {
+    return prisma.standing.update({
+      where: { id },
+      data,
+    });
+  }
+
+  const { tournamentId } = await prisma.standing.findUniqueOrThrow({ where: { id } });
+  return writeStandings([tournamentId], options, (client) =>
+    client.standing.update({
+      where: { id },
+      data,
+    }),
+  );
 }
 
 /**
@@ -265,6 +373,7 @@ export async function updateStandingPoints(
   linearPoints: number,
   dynamicPoints: number,
   totalPoints: number,
+  getDecayInfo: DecayInfoCalculator = getEventDecayInfo,
 ): Promise<Standing> {
   const standing = (await findStandingById(id, {
     tournament: true,
@@ -274,23 +383,9 @@ export async function updateStandingPoints(
     throw new Error(`Standing with id ${id} not found`);
   }
 
-  // Calculate age and decay multiplier
-  const now = new Date();
-  const tournamentDate = standing.tournament.date;
-  const ageInDays = Math.floor((now.getTime() - tournamentDate.getTime()) / (1000 * 60 * 60 * 24));
-  const ageInYears = ageInDays / 365;
-
-  let decayMultiplier = 0;
-  if (ageInYears < 1) {
-    decayMultiplier = 1.0;
-  } else if (ageInYears < 2) {
-    decayMultiplier = 0.75;
-  } else if (ageInYears < 3) {
-    decayMultiplier = 0.5;
-  } else {
-    decayMultiplier = 0;
-  }
-
+  const { ageInDays, decayMultiplier } = getDecayInfo(standing.tournament.date, {
+    referenceDate: new Date(),
+  });
   const decayedPoints = totalPoints * decayMultiplier;
 
   return updateStanding(id, {
@@ -304,14 +399,187 @@ export async function updateStandingPoints(
 }
 
 /**
- * Deletes a standing
+ * Recalculated points for a player's standings in a tournament
  */
-export async function deleteStanding(id: string): Promise<Standing> {
-  return prisma.standing.delete({
-    where: { id },
+export interface StandingPointsUpdate {
+  playerId: string;
+  linearPoints: number;
+  dynamicPoints: number;
+  totalPoints: number;
+  ageInDays: number;
+  decayMultiplier: number;
+  decayedPoints: number;
+  efficiency: number;
+  /** Player's rating the tournament value was evaluated with */
+  ratingAtEvent?: number;
+  /** Player's world ranking the tournament value was evaluated with */
+  rankingAtEvent?: number | null;
+  /** Whether the player counted as rated in the tournament value */
+  ratedAtEvent?: boolean;
+}
+
+/**
+ * A tournament with its merged standings and their players' OPPR rankings,
+ * as read in the transaction that recalculates its points
+ */
+export interface TournamentPointsInput {
+  tournament: Tournament;
+  standings: MergedStanding[];
+  rankings: OpprPlayerRanking[];
+}
+
+/**
+ * Recalculated values of a tournament and points of its standings
+ */
+export interface TournamentPointsUpdate {
+  values: UpdateTournamentInput;
+  standings: StandingPointsUpdate[];
+}
+
+/**
+ * Recalculates a tournament's values and points; returns null to leave them
+ * unchanged
+ */
+export type TournamentPointsCalculator<T extends TournamentPointsUpdate = TournamentPointsUpdate> =
+  (input: TournamentPointsInput) => T | null;
+
+/**
+ * Result of recalculating a tournament's points
+ */
+export interface TournamentPointsRecalculation<
+  T extends TournamentPointsUpdate = TournamentPointsUpdate,
+> {
+  update: T;
+  /** Number of standings updated */
+  standingsUpdated: number;
+}
+
+/** Time limit for writing standings with their recalculated points */
+const POINTS_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Stores a tournament's values and its standings' points
+ */
+async function writeTournamentPoints(
+  tx: Prisma.TransactionClient,
+  tournamentId: string,
+  { values, standings }: TournamentPointsUpdate,
+): Promise<number> {
+  await tx.tournament.update({ where: { id: tournamentId }, data: values });
+
+  let updated = 0;
+  for (const { playerId, ...points } of standings) {
+    const { count } = await tx.standing.updateMany({
+      where: { tournamentId, playerId },
+      data: points,
+    });
+    updated += count;
+  }
+  return updated;
+}
+
+/**
+ * Recalculates a tournament's values and points from its standings as read
+ * in the transaction, and stores them
+ */
+export async function recalculateInTransaction<T extends TournamentPointsUpdate>(
+  tx: Prisma.TransactionClient,
+  tournamentId: string,
+  recalculate: TournamentPointsCalculator<T>,
+): Promise<TournamentPointsRecalculation<T> | null> {
+  const tournament = await tx.tournament.findUnique({ where: { id: tournamentId } });
+  if (!tournament) {
+    return null;
+  }
+  const standings = await findMergedStandings(tx, tournamentId);
+  const rankings = await tx.opprPlayerRanking.findMany({
+    where: { playerId: { in: standings.map((s) => s.playerId) } },
+  });
+
+  const update = recalculate({ tournament, standings, rankings });
+  if (!update) {
+    return null;
+  }
+  return { update, standingsUpdated: await writeTournamentPoints(tx, tournamentId, update) };
+}
+
+/**
+ * Runs a write to standings, recalculating the points of the given
+ * tournaments in the same transaction when a calculator is given.
+ */
+async function writeStandings<T>(
+  tournamentIds: string[],
+  { recalculate }: StandingWriteOptions,
+  write: (client: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  if (!recalculate) {
+    return write(prisma);
+  }
+  return prisma.$transaction(
+    async (tx) => {
+      const result = await write(tx);
+      for (const tournamentId of tournamentIds) {
+        await recalculateInTransaction(tx, tournamentId, recalculate);
+      }
+      return result;
+    },
+    { timeout: POINTS_TRANSACTION_TIMEOUT_MS },
+  );
+}
+
+/**
+ * Stores a tournament's recalculated values and its standings' points in one
+ * transaction. A player's points apply to all of their standings in the
+ * tournament, qualifying and finals alike.
+ *
+ * @returns Number of standings updated
+ */
+export async function applyTournamentPoints(
+  tournamentId: string,
+  values: UpdateTournamentInput,
+  standings: StandingPointsUpdate[],
+): Promise<number> {
+  return prisma.$transaction((tx) =>
+    writeTournamentPoints(tx, tournamentId, { values, standings }),
+  );
+}
+
+/**
+ * Reads a tournament's standings, recalculates its values and points and
+ * stores them in one transaction, so standings changed meanwhile are not
+ * overwritten with stale points. Returns null when the tournament does not
+ * exist or the calculator leaves it unchanged.
+ */
+export async function recalculateTournamentPoints<T extends TournamentPointsUpdate>(
+  tournamentId: string,
+  recalculate: TournamentPointsCalculator<T>,
+): Promise<TournamentPointsRecalculation<T> | null> {
+  return prisma.$transaction((tx) => recalculateInTransaction(tx, tournamentId, recalculate), {
+    timeout: POINTS_TRANSACTION_TIMEOUT_MS,
   });
 }
 
+/**
+ * Deletes a standing
+ */
+export async function deleteStanding(
+  id: string,
+  options: StandingWriteOptions = {},
+): Promise<Standing> {
+  if (!options.recalculate) {
+    return prisma.standing.delete({
+      where: { id },
+    });
+  }
+
+  const { tournamentId } = await prisma.standing.findUniqueOrThrow({ where: { id } });
+  return writeStandings([tournamentId], options, (client) =>
+    client.standing.delete({
+      where: { id },
+    }),
+  );
+}
+
 /**
  * Deletes all standings for a tournament
  */
@@ -332,6 +600,9 @@ export async function countStandings(where?: Prisma.StandingWhereInput): Promise
 
 /**
  * Gets player statistics across all tournaments
+ *
+ * @deprecated Counts undecayed points of every standing. Use buildPlayerProfile
+ * from @opprs/core, which backs the `/players/:id/stats` endpoint.
  */
 export async function getPlayerStats(playerId: string) {
   const standings = await getPlayerStandings(playerId);
@@ -365,47 +636,140 @@ export async function getPlayerStats(playerId: string) {
 }
 
 /**
- * Calculates and updates time decay for all standings
- * Based on OPPR time decay rules:
- * - 0-1 years: 100%
- * - 1-2 years: 75%
- * - 2-3 years: 50%
- * - 3+ years: 0%
- */
-export async function recalculateTimeDecay(referenceDate: Date = new Date()) {
-  const standings = (await findStandings({
-    include: { tournament: true },
-  })) as StandingWithTournament[];
+ * Gets each player's decayed points per tournament
+ * When a player has both qualifying and finals standings for a tournament,
+ * the higher decayed points value counts as that tournament's result.
+ */
+export async function getPlayerEventPoints(): Promise<PlayerEventPoints[]> {
+  const standings = await prisma.standing.findMany({
+    select: { playerId: true, tournamentId: true, decayedPoints: true },
+  });
 
-  const updates = standings.map((standing) => {
-    const tournamentDate = standing.tournament.date;
-    const ageInDays = Math.floor(
-      (referenceDate.getTime() - tournamentDate.getTime()) / (1000 * 60 * 60 * 24),
-    );
-    const ageInYears = ageInDays / 365;
-
-    let decayMultiplier = 0;
-    if (ageInYears < 1) {
-      decayMultiplier = 1.0;
-    } else if (ageInYears < 2) {
-      decayMultiplier = 0.75;
-    } else if (ageInYears < 3) {
-      decayMultiplier = 0.5;
-    } else {
-      decayMultiplier = 0;
-    }
+  const pointsByPlayer = new Map<string, Map<string, number>>();
+  for (const standing of standings) {
+    const events = pointsByPlayer.get(standing.playerId) ?? new Map<string, number>();
+    const points = standing.decayedPoints ?? 0;
+    events.set(standing.tournamentId, Math.max(events.get(standing.tournamentId) ?? 0, points));
+    pointsByPlayer.set(standing.playerId, events);
+  }
 
-    const decayedPoints = (standing.totalPoints || 0) * decayMultiplier;
+  return Array.from(pointsByPlayer, ([playerId, events]) => ({
+    playerId,
+    eventPoints: Array.from(events.values()),
+  }));
+}
 
-    return prisma.standing.update({
-      where: { id: standing.id },
-      data: {
-        ageInDays,
-        decayMultiplier,
-        decayedPoints,
-      },
-    });
+/** Default number of tournaments decayed per UPDATE statement */
+const DECAY_CHUNK_SIZE = 500;
+
+/** Default number of decay UPDATE statements run at once */
+const DECAY_CONCURRENCY = 4;
+
+/**
+ * Options for recalculating time decay
+ */
+export interface RecalculateTimeDecayOptions {
+  /** Decay calculation (defaults to getEventDecayInfo from @opprs/core) */
+  getDecayInfo?: DecayInfoCalculator;
+  /** Tournaments decayed per UPDATE statement */
+  chunkSize?: number;
+  /** UPDATE statements run at once */
+  concurrency?: number;
+  /** Called with the number of tournaments processed after each batch of statements */
+  onProgress?: (tournamentsProcessed: number) => void | Promise<void>;
+}
+
+/**
+ * Counts of rows changed by recalculateTimeDecay
+ */
+export interface TimeDecayRecalculationResult {
+  /** Tournaments whose decay was calculated */
+  tournamentsProcessed: number;
+  /** Standings whose decay multiplier or decayed points changed */
+  standingsUpdated: number;
+}
+
+/**
+ * Writes one chunk of tournaments' decay to their standings in a single
+ * statement. Standings whose multiplier and decayed points are already
+ * current are left untouched, so their age in days is only refreshed when
+ * their multiplier changes.
+ */
+async function applyTournamentDecay(
+  tournaments: Pick<Tournament, 'id' | 'date'>[],
+  referenceDate: Date,
+  getDecayInfo: DecayInfoCalculator,
+): Promise<number> {
+  const values = tournaments.map((tournament) => {
+    const { ageInDays, decayMultiplier } = getDecayInfo(tournament.date, { referenceDate });
+    return Prisma.sql`(${tournament.id}, ${ageInDays}::integer, ${decayMultiplier}::double precision)`;
   });
 
-  return Promise.all(updates);
+  return prisma.$executeRaw`
+    UPDATE "Standing" AS s
+    SET "ageInDays" = v."ageInDays",
+        "decayMultiplier" = v."decayMultiplier",
+        "decayedPoints" = COALESCE(s."totalPoints", 0) * v."decayMultiplier",
+        "updatedAt" = NOW()
+    FROM (VALUES ${Prisma.join(values)}) AS v("tournamentId", "ageInDays", "decayMultiplier")
+    WHERE s."tournamentId" = v."tournamentId"
+      AND (
+        s."decayMultiplier" IS DISTINCT FROM v."decayMultiplier"
+        OR s."decayedPoints" IS DISTINCT FROM COALESCE(s."totalPoints", 0) * v."decayMultiplier"
+      )
+  `;
+}
+
+/**
+ * Calculates and updates time decay for all standings
+ * using the configured OPPR decay curve (see getEventDecayInfo in @opprs/core)
+ *
+ * Decay only depends on a tournament's date, so tournaments are read in
+ * chunks and each chunk's standings are updated with one set-based statement,
+ * with at most `concurrency` statements in flight. Only standings whose
+ * multiplier changed (or whose decayed points are out of date) are written.
+ * An error thrown by `onProgress` stops the recalculation after the batch.
+ */
+export async function recalculateTimeDecay(
+  referenceDate: Date = new Date(),
+  options: RecalculateTimeDecayOptions = {},
+): Promise<TimeDecayRecalculationResult> {
+  const {
+    getDecayInfo = getEventDecayInfo,
+    chunkSize = DECAY_CHUNK_SIZE,
+    concurrency = DECAY_CONCURRENCY,
+    onProgress,
+  } = options;
+
+  let tournamentsProcessed = 0;
+  let standingsUpdated = 0;
+  let cursor: string | undefined;
+  let finished = false;
+
+  while (!finished) {
+    const chunks: Pick<Tournament, 'id' | 'date'>[][] = [];
+    while (chunks.length < concurrency) {
+      const tournaments = await prisma.tournament.findMany({
+        select: { id: true, date: true },
+        where: cursor ? { id: { gt: cursor } } : undefined,
+        orderBy: { id: 'asc' },
+        take: chunkSize,
+      });
+      if (tournaments.length === 0) {
+        finished = true;
+        break;
+      }
+      cursor = tournaments[tournaments.length - 1]?.id;
+      chunks.push(tournaments);
+    }
+
+    const counts = await Promise.all(
+      chunks.map((tournaments) => applyTournamentDecay(tournaments, referenceDate, getDecayInfo)),
+    );
+    tournamentsProcessed += chunks.reduce((sum, tournaments) => sum + tournaments.length, 0);
+    standingsUpdated += counts.reduce((sum, count) => sum + count, 0);
+    await onProgress?.(tournamentsProcessed);
+  }
+
+  return { tournamentsProcessed, standingsUpdated };
 }
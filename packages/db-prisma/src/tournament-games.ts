@@ -0,0 +1,54 @@
+import { prisma } from './client.js';
+
+/**
+ * A game of a tournament with every player's placement in it
+ */
+export interface TournamentGame {
+  placements: Array<{
+    playerId: string;
+    /** Placement within the game (1 = best; equal placements are ties) */
+    placement: number;
+  }>;
+}
+
+/**
+ * Replaces the games stored for a tournament, in one transaction. Returns
+ * the number of placements stored.
+ */
+export async function replaceTournamentGames(
+  tournamentId: string,
+  games: TournamentGame[],
+): Promise<number> {
+  const data = games.flatMap((game, index) =>
+    game.placements.map(({ playerId, placement }) => ({
+      tournamentId,
+      playerId,
+      game: index,
+      placement,
+    })),
+  );
+
+  const [, { count }] = await prisma.$transaction([
+    prisma.gamePlacement.deleteMany({ where: { tournamentId } }),
+    prisma.gamePlacement.createMany({ data }),
+  ]);
+  return count;
+}
+
+/**
+ * Gets the games stored for a tournament in the order they were stored
+ */
+export async function getTournamentGames(tournamentId: string): Promise<TournamentGame[]> {
+  const placements = await prisma.gamePlacement.findMany({
+    where: { tournamentId },
+    orderBy: [{ game: 'asc' }, { placement: 'asc' }],
+  });
+
+  const games = new Map<number, TournamentGame>();
+  for (const { game, playerId, placement } of placements) {
+    const entry = games.get(game) ?? { placements: [] };
+    entry.placements.push({ playerId, placement });
+    games.set(game, entry);
+  }
+  return Array.from(games.values());
+}
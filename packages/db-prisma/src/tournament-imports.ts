@@ -0,0 +1,158 @@
+import { prisma } from './client.js';
+import type { Player, Tournament } from '@prisma/client';
+import { parseExternalId } from './player-identities.js';
+import { generateUniquePlayerNumber } from './player-number.js';
+import type { CreatePlayerInput } from './players.js';
+import { recalculateInTransaction } from './standings.js';
+import type { CreateStandingInput, StandingWriteOptions } from './standings.js';
+import type { CreateTournamentInput } from './tournaments.js';
+
+/**
+ * A standing of imported results, of an existing player or of a player
+ * created with the results
+ */
+export interface ImportedStandingInput extends Omit<
+  CreateStandingInput,
+  'tournamentId' | 'playerId'
+> {
+  /** ID of an existing player */
+  playerId?: string;
+  /** Key in `newPlayers` of the player created for the standing */
+  newPlayerKey?: string;
+}
+
+/**
+ * Input for importing the results of a tournament
+ */
+export interface TournamentResultsImportInput {
+  tournament: CreateTournamentInput;
+  /** Players to create, by the key their standings refer to them with */
+  newPlayers: Map<string, CreatePlayerInput>;
+  standings: ImportedStandingInput[];
+  /** External IDs to link to existing players as unverified identities, by player ID */
+  externalIds?: Map<string, string>;
+}
+
+/**
+ * Result of importing the results of a tournament
+ */
+export interface TournamentResultsImport {
+  tournament: Tournament;
+  /** Players created, by key */
+  createdPlayers: Map<string, Player>;
+}
+
+/** Time limit for writing an import with its recalculated points */
+const IMPORT_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Gives each player to create that has no player number a generated one,
+ * distinct from those of the other players
+ */
+async function assignPlayerNumbers(
+  players: Map<string, CreatePlayerInput>,
+): Promise<Map<string, CreatePlayerInput & { playerNumber: number }>> {
+  const generated = new Set<number>();
+  const assigned = new Map<string, CreatePlayerInput & { playerNumber: number }>();
+  for (const [key, player] of players) {
+    let playerNumber = player.playerNumber;
+    while (playerNumber === undefined || generated.has(playerNumber)) {
+      playerNumber = await generateUniquePlayerNumber();
+    }
+    if (player.playerNumber === undefined) {
+      generated.add(playerNumber);
+    }
+    assigned.set(key, { ...player, playerNumber });
+  }
+  return assigned;
+}
+
+/**
+ * Imports the results of a tournament in one transaction: creates the new
+ * players, the tournament and its standings, counts the event for every
+ * player once, however many stages they played, links the given external IDs
+ * and makes sure every player has an OPPR ranking. With `recalculate`, the
+ * tournament's points are calculated in the same transaction.
+ *
+ * @throws Error when a standing names neither an existing nor a new player
+ */
+export async function importTournamentResults(
+  input: TournamentResultsImportInput,
+  options: StandingWriteOptions = {},
+): Promise<TournamentResultsImport> {
+  const { tournament: tournamentData, newPlayers, standings, externalIds } = input;
+  const playersToCreate = await assignPlayerNumbers(newPlayers);
+
+  return prisma.$transaction(
+    async (tx) => {
+      const createdPlayers = new Map<string, Player>();
+      for (const [key, { externalId, ...playerData }] of playersToCreate) {
+        createdPlayers.set(
+          key,
+          await tx.player.create({
+            data: {
+              ...playerData,
+              ...(externalId
+                ? { identities: { create: { ...parseExternalId(externalId), status: 'VERIFIED' } } }
+                : {}),
+            },
+          }),
+        );
+      }
+
+      const tournament = await tx.tournament.create({
+        data: { ...tournamentData, eventBooster: tournamentData.eventBooster ?? 'NONE' },
+      });
+
+      const standingsData = standings.map(({ playerId, newPlayerKey, ...standing }) => {
+        const id = playerId ?? (newPlayerKey && createdPlayers.get(newPlayerKey)?.id);
+        if (!id) {
+          throw new Error(`Standing at position ${standing.position} has no player`);
+        }
+        return {
+          ...standing,
+          tournamentId: tournament.id,
+          playerId: id,
+          isFinals: standing.isFinals ?? false,
+          decayedPoints: standing.decayedPoints ?? standing.totalPoints ?? 0,
+        };
+      });
+      await tx.standing.createMany({ data: standingsData });
+
+      const players = await tx.player.findMany({
+        where: { id: { in: [...new Set(standingsData.map((s) => s.playerId))] } },
+      });
+      for (const player of players) {
+        await tx.player.update({
+          where: { id: player.id },
+          data: {
+            eventCount: player.eventCount + 1,
+            ...(!player.lastEventDate || player.lastEventDate < tournamentData.date
+              ? { lastEventDate: tournamentData.date }
+              : {}),
+          },
+        });
+        const externalId = externalIds?.get(player.id);
+        if (externalId) {
+          const parts = parseExternalId(externalId);
+          await tx.playerIdentity.upsert({
+            where: { source_externalId: parts },
+            update: {},
+            create: { ...parts, playerId: player.id, status: 'UNVERIFIED' },
+          });
+        }
+        await tx.opprPlayerRanking.upsert({
+          where: { playerId: player.id },
+          create: { playerId: player.id },
+          update: {},
+        });
+      }
+
+      if (options.recalculate) {
+        await recalculateInTransaction(tx, tournament.id, options.recalculate);
+      }
+      return { tournament, createdPlayers };
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT_MS },
+  );
+}
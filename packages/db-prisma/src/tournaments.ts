@@ -23,6 +23,7 @@ export interface CreateTournamentInput {
   tgp?: number;
   eventBoosterMultiplier?: number;
   firstPlaceValue?: number;
+  rulesetVersion?: string;
 }
 
 /**
@@ -46,6 +47,7 @@ export interface UpdateTournamentInput {
   tgp?: number;
   eventBoosterMultiplier?: number;
   firstPlaceValue?: number;
+  rulesetVersion?: string;
 }
 
 /**
@@ -230,7 +232,9 @@ export async function searchTournaments(query: string, limit: number = 20): Prom
 }
 
 /**
- * Gets tournament statistics
+ * Gets tournament statistics, counting each player once: a finalist's
+ * qualifying and finals standings carry the same points, and their finals
+ * standing is used
  */
 export async function getTournamentStats(id: string) {
   const tournament = await getTournamentWithResults(id);
@@ -239,7 +243,14 @@ export async function getTournamentStats(id: string) {
     return null;
   }
 
-  const playerCount = tournament.standings.length;
+  const standingsByPlayer = new Map<string, (typeof tournament.standings)[number]>();
+  for (const standing of tournament.standings) {
+    if (standing.isFinals || !standingsByPlayer.has(standing.playerId)) {
+      standingsByPlayer.set(standing.playerId, standing);
+    }
+  }
+  const standings = [...standingsByPlayer.values()];
+  const playerCount = standings.length;
 
   // Guard against division by zero
   if (playerCount === 0) {
@@ -253,9 +264,9 @@ export async function getTournamentStats(id: string) {
     };
   }
 
-  const totalPoints = tournament.standings.reduce((sum, s) => sum + (s.totalPoints || 0), 0);
-  const totalEfficiency = tournament.standings.reduce((sum, s) => sum + (s.efficiency || 0), 0);
-  const allPoints = tournament.standings.map((s) => s.totalPoints || 0);
+  const totalPoints = standings.reduce((sum, s) => sum + (s.totalPoints || 0), 0);
+  const totalEfficiency = standings.reduce((sum, s) => sum + (s.efficiency || 0), 0);
+  const allPoints = standings.map((s) => s.totalPoints || 0);
 
   return {
     tournament,
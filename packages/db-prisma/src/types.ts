@@ -14,6 +14,19 @@ export type {
   OpprPlayerRanking,
   OpprRankingHistory,
   OpprRankingChangeType,
+  RankingConfig,
+  Job,
+  JobStatus,
+  ScheduledTask,
+  ScheduledTaskRun,
+  ScheduledTaskRunStatus,
+  PlayerMatchReview,
+  PlayerMatchReviewStatus,
+  PlayerMerge,
+  GamePlacement,
+  PlayerIdentity,
+  PlayerIdentityStatus,
+  AuditLog,
 } from '@prisma/client';
 
 /**
@@ -21,6 +34,26 @@ export type {
  */
 export type { CreatePlayerInput, UpdatePlayerInput, FindPlayersOptions } from './players.js';
 
+export type {
+  ExternalIdParts,
+  CreatePlayerIdentityInput,
+  UpdatePlayerIdentityInput,
+  FindPlayerIdentitiesOptions,
+} from './player-identities.js';
+
+export type {
+  PlayerMatchReviewWithPlayers,
+  CreatePlayerMatchReviewInput,
+  FindPlayerMatchReviewsOptions,
+  PlayerMatchResult,
+} from './player-match-reviews.js';
+
+export type {
+  PlayerMergeSummary,
+  MergePlayersOptions,
+  PlayerMergeResult,
+} from './player-merges.js';
+
 export type {
   CreateTournamentInput,
   UpdateTournamentInput,
@@ -32,8 +65,25 @@ export type {
   UpdateStandingInput,
   FindStandingsOptions,
   MergedStanding,
+  PlayerEventPoints,
+  DecayInfoCalculator,
+  RecalculateTimeDecayOptions,
+  TimeDecayRecalculationResult,
+  StandingPointsUpdate,
+  StandingWriteOptions,
+  TournamentPointsInput,
+  TournamentPointsUpdate,
+  TournamentPointsCalculator,
+  TournamentPointsRecalculation,
 } from './standings.js';
 
+export type { TournamentGame } from './tournament-games.js';
+export type {
+  ImportedStandingInput,
+  TournamentResultsImportInput,
+  TournamentResultsImport,
+} from './tournament-imports.js';
+
 export type { CreateUserInput, UpdateUserInput, UserWithPlayer } from './users.js';
 
 export type {
@@ -47,8 +97,37 @@ export type {
   UpdateOpprPlayerRankingInput,
   FindOpprPlayerRankingsOptions,
   CreateOpprRankingHistoryInput,
+  TournamentRatingUpdate,
+  WorldRankingUpdate,
+  OpprPlayerRankingWithPlayer,
 } from './oppr-rankings.js';
 
+export type {
+  ReplayTournamentValues,
+  ReplayStandingPoints,
+  ReplayRatingChange,
+  ReplayPlayerRanking,
+  HistoricalReplayData,
+  HistoricalReplayWriteResult,
+} from './historical-replay.js';
+
+export type {
+  CreateRankingConfigInput,
+  UpdateRankingConfigInput,
+  FindRankingConfigsOptions,
+  RankingConfigActivationWithConfig,
+} from './ranking-configs.js';
+
+export type { CreateJobInput, FindJobsOptions, StaleJobsResult } from './jobs.js';
+
+export type {
+  ScheduledTaskWithLastRun,
+  FindScheduledTaskRunsOptions,
+  FinishScheduledTaskRunInput,
+} from './scheduled-tasks.js';
+
+export type { CreateAuditLogInput, FindAuditLogsOptions } from './audit-logs.js';
+
 /**
  * Player with full tournament standings
  */
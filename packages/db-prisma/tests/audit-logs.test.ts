@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createAuditLog,
+  findAuditLogById,
+  findAuditLogs,
+  countAuditLogs,
+} from '../src/audit-logs.js';
+
+const recordPlayerUpdate = (entityId: string, userId = 'user-1') =>
+  createAuditLog({
+    userId,
+    userEmail: 'admin@example.com',
+    method: 'PATCH',
+    route: '/api/v1/players/:id',
+    url: `/api/v1/players/${entityId}`,
+    statusCode: 200,
+    entityType: 'players',
+    entityId,
+    before: { name: 'Bob' },
+    after: { name: 'Robert' },
+    changes: { name: { before: 'Bob', after: 'Robert' } },
+  });
+
+describe('audit logs', () => {
+  describe('createAuditLog', () => {
+    it('should record a write', async () => {
+      const entry = await recordPlayerUpdate('player-1');
+
+      expect(entry.createdAt).toBeInstanceOf(Date);
+      expect(await findAuditLogById(entry.id)).toMatchObject({
+        apiKeyId: null,
+        entityType: 'players',
+        entityId: 'player-1',
+        changes: { name: { before: 'Bob', after: 'Robert' } },
+      });
+    });
+  });
+
+  describe('findAuditLogs', () => {
+    it('should list entries newest first with filters', async () => {
+      const first = await recordPlayerUpdate('player-1');
+      const second = await recordPlayerUpdate('player-2', 'user-2');
+
+      expect((await findAuditLogs()).map((e) => e.id)).toEqual([second.id, first.id]);
+      expect((await findAuditLogs({ where: { entityId: 'player-1' } })).map((e) => e.id)).toEqual([
+        first.id,
+      ]);
+      expect(await countAuditLogs({ userId: 'user-2' })).toBe(1);
+    });
+  });
+});
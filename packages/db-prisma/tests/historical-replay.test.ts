@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { applyHistoricalReplay, type HistoricalReplayData } from '../src/historical-replay.js';
+import {
+  createOpprPlayerRanking,
+  createOpprRankingHistory,
+  findOpprPlayerRankingByPlayerId,
+  getOpprRankingHistory,
+  countOpprPlayerRankings,
+} from '../src/oppr-rankings.js';
+import { createStanding, findStandings } from '../src/standings.js';
+import { createTournament, findTournamentById } from '../src/tournaments.js';
+import { createPlayer } from '../src/players.js';
+import { createTournamentInput } from './factories/tournament.factory.js';
+import { createPlayerInput } from './factories/player.factory.js';
+import { createStandingInput } from './factories/result.factory.js';
+
+async function setupReplayData() {
+  const tournament = await createTournament(
+    createTournamentInput({ date: new Date('2024-06-01') }),
+  );
+  const player = await createPlayer(createPlayerInput());
+  await createStanding(createStandingInput(player.id, tournament.id));
+  await createStanding(createStandingInput(player.id, tournament.id, { isFinals: true }));
+
+  const data: HistoricalReplayData = {
+    tournaments: [
+      {
+        tournamentId: tournament.id,
+        baseValue: 10,
+        tvaRating: 5,
+        tvaRanking: 2,
+        totalTVA: 7,
+        tgp: 1.5,
+        eventBoosterMultiplier: 1,
+        firstPlaceValue: 25.5,
+        rulesetVersion: 'default',
+      },
+    ],
+    standings: [
+      {
+        tournamentId: tournament.id,
+        playerId: player.id,
+        linearPoints: 2.55,
+        dynamicPoints: 22.95,
+        totalPoints: 25.5,
+        ageInDays: 214,
+        decayMultiplier: 1,
+        decayedPoints: 25.5,
+        efficiency: 100,
+      },
+    ],
+    ratingChanges: [
+      {
+        playerId: player.id,
+        tournamentId: tournament.id,
+        date: tournament.date,
+        rating: 1350,
+        ratingDeviation: 150,
+        volatility: 0.06,
+        isRated: false,
+      },
+    ],
+    rankings: [
+      {
+        playerId: player.id,
+        rating: 1350,
+        ratingDeviation: 150,
+        volatility: 0.06,
+        ranking: null,
+        isRated: false,
+        lastRatingUpdate: tournament.date,
+      },
+    ],
+  };
+
+  return { tournament, player, data };
+}
+
+describe('historical-replay', () => {
+  describe('applyHistoricalReplay', () => {
+    it('should update tournament values', async () => {
+      const { tournament, data } = await setupReplayData();
+
+      const result = await applyHistoricalReplay(data);
+
+      expect(result.tournamentsUpdated).toBe(1);
+      const updated = await findTournamentById(tournament.id);
+      expect(updated?.firstPlaceValue).toBe(25.5);
+      expect(updated?.rulesetVersion).toBe('default');
+    });
+
+    it('should update qualifying and finals standings for a player', async () => {
+      const { tournament, data } = await setupReplayData();
+
+      const result = await applyHistoricalReplay(data);
+
+      expect(result.standingsUpdated).toBe(2);
+      const standings = await findStandings({ where: { tournamentId: tournament.id } });
+      expect(standings.map((s) => s.totalPoints)).toEqual([25.5, 25.5]);
+      expect(standings.every((s) => s.ageInDays === 214)).toBe(true);
+    });
+
+    it('should create rankings and rebuild history', async () => {
+      const { tournament, player, data } = await setupReplayData();
+
+      const result = await applyHistoricalReplay(data);
+
+      expect(result.rankingsUpdated).toBe(1);
+      expect(result.historyCreated).toBe(2);
+      const ranking = await findOpprPlayerRankingByPlayerId(player.id);
+      expect(ranking?.rating).toBe(1350);
+      expect(ranking?.ratingDeviation).toBe(150);
+      expect(ranking?.volatility).toBe(0.06);
+      expect(ranking?.lastRatingUpdate).toEqual(tournament.date);
+
+      const history = await getOpprRankingHistory(player.id);
+      expect(history.map((h) => h.changeType).sort()).toEqual([
+        'RANKING_REFRESH',
+        'TOURNAMENT_RESULT',
+      ]);
+      const tournamentEntry = history.find((h) => h.changeType === 'TOURNAMENT_RESULT');
+      expect(tournamentEntry?.tournamentId).toBe(tournament.id);
+      expect(tournamentEntry?.createdAt).toEqual(tournament.date);
+    });
+
+    it('should replace existing ratings and keep manual adjustments', async () => {
+      const { player, data } = await setupReplayData();
+      const existing = await createOpprPlayerRanking({ playerId: player.id, rating: 1800 });
+      await createOpprRankingHistory({
+        opprPlayerRankingId: existing.id,
+        rating: 1800,
+        ratingDeviation: 100,
+        isRated: true,
+        changeType: 'TOURNAMENT_RESULT',
+      });
+      await createOpprRankingHistory({
+        opprPlayerRankingId: existing.id,
+        rating: 1800,
+        ratingDeviation: 100,
+        isRated: true,
+        changeType: 'MANUAL_ADJUSTMENT',
+      });
+
+      await applyHistoricalReplay(data);
+
+      const ranking = await findOpprPlayerRankingByPlayerId(player.id);
+      expect(ranking?.id).toBe(existing.id);
+      expect(ranking?.rating).toBe(1350);
+      const history = await getOpprRankingHistory(player.id);
+      expect(history.map((h) => h.changeType).sort()).toEqual([
+        'MANUAL_ADJUSTMENT',
+        'RANKING_REFRESH',
+        'TOURNAMENT_RESULT',
+      ]);
+    });
+
+    it('should keep the ratings of players without replayed results unranked', async () => {
+      const { data } = await setupReplayData();
+      const inactive = await createPlayer(createPlayerInput());
+      await createOpprPlayerRanking({ playerId: inactive.id, rating: 1700, ranking: 3 });
+
+      const result = await applyHistoricalReplay(data);
+
+      expect(result.rankingsKept).toBe(1);
+      const kept = await findOpprPlayerRankingByPlayerId(inactive.id);
+      expect(kept?.rating).toBe(1700);
+      expect(kept?.ranking).toBeNull();
+      expect(await countOpprPlayerRankings()).toBe(2);
+    });
+
+    it('should not change anything when the replay fails', async () => {
+      const { tournament, player, data } = await setupReplayData();
+      await createOpprPlayerRanking({ playerId: player.id, rating: 1800 });
+
+      await expect(
+        applyHistoricalReplay({
+          ...data,
+          tournaments: [...data.tournaments, { ...data.tournaments[0]!, tournamentId: 'missing' }],
+        }),
+      ).rejects.toThrow();
+
+      expect((await findTournamentById(tournament.id))?.firstPlaceValue).toBeNull();
+      expect((await findOpprPlayerRankingByPlayerId(player.id))?.rating).toBe(1800);
+    });
+  });
+});
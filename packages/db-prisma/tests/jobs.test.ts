@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createJob,
+  findJobById,
+  findJobs,
+  countJobs,
+  claimNextJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+  markJobCancelled,
+  rescheduleJob,
+  cancelJob,
+  retryJob,
+  requeueStaleJobs,
+} from '../src/jobs.js';
+
+const createImportJob = (runAt?: Date) =>
+  createJob({ type: 'matchplay-import', payload: { matchplayId: 12345 }, runAt });
+
+describe('jobs', () => {
+  describe('createJob', () => {
+    it('should queue a pending job', async () => {
+      const job = await createImportJob();
+
+      expect(job.status).toBe('PENDING');
+      expect(job.payload).toEqual({ matchplayId: 12345 });
+      expect(job.attempts).toBe(0);
+      expect(job.progress).toBe(0);
+      expect((await findJobById(job.id))?.type).toBe('matchplay-import');
+    });
+  });
+
+  describe('findJobs', () => {
+    it('should list jobs newest first with filters', async () => {
+      const first = await createImportJob();
+      const second = await createJob({ type: 'recalculate-decay', payload: {} });
+
+      expect((await findJobs()).map((j) => j.id)).toEqual([second.id, first.id]);
+      expect(await countJobs({ type: 'recalculate-decay' })).toBe(1);
+    });
+  });
+
+  describe('claimNextJob', () => {
+    it('should claim the oldest due job once', async () => {
+      const first = await createImportJob();
+      await createImportJob();
+      await createImportJob(new Date(Date.now() + 60_000));
+
+      const claimed = await claimNextJob('worker-1');
+
+      expect(claimed?.id).toBe(first.id);
+      expect(claimed).toMatchObject({ status: 'RUNNING', lockedBy: 'worker-1', attempts: 1 });
+      expect(claimed?.startedAt).not.toBeNull();
+
+      expect((await claimNextJob('worker-2'))?.id).not.toBe(first.id);
+      // The remaining job is not due yet
+      expect(await claimNextJob('worker-2')).toBeNull();
+    });
+  });
+
+  describe('updateJobProgress', () => {
+    it('should record progress and expose cancellation requests', async () => {
+      const job = await createImportJob();
+      await claimNextJob('worker-1');
+      await cancelJob(job.id);
+
+      const updated = await updateJobProgress(job.id, 3, 10);
+
+      expect(updated).toMatchObject({ progress: 3, progressTotal: 10, cancelRequested: true });
+      expect(updated.status).toBe('RUNNING');
+    });
+  });
+
+  describe('completeJob / failJob / markJobCancelled', () => {
+    it('should finish running jobs and clear their secret', async () => {
+      await createJob({ type: 'matchplay-import', payload: {}, secret: 'encrypted-token' });
+      await createImportJob();
+      await createImportJob();
+      const [a, b, c] = [
+        await claimNextJob('worker-1'),
+        await claimNextJob('worker-1'),
+        await claimNextJob('worker-1'),
+      ];
+
+      expect(await completeJob(a!.id, 'worker-1', { created: true })).toMatchObject({
+        status: 'COMPLETED',
+        result: { created: true },
+        lockedBy: null,
+        secret: null,
+      });
+      expect(await failJob(b!.id, 'worker-1', 'Matchplay API unavailable')).toMatchObject({
+        status: 'FAILED',
+        error: 'Matchplay API unavailable',
+      });
+      expect((await markJobCancelled(c!.id, 'worker-1'))?.status).toBe('CANCELLED');
+    });
+
+    it('should not finish jobs the worker no longer runs', async () => {
+      const job = await createImportJob(new Date(Date.now() - 20 * 60_000));
+      await claimNextJob('worker-1', new Date(Date.now() - 10 * 60_000));
+      await requeueStaleJobs(new Date(Date.now() - 5 * 60_000));
+      await claimNextJob('worker-2');
+
+      expect(await completeJob(job.id, 'worker-1', {})).toBeNull();
+      expect(await failJob(job.id, 'worker-1', 'Timeout')).toBeNull();
+      expect(await markJobCancelled(job.id, 'worker-1')).toBeNull();
+      expect(await rescheduleJob(job.id, 'worker-1', 'Timeout', new Date())).toBeNull();
+      expect(await findJobById(job.id)).toMatchObject({ status: 'RUNNING', lockedBy: 'worker-2' });
+    });
+  });
+
+  describe('rescheduleJob', () => {
+    it('should queue a failed attempt to run later', async () => {
+      const job = await createImportJob();
+      await claimNextJob('worker-1');
+      const runAt = new Date(Date.now() + 60_000);
+
+      const rescheduled = await rescheduleJob(
+        job.id,
+        'worker-1',
+        'Matchplay API unavailable',
+        runAt,
+      );
+
+      expect(rescheduled).toMatchObject({
+        status: 'PENDING',
+        error: 'Matchplay API unavailable',
+        lockedBy: null,
+        attempts: 1,
+      });
+      expect(rescheduled?.runAt).toEqual(runAt);
+      expect(await claimNextJob('worker-1')).toBeNull();
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should cancel pending jobs at once', async () => {
+      const job = await createImportJob();
+
+      const cancelled = await cancelJob(job.id);
+
+      expect(cancelled?.status).toBe('CANCELLED');
+      expect(cancelled?.completedAt).not.toBeNull();
+    });
+
+    it('should not cancel finished jobs', async () => {
+      const job = await createImportJob();
+      await claimNextJob('worker-1');
+      await completeJob(job.id, 'worker-1', {});
+
+      expect(await cancelJob(job.id)).toBeNull();
+    });
+  });
+
+  describe('retryJob', () => {
+    it('should queue failed jobs again', async () => {
+      const job = await createImportJob();
+      await claimNextJob('worker-1');
+      await updateJobProgress(job.id, 5, 10);
+      await failJob(job.id, 'worker-1', 'Timeout');
+
+      const retried = await retryJob(job.id);
+
+      expect(retried).toMatchObject({
+        status: 'PENDING',
+        error: null,
+        result: null,
+        progress: 0,
+        progressTotal: null,
+        attempts: 1,
+      });
+      expect((await claimNextJob('worker-1'))?.attempts).toBe(2);
+    });
+
+    it('should not retry pending or completed jobs', async () => {
+      const pending = await createImportJob();
+      const completed = await createImportJob(new Date(Date.now() - 60_000));
+      await claimNextJob('worker-1');
+      await completeJob(completed.id, 'worker-1', {});
+
+      expect(await retryJob(pending.id)).toBeNull();
+      expect(await retryJob(completed.id)).toBeNull();
+    });
+  });
+
+  describe('requeueStaleJobs', () => {
+    it('should requeue running jobs without a recent heartbeat', async () => {
+      const job = await createImportJob(new Date(Date.now() - 20 * 60_000));
+      await claimNextJob('worker-1', new Date(Date.now() - 10 * 60_000));
+
+      const result = await requeueStaleJobs(new Date(Date.now() - 5 * 60_000));
+
+      expect(result).toEqual({ requeued: 1, failed: 0 });
+      expect(await findJobById(job.id)).toMatchObject({ status: 'PENDING', lockedBy: null });
+    });
+
+    it('should fail stale jobs that used up their attempts', async () => {
+      const exhausted = await createImportJob(new Date(Date.now() - 20 * 60_000));
+      await claimNextJob('worker-1', new Date(Date.now() - 10 * 60_000));
+      const other = await createJob({
+        type: 'recalculate-decay',
+        payload: {},
+        runAt: new Date(Date.now() - 20 * 60_000),
+      });
+      await claimNextJob('worker-1', new Date(Date.now() - 10 * 60_000));
+
+      const result = await requeueStaleJobs(new Date(Date.now() - 5 * 60_000), {
+        'matchplay-import': 1,
+        'recalculate-decay': 2,
+      });
+
+      expect(result).toEqual({ requeued: 1, failed: 1 });
+      expect(await findJobById(exhausted.id)).toMatchObject({ status: 'FAILED', lockedBy: null });
+      expect((await findJobById(other.id))?.status).toBe('PENDING');
+    });
+  });
+});
@@ -10,6 +10,7 @@ import {
   getRatedOpprPlayers,
   updateOpprPlayerRanking,
   updateOpprRatingAfterTournament,
+  applyOpprRatingUpdatesForTournament,
   updateWorldRankings,
   applyRDDecayForInactivePlayers,
   deleteOpprPlayerRanking,
@@ -45,6 +46,7 @@ describe('oppr-rankings', () => {
       expect(ranking.playerId).toBe(player.id);
       expect(ranking.rating).toBe(1500);
       expect(ranking.ratingDeviation).toBe(200);
+      expect(ranking.volatility).toBe(0.06);
       expect(ranking.isRated).toBe(false);
       expect(ranking.ranking).toBeNull();
     });
@@ -388,6 +390,90 @@ describe('oppr-rankings', () => {
       );
       expect(updated5.isRated).toBe(true);
     });
+
+    it('should update volatility when given', async () => {
+      const player = await createPlayer(createPlayerInput());
+      const tournament = await createTournament(createTournamentInput());
+      await createOpprPlayerRanking({ playerId: player.id, volatility: 0.07 });
+
+      const unchanged = await updateOpprRatingAfterTournament(player.id, 1600, 180, tournament.id);
+      expect(unchanged.volatility).toBe(0.07);
+
+      const tournament2 = await createTournament(createTournamentInput());
+      const updated = await updateOpprRatingAfterTournament(
+        player.id,
+        1650,
+        170,
+        tournament2.id,
+        2,
+        0.065,
+      );
+      expect(updated.volatility).toBe(0.065);
+
+      const history = await getOpprRankingHistory(player.id);
+      expect(history.find((h) => h.tournamentId === tournament2.id)?.volatility).toBe(0.065);
+    });
+  });
+
+  describe('applyOpprRatingUpdatesForTournament', () => {
+    it('should update every player with a history record', async () => {
+      const player1 = await createPlayer(createPlayerInput({ eventCount: 5 }));
+      const player2 = await createPlayer(createPlayerInput({ eventCount: 1 }));
+      const tournament = await createTournament(createTournamentInput());
+      await createOpprPlayerRanking({ playerId: player1.id });
+
+      const applied = await applyOpprRatingUpdatesForTournament(tournament.id, [
+        { playerId: player1.id, rating: 1650, ratingDeviation: 150, eventCount: 5 },
+        { playerId: player2.id, rating: 1550, ratingDeviation: 190, eventCount: 1 },
+      ]);
+
+      expect(applied).toBe(true);
+      expect(await findOpprPlayerRankingByPlayerId(player1.id)).toMatchObject({
+        rating: 1650,
+        ratingDeviation: 150,
+        isRated: true,
+      });
+      expect(await findOpprPlayerRankingByPlayerId(player2.id)).toMatchObject({
+        rating: 1550,
+        isRated: false,
+      });
+      expect(
+        await countOpprRankingHistory({
+          tournamentId: tournament.id,
+          changeType: 'TOURNAMENT_RESULT',
+        }),
+      ).toBe(2);
+    });
+
+    it('should not apply a tournament twice', async () => {
+      const player = await createPlayer(createPlayerInput());
+      const tournament = await createTournament(createTournamentInput());
+      await applyOpprRatingUpdatesForTournament(tournament.id, [
+        { playerId: player.id, rating: 1650, ratingDeviation: 150 },
+      ]);
+
+      const applied = await applyOpprRatingUpdatesForTournament(tournament.id, [
+        { playerId: player.id, rating: 1700, ratingDeviation: 140 },
+      ]);
+
+      expect(applied).toBe(false);
+      expect((await findOpprPlayerRankingByPlayerId(player.id))?.rating).toBe(1650);
+    });
+
+    it('should change nothing when an update fails', async () => {
+      const player = await createPlayer(createPlayerInput());
+      const tournament = await createTournament(createTournamentInput());
+
+      await expect(
+        applyOpprRatingUpdatesForTournament(tournament.id, [
+          { playerId: player.id, rating: 1650, ratingDeviation: 150 },
+          { playerId: 'nonexistent', rating: 1550, ratingDeviation: 190 },
+        ]),
+      ).rejects.toThrow();
+
+      expect(await findOpprPlayerRankingByPlayerId(player.id)).toBeNull();
+      expect(await countOpprRankingHistory({ tournamentId: tournament.id })).toBe(0);
+    });
   });
 
   describe('updateWorldRankings', () => {
@@ -435,6 +521,44 @@ describe('oppr-rankings', () => {
       const ranking = await findOpprPlayerRankingByPlayerId(player.id);
       expect(ranking!.ranking).toBe(1);
     });
+
+    it('should return the number of rankings updated', async () => {
+      const player = await createPlayer(createPlayerInput());
+      await createOpprPlayerRanking({ playerId: player.id });
+
+      const count = await updateWorldRankings([
+        { playerId: player.id, ranking: 1 },
+        { playerId: 'non-existent', ranking: 2 },
+      ]);
+
+      expect(count).toBe(1);
+    });
+
+    it('should keep isRated when not given', async () => {
+      const player = await createPlayer(createPlayerInput());
+      await createOpprPlayerRanking({ playerId: player.id, isRated: true });
+
+      await updateWorldRankings([{ playerId: player.id, ranking: 3 }]);
+
+      const ranking = await findOpprPlayerRankingByPlayerId(player.id);
+      expect(ranking!.ranking).toBe(3);
+      expect(ranking!.isRated).toBe(true);
+    });
+
+    it('should update isRated and clear rankings for unrated players', async () => {
+      const player = await createPlayer(createPlayerInput());
+      await createOpprPlayerRanking({ playerId: player.id, ranking: 10, isRated: true });
+
+      await updateWorldRankings([{ playerId: player.id, ranking: null, isRated: false }]);
+
+      const ranking = await findOpprPlayerRankingByPlayerId(player.id);
+      expect(ranking!.ranking).toBeNull();
+      expect(ranking!.isRated).toBe(false);
+
+      const history = await getOpprRankingHistory(player.id);
+      expect(history[0].isRated).toBe(false);
+      expect(history[0].ranking).toBeNull();
+    });
   });
 
   describe('deleteOpprPlayerRanking', () => {
@@ -785,6 +909,50 @@ describe('oppr-rankings', () => {
       expect(updatedRanking!.ratingDeviation).toBe(200);
     });
 
+    it('should only count days after decayedSince', async () => {
+      const player = await createPlayer(createPlayerInput());
+      await createOpprPlayerRanking({
+        playerId: player.id,
+        rating: 1600,
+        ratingDeviation: 100,
+      });
+
+      const sixtyDaysAgo = new Date();
+      sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
+      await updateOpprPlayerRanking(player.id, {
+        lastRatingUpdate: sixtyDaysAgo,
+      });
+
+      const tenDaysAgo = new Date();
+      tenDaysAgo.setDate(tenDaysAgo.getDate() - 10);
+      await applyRDDecayForInactivePlayers(30, 0.3, 200, tenDaysAgo);
+
+      const updatedRanking = await findOpprPlayerRankingByPlayerId(player.id);
+      expect(updatedRanking!.ratingDeviation).toBeCloseTo(103);
+    });
+
+    it('should count the partial days since decayedSince', async () => {
+      const player = await createPlayer(createPlayerInput());
+      await createOpprPlayerRanking({
+        playerId: player.id,
+        rating: 1600,
+        ratingDeviation: 100,
+      });
+
+      const sixtyDaysAgo = new Date();
+      sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
+      await updateOpprPlayerRanking(player.id, {
+        lastRatingUpdate: sixtyDaysAgo,
+      });
+
+      // Daily runs that start a little later each day still count every day
+      const thirtySixHoursAgo = new Date(Date.now() - 36 * 60 * 60 * 1000);
+      await applyRDDecayForInactivePlayers(30, 0.3, 200, thirtySixHoursAgo);
+
+      const updatedRanking = await findOpprPlayerRankingByPlayerId(player.id);
+      expect(updatedRanking!.ratingDeviation).toBeCloseTo(100.45);
+    });
+
     it('should not apply decay to players already at maxRD', async () => {
       // Create a player already at max RD
       const player = await createPlayer(createPlayerInput());
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  parseExternalId,
+  formatExternalId,
+  getPrimaryExternalId,
+  createPlayerIdentity,
+  linkPlayerIdentity,
+  findPlayerIdentityById,
+  findPlayerIdentity,
+  findPlayerIdentities,
+  updatePlayerIdentity,
+  deletePlayerIdentity,
+} from '../src/player-identities.js';
+import { createPlayer, deletePlayer, findPlayerByExternalId } from '../src/players.js';
+import { createPlayerInput, resetPlayerCounter } from './factories/player.factory.js';
+
+beforeEach(() => {
+  resetPlayerCounter();
+});
+
+describe('player identities', () => {
+  describe('parseExternalId', () => {
+    it('should split the source from the ID', () => {
+      expect(parseExternalId('matchplay:123')).toEqual({ source: 'matchplay', externalId: '123' });
+      expect(parseExternalId('league:a:b')).toEqual({ source: 'league', externalId: 'a:b' });
+    });
+
+    it('should give IDs without a source the default source', () => {
+      expect(parseExternalId('IFPA123')).toEqual({ source: 'external', externalId: 'IFPA123' });
+      expect(parseExternalId(':123')).toEqual({ source: 'external', externalId: ':123' });
+    });
+  });
+
+  describe('formatExternalId', () => {
+    it('should reverse parseExternalId', () => {
+      for (const value of ['matchplay:123', 'IFPA123', 'league:a:b']) {
+        expect(formatExternalId(parseExternalId(value))).toBe(value);
+      }
+    });
+  });
+
+  describe('getPrimaryExternalId', () => {
+    const identity = (source: string, status: 'UNVERIFIED' | 'VERIFIED', createdAt: string) => ({
+      source,
+      externalId: '1',
+      status,
+      createdAt: new Date(createdAt),
+    });
+
+    it('should prefer the first verified identity', () => {
+      expect(
+        getPrimaryExternalId([
+          identity('league', 'UNVERIFIED', '2024-01-01'),
+          identity('ifpa', 'VERIFIED', '2024-03-01'),
+          identity('matchplay', 'VERIFIED', '2024-02-01'),
+        ]),
+      ).toBe('matchplay:1');
+    });
+
+    it('should fall back to the first identity', () => {
+      expect(
+        getPrimaryExternalId([
+          identity('league', 'UNVERIFIED', '2024-02-01'),
+          identity('external', 'UNVERIFIED', '2024-01-01'),
+        ]),
+      ).toBe('1');
+      expect(getPrimaryExternalId([])).toBeNull();
+    });
+  });
+
+  describe('createPlayer', () => {
+    it('should keep the external ID as a verified identity', async () => {
+      const player = await createPlayer(createPlayerInput({ externalId: 'matchplay:123' }));
+
+      expect(await findPlayerIdentities({ where: { playerId: player.id } })).toEqual([
+        expect.objectContaining({ source: 'matchplay', externalId: '123', status: 'VERIFIED' }),
+      ]);
+    });
+  });
+
+  describe('createPlayerIdentity', () => {
+    it('should give a player several identities', async () => {
+      const player = await createPlayer(createPlayerInput({ externalId: 'matchplay:123' }));
+
+      const identity = await createPlayerIdentity({
+        playerId: player.id,
+        source: 'ifpa',
+        externalId: '4567',
+      });
+
+      expect(identity.status).toBe('UNVERIFIED');
+      expect((await findPlayerByExternalId('ifpa:4567'))?.id).toBe(player.id);
+      expect(
+        (await findPlayerIdentities({ where: { playerId: player.id } })).map((i) => i.source),
+      ).toEqual(['ifpa', 'matchplay']);
+    });
+
+    it('should not give an ID of a source to two players', async () => {
+      await createPlayer(createPlayerInput({ externalId: 'matchplay:123' }));
+      const other = await createPlayer(createPlayerInput({ externalId: undefined }));
+
+      await expect(
+        createPlayerIdentity({ playerId: other.id, source: 'matchplay', externalId: '123' }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('linkPlayerIdentity', () => {
+    it('should link an unknown external ID to the player', async () => {
+      const player = await createPlayer(createPlayerInput({ externalId: undefined }));
+
+      const identity = await linkPlayerIdentity(player.id, 'matchplay:9');
+
+      expect(identity).toMatchObject({
+        playerId: player.id,
+        source: 'matchplay',
+        externalId: '9',
+        status: 'UNVERIFIED',
+      });
+    });
+
+    it('should leave an external ID with the player it belongs to', async () => {
+      const owner = await createPlayer(createPlayerInput({ externalId: 'matchplay:9' }));
+      const other = await createPlayer(createPlayerInput({ externalId: undefined }));
+
+      const identity = await linkPlayerIdentity(other.id, 'matchplay:9');
+
+      expect(identity.playerId).toBe(owner.id);
+    });
+  });
+
+  describe('updatePlayerIdentity', () => {
+    it('should verify an identity', async () => {
+      const player = await createPlayer(createPlayerInput({ externalId: undefined }));
+      const identity = await linkPlayerIdentity(player.id, 'league:77');
+
+      await updatePlayerIdentity(identity.id, { status: 'VERIFIED', externalId: '78' });
+
+      expect(await findPlayerIdentity('league', '78')).toMatchObject({
+        id: identity.id,
+        status: 'VERIFIED',
+      });
+      expect(await findPlayerIdentity('league', '77')).toBeNull();
+    });
+  });
+
+  describe('deletePlayerIdentity', () => {
+    it('should unlink the external ID', async () => {
+      const player = await createPlayer(createPlayerInput({ externalId: 'matchplay:5' }));
+      const identity = await findPlayerIdentity('matchplay', '5');
+
+      await deletePlayerIdentity(identity?.id ?? '');
+
+      expect(await findPlayerByExternalId('matchplay:5')).toBeNull();
+      expect(await findPlayerIdentities({ where: { playerId: player.id } })).toEqual([]);
+    });
+
+    it('should be deleted with the player', async () => {
+      const player = await createPlayer(createPlayerInput({ externalId: 'matchplay:6' }));
+      const identity = await findPlayerIdentity('matchplay', '6');
+
+      await deletePlayer(player.id);
+
+      expect(await findPlayerIdentityById(identity?.id ?? '')).toBeNull();
+    });
+  });
+});
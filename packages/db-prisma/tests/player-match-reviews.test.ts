@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createPlayerMatchReview,
+  findPlayerMatchReviewById,
+  findPlayerMatchReviews,
+  countPlayerMatchReviews,
+  dismissPlayerMatchReview,
+  matchPlayerMatchReview,
+} from '../src/player-match-reviews.js';
+import { findPlayerMergeBySourceId } from '../src/player-merges.js';
+import { createPlayer, findPlayerByExternalId, findPlayerById } from '../src/players.js';
+import { createTournament } from '../src/tournaments.js';
+import { createStanding, findStandings } from '../src/standings.js';
+import { createPlayerInput, resetPlayerCounter } from './factories/player.factory.js';
+import { createTournamentInput, resetTournamentCounter } from './factories/tournament.factory.js';
+import { createStandingInput } from './factories/result.factory.js';
+
+beforeEach(() => {
+  resetPlayerCounter();
+  resetTournamentCounter();
+});
+
+const createImportedPlayer = async () => {
+  const existing = await createPlayer(createPlayerInput({ externalId: undefined, eventCount: 2 }));
+  const imported = await createPlayer(
+    createPlayerInput({ externalId: 'matchplay:123', name: 'Alice Johnson' }),
+  );
+  const tournament = await createTournament(
+    createTournamentInput({ date: new Date('2030-01-01') }),
+  );
+  await createStanding(createStandingInput(imported.id, tournament.id));
+  const review = await createPlayerMatchReview({
+    source: 'matchplay',
+    externalId: 'matchplay:123',
+    name: 'Alice Johnson',
+    candidates: [{ playerId: existing.id, score: 0.7, reasons: ['name'] }],
+    playerId: imported.id,
+    tournamentId: tournament.id,
+  });
+  return { existing, imported, tournament, review };
+};
+
+describe('player match reviews', () => {
+  describe('createPlayerMatchReview', () => {
+    it('should queue a pending review', async () => {
+      const { imported, tournament, review } = await createImportedPlayer();
+
+      expect(review.status).toBe('PENDING');
+      const found = await findPlayerMatchReviewById(review.id);
+      expect(found?.player?.id).toBe(imported.id);
+      expect(found?.tournament?.id).toBe(tournament.id);
+      expect(found?.matchedPlayer).toBeNull();
+    });
+  });
+
+  describe('findPlayerMatchReviews', () => {
+    it('should list reviews oldest first with filters', async () => {
+      const first = await createImportedPlayer();
+      const other = await createPlayer(createPlayerInput());
+      const second = await createPlayerMatchReview({
+        source: 'csv',
+        name: 'Bob',
+        candidates: [],
+        playerId: other.id,
+      });
+      await dismissPlayerMatchReview(second.id);
+
+      expect((await findPlayerMatchReviews()).map((r) => r.id)).toEqual([
+        first.review.id,
+        second.id,
+      ]);
+      expect(await countPlayerMatchReviews({ status: 'PENDING' })).toBe(1);
+    });
+  });
+
+  describe('dismissPlayerMatchReview', () => {
+    it('should dismiss a pending review once', async () => {
+      const { imported, review } = await createImportedPlayer();
+
+      const dismissed = await dismissPlayerMatchReview(review.id, 'user-1');
+
+      expect(dismissed).toMatchObject({ status: 'DISMISSED', resolvedById: 'user-1' });
+      expect(dismissed?.resolvedAt).not.toBeNull();
+      expect(await findPlayerById(imported.id)).not.toBeNull();
+      expect(await dismissPlayerMatchReview(review.id)).toBeNull();
+    });
+  });
+
+  describe('matchPlayerMatchReview', () => {
+    it('should move the results of the imported player to the matched player', async () => {
+      const { existing, imported, tournament, review } = await createImportedPlayer();
+
+      const result = await matchPlayerMatchReview(review.id, existing.id, 'user-1');
+
+      expect(result?.tournamentIds).toEqual([tournament.id]);
+      expect(result?.review).toMatchObject({
+        status: 'MATCHED',
+        playerId: null,
+        matchedPlayerId: existing.id,
+        resolvedById: 'user-1',
+      });
+      expect(await findPlayerById(imported.id)).toBeNull();
+      expect(
+        (await findStandings({ where: { tournamentId: tournament.id } })).map((s) => s.playerId),
+      ).toEqual([existing.id]);
+
+      const matched = await findPlayerById(existing.id);
+      expect(matched?.eventCount).toBe(1);
+      expect(matched?.lastEventDate).toEqual(new Date('2030-01-01'));
+      expect(await findPlayerMergeBySourceId(imported.id)).toMatchObject({
+        targetPlayerId: existing.id,
+        mergedById: 'user-1',
+      });
+      expect((await findPlayerByExternalId('matchplay:123'))?.id).toBe(existing.id);
+    });
+
+    it('should add the imported external ID to those of the matched player', async () => {
+      const { imported, review } = await createImportedPlayer();
+      const existing = await createPlayer(createPlayerInput({ externalId: 'ifpa:42' }));
+
+      await matchPlayerMatchReview(review.id, existing.id);
+
+      expect((await findPlayerByExternalId('ifpa:42'))?.id).toBe(existing.id);
+      expect((await findPlayerByExternalId('matchplay:123'))?.id).toBe(existing.id);
+      expect(await findPlayerById(imported.id)).toBeNull();
+    });
+
+    it('should not match a review that is no longer pending', async () => {
+      const { existing, review } = await createImportedPlayer();
+      await dismissPlayerMatchReview(review.id);
+
+      expect(await matchPlayerMatchReview(review.id, existing.id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  mergePlayers,
+  findPlayerMergeBySourceId,
+  findPlayerMergesByTarget,
+} from '../src/player-merges.js';
+import { createPlayer, findPlayerByExternalId, findPlayerById } from '../src/players.js';
+import { createTournament, findTournamentById } from '../src/tournaments.js';
+import { createStanding, findStandings } from '../src/standings.js';
+import { createUser, findUserById } from '../src/users.js';
+import {
+  createOpprPlayerRanking,
+  createOpprRankingHistory,
+  findOpprPlayerRankingByPlayerId,
+  getOpprRankingHistory,
+} from '../src/oppr-rankings.js';
+import { createPlayerMatchReview, findPlayerMatchReviewById } from '../src/player-match-reviews.js';
+import { createPlayerInput, resetPlayerCounter } from './factories/player.factory.js';
+import { createTournamentInput, resetTournamentCounter } from './factories/tournament.factory.js';
+import { createStandingInput } from './factories/result.factory.js';
+import { createOpprPlayerRankingInput } from './factories/oppr-ranking.factory.js';
+
+beforeEach(() => {
+  resetPlayerCounter();
+  resetTournamentCounter();
+});
+
+const createUserFor = (playerId: string) =>
+  createUser({
+    email: `merge-${playerId}-${Date.now()}@example.com`,
+    passwordHash: 'hash',
+    playerId,
+  });
+
+describe('player merges', () => {
+  describe('mergePlayers', () => {
+    it('should move standings and organized tournaments to the target', async () => {
+      const source = await createPlayer(createPlayerInput({ externalId: undefined }));
+      const target = await createPlayer(createPlayerInput({ eventCount: 7 }));
+      const older = await createTournament(
+        createTournamentInput({ date: new Date('2024-01-01'), organizerId: source.id }),
+      );
+      const newer = await createTournament(createTournamentInput({ date: new Date('2024-06-01') }));
+      await createStanding(createStandingInput(source.id, newer.id, { position: 3 }));
+      await createStanding(createStandingInput(target.id, older.id));
+
+      const result = await mergePlayers(source.id, target.id, { mergedById: 'user-1' });
+
+      expect(result.tournamentIds).toEqual([newer.id]);
+      expect(await findPlayerById(source.id)).toBeNull();
+      expect(
+        (await findStandings({ where: { tournamentId: newer.id } })).map((s) => s.playerId),
+      ).toEqual([target.id]);
+      expect((await findTournamentById(older.id))?.organizerId).toBe(target.id);
+      expect(result.player.eventCount).toBe(2);
+      expect(result.player.lastEventDate).toEqual(new Date('2024-06-01'));
+      expect(result.merge).toMatchObject({
+        sourcePlayerId: source.id,
+        sourcePlayerNumber: source.playerNumber,
+        sourceName: source.name,
+        mergedIntoId: target.id,
+        targetPlayerId: target.id,
+        mergedById: 'user-1',
+        summary: {
+          standingsMoved: 1,
+          standingsDropped: 0,
+          tournamentsReassigned: 1,
+          userMoved: false,
+          identitiesMoved: 0,
+          rankingHistoryMoved: 0,
+          ratingTaken: false,
+        },
+      });
+    });
+
+    it('should keep the better placed standing of a tournament stage both played', async () => {
+      const source = await createPlayer(createPlayerInput());
+      const target = await createPlayer(createPlayerInput());
+      const tournament = await createTournament(createTournamentInput());
+      await createStanding(createStandingInput(source.id, tournament.id, { position: 2 }));
+      await createStanding(createStandingInput(target.id, tournament.id, { position: 5 }));
+      await createStanding(
+        createStandingInput(source.id, tournament.id, { position: 4, isFinals: true }),
+      );
+      await createStanding(
+        createStandingInput(target.id, tournament.id, { position: 1, isFinals: true }),
+      );
+
+      const result = await mergePlayers(source.id, target.id);
+
+      const standings = await findStandings({
+        where: { tournamentId: tournament.id },
+        orderBy: { isFinals: 'asc' },
+      });
+      expect(standings.map((s) => [s.playerId, s.isFinals, s.position])).toEqual([
+        [target.id, false, 2],
+        [target.id, true, 1],
+      ]);
+      expect(result.merge.summary).toMatchObject({ standingsMoved: 1, standingsDropped: 2 });
+      expect(result.player.eventCount).toBe(1);
+    });
+
+    it('should take the name and user of the source when the target has none', async () => {
+      const source = await createPlayer(createPlayerInput());
+      const target = await createPlayer(createPlayerInput({ name: undefined }));
+      const user = await createUserFor(source.id);
+
+      const result = await mergePlayers(source.id, target.id);
+
+      expect(result.player.name).toBe(source.name);
+      expect((await findUserById(user.id))?.playerId).toBe(target.id);
+      expect(result.merge.summary).toMatchObject({ userMoved: true });
+    });
+
+    it('should move the external IDs of the source to the target', async () => {
+      const source = await createPlayer(createPlayerInput({ externalId: 'matchplay:7' }));
+      const target = await createPlayer(createPlayerInput({ externalId: 'ifpa:42' }));
+
+      const result = await mergePlayers(source.id, target.id);
+
+      expect((await findPlayerByExternalId('matchplay:7'))?.id).toBe(target.id);
+      expect((await findPlayerByExternalId('ifpa:42'))?.id).toBe(target.id);
+      expect(result.merge.sourceExternalId).toBe('matchplay:7');
+      expect(result.merge.summary).toMatchObject({ identitiesMoved: 1 });
+    });
+
+    it('should keep the user of a target who has one', async () => {
+      const source = await createPlayer(createPlayerInput());
+      const target = await createPlayer(createPlayerInput());
+      const sourceUser = await createUserFor(source.id);
+      const targetUser = await createUserFor(target.id);
+
+      await mergePlayers(source.id, target.id);
+
+      expect((await findUserById(sourceUser.id))?.playerId).toBeNull();
+      expect((await findUserById(targetUser.id))?.playerId).toBe(target.id);
+    });
+
+    it('should keep the more certain rating with the history of both players', async () => {
+      const source = await createPlayer(createPlayerInput());
+      const target = await createPlayer(createPlayerInput());
+      const sourceRanking = await createOpprPlayerRanking(
+        createOpprPlayerRankingInput(source.id, { rating: 1650, ratingDeviation: 60 }),
+      );
+      const targetRanking = await createOpprPlayerRanking(
+        createOpprPlayerRankingInput(target.id, { rating: 1480, ratingDeviation: 180 }),
+      );
+      for (const ranking of [sourceRanking, targetRanking]) {
+        await createOpprRankingHistory({
+          opprPlayerRankingId: ranking.id,
+          rating: ranking.rating,
+          ratingDeviation: ranking.ratingDeviation,
+          isRated: false,
+          changeType: 'INITIAL',
+        });
+      }
+
+      const result = await mergePlayers(source.id, target.id);
+
+      const ranking = await findOpprPlayerRankingByPlayerId(target.id);
+      expect(ranking).toMatchObject({ id: targetRanking.id, rating: 1650, ratingDeviation: 60 });
+      const history = await getOpprRankingHistory(target.id);
+      expect(history).toHaveLength(3);
+      expect(history.map((h) => h.changeType).sort()).toEqual([
+        'INITIAL',
+        'INITIAL',
+        'MANUAL_ADJUSTMENT',
+      ]);
+      expect(result.merge.summary).toMatchObject({ rankingHistoryMoved: 1, ratingTaken: true });
+    });
+
+    it('should move the ranking of the source to a target without one', async () => {
+      const source = await createPlayer(createPlayerInput());
+      const target = await createPlayer(createPlayerInput());
+      const sourceRanking = await createOpprPlayerRanking(
+        createOpprPlayerRankingInput(source.id, { rating: 1700 }),
+      );
+
+      await mergePlayers(source.id, target.id);
+
+      expect(await findOpprPlayerRankingByPlayerId(target.id)).toMatchObject({
+        id: sourceRanking.id,
+        rating: 1700,
+      });
+    });
+
+    it('should move the import reviews of the source', async () => {
+      const source = await createPlayer(createPlayerInput());
+      const target = await createPlayer(createPlayerInput());
+      const review = await createPlayerMatchReview({
+        source: 'csv',
+        candidates: [],
+        playerId: source.id,
+      });
+
+      await mergePlayers(source.id, target.id);
+
+      expect((await findPlayerMatchReviewById(review.id))?.playerId).toBe(target.id);
+    });
+
+    it('should redirect players merged into the source to the target', async () => {
+      const first = await createPlayer(createPlayerInput());
+      const second = await createPlayer(createPlayerInput());
+      const third = await createPlayer(createPlayerInput());
+
+      await mergePlayers(first.id, second.id);
+      await mergePlayers(second.id, third.id);
+
+      expect(await findPlayerMergeBySourceId(first.id)).toMatchObject({
+        mergedIntoId: second.id,
+        targetPlayerId: third.id,
+      });
+      expect((await findPlayerMergesByTarget(third.id)).map((m) => m.sourcePlayerId)).toEqual([
+        second.id,
+        first.id,
+      ]);
+    });
+
+    it('should change nothing when a player does not exist', async () => {
+      const target = await createPlayer(createPlayerInput());
+
+      await expect(mergePlayers('nonexistent', target.id)).rejects.toThrow();
+      expect(await findPlayerMergesByTarget(target.id)).toEqual([]);
+    });
+  });
+});
@@ -41,7 +41,7 @@ describe('players', () => {
 
       const player = await createPlayer(input);
 
-      expect(player.externalId).toBe(input.externalId);
+      expect((await findPlayerByExternalId(input.externalId!))?.id).toBe(player.id);
       expect(player.name).toBe(input.name);
       expect(player.eventCount).toBe(3);
     });
@@ -114,10 +114,17 @@ describe('players', () => {
       expect(found).toBeNull();
     });
 
+    it('should find a player by an ID with a source', async () => {
+      const created = await createPlayer(createPlayerInput({ externalId: 'matchplay:123' }));
+
+      expect((await findPlayerByExternalId('matchplay:123'))?.id).toBe(created.id);
+      expect(await findPlayerByExternalId('ifpa:123')).toBeNull();
+    });
+
     it('should support include option', async () => {
-      const player = await createPlayer(createPlayerInput());
+      await createPlayer(createPlayerInput({ externalId: 'with-standings' }));
 
-      const found = await findPlayerByExternalId(player.externalId!, { standings: true });
+      const found = await findPlayerByExternalId('with-standings', { standings: true });
 
       expect(found).not.toBeNull();
       expect(found!.standings).toBeDefined();
@@ -255,7 +262,7 @@ describe('players', () => {
       const updated = await updatePlayer(player.id, { name: 'New Name' });
 
       expect(updated.name).toBe('New Name');
-      expect(updated.externalId).toBe(player.externalId);
+      expect(updated.playerNumber).toBe(player.playerNumber);
     });
 
     it('should update multiple fields', async () => {
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRankingConfig,
+  findRankingConfigById,
+  findRankingConfigByVersion,
+  findRankingConfigs,
+  getActiveRankingConfig,
+  updateRankingConfig,
+  activateRankingConfig,
+  deactivateRankingConfig,
+  findRankingConfigActivations,
+  deleteRankingConfig,
+  countRankingConfigs,
+} from '../src/ranking-configs.js';
+
+const createConfig = (version: string) =>
+  createRankingConfig({
+    version,
+    name: `Config ${version}`,
+    config: { BASE_VALUE: { MAX_BASE_VALUE: 40 } },
+  });
+
+describe('ranking-configs', () => {
+  describe('createRankingConfig', () => {
+    it('should create an inactive configuration', async () => {
+      const config = await createConfig('2026.1');
+
+      expect(config.id).toBeDefined();
+      expect(config.version).toBe('2026.1');
+      expect(config.config).toEqual({ BASE_VALUE: { MAX_BASE_VALUE: 40 } });
+      expect(config.isActive).toBe(false);
+      expect(config.activatedAt).toBeNull();
+    });
+
+    it('should reject duplicate versions', async () => {
+      await createConfig('2026.1');
+
+      await expect(createConfig('2026.1')).rejects.toThrow();
+    });
+  });
+
+  describe('findRankingConfigById / findRankingConfigByVersion', () => {
+    it('should find a configuration by ID and version', async () => {
+      const created = await createConfig('2026.1');
+
+      expect((await findRankingConfigById(created.id))?.version).toBe('2026.1');
+      expect((await findRankingConfigByVersion('2026.1'))?.id).toBe(created.id);
+      expect(await findRankingConfigByVersion('missing')).toBeNull();
+    });
+  });
+
+  describe('findRankingConfigs', () => {
+    it('should list configurations newest first', async () => {
+      await createConfig('2026.1');
+      await createConfig('2026.2');
+
+      const configs = await findRankingConfigs();
+
+      expect(configs.map((c) => c.version)).toEqual(['2026.2', '2026.1']);
+      expect(await countRankingConfigs()).toBe(2);
+    });
+  });
+
+  describe('updateRankingConfig', () => {
+    it('should update the configuration values', async () => {
+      const created = await createConfig('2026.1');
+
+      const updated = await updateRankingConfig(created.id, {
+        config: { TIME_DECAY: { YEAR_1_TO_2: 0.8 } },
+        description: 'Slower decay',
+      });
+
+      expect(updated.config).toEqual({ TIME_DECAY: { YEAR_1_TO_2: 0.8 } });
+      expect(updated.description).toBe('Slower decay');
+    });
+  });
+
+  describe('activateRankingConfig', () => {
+    it('should activate a configuration', async () => {
+      const created = await createConfig('2026.1');
+
+      const activated = await activateRankingConfig(created.id);
+
+      expect(activated.isActive).toBe(true);
+      expect(activated.activatedAt).toBeInstanceOf(Date);
+      expect((await getActiveRankingConfig())?.id).toBe(created.id);
+    });
+
+    it('should deactivate the previously active configuration', async () => {
+      const first = await createConfig('2026.1');
+      const second = await createConfig('2026.2');
+
+      await activateRankingConfig(first.id);
+      await activateRankingConfig(second.id);
+
+      expect((await getActiveRankingConfig())?.id).toBe(second.id);
+      expect((await findRankingConfigById(first.id))?.isActive).toBe(false);
+      expect(await countRankingConfigs({ isActive: true })).toBe(1);
+    });
+
+    it('should end the previous activation where the next one starts', async () => {
+      const first = await createConfig('2026.1');
+      const second = await createConfig('2026.2');
+
+      await activateRankingConfig(first.id);
+      const activated = await activateRankingConfig(second.id);
+
+      const activations = await findRankingConfigActivations();
+      expect(activations.map((a) => a.rankingConfig.version)).toEqual(['2026.1', '2026.2']);
+      expect(activations[0]?.deactivatedAt).toEqual(activated.activatedAt);
+      expect(activations[1]?.deactivatedAt).toBeNull();
+    });
+
+    it('should keep the activation of the active configuration when activated again', async () => {
+      const created = await createConfig('2026.1');
+      const activated = await activateRankingConfig(created.id);
+
+      const again = await activateRankingConfig(created.id);
+
+      expect(again.activatedAt).toEqual(activated.activatedAt);
+      expect(await findRankingConfigActivations()).toHaveLength(1);
+    });
+
+    it('should record each activation of a reactivated configuration', async () => {
+      const first = await createConfig('2026.1');
+      const second = await createConfig('2026.2');
+
+      await activateRankingConfig(first.id);
+      await activateRankingConfig(second.id);
+      await activateRankingConfig(first.id);
+
+      const activations = await findRankingConfigActivations();
+      expect(activations.map((a) => a.rankingConfig.version)).toEqual([
+        '2026.1',
+        '2026.2',
+        '2026.1',
+      ]);
+    });
+  });
+
+  describe('deactivateRankingConfig', () => {
+    it('should leave no active configuration', async () => {
+      const created = await createConfig('2026.1');
+      await activateRankingConfig(created.id);
+
+      await deactivateRankingConfig(created.id);
+
+      expect(await getActiveRankingConfig()).toBeNull();
+      const [activation] = await findRankingConfigActivations();
+      expect(activation?.deactivatedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('deleteRankingConfig', () => {
+    it('should delete a configuration', async () => {
+      const created = await createConfig('2026.1');
+
+      await deleteRankingConfig(created.id);
+
+      expect(await findRankingConfigById(created.id)).toBeNull();
+    });
+  });
+});
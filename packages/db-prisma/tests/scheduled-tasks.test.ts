@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  syncScheduledTask,
+  findScheduledTaskByName,
+  findScheduledTasks,
+  acquireScheduledTaskLease,
+  renewScheduledTaskLease,
+  releaseScheduledTaskLease,
+  requestScheduledTaskRun,
+  startScheduledTaskRun,
+  finishScheduledTaskRun,
+  findLastSuccessfulScheduledTaskRun,
+  findScheduledTaskRuns,
+  countScheduledTaskRuns,
+} from '../src/scheduled-tasks.js';
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+describe('scheduled tasks', () => {
+  describe('syncScheduledTask', () => {
+    it('should create a task', async () => {
+      const nextRunAt = minutesFromNow(60);
+      const task = await syncScheduledTask('time-decay', '0 3 * * *', nextRunAt);
+
+      expect(task.name).toBe('time-decay');
+      expect(task.nextRunAt).toEqual(nextRunAt);
+      expect(task.lastRunAt).toBeNull();
+    });
+
+    it('should keep the next run while the schedule is unchanged', async () => {
+      const nextRunAt = minutesFromNow(60);
+      await syncScheduledTask('time-decay', '0 3 * * *', nextRunAt);
+
+      const task = await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(120));
+
+      expect(task.nextRunAt).toEqual(nextRunAt);
+    });
+
+    it('should reschedule when the schedule changed', async () => {
+      await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(60));
+      const nextRunAt = minutesFromNow(120);
+
+      const task = await syncScheduledTask('time-decay', '0 5 * * *', nextRunAt);
+
+      expect(task.schedule).toBe('0 5 * * *');
+      expect(task.nextRunAt).toEqual(nextRunAt);
+    });
+  });
+
+  describe('acquireScheduledTaskLease', () => {
+    it('should lease a due task to one owner', async () => {
+      await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(-1));
+
+      const first = await acquireScheduledTaskLease('time-decay', 'a', minutesFromNow(5));
+      const second = await acquireScheduledTaskLease('time-decay', 'b', minutesFromNow(5));
+
+      expect(first?.leaseOwner).toBe('a');
+      expect(second).toBeNull();
+    });
+
+    it('should not lease a task that is not due', async () => {
+      await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(60));
+
+      expect(await acquireScheduledTaskLease('time-decay', 'a', minutesFromNow(5))).toBeNull();
+    });
+
+    it('should take over an expired lease', async () => {
+      await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(-10));
+      await acquireScheduledTaskLease('time-decay', 'a', minutesFromNow(-1));
+
+      const task = await acquireScheduledTaskLease('time-decay', 'b', minutesFromNow(5));
+
+      expect(task?.leaseOwner).toBe('b');
+    });
+  });
+
+  describe('renewScheduledTaskLease', () => {
+    it('should only renew a lease held by the owner', async () => {
+      await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(-1));
+      await acquireScheduledTaskLease('time-decay', 'a', minutesFromNow(5));
+
+      expect(await renewScheduledTaskLease('time-decay', 'a', minutesFromNow(10))).toBe(true);
+      expect(await renewScheduledTaskLease('time-decay', 'b', minutesFromNow(10))).toBe(false);
+    });
+  });
+
+  describe('releaseScheduledTaskLease', () => {
+    it('should clear the lease and schedule the next run', async () => {
+      await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(-1));
+      await acquireScheduledTaskLease('time-decay', 'a', minutesFromNow(5));
+      const lastRunAt = new Date();
+      const nextRunAt = minutesFromNow(24 * 60);
+
+      await releaseScheduledTaskLease('time-decay', 'a', lastRunAt, nextRunAt);
+
+      const task = await findScheduledTaskByName('time-decay');
+      expect(task?.leaseOwner).toBeNull();
+      expect(task?.leaseExpiresAt).toBeNull();
+      expect(task?.lastRunAt).toEqual(lastRunAt);
+      expect(task?.nextRunAt).toEqual(nextRunAt);
+    });
+  });
+
+  describe('requestScheduledTaskRun', () => {
+    it('should make the task due', async () => {
+      await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(60));
+
+      await requestScheduledTaskRun('time-decay');
+
+      expect(await acquireScheduledTaskLease('time-decay', 'a', minutesFromNow(5))).not.toBeNull();
+    });
+
+    it('should return null for an unknown task', async () => {
+      expect(await requestScheduledTaskRun('unknown')).toBeNull();
+    });
+  });
+
+  describe('runs', () => {
+    it('should record runs and their outcome', async () => {
+      const task = await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(-1));
+
+      const failed = await startScheduledTaskRun(task.id, 'a');
+      await finishScheduledTaskRun(failed.id, { status: 'FAILED', error: 'Boom' });
+      const succeeded = await startScheduledTaskRun(task.id, 'a');
+      await finishScheduledTaskRun(succeeded.id, { status: 'SUCCEEDED', result: { count: 3 } });
+
+      expect(await countScheduledTaskRuns({ taskId: task.id })).toBe(2);
+      expect((await findLastSuccessfulScheduledTaskRun(task.id))?.id).toBe(succeeded.id);
+      expect((await findScheduledTaskRuns({ take: 1 }))[0]?.result).toEqual({ count: 3 });
+
+      const [listed] = await findScheduledTasks();
+      expect(listed?.runs.map((r) => r.id)).toEqual([succeeded.id]);
+    });
+
+    it('should fail interrupted runs when a new run starts', async () => {
+      const task = await syncScheduledTask('time-decay', '0 3 * * *', minutesFromNow(-1));
+      const interrupted = await startScheduledTaskRun(task.id, 'a');
+
+      await startScheduledTaskRun(task.id, 'b');
+
+      const [run] = await findScheduledTaskRuns({ where: { id: interrupted.id } });
+      expect(run?.status).toBe('FAILED');
+      expect(run?.error).toBe('Interrupted before completion');
+    });
+  });
+});
@@ -18,10 +18,16 @@ const { prisma } = await import('../../src/client.js');
 
 beforeEach(async () => {
   // Clean all tables before each test (order matters due to foreign keys)
+  await prisma.playerMatchReview.deleteMany();
+  await prisma.gamePlacement.deleteMany();
   await prisma.standing.deleteMany();
   await prisma.tournament.deleteMany();
   await prisma.location.deleteMany();
   await prisma.player.deleteMany();
+  await prisma.rankingConfig.deleteMany();
+  await prisma.job.deleteMany();
+  await prisma.scheduledTask.deleteMany();
+  await prisma.auditLog.deleteMany();
 });
 
 afterAll(async () => {
@@ -1,4 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  calculateDecayMultiplier,
+  configureOPPR,
+  createOPPREngine,
+  resetConfig,
+} from '@opprs/core';
 import {
   createStanding,
   createManyStandings,
@@ -11,18 +17,24 @@ import {
   getFinalsStandings,
   getMergedStandings,
   getPlayerTopFinishes,
+  countSharedTournaments,
   updateStanding,
   updateStandingPoints,
   deleteStanding,
   deleteStandingsByTournament,
   countStandings,
   getPlayerStats,
+  getPlayerEventPoints,
   recalculateTimeDecay,
+  applyTournamentPoints,
+  recalculateTournamentPoints,
 } from '../src/standings.js';
-import { createTournament } from '../src/tournaments.js';
+import type { TournamentPointsCalculator } from '../src/standings.js';
+import { createTournament, findTournamentById } from '../src/tournaments.js';
 import { createPlayer } from '../src/players.js';
 import { createTournamentInput } from './factories/tournament.factory.js';
 import { createPlayerInput } from './factories/player.factory.js';
+import { createStandingInput } from './factories/result.factory.js';
 
 describe('standings', () => {
   describe('createStanding', () => {
@@ -341,6 +353,42 @@ describe('standings', () => {
       expect(nonFinalistMerged!.mergedPosition).toBe(3); // 2 finalists + 1
       expect(nonFinalistMerged!.isFinalist).toBe(false);
     });
+
+    it('should keep tied non-finalists tied', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const finalist = await createPlayer(createPlayerInput());
+      const tied1 = await createPlayer(createPlayerInput());
+      const tied2 = await createPlayer(createPlayerInput());
+      const last = await createPlayer(createPlayerInput());
+
+      await createStanding({ tournamentId: tournament.id, playerId: finalist.id, position: 1 });
+      await createStanding({
+        tournamentId: tournament.id,
+        playerId: tied1.id,
+        position: 2,
+        positionEnd: 3,
+      });
+      await createStanding({
+        tournamentId: tournament.id,
+        playerId: tied2.id,
+        position: 2,
+        positionEnd: 3,
+      });
+      await createStanding({ tournamentId: tournament.id, playerId: last.id, position: 4 });
+      await createStanding({
+        tournamentId: tournament.id,
+        playerId: finalist.id,
+        position: 1,
+        isFinals: true,
+      });
+
+      const merged = await getMergedStandings(tournament.id);
+      const positions = new Map(merged.map((s) => [s.playerId, s.mergedPosition]));
+
+      expect(positions.get(tied1.id)).toBe(2);
+      expect(positions.get(tied2.id)).toBe(2);
+      expect(positions.get(last.id)).toBe(4);
+    });
   });
 
   describe('getPlayerTopFinishes', () => {
@@ -370,6 +418,31 @@ describe('standings', () => {
     });
   });
 
+  describe('countSharedTournaments', () => {
+    it('should count the tournaments each player played with the others', async () => {
+      const tournament1 = await createTournament(createTournamentInput());
+      const tournament2 = await createTournament(createTournamentInput());
+      const player = await createPlayer(createPlayerInput());
+      const other = await createPlayer(createPlayerInput());
+      const stranger = await createPlayer(createPlayerInput());
+
+      await createManyStandings([
+        createStandingInput(player.id, tournament1.id),
+        createStandingInput(player.id, tournament1.id, { isFinals: true }),
+        createStandingInput(player.id, tournament2.id),
+        createStandingInput(other.id, tournament1.id, { position: 2 }),
+        createStandingInput(other.id, tournament2.id, { position: 2 }),
+        createStandingInput(stranger.id, tournament2.id, { position: 3 }),
+      ]);
+
+      const counts = await countSharedTournaments([player.id, stranger.id], [other.id]);
+
+      expect(counts.get(player.id)).toBe(2);
+      expect(counts.get(stranger.id)).toBe(1);
+      expect((await countSharedTournaments([player.id], [])).size).toBe(0);
+    });
+  });
+
   describe('updateStanding', () => {
     it('should update standing properties', async () => {
       const tournament = await createTournament(createTournamentInput());
@@ -473,6 +546,128 @@ describe('standings', () => {
     });
   });
 
+  describe('applyTournamentPoints', () => {
+    it('should store tournament values and points for every standing of a player', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const finalist = await createPlayer(createPlayerInput());
+      const other = await createPlayer(createPlayerInput());
+      await createManyStandings([
+        { tournamentId: tournament.id, playerId: finalist.id, position: 2, isFinals: false },
+        { tournamentId: tournament.id, playerId: finalist.id, position: 1, isFinals: true },
+        { tournamentId: tournament.id, playerId: other.id, position: 1, isFinals: false },
+      ]);
+
+      const points = {
+        linearPoints: 5,
+        dynamicPoints: 45,
+        totalPoints: 50,
+        ageInDays: 0,
+        decayMultiplier: 1,
+        decayedPoints: 50,
+        efficiency: 100,
+      };
+      const updated = await applyTournamentPoints(
+        tournament.id,
+        { firstPlaceValue: 50, rulesetVersion: 'default' },
+        [{ playerId: finalist.id, ...points }],
+      );
+
+      expect(updated).toBe(2);
+      const standings = await getPlayerStandings(finalist.id);
+      expect(standings.map((s) => s.totalPoints)).toEqual([50, 50]);
+      const untouched = await findStandingByPlayerAndTournament(other.id, tournament.id, false);
+      expect(untouched!.totalPoints).toBeNull();
+      const saved = await findTournamentById(tournament.id);
+      expect(saved!.firstPlaceValue).toBe(50);
+      expect(saved!.rulesetVersion).toBe('default');
+    });
+  });
+
+  describe('recalculateTournamentPoints', () => {
+    const pointsFor = (playerId: string, totalPoints: number) => ({
+      playerId,
+      linearPoints: 0,
+      dynamicPoints: totalPoints,
+      totalPoints,
+      ageInDays: 0,
+      decayMultiplier: 1,
+      decayedPoints: totalPoints,
+      efficiency: totalPoints,
+      ratingAtEvent: 1600,
+      rankingAtEvent: null,
+      ratedAtEvent: false,
+    });
+
+    it('should store the calculated values, points and player snapshots', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const player = await createPlayer(createPlayerInput());
+      await createStanding({ tournamentId: tournament.id, playerId: player.id, position: 1 });
+      const calculator: TournamentPointsCalculator = ({ standings }) => ({
+        values: { firstPlaceValue: 100, rulesetVersion: 'default' },
+        standings: standings.map((s) => pointsFor(s.playerId, 100)),
+      });
+
+      const recalculation = await recalculateTournamentPoints(tournament.id, calculator);
+
+      expect(recalculation!.standingsUpdated).toBe(1);
+      const standing = await findStandingByPlayerAndTournament(player.id, tournament.id, false);
+      expect(standing!.totalPoints).toBe(100);
+      expect(standing!.ratingAtEvent).toBe(1600);
+      expect(standing!.ratedAtEvent).toBe(false);
+      const saved = await findTournamentById(tournament.id);
+      expect(saved!.firstPlaceValue).toBe(100);
+    });
+
+    it('should return null for a non-existent tournament', async () => {
+      const recalculation = await recalculateTournamentPoints('non-existent-id', () => null);
+      expect(recalculation).toBeNull();
+    });
+  });
+
+  describe('standing writes with recalculation', () => {
+    it('should recalculate the tournament with the new standing', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const player = await createPlayer(createPlayerInput());
+      const calculator: TournamentPointsCalculator = ({ standings }) => ({
+        values: { firstPlaceValue: standings.length * 10 },
+        standings: [],
+      });
+
+      await createStanding(
+        { tournamentId: tournament.id, playerId: player.id, position: 1 },
+        { recalculate: calculator },
+      );
+
+      const saved = await findTournamentById(tournament.id);
+      expect(saved!.firstPlaceValue).toBe(10);
+    });
+
+    it('should not write the standing when the recalculation fails', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const player = await createPlayer(createPlayerInput());
+      const standing = await createStanding({
+        tournamentId: tournament.id,
+        playerId: player.id,
+        position: 1,
+      });
+      const failing: TournamentPointsCalculator = () => {
+        throw new Error('calculation failed');
+      };
+
+      await expect(
+        createStanding(
+          { tournamentId: tournament.id, playerId: player.id, position: 1, isFinals: true },
+          { recalculate: failing },
+        ),
+      ).rejects.toThrow('calculation failed');
+      await expect(deleteStanding(standing.id, { recalculate: failing })).rejects.toThrow(
+        'calculation failed',
+      );
+
+      expect(await countStandings({ tournamentId: tournament.id })).toBe(1);
+    });
+  });
+
   describe('deleteStanding', () => {
     it('should delete a standing', async () => {
       const tournament = await createTournament(createTournamentInput());
@@ -580,82 +775,225 @@ describe('standings', () => {
     });
   });
 
-  describe('recalculateTimeDecay', () => {
-    it('should recalculate decay for all standings', async () => {
-      const tournament = await createTournament(createTournamentInput());
+  describe('getPlayerEventPoints', () => {
+    it('should group decayed points by player', async () => {
+      const tournament1 = await createTournament(createTournamentInput());
+      const tournament2 = await createTournament(createTournamentInput());
       const player = await createPlayer(createPlayerInput());
 
       await createStanding({
-        tournamentId: tournament.id,
+        tournamentId: tournament1.id,
         playerId: player.id,
         position: 1,
-        totalPoints: 100,
+        decayedPoints: 40,
+      });
+      await createStanding({
+        tournamentId: tournament2.id,
+        playerId: player.id,
+        position: 2,
+        decayedPoints: 25,
       });
 
-      const updated = await recalculateTimeDecay();
-      expect(updated.length).toBeGreaterThan(0);
-      expect(updated[0].ageInDays).toBeDefined();
-      expect(updated[0].decayMultiplier).toBeDefined();
+      const result = await getPlayerEventPoints();
+      const entry = result.find((r) => r.playerId === player.id);
+
+      expect(entry).toBeDefined();
+      expect(entry!.eventPoints.sort((a, b) => b - a)).toEqual([40, 25]);
     });
 
-    it('should calculate 75% decay for 1-2 year old tournament', async () => {
-      const referenceDate = new Date('2026-01-01');
-      const tournamentDate = new Date('2024-06-01'); // 1.5 years ago
-      const tournament = await createTournament(createTournamentInput({ date: tournamentDate }));
+    it('should count qualifying and finals standings as a single event', async () => {
+      const tournament = await createTournament(createTournamentInput());
       const player = await createPlayer(createPlayerInput());
 
+      await createStanding({
+        tournamentId: tournament.id,
+        playerId: player.id,
+        position: 3,
+        isFinals: false,
+        decayedPoints: 10,
+      });
       await createStanding({
         tournamentId: tournament.id,
         playerId: player.id,
         position: 1,
-        totalPoints: 100,
+        isFinals: true,
+        decayedPoints: 60,
       });
 
-      const updated = await recalculateTimeDecay(referenceDate);
+      const result = await getPlayerEventPoints();
+      const entry = result.find((r) => r.playerId === player.id);
 
-      const standing = updated.find((s) => s.tournamentId === tournament.id);
-      expect(standing!.decayMultiplier).toBe(0.75);
-      expect(standing!.decayedPoints).toBe(75);
+      expect(entry!.eventPoints).toEqual([60]);
     });
+  });
 
-    it('should calculate 50% decay for 2-3 year old tournament', async () => {
-      const referenceDate = new Date('2026-01-01');
-      const tournamentDate = new Date('2023-06-01'); // 2.5 years ago
-      const tournament = await createTournament(createTournamentInput({ date: tournamentDate }));
+  describe('recalculateTimeDecay', () => {
+    async function createStandingOn(date: Date, totalPoints = 100): Promise<string> {
+      const tournament = await createTournament(createTournamentInput({ date }));
       const player = await createPlayer(createPlayerInput());
-
-      await createStanding({
+      const standing = await createStanding({
         tournamentId: tournament.id,
         playerId: player.id,
         position: 1,
-        totalPoints: 100,
+        totalPoints,
       });
+      return standing.id;
+    }
+
+    it('should return counts of processed tournaments and changed standings', async () => {
+      const referenceDate = new Date('2026-01-01');
+      await createStandingOn(new Date('2025-06-01'));
+      await createStandingOn(new Date('2024-06-01'));
+
+      const result = await recalculateTimeDecay(referenceDate);
 
-      const updated = await recalculateTimeDecay(referenceDate);
+      // The recent standing already has a multiplier of 1
+      expect(result).toEqual({ tournamentsProcessed: 2, standingsUpdated: 1 });
+    });
+
+    it('should calculate 75% decay for 1-2 year old tournament', async () => {
+      const referenceDate = new Date('2026-01-01');
+      const id = await createStandingOn(new Date('2024-06-01')); // 1.5 years ago
+
+      await recalculateTimeDecay(referenceDate);
+
+      const standing = await findStandingById(id);
+      expect(standing!.decayMultiplier).toBe(0.75);
+      expect(standing!.decayedPoints).toBe(75);
+      expect(standing!.ageInDays).toBe(579);
+    });
 
-      const standing = updated.find((s) => s.tournamentId === tournament.id);
+    it('should calculate 50% decay for 2-3 year old tournament', async () => {
+      const referenceDate = new Date('2026-01-01');
+      const id = await createStandingOn(new Date('2023-06-01')); // 2.5 years ago
+
+      await recalculateTimeDecay(referenceDate);
+
+      const standing = await findStandingById(id);
       expect(standing!.decayMultiplier).toBe(0.5);
       expect(standing!.decayedPoints).toBe(50);
     });
 
     it('should calculate 0% decay for 3+ year old tournament', async () => {
       const referenceDate = new Date('2026-01-01');
-      const tournamentDate = new Date('2022-01-01'); // 4 years ago
-      const tournament = await createTournament(createTournamentInput({ date: tournamentDate }));
-      const player = await createPlayer(createPlayerInput());
+      const id = await createStandingOn(new Date('2022-01-01')); // 4 years ago
 
-      await createStanding({
-        tournamentId: tournament.id,
-        playerId: player.id,
-        position: 1,
-        totalPoints: 100,
-      });
-
-      const updated = await recalculateTimeDecay(referenceDate);
+      await recalculateTimeDecay(referenceDate);
 
-      const standing = updated.find((s) => s.tournamentId === tournament.id);
+      const standing = await findStandingById(id);
       expect(standing!.decayMultiplier).toBe(0);
       expect(standing!.decayedPoints).toBe(0);
     });
+
+    it('should only touch standings whose multiplier changed', async () => {
+      const id = await createStandingOn(new Date('2024-06-01'));
+
+      await recalculateTimeDecay(new Date('2026-01-01'));
+      const before = await findStandingById(id);
+      const second = await recalculateTimeDecay(new Date('2026-01-02'));
+      const after = await findStandingById(id);
+
+      expect(second.standingsUpdated).toBe(0);
+      expect(after!.updatedAt).toEqual(before!.updatedAt);
+      expect(after!.ageInDays).toBe(before!.ageInDays);
+
+      const third = await recalculateTimeDecay(new Date('2026-07-01'));
+      expect(third.standingsUpdated).toBe(1);
+      expect((await findStandingById(id))!.decayMultiplier).toBe(0.5);
+    });
+
+    it('should refresh decayed points that no longer match total points', async () => {
+      const id = await createStandingOn(new Date('2024-06-01'));
+      await recalculateTimeDecay(new Date('2026-01-01'));
+      await updateStanding(id, { totalPoints: 40 });
+
+      const result = await recalculateTimeDecay(new Date('2026-01-01'));
+
+      expect(result.standingsUpdated).toBe(1);
+      expect((await findStandingById(id))!.decayedPoints).toBe(30);
+    });
+
+    it('should process tournaments in chunks', async () => {
+      const referenceDate = new Date('2026-01-01');
+      const ids: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        ids.push(await createStandingOn(new Date('2023-06-01')));
+      }
+
+      const result = await recalculateTimeDecay(referenceDate, { chunkSize: 2, concurrency: 2 });
+
+      expect(result).toEqual({ tournamentsProcessed: 5, standingsUpdated: 5 });
+      for (const id of ids) {
+        expect((await findStandingById(id))!.decayMultiplier).toBe(0.5);
+      }
+    });
+
+    describe('parity with @opprs/core', () => {
+      const referenceDate = new Date('2026-01-01');
+      const tournamentDates = [
+        new Date('2025-12-01'),
+        new Date('2025-01-01'),
+        new Date('2024-06-01'),
+        new Date('2023-06-01'),
+        new Date('2023-01-02'),
+        new Date('2022-01-01'),
+      ];
+
+      afterEach(() => {
+        resetConfig();
+      });
+
+      it.each(['stepped', 'linear', 'exponential', 'custom'] as const)(
+        'should store the same multipliers as core with the %s curve',
+        async (curve) => {
+          configureOPPR({ TIME_DECAY: { CURVE: curve } });
+          const dates = new Map<string, Date>();
+          for (const date of tournamentDates) {
+            dates.set(await createStandingOn(date), date);
+          }
+
+          await recalculateTimeDecay(referenceDate);
+
+          for (const [id, date] of dates) {
+            const standing = await findStandingById(id);
+            const expected = calculateDecayMultiplier(date, { referenceDate });
+            expect(standing!.decayMultiplier).toBe(expected);
+            expect(standing!.decayedPoints).toBe(100 * expected);
+          }
+        },
+      );
+
+      it('should decay with an engine configuration', async () => {
+        const engine = createOPPREngine({ TIME_DECAY: { CURVE: 'linear', MAX_AGE_YEARS: 2 } });
+        const date = new Date('2025-01-01');
+        const id = await createStandingOn(date);
+
+        await recalculateTimeDecay(referenceDate, { getDecayInfo: engine.getEventDecayInfo });
+
+        const standing = await findStandingById(id);
+        expect(standing!.decayMultiplier).toBe(
+          engine.calculateDecayMultiplier(date, { referenceDate }),
+        );
+        expect(standing!.decayMultiplier).toBe(0.5);
+      });
+
+      it('should store the configured curve in updateStandingPoints', async () => {
+        configureOPPR({ TIME_DECAY: { CURVE: 'exponential', HALF_LIFE_YEARS: 0.5 } });
+        const date = new Date();
+        date.setFullYear(date.getFullYear() - 1);
+        const tournament = await createTournament(createTournamentInput({ date }));
+        const player = await createPlayer(createPlayerInput());
+        const standing = await createStanding({
+          tournamentId: tournament.id,
+          playerId: player.id,
+          position: 1,
+        });
+
+        const updated = await updateStandingPoints(standing.id, 20, 80, 100);
+
+        expect(updated.decayMultiplier).toBe(calculateDecayMultiplier(tournament.date));
+        expect(updated.decayMultiplier).toBeCloseTo(0.25, 2);
+      });
+    });
   });
 });
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { replaceTournamentGames, getTournamentGames } from '../src/tournament-games.js';
+import { createTournament, deleteTournament } from '../src/tournaments.js';
+import { createPlayer } from '../src/players.js';
+import { createTournamentInput } from './factories/tournament.factory.js';
+import { createPlayerInput } from './factories/player.factory.js';
+
+describe('tournament games', () => {
+  describe('replaceTournamentGames', () => {
+    it('should store games and return them in order', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const a = await createPlayer(createPlayerInput());
+      const b = await createPlayer(createPlayerInput());
+
+      const stored = await replaceTournamentGames(tournament.id, [
+        {
+          placements: [
+            { playerId: b.id, placement: 2 },
+            { playerId: a.id, placement: 1 },
+          ],
+        },
+        { placements: [{ playerId: b.id, placement: 1 }] },
+      ]);
+
+      expect(stored).toBe(3);
+      expect(await getTournamentGames(tournament.id)).toEqual([
+        {
+          placements: [
+            { playerId: a.id, placement: 1 },
+            { playerId: b.id, placement: 2 },
+          ],
+        },
+        { placements: [{ playerId: b.id, placement: 1 }] },
+      ]);
+    });
+
+    it('should replace the games stored before', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const player = await createPlayer(createPlayerInput());
+      await replaceTournamentGames(tournament.id, [
+        { placements: [{ playerId: player.id, placement: 1 }] },
+      ]);
+
+      await replaceTournamentGames(tournament.id, []);
+
+      expect(await getTournamentGames(tournament.id)).toEqual([]);
+    });
+  });
+
+  describe('getTournamentGames', () => {
+    it('should return no games once the tournament is deleted', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const player = await createPlayer(createPlayerInput());
+      await replaceTournamentGames(tournament.id, [
+        { placements: [{ playerId: player.id, placement: 1 }] },
+      ]);
+
+      await deleteTournament(tournament.id);
+
+      expect(await getTournamentGames(tournament.id)).toEqual([]);
+    });
+  });
+});
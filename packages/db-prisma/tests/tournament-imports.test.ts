@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { prisma } from '../src/client.js';
+import { importTournamentResults } from '../src/tournament-imports.js';
+import { createPlayer, findPlayerById, countPlayers } from '../src/players.js';
+import { countTournaments, findTournamentById } from '../src/tournaments.js';
+import type { TournamentPointsCalculator } from '../src/standings.js';
+import { findPlayerIdentity } from '../src/player-identities.js';
+import { findOpprPlayerRankingByPlayerId } from '../src/oppr-rankings.js';
+import { createTournamentInput } from './factories/tournament.factory.js';
+import { createPlayerInput } from './factories/player.factory.js';
+
+describe('tournament imports', () => {
+  describe('importTournamentResults', () => {
+    it('should create the players, tournament and standings', async () => {
+      const existing = await createPlayer(createPlayerInput({ eventCount: 4 }));
+      const date = new Date('2024-07-01');
+
+      const { tournament, createdPlayers } = await importTournamentResults({
+        tournament: createTournamentInput({ date }),
+        newPlayers: new Map([['name:someone new', { name: 'Someone New' }]]),
+        standings: [
+          { newPlayerKey: 'name:someone new', position: 1, isFinals: true },
+          { playerId: existing.id, position: 1 },
+          { newPlayerKey: 'name:someone new', position: 2 },
+        ],
+        externalIds: new Map([[existing.id, 'league:7']]),
+      });
+
+      const created = createdPlayers.get('name:someone new');
+      expect(created?.name).toBe('Someone New');
+      expect(created?.playerNumber).toBeGreaterThanOrEqual(10000);
+
+      const standings = await prisma.standing.findMany({
+        where: { tournamentId: tournament.id },
+        orderBy: [{ isFinals: 'desc' }, { position: 'asc' }],
+      });
+      expect(standings.map((s) => [s.playerId, s.position, s.isFinals])).toEqual([
+        [created?.id, 1, true],
+        [existing.id, 1, false],
+        [created?.id, 2, false],
+      ]);
+
+      // The event counts once for a player of both stages
+      expect(await findPlayerById(created!.id)).toMatchObject({
+        eventCount: 1,
+        lastEventDate: date,
+      });
+      expect((await findPlayerById(existing.id))?.eventCount).toBe(5);
+      expect((await findPlayerIdentity('league', '7'))?.status).toBe('UNVERIFIED');
+      expect(await findOpprPlayerRankingByPlayerId(created!.id)).not.toBeNull();
+    });
+
+    it('should recalculate the tournament in the same transaction', async () => {
+      const calculator: TournamentPointsCalculator = ({ standings }) => ({
+        values: { firstPlaceValue: standings.length * 10 },
+        standings: [],
+      });
+
+      const { tournament } = await importTournamentResults(
+        {
+          tournament: createTournamentInput(),
+          newPlayers: new Map([['a', {}]]),
+          standings: [{ newPlayerKey: 'a', position: 1 }],
+        },
+        { recalculate: calculator },
+      );
+
+      expect((await findTournamentById(tournament.id))?.firstPlaceValue).toBe(10);
+    });
+
+    it('should write nothing when the recalculation fails', async () => {
+      const players = await countPlayers();
+      const failing: TournamentPointsCalculator = () => {
+        throw new Error('calculation failed');
+      };
+
+      await expect(
+        importTournamentResults(
+          {
+            tournament: createTournamentInput(),
+            newPlayers: new Map([['a', {}]]),
+            standings: [{ newPlayerKey: 'a', position: 1 }],
+          },
+          { recalculate: failing },
+        ),
+      ).rejects.toThrow('calculation failed');
+
+      expect(await countTournaments()).toBe(0);
+      expect(await countPlayers()).toBe(players);
+    });
+  });
+});
@@ -55,6 +55,7 @@ describe('tournaments', () => {
         tgp: 95,
         eventBoosterMultiplier: 1.5,
         firstPlaceValue: 200,
+        rulesetVersion: '2026.1',
         allowsOptOut: true,
         tgpConfig: { format: 'test' },
       });
@@ -70,6 +71,7 @@ describe('tournaments', () => {
       expect(tournament.tgp).toBe(95);
       expect(tournament.eventBoosterMultiplier).toBe(1.5);
       expect(tournament.firstPlaceValue).toBe(200);
+      expect(tournament.rulesetVersion).toBe('2026.1');
       expect(tournament.allowsOptOut).toBe(true);
       expect(tournament.tgpConfig).toEqual({ format: 'test' });
     });
@@ -651,6 +653,41 @@ describe('tournaments', () => {
       expect(stats!.lowestPoints).toBe(50);
     });
 
+    it('should count a finalist once, with their finals standing', async () => {
+      const tournament = await createTournament(createTournamentInput());
+      const finalist = await createPlayer(createPlayerInput());
+      const qualifier = await createPlayer(createPlayerInput());
+
+      await createStanding(
+        createStandingInput(finalist.id, tournament.id, {
+          position: 1,
+          totalPoints: 100,
+          efficiency: 1,
+        }),
+      );
+      await createStanding(
+        createStandingInput(finalist.id, tournament.id, {
+          position: 1,
+          isFinals: true,
+          totalPoints: 100,
+          efficiency: 1,
+        }),
+      );
+      await createStanding(
+        createStandingInput(qualifier.id, tournament.id, {
+          position: 2,
+          totalPoints: 50,
+          efficiency: 0.5,
+        }),
+      );
+
+      const stats = await getTournamentStats(tournament.id);
+
+      expect(stats!.playerCount).toBe(2);
+      expect(stats!.averagePoints).toBe(75);
+      expect(stats!.averageEfficiency).toBe(0.75);
+    });
+
     it('should include tournament data', async () => {
       const tournament = await createTournament(createTournamentInput({ name: 'Test Tournament' }));
 
@@ -1,4 +1,4 @@
-import type { Player, PlayerResult, Tournament } from '@opprs/core';
+import type { GameResult, Player, PlayerResult, Tournament } from '@opprs/core';
 import type {
   MatchplayTournament,
   MatchplayStanding,
@@ -7,6 +7,7 @@ import type {
   MatchplayRound,
   MatchplayRating,
   MatchplayListResponse,
+  MatchplayPaginatedResponse,
   MatchplaySingleResponse,
 } from './types/api-responses.js';
 import type {
@@ -18,6 +19,9 @@ import type {
   PlayerTransformOptions,
   TournamentGame,
   TournamentRound,
+  TGPDerivation,
+  TournamentStage,
+  TournamentStageOptions,
 } from './types/client-options.js';
 import {
   MatchplayApiError,
@@ -30,7 +34,9 @@ import {
   toOPPRTournament,
   toOPPRPlayer,
   toOPPRResults,
+  toOPPRGameResults,
   ratingToPlayer,
+  deriveTGPConfig,
 } from './transformers/index.js';
 
 const DEFAULT_BASE_URL = 'https://app.matchplay.events/api';
@@ -176,6 +182,17 @@ export class MatchplayClient {
     return toOPPRTournament(tournamentResponse.data, standings, options);
   }
 
+  /**
+   * Get the ID of the tournament linked to a tournament, such as the finals
+   * stage of a qualifying tournament. Returns null when there is none.
+   */
+  async getLinkedTournamentId(id: number): Promise<number | null> {
+    const response = await this.request<MatchplaySingleResponse<MatchplayTournament>>(
+      `/tournaments/${id}`
+    );
+    return response.data.linkedTournamentId ?? null;
+  }
+
   /**
    * Get tournament standings as OPPR PlayerResults
    */
@@ -204,14 +221,23 @@ export class MatchplayClient {
 
   /**
    * Get tournament games
+   * Follows pagination until the last page when the response is paginated.
    */
   async getTournamentGames(id: number, params: GameListParams = {}): Promise<TournamentGame[]> {
-    const queryString = this.buildQueryString(params as Record<string, unknown>);
-    const response = await this.request<MatchplayListResponse<MatchplayGame>>(
-      `/tournaments/${id}/games${queryString}`
-    );
+    const games: MatchplayGame[] = [];
+    for (let page = 1; ; page++) {
+      const queryString = this.buildQueryString(page > 1 ? { ...params, page } : { ...params });
+      const response = await this.request<
+        MatchplayListResponse<MatchplayGame> | MatchplayPaginatedResponse<MatchplayGame>
+      >(`/tournaments/${id}/games${queryString}`);
+      games.push(...response.data);
+
+      if (!('meta' in response) || response.meta.currentPage >= response.meta.lastPage) {
+        break;
+      }
+    }
 
-    return response.data.map((game) => ({
+    return games.map((game) => ({
       gameId: game.gameId,
       roundId: game.roundId,
       arenaId: game.arenaId,
@@ -240,6 +266,67 @@ export class MatchplayClient {
     }));
   }
 
+  /**
+   * Get completed games from completed rounds as OPPR GameResults
+   * Returns an empty array when the tournament has no recorded games.
+   */
+  async getTournamentGameResults(id: number): Promise<GameResult[]> {
+    const [games, rounds] = await Promise.all([
+      this.getTournamentGames(id, { status: 'completed' }),
+      this.getTournamentRounds(id),
+    ]);
+    return toOPPRGameResults(games, rounds);
+  }
+
+  /**
+   * Derive a tournament's TGP configuration from its rounds and games
+   * Returns the configuration with a report of which values were measured or inferred.
+   */
+  async getTournamentTGP(id: number): Promise<TGPDerivation> {
+    const [tournamentResponse, standings, games, rounds] = await Promise.all([
+      this.request<MatchplaySingleResponse<MatchplayTournament>>(`/tournaments/${id}`),
+      this.getRawStandings(id),
+      this.getTournamentGames(id, { status: 'completed' }),
+      this.getTournamentRounds(id),
+    ]);
+
+    return deriveTGPConfig(tournamentResponse.data, standings, games, rounds);
+  }
+
+  /**
+   * Get a tournament with its results, standings, game results, linked
+   * tournament and derived TGP configuration
+   * Fetches the tournament, standings, completed games and rounds once each.
+   */
+  async getTournamentStage(
+    id: number,
+    options: TournamentStageOptions = {}
+  ): Promise<TournamentStage> {
+    const gameData = Promise.all([
+      this.getTournamentGames(id, { status: 'completed' }),
+      this.getTournamentRounds(id),
+    ]);
+    const [tournamentResponse, standings, [games, rounds]] = await Promise.all([
+      this.request<MatchplaySingleResponse<MatchplayTournament>>(`/tournaments/${id}`),
+      this.getRawStandings(id),
+      options.optionalGames
+        ? gameData.catch((): [TournamentGame[], TournamentRound[]] => [[], []])
+        : gameData,
+    ]);
+
+    const tournament = toOPPRTournament(tournamentResponse.data, standings);
+    return {
+      tournament,
+      linkedTournamentId: tournamentResponse.data.linkedTournamentId ?? null,
+      results: toOPPRResults(standings),
+      standings,
+      games: toOPPRGameResults(games, rounds),
+      tgp: deriveTGPConfig(tournamentResponse.data, standings, games, rounds, {
+        ballAdjustments: options.ballAdjustments?.(tournament.date),
+      }),
+    };
+  }
+
   // ==================== Player/User Methods ====================
 
   /**
@@ -11,6 +11,9 @@ export {
   TransformError,
 } from './errors.js';
 
+// Transformers
+export { deriveTGPConfig, mergeStageTGPConfigs } from './transformers/index.js';
+
 // Public types
 export type {
   MatchplayClientOptions,
@@ -22,6 +25,14 @@ export type {
   PlayerTransformOptions,
   TournamentGame,
   TournamentRound,
+  TGPValueSource,
+  TGPFieldReport,
+  TGPConfidenceReport,
+  TGPDerivation,
+  BallCountAdjustments,
+  TGPDerivationOptions,
+  TournamentStageOptions,
+  TournamentStage,
 } from './types/index.js';
 
 // API response types (for consumers who need raw data)
@@ -32,6 +43,7 @@ export type {
   Player,
   Tournament,
   PlayerResult,
+  GameResult,
   TGPConfig,
   TournamentFormatType,
   EventBoosterType,
@@ -0,0 +1,58 @@
+import type { GameResult } from '@opprs/core';
+import type { TournamentGame, TournamentRound } from '../types/client-options.js';
+
+/**
+ * Get a game's placement values, higher is better
+ * Matchplay points are used when every player has them, since they follow the
+ * format's placement order; otherwise scores, which rank higher as better.
+ */
+function getPlacementValues(game: TournamentGame): number[] | null {
+  const complete = (values: (number | null)[]): values is number[] =>
+    values.length === game.players.length && values.every((v) => v !== null);
+
+  if (complete(game.points)) return game.points;
+  if (complete(game.scores)) return game.scores;
+  return null;
+}
+
+/**
+ * Transform Matchplay games to OPPR GameResults
+ *
+ * Each completed game with at least two players becomes one GameResult, with
+ * players placed by Matchplay points (or by score when points are missing).
+ * Equal values share a placement. Games without complete results are skipped.
+ * Player IDs match toOPPRResults: the user ID when available, otherwise the
+ * tournament player ID.
+ *
+ * @param games - Tournament games
+ * @param rounds - Optional tournament rounds; games from rounds that are not completed are skipped
+ */
+export function toOPPRGameResults(
+  games: TournamentGame[],
+  rounds?: TournamentRound[]
+): GameResult[] {
+  const completedRounds = rounds
+    ? new Set(rounds.filter((r) => r.status === 'completed').map((r) => r.roundId))
+    : null;
+
+  const results: GameResult[] = [];
+  for (const game of games) {
+    if (game.status !== 'completed' || game.players.length < 2) continue;
+    if (completedRounds && !completedRounds.has(game.roundId)) continue;
+
+    const values = getPlacementValues(game);
+    if (!values) continue;
+
+    results.push({
+      placements: game.players.map((player, i) => {
+        const value = values[i] ?? 0;
+        return {
+          playerId: player.userId ? String(player.userId) : String(player.playerId),
+          placement: 1 + values.filter((other) => other > value).length,
+        };
+      }),
+    });
+  }
+
+  return results;
+}
@@ -1,3 +1,9 @@
 export { toOPPRPlayer, toOPPRPlayers, standingToPlayer, ratingToPlayer } from './player.js';
-export { toOPPRTournament, inferTGPConfig } from './tournament.js';
+export {
+  toOPPRTournament,
+  inferTGPConfig,
+  deriveTGPConfig,
+  mergeStageTGPConfigs,
+} from './tournament.js';
 export { toOPPRResults, sortStandingsByPosition } from './standings.js';
+export { toOPPRGameResults } from './games.js';
@@ -1,6 +1,14 @@
 import type { Tournament, TGPConfig, TournamentFormatType, EventBoosterType } from '@opprs/core';
+import { DEFAULT_CONSTANTS } from '@opprs/core';
 import type { MatchplayTournament, MatchplayStanding } from '../types/api-responses.js';
-import type { TransformOptions } from '../types/client-options.js';
+import type {
+  TransformOptions,
+  TournamentGame,
+  TournamentRound,
+  TGPFieldReport,
+  TGPDerivation,
+  TGPDerivationOptions,
+} from '../types/client-options.js';
 import { standingToPlayer } from './player.js';
 
 const DEFAULT_OPTIONS: Required<TransformOptions> = {
@@ -11,25 +19,39 @@ const DEFAULT_OPTIONS: Required<TransformOptions> = {
   eventBooster: 'none',
 };
 
+/**
+ * Matchplay tournament types with a known OPPR format type
+ */
+const FORMAT_TYPES: Record<string, TournamentFormatType> = {
+  group_matchplay: 'match-play',
+  matchplay: 'match-play',
+  knockout: 'single-elimination',
+  single_elimination: 'single-elimination',
+  double_elimination: 'double-elimination',
+  best_game: 'best-game',
+  best_of: 'best-game',
+  flip_frenzy: 'flip-frenzy',
+  pingolf: 'pin-golf',
+  pin_golf: 'pin-golf',
+  // Add more mappings as needed
+};
+
+/**
+ * Formats where players meet in head-to-head games, so a game with a single
+ * player is a bye
+ */
+const HEAD_TO_HEAD_FORMATS: TournamentFormatType[] = [
+  'match-play',
+  'single-elimination',
+  'double-elimination',
+  'flip-frenzy',
+];
+
 /**
  * Map Matchplay tournament type to OPPR format type
  */
 function mapTournamentType(matchplayType: string): TournamentFormatType {
-  const typeMap: Record<string, TournamentFormatType> = {
-    group_matchplay: 'match-play',
-    matchplay: 'match-play',
-    knockout: 'single-elimination',
-    single_elimination: 'single-elimination',
-    double_elimination: 'double-elimination',
-    best_game: 'best-game',
-    best_of: 'best-game',
-    flip_frenzy: 'flip-frenzy',
-    pingolf: 'pin-golf',
-    pin_golf: 'pin-golf',
-    // Add more mappings as needed
-  };
-
-  return typeMap[matchplayType.toLowerCase()] ?? 'hybrid';
+  return FORMAT_TYPES[matchplayType.toLowerCase()] ?? 'hybrid';
 }
 
 /**
@@ -68,6 +90,216 @@ export function inferTGPConfig(
   return tgpConfig;
 }
 
+/**
+ * Read the ball count from a tournament's name or description, e.g. "3-ball"
+ */
+function detectBallCount(tournament: MatchplayTournament): number | null {
+  const text = `${tournament.name} ${tournament.description ?? ''}`;
+  const match = /\b([1-5])[- ]?balls?\b/i.exec(text);
+  return match?.[1] ? Number(match[1]) : null;
+}
+
+/**
+ * Derive a TGP configuration from a tournament's completed rounds and games
+ *
+ * Starts from inferTGPConfig and replaces its estimates with measurements
+ * wherever Matchplay has the data:
+ * - meaningful games: the most rounds any player played, counting each bye
+ *   a player received as a game of that round, so byes handed to every player
+ *   in turn do not lower the count
+ * - group size: the most common number of players per game
+ * - byes: single-player games in head-to-head formats and, in match play,
+ *   players missing from a completed round
+ * - ball count: read from the tournament name or description when stated,
+ *   and adjusted by the given ruleset's ball count adjustments
+ *
+ * The confidence report lists which values were measured and which were
+ * inferred.
+ *
+ * @param tournament - Matchplay tournament
+ * @param standings - Tournament standings
+ * @param games - Tournament games; only completed games are measured
+ * @param rounds - Optional tournament rounds; games from rounds that are not completed are skipped
+ * @param options - Derivation options
+ */
+export function deriveTGPConfig(
+  tournament: MatchplayTournament,
+  standings: MatchplayStanding[],
+  games: TournamentGame[],
+  rounds?: TournamentRound[],
+  options: TGPDerivationOptions = {}
+): TGPDerivation {
+  const inferred = inferTGPConfig(tournament, standings);
+  const formatType = inferred.finals.formatType;
+  const fields: TGPFieldReport[] = [];
+
+  const completedRounds = rounds
+    ? new Set(rounds.filter((r) => r.status === 'completed').map((r) => r.roundId))
+    : null;
+  const played = games.filter(
+    (game) => game.status === 'completed' && (!completedRounds || completedRounds.has(game.roundId))
+  );
+  const measured = played.filter((game) => game.players.length >= 2);
+
+  const byesPerPlayer = new Map<number, number>();
+  const addBye = (playerId: number): void => {
+    byesPerPlayer.set(playerId, (byesPerPlayer.get(playerId) ?? 0) + 1);
+  };
+  if (HEAD_TO_HEAD_FORMATS.includes(formatType)) {
+    for (const game of played.filter((g) => g.players.length < 2)) {
+      game.players.forEach((p) => addBye(p.playerId));
+    }
+  }
+  if (formatType === 'match-play') {
+    for (const roundId of new Set(played.map((game) => game.roundId))) {
+      const inRound = new Set(
+        played
+          .filter((game) => game.roundId === roundId)
+          .flatMap((game) => game.players.map((p) => p.playerId))
+      );
+      standings.filter((s) => !inRound.has(s.playerId)).forEach((s) => addBye(s.playerId));
+    }
+  }
+  const byes = [...byesPerPlayer.values()].reduce((total, count) => total + count, 0);
+
+  const type = tournament.type.toLowerCase();
+  fields.push(
+    FORMAT_TYPES[type]
+      ? { field: 'finals.formatType', source: 'measured', detail: `Matchplay format '${type}'` }
+      : {
+          field: 'finals.formatType',
+          source: 'inferred',
+          detail: `Unknown Matchplay format '${type}', treated as hybrid`,
+        }
+  );
+
+  const gamesPerPlayer = new Map<number, number>(byesPerPlayer);
+  const groupSizes = new Map<number, number>();
+  for (const game of measured) {
+    for (const player of game.players) {
+      gamesPerPlayer.set(player.playerId, (gamesPerPlayer.get(player.playerId) ?? 0) + 1);
+    }
+    groupSizes.set(game.players.length, (groupSizes.get(game.players.length) ?? 0) + 1);
+  }
+
+  const finals: TGPConfig['finals'] = { ...inferred.finals };
+  if (measured.length > 0) {
+    finals.meaningfulGames = Math.max(...gamesPerPlayer.values());
+    fields.push({
+      field: 'finals.meaningfulGames',
+      source: 'measured',
+      detail:
+        byes > 0
+          ? `Most games played by a player in ${measured.length} completed games, counting ${byes} byes as games`
+          : `Most games played by a player in ${measured.length} completed games`,
+    });
+
+    const [groupSize] = [...groupSizes.entries()].reduce((most, entry) =>
+      entry[1] > most[1] ? entry : most
+    );
+    finals.fourPlayerGroups = groupSize === 4;
+    finals.threePlayerGroups = groupSize === 3;
+    fields.push({
+      field: 'finals.groupSize',
+      source: 'measured',
+      detail: `Most games had ${groupSize} players`,
+    });
+  } else {
+    fields.push(
+      {
+        field: 'finals.meaningfulGames',
+        source: 'inferred',
+        detail: 'No completed games, estimated from format and player count',
+      },
+      {
+        field: 'finals.groupSize',
+        source: 'inferred',
+        detail: 'No completed games, inferred from the Matchplay format',
+      }
+    );
+  }
+
+  fields.push(
+    standings.length > 0
+      ? {
+          field: 'finals.finalistCount',
+          source: 'measured',
+          detail: `${standings.length} players in the standings`,
+        }
+      : { field: 'finals.finalistCount', source: 'inferred', detail: 'No standings' }
+  );
+
+  const tgpConfig: TGPConfig = { ...inferred, finals };
+  const ballCount = detectBallCount(tournament);
+  if (ballCount !== null) {
+    const adjustments = options.ballAdjustments ?? DEFAULT_CONSTANTS.TGP.BALL_ADJUSTMENTS;
+    tgpConfig.ballCountAdjustment =
+      ballCount === 1
+        ? adjustments.ONE_BALL
+        : ballCount === 2
+          ? adjustments.TWO_BALL
+          : adjustments.THREE_PLUS_BALL;
+    fields.push({
+      field: 'ballCountAdjustment',
+      source: 'inferred',
+      detail: `${ballCount}-ball format named in the tournament name or description`,
+    });
+  } else {
+    fields.push({
+      field: 'ballCountAdjustment',
+      source: 'inferred',
+      detail: 'Matchplay does not record ball count, 3 or more balls assumed',
+    });
+  }
+
+  const sourceOf = (field: string): TGPFieldReport['source'] | undefined =>
+    fields.find((f) => f.field === field)?.source;
+  const level =
+    sourceOf('finals.meaningfulGames') === 'inferred'
+      ? 'low'
+      : sourceOf('finals.formatType') === 'measured' && sourceOf('finals.groupSize') === 'measured'
+        ? 'high'
+        : 'medium';
+
+  return {
+    tgpConfig,
+    confidence: { level, fields, gamesMeasured: measured.length, byes },
+  };
+}
+
+/**
+ * Combine the TGP configurations inferred for the stages of a multi-stage event
+ *
+ * Matchplay runs qualifying and finals as separate, linked tournaments, and
+ * inferTGPConfig describes each one as a finals-only format. The qualifying
+ * stage's format becomes limited qualifying. Finals are valued by the first
+ * (A division) finals stage, the one the winner plays, and count the
+ * finalists of every finals stage.
+ *
+ * @param qualifying - TGP config inferred for the qualifying stage
+ * @param finals - TGP configs inferred for the finals stages, A division first
+ * @returns TGP config of the whole event
+ */
+export function mergeStageTGPConfigs(qualifying: TGPConfig, finals: TGPConfig[]): TGPConfig {
+  const [aDivision] = finals;
+  if (!aDivision) {
+    return qualifying;
+  }
+
+  return {
+    qualifying: {
+      type: 'limited',
+      meaningfulGames: qualifying.finals.meaningfulGames,
+      fourPlayerGroups: qualifying.finals.fourPlayerGroups,
+      threePlayerGroups: qualifying.finals.threePlayerGroups,
+    },
+    finals: {
+      ...aDivision.finals,
+      finalistCount: finals.reduce((total, stage) => total + (stage.finals.finalistCount ?? 0), 0),
+    },
+  };
+}
+
 /**
  * Estimate meaningful games based on format and player count
  */
@@ -1,4 +1,12 @@
-import type { EventBoosterType } from '@opprs/core';
+import type {
+  EventBoosterType,
+  GameResult,
+  OPPRConfig,
+  PlayerResult,
+  TGPConfig,
+  Tournament,
+} from '@opprs/core';
+import type { MatchplayStanding } from './api-responses.js';
 
 /**
  * Configuration options for MatchplayClient
@@ -172,3 +180,92 @@ export interface TournamentRound {
   startedAt: Date | null;
   completedAt: Date | null;
 }
+
+/**
+ * Whether a TGP configuration value was measured from Matchplay data or inferred
+ */
+export type TGPValueSource = 'measured' | 'inferred';
+
+/**
+ * How one TGP configuration value was derived
+ */
+export interface TGPFieldReport {
+  /** TGP configuration value, e.g. 'finals.meaningfulGames' ('finals.groupSize' covers the group flags) */
+  field: string;
+  source: TGPValueSource;
+  /** What the value was measured from, or why it had to be inferred */
+  detail: string;
+}
+
+/**
+ * Confidence report for a derived TGP configuration
+ */
+export interface TGPConfidenceReport {
+  /**
+   * 'high' when the format, meaningful games and group size were all measured,
+   * 'low' when meaningful games had to be estimated, 'medium' otherwise
+   */
+  level: 'high' | 'medium' | 'low';
+  fields: TGPFieldReport[];
+  /** Completed games with at least two players that were measured */
+  gamesMeasured: number;
+  /** Byes found in completed rounds */
+  byes: number;
+}
+
+/**
+ * TGP configuration derived from a tournament's rounds and games
+ */
+export interface TGPDerivation {
+  tgpConfig: TGPConfig;
+  confidence: TGPConfidenceReport;
+}
+
+/**
+ * Ball count adjustments applied to a derived TGP configuration
+ */
+export type BallCountAdjustments = OPPRConfig['TGP']['BALL_ADJUSTMENTS'];
+
+/**
+ * Options for deriving a TGP configuration
+ */
+export interface TGPDerivationOptions {
+  /**
+   * Ball count adjustments of the ruleset the tournament is valued under
+   * @default DEFAULT_CONSTANTS.TGP.BALL_ADJUSTMENTS
+   */
+  ballAdjustments?: BallCountAdjustments;
+}
+
+/**
+ * Options for fetching a tournament stage
+ */
+export interface TournamentStageOptions {
+  /**
+   * Ball count adjustments of the ruleset in effect on the tournament's date
+   * @default DEFAULT_CONSTANTS.TGP.BALL_ADJUSTMENTS
+   */
+  ballAdjustments?: (date: Date) => BallCountAdjustments;
+
+  /**
+   * When the games or rounds cannot be fetched, return the stage without
+   * games and with the TGP configuration inferred instead of failing
+   * @default false
+   */
+  optionalGames?: boolean;
+}
+
+/**
+ * A tournament with its results, games and derived TGP configuration, such
+ * as one stage of a multi-stage event
+ */
+export interface TournamentStage {
+  tournament: Tournament;
+  /** ID of the linked tournament, such as the finals of a qualifying tournament */
+  linkedTournamentId: number | null;
+  results: PlayerResult[];
+  standings: MatchplayStanding[];
+  /** Completed games from completed rounds */
+  games: GameResult[];
+  tgp: TGPDerivation;
+}
@@ -9,6 +9,14 @@ export type {
   PlayerTransformOptions,
   TournamentGame,
   TournamentRound,
+  TGPValueSource,
+  TGPFieldReport,
+  TGPConfidenceReport,
+  TGPDerivation,
+  BallCountAdjustments,
+  TGPDerivationOptions,
+  TournamentStageOptions,
+  TournamentStage,
 } from './client-options.js';
 
 // Internal API response types (not re-exported from main index)
@@ -178,6 +178,26 @@ describe('MatchplayClient', () => {
     });
   });
 
+  describe('getLinkedTournamentId', () => {
+    it('should return the linked tournament ID', async () => {
+      const client = new MatchplayClient();
+      mockFetch({
+        ok: true,
+        status: 200,
+        data: { data: { ...sampleTournament, linkedTournamentId: 12346 } },
+      });
+
+      expect(await client.getLinkedTournamentId(12345)).toBe(12346);
+    });
+
+    it('should return null without a linked tournament', async () => {
+      const client = new MatchplayClient();
+      mockFetch({ ok: true, status: 200, data: { data: sampleTournament } });
+
+      expect(await client.getLinkedTournamentId(12345)).toBeNull();
+    });
+  });
+
   describe('getTournamentResults', () => {
     it('should fetch and transform standings to results', async () => {
       const client = new MatchplayClient();
@@ -203,6 +223,35 @@ describe('MatchplayClient', () => {
       expect(games[0].gameId).toBe(10001);
       expect(games[0].completedAt).toBeInstanceOf(Date);
     });
+
+    it('should fetch every page of paginated games', async () => {
+      const client = new MatchplayClient();
+      const meta = { lastPage: 2, perPage: 1, total: 2 };
+      globalThis.fetch = vi.fn().mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () =>
+            Promise.resolve(
+              url.includes('page=2')
+                ? {
+                    data: [{ ...sampleGames[0], gameId: 10002 }],
+                    meta: { ...meta, currentPage: 2 },
+                  }
+                : { data: sampleGames, meta: { ...meta, currentPage: 1 } }
+            ),
+        })
+      );
+
+      const games = await client.getTournamentGames(12345, { status: 'completed' });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('/tournaments/12345/games?status=completed&page=2'),
+        expect.any(Object)
+      );
+      expect(games.map((game) => game.gameId)).toEqual([10001, 10002]);
+    });
   });
 
   describe('getTournamentRounds', () => {
@@ -218,6 +267,102 @@ describe('MatchplayClient', () => {
     });
   });
 
+  describe('getTournamentGameResults', () => {
+    it('should fetch completed games and rounds as game results', async () => {
+      const client = new MatchplayClient();
+      globalThis.fetch = vi.fn().mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () =>
+            Promise.resolve({ data: url.includes('/rounds') ? sampleRounds : sampleGames }),
+        })
+      );
+
+      const results = await client.getTournamentGameResults(12345);
+
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/tournaments/12345/games?status=completed'),
+        expect.any(Object)
+      );
+      expect(results).toHaveLength(1);
+      expect(results[0].placements.map((p) => p.playerId)).toEqual([
+        '1001',
+        '1002',
+        '1003',
+        '1004',
+      ]);
+      expect(results[0].placements.map((p) => p.placement)).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe('getTournamentTGP', () => {
+    it('should derive TGP from completed games and rounds', async () => {
+      const client = new MatchplayClient();
+      globalThis.fetch = vi.fn().mockImplementation((url: string) => {
+        let data: unknown = { data: sampleTournament };
+        if (url.includes('/standings')) data = sampleStandings;
+        else if (url.includes('/games')) data = { data: sampleGames };
+        else if (url.includes('/rounds')) data = { data: sampleRounds };
+        return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(data) });
+      });
+
+      const derivation = await client.getTournamentTGP(12345);
+
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/tournaments/12345/games?status=completed'),
+        expect.any(Object)
+      );
+      expect(derivation.tgpConfig.finals.meaningfulGames).toBe(1);
+      expect(derivation.tgpConfig.finals.fourPlayerGroups).toBe(true);
+      expect(derivation.confidence.gamesMeasured).toBe(1);
+    });
+  });
+
+  describe('getTournamentStage', () => {
+    it('should fetch the tournament, standings, games and rounds once each', async () => {
+      const client = new MatchplayClient();
+      globalThis.fetch = vi.fn().mockImplementation((url: string) => {
+        let data: unknown = { data: { ...sampleTournament, linkedTournamentId: 12346 } };
+        if (url.includes('/standings')) data = sampleStandings;
+        else if (url.includes('/games')) data = { data: sampleGames };
+        else if (url.includes('/rounds')) data = { data: sampleRounds };
+        return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(data) });
+      });
+
+      const stage = await client.getTournamentStage(12345, {
+        ballAdjustments: () => ({ ONE_BALL: 0.5, TWO_BALL: 0.75, THREE_PLUS_BALL: 1 }),
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(4);
+      expect(stage.tournament.players).toHaveLength(sampleStandings.length);
+      expect(stage.linkedTournamentId).toBe(12346);
+      expect(stage.results).toHaveLength(sampleStandings.length);
+      expect(stage.standings).toEqual(sampleStandings);
+      expect(stage.games).toHaveLength(1);
+      expect(stage.tgp.tgpConfig.finals.fourPlayerGroups).toBe(true);
+    });
+
+    it('should return a stage without games when they are optional and unavailable', async () => {
+      const client = new MatchplayClient();
+      globalThis.fetch = vi.fn().mockImplementation((url: string) => {
+        if (url.includes('/games')) {
+          return Promise.resolve({ ok: false, status: 500, json: () => Promise.resolve({}) });
+        }
+        let data: unknown = { data: sampleTournament };
+        if (url.includes('/standings')) data = sampleStandings;
+        else if (url.includes('/rounds')) data = { data: sampleRounds };
+        return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(data) });
+      });
+
+      await expect(client.getTournamentStage(12345)).rejects.toThrow(MatchplayApiError);
+
+      const stage = await client.getTournamentStage(12345, { optionalGames: true });
+      expect(stage.games).toEqual([]);
+      expect(stage.tgp.confidence.level).toBe('low');
+    });
+  });
+
   describe('getPlayer', () => {
     it('should fetch and transform user to player', async () => {
       const client = new MatchplayClient();
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { toOPPRGameResults } from '../../src/transformers/games.js';
+import type { GameResult } from '@opprs/core';
+import type { TournamentGame, TournamentRound } from '../../src/types/client-options.js';
+
+const createGame = (overrides: Partial<TournamentGame> = {}): TournamentGame => ({
+  gameId: 10001,
+  roundId: 1,
+  arenaId: 1,
+  status: 'completed',
+  players: [
+    { playerId: 1, name: 'Alice Johnson', userId: 1001 },
+    { playerId: 2, name: 'Bob Smith', userId: 1002 },
+    { playerId: 3, name: 'Charlie Brown', userId: 1003 },
+    { playerId: 4, name: 'Diana Ross' },
+  ],
+  scores: [800000, 1500000, 500000, 1200000],
+  points: [3, 7, 1, 5],
+  completedAt: new Date('2024-01-15T19:15:00Z'),
+  ...overrides,
+});
+
+const placementsOf = (
+  games: TournamentGame[],
+  rounds?: TournamentRound[]
+): GameResult['placements'][] => toOPPRGameResults(games, rounds).map((game) => game.placements);
+
+describe('toOPPRGameResults', () => {
+  it('should place players by Matchplay points', () => {
+    expect(placementsOf([createGame()])).toEqual([
+      [
+        { playerId: '1001', placement: 3 },
+        { playerId: '1002', placement: 1 },
+        { playerId: '1003', placement: 4 },
+        { playerId: '4', placement: 2 },
+      ],
+    ]);
+  });
+
+  it('should prefer Matchplay points to scores', () => {
+    // Formats where lower scores win still award the most points to the winner
+    const game = createGame({ scores: [72, 80, 68, 75], points: [5, 1, 7, 3] });
+
+    expect(placementsOf([game])[0]?.map((p) => p.placement)).toEqual([2, 4, 1, 3]);
+  });
+
+  it('should use scores when Matchplay points are missing', () => {
+    const game = createGame({ scores: [100, 300, 500, 700], points: [null, null, null, null] });
+
+    expect(placementsOf([game])[0]?.map((p) => p.placement)).toEqual([4, 3, 2, 1]);
+  });
+
+  it('should give equal results the same placement', () => {
+    const game = createGame({ points: [1, 3, 3, 0] });
+
+    expect(placementsOf([game])[0]?.map((p) => p.placement)).toEqual([3, 1, 1, 4]);
+  });
+
+  it('should skip games without complete results', () => {
+    const game = createGame({ scores: [100, null, 50, 25], points: [3, null, 1, 0] });
+
+    expect(toOPPRGameResults([game])).toEqual([]);
+  });
+
+  it('should skip unfinished and single-player games', () => {
+    const games = [
+      createGame({ status: 'active' }),
+      createGame({
+        players: [{ playerId: 1, name: 'Alice Johnson' }],
+        scores: [100],
+        points: [1],
+      }),
+    ];
+
+    expect(toOPPRGameResults(games)).toEqual([]);
+  });
+
+  it('should skip games from rounds that are not completed', () => {
+    const rounds: TournamentRound[] = [
+      { roundId: 1, name: 'Round 1', status: 'completed', startedAt: null, completedAt: null },
+      { roundId: 2, name: 'Round 2', status: 'started', startedAt: null, completedAt: null },
+    ];
+
+    const results = toOPPRGameResults(
+      [createGame({ roundId: 1 }), createGame({ roundId: 2 })],
+      rounds
+    );
+
+    expect(results).toHaveLength(1);
+  });
+});
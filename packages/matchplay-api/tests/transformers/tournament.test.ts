@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { toOPPRTournament, inferTGPConfig } from '../../src/transformers/tournament.js';
+import {
+  toOPPRTournament,
+  inferTGPConfig,
+  deriveTGPConfig,
+  mergeStageTGPConfigs,
+} from '../../src/transformers/tournament.js';
+import type {
+  TournamentGame,
+  TournamentRound,
+  TGPValueSource,
+} from '../../src/types/client-options.js';
 import { sampleTournament, sampleStandings } from '../fixtures/index.js';
 
 describe('inferTGPConfig', () => {
@@ -52,6 +62,152 @@ describe('inferTGPConfig', () => {
   });
 });
 
+describe('deriveTGPConfig', () => {
+  const createGame = (roundId: number, playerIds: number[]): TournamentGame => ({
+    gameId: roundId * 100 + (playerIds[0] ?? 0),
+    roundId,
+    arenaId: 1,
+    status: 'completed',
+    players: playerIds.map((playerId) => ({ playerId, name: `Player ${playerId}` })),
+    scores: playerIds.map(() => null),
+    points: playerIds.map(() => null),
+    completedAt: new Date('2024-01-15T19:15:00Z'),
+  });
+
+  const createRound = (roundId: number, status = 'completed'): TournamentRound => ({
+    roundId,
+    name: `Round ${roundId}`,
+    status,
+    startedAt: null,
+    completedAt: null,
+  });
+
+  const sourceOf = (
+    derivation: ReturnType<typeof deriveTGPConfig>,
+    field: string
+  ): TGPValueSource | undefined =>
+    derivation.confidence.fields.find((f) => f.field === field)?.source;
+
+  it('should measure meaningful games and 4-player groups from completed games', () => {
+    const games = [createGame(1, [1, 2, 3, 4]), createGame(2, [1, 2, 3, 4])];
+
+    const derivation = deriveTGPConfig(sampleTournament, sampleStandings, games, [
+      createRound(1),
+      createRound(2),
+    ]);
+
+    expect(derivation.tgpConfig.finals).toMatchObject({
+      formatType: 'match-play',
+      meaningfulGames: 2,
+      fourPlayerGroups: true,
+      threePlayerGroups: false,
+    });
+    expect(derivation.confidence).toMatchObject({ level: 'high', gamesMeasured: 2, byes: 0 });
+    expect(sourceOf(derivation, 'finals.meaningfulGames')).toBe('measured');
+  });
+
+  it('should detect 3-player groups and byes', () => {
+    const games = [createGame(1, [1, 2, 3]), createGame(2, [2, 3, 4])];
+
+    const derivation = deriveTGPConfig(sampleTournament, sampleStandings, games);
+
+    expect(derivation.tgpConfig.finals.meaningfulGames).toBe(2);
+    expect(derivation.tgpConfig.finals.threePlayerGroups).toBe(true);
+    expect(derivation.tgpConfig.finals.fourPlayerGroups).toBe(false);
+    expect(derivation.confidence.byes).toBe(2);
+  });
+
+  it('should count byes as games played when every player sits out a round', () => {
+    const games = [
+      createGame(1, [1, 2, 3]),
+      createGame(2, [1, 2, 4]),
+      createGame(3, [1, 3, 4]),
+      createGame(4, [2, 3, 4]),
+    ];
+
+    const derivation = deriveTGPConfig(sampleTournament, sampleStandings, games);
+
+    expect(derivation.tgpConfig.finals.meaningfulGames).toBe(4);
+    expect(derivation.confidence.byes).toBe(4);
+  });
+
+  it('should count single-player games in head-to-head formats as byes', () => {
+    const games = [createGame(1, [1, 2]), createGame(1, [3]), createGame(2, [1, 3])];
+
+    const derivation = deriveTGPConfig(
+      { ...sampleTournament, type: 'knockout' },
+      sampleStandings,
+      games
+    );
+
+    expect(derivation.tgpConfig.finals.meaningfulGames).toBe(2);
+    expect(derivation.confidence).toMatchObject({ gamesMeasured: 2, byes: 1 });
+  });
+
+  it('should skip pending games and games from rounds that are not completed', () => {
+    const games = [
+      createGame(1, [1, 2, 3, 4]),
+      createGame(2, [1, 2, 3, 4]),
+      { ...createGame(3, [1, 2, 3, 4]), status: 'active' as const },
+    ];
+
+    const derivation = deriveTGPConfig(sampleTournament, sampleStandings, games, [
+      createRound(1),
+      createRound(2, 'active'),
+      createRound(3),
+    ]);
+
+    expect(derivation.tgpConfig.finals.meaningfulGames).toBe(1);
+    expect(derivation.confidence.gamesMeasured).toBe(1);
+  });
+
+  it('should fall back to inferred values without completed games', () => {
+    const derivation = deriveTGPConfig(sampleTournament, sampleStandings, []);
+
+    expect(derivation.tgpConfig).toEqual(inferTGPConfig(sampleTournament, sampleStandings));
+    expect(derivation.confidence.level).toBe('low');
+    expect(sourceOf(derivation, 'finals.meaningfulGames')).toBe('inferred');
+    expect(sourceOf(derivation, 'finals.groupSize')).toBe('inferred');
+  });
+
+  it('should report an unknown format as inferred', () => {
+    const derivation = deriveTGPConfig(
+      { ...sampleTournament, type: 'custom_unknown_format' },
+      sampleStandings,
+      [createGame(1, [1, 2, 3, 4])]
+    );
+
+    expect(derivation.tgpConfig.finals.formatType).toBe('hybrid');
+    expect(sourceOf(derivation, 'finals.formatType')).toBe('inferred');
+    expect(derivation.confidence.level).toBe('medium');
+  });
+
+  it('should read the ball count from the tournament name', () => {
+    const derivation = deriveTGPConfig(
+      { ...sampleTournament, name: 'Monday 1-Ball Madness' },
+      sampleStandings,
+      []
+    );
+
+    expect(derivation.tgpConfig.ballCountAdjustment).toBe(0.33);
+    expect(
+      derivation.confidence.fields.find((f) => f.field === 'ballCountAdjustment')?.detail
+    ).toContain('1-ball');
+  });
+
+  it('should adjust the ball count with the given ruleset adjustments', () => {
+    const derivation = deriveTGPConfig(
+      { ...sampleTournament, name: 'Monday 1-Ball Madness' },
+      sampleStandings,
+      [],
+      undefined,
+      { ballAdjustments: { ONE_BALL: 0.5, TWO_BALL: 0.75, THREE_PLUS_BALL: 1 } }
+    );
+
+    expect(derivation.tgpConfig.ballCountAdjustment).toBe(0.5);
+  });
+});
+
 describe('toOPPRTournament', () => {
   it('should transform tournament with standings', () => {
     const tournament = toOPPRTournament(sampleTournament, sampleStandings);
@@ -99,3 +255,36 @@ describe('toOPPRTournament', () => {
     expect(tournament.tgpConfig.finals.finalistCount).toBe(0);
   });
 });
+
+describe('mergeStageTGPConfigs', () => {
+  const qualifying = inferTGPConfig(sampleTournament, sampleStandings);
+  const aFinals = inferTGPConfig({ ...sampleTournament, type: 'knockout' }, sampleStandings);
+  const bFinals = inferTGPConfig(
+    { ...sampleTournament, type: 'best_game' },
+    sampleStandings.slice(0, 2)
+  );
+
+  it('should use the qualifying stage format as limited qualifying', () => {
+    const config = mergeStageTGPConfigs(qualifying, [aFinals]);
+
+    expect(config.qualifying).toEqual({
+      type: 'limited',
+      meaningfulGames: qualifying.finals.meaningfulGames,
+      fourPlayerGroups: qualifying.finals.fourPlayerGroups,
+      threePlayerGroups: qualifying.finals.threePlayerGroups,
+    });
+    expect(config.finals.formatType).toBe('single-elimination');
+  });
+
+  it('should value finals by the A division and count every finalist', () => {
+    const config = mergeStageTGPConfigs(qualifying, [aFinals, bFinals]);
+
+    expect(config.finals.formatType).toBe('single-elimination');
+    expect(config.finals.meaningfulGames).toBe(aFinals.finals.meaningfulGames);
+    expect(config.finals.finalistCount).toBe(6);
+  });
+
+  it('should keep the qualifying config without finals stages', () => {
+    expect(mergeStageTGPConfigs(qualifying, [])).toBe(qualifying);
+  });
+});
@@ -30,6 +30,11 @@ import { UsersResource } from './resources/users.js';
 import { LocationsResource } from './resources/locations.js';
 import { BlogPostsResource } from './resources/blog-posts.js';
 import { BlogTagsResource } from './resources/blog-tags.js';
+import { RankingConfigsResource } from './resources/ranking-configs.js';
+import { JobsResource } from './resources/jobs.js';
+import { ScheduledTasksResource } from './resources/scheduled-tasks.js';
+import { PlayerMatchReviewsResource } from './resources/player-match-reviews.js';
+import { AuditLogsResource } from './resources/audit-logs.js';
 
 const DEFAULT_BASE_URL = '/api/v1';
 const DEFAULT_TIMEOUT = 30000;
@@ -446,4 +451,42 @@ export class OpprsClient {
   get blogTags(): BlogTagsResource {
     return new BlogTagsResource(this.request.bind(this), this.buildQueryString.bind(this));
   }
+
+  /**
+   * Ranking configurations resource (admin only)
+   */
+  get rankingConfigs(): RankingConfigsResource {
+    return new RankingConfigsResource(this.request.bind(this), this.buildQueryString.bind(this));
+  }
+
+  /**
+   * Background jobs resource
+   */
+  get jobs(): JobsResource {
+    return new JobsResource(this.request.bind(this), this.buildQueryString.bind(this));
+  }
+
+  /**
+   * Scheduled maintenance tasks resource (admin only)
+   */
+  get scheduledTasks(): ScheduledTasksResource {
+    return new ScheduledTasksResource(this.request.bind(this), this.buildQueryString.bind(this));
+  }
+
+  /**
+   * Player match reviews resource (admin only)
+   */
+  get playerMatchReviews(): PlayerMatchReviewsResource {
+    return new PlayerMatchReviewsResource(
+      this.request.bind(this),
+      this.buildQueryString.bind(this)
+    );
+  }
+
+  /**
+   * Audit logs resource (admin only)
+   */
+  get auditLogs(): AuditLogsResource {
+    return new AuditLogsResource(this.request.bind(this), this.buildQueryString.bind(this));
+  }
 }
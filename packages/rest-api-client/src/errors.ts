@@ -1,3 +1,5 @@
+import type { Job } from './types/index.js';
+
 /**
  * Base error class for OPPRS API errors
  */
@@ -113,3 +115,20 @@ export class OpprsExternalServiceError extends OpprsApiError {
     this.service = service;
   }
 }
+
+/**
+ * Error thrown when a background job waited for fails or is cancelled
+ */
+export class OpprsJobError extends Error {
+  public readonly job: Job;
+
+  constructor(job: Job) {
+    super(
+      job.status === 'CANCELLED'
+        ? `Job ${job.id} was cancelled`
+        : (job.error ?? `Job ${job.id} failed`)
+    );
+    this.name = 'OpprsJobError';
+    this.job = job;
+  }
+}
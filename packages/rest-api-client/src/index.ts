@@ -12,6 +12,7 @@ export {
   OpprsNetworkError,
   OpprsTimeoutError,
   OpprsExternalServiceError,
+  OpprsJobError,
 } from './errors.js';
 
 // Public types
@@ -37,13 +38,21 @@ export type {
   AuthResponse,
   // Players
   Player,
+  PlayerIdentityStatus,
+  PlayerIdentity,
   CreatePlayerRequest,
   UpdatePlayerRequest,
+  CreatePlayerIdentityRequest,
+  UpdatePlayerIdentityRequest,
   PlayerListParams,
   PlayerSearchParams,
   TopPlayersParams,
   PlayerStats,
+  PlayerProfileEvent,
   PlayerResult,
+  PlayerMergeSummary,
+  PlayerMerge,
+  MergePlayerResponse,
   // Locations
   Location,
   CreateLocationRequest,
@@ -59,6 +68,13 @@ export type {
   TournamentSearchParams,
   TournamentStats,
   TournamentResult,
+  TournamentTrace,
+  TournamentRecalculation,
+  TournamentValueBreakdown,
+  TraceStep,
+  CalculationTrace,
+  TVATrace,
+  TGPComponentTrace,
   // Standings
   Standing,
   StandingWithRelations,
@@ -67,12 +83,31 @@ export type {
   StandingListParams,
   BatchCreateStandingsResponse,
   RecalculateDecayResponse,
+  RefreshRankingsResponse,
+  HistoricalReplayRequest,
+  HistoricalReplayResponse,
+  ReplayTournamentChange,
+  ReplayPlayerChange,
   // Stats
   OverviewStats,
   LeaderboardParams,
   // Import
   ImportMatchplayTournamentRequest,
   ImportTournamentResponse,
+  ImportedStage,
+  TGPFieldReport,
+  TGPConfidenceReport,
+  PreviewMatchplayTGPRequest,
+  StageTGPPreview,
+  MatchplayTGPPreview,
+  BulkImportMatchplayRequest,
+  BulkImportStatus,
+  BulkImportEventResult,
+  BulkImportResponse,
+  CsvImportColumn,
+  CsvImportRequest,
+  CsvImportRow,
+  CsvImportResponse,
   ExternalServiceError,
   // Users (Admin)
   UserWithPlayer,
@@ -93,4 +128,34 @@ export type {
   UpdateBlogTagRequest,
   BlogTagListParams,
   BlogTagSearchParams,
+  // Ranking Configs (Admin)
+  RankingConfig,
+  CreateRankingConfigRequest,
+  UpdateRankingConfigRequest,
+  RankingConfigListParams,
+  RankingConfigPreview,
+  TournamentValueChange,
+  LeaderboardChange,
+  // Jobs
+  JobStatus,
+  JobType,
+  Job,
+  JobListParams,
+  WaitForJobOptions,
+  // Scheduled Tasks
+  ScheduledTaskRunStatus,
+  ScheduledTaskRun,
+  ScheduledTask,
+  ScheduledTaskListResponse,
+  // Player Match Reviews (Admin)
+  IdentityMatchReason,
+  IdentityCandidate,
+  PlayerMatchReviewStatus,
+  PlayerMatchReviewPlayer,
+  PlayerMatchReview,
+  PlayerMatchReviewListParams,
+  // Audit Logs (Admin)
+  AuditMethod,
+  AuditLog,
+  AuditLogListParams,
 } from './types/index.js';
@@ -0,0 +1,29 @@
+import type { AuditLog, AuditLogListParams, PaginatedResponse } from '../types/index.js';
+
+type RequestFn = <T>(p: string, o?: RequestInit, r?: boolean) => Promise<T>;
+type BuildQueryFn = (p: Record<string, unknown>) => string;
+
+/**
+ * Audit log resource methods (admin only)
+ */
+export class AuditLogsResource {
+  constructor(
+    private readonly _request: RequestFn,
+    private readonly _buildQueryString: BuildQueryFn
+  ) {}
+
+  /**
+   * List writes made through the API, newest first
+   */
+  async list(params: AuditLogListParams = {}): Promise<PaginatedResponse<AuditLog>> {
+    const queryString = this._buildQueryString(params as Record<string, unknown>);
+    return this._request<PaginatedResponse<AuditLog>>(`/audit-logs${queryString}`);
+  }
+
+  /**
+   * Get an audit log entry
+   */
+  async get(id: string): Promise<AuditLog> {
+    return this._request<AuditLog>(`/audit-logs/${id}`);
+  }
+}
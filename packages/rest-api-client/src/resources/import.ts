@@ -1,4 +1,16 @@
-import type { ImportMatchplayTournamentRequest, ImportTournamentResponse } from '../types/index.js';
+import type {
+  ImportMatchplayTournamentRequest,
+  ImportTournamentResponse,
+  PreviewMatchplayTGPRequest,
+  MatchplayTGPPreview,
+  BulkImportMatchplayRequest,
+  BulkImportResponse,
+  CsvImportRequest,
+  CsvImportResponse,
+  Job,
+  WaitForJobOptions,
+} from '../types/index.js';
+import { waitForJob } from './jobs.js';
 
 type RequestFn = <T>(p: string, o?: RequestInit, r?: boolean) => Promise<T>;
 
@@ -9,15 +21,77 @@ export class ImportResource {
   constructor(private readonly _request: RequestFn) {}
 
   /**
-   * Import a tournament from Matchplay
+   * Import a tournament from Matchplay and wait for the import job to finish
    */
   async matchplayTournament(
     matchplayId: number,
-    options: ImportMatchplayTournamentRequest = {}
+    options: ImportMatchplayTournamentRequest = {},
+    waitOptions?: WaitForJobOptions
   ): Promise<ImportTournamentResponse> {
-    return this._request<ImportTournamentResponse>(`/import/matchplay/tournament/${matchplayId}`, {
+    const job = await this.queueMatchplayTournament(matchplayId, options);
+    return waitForJob<ImportTournamentResponse>(this._request, job.id, waitOptions);
+  }
+
+  /**
+   * Queue the import of a tournament from Matchplay without waiting for it
+   */
+  async queueMatchplayTournament(
+    matchplayId: number,
+    options: ImportMatchplayTournamentRequest = {}
+  ): Promise<Job<ImportTournamentResponse>> {
+    return this._request<Job<ImportTournamentResponse>>(
+      `/import/matchplay/tournament/${matchplayId}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(options),
+      }
+    );
+  }
+
+  /**
+   * Preview the TGP configuration derived from a Matchplay tournament's rounds and games
+   */
+  async previewMatchplayTGP(
+    matchplayId: number,
+    options: PreviewMatchplayTGPRequest = {}
+  ): Promise<MatchplayTGPPreview> {
+    return this._request<MatchplayTGPPreview>(`/import/matchplay/tournament/${matchplayId}/tgp`, {
       method: 'POST',
       body: JSON.stringify(options),
     });
   }
+
+  /**
+   * Import the tournaments of a Matchplay organizer, series or list of IDs
+   * and wait for the import job to finish (admin only)
+   */
+  async matchplayBulk(
+    request: BulkImportMatchplayRequest,
+    waitOptions?: WaitForJobOptions
+  ): Promise<BulkImportResponse> {
+    const job = await this.queueMatchplayBulk(request);
+    return waitForJob<BulkImportResponse>(this._request, job.id, waitOptions);
+  }
+
+  /**
+   * Queue a bulk import from Matchplay without waiting for it (admin only)
+   */
+  async queueMatchplayBulk(request: BulkImportMatchplayRequest): Promise<Job<BulkImportResponse>> {
+    return this._request<Job<BulkImportResponse>>('/import/matchplay/bulk', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Import tournament results from CSV or TSV, creating the tournament and
+   * any unmatched players (admin only). With dryRun, only reports how rows
+   * match players.
+   */
+  async csv(request: CsvImportRequest): Promise<CsvImportResponse> {
+    return this._request<CsvImportResponse>('/import/csv', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
 }
@@ -0,0 +1,91 @@
+import type { Job, JobListParams, PaginatedResponse, WaitForJobOptions } from '../types/index.js';
+import { OpprsJobError, OpprsTimeoutError } from '../errors.js';
+
+type RequestFn = <T>(p: string, o?: RequestInit, r?: boolean) => Promise<T>;
+type BuildQueryFn = (p: Record<string, unknown>) => string;
+
+const DEFAULT_POLL_INTERVAL = 1000;
+
+const FINISHED_STATUSES: ReadonlyArray<Job['status']> = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+/**
+ * Poll a job until it finishes and return its result.
+ * Throws an OpprsJobError when the job fails or is cancelled.
+ */
+export async function waitForJob<TResult>(
+  request: RequestFn,
+  id: string,
+  options: WaitForJobOptions = {}
+): Promise<TResult> {
+  const { pollInterval = DEFAULT_POLL_INTERVAL, timeout, onProgress } = options;
+  const deadline = timeout !== undefined ? Date.now() + timeout : undefined;
+
+  for (;;) {
+    const job = await request<Job<TResult>>(`/jobs/${id}`);
+    onProgress?.(job);
+
+    if (job.status === 'COMPLETED') {
+      return job.result as TResult;
+    }
+    if (FINISHED_STATUSES.includes(job.status)) {
+      throw new OpprsJobError(job);
+    }
+    if (deadline !== undefined && Date.now() + pollInterval > deadline) {
+      throw new OpprsTimeoutError(timeout ?? 0);
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+}
+
+/**
+ * Background job resource methods
+ */
+export class JobsResource {
+  constructor(
+    private readonly _request: RequestFn,
+    private readonly _buildQueryString: BuildQueryFn
+  ) {}
+
+  /**
+   * List jobs with pagination (admin only)
+   */
+  async list(params: JobListParams = {}): Promise<PaginatedResponse<Job>> {
+    const queryString = this._buildQueryString(params as Record<string, unknown>);
+    return this._request<PaginatedResponse<Job>>(`/jobs${queryString}`);
+  }
+
+  /**
+   * Get a job with its progress and, once completed, its result
+   */
+  async get<TResult = unknown>(id: string): Promise<Job<TResult>> {
+    return this._request<Job<TResult>>(`/jobs/${id}`);
+  }
+
+  /**
+   * Cancel a pending job, or ask a running job to stop
+   */
+  async cancel(id: string): Promise<Job> {
+    return this._request<Job>(`/jobs/${id}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Queue a failed or cancelled job to run again
+   */
+  async retry(id: string): Promise<Job> {
+    return this._request<Job>(`/jobs/${id}/retry`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Wait for a job to finish and return its result
+   */
+  async waitForCompletion<TResult = unknown>(
+    id: string,
+    options?: WaitForJobOptions
+  ): Promise<TResult> {
+    return waitForJob<TResult>(this._request, id, options);
+  }
+}
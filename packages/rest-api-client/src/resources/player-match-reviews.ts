@@ -0,0 +1,60 @@
+import type {
+  PlayerMatchReview,
+  PlayerMatchReviewListParams,
+  PaginatedResponse,
+} from '../types/index.js';
+
+type RequestFn = <T>(p: string, o?: RequestInit, r?: boolean) => Promise<T>;
+type BuildQueryFn = (p: Record<string, unknown>) => string;
+
+/**
+ * Player match review resource methods (admin only)
+ *
+ * Imports queue a review when they create a player resembling existing
+ * players without a confident match.
+ */
+export class PlayerMatchReviewsResource {
+  constructor(
+    private readonly _request: RequestFn,
+    private readonly _buildQueryString: BuildQueryFn
+  ) {}
+
+  /**
+   * List reviews, oldest first
+   */
+  async list(
+    params: PlayerMatchReviewListParams = {}
+  ): Promise<PaginatedResponse<PlayerMatchReview>> {
+    const queryString = this._buildQueryString(params as Record<string, unknown>);
+    return this._request<PaginatedResponse<PlayerMatchReview>>(
+      `/player-match-reviews${queryString}`
+    );
+  }
+
+  /**
+   * Get a review
+   */
+  async get(id: string): Promise<PlayerMatchReview> {
+    return this._request<PlayerMatchReview>(`/player-match-reviews/${id}`);
+  }
+
+  /**
+   * Match the imported player to an existing player, moving their results to
+   * that player and deleting the imported player
+   */
+  async match(id: string, playerId: string): Promise<PlayerMatchReview> {
+    return this._request<PlayerMatchReview>(`/player-match-reviews/${id}/match`, {
+      method: 'POST',
+      body: JSON.stringify({ playerId }),
+    });
+  }
+
+  /**
+   * Keep the imported player as a different person from every candidate
+   */
+  async dismiss(id: string): Promise<PlayerMatchReview> {
+    return this._request<PlayerMatchReview>(`/player-match-reviews/${id}/dismiss`, {
+      method: 'POST',
+    });
+  }
+}
@@ -2,11 +2,16 @@ import type {
   Player,
   CreatePlayerRequest,
   UpdatePlayerRequest,
+  PlayerIdentity,
+  CreatePlayerIdentityRequest,
+  UpdatePlayerIdentityRequest,
   PlayerListParams,
   PlayerSearchParams,
   TopPlayersParams,
   PlayerStats,
   PlayerResult,
+  PlayerMerge,
+  MergePlayerResponse,
   PaginatedResponse,
 } from '../types/index.js';
 
@@ -95,6 +100,57 @@ export class PlayersResource {
     });
   }
 
+  /**
+   * Link an external ID to a player (admin only)
+   */
+  async addIdentity(id: string, data: CreatePlayerIdentityRequest): Promise<PlayerIdentity> {
+    return this._request<PlayerIdentity>(`/players/${id}/identities`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Update or verify an external ID of a player (admin only)
+   */
+  async updateIdentity(
+    id: string,
+    identityId: string,
+    data: UpdatePlayerIdentityRequest
+  ): Promise<PlayerIdentity> {
+    return this._request<PlayerIdentity>(`/players/${id}/identities/${identityId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Unlink an external ID from a player (admin only)
+   */
+  async removeIdentity(id: string, identityId: string): Promise<void> {
+    await this._request<void>(`/players/${id}/identities/${identityId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Merge a duplicate player into another (admin only). The player is deleted
+   * and their ID redirects to the target.
+   */
+  async merge(id: string, targetPlayerId: string): Promise<MergePlayerResponse> {
+    return this._request<MergePlayerResponse>(`/players/${id}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ targetPlayerId }),
+    });
+  }
+
+  /**
+   * Get the players merged into a player (admin only)
+   */
+  async getMerges(id: string): Promise<PlayerMerge[]> {
+    return this._request<PlayerMerge[]>(`/players/${id}/merges`);
+  }
+
   /**
    * Delete a player
    */
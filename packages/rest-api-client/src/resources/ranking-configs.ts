@@ -0,0 +1,97 @@
+import type {
+  RankingConfig,
+  CreateRankingConfigRequest,
+  UpdateRankingConfigRequest,
+  RankingConfigListParams,
+  RankingConfigPreview,
+  PaginatedResponse,
+} from '../types/index.js';
+
+type RequestFn = <T>(p: string, o?: RequestInit, r?: boolean) => Promise<T>;
+type BuildQueryFn = (p: Record<string, unknown>) => string;
+
+/**
+ * Ranking configuration resource methods (admin only)
+ */
+export class RankingConfigsResource {
+  constructor(
+    private readonly _request: RequestFn,
+    private readonly _buildQueryString: BuildQueryFn
+  ) {}
+
+  /**
+   * List ranking configurations with pagination
+   */
+  async list(params: RankingConfigListParams = {}): Promise<PaginatedResponse<RankingConfig>> {
+    const queryString = this._buildQueryString(params as Record<string, unknown>);
+    return this._request<PaginatedResponse<RankingConfig>>(`/ranking-configs${queryString}`);
+  }
+
+  /**
+   * Get the active ranking configuration
+   */
+  async getActive(): Promise<RankingConfig> {
+    return this._request<RankingConfig>('/ranking-configs/active');
+  }
+
+  /**
+   * Get ranking configuration by ID
+   */
+  async get(id: string): Promise<RankingConfig> {
+    return this._request<RankingConfig>(`/ranking-configs/${id}`);
+  }
+
+  /**
+   * Create a new (inactive) ranking configuration
+   */
+  async create(data: CreateRankingConfigRequest): Promise<RankingConfig> {
+    return this._request<RankingConfig>('/ranking-configs', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Update an inactive ranking configuration
+   */
+  async update(id: string, data: UpdateRankingConfigRequest): Promise<RankingConfig> {
+    return this._request<RankingConfig>(`/ranking-configs/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete an inactive ranking configuration
+   */
+  async delete(id: string): Promise<void> {
+    await this._request<void>(`/ranking-configs/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Preview tournament value and top-100 leaderboard changes
+   */
+  async preview(id: string): Promise<RankingConfigPreview> {
+    return this._request<RankingConfigPreview>(`/ranking-configs/${id}/preview`);
+  }
+
+  /**
+   * Activate a ranking configuration, deactivating the current one
+   */
+  async activate(id: string): Promise<RankingConfig> {
+    return this._request<RankingConfig>(`/ranking-configs/${id}/activate`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Deactivate a ranking configuration
+   */
+  async deactivate(id: string): Promise<RankingConfig> {
+    return this._request<RankingConfig>(`/ranking-configs/${id}/deactivate`, {
+      method: 'POST',
+    });
+  }
+}
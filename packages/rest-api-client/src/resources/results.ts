@@ -6,8 +6,14 @@ import type {
   StandingListParams,
   BatchCreateStandingsResponse,
   RecalculateDecayResponse,
+  RefreshRankingsResponse,
+  HistoricalReplayRequest,
+  HistoricalReplayResponse,
   PaginatedResponse,
+  Job,
+  WaitForJobOptions,
 } from '../types/index.js';
+import { waitForJob } from './jobs.js';
 
 type RequestFn = <T>(p: string, o?: RequestInit, r?: boolean) => Promise<T>;
 type BuildQueryFn = (p: Record<string, unknown>) => string;
@@ -77,11 +83,50 @@ export class StandingsResource {
   }
 
   /**
-   * Recalculate time decay for all standings
+   * Recalculate time decay for all standings and wait for the job to finish
    */
-  async recalculateDecay(): Promise<RecalculateDecayResponse> {
-    return this._request<RecalculateDecayResponse>('/standings/recalculate-decay', {
+  async recalculateDecay(waitOptions?: WaitForJobOptions): Promise<RecalculateDecayResponse> {
+    const job = await this.queueRecalculateDecay();
+    return waitForJob<RecalculateDecayResponse>(this._request, job.id, waitOptions);
+  }
+
+  /**
+   * Queue the recalculation of time decay without waiting for it
+   */
+  async queueRecalculateDecay(): Promise<Job<RecalculateDecayResponse>> {
+    return this._request<Job<RecalculateDecayResponse>>('/standings/recalculate-decay', {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Recompute world rankings from top-15 decayed points
+   */
+  async refreshRankings(): Promise<RefreshRankingsResponse> {
+    return this._request<RefreshRankingsResponse>('/standings/refresh-rankings', {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Rebuild ratings, tournament values, points and rankings by replaying history
+   * and wait for the job to finish
+   */
+  async replay(
+    request: HistoricalReplayRequest = {},
+    waitOptions?: WaitForJobOptions
+  ): Promise<HistoricalReplayResponse> {
+    const job = await this.queueReplay(request);
+    return waitForJob<HistoricalReplayResponse>(this._request, job.id, waitOptions);
+  }
+
+  /**
+   * Queue a replay of history without waiting for it
+   */
+  async queueReplay(request: HistoricalReplayRequest = {}): Promise<Job<HistoricalReplayResponse>> {
+    return this._request<Job<HistoricalReplayResponse>>('/standings/replay', {
       method: 'POST',
+      body: JSON.stringify(request),
     });
   }
 }
@@ -0,0 +1,49 @@
+import type {
+  ScheduledTask,
+  ScheduledTaskListResponse,
+  ScheduledTaskRun,
+  PaginatedResponse,
+  PaginationParams,
+} from '../types/index.js';
+
+type RequestFn = <T>(p: string, o?: RequestInit, r?: boolean) => Promise<T>;
+type BuildQueryFn = (p: Record<string, unknown>) => string;
+
+/**
+ * Scheduled maintenance task resource methods (admin only)
+ */
+export class ScheduledTasksResource {
+  constructor(
+    private readonly _request: RequestFn,
+    private readonly _buildQueryString: BuildQueryFn
+  ) {}
+
+  /**
+   * List the tasks with their schedule, last and next run
+   */
+  async list(): Promise<ScheduledTaskListResponse> {
+    return this._request<ScheduledTaskListResponse>('/scheduled-tasks');
+  }
+
+  /**
+   * List the runs of a task, newest first
+   */
+  async runs(
+    name: string,
+    params: PaginationParams = {}
+  ): Promise<PaginatedResponse<ScheduledTaskRun>> {
+    const queryString = this._buildQueryString(params as Record<string, unknown>);
+    return this._request<PaginatedResponse<ScheduledTaskRun>>(
+      `/scheduled-tasks/${name}/runs${queryString}`
+    );
+  }
+
+  /**
+   * Run a task at the next scheduler check
+   */
+  async run(name: string): Promise<ScheduledTask> {
+    return this._request<ScheduledTask>(`/scheduled-tasks/${name}/run`, {
+      method: 'POST',
+    });
+  }
+}
@@ -6,6 +6,8 @@ import type {
   TournamentSearchParams,
   TournamentStats,
   TournamentResult,
+  TournamentTrace,
+  TournamentRecalculation,
   PaginatedResponse,
 } from '../types/index.js';
 
@@ -78,6 +80,22 @@ export class TournamentsResource {
     return this._request<TournamentStats>(`/tournaments/${id}/stats`);
   }
 
+  /**
+   * Get a step-by-step explanation of how tournament value and points are calculated
+   */
+  async getTrace(id: string): Promise<TournamentTrace> {
+    return this._request<TournamentTrace>(`/tournaments/${id}/trace`);
+  }
+
+  /**
+   * Recalculate tournament value and standing points (requires admin)
+   */
+  async recalculate(id: string): Promise<TournamentRecalculation> {
+    return this._request<TournamentRecalculation>(`/tournaments/${id}/recalculate`, {
+      method: 'POST',
+    });
+  }
+
   /**
    * Create a new tournament
    */
@@ -88,8 +88,26 @@ export interface AuthResponse {
 
 // ==================== Players ====================
 
+export type PlayerIdentityStatus = 'UNVERIFIED' | 'VERIFIED';
+
+/**
+ * An ID of a player in another system, e.g. Matchplay or IFPA
+ */
+export interface PlayerIdentity {
+  id: string;
+  /** System the ID belongs to, e.g. matchplay, ifpa */
+  source: string;
+  externalId: string;
+  /** Identities linked by an import stay unverified until an admin confirms them */
+  status: PlayerIdentityStatus;
+  playerId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Player {
   id: string;
+  /** ID the player is best known by, such as matchplay:123: their first verified identity */
   externalId: string | null;
   name: string | null;
   rating: number;
@@ -99,11 +117,14 @@ export interface Player {
   eventCount: number;
   lastRatingUpdate: string | null;
   lastEventDate: string | null;
+  /** Included when getting a single player */
+  identities?: PlayerIdentity[];
   createdAt: string;
   updatedAt: string;
 }
 
 export interface CreatePlayerRequest {
+  /** External ID such as matchplay:123, kept as a verified identity */
   externalId?: string;
   name?: string;
   rating?: number;
@@ -122,6 +143,19 @@ export interface UpdatePlayerRequest {
   eventCount?: number;
 }
 
+export interface CreatePlayerIdentityRequest {
+  source: string;
+  externalId: string;
+  /** Defaults to VERIFIED */
+  status?: PlayerIdentityStatus;
+}
+
+export interface UpdatePlayerIdentityRequest {
+  source?: string;
+  externalId?: string;
+  status?: PlayerIdentityStatus;
+}
+
 export interface PlayerListParams extends PaginationParams {
   sortBy?: 'rating' | 'ranking' | 'name' | 'eventCount' | 'createdAt';
   sortOrder?: 'asc' | 'desc';
@@ -137,9 +171,40 @@ export interface TopPlayersParams {
   limit?: number;
 }
 
+export interface PlayerProfileEvent {
+  tournament: {
+    id: string;
+    name: string;
+    date: string;
+  };
+  position: number;
+  pointsEarned: number;
+  firstPlaceValue: number;
+  date: string;
+  ageInDays: number;
+  decayMultiplier: number;
+  decayedPoints: number;
+}
+
 export interface PlayerStats {
-  totalEvents: number;
+  player: {
+    id: string;
+    rating: number;
+    ranking: number;
+    isRated: boolean;
+    ratingDeviation?: number;
+    eventCount?: number;
+  };
+  referenceDate: string;
+  /** Active events, most recent first */
+  events: PlayerProfileEvent[];
+  /** Events counting toward ranking points, highest decayed points first */
+  top15Events: PlayerProfileEvent[];
+  /** Ranking points (sum of top 15 decayed points) */
   totalPoints: number;
+  /** Overall efficiency percentage (0-100) of active events */
+  efficiency: number;
+  totalEvents: number;
   totalDecayedPoints: number;
   averagePoints: number;
   averagePosition: number;
@@ -154,6 +219,8 @@ export interface PlayerStats {
 export interface PlayerResult {
   id: string;
   position: number;
+  /** Last position of a tie range; null when not tied */
+  positionEnd: number | null;
   optedOut: boolean;
   linearPoints: number | null;
   dynamicPoints: number | null;
@@ -172,6 +239,42 @@ export interface PlayerResult {
   };
 }
 
+export interface PlayerMergeSummary {
+  standingsMoved: number;
+  /** Worse placed standings of tournament stages both players played */
+  standingsDropped: number;
+  tournamentsReassigned: number;
+  userMoved: boolean;
+  /** Absent from merges made before players had several identities */
+  identitiesMoved?: number;
+  rankingHistoryMoved: number;
+  /** Whether the merged player's rating was kept, having the lower deviation */
+  ratingTaken: boolean;
+}
+
+export interface PlayerMerge {
+  id: string;
+  /** ID of the merged player, now redirecting */
+  sourcePlayerId: string;
+  sourcePlayerNumber: number;
+  sourceName: string | null;
+  sourceExternalId: string | null;
+  /** Player the merged player was merged into */
+  mergedIntoId: string;
+  /** Player the merged player redirects to, following later merges */
+  targetPlayerId: string;
+  mergedById: string | null;
+  summary: PlayerMergeSummary;
+  createdAt: string;
+}
+
+export interface MergePlayerResponse {
+  merge: PlayerMerge;
+  /** The player kept, with the merged player's results */
+  player: Player;
+  tournamentsRecalculated: number;
+}
+
 // ==================== Locations ====================
 
 export interface Location {
@@ -259,6 +362,7 @@ export interface Tournament {
   tgp: number | null;
   eventBoosterMultiplier: number | null;
   firstPlaceValue: number | null;
+  rulesetVersion: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -325,6 +429,8 @@ export interface TournamentStats {
 export interface TournamentResult {
   id: string;
   position: number;
+  /** Last position of a tie range; null when not tied */
+  positionEnd: number | null;
   optedOut: boolean;
   linearPoints: number | null;
   dynamicPoints: number | null;
@@ -341,6 +447,77 @@ export interface TournamentResult {
   };
 }
 
+export interface TraceStep {
+  description: string;
+  value: number;
+}
+
+export interface CalculationTrace {
+  value: number;
+  steps: TraceStep[];
+  capped: boolean;
+}
+
+export interface TVATrace extends CalculationTrace {
+  contributions: {
+    playerId: string;
+    input: number;
+    contribution: number;
+  }[];
+}
+
+export interface TGPComponentTrace extends CalculationTrace {
+  meaningfulGames: number;
+  gameValue: number;
+  multipliers: {
+    name: string;
+    factor: number;
+  }[];
+}
+
+export interface TournamentValueBreakdown<T = number> {
+  baseValue: T;
+  tvaRating: T;
+  tvaRanking: T;
+  totalTVA: T;
+  tgp: T;
+  eventBoosterMultiplier: T;
+  firstPlaceValue: T;
+}
+
+export interface TournamentTrace {
+  tournamentId: string;
+  rulesetVersion: string;
+  value: TournamentValueBreakdown;
+  stored: TournamentValueBreakdown<number | null>;
+  trace: {
+    baseValue: CalculationTrace;
+    tvaRating: TVATrace;
+    tvaRanking: TVATrace;
+    tgp: CalculationTrace & {
+      qualifying: TGPComponentTrace;
+      finals: TGPComponentTrace;
+    };
+    eventBooster: CalculationTrace;
+    firstPlaceValue: CalculationTrace;
+    pointDistribution: {
+      activePlayerCount: number;
+      ratedPlayerCount: number;
+      optedOutCount: number;
+      dynamicPositions: number;
+      tiedPositionCount: number;
+      steps: TraceStep[];
+    };
+  };
+}
+
+export interface TournamentRecalculation {
+  tournamentId: string;
+  rulesetVersion: string;
+  value: TournamentValueBreakdown;
+  standingsUpdated: number;
+}
+
 // ==================== Standings ====================
 
 export interface Standing {
@@ -348,6 +525,8 @@ export interface Standing {
   playerId: string;
   tournamentId: string;
   position: number;
+  /** Last position of a tie range; null when not tied */
+  positionEnd: number | null;
   isFinals: boolean;
   optedOut: boolean;
   linearPoints: number | null;
@@ -382,6 +561,8 @@ export interface CreateStandingRequest {
   playerId: string;
   tournamentId: string;
   position: number;
+  /** Last position of a tie range (e.g. 6 when tied for 5th-6th) */
+  positionEnd?: number;
   isFinals?: boolean;
   optedOut?: boolean;
   linearPoints?: number;
@@ -395,6 +576,7 @@ export interface CreateStandingRequest {
 
 export interface UpdateStandingRequest {
   position?: number;
+  positionEnd?: number | null;
   optedOut?: boolean;
   linearPoints?: number;
   dynamicPoints?: number;
@@ -418,10 +600,65 @@ export interface BatchCreateStandingsResponse {
 }
 
 export interface RecalculateDecayResponse {
+  /** Number of standings whose decay changed */
+  count: number;
+  tournamentsProcessed: number;
+  message: string;
+}
+
+export interface RefreshRankingsResponse {
   count: number;
+  rankedCount: number;
   message: string;
 }
 
+export interface HistoricalReplayRequest {
+  /** Report changes without writing them */
+  dryRun?: boolean;
+  /** Date that time decay and rankings are calculated for (ISO 8601, defaults to now) */
+  referenceDate?: string;
+}
+
+export interface ReplayTournamentChange {
+  tournamentId: string;
+  name: string;
+  date: string;
+  currentValue: number | null;
+  replayedValue: number;
+}
+
+export interface ReplayPlayerChange {
+  playerId: string;
+  name: string | null;
+  currentRating: number | null;
+  replayedRating: number;
+  currentRanking: number | null;
+  replayedRanking: number | null;
+}
+
+export interface HistoricalReplayResponse {
+  dryRun: boolean;
+  referenceDate: string;
+  tournamentsReplayed: number;
+  tournamentsSkipped: number;
+  playersRanked: number;
+  tournamentsChanged: number;
+  playersChanged: number;
+  /** Tournaments with the largest first place value changes (at most 100) */
+  tournaments: ReplayTournamentChange[];
+  /** Players whose rating or ranking changes, in ranking order (at most 100) */
+  players: ReplayPlayerChange[];
+  /** Rows written; null for a dry run */
+  written: {
+    tournamentsUpdated: number;
+    standingsUpdated: number;
+    rankingsUpdated: number;
+    /** OPPR rankings of players without replayed results, kept without a world ranking */
+    rankingsKept: number;
+    historyCreated: number;
+  } | null;
+}
+
 // ==================== Stats ====================
 
 export interface OverviewStats {
@@ -447,14 +684,234 @@ export interface LeaderboardParams {
 export interface ImportMatchplayTournamentRequest {
   eventBooster?: EventBoosterType;
   apiToken?: string;
+  /** Matchplay IDs of the finals stages, A division first (defaults to the linked tournament) */
+  finalsIds?: number[];
+  /** TGP configuration to use instead of the one derived from Matchplay games */
+  tgpConfig?: Record<string, unknown>;
+}
+
+export interface TGPFieldReport {
+  field: string;
+  source: 'measured' | 'inferred';
+  detail: string;
+}
+
+export interface TGPConfidenceReport {
+  level: 'high' | 'medium' | 'low';
+  fields: TGPFieldReport[];
+  gamesMeasured: number;
+  byes: number;
+}
+
+export interface ImportedStage {
+  matchplayId: number;
+  isFinals: boolean;
+  resultsCount: number;
+  tgpConfidence: TGPConfidenceReport;
+}
+
+export type PreviewMatchplayTGPRequest = Pick<
+  ImportMatchplayTournamentRequest,
+  'apiToken' | 'finalsIds'
+>;
+
+export interface StageTGPPreview {
+  matchplayId: number;
+  isFinals: boolean;
+  tgpConfig: Record<string, unknown>;
+  confidence: TGPConfidenceReport;
+}
+
+export interface MatchplayTGPPreview {
+  /** TGP configuration of the whole event, as an import would use it */
+  tgpConfig: Record<string, unknown>;
+  stages: StageTGPPreview[];
 }
 
 export interface ImportTournamentResponse {
   tournament: Tournament;
   playersCreated: number;
   playersUpdated: number;
+  /** Players without a Matchplay ID matched to existing players; counted as updated */
+  playersMatched: number;
+  /** Created players resembling existing ones, queued for admin review */
+  reviewsQueued: number;
   resultsCount: number;
+  ratingsUpdated: number;
+  /** Whether ratings were updated from individual games or final standings */
+  ratingMethod: 'games' | 'standings';
   created: boolean;
+  /** Matchplay tournaments imported as the qualifying and finals stages */
+  stages: ImportedStage[];
+  /** Whether the TGP configuration was given instead of derived from Matchplay games */
+  tgpOverridden: boolean;
+}
+
+export interface BulkImportMatchplayRequest {
+  /** Import the completed tournaments of a Matchplay organizer */
+  organizerId?: number;
+  /** Import the completed tournaments of a Matchplay series */
+  seriesId?: number;
+  /** Import these Matchplay tournaments */
+  tournamentIds?: number[];
+  /** Only import organizer or series tournaments starting on or after this date (YYYY-MM-DD) */
+  from?: string;
+  /** Only import organizer or series tournaments starting on or before this date (YYYY-MM-DD) */
+  to?: string;
+  eventBooster?: EventBoosterType;
+  apiToken?: string;
+}
+
+export type BulkImportStatus = 'imported' | 'skipped' | 'failed';
+
+export interface BulkImportEventResult {
+  matchplayId: number;
+  status: BulkImportStatus;
+  /** ID of the imported tournament, or of the one it was already imported as */
+  tournamentId?: string;
+  name?: string;
+  /** Why the event was skipped or failed */
+  message?: string;
+}
+
+export interface BulkImportResponse {
+  /** Number of Matchplay tournaments found */
+  found: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  events: BulkImportEventResult[];
+}
+
+export type CsvImportColumn =
+  | 'position'
+  | 'name'
+  | 'playerNumber'
+  | 'externalId'
+  | 'optedOut'
+  | 'isFinals'
+  | 'email';
+
+export interface CsvImportRequest {
+  /**
+   * Results as CSV or TSV. Columns are found by header name (Position, Name,
+   * Player Number, External ID, Opted Out, Finals, Email), or are in that order
+   * without a header
+   */
+  csv: string;
+  /** Match players and report unmatched names without creating anything */
+  dryRun?: boolean;
+  /** Field delimiter (defaults to tab when the first line has one, otherwise comma) */
+  delimiter?: ',' | '\t' | ';';
+  /** Whether the first line is a header (detected from its column names by default) */
+  hasHeader?: boolean;
+  /** Header name or zero-based index of columns, overriding the detected ones */
+  columns?: Partial<Record<CsvImportColumn, string | number>>;
+  /** The tournament to create with the results */
+  tournament: Pick<
+    CreateTournamentRequest,
+    | 'name'
+    | 'date'
+    | 'externalId'
+    | 'description'
+    | 'locationId'
+    | 'organizerId'
+    | 'eventBooster'
+    | 'qualifyingFormat'
+    | 'allowsOptOut'
+  > & { tgpConfig: Record<string, unknown> };
+}
+
+export interface CsvImportRow {
+  /** Line of the row in the CSV */
+  line: number;
+  position: number;
+  name?: string;
+  playerNumber?: number;
+  externalId?: string;
+  optedOut: boolean;
+  isFinals: boolean;
+  email?: string;
+  /** Matched player, or the player created for an unmatched row */
+  playerId: string | null;
+  matchedBy: 'playerNumber' | 'externalId' | 'identity' | null;
+  /** Existing players the row resembles, best first */
+  candidates: IdentityCandidate[];
+}
+
+export interface CsvImportResponse {
+  dryRun: boolean;
+  /** The created tournament, or null for a dry run */
+  tournament: Tournament | null;
+  rows: CsvImportRow[];
+  /** Rows resembling no player; a player is created for each of them */
+  unmatched: CsvImportRow[];
+  /**
+   * Rows that may be existing players without a confident match; a player is
+   * created for each of them and queued for review
+   */
+  ambiguous: CsvImportRow[];
+  playersCreated: number;
+  reviewsQueued: number;
+  resultsCount: number;
+  ratingsUpdated: number;
+}
+
+// ==================== Player Match Reviews ====================
+
+export type IdentityMatchReason =
+  | 'playerNumber'
+  | 'email'
+  | 'name'
+  | 'similarName'
+  | 'sharedHistory';
+
+/**
+ * An existing player an imported player may be
+ */
+export interface IdentityCandidate {
+  playerId: string;
+  name: string | null;
+  playerNumber: number;
+  /** Confidence that the candidate is the player, 0 to 1 */
+  score: number;
+  reasons: IdentityMatchReason[];
+}
+
+export type PlayerMatchReviewStatus = 'PENDING' | 'MATCHED' | 'DISMISSED';
+
+export interface PlayerMatchReviewPlayer {
+  id: string;
+  name: string | null;
+  playerNumber: number;
+}
+
+/**
+ * A player created by an import who resembles existing players
+ */
+export interface PlayerMatchReview {
+  id: string;
+  status: PlayerMatchReviewStatus;
+  /** Import that queued the review, e.g. matchplay, csv */
+  source: string;
+  externalId?: string | null;
+  name?: string | null;
+  candidates: IdentityCandidate[];
+  /** Player created by the import; null once matched */
+  playerId?: string | null;
+  player?: PlayerMatchReviewPlayer | null;
+  tournamentId?: string | null;
+  tournament?: { id: string; name: string; date: string } | null;
+  matchedPlayerId?: string | null;
+  matchedPlayer?: PlayerMatchReviewPlayer | null;
+  resolvedById?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlayerMatchReviewListParams extends PaginationParams {
+  status?: PlayerMatchReviewStatus;
 }
 
 export interface ExternalServiceError {
@@ -601,3 +1058,189 @@ export interface BlogTagSearchParams {
   q: string;
   limit?: number;
 }
+
+// ==================== Ranking Configs (Admin) ====================
+
+export interface RankingConfig {
+  id: string;
+  version: string;
+  name: string;
+  description: string | null;
+  /** Overrides of the OPPR constants (PartialOPPRConfig from @opprs/core) */
+  config: Record<string, unknown>;
+  isActive: boolean;
+  activatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRankingConfigRequest {
+  version: string;
+  name: string;
+  description?: string;
+  config: Record<string, unknown>;
+}
+
+export interface UpdateRankingConfigRequest {
+  version?: string;
+  name?: string;
+  description?: string | null;
+  config?: Record<string, unknown>;
+}
+
+export type RankingConfigListParams = PaginationParams;
+
+export interface TournamentValueChange {
+  tournamentId: string;
+  name: string;
+  date: string;
+  currentValue: number;
+  proposedValue: number;
+  change: number;
+}
+
+export interface LeaderboardChange {
+  playerId: string;
+  name: string | null;
+  currentRanking: number | null;
+  proposedRanking: number | null;
+  currentPoints: number;
+  proposedPoints: number;
+}
+
+export interface RankingConfigPreview {
+  configId: string;
+  version: string;
+  /** Every tournament is recalculated under the proposed configuration */
+  scope: 'full-recalculation';
+  tournamentsEvaluated: number;
+  tournaments: TournamentValueChange[];
+  leaderboard: LeaderboardChange[];
+}
+
+// ==================== Jobs ====================
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export type JobType =
+  | 'matchplay-import'
+  | 'matchplay-bulk-import'
+  | 'recalculate-decay'
+  | 'historical-replay';
+
+/**
+ * A background job. Once completed, `result` has the response of the
+ * operation that was queued.
+ */
+export interface Job<TResult = unknown> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  /** Job input (API tokens are never returned) */
+  payload: Record<string, unknown>;
+  result?: TResult | null;
+  error?: string | null;
+  progress: number;
+  progressTotal?: number | null;
+  attempts: number;
+  cancelRequested: boolean;
+  createdById?: string | null;
+  runAt: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobListParams extends PaginationParams {
+  status?: JobStatus;
+  type?: JobType;
+}
+
+export interface WaitForJobOptions {
+  /** Delay between polls in milliseconds (default 1000) */
+  pollInterval?: number;
+  /** Give up after this many milliseconds (default: wait until the job finishes) */
+  timeout?: number;
+  /** Called with the job after each poll */
+  onProgress?: (job: Job) => void;
+}
+
+// ==================== Scheduled Tasks ====================
+
+export type ScheduledTaskRunStatus = 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+export interface ScheduledTaskRun {
+  id: string;
+  status: ScheduledTaskRunStatus;
+  /** Instance that ran the task */
+  runBy: string;
+  result?: Record<string, unknown> | null;
+  error?: string | null;
+  startedAt: string;
+  completedAt?: string | null;
+}
+
+/**
+ * A maintenance task run by the API on a cron schedule
+ */
+export interface ScheduledTask {
+  name: string;
+  description: string;
+  /** Cron expression (UTC), or null when the task is disabled */
+  schedule: string | null;
+  enabled: boolean;
+  /** Whether an instance is running the task */
+  running: boolean;
+  lastRunAt?: string | null;
+  nextRunAt?: string | null;
+  lastRun?: ScheduledTaskRun | null;
+}
+
+export interface ScheduledTaskListResponse {
+  schedulerEnabled: boolean;
+  tasks: ScheduledTask[];
+}
+
+// ==================== Audit Logs ====================
+
+export type AuditMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A write made through the API
+ */
+export interface AuditLog {
+  id: string;
+  /** User who made the request, or owns the API key */
+  userId?: string | null;
+  userEmail?: string | null;
+  /** API key the request was authenticated with */
+  apiKeyId?: string | null;
+  method: AuditMethod;
+  /** Route pattern, e.g. /api/v1/players/:id */
+  route: string;
+  url: string;
+  statusCode: number;
+  /** Route group, e.g. players */
+  entityType: string;
+  entityId?: string | null;
+  /** The entity before the change; null when created */
+  before?: Record<string, unknown> | null;
+  /** The entity after the change; null when deleted */
+  after?: Record<string, unknown> | null;
+  /** Fields that differ */
+  changes?: Record<string, { before: unknown; after: unknown }> | null;
+  createdAt: string;
+}
+
+export interface AuditLogListParams extends PaginationParams {
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  apiKeyId?: string;
+  method?: AuditMethod;
+  /** Changes made at or after this time (ISO 8601) */
+  from?: string;
+  /** Changes made before this time (ISO 8601) */
+  to?: string;
+}
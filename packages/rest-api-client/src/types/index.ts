@@ -21,13 +21,21 @@ export type {
   AuthResponse,
   // Players
   Player,
+  PlayerIdentityStatus,
+  PlayerIdentity,
   CreatePlayerRequest,
   UpdatePlayerRequest,
+  CreatePlayerIdentityRequest,
+  UpdatePlayerIdentityRequest,
   PlayerListParams,
   PlayerSearchParams,
   TopPlayersParams,
   PlayerStats,
+  PlayerProfileEvent,
   PlayerResult,
+  PlayerMergeSummary,
+  PlayerMerge,
+  MergePlayerResponse,
   // Locations
   Location,
   CreateLocationRequest,
@@ -43,6 +51,13 @@ export type {
   TournamentSearchParams,
   TournamentStats,
   TournamentResult,
+  TournamentTrace,
+  TournamentRecalculation,
+  TournamentValueBreakdown,
+  TraceStep,
+  CalculationTrace,
+  TVATrace,
+  TGPComponentTrace,
   // Standings
   Standing,
   StandingWithRelations,
@@ -51,12 +66,31 @@ export type {
   StandingListParams,
   BatchCreateStandingsResponse,
   RecalculateDecayResponse,
+  RefreshRankingsResponse,
+  HistoricalReplayRequest,
+  HistoricalReplayResponse,
+  ReplayTournamentChange,
+  ReplayPlayerChange,
   // Stats
   OverviewStats,
   LeaderboardParams,
   // Import
   ImportMatchplayTournamentRequest,
   ImportTournamentResponse,
+  ImportedStage,
+  TGPFieldReport,
+  TGPConfidenceReport,
+  PreviewMatchplayTGPRequest,
+  StageTGPPreview,
+  MatchplayTGPPreview,
+  BulkImportMatchplayRequest,
+  BulkImportStatus,
+  BulkImportEventResult,
+  BulkImportResponse,
+  CsvImportColumn,
+  CsvImportRequest,
+  CsvImportRow,
+  CsvImportResponse,
   ExternalServiceError,
   // Users (Admin)
   UserWithPlayer,
@@ -77,4 +111,34 @@ export type {
   UpdateBlogTagRequest,
   BlogTagListParams,
   BlogTagSearchParams,
+  // Ranking Configs (Admin)
+  RankingConfig,
+  CreateRankingConfigRequest,
+  UpdateRankingConfigRequest,
+  RankingConfigListParams,
+  RankingConfigPreview,
+  TournamentValueChange,
+  LeaderboardChange,
+  // Jobs
+  JobStatus,
+  JobType,
+  Job,
+  JobListParams,
+  WaitForJobOptions,
+  // Scheduled Tasks
+  ScheduledTaskRunStatus,
+  ScheduledTaskRun,
+  ScheduledTask,
+  ScheduledTaskListResponse,
+  // Player Match Reviews (Admin)
+  IdentityMatchReason,
+  IdentityCandidate,
+  PlayerMatchReviewStatus,
+  PlayerMatchReviewPlayer,
+  PlayerMatchReview,
+  PlayerMatchReviewListParams,
+  // Audit Logs (Admin)
+  AuditMethod,
+  AuditLog,
+  AuditLogListParams,
 } from './api-types.js';
@@ -581,13 +581,55 @@ describe('OpprsClient', () => {
 
       mockFetch
         .mockResolvedValueOnce(createMockResponse(loginResponse))
-        .mockResolvedValueOnce(createMockResponse(importResponse));
+        .mockResolvedValueOnce(createMockResponse({ id: 'job-1', status: 'PENDING' }, 202))
+        .mockResolvedValueOnce(
+          createMockResponse({ id: 'job-1', status: 'COMPLETED', result: importResponse })
+        );
 
       const client = new OpprsClient({ fetch: mockFetch });
       await client.login({ email: 'test@example.com', password: 'password' });
 
       const result = await client.import.matchplayTournament(12345);
       expect(result.resultsImported).toBe(10);
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/v1/jobs/job-1', expect.anything());
+    });
+
+    it('should return jobs resource', async () => {
+      const loginResponse: LoginResponse = {
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer',
+      };
+
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse(loginResponse))
+        .mockResolvedValueOnce(createMockResponse({ id: 'job-1', status: 'RUNNING', progress: 3 }));
+
+      const client = new OpprsClient({ fetch: mockFetch });
+      await client.login({ email: 'test@example.com', password: 'password' });
+
+      const result = await client.jobs.get('job-1');
+      expect(result.progress).toBe(3);
+    });
+
+    it('should return scheduled tasks resource', async () => {
+      const loginResponse: LoginResponse = {
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        expiresIn: 900,
+        tokenType: 'Bearer',
+      };
+
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse(loginResponse))
+        .mockResolvedValueOnce(createMockResponse({ schedulerEnabled: true, tasks: [] }));
+
+      const client = new OpprsClient({ fetch: mockFetch });
+      await client.login({ email: 'test@example.com', password: 'password' });
+
+      const result = await client.scheduledTasks.list();
+      expect(result.schedulerEnabled).toBe(true);
     });
   });
 });
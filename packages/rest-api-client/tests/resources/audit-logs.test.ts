@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuditLogsResource } from '../../src/resources/audit-logs.js';
+import type { AuditLog } from '../../src/types/index.js';
+
+describe('AuditLogsResource', () => {
+  let mockRequest: ReturnType<typeof vi.fn>;
+  let mockBuildQueryString: ReturnType<typeof vi.fn>;
+  let resource: AuditLogsResource;
+
+  beforeEach(() => {
+    mockRequest = vi.fn();
+    mockBuildQueryString = vi.fn((params) => {
+      const searchParams = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      }
+      const queryString = searchParams.toString();
+      return queryString ? `?${queryString}` : '';
+    });
+    resource = new AuditLogsResource(mockRequest, mockBuildQueryString);
+  });
+
+  const mockAuditLog: AuditLog = {
+    id: 'audit-1',
+    userId: 'user-1',
+    userEmail: 'admin@example.com',
+    apiKeyId: null,
+    method: 'PATCH',
+    route: '/api/v1/users/:id',
+    url: '/api/v1/users/user-2',
+    statusCode: 200,
+    entityType: 'users',
+    entityId: 'user-2',
+    before: { role: 'USER' },
+    after: { role: 'ADMIN' },
+    changes: { role: { before: 'USER', after: 'ADMIN' } },
+    createdAt: '2026-03-01T00:00:00Z',
+  };
+
+  describe('list', () => {
+    it('should list audit logs with filters', async () => {
+      const response = {
+        data: [mockAuditLog],
+        pagination: { page: 1, limit: 20, total: 1, totalPages: 1 },
+      };
+      mockRequest.mockResolvedValue(response);
+
+      const result = await resource.list({ entityType: 'users', method: 'PATCH' });
+
+      expect(result).toEqual(response);
+      expect(mockRequest).toHaveBeenCalledWith('/audit-logs?entityType=users&method=PATCH');
+    });
+
+    it('should list audit logs without filters', async () => {
+      mockRequest.mockResolvedValue({ data: [], pagination: {} });
+
+      await resource.list();
+
+      expect(mockRequest).toHaveBeenCalledWith('/audit-logs');
+    });
+  });
+
+  describe('get', () => {
+    it('should get audit log by id', async () => {
+      mockRequest.mockResolvedValue(mockAuditLog);
+
+      const result = await resource.get('audit-1');
+
+      expect(result).toEqual(mockAuditLog);
+      expect(mockRequest).toHaveBeenCalledWith('/audit-logs/audit-1');
+    });
+  });
+});
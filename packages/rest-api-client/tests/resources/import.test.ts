@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ImportResource } from '../../src/resources/import.js';
+import { OpprsJobError } from '../../src/errors.js';
 import type { ImportTournamentResponse } from '../../src/types/index.js';
 
 describe('ImportResource', () => {
@@ -11,6 +12,13 @@ describe('ImportResource', () => {
     resource = new ImportResource(mockRequest);
   });
 
+  // The import is queued as a job, then polled until it completes
+  function mockJob(result: unknown): void {
+    mockRequest
+      .mockResolvedValueOnce({ id: 'job-1', status: 'PENDING' })
+      .mockResolvedValueOnce({ id: 'job-1', status: 'COMPLETED', result });
+  }
+
   describe('matchplayTournament', () => {
     it('should import tournament from Matchplay with minimal options', async () => {
       const response: ImportTournamentResponse = {
@@ -36,7 +44,7 @@ describe('ImportResource', () => {
         message: 'Successfully imported tournament from Matchplay',
       };
 
-      mockRequest.mockResolvedValue(response);
+      mockJob(response);
 
       const result = await resource.matchplayTournament(12345);
 
@@ -45,6 +53,7 @@ describe('ImportResource', () => {
         method: 'POST',
         body: JSON.stringify({}),
       });
+      expect(mockRequest).toHaveBeenLastCalledWith('/jobs/job-1');
     });
 
     it('should import tournament from Matchplay with custom options', async () => {
@@ -71,7 +80,7 @@ describe('ImportResource', () => {
         message: 'Successfully imported tournament from Matchplay',
       };
 
-      mockRequest.mockResolvedValue(response);
+      mockJob(response);
 
       const options = {
         eventBooster: 'MAJOR' as const,
@@ -115,7 +124,7 @@ describe('ImportResource', () => {
         message: 'Successfully imported tournament from Matchplay',
       };
 
-      mockRequest.mockResolvedValue(response);
+      mockJob(response);
 
       const options = {
         tgpConfig: {
@@ -133,6 +142,30 @@ describe('ImportResource', () => {
       });
     });
 
+    it('should import finals stages', async () => {
+      const stages = [
+        { matchplayId: 12345, isFinals: false, resultsCount: 20 },
+        { matchplayId: 12346, isFinals: true, resultsCount: 8 },
+      ];
+      mockJob({ stages });
+
+      const result = await resource.matchplayTournament(12345, { finalsIds: [12346] });
+
+      expect(result.stages).toEqual(stages);
+      expect(mockRequest).toHaveBeenCalledWith('/import/matchplay/tournament/12345', {
+        method: 'POST',
+        body: JSON.stringify({ finalsIds: [12346] }),
+      });
+    });
+
+    it('should throw when the import job fails', async () => {
+      mockRequest
+        .mockResolvedValueOnce({ id: 'job-1', status: 'PENDING' })
+        .mockResolvedValueOnce({ id: 'job-1', status: 'FAILED', error: 'Matchplay API error' });
+
+      await expect(resource.matchplayTournament(12345)).rejects.toThrow(OpprsJobError);
+    });
+
     it('should handle import with no new players created', async () => {
       const response: ImportTournamentResponse = {
         tournament: {
@@ -157,7 +190,7 @@ describe('ImportResource', () => {
         message: 'Successfully imported tournament from Matchplay (all players already existed)',
       };
 
-      mockRequest.mockResolvedValue(response);
+      mockJob(response);
 
       const result = await resource.matchplayTournament(67890);
 
@@ -165,4 +198,117 @@ describe('ImportResource', () => {
       expect(result.playersCreated).toBe(0);
     });
   });
+
+  describe('queueMatchplayTournament', () => {
+    it('should queue an import without waiting for it', async () => {
+      mockRequest.mockResolvedValue({ id: 'job-1', status: 'PENDING' });
+
+      const job = await resource.queueMatchplayTournament(12345, { eventBooster: 'MAJOR' });
+
+      expect(job.id).toBe('job-1');
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+      expect(mockRequest).toHaveBeenCalledWith('/import/matchplay/tournament/12345', {
+        method: 'POST',
+        body: JSON.stringify({ eventBooster: 'MAJOR' }),
+      });
+    });
+  });
+
+  describe('previewMatchplayTGP', () => {
+    it('should preview the derived TGP configuration', async () => {
+      const preview = {
+        tgpConfig: { qualifying: { type: 'limited', meaningfulGames: 6 } },
+        stages: [
+          {
+            matchplayId: 12345,
+            isFinals: false,
+            tgpConfig: { finals: { formatType: 'match-play', meaningfulGames: 6 } },
+            confidence: { level: 'high', fields: [], gamesMeasured: 24, byes: 0 },
+          },
+        ],
+      };
+      mockRequest.mockResolvedValue(preview);
+
+      const result = await resource.previewMatchplayTGP(12345, { finalsIds: [12346] });
+
+      expect(result).toEqual(preview);
+      expect(mockRequest).toHaveBeenCalledWith('/import/matchplay/tournament/12345/tgp', {
+        method: 'POST',
+        body: JSON.stringify({ finalsIds: [12346] }),
+      });
+    });
+  });
+
+  describe('matchplayBulk', () => {
+    it('should import the tournaments of an organizer', async () => {
+      const response = {
+        found: 2,
+        imported: 1,
+        skipped: 1,
+        failed: 0,
+        events: [
+          { matchplayId: 12345, status: 'imported', tournamentId: 't1', name: 'Spring Open' },
+          {
+            matchplayId: 12346,
+            status: 'skipped',
+            tournamentId: 't2',
+            message: 'Already imported',
+          },
+        ],
+      };
+      mockJob(response);
+
+      const result = await resource.matchplayBulk({ organizerId: 42, from: '2024-01-01' });
+
+      expect(result).toEqual(response);
+      expect(mockRequest).toHaveBeenCalledWith('/import/matchplay/bulk', {
+        method: 'POST',
+        body: JSON.stringify({ organizerId: 42, from: '2024-01-01' }),
+      });
+    });
+  });
+
+  describe('csv', () => {
+    it('should preview a CSV import', async () => {
+      const request = {
+        csv: 'Position,Name\n1,Alice',
+        dryRun: true,
+        tournament: {
+          name: 'Paper League Night',
+          date: '2024-07-01T00:00:00.000Z',
+          tgpConfig: { qualifying: { type: 'limited', meaningfulGames: 5 } },
+        },
+      };
+      const unmatched = {
+        line: 2,
+        position: 1,
+        name: 'Alice',
+        optedOut: false,
+        isFinals: false,
+        playerId: null,
+        matchedBy: null,
+        candidates: [],
+      };
+      const response = {
+        dryRun: true,
+        tournament: null,
+        rows: [unmatched],
+        unmatched: [unmatched],
+        ambiguous: [],
+        playersCreated: 0,
+        reviewsQueued: 0,
+        resultsCount: 0,
+        ratingsUpdated: 0,
+      };
+      mockRequest.mockResolvedValue(response);
+
+      const result = await resource.csv(request);
+
+      expect(result).toEqual(response);
+      expect(mockRequest).toHaveBeenCalledWith('/import/csv', {
+        method: 'POST',
+        body: JSON.stringify(request),
+      });
+    });
+  });
 });
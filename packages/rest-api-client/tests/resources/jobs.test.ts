@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JobsResource } from '../../src/resources/jobs.js';
+import { OpprsJobError, OpprsTimeoutError } from '../../src/errors.js';
+import type { Job } from '../../src/types/index.js';
+
+describe('JobsResource', () => {
+  let mockRequest: ReturnType<typeof vi.fn>;
+  let mockBuildQueryString: ReturnType<typeof vi.fn>;
+  let resource: JobsResource;
+
+  beforeEach(() => {
+    mockRequest = vi.fn();
+    mockBuildQueryString = vi.fn((params) => {
+      const searchParams = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      }
+      const queryString = searchParams.toString();
+      return queryString ? `?${queryString}` : '';
+    });
+    resource = new JobsResource(mockRequest, mockBuildQueryString);
+  });
+
+  const mockJob = (overrides: Partial<Job> = {}): Job => ({
+    id: 'job-1',
+    type: 'recalculate-decay',
+    status: 'RUNNING',
+    payload: {},
+    result: null,
+    error: null,
+    progress: 50,
+    progressTotal: 100,
+    attempts: 1,
+    cancelRequested: false,
+    createdById: 'user-1',
+    runAt: '2026-01-14T00:00:00Z',
+    startedAt: '2026-01-14T00:00:00Z',
+    completedAt: null,
+    createdAt: '2026-01-14T00:00:00Z',
+    updatedAt: '2026-01-14T00:00:00Z',
+    ...overrides,
+  });
+
+  describe('list', () => {
+    it('should list jobs with filters', async () => {
+      mockRequest.mockResolvedValue({
+        data: [mockJob()],
+        pagination: { page: 1, limit: 20, total: 1, totalPages: 1 },
+      });
+
+      const result = await resource.list({ status: 'RUNNING', type: 'recalculate-decay' });
+
+      expect(result.data).toHaveLength(1);
+      expect(mockRequest).toHaveBeenCalledWith('/jobs?status=RUNNING&type=recalculate-decay');
+    });
+  });
+
+  describe('get', () => {
+    it('should get a job by ID', async () => {
+      mockRequest.mockResolvedValue(mockJob());
+
+      const result = await resource.get('job-1');
+
+      expect(result.progress).toBe(50);
+      expect(mockRequest).toHaveBeenCalledWith('/jobs/job-1');
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a job', async () => {
+      mockRequest.mockResolvedValue(mockJob({ cancelRequested: true }));
+
+      const result = await resource.cancel('job-1');
+
+      expect(result.cancelRequested).toBe(true);
+      expect(mockRequest).toHaveBeenCalledWith('/jobs/job-1/cancel', { method: 'POST' });
+    });
+  });
+
+  describe('retry', () => {
+    it('should retry a job', async () => {
+      mockRequest.mockResolvedValue(mockJob({ status: 'PENDING', progress: 0 }));
+
+      const result = await resource.retry('job-1');
+
+      expect(result.status).toBe('PENDING');
+      expect(mockRequest).toHaveBeenCalledWith('/jobs/job-1/retry', { method: 'POST' });
+    });
+  });
+
+  describe('waitForCompletion', () => {
+    it('should poll until the job completes and return its result', async () => {
+      mockRequest
+        .mockResolvedValueOnce(mockJob({ progress: 10 }))
+        .mockResolvedValueOnce(mockJob({ progress: 60 }))
+        .mockResolvedValueOnce(
+          mockJob({ status: 'COMPLETED', progress: 100, result: { count: 12 } })
+        );
+      const onProgress = vi.fn();
+
+      const result = await resource.waitForCompletion('job-1', { pollInterval: 1, onProgress });
+
+      expect(result).toEqual({ count: 12 });
+      expect(mockRequest).toHaveBeenCalledTimes(3);
+      expect(onProgress.mock.calls.map(([job]) => job.progress)).toEqual([10, 60, 100]);
+    });
+
+    it('should throw a job error when the job fails', async () => {
+      mockRequest.mockResolvedValue(mockJob({ status: 'FAILED', error: 'Database unavailable' }));
+
+      const error = await resource.waitForCompletion('job-1').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(OpprsJobError);
+      expect((error as OpprsJobError).message).toBe('Database unavailable');
+      expect((error as OpprsJobError).job.status).toBe('FAILED');
+    });
+
+    it('should throw a job error when the job is cancelled', async () => {
+      mockRequest.mockResolvedValue(mockJob({ status: 'CANCELLED' }));
+
+      await expect(resource.waitForCompletion('job-1')).rejects.toThrow('Job job-1 was cancelled');
+    });
+
+    it('should time out when the job does not finish', async () => {
+      mockRequest.mockResolvedValue(mockJob());
+
+      await expect(
+        resource.waitForCompletion('job-1', { pollInterval: 5, timeout: 20 })
+      ).rejects.toThrow(OpprsTimeoutError);
+    });
+  });
+});
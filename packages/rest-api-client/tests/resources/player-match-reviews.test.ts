@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PlayerMatchReviewsResource } from '../../src/resources/player-match-reviews.js';
+import type { PlayerMatchReview } from '../../src/types/index.js';
+
+describe('PlayerMatchReviewsResource', () => {
+  let mockRequest: ReturnType<typeof vi.fn>;
+  let mockBuildQueryString: ReturnType<typeof vi.fn>;
+  let resource: PlayerMatchReviewsResource;
+
+  beforeEach(() => {
+    mockRequest = vi.fn();
+    mockBuildQueryString = vi.fn((params) => {
+      const searchParams = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      }
+      const queryString = searchParams.toString();
+      return queryString ? `?${queryString}` : '';
+    });
+    resource = new PlayerMatchReviewsResource(mockRequest, mockBuildQueryString);
+  });
+
+  const mockReview: PlayerMatchReview = {
+    id: 'review-1',
+    status: 'PENDING',
+    source: 'matchplay',
+    externalId: 'matchplay:123',
+    name: 'Alice Jonson',
+    candidates: [
+      {
+        playerId: 'player-1',
+        name: 'Alice Johnson',
+        playerNumber: 10001,
+        score: 0.6,
+        reasons: ['similarName'],
+      },
+    ],
+    playerId: 'player-2',
+    tournamentId: 'tournament-1',
+    createdAt: '2026-01-14T03:00:00Z',
+    updatedAt: '2026-01-14T03:00:00Z',
+  };
+
+  describe('list', () => {
+    it('should list reviews by status with pagination', async () => {
+      mockRequest.mockResolvedValue({
+        data: [mockReview],
+        pagination: { page: 1, limit: 20, total: 1, totalPages: 1 },
+      });
+
+      const result = await resource.list({ status: 'PENDING', page: 1 });
+
+      expect(mockRequest).toHaveBeenCalledWith('/player-match-reviews?status=PENDING&page=1');
+      expect(result.data[0]?.candidates[0]?.score).toBe(0.6);
+    });
+  });
+
+  describe('get', () => {
+    it('should get a review', async () => {
+      mockRequest.mockResolvedValue(mockReview);
+
+      await resource.get('review-1');
+
+      expect(mockRequest).toHaveBeenCalledWith('/player-match-reviews/review-1');
+    });
+  });
+
+  describe('match', () => {
+    it('should match the reviewed player to an existing player', async () => {
+      mockRequest.mockResolvedValue({ ...mockReview, status: 'MATCHED', playerId: null });
+
+      const result = await resource.match('review-1', 'player-1');
+
+      expect(mockRequest).toHaveBeenCalledWith('/player-match-reviews/review-1/match', {
+        method: 'POST',
+        body: JSON.stringify({ playerId: 'player-1' }),
+      });
+      expect(result.status).toBe('MATCHED');
+    });
+  });
+
+  describe('dismiss', () => {
+    it('should dismiss the review', async () => {
+      mockRequest.mockResolvedValue({ ...mockReview, status: 'DISMISSED' });
+
+      const result = await resource.dismiss('review-1');
+
+      expect(mockRequest).toHaveBeenCalledWith('/player-match-reviews/review-1/dismiss', {
+        method: 'POST',
+      });
+      expect(result.status).toBe('DISMISSED');
+    });
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PlayersResource } from '../../src/resources/players.js';
-import type { Player, PaginatedResponse } from '../../src/types/index.js';
+import type {
+  Player,
+  PlayerIdentity,
+  PlayerMerge,
+  PaginatedResponse,
+} from '../../src/types/index.js';
 
 describe('PlayersResource', () => {
   let mockRequest: ReturnType<typeof vi.fn>;
@@ -24,7 +29,6 @@ describe('PlayersResource', () => {
 
   const mockPlayer: Player = {
     id: '1',
-    externalId: null,
     name: 'Test Player',
     rating: 1500,
     ratingDeviation: 200,
@@ -199,6 +203,104 @@ describe('PlayersResource', () => {
     });
   });
 
+  const mockIdentity: PlayerIdentity = {
+    id: 'identity-1',
+    source: 'ifpa',
+    externalId: '4567',
+    status: 'VERIFIED',
+    playerId: '1',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  };
+
+  describe('addIdentity', () => {
+    it('should link external ID to player', async () => {
+      const identityData = { source: 'ifpa', externalId: '4567' };
+      mockRequest.mockResolvedValue(mockIdentity);
+
+      const result = await resource.addIdentity('1', identityData);
+
+      expect(result).toEqual(mockIdentity);
+      expect(mockRequest).toHaveBeenCalledWith('/players/1/identities', {
+        method: 'POST',
+        body: JSON.stringify(identityData),
+      });
+    });
+  });
+
+  describe('updateIdentity', () => {
+    it('should update external ID of player', async () => {
+      mockRequest.mockResolvedValue({ ...mockIdentity, status: 'UNVERIFIED' });
+
+      const result = await resource.updateIdentity('1', 'identity-1', { status: 'UNVERIFIED' });
+
+      expect(result.status).toBe('UNVERIFIED');
+      expect(mockRequest).toHaveBeenCalledWith('/players/1/identities/identity-1', {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'UNVERIFIED' }),
+      });
+    });
+  });
+
+  describe('removeIdentity', () => {
+    it('should unlink external ID from player', async () => {
+      mockRequest.mockResolvedValue(undefined);
+
+      await resource.removeIdentity('1', 'identity-1');
+
+      expect(mockRequest).toHaveBeenCalledWith('/players/1/identities/identity-1', {
+        method: 'DELETE',
+      });
+    });
+  });
+
+  const mockMerge: PlayerMerge = {
+    id: 'merge-1',
+    sourcePlayerId: '2',
+    sourcePlayerNumber: 10002,
+    sourceName: 'Test Player',
+    sourceExternalId: 'matchplay:123',
+    mergedIntoId: '1',
+    targetPlayerId: '1',
+    mergedById: 'user-1',
+    summary: {
+      standingsMoved: 3,
+      standingsDropped: 0,
+      tournamentsReassigned: 0,
+      userMoved: false,
+      identitiesMoved: 1,
+      rankingHistoryMoved: 2,
+      ratingTaken: false,
+    },
+    createdAt: '2025-01-01T00:00:00Z',
+  };
+
+  describe('merge', () => {
+    it('should merge player into target', async () => {
+      const mockResponse = { merge: mockMerge, player: mockPlayer, tournamentsRecalculated: 3 };
+      mockRequest.mockResolvedValue(mockResponse);
+
+      const result = await resource.merge('2', '1');
+
+      expect(result).toEqual(mockResponse);
+      expect(mockRequest).toHaveBeenCalledWith('/players/2/merge', {
+        method: 'POST',
+        body: JSON.stringify({ targetPlayerId: '1' }),
+      });
+    });
+  });
+
+  describe('getMerges', () => {
+    it('should get players merged into player', async () => {
+      mockRequest.mockResolvedValue([mockMerge]);
+
+      const result = await resource.getMerges('1');
+
+      expect(result).toEqual([mockMerge]);
+      expect(mockRequest).toHaveBeenCalledWith('/players/1/merges');
+    });
+  });
+
   describe('delete', () => {
     it('should delete player', async () => {
       mockRequest.mockResolvedValue(undefined);
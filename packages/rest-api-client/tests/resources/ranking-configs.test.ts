@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RankingConfigsResource } from '../../src/resources/ranking-configs.js';
+import type { RankingConfig, RankingConfigPreview } from '../../src/types/index.js';
+
+describe('RankingConfigsResource', () => {
+  let mockRequest: ReturnType<typeof vi.fn>;
+  let mockBuildQueryString: ReturnType<typeof vi.fn>;
+  let resource: RankingConfigsResource;
+
+  beforeEach(() => {
+    mockRequest = vi.fn();
+    mockBuildQueryString = vi.fn((params) => {
+      const searchParams = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      }
+      const queryString = searchParams.toString();
+      return queryString ? `?${queryString}` : '';
+    });
+    resource = new RankingConfigsResource(mockRequest, mockBuildQueryString);
+  });
+
+  const mockConfig: RankingConfig = {
+    id: 'rc-1',
+    version: '2026.1',
+    name: 'Bigger events',
+    description: null,
+    config: { BASE_VALUE: { MAX_BASE_VALUE: 64 } },
+    isActive: false,
+    activatedAt: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  };
+
+  describe('list', () => {
+    it('should list ranking configurations', async () => {
+      const response = {
+        data: [mockConfig],
+        pagination: { page: 1, limit: 20, total: 1, totalPages: 1 },
+      };
+      mockRequest.mockResolvedValue(response);
+
+      const result = await resource.list({ page: 1 });
+
+      expect(result).toEqual(response);
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs?page=1');
+    });
+  });
+
+  describe('getActive', () => {
+    it('should get the active configuration', async () => {
+      mockRequest.mockResolvedValue({ ...mockConfig, isActive: true });
+
+      await resource.getActive();
+
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs/active');
+    });
+  });
+
+  describe('create', () => {
+    it('should create a configuration', async () => {
+      mockRequest.mockResolvedValue(mockConfig);
+      const data = { version: '2026.1', name: 'Bigger events', config: mockConfig.config };
+
+      const result = await resource.create(data);
+
+      expect(result).toEqual(mockConfig);
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should update a configuration', async () => {
+      mockRequest.mockResolvedValue(mockConfig);
+
+      await resource.update('rc-1', { name: 'Renamed' });
+
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs/rc-1', {
+        method: 'PATCH',
+        body: JSON.stringify({ name: 'Renamed' }),
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete a configuration', async () => {
+      mockRequest.mockResolvedValue(undefined);
+
+      await resource.delete('rc-1');
+
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs/rc-1', { method: 'DELETE' });
+    });
+  });
+
+  describe('preview', () => {
+    it('should get the recalculation preview', async () => {
+      const preview: RankingConfigPreview = {
+        configId: 'rc-1',
+        version: '2026.1',
+        scope: 'full-recalculation',
+        tournamentsEvaluated: 1,
+        tournaments: [],
+        leaderboard: [],
+      };
+      mockRequest.mockResolvedValue(preview);
+
+      const result = await resource.preview('rc-1');
+
+      expect(result).toEqual(preview);
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs/rc-1/preview');
+    });
+  });
+
+  describe('activate / deactivate', () => {
+    it('should activate a configuration', async () => {
+      mockRequest.mockResolvedValue({ ...mockConfig, isActive: true });
+
+      await resource.activate('rc-1');
+
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs/rc-1/activate', {
+        method: 'POST',
+      });
+    });
+
+    it('should deactivate a configuration', async () => {
+      mockRequest.mockResolvedValue(mockConfig);
+
+      await resource.deactivate('rc-1');
+
+      expect(mockRequest).toHaveBeenCalledWith('/ranking-configs/rc-1/deactivate', {
+        method: 'POST',
+      });
+    });
+  });
+});
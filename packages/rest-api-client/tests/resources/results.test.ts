@@ -172,7 +172,11 @@ describe('StandingsResource', () => {
 
   describe('recalculateDecay', () => {
     it('should recalculate decay for all standings', async () => {
-      mockRequest.mockResolvedValue({ count: 100, message: 'Decay recalculated' });
+      mockRequest.mockResolvedValueOnce({ id: 'job-1', status: 'PENDING' }).mockResolvedValueOnce({
+        id: 'job-1',
+        status: 'COMPLETED',
+        result: { count: 100, tournamentsProcessed: 10, message: 'Decay recalculated' },
+      });
 
       const result = await resource.recalculateDecay();
 
@@ -180,6 +184,50 @@ describe('StandingsResource', () => {
       expect(mockRequest).toHaveBeenCalledWith('/standings/recalculate-decay', {
         method: 'POST',
       });
+      expect(mockRequest).toHaveBeenLastCalledWith('/jobs/job-1');
+    });
+  });
+
+  describe('refreshRankings', () => {
+    it('should refresh world rankings', async () => {
+      mockRequest.mockResolvedValue({ count: 50, rankedCount: 40, message: 'Rankings refreshed' });
+
+      const result = await resource.refreshRankings();
+
+      expect(result.rankedCount).toBe(40);
+      expect(mockRequest).toHaveBeenCalledWith('/standings/refresh-rankings', {
+        method: 'POST',
+      });
+    });
+  });
+
+  describe('replay', () => {
+    it('should replay history with options and wait for the job', async () => {
+      mockRequest.mockResolvedValueOnce({ id: 'job-1', status: 'PENDING' }).mockResolvedValueOnce({
+        id: 'job-1',
+        status: 'COMPLETED',
+        result: { dryRun: true, tournamentsReplayed: 12, written: null },
+      });
+
+      const result = await resource.replay({ dryRun: true, referenceDate: '2025-01-01' });
+
+      expect(result.tournamentsReplayed).toBe(12);
+      expect(mockRequest).toHaveBeenCalledWith('/standings/replay', {
+        method: 'POST',
+        body: JSON.stringify({ dryRun: true, referenceDate: '2025-01-01' }),
+      });
+      expect(mockRequest).toHaveBeenLastCalledWith('/jobs/job-1');
+    });
+
+    it('should send an empty body by default', async () => {
+      mockRequest.mockResolvedValue({ id: 'job-1', status: 'PENDING' });
+
+      await resource.queueReplay();
+
+      expect(mockRequest).toHaveBeenCalledWith('/standings/replay', {
+        method: 'POST',
+        body: '{}',
+      });
     });
   });
 });
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ScheduledTasksResource } from '../../src/resources/scheduled-tasks.js';
+import type { ScheduledTask } from '../../src/types/index.js';
+
+describe('ScheduledTasksResource', () => {
+  let mockRequest: ReturnType<typeof vi.fn>;
+  let mockBuildQueryString: ReturnType<typeof vi.fn>;
+  let resource: ScheduledTasksResource;
+
+  beforeEach(() => {
+    mockRequest = vi.fn();
+    mockBuildQueryString = vi.fn((params) => {
+      const searchParams = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      }
+      const queryString = searchParams.toString();
+      return queryString ? `?${queryString}` : '';
+    });
+    resource = new ScheduledTasksResource(mockRequest, mockBuildQueryString);
+  });
+
+  const mockTask: ScheduledTask = {
+    name: 'time-decay',
+    description: 'Decays the points of every standing to today',
+    schedule: '0 3 * * *',
+    enabled: true,
+    running: false,
+    lastRunAt: '2026-01-14T03:00:00Z',
+    nextRunAt: '2026-01-15T03:00:00Z',
+    lastRun: {
+      id: 'run-1',
+      status: 'SUCCEEDED',
+      runBy: 'api-1',
+      result: { count: 12 },
+      error: null,
+      startedAt: '2026-01-14T03:00:00Z',
+      completedAt: '2026-01-14T03:00:05Z',
+    },
+  };
+
+  describe('list', () => {
+    it('should list the tasks', async () => {
+      mockRequest.mockResolvedValue({ schedulerEnabled: true, tasks: [mockTask] });
+
+      const result = await resource.list();
+
+      expect(mockRequest).toHaveBeenCalledWith('/scheduled-tasks');
+      expect(result.tasks[0]?.lastRun?.status).toBe('SUCCEEDED');
+    });
+  });
+
+  describe('runs', () => {
+    it('should list the runs of a task with pagination', async () => {
+      mockRequest.mockResolvedValue({
+        data: [mockTask.lastRun],
+        pagination: { page: 2, limit: 10, total: 11, totalPages: 2 },
+      });
+
+      const result = await resource.runs('time-decay', { page: 2, limit: 10 });
+
+      expect(mockRequest).toHaveBeenCalledWith('/scheduled-tasks/time-decay/runs?page=2&limit=10');
+      expect(result.data).toHaveLength(1);
+    });
+  });
+
+  describe('run', () => {
+    it('should request a run of the task', async () => {
+      mockRequest.mockResolvedValue(mockTask);
+
+      const result = await resource.run('time-decay');
+
+      expect(mockRequest).toHaveBeenCalledWith('/scheduled-tasks/time-decay/run', {
+        method: 'POST',
+      });
+      expect(result.name).toBe('time-decay');
+    });
+  });
+});
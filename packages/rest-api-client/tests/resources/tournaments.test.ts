@@ -203,6 +203,43 @@ describe('TournamentsResource', () => {
     });
   });
 
+  describe('getTrace', () => {
+    it('should get tournament calculation trace', async () => {
+      const step = { description: 'Qualifying TGP', value: 0.28 };
+      const trace = {
+        tournamentId: '1',
+        rulesetVersion: 'default',
+        value: { baseValue: 5, firstPlaceValue: 50 },
+        stored: { baseValue: 5, firstPlaceValue: 48 },
+        trace: { tgp: { value: 1.24, steps: [step], capped: false } },
+      };
+
+      mockRequest.mockResolvedValue(trace);
+
+      const result = await resource.getTrace('1');
+
+      expect(result).toEqual(trace);
+      expect(mockRequest).toHaveBeenCalledWith('/tournaments/1/trace');
+    });
+  });
+
+  describe('recalculate', () => {
+    it('should recalculate tournament points', async () => {
+      const recalculation = {
+        tournamentId: '1',
+        rulesetVersion: 'default',
+        value: { baseValue: 5, firstPlaceValue: 50 },
+        standingsUpdated: 12,
+      };
+      mockRequest.mockResolvedValue(recalculation);
+
+      const result = await resource.recalculate('1');
+
+      expect(result).toEqual(recalculation);
+      expect(mockRequest).toHaveBeenCalledWith('/tournaments/1/recalculate', { method: 'POST' });
+    });
+  });
+
   describe('create', () => {
     it('should create tournament', async () => {
       const createData = {